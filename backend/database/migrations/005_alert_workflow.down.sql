@@ -0,0 +1,22 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Alert Workflow Schema
+-- ============================================
+-- Down Migration for: 005_alert_workflow.sql
+--
+-- WARNING: This will DROP alert comments and lifecycle data.
+-- ============================================
+
+DROP TABLE IF EXISTS alert_comments;
+
+DROP INDEX IF EXISTS idx_alerts_escalation;
+DROP INDEX IF EXISTS idx_alerts_assigned;
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS chk_alert_escalation_level;
+
+ALTER TABLE alerts DROP COLUMN IF EXISTS escalated_at;
+ALTER TABLE alerts DROP COLUMN IF EXISTS escalation_level;
+ALTER TABLE alerts DROP COLUMN IF EXISTS snoozed_by;
+ALTER TABLE alerts DROP COLUMN IF EXISTS snoozed_until;
+ALTER TABLE alerts DROP COLUMN IF EXISTS assigned_at;
+ALTER TABLE alerts DROP COLUMN IF EXISTS assigned_by;
+ALTER TABLE alerts DROP COLUMN IF EXISTS assigned_to;
@@ -0,0 +1,49 @@
+-- ============================================
+-- VaxTrace Nigeria - Alert Workflow Schema
+-- ============================================
+-- Migration: 005_alert_workflow.sql
+--
+-- Adds the alert lifecycle used by state cold chain officers:
+-- 1. Assignment of alerts to LGA logistics officers
+-- 2. Snoozing alerts until a given time
+-- 3. Escalation tracking up the location hierarchy
+--    (facility -> LGA -> state -> NPHCDA)
+-- 4. Comment threads on alerts
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+-- ============================================
+-- ALERT LIFECYCLE COLUMNS
+-- ============================================
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS snoozed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_level VARCHAR(20) DEFAULT 'facility';
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE alerts
+ADD CONSTRAINT chk_alert_escalation_level
+CHECK (escalation_level IN ('facility', 'lga', 'state', 'national'));
+
+CREATE INDEX idx_alerts_assigned ON alerts(assigned_to);
+CREATE INDEX idx_alerts_escalation ON alerts(severity, is_acknowledged, is_resolved, escalation_level);
+
+-- ============================================
+-- ALERT COMMENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS alert_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    comment TEXT NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_alert_comments_alert ON alert_comments(alert_id, created_at);
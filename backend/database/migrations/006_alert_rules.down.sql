@@ -0,0 +1,10 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Alert Rules Schema
+-- ============================================
+-- Down Migration for: 006_alert_rules.sql
+--
+-- WARNING: This will DROP all configured alert rules.
+-- ============================================
+
+DROP INDEX IF EXISTS idx_alerts_dedup_key;
+DROP TABLE IF EXISTS alert_rules;
@@ -0,0 +1,46 @@
+-- ============================================
+-- VaxTrace Nigeria - Alert Rules Schema
+-- ============================================
+-- Migration: 006_alert_rules.sql
+--
+-- Configurable rules for the scheduled alert engine. Each rule applies to
+-- one alert type and can be scoped to a vaccine, a state, both, or neither
+-- (national default). The most specific enabled rule wins:
+--   vaccine + state > vaccine > state > national
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_type alert_type_enum NOT NULL,
+    vaccine_id UUID REFERENCES vaccines(id) ON DELETE CASCADE,
+    state_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+
+    -- Rule Configuration
+    is_enabled BOOLEAN DEFAULT TRUE,
+    severity alert_severity_enum,
+    threshold DECIMAL(10,2),   -- Months, days, minutes or percent depending on alert_type
+    parameters JSONB DEFAULT '{}',
+    description TEXT,
+
+    -- Audit
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One rule per (type, vaccine, state) scope; NULL means "any"
+CREATE UNIQUE INDEX unique_alert_rule_scope ON alert_rules(
+    alert_type,
+    COALESCE(vaccine_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(state_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+CREATE INDEX idx_alert_rules_type ON alert_rules(alert_type, is_enabled);
+
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Deduplication lookups for engine-generated alerts
+CREATE INDEX idx_alerts_dedup_key ON alerts((data->>'dedupKey')) WHERE is_resolved = FALSE;
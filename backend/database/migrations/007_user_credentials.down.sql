@@ -0,0 +1,15 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Local User Credentials
+-- ============================================
+-- Down Migration for: 007_user_credentials.sql
+--
+-- WARNING: This will DROP all stored password and PIN hashes.
+-- ============================================
+
+DROP INDEX IF EXISTS idx_users_email_lower;
+DROP INDEX IF EXISTS idx_users_staff_id;
+
+ALTER TABLE users DROP COLUMN IF EXISTS pin_hash;
+ALTER TABLE users DROP COLUMN IF EXISTS password_hash;
+ALTER TABLE users DROP COLUMN IF EXISTS display_name;
+ALTER TABLE users DROP COLUMN IF EXISTS staff_id;
@@ -0,0 +1,28 @@
+-- ============================================
+-- VaxTrace Nigeria - Local User Credentials
+-- ============================================
+-- Migration: 007_user_credentials.sql
+--
+-- Moves authentication onto the users table (auth_provider = 'local'):
+-- 1. Staff ID used as a login identifier alongside email
+-- 2. Display name shown in the dashboard (full name stays encrypted)
+-- 3. bcrypt hashes for password and 6-digit PIN login
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+-- ============================================
+-- CREDENTIAL COLUMNS
+-- ============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS staff_id VARCHAR(50) UNIQUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS display_name VARCHAR(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_users_staff_id ON users(staff_id);
+CREATE INDEX IF NOT EXISTS idx_users_email_lower ON users(LOWER(email));
+
+COMMENT ON COLUMN users.password_hash IS 'bcrypt hash of the login password (local auth only)';
+COMMENT ON COLUMN users.pin_hash IS 'bcrypt hash of the 6-digit offline/field PIN';
+COMMENT ON COLUMN users.permissions IS 'Per-user permission overrides, e.g. {"edit_stock": false}';
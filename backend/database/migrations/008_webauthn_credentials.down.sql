@@ -0,0 +1,9 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback WebAuthn Credentials Schema
+-- ============================================
+-- Down Migration for: 008_webauthn_credentials.sql
+--
+-- WARNING: This will DROP all registered biometric credentials.
+-- ============================================
+
+DROP TABLE IF EXISTS webauthn_credentials;
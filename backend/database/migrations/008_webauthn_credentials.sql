@@ -0,0 +1,41 @@
+-- ============================================
+-- VaxTrace Nigeria - WebAuthn Credentials Schema
+-- ============================================
+-- Migration: 008_webauthn_credentials.sql
+--
+-- Stores FIDO2 / WebAuthn credentials used for biometric login:
+-- 1. One row per registered authenticator (a user may have several devices)
+-- 2. COSE public key used to verify login assertions
+-- 3. Signature counter to detect cloned authenticators
+-- 4. Revocation without deleting the audit trail
+--
+-- Replaces the credential ID previously stored in users.auth_provider_id.
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+-- ============================================
+-- WEBAUTHN CREDENTIALS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- Credential as issued by the authenticator (base64url)
+    credential_id VARCHAR(1024) UNIQUE NOT NULL,
+    public_key TEXT NOT NULL,  -- COSE_Key, base64url encoded
+    sign_count BIGINT NOT NULL DEFAULT 0,
+    aaguid VARCHAR(36),
+    transports TEXT[],
+
+    device_name VARCHAR(255),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_webauthn_credentials_user ON webauthn_credentials(user_id, revoked_at);
+
+COMMENT ON COLUMN webauthn_credentials.sign_count IS 'Last signature counter seen; a non-increasing counter indicates a cloned authenticator';
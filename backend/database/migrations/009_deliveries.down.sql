@@ -0,0 +1,13 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Delivery Confirmations Schema
+-- ============================================
+-- Down Migration for: 009_deliveries.sql
+--
+-- WARNING: This will DROP all delivery confirmations. Receipts already
+-- written to stock_ledger and stock_snapshots are kept.
+-- ============================================
+
+ALTER TABLE stock_ledger DROP COLUMN IF EXISTS quantity;
+
+DROP TABLE IF EXISTS delivery_items;
+DROP TABLE IF EXISTS deliveries;
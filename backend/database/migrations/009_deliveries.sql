@@ -0,0 +1,65 @@
+-- ============================================
+-- VaxTrace Nigeria - Delivery Confirmations Schema
+-- ============================================
+-- Migration: 009_deliveries.sql
+--
+-- Persists deliveries confirmed by QR scan at the receiving facility:
+-- 1. One delivery per scanned QR code (a code can only be received once)
+-- 2. One item per vaccine lot received
+-- 3. Signed quantity on stock_ledger so receipts record both the change
+--    and the resulting stock on hand
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+-- ============================================
+-- DELIVERIES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    qr_code_id VARCHAR(100) UNIQUE NOT NULL,
+    transfer_id VARCHAR(100) NOT NULL,
+
+    -- Receiving facility and the user who confirmed receipt
+    facility_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    confirmed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Condition on arrival
+    status VARCHAR(20) NOT NULL DEFAULT 'CONFIRMED' CHECK (status IN ('CONFIRMED', 'REJECTED', 'PENDING')),
+    vvm_stage INT NOT NULL CHECK (vvm_stage BETWEEN 1 AND 4),
+    temperature DECIMAL(4,1) NOT NULL,
+    notes TEXT,
+    latitude DECIMAL(9,6),
+    longitude DECIMAL(9,6),
+
+    -- delivered_at is the device time of the scan, confirmed_at the server time
+    delivered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    confirmed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_deliveries_transfer ON deliveries(transfer_id);
+CREATE INDEX idx_deliveries_facility ON deliveries(facility_id, confirmed_at DESC);
+
+-- ============================================
+-- DELIVERY ITEMS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS delivery_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    delivery_id UUID NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+    vaccine_id UUID NOT NULL REFERENCES vaccines(id) ON DELETE CASCADE,
+    lot_number VARCHAR(100),
+    expiry_date DATE,
+    quantity INT NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_delivery_items_delivery ON delivery_items(delivery_id);
+
+-- ============================================
+-- STOCK LEDGER
+-- ============================================
+
+ALTER TABLE stock_ledger ADD COLUMN IF NOT EXISTS quantity INT;
+
+COMMENT ON COLUMN stock_ledger.quantity IS 'Signed change in stock (positive for receipts); quantity_on_hand is the balance after the transaction';
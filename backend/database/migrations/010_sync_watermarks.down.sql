@@ -0,0 +1,15 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback OpenLMIS Sync Watermarks Schema
+-- ============================================
+-- Down Migration for: 010_sync_watermarks.sql
+--
+-- WARNING: Watermarks are lost; the next sync of every entity type is a
+-- full sync.
+-- ============================================
+
+DROP INDEX IF EXISTS idx_sync_logs_entity_scope;
+
+ALTER TABLE sync_logs DROP COLUMN IF EXISTS next_page;
+ALTER TABLE sync_logs DROP COLUMN IF EXISTS watermark;
+ALTER TABLE sync_logs DROP COLUMN IF EXISTS scope;
+ALTER TABLE sync_logs DROP COLUMN IF EXISTS entity_type;
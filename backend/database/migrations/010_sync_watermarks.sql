@@ -0,0 +1,25 @@
+-- ============================================
+-- VaxTrace Nigeria - OpenLMIS Sync Watermarks Schema
+-- ============================================
+-- Migration: 010_sync_watermarks.sql
+--
+-- Turns sync_logs into the record of per-entity, per-state sync progress:
+-- 1. entity_type and scope identify what a run synchronized
+--    (e.g. 'stockCards' for state 'NG-KN', or 'orderables' nationally)
+-- 2. watermark is the point in time a completed run covers; the next
+--    run only fetches records changed since then
+-- 3. next_page is the first page not yet applied, so an interrupted run
+--    can be resumed without re-downloading earlier pages
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS entity_type VARCHAR(50);
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS scope VARCHAR(100);
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS watermark TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS next_page INT DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_entity_scope ON sync_logs(entity_type, scope, started_at DESC);
+
+COMMENT ON COLUMN sync_logs.watermark IS 'Records changed after this time are fetched by the next sync of the same entity type and scope';
+COMMENT ON COLUMN sync_logs.next_page IS 'First page not yet applied; an interrupted sync resumes from here';
@@ -0,0 +1,11 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Webhook Inbox Schema
+-- ============================================
+-- Down Migration for: 011_webhook_inbox.sql
+--
+-- WARNING: This will DROP all stored webhook events, including events
+-- that have not been processed yet.
+-- ============================================
+
+DROP TRIGGER IF EXISTS update_webhook_events_updated_at ON webhook_events;
+DROP TABLE IF EXISTS webhook_events;
@@ -0,0 +1,42 @@
+-- ============================================
+-- VaxTrace Nigeria - Webhook Inbox Schema
+-- ============================================
+-- Migration: 011_webhook_inbox.sql
+--
+-- Durable inbox for incoming OpenLMIS webhook events:
+-- 1. Every event is stored before it is acknowledged, so events survive
+--    restarts
+-- 2. One row per source event ID, so redelivered events are ignored
+-- 3. Failed events are retried with exponential backoff and moved to the
+--    dead letter state once they run out of attempts; administrators can
+--    replay or discard them
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id VARCHAR(255) UNIQUE NOT NULL,  -- Source event ID (idempotency key)
+    source VARCHAR(50) NOT NULL DEFAULT 'openlmis',
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+
+    -- Processing state
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead_letter', 'discarded')),
+    attempts INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Due events, oldest first
+CREATE INDEX idx_webhook_events_due ON webhook_events(status, next_attempt_at);
+CREATE INDEX idx_webhook_events_received ON webhook_events(received_at DESC);
+CREATE INDEX idx_webhook_events_type ON webhook_events(event_type);
+
+CREATE TRIGGER update_webhook_events_updated_at BEFORE UPDATE ON webhook_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
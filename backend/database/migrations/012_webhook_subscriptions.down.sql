@@ -0,0 +1,13 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Outbound Webhook Schema
+-- ============================================
+-- Down Migration for: 012_webhook_subscriptions.sql
+--
+-- WARNING: This will DROP all partner subscriptions and their delivery
+-- logs, including deliveries that have not been sent yet.
+-- ============================================
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON webhook_deliveries;
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON webhook_subscriptions;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_subscriptions;
@@ -0,0 +1,11 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Last-Mile Delivery Records Schema
+-- ============================================
+-- Down Migration for: 013_lmd_records.sql
+--
+-- WARNING: This will DROP all synced LMD records. Devices keep their own
+-- copies and can resend them after the migration is reapplied.
+-- ============================================
+
+DROP TABLE IF EXISTS lmd_delivery_items;
+DROP TABLE IF EXISTS lmd_records;
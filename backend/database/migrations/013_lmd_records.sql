@@ -0,0 +1,79 @@
+-- ============================================
+-- VaxTrace Nigeria - Last-Mile Delivery Records Schema
+-- ============================================
+-- Migration: 013_lmd_records.sql
+--
+-- Persists last-mile delivery (LMD) records synced by field officers:
+-- 1. Records keep the ID generated on the device, so a record resent by an
+--    offline device updates the stored copy instead of duplicating it
+-- 2. One item per product/batch handed over at the facility
+-- 3. Indexes for the statistics and bottleneck queries, which filter on
+--    delivery time, state, LGA and facility
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+-- ============================================
+-- LMD RECORDS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lmd_records (
+    id VARCHAR(100) PRIMARY KEY,  -- Generated on the device
+
+    -- Receiving facility as captured on the device
+    facility_id VARCHAR(100) NOT NULL,
+    facility_name VARCHAR(200) NOT NULL,
+    lga_code VARCHAR(50) NOT NULL,
+    state_code VARCHAR(50) NOT NULL,
+
+    delivery_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    vvm_status VARCHAR(20) NOT NULL CHECK (vvm_status IN ('OK', 'WARNING', 'CRITICAL', 'NOT_TESTED')),
+
+    -- Vehicle position at handover
+    gps_latitude DECIMAL(9,6),
+    gps_longitude DECIMAL(9,6),
+    gps_accuracy DECIMAL(10,2),
+    gps_timestamp TIMESTAMP WITH TIME ZONE,
+
+    officer_id VARCHAR(100) NOT NULL,
+    officer_name VARCHAR(200) NOT NULL,
+
+    -- Device timestamps; a resend older than device_updated_at is ignored
+    device_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    device_updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_lmd_records_delivered ON lmd_records(delivery_timestamp DESC);
+CREATE INDEX idx_lmd_records_state ON lmd_records(state_code, delivery_timestamp DESC);
+CREATE INDEX idx_lmd_records_lga ON lmd_records(lga_code, delivery_timestamp DESC);
+CREATE INDEX idx_lmd_records_facility ON lmd_records(facility_id, delivery_timestamp DESC);
+
+CREATE TRIGGER update_lmd_records_updated_at BEFORE UPDATE ON lmd_records
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- LMD DELIVERY ITEMS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lmd_delivery_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    record_id VARCHAR(100) NOT NULL REFERENCES lmd_records(id) ON DELETE CASCADE,
+    line_number INT NOT NULL,  -- Position on the device, keeps items in capture order
+
+    product_code VARCHAR(50) NOT NULL,
+    product_name VARCHAR(200) NOT NULL,
+    quantity_delivered INT NOT NULL CHECK (quantity_delivered >= 0),
+    quantity_received INT NOT NULL CHECK (quantity_received >= 0),
+    batch_number VARCHAR(100) NOT NULL,
+    expiry_date DATE NOT NULL,
+    vvm_status VARCHAR(20) NOT NULL CHECK (vvm_status IN ('OK', 'WARNING', 'CRITICAL', 'NOT_TESTED')),
+    cold_chain_break BOOLEAN NOT NULL DEFAULT false,
+    notes TEXT
+);
+
+CREATE UNIQUE INDEX idx_lmd_delivery_items_record ON lmd_delivery_items(record_id, line_number);
+CREATE INDEX idx_lmd_delivery_items_product ON lmd_delivery_items(product_code, batch_number);
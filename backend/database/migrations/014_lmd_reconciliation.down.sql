@@ -0,0 +1,15 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback LMD Reconciliation Schema
+-- ============================================
+-- Down Migration for: 014_lmd_reconciliation.sql
+--
+-- Drops the stored reconciliation reports. Mismatch alerts already raised
+-- are kept.
+-- ============================================
+
+DROP INDEX IF EXISTS idx_lmd_records_reconciliation;
+
+ALTER TABLE lmd_records
+    DROP COLUMN IF EXISTS reconciled_at,
+    DROP COLUMN IF EXISTS reconciliation,
+    DROP COLUMN IF EXISTS reconciliation_status;
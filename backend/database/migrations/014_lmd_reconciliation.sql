@@ -0,0 +1,22 @@
+-- ============================================
+-- VaxTrace Nigeria - LMD Reconciliation Schema
+-- ============================================
+-- Migration: 014_lmd_reconciliation.sql
+--
+-- Stores the reconciliation report of each last-mile delivery: every item
+-- is compared with the approved requisition line item and with the
+-- dispatching store's ledger and lots. Items that disagree beyond the
+-- reconciliation_mismatch alert rule tolerance raise alerts.
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+ALTER TABLE lmd_records
+    ADD COLUMN IF NOT EXISTS reconciliation_status VARCHAR(20)
+        CHECK (reconciliation_status IN ('matched', 'mismatch', 'unmatched')),
+    ADD COLUMN IF NOT EXISTS reconciliation JSONB,
+    ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_lmd_records_reconciliation ON lmd_records(reconciliation_status);
+
+COMMENT ON COLUMN lmd_records.reconciliation IS 'Per-item comparison with the requisition line item and dispatching store ledger';
@@ -0,0 +1,25 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Facility Lot Register
+-- ============================================
+-- Down Migration for: 015_facility_product_batches.sql
+--
+-- Removes the facility lots and restores product_batches as the GS1
+-- catalogue. Lot quantities remain available in stock_snapshots.
+-- ============================================
+
+DELETE FROM product_batches WHERE facility_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_product_batches_updated_at ON product_batches;
+DROP INDEX IF EXISTS idx_batches_facility_expiry;
+ALTER TABLE product_batches DROP CONSTRAINT IF EXISTS unique_batch_facility_lot;
+DROP INDEX IF EXISTS idx_batches_catalogue;
+
+ALTER TABLE product_batches
+    DROP COLUMN IF EXISTS last_counted_at,
+    DROP COLUMN IF EXISTS quantity_on_hand,
+    DROP COLUMN IF EXISTS vaccine_id,
+    DROP COLUMN IF EXISTS facility_id;
+
+ALTER TABLE product_batches ALTER COLUMN batch_number TYPE VARCHAR(50);
+ALTER TABLE product_batches ALTER COLUMN product_id SET NOT NULL;
+ALTER TABLE product_batches ADD CONSTRAINT unique_batch_product UNIQUE (product_id, batch_number);
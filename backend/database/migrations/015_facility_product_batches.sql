@@ -0,0 +1,49 @@
+-- ============================================
+-- VaxTrace Nigeria - Facility Lot Register
+-- ============================================
+-- Migration: 015_facility_product_batches.sql
+--
+-- Turns product_batches (002) into the lot register of each facility:
+-- 1. One row per facility/vaccine/batch with its quantity on hand, expiry
+--    date and current VVM stage; stock on hand is the sum over these lots
+-- 2. Rows without a facility remain GS1 catalogue entries per product
+-- 3. Seeded from the latest stock snapshot of every lot. OpenLMIS sync,
+--    stock webhooks and delivery confirmations keep it up to date.
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+ALTER TABLE product_batches ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE product_batches ALTER COLUMN batch_number TYPE VARCHAR(100);  -- Same as stock_snapshots.lot_number
+
+ALTER TABLE product_batches
+    ADD COLUMN IF NOT EXISTS facility_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS vaccine_id UUID REFERENCES vaccines(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS quantity_on_hand INT NOT NULL DEFAULT 0 CHECK (quantity_on_hand >= 0),
+    ADD COLUMN IF NOT EXISTS last_counted_at TIMESTAMP WITH TIME ZONE;
+
+-- Batch numbers are unique per product in the catalogue, per facility/vaccine in the register
+ALTER TABLE product_batches DROP CONSTRAINT IF EXISTS unique_batch_product;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batches_catalogue ON product_batches(product_id, batch_number) WHERE facility_id IS NULL;
+ALTER TABLE product_batches ADD CONSTRAINT unique_batch_facility_lot UNIQUE (facility_id, vaccine_id, batch_number);
+
+CREATE INDEX IF NOT EXISTS idx_batches_facility_expiry ON product_batches(facility_id, vaccine_id, expiry_date)
+    WHERE quantity_on_hand > 0;
+
+DROP TRIGGER IF EXISTS update_product_batches_updated_at ON product_batches;
+CREATE TRIGGER update_product_batches_updated_at BEFORE UPDATE ON product_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Lots without an expiry date cannot be registered (expiry_date is required)
+INSERT INTO product_batches (facility_id, vaccine_id, batch_number, lot_number, expiry_date,
+                             vvm_stage_current, quantity_on_hand, last_counted_at)
+SELECT DISTINCT ON (ss.facility_id, ss.vaccine_id, ss.lot_number)
+       ss.facility_id, ss.vaccine_id, ss.lot_number, ss.lot_number, ss.expiry_date,
+       ss.vvm_stage, GREATEST(ss.quantity_on_hand, 0), ss.snapshot_date
+FROM stock_snapshots ss
+WHERE ss.lot_number IS NOT NULL
+  AND ss.expiry_date IS NOT NULL
+ORDER BY ss.facility_id, ss.vaccine_id, ss.lot_number, ss.snapshot_date DESC
+ON CONFLICT (facility_id, vaccine_id, batch_number) DO NOTHING;
+
+COMMENT ON COLUMN product_batches.quantity_on_hand IS 'Doses of the lot at facility_id; catalogue rows keep 0';
@@ -0,0 +1,15 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Stock Ledger Reason Codes
+-- ============================================
+-- Down Migration for: 016_stock_ledger_reasons.sql
+--
+-- Drops the reason codes and notes. Loss entries keep their transaction
+-- type and quantity.
+-- ============================================
+
+DROP INDEX IF EXISTS idx_ledger_reason;
+DROP INDEX IF EXISTS idx_ledger_history;
+
+ALTER TABLE stock_ledger
+    DROP COLUMN IF EXISTS notes,
+    DROP COLUMN IF EXISTS reason_code;
@@ -0,0 +1,28 @@
+-- ============================================
+-- VaxTrace Nigeria - Stock Ledger Reason Codes
+-- ============================================
+-- Migration: 016_stock_ledger_reasons.sql
+--
+-- Standardised reasons on stock_ledger entries: losses recorded against a
+-- lot (damaged, expired, VVM discard, lost) and transfers between stores
+-- (delivery receipts are transfers in, issues to a facility transfers out).
+-- The history index serves ledger reads, which compute running balances
+-- per facility and vaccine in entry order.
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+ALTER TABLE stock_ledger
+    ADD COLUMN IF NOT EXISTS reason_code VARCHAR(30)
+        CHECK (reason_code IN ('damaged', 'expired', 'vvm_discard', 'lost', 'transfer_in', 'transfer_out')),
+    ADD COLUMN IF NOT EXISTS notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_history ON stock_ledger(facility_id, vaccine_id, snapshot_time);
+CREATE INDEX IF NOT EXISTS idx_ledger_reason ON stock_ledger(reason_code) WHERE reason_code IS NOT NULL;
+
+-- Existing delivery receipts are transfers in
+UPDATE stock_ledger
+SET reason_code = 'transfer_in'
+WHERE transaction_type = 'receipt' AND transaction_reference LIKE 'delivery:%' AND reason_code IS NULL;
+
+COMMENT ON COLUMN stock_ledger.reason_code IS 'Standardised reason of a loss or transfer';
@@ -0,0 +1,10 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Signed Delivery Manifests
+-- ============================================
+-- Down Migration for: 017_delivery_manifests.sql
+--
+-- WARNING: This will DROP all delivery manifests. Printed QR codes can no
+-- longer be received. Confirmed deliveries are kept.
+-- ============================================
+
+DROP TABLE IF EXISTS delivery_manifests;
@@ -0,0 +1,44 @@
+-- ============================================
+-- VaxTrace Nigeria - Signed Delivery Manifests
+-- ============================================
+-- Migration: 017_delivery_manifests.sql
+--
+-- Shipment manifests generated by the issuing store and printed as a QR code:
+-- 1. The manifest lists the lots, quantities and expiry dates shipped from
+--    the origin store to the destination facility
+-- 2. token is the QR payload, signed with the server's ECDSA P-256 key
+--    (key_id identifies the key), so devices can verify it offline
+-- 3. A manifest is received once: confirming the delivery sets consumed_at
+--    and links the delivery; deliveries.qr_code_id is the manifest ID
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS delivery_manifests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transfer_id VARCHAR(100) NOT NULL,
+
+    origin_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    destination_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+
+    -- [{ vaccineCode, lotNumber, expiryDate, quantity }]
+    items JSONB NOT NULL,
+
+    token TEXT NOT NULL,
+    key_id VARCHAR(64) NOT NULL,
+
+    issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    delivery_id UUID REFERENCES deliveries(id) ON DELETE SET NULL,
+
+    CHECK (origin_id <> destination_id)
+);
+
+CREATE INDEX idx_manifests_transfer ON delivery_manifests(transfer_id);
+CREATE INDEX idx_manifests_destination ON delivery_manifests(destination_id, issued_at DESC);
+
+COMMENT ON COLUMN delivery_manifests.token IS 'Signed QR payload: VXT1.<base64url payload>.<base64url ES256 signature>';
+COMMENT ON COLUMN delivery_manifests.consumed_at IS 'Time the manifest was received; a consumed manifest cannot be received again';
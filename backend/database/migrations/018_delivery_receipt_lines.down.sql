@@ -0,0 +1,20 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Line-Item Delivery Receipts
+-- ============================================
+-- Down Migration for: 018_delivery_receipt_lines.sql
+--
+-- WARNING: This will DROP shipment photos, damaged quantities and per-lot
+-- VVM stages. Items received with no usable doses are deleted.
+-- ============================================
+
+ALTER TABLE deliveries
+    DROP COLUMN IF EXISTS photo_content_type,
+    DROP COLUMN IF EXISTS photo;
+
+DELETE FROM delivery_items WHERE quantity = 0;
+ALTER TABLE delivery_items DROP CONSTRAINT IF EXISTS delivery_items_quantity_check;
+ALTER TABLE delivery_items ADD CONSTRAINT delivery_items_quantity_check CHECK (quantity > 0);
+
+ALTER TABLE delivery_items
+    DROP COLUMN IF EXISTS vvm_stage,
+    DROP COLUMN IF EXISTS damaged_quantity;
@@ -0,0 +1,28 @@
+-- ============================================
+-- VaxTrace Nigeria - Line-Item Delivery Receipts
+-- ============================================
+-- Migration: 018_delivery_receipt_lines.sql
+--
+-- Proof of delivery captured per manifest line at the receiving facility:
+-- 1. delivery_items.quantity is the doses received into stock; doses that
+--    arrived damaged are recorded separately and never enter stock
+-- 2. VVM stage read on each lot (deliveries.vvm_stage is the worst of them)
+-- 3. A photo of the shipment on arrival
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+ALTER TABLE delivery_items
+    ADD COLUMN IF NOT EXISTS damaged_quantity INT NOT NULL DEFAULT 0 CHECK (damaged_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS vvm_stage INT CHECK (vvm_stage BETWEEN 1 AND 4);
+
+-- A lot may arrive entirely damaged
+ALTER TABLE delivery_items DROP CONSTRAINT IF EXISTS delivery_items_quantity_check;
+ALTER TABLE delivery_items ADD CONSTRAINT delivery_items_quantity_check CHECK (quantity >= 0);
+
+ALTER TABLE deliveries
+    ADD COLUMN IF NOT EXISTS photo BYTEA,
+    ADD COLUMN IF NOT EXISTS photo_content_type VARCHAR(50);
+
+COMMENT ON COLUMN delivery_items.damaged_quantity IS 'Doses that arrived damaged; not added to stock';
+COMMENT ON COLUMN deliveries.photo IS 'Photo of the shipment on arrival (JPEG, PNG or WebP)';
@@ -0,0 +1,10 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Trained ML Models
+-- ============================================
+-- Down Migration for: 019_ml_models.sql
+--
+-- WARNING: This will DROP all trained model versions. Models are retrained
+-- by the next scheduled training run.
+-- ============================================
+
+DROP TABLE IF EXISTS ml_models;
@@ -0,0 +1,40 @@
+-- ============================================
+-- VaxTrace Nigeria - Trained ML Models
+-- ============================================
+-- Migration: 019_ml_models.sql
+--
+-- Model versions trained by the scheduled ML training job:
+-- 1. model is the serialized model state (see ModelRegistry.exportModel),
+--    metrics the evaluation of the version on held-out history
+-- 2. Training reads consumption from stock_ledger and outcomes from
+--    logistics_metrics between training_from and training_to
+-- 3. One version per model is current; it is reloaded at startup
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ml_models (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(50) NOT NULL,
+    version VARCHAR(50) NOT NULL,
+
+    -- { type, state }
+    model JSONB NOT NULL,
+    metrics JSONB NOT NULL DEFAULT '{}',
+
+    data_points INT NOT NULL DEFAULT 0,
+    training_from DATE,
+    training_to DATE,
+
+    is_current BOOLEAN NOT NULL DEFAULT false,
+    trained_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    trained_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_ml_model_version UNIQUE (name, version)
+);
+
+CREATE UNIQUE INDEX idx_ml_models_current ON ml_models(name) WHERE is_current;
+CREATE INDEX idx_ml_models_trained ON ml_models(name, trained_at DESC);
+
+COMMENT ON COLUMN ml_models.model IS 'Serialized model state: { type: ets | isolation-forest | random-forest | lstm, state }';
+COMMENT ON COLUMN ml_models.is_current IS 'Version served by the predictive insights API; at most one per model';
@@ -0,0 +1,10 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Consumption Forecasts
+-- ============================================
+-- Down Migration for: 020_consumption_forecasts.sql
+--
+-- WARNING: This will DROP all consumption forecasts. They are regenerated
+-- by the next scheduled forecast run.
+-- ============================================
+
+DROP TABLE IF EXISTS consumption_forecasts;
@@ -0,0 +1,48 @@
+-- ============================================
+-- VaxTrace Nigeria - Consumption Forecasts
+-- ============================================
+-- Migration: 020_consumption_forecasts.sql
+--
+-- Daily consumption forecasts per facility and vaccine, generated nightly:
+-- 1. Every facility, LGA, state and the country has its own forecast per
+--    vaccine (base_forecast), fitted on its consumption in stock_ledger
+-- 2. forecast is reconciled top-down, so facility forecasts sum to their
+--    LGA, LGA forecasts to their state and state forecasts to the country
+-- 3. mape and bias are the errors of the reconciled forecast on the most
+--    recent days held out of a backtest run
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS consumption_forecasts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    level VARCHAR(20) NOT NULL CHECK (level IN ('facility', 'lga', 'state', 'national')),
+    -- NULL for the national series and facilities without an LGA or state
+    location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+    lga_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+    state_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+    vaccine_id UUID NOT NULL REFERENCES vaccines(id) ON DELETE CASCADE,
+
+    -- Daily doses from horizon_start
+    horizon_start DATE NOT NULL,
+    forecast JSONB NOT NULL,
+    base_forecast JSONB NOT NULL,
+    method VARCHAR(20) NOT NULL,
+
+    -- Backtest of the reconciled forecast
+    mape DECIMAL(7,2),
+    bias DECIMAL(12,2),
+    backtest_days INT NOT NULL DEFAULT 0,
+    data_points INT NOT NULL DEFAULT 0,
+
+    generated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_consumption_forecast UNIQUE NULLS NOT DISTINCT (level, location_id, lga_id, state_id, vaccine_id)
+);
+
+CREATE INDEX idx_forecasts_location ON consumption_forecasts(location_id, vaccine_id);
+CREATE INDEX idx_forecasts_vaccine ON consumption_forecasts(vaccine_id, level);
+
+COMMENT ON COLUMN consumption_forecasts.forecast IS 'Reconciled daily doses; sums to the forecast of the parent series';
+COMMENT ON COLUMN consumption_forecasts.base_forecast IS 'Daily doses forecast from the series alone, before reconciliation';
+COMMENT ON COLUMN consumption_forecasts.bias IS 'Mean daily forecast error in doses; positive when forecasts are too high';
@@ -0,0 +1,10 @@
+-- ============================================
+-- VaxTrace Nigeria - Rollback Forecast Backtests
+-- ============================================
+-- Down Migration for: 021_forecast_backtests.sql
+--
+-- WARNING: This will DROP all backtest results. Consumption forecasts fall
+-- back to ETS until a new backtest is promoted.
+-- ============================================
+
+DROP TABLE IF EXISTS forecast_backtests;
@@ -0,0 +1,44 @@
+-- ============================================
+-- VaxTrace Nigeria - Forecast Backtests
+-- ============================================
+-- Migration: 021_forecast_backtests.sql
+--
+-- Rolling-origin backtests of the consumption forecasting methods
+-- (rule-based, ETS, LSTM, ensemble) on the history in stock_ledger:
+-- 1. results holds the accuracy of every method per vaccine and state,
+--    summary the accuracy of every method over all series
+-- 2. winner is the most accurate method, comparison the paired A/B test
+--    of the winner against the rule-based baseline
+-- 3. The winner of the current backtest is the method consumption
+--    forecasts are generated with; at most one backtest is current
+--
+-- Compatible with PostgreSQL 16
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS forecast_backtests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    version VARCHAR(50) NOT NULL UNIQUE,
+
+    -- Evaluation settings
+    horizon_days INT NOT NULL,
+    origins INT NOT NULL,
+    step_days INT NOT NULL,
+    lookback_days INT NOT NULL,
+    series INT NOT NULL DEFAULT 0,
+
+    results JSONB NOT NULL DEFAULT '[]',
+    summary JSONB NOT NULL DEFAULT '[]',
+    comparison JSONB,
+    winner VARCHAR(20) CHECK (winner IN ('rule-based', 'ets', 'lstm', 'ensemble')),
+
+    is_current BOOLEAN NOT NULL DEFAULT false,
+    promoted_at TIMESTAMP WITH TIME ZONE,
+    run_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_forecast_backtests_current ON forecast_backtests(is_current) WHERE is_current;
+CREATE INDEX idx_forecast_backtests_created ON forecast_backtests(created_at DESC);
+
+COMMENT ON COLUMN forecast_backtests.results IS 'Accuracy per vaccine, state and method: samples, mae, mape, bias, accuracy';
+COMMENT ON COLUMN forecast_backtests.is_current IS 'Promoted backtest; its winner generates the consumption forecasts';
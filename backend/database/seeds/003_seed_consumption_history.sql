@@ -0,0 +1,72 @@
+-- ============================================
+-- VaxTrace Nigeria - Consumption History Seed Data
+-- ============================================
+-- This seed file populates stock_ledger with:
+-- A year of synthetic daily issues for the sample facilities and the
+-- main routine vaccines, ending yesterday
+-- Weekly clinic patterns (quiet weekends, busy immunization days)
+-- and a slow upward trend, so forecasts and backtests can be run
+-- offline (npm run backtest)
+--
+-- Run after 001_seed_locations.sql and 002_seed_vaccines.sql
+-- ============================================
+
+-- Reproducible noise
+SELECT setseed(0.42);
+
+INSERT INTO stock_ledger (
+    facility_id, lga_id, state_id, vaccine_id,
+    quantity_on_hand, quantity, transaction_type, transaction_reference,
+    snapshot_date, snapshot_time
+)
+SELECT
+    f.id,
+    lga.id,
+    lga.parent_id,
+    v.id,
+    -- Restocked every four weeks
+    ROUND(daily.doses * (28 - day.n % 28)),
+    -ROUND(daily.doses),
+    'issue',
+    'seed-issue:' || f.code || ':' || v.code || ':' || to_char(day.date, 'YYYY-MM-DD'),
+    day.date,
+    day.date + TIME '12:00'
+FROM locations f
+JOIN locations lga ON lga.id = f.parent_id
+CROSS JOIN vaccines v
+CROSS JOIN LATERAL (
+    SELECT n, (CURRENT_DATE - 365 + n)::date AS date
+    FROM generate_series(0, 364) AS n
+) AS day
+CROSS JOIN LATERAL (
+    SELECT GREATEST(0,
+        -- Facility size and vaccine demand
+        (CASE f.properties->>'level' WHEN 'Tertiary' THEN 40 WHEN 'Secondary' THEN 25 ELSE 12 END)
+        * (CASE v.code WHEN 'OPV' THEN 1.2 WHEN 'PENTA' THEN 1.0 WHEN 'BCG' THEN 0.8 ELSE 0.6 END)
+        -- Weekly pattern: immunization days mid-week, quiet weekends
+        * (CASE EXTRACT(ISODOW FROM day.date) WHEN 6 THEN 0.3 WHEN 7 THEN 0.1 WHEN 3 THEN 1.4 ELSE 1.0 END)
+        -- Demand grows ~10% over the year
+        * (1 + day.n / 3650.0)
+        * (0.85 + random() * 0.3)
+    ) AS doses
+) AS daily
+WHERE f.type = 'facility'
+  AND v.code IN ('BCG', 'OPV', 'PENTA', 'MEASLES')
+ON CONFLICT ON CONSTRAINT unique_ledger_entry DO NOTHING;
+
+-- ============================================
+-- SUMMARY
+-- ============================================
+-- Total records created:
+-- - 365 days x 7 Sample Facilities x 4 Vaccines of issues
+
+-- Verify the seed data
+SELECT
+    v.code,
+    COUNT(*) AS days,
+    SUM(-l.quantity) AS doses_issued
+FROM stock_ledger l
+JOIN vaccines v ON v.id = l.vaccine_id
+WHERE l.transaction_reference LIKE 'seed-issue:%'
+GROUP BY v.code
+ORDER BY v.code;
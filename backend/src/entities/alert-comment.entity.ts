@@ -0,0 +1,44 @@
+/**
+ * VaxTrace Nigeria - Alert Comment Entity
+ * 
+ * Comment threads attached to alerts by officers working them
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Alert } from './alert.entity';
+import { User } from './user.entity';
+
+@Entity('alert_comments')
+@Index('idx_alert_comments_alert', ['alertId', 'createdAt'])
+export class AlertComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  alertId: string;
+
+  @ManyToOne(() => Alert, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alert_id' })
+  alert: Alert;
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @Column({ type: 'text' })
+  comment: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+}
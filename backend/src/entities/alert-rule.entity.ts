@@ -0,0 +1,74 @@
+/**
+ * VaxTrace Nigeria - Alert Rule Entity
+ * 
+ * Configurable thresholds for the scheduled alert engine, scoped per vaccine and/or state
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { AlertType, AlertSeverity } from './alert.entity';
+import { Location } from './location.entity';
+import { Vaccine } from './vaccine.entity';
+
+@Entity('alert_rules')
+@Index('idx_alert_rules_type', ['alertType', 'isEnabled'])
+export class AlertRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'enum',
+    enum: AlertType
+  })
+  alertType: AlertType;
+
+  @Column({ type: 'uuid', nullable: true })
+  vaccineId: string;
+
+  @ManyToOne(() => Vaccine, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vaccine_id' })
+  vaccine?: Vaccine;
+
+  @Column({ type: 'uuid', nullable: true })
+  stateId: string;
+
+  @ManyToOne(() => Location, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'state_id' })
+  state?: Location;
+
+  @Column({ type: 'boolean', default: true })
+  isEnabled: boolean;
+
+  @Column({
+    type: 'enum',
+    enum: AlertSeverity,
+    nullable: true
+  })
+  severity: AlertSeverity;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  threshold: number;
+
+  @Column({ type: 'jsonb', default: {} })
+  parameters: Record<string, any>;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  updatedBy: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
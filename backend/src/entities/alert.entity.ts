@@ -36,6 +36,13 @@ export enum AlertSeverity {
   CRITICAL = 'critical',
 }
 
+export enum EscalationLevel {
+  FACILITY = 'facility',
+  LGA = 'lga',
+  STATE = 'state',
+  NATIONAL = 'national',
+}
+
 @Entity('alerts')
 @Index('idx_alerts_facility', ['facilityId'])
 @Index('idx_alerts_lga', ['lgaId'])
@@ -44,6 +51,7 @@ export enum AlertSeverity {
 @Index('idx_alerts_severity', ['severity'])
 @Index('idx_alerts_status', ['isAcknowledged', 'isResolved'])
 @Index('idx_alerts_created', ['createdAt'])
+@Index('idx_alerts_assigned', ['assignedTo'])
 export class Alert {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -126,6 +134,35 @@ export class Alert {
   @Column({ type: 'text', nullable: true })
   resolutionNotes: string;
 
+  @Column({ type: 'uuid', nullable: true })
+  assignedTo: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assigned_to' })
+  assignedToUser?: User;
+
+  @Column({ type: 'uuid', nullable: true })
+  assignedBy: string;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  assignedAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  snoozedUntil: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  snoozedBy: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: EscalationLevel.FACILITY
+  })
+  escalationLevel: EscalationLevel;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  escalatedAt: Date;
+
   @Column({ type: 'boolean', default: false })
   notificationSent: boolean;
 
@@ -0,0 +1,96 @@
+/**
+ * VaxTrace Nigeria - Audit Log Entity
+ *
+ * Immutable (write-once) record of who did what, for NDPR compliance reviews.
+ * The audit_logs_immutable trigger rejects any UPDATE or DELETE.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Location } from './location.entity';
+
+export enum AuditStatus {
+  SUCCESS = 'SUCCESS',
+  FAILURE = 'FAILURE',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+}
+
+@Entity('audit_logs')
+@Index('idx_audit_user', ['userId', 'createdAt'])
+@Index('idx_audit_action', ['actionType', 'createdAt'])
+@Index('idx_audit_resource', ['resourceType', 'resourceId', 'createdAt'])
+@Index('idx_audit_status', ['actionStatus', 'createdAt'])
+export class AuditLog {
+  @PrimaryGeneratedColumn({ type: 'bigint' })
+  id: string;
+
+  // Actor
+  @Column({ type: 'uuid', nullable: true })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  userRole: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userEmail: string;
+
+  // Action
+  @Column({ type: 'varchar', length: 50 })
+  actionType: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  resourceType: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  resourceId: string;
+
+  // Request context
+  @Column({ type: 'inet', nullable: true })
+  ipAddress: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  requestId: string;
+
+  // Data changes
+  @Column({ type: 'jsonb', nullable: true })
+  oldValues: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  newValues: Record<string, any>;
+
+  // Authorization
+  @Column({ type: 'uuid', nullable: true })
+  locationAccessed: string;
+
+  @ManyToOne(() => Location, { nullable: true })
+  @JoinColumn({ name: 'location_accessed' })
+  location?: Location;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  accessLevel: string;
+
+  // Result
+  @Column({ type: 'varchar', length: 20, default: AuditStatus.SUCCESS })
+  actionStatus: AuditStatus;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'NOW()' })
+  createdAt: Date;
+}
@@ -0,0 +1,72 @@
+/**
+ * VaxTrace Nigeria - Consumption Forecast Entity
+ *
+ * Reconciled daily consumption forecasts per location level and vaccine
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ForecastLevel {
+  FACILITY = 'facility',
+  LGA = 'lga',
+  STATE = 'state',
+  NATIONAL = 'national',
+}
+
+@Entity('consumption_forecasts')
+@Index('idx_forecasts_location', ['locationId', 'vaccineId'])
+@Index('idx_forecasts_vaccine', ['vaccineId', 'level'])
+export class ConsumptionForecast {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  level: ForecastLevel;
+
+  // NULL for the national series
+  @Column({ type: 'uuid', nullable: true })
+  locationId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  lgaId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  stateId: string;
+
+  @Column({ type: 'uuid' })
+  vaccineId: string;
+
+  @Column({ type: 'date' })
+  horizonStart: Date;
+
+  // Daily doses, reconciled with the parent series
+  @Column({ type: 'jsonb' })
+  forecast: number[];
+
+  @Column({ type: 'jsonb' })
+  baseForecast: number[];
+
+  @Column({ type: 'varchar', length: 20 })
+  method: string;
+
+  @Column({ type: 'decimal', precision: 7, scale: 2, nullable: true })
+  mape: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, nullable: true })
+  bias: number;
+
+  @Column({ type: 'int', default: 0 })
+  backtestDays: number;
+
+  @Column({ type: 'int', default: 0 })
+  dataPoints: number;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  generatedAt: Date;
+}
@@ -0,0 +1,54 @@
+/**
+ * VaxTrace Nigeria - Delivery Item Entity
+ * 
+ * Vaccine lots received in a confirmed delivery
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Delivery } from './delivery.entity';
+import { Vaccine } from './vaccine.entity';
+
+@Entity('delivery_items')
+@Index('idx_delivery_items_delivery', ['deliveryId'])
+export class DeliveryItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  deliveryId: string;
+
+  @ManyToOne(() => Delivery, (delivery) => delivery.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'delivery_id' })
+  delivery?: Delivery;
+
+  @Column({ type: 'uuid' })
+  vaccineId: string;
+
+  @ManyToOne(() => Vaccine, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vaccine_id' })
+  vaccine?: Vaccine;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  lotNumber: string;
+
+  @Column({ type: 'date', nullable: true })
+  expiryDate: Date;
+
+  // Doses received into stock
+  @Column({ type: 'int' })
+  quantity: number;
+
+  // Doses that arrived damaged; not added to stock
+  @Column({ type: 'int', default: 0 })
+  damagedQuantity: number;
+
+  @Column({ type: 'int', nullable: true })
+  vvmStage: number;
+}
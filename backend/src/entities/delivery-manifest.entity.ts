@@ -0,0 +1,78 @@
+/**
+ * VaxTrace Nigeria - Delivery Manifest Entity
+ *
+ * Signed shipment manifests printed as a QR code; each is received once
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Location } from './location.entity';
+import { Delivery } from './delivery.entity';
+
+export interface DeliveryManifestItem {
+  vaccineCode: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+@Entity('delivery_manifests')
+@Index('idx_manifests_transfer', ['transferId'])
+@Index('idx_manifests_destination', ['destinationId', 'issuedAt'])
+export class DeliveryManifest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  transferId: string;
+
+  @Column({ type: 'uuid' })
+  originId: string;
+
+  @ManyToOne(() => Location, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'origin_id' })
+  origin?: Location;
+
+  @Column({ type: 'uuid' })
+  destinationId: string;
+
+  @ManyToOne(() => Location, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'destination_id' })
+  destination?: Location;
+
+  @Column({ type: 'jsonb' })
+  items: DeliveryManifestItem[];
+
+  // Signed QR payload (VXT1.<payload>.<signature>)
+  @Column({ type: 'text' })
+  token: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  keyId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  issuedBy: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  issuedAt: Date;
+
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  consumedAt: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  deliveryId: string;
+
+  @ManyToOne(() => Delivery, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'delivery_id' })
+  delivery?: Delivery;
+}
@@ -0,0 +1,92 @@
+/**
+ * VaxTrace Nigeria - Delivery Entity
+ * 
+ * Deliveries confirmed by QR scan at the receiving facility
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Location } from './location.entity';
+import { User } from './user.entity';
+import { DeliveryItem } from './delivery-item.entity';
+
+export enum DeliveryStatus {
+  CONFIRMED = 'CONFIRMED',
+  REJECTED = 'REJECTED',
+  PENDING = 'PENDING',
+}
+
+@Entity('deliveries')
+@Index('idx_deliveries_transfer', ['transferId'])
+@Index('idx_deliveries_facility', ['facilityId', 'confirmedAt'])
+export class Delivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  qrCodeId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  transferId: string;
+
+  @Column({ type: 'uuid' })
+  facilityId: string;
+
+  @ManyToOne(() => Location, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'facility_id' })
+  facility?: Location;
+
+  @Column({ type: 'uuid', nullable: true })
+  confirmedBy: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'confirmed_by' })
+  confirmedByUser?: User;
+
+  @Column({ type: 'varchar', length: 20, default: DeliveryStatus.CONFIRMED })
+  status: DeliveryStatus;
+
+  @Column({ type: 'int' })
+  vvmStage: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 4,
+    scale: 1,
+    transformer: { to: (value: number) => value, from: (value: string) => Number(value) },
+  })
+  temperature: number;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string;
+
+  @Column({ type: 'decimal', precision: 9, scale: 6, nullable: true })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 9, scale: 6, nullable: true })
+  longitude: number;
+
+  // Photo of the shipment on arrival; loaded only when requested
+  @Column({ type: 'bytea', nullable: true, select: false })
+  photo: Buffer;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  photoContentType: string;
+
+  @Column({ type: 'timestamp with time zone' })
+  deliveredAt: Date;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  confirmedAt: Date;
+
+  @OneToMany(() => DeliveryItem, (item) => item.delivery, { cascade: ['insert'] })
+  items: DeliveryItem[];
+}
@@ -0,0 +1,64 @@
+/**
+ * VaxTrace Nigeria - Forecast Backtest Entity
+ *
+ * Rolling-origin backtests of the consumption forecasting methods
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('forecast_backtests')
+@Index('idx_forecast_backtests_created', ['createdAt'])
+export class ForecastBacktest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50, unique: true })
+  version: string;
+
+  @Column({ type: 'int' })
+  horizonDays: number;
+
+  @Column({ type: 'int' })
+  origins: number;
+
+  @Column({ type: 'int' })
+  stepDays: number;
+
+  @Column({ type: 'int' })
+  lookbackDays: number;
+
+  @Column({ type: 'int', default: 0 })
+  series: number;
+
+  // Accuracy per vaccine, state and method
+  @Column({ type: 'jsonb', default: [] })
+  results: Record<string, any>[];
+
+  // Accuracy per method over all series
+  @Column({ type: 'jsonb', default: [] })
+  summary: Record<string, any>[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  comparison: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  winner: string;
+
+  @Column({ type: 'boolean', default: false })
+  isCurrent: boolean;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  promotedAt: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  runBy: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+}
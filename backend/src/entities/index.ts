@@ -7,10 +7,26 @@
 export { Location, LocationType } from './location.entity';
 export { Vaccine } from './vaccine.entity';
 export { User, UserRole } from './user.entity';
+export { WebAuthnCredential } from './webauthn-credential.entity';
 export { StockSnapshot, StockStatus } from './stock-snapshot.entity';
-export { StockLedger } from './stock-ledger.entity';
+export { StockLedger, StockLedgerReason } from './stock-ledger.entity';
+export { ProductBatch } from './product-batch.entity';
+export { Delivery, DeliveryStatus } from './delivery.entity';
+export { DeliveryItem } from './delivery-item.entity';
+export { DeliveryManifest, DeliveryManifestItem } from './delivery-manifest.entity';
 export { LogisticsMetric } from './logistics-metric.entity';
-export { Alert, AlertType, AlertSeverity } from './alert.entity';
+export { MLModel } from './ml-model.entity';
+export { ConsumptionForecast, ForecastLevel } from './consumption-forecast.entity';
+export { ForecastBacktest } from './forecast-backtest.entity';
+export { Alert, AlertType, AlertSeverity, EscalationLevel } from './alert.entity';
+export { AlertComment } from './alert-comment.entity';
+export { AlertRule } from './alert-rule.entity';
+export { AuditLog, AuditStatus } from './audit-log.entity';
 export { Requisition, RequisitionStatus } from './requisition.entity';
 export { RequisitionLineItem } from './requisition-line-item.entity';
 export { SyncLog } from './sync-log.entity';
+export { WebhookEvent, WebhookEventStatus } from './webhook-event.entity';
+export { WebhookSubscription, OutboundEventType } from './webhook-subscription.entity';
+export { WebhookDelivery, WebhookDeliveryStatus } from './webhook-delivery.entity';
+export { LMDRecord, VVMStatus, LMDReconciliationStatus, LMDReconciliationIssue } from './lmd-record.entity';
+export { LMDDeliveryItem } from './lmd-delivery-item.entity';
@@ -0,0 +1,61 @@
+/**
+ * VaxTrace Nigeria - LMD Delivery Item Entity
+ *
+ * Product batches handed over in a last-mile delivery
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { LMDRecord, VVMStatus } from './lmd-record.entity';
+
+@Entity('lmd_delivery_items')
+@Index('idx_lmd_delivery_items_record', ['recordId', 'lineNumber'], { unique: true })
+@Index('idx_lmd_delivery_items_product', ['productCode', 'batchNumber'])
+export class LMDDeliveryItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  recordId: string;
+
+  @ManyToOne(() => LMDRecord, (record) => record.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'record_id' })
+  record?: LMDRecord;
+
+  // Position on the device, keeps items in capture order
+  @Column({ type: 'int' })
+  lineNumber: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  productCode: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  productName: string;
+
+  @Column({ type: 'int' })
+  quantityDelivered: number;
+
+  @Column({ type: 'int' })
+  quantityReceived: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  batchNumber: string;
+
+  @Column({ type: 'date' })
+  expiryDate: Date;
+
+  @Column({ type: 'varchar', length: 20 })
+  vvmStatus: VVMStatus;
+
+  @Column({ type: 'boolean', default: false })
+  coldChainBreak: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string;
+}
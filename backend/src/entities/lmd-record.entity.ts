@@ -0,0 +1,135 @@
+/**
+ * VaxTrace Nigeria - LMD Record Entity
+ *
+ * Last-mile deliveries captured offline by field officers, keyed by the device-generated ID
+ */
+
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { LMDDeliveryItem } from './lmd-delivery-item.entity';
+
+export enum VVMStatus {
+  OK = 'OK',
+  WARNING = 'WARNING',
+  CRITICAL = 'CRITICAL',
+  NOT_TESTED = 'NOT_TESTED',
+}
+
+export enum LMDReconciliationStatus {
+  MATCHED = 'matched',
+  MISMATCH = 'mismatch', // At least one item disagrees beyond tolerance
+  UNMATCHED = 'unmatched', // Some items have no approved requisition to compare with
+}
+
+export enum LMDReconciliationIssue {
+  RECEIVED_VS_APPROVED = 'received_vs_approved',
+  RECEIVED_VS_DELIVERED = 'received_vs_delivered',
+  NOT_DISPATCHED = 'not_dispatched', // More delivered than the dispatching store issued
+  UNKNOWN_LOT = 'unknown_lot',
+  EXPIRY_MISMATCH = 'expiry_mismatch',
+}
+
+/**
+ * Delivery item of a stored reconciliation report (see LMDReconciliationService)
+ */
+export interface LMDReconciliationLine {
+  lineNumber: number;
+  productCode: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantityDelivered: number;
+  quantityReceived: number;
+  vaccineId: string | null;
+  requisitionId: string | null;
+  openlmisRequisitionId: string | null;
+  approvedQuantity: number | null;
+  dispatchingFacilityId: string | null;
+  dispatchedQuantity: number | null;
+  dispatchedExpiryDate: string | null;
+  variancePercent: number | null;
+  tolerance: number;
+  status: LMDReconciliationStatus;
+  issues: { type: LMDReconciliationIssue; detail: string }[];
+}
+
+@Entity('lmd_records')
+@Index('idx_lmd_records_delivered', ['deliveryTimestamp'])
+@Index('idx_lmd_records_state', ['stateCode', 'deliveryTimestamp'])
+@Index('idx_lmd_records_lga', ['lgaCode', 'deliveryTimestamp'])
+@Index('idx_lmd_records_facility', ['facilityId', 'deliveryTimestamp'])
+@Index('idx_lmd_records_reconciliation', ['reconciliationStatus'])
+export class LMDRecord {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  facilityId: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  facilityName: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  lgaCode: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  stateCode: string;
+
+  @Column({ type: 'timestamp with time zone' })
+  deliveryTimestamp: Date;
+
+  @Column({ type: 'varchar', length: 20 })
+  vvmStatus: VVMStatus;
+
+  @Column({ type: 'decimal', precision: 9, scale: 6, nullable: true })
+  gpsLatitude: number;
+
+  @Column({ type: 'decimal', precision: 9, scale: 6, nullable: true })
+  gpsLongitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  gpsAccuracy: number;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  gpsTimestamp: Date;
+
+  @Column({ type: 'varchar', length: 100 })
+  officerId: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  officerName: string;
+
+  @Column({ type: 'timestamp with time zone' })
+  deviceCreatedAt: Date;
+
+  // Resends older than this are ignored
+  @Column({ type: 'timestamp with time zone' })
+  deviceUpdatedAt: Date;
+
+  @Column({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  syncedAt: Date;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  reconciliationStatus: LMDReconciliationStatus;
+
+  @Column({ type: 'jsonb', nullable: true })
+  reconciliation: LMDReconciliationLine[];
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  reconciledAt: Date;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+
+  @OneToMany(() => LMDDeliveryItem, (item) => item.record)
+  items: LMDDeliveryItem[];
+}
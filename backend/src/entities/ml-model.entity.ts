@@ -0,0 +1,52 @@
+/**
+ * VaxTrace Nigeria - ML Model Entity
+ *
+ * Serialized versions of the trained predictive insights models
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('ml_models')
+@Index('idx_ml_models_trained', ['name', 'trainedAt'])
+@Index('unique_ml_model_version', ['name', 'version'], { unique: true })
+export class MLModel {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  version: string;
+
+  // Serialized model state ({ type, state })
+  @Column({ type: 'jsonb' })
+  model: Record<string, any>;
+
+  @Column({ type: 'jsonb', default: {} })
+  metrics: Record<string, any>;
+
+  @Column({ type: 'int', default: 0 })
+  dataPoints: number;
+
+  @Column({ type: 'date', nullable: true })
+  trainingFrom: Date;
+
+  @Column({ type: 'date', nullable: true })
+  trainingTo: Date;
+
+  @Column({ type: 'boolean', default: false })
+  isCurrent: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  trainedBy: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  trainedAt: Date;
+}
@@ -0,0 +1,89 @@
+/**
+ * VaxTrace Nigeria - Product Batch Entity
+ *
+ * Lot register: quantity, expiry and VVM stage of each lot held at a facility.
+ * Rows without a facility are GS1 catalogue entries (see 015_facility_product_batches.sql).
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Location } from './location.entity';
+import { Vaccine } from './vaccine.entity';
+
+@Entity('product_batches')
+@Index('idx_batches_expiry', ['expiryDate'])
+@Index('idx_batches_vvm', ['vvmStageCurrent'])
+@Index('unique_batch_facility_lot', ['facilityId', 'vaccineId', 'batchNumber'], { unique: true })
+export class ProductBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Catalogue product (GS1); facility lots reference the vaccine instead
+  @Column({ type: 'uuid', nullable: true })
+  productId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  facilityId: string;
+
+  @ManyToOne(() => Location, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'facility_id' })
+  facility?: Location;
+
+  @Column({ type: 'uuid', nullable: true })
+  vaccineId: string;
+
+  @ManyToOne(() => Vaccine, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vaccine_id' })
+  vaccine?: Vaccine;
+
+  @Column({ type: 'varchar', length: 100 })
+  batchNumber: string;
+
+  @Column({ type: 'varchar', length: 14, nullable: true })
+  gtin: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  lotNumber: string;
+
+  @Column({ type: 'date' })
+  expiryDate: Date;
+
+  @Column({ type: 'date', nullable: true })
+  manufacturingDate: Date;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  manufacturer: string;
+
+  @Column({ type: 'int', nullable: true })
+  vvmStageCurrent: number;
+
+  @Column({ type: 'boolean', default: false })
+  isQuarantined: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  quarantineReason: string;
+
+  @Column({ type: 'int', default: 0 })
+  quantityOnHand: number;
+
+  // When the quantity was last counted
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastCountedAt: Date;
+
+  @Column({ type: 'jsonb', default: {} })
+  metadata: Record<string, any>;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
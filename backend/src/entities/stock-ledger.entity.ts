@@ -16,6 +16,18 @@ import {
 import { Location } from './location.entity';
 import { Vaccine } from './vaccine.entity';
 
+/**
+ * Standardised reason of a loss or transfer (see 016_stock_ledger_reasons.sql)
+ */
+export enum StockLedgerReason {
+  DAMAGED = 'damaged',
+  EXPIRED = 'expired',
+  VVM_DISCARD = 'vvm_discard',
+  LOST = 'lost',
+  TRANSFER_IN = 'transfer_in',
+  TRANSFER_OUT = 'transfer_out',
+}
+
 @Entity('stock_ledger')
 @Index('idx_ledger_facility', ['facilityId'])
 @Index('idx_ledger_lga', ['lgaId'])
@@ -23,6 +35,7 @@ import { Vaccine } from './vaccine.entity';
 @Index('idx_ledger_vaccine', ['vaccineId'])
 @Index('idx_ledger_date', ['snapshotDate'])
 @Index('idx_ledger_transaction', ['transactionType'])
+@Index('idx_ledger_history', ['facilityId', 'vaccineId', 'snapshotTime'])
 @Index('unique_ledger_entry', ['facilityId', 'vaccineId', 'snapshotDate', 'transactionReference'], { unique: true })
 export class StockLedger {
   @PrimaryGeneratedColumn('uuid')
@@ -59,6 +72,10 @@ export class StockLedger {
   @Column({ type: 'int' })
   quantityOnHand: number;
 
+  // Signed change in stock; quantityOnHand is the balance after it
+  @Column({ type: 'int', nullable: true })
+  quantity: number;
+
   @Column({ type: 'int', nullable: true })
   vvmStage: number;
 
@@ -68,6 +85,12 @@ export class StockLedger {
   @Column({ type: 'varchar', length: 255, nullable: true })
   transactionReference: string;
 
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  reasonCode: StockLedgerReason;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string;
+
   @Column({ type: 'date' })
   snapshotDate: Date;
 
@@ -16,6 +16,7 @@ import {
 @Index('idx_sync_logs_type', ['syncType'])
 @Index('idx_sync_logs_status', ['status'])
 @Index('idx_sync_logs_started', ['startedAt'])
+@Index('idx_sync_logs_entity_scope', ['entityType', 'scope', 'startedAt'])
 export class SyncLog {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -26,6 +27,21 @@ export class SyncLog {
   @Column({ type: 'varchar', length: 50, default: 'openlmis' })
   source: string;
 
+  // OpenLMIS entity type and state code (or 'national') of a per-entity sync
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  entityType: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  scope: string;
+
+  // Records changed after the watermark are fetched by the next sync
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  watermark: Date;
+
+  // First page not yet applied; an interrupted sync resumes from here
+  @Column({ type: 'int', default: 0 })
+  nextPage: number;
+
   @Column({ type: 'int', default: 0 })
   entitiesSynced: number;
 
@@ -29,6 +29,7 @@ export enum UserRole {
 @Index('idx_users_auth_provider', ['authProvider', 'authProviderId'])
 @Index('idx_users_location', ['assignedLocationId'])
 @Index('idx_users_role', ['role'])
+@Index('idx_users_staff_id', ['staffId'])
 export class User {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -36,6 +37,12 @@ export class User {
   @Column({ type: 'varchar', length: 255, unique: true })
   email: string;
 
+  @Column({ type: 'varchar', length: 50, unique: true, nullable: true })
+  staffId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  displayName: string;
+
   @Column({ type: 'varchar', length: 20, nullable: true })
   phoneNumber: string;
 
@@ -51,6 +58,12 @@ export class User {
   @Column({ type: 'varchar', length: 255, unique: true, nullable: true })
   authProviderId: string;
 
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  passwordHash: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  pinHash: string;
+
   @Column({
     type: 'enum',
     enum: UserRole,
@@ -65,6 +78,7 @@ export class User {
   @JoinColumn({ name: 'assigned_location_id' })
   assignedLocation?: Location;
 
+  // Per-user overrides of the role permissions, e.g. { edit_stock: false }
   @Column({ type: 'jsonb', default: {} })
   permissions: Record<string, any>;
 
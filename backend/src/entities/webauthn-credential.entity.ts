@@ -0,0 +1,62 @@
+/**
+ * VaxTrace Nigeria - WebAuthn Credential Entity
+ * 
+ * FIDO2 authenticators registered by users for biometric login
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('webauthn_credentials')
+@Index('idx_webauthn_credentials_user', ['userId', 'revokedAt'])
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @Column({ type: 'varchar', length: 1024, unique: true })
+  credentialId: string;
+
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  // Counters are uint32, which does not fit in a Postgres int
+  @Column({
+    type: 'bigint',
+    default: 0,
+    transformer: { to: (value: number) => value, from: (value: string) => Number(value) },
+  })
+  signCount: number;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  aaguid: string;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  transports: string[];
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  deviceName: string;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastUsedAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  revokedAt: Date;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+}
@@ -0,0 +1,74 @@
+/**
+ * VaxTrace Nigeria - Webhook Delivery Entity
+ * 
+ * One event sent to one partner subscription, with retries; doubles as the delivery log
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { WebhookSubscription, OutboundEventType } from './webhook-subscription.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  DELIVERED = 'delivered',
+  FAILED = 'failed', // Waiting for a retry
+  DEAD_LETTER = 'dead_letter', // Out of attempts
+}
+
+@Entity('webhook_deliveries')
+@Index('idx_webhook_deliveries_due', ['status', 'nextAttemptAt'])
+@Index('idx_webhook_deliveries_subscription', ['subscriptionId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  subscriptionId: string;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscription_id' })
+  subscription: WebhookSubscription;
+
+  // Shared by the deliveries of one event, so partners can ignore redeliveries
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  eventType: OutboundEventType;
+
+  @Column({ type: 'jsonb', default: {} })
+  payload: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 20, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  deliveredAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
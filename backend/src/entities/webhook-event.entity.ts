@@ -0,0 +1,66 @@
+/**
+ * VaxTrace Nigeria - Webhook Event Entity
+ * 
+ * Inbox of incoming OpenLMIS webhook events, processed with retries
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum WebhookEventStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  FAILED = 'failed', // Waiting for a retry
+  DEAD_LETTER = 'dead_letter', // Out of attempts
+  DISCARDED = 'discarded',
+}
+
+@Entity('webhook_events')
+@Index('idx_webhook_events_due', ['status', 'nextAttemptAt'])
+@Index('idx_webhook_events_received', ['receivedAt'])
+@Index('idx_webhook_events_type', ['eventType'])
+export class WebhookEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Source event ID; redelivered events are ignored
+  @Column({ type: 'varchar', length: 255, unique: true })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 50, default: 'openlmis' })
+  source: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  eventType: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  payload: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 20, default: WebhookEventStatus.PENDING })
+  status: WebhookEventStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  receivedAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  processedAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
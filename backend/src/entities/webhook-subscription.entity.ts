@@ -0,0 +1,61 @@
+/**
+ * VaxTrace Nigeria - Webhook Subscription Entity
+ * 
+ * Partner endpoints notified of VaxTrace events, with their signing secret and event filter
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum OutboundEventType {
+  ALERT_CREATED = 'alert.created',
+  ALERT_RESOLVED = 'alert.resolved',
+  STOCKOUT = 'stock.stockout',
+  DELIVERY_CONFIRMED = 'delivery.confirmed',
+  TRANSFER_EXECUTED = 'transfer.executed',
+}
+
+@Entity('webhook_subscriptions')
+@Index('idx_webhook_subscriptions_active', ['isActive'])
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  // HMAC-SHA256 signing key; never returned by the API
+  @Column({ type: 'varchar', length: 255 })
+  secret: string;
+
+  @Column({ type: 'varchar', length: 50, array: true, default: [] })
+  eventTypes: OutboundEventType[];
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdBy: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdByUser?: User;
+
+  @CreateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt: Date;
+}
@@ -0,0 +1,227 @@
+/**
+ * VaxTrace Nigeria - Location Scope Guard Unit Tests
+ *
+ * Tests for location-scoped authorization including:
+ * - National access bypass
+ * - Rejection of out-of-scope location IDs and codes
+ * - Narrowing of unfiltered requests to the user's own location
+ * - Filters of the OpenLMIS stock endpoint at every level
+ * - Alert record scope checks
+ */
+
+import { ExecutionContext, ForbiddenException, UnauthorizedException, ValidationPipe } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IsOptional, IsString } from 'class-validator';
+
+import { LocationType } from '../entities/location.entity';
+import { OpenLMISController } from '../modules/openlmis/openlmis.controller';
+import {
+  LocationScopeGuard,
+  LocationFilters,
+  NationalScope,
+  assertInScope,
+} from './location-scope.guard';
+
+class ProductQueryDto {
+  @IsOptional()
+  @IsString()
+  productId?: string;
+}
+
+class ScopedController {
+  list() {}
+
+  @LocationFilters({ stateCode: { level: LocationType.STATE, ref: 'code' } })
+  byStateCode() {}
+
+  @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'openlmisId' } })
+  byOpenLMISFacility() {}
+
+  @NationalScope()
+  national() {}
+}
+
+describe('LocationScopeGuard', () => {
+  let guard: LocationScopeGuard;
+  let mockDataSource: { query: jest.Mock };
+  let mockCacheService: { get: jest.Mock; set: jest.Mock };
+
+  // Kano state > Nassarawa LGA > one facility
+  const kanoRows = [
+    { id: 'kano', code: 'NG-KN', openlmis_id: 'olmis-kano', type: LocationType.STATE, depth: 0 },
+    { id: 'nassarawa', code: 'NG-KN-NAS', openlmis_id: 'olmis-nassarawa', type: LocationType.LGA, depth: 1 },
+    { id: 'phc-nassarawa', code: 'KN-NAS-001', openlmis_id: 'olmis-phc-1', type: LocationType.FACILITY, depth: 2 },
+  ];
+
+  const lgaRows = kanoRows.slice(1).map((row) => ({ ...row, depth: row.depth - 1 }));
+  const facilityRows = [kanoRows[2]].map((row) => ({ ...row, depth: 0 }));
+
+  const stateOfficer = { id: 'user-1', role: 'state_cold_chain_officer', assignedLocationId: 'kano', permissions: [] };
+  const facilityInCharge = {
+    id: 'user-2',
+    role: 'facility_in_charge',
+    assignedLocationId: 'phc-nassarawa',
+    permissions: [],
+  };
+  const lgaOfficer = { id: 'user-4', role: 'lga_logistics_officer', assignedLocationId: 'nassarawa', permissions: [] };
+  const director = { id: 'user-3', role: 'nphcda_director', permissions: [] };
+
+  const createContext = (handler: keyof ScopedController, request: any): ExecutionContext =>
+    ({
+      getHandler: () => ScopedController.prototype[handler],
+      getClass: () => ScopedController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    mockDataSource = { query: jest.fn().mockResolvedValue(kanoRows) };
+    mockCacheService = { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue(undefined) };
+
+    guard = new LocationScopeGuard(new Reflector(), mockDataSource as any, mockCacheService as any);
+  });
+
+  it('should require an authenticated user', async () => {
+    await expect(guard.canActivate(createContext('list', { params: {}, query: {} }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should not restrict users with national access', async () => {
+    const request = { user: director, params: {}, query: { stateId: 'lagos' } };
+
+    await expect(guard.canActivate(createContext('national', request))).resolves.toBe(true);
+    expect(request.query).toEqual({ stateId: 'lagos' });
+    expect(mockDataSource.query).not.toHaveBeenCalled();
+  });
+
+  it('should allow locations within the assigned state', async () => {
+    const request: any = { user: stateOfficer, params: {}, query: { lgaId: 'nassarawa' } };
+
+    await expect(guard.canActivate(createContext('list', request))).resolves.toBe(true);
+    expect(request.locationScope.identifiers.has('KN-NAS-001')).toBe(true);
+    expect(mockCacheService.set).toHaveBeenCalledWith('vax:scope:kano', expect.any(Object), { ttl: 3600 });
+  });
+
+  it('should reject locations outside the assigned state', async () => {
+    const request = { user: stateOfficer, params: {}, query: { stateId: 'lagos' } };
+
+    await expect(guard.canActivate(createContext('list', request))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should check route params by location code', async () => {
+    await expect(
+      guard.canActivate(createContext('byStateCode', { user: stateOfficer, params: { stateCode: 'NG-KN' }, query: {} })),
+    ).resolves.toBe(true);
+
+    await expect(
+      guard.canActivate(createContext('byStateCode', { user: stateOfficer, params: { stateCode: 'NG-LA' }, query: {} })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should narrow the scope to the assigned location when no filter is given', async () => {
+    const request: any = { user: stateOfficer, params: {}, query: {} };
+
+    await guard.canActivate(createContext('list', request));
+
+    expect(request.locationScope.filter).toEqual({ stateId: 'kano' });
+    expect(request.query).toEqual({});
+  });
+
+  it('should narrow OpenLMIS filters to the OpenLMIS ID', async () => {
+    mockDataSource.query.mockResolvedValue(facilityRows);
+    const request: any = { user: facilityInCharge, params: {}, query: {} };
+
+    await guard.canActivate(createContext('byOpenLMISFacility', request));
+
+    expect(request.locationScope.filter).toEqual({ facilityId: 'olmis-phc-1' });
+  });
+
+  it('should leave the query valid for DTOs without location filters', async () => {
+    mockDataSource.query.mockResolvedValue(facilityRows);
+    const request: any = { user: facilityInCharge, params: {}, query: { productId: 'bcg' } };
+    const pipe = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+
+    await guard.canActivate(createContext('list', request));
+
+    await expect(pipe.transform(request.query, { type: 'query', metatype: ProductQueryDto })).resolves.toEqual({
+      productId: 'bcg',
+    });
+  });
+
+  it('should not let a facility in-charge read its parent state', async () => {
+    mockDataSource.query.mockResolvedValue(facilityRows);
+
+    await expect(
+      guard.canActivate(createContext('list', { user: facilityInCharge, params: {}, query: { stateId: 'kano' } })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject endpoints that cannot be narrowed to the user level', async () => {
+    mockDataSource.query.mockResolvedValue(facilityRows);
+
+    await expect(
+      guard.canActivate(createContext('byStateCode', { user: facilityInCharge, params: {}, query: {} })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reserve national endpoints for national users', async () => {
+    await expect(
+      guard.canActivate(createContext('national', { user: stateOfficer, params: {}, query: {} })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  describe('OpenLMIS stock', () => {
+    const stockContext = (request: any): ExecutionContext =>
+      ({
+        getHandler: () => OpenLMISController.prototype.getStockData,
+        getClass: () => OpenLMISController,
+        switchToHttp: () => ({ getRequest: () => request }),
+      }) as unknown as ExecutionContext;
+
+    it.each([
+      ['state officers to their state', stateOfficer, kanoRows, { stateId: 'olmis-kano' }],
+      ['LGA officers to their LGA', lgaOfficer, lgaRows, { lgaId: 'olmis-nassarawa' }],
+      ['facility in-charges to their facility', facilityInCharge, facilityRows, { facilityId: 'olmis-phc-1' }],
+    ])('should narrow %s', async (_, user, rows, filter) => {
+      mockDataSource.query.mockResolvedValue(rows);
+      const request: any = { user, params: {}, query: {} };
+
+      await expect(guard.canActivate(stockContext(request))).resolves.toBe(true);
+      expect(request.locationScope.filter).toEqual(filter);
+    });
+
+    it('should let state officers filter to an LGA of their state', async () => {
+      const request: any = { user: stateOfficer, params: {}, query: { lgaId: 'olmis-nassarawa' } };
+
+      await expect(guard.canActivate(stockContext(request))).resolves.toBe(true);
+      expect(request.locationScope.filter).toBeUndefined();
+    });
+  });
+
+  it('should use the cached scope when available', async () => {
+    mockCacheService.get.mockResolvedValue({
+      level: LocationType.STATE,
+      location: { id: 'kano', code: 'NG-KN', openlmisId: 'olmis-kano' },
+      identifiers: ['kano', 'NG-KN', 'olmis-kano'],
+    });
+
+    await expect(
+      guard.canActivate(createContext('list', { user: stateOfficer, params: {}, query: { stateId: 'kano' } })),
+    ).resolves.toBe(true);
+    expect(mockDataSource.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('assertInScope', () => {
+  const scope = { national: false, identifiers: new Set(['nassarawa', 'phc-nassarawa']) };
+
+  it('should check the most specific location of a record', () => {
+    expect(() => assertInScope(scope, 'phc-nassarawa', 'nassarawa', 'kano')).not.toThrow();
+    expect(() => assertInScope(scope, null, 'fagge', 'kano')).toThrow(ForbiddenException);
+    expect(() => assertInScope(scope, null, null, 'kano')).toThrow(ForbiddenException);
+  });
+
+  it('should allow everything for national scope', () => {
+    expect(() => assertInScope({ national: true, identifiers: new Set() }, 'lagos')).not.toThrow();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * VaxTrace Nigeria - Location Scope Guard
+ *
+ * Restricts location-based data to the caller's assigned location and
+ * everything below it in the hierarchy (state > LGA > facility), so a
+ * facility in-charge in Kano cannot read Lagos stock.
+ *
+ * For every guarded request the guard:
+ * - resolves the user's scope from `assignedLocationId` and `locations.parent_id`
+ * - rejects location IDs/codes in route params or query outside that scope
+ * - narrows requests without a filter to the user's own location, exposed to
+ *   handlers as `locationScope.filter` (the client's query is left untouched)
+ * - rejects the request when the endpoint cannot be narrowed to the user's level
+ *
+ * Users with the `view_national` permission are not restricted.
+ *
+ * Usage:
+ * @UseGuards(LocationScopeGuard)
+ * @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'openlmisId' } })
+ * async getStockData(@Query() query: StockDataQueryDto, @CurrentScope() scope: LocationScope) {
+ *   return this.fetchStock({ ...query, ...scope?.filter });
+ * }
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  SetMetadata,
+  ForbiddenException,
+  UnauthorizedException,
+  createParamDecorator,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+
+import { LocationType } from '../entities/location.entity';
+import { CacheService } from '../modules/cache/cache.service';
+import { ExtendedRequest } from '../middleware/jwt.middleware';
+import { ROLE_PERMISSIONS } from './rbac.guard';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * How a request parameter identifies a location
+ */
+export type LocationRef = 'id' | 'code' | 'openlmisId';
+
+export interface LocationFilter {
+  level: LocationType;
+  ref: LocationRef;
+}
+
+export interface LocationScope {
+  national: boolean;
+  level?: LocationType;
+  location?: Record<LocationRef, string | null>;
+  /** IDs, codes and OpenLMIS IDs of the assigned location and all its descendants */
+  identifiers: Set<string>;
+  /** Own location of a request given no location filter, keyed by filter name */
+  filter?: Record<string, string>;
+}
+
+export interface ScopedRequest extends ExtendedRequest {
+  locationScope?: LocationScope;
+}
+
+interface CachedScope {
+  level: LocationType;
+  location: Record<LocationRef, string | null>;
+  identifiers: string[];
+}
+
+// ============================================
+// DECORATORS
+// ============================================
+
+export const LOCATION_FILTERS_KEY = 'locationFilters';
+export const NATIONAL_SCOPE_KEY = 'nationalScope';
+
+/**
+ * Location filters used when a handler does not declare its own
+ */
+export const DEFAULT_LOCATION_FILTERS: Record<string, LocationFilter> = {
+  stateId: { level: LocationType.STATE, ref: 'id' },
+  lgaId: { level: LocationType.LGA, ref: 'id' },
+  facilityId: { level: LocationType.FACILITY, ref: 'id' },
+};
+
+/**
+ * Declare which route/query parameters the handler filters on
+ */
+export const LocationFilters = (filters: Record<string, LocationFilter>) =>
+  SetMetadata(LOCATION_FILTERS_KEY, filters);
+
+/**
+ * Restrict an endpoint to users with national visibility
+ */
+export const NationalScope = () => SetMetadata(NATIONAL_SCOPE_KEY, true);
+
+/**
+ * Inject the scope resolved by LocationScopeGuard
+ */
+export const CurrentScope = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): LocationScope | undefined =>
+    context.switchToHttp().getRequest<ScopedRequest>().locationScope,
+);
+
+/**
+ * Inject a query parameter, falling back to the location filter set by
+ * LocationScopeGuard when the client gave none
+ */
+export const ScopedQuery = createParamDecorator((key: string, context: ExecutionContext): string | undefined => {
+  const request = context.switchToHttp().getRequest<ScopedRequest>();
+  const value = request.query?.[key];
+
+  return typeof value === 'string' ? value : request.locationScope?.filter?.[key];
+});
+
+/**
+ * Throw unless one of the given location identifiers is within the scope.
+ * Pass the most specific location of a record first; empty values are ignored.
+ */
+export function assertInScope(scope: LocationScope | undefined, ...identifiers: (string | null | undefined)[]): void {
+  if (!scope || scope.national) {
+    return;
+  }
+
+  const identifier = identifiers.find(Boolean);
+
+  if (!identifier || !scope.identifiers.has(identifier)) {
+    throw new ForbiddenException('Requested location is outside your assigned scope');
+  }
+}
+
+// ============================================
+// GUARD
+// ============================================
+
+const SCOPE_CACHE_TTL = 3600; // 1 hour
+
+@Injectable()
+export class LocationScopeGuard implements CanActivate {
+  private readonly logger = new Logger(LocationScopeGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly dataSource: DataSource,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ScopedRequest>();
+    const user = request.user;
+
+    // Set by JwtMiddleware
+    if (!user) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const permissions: string[] = user.permissions?.length ? user.permissions : ROLE_PERMISSIONS[user.role] || [];
+
+    if (permissions.includes('view_national')) {
+      request.locationScope = { national: true, identifiers: new Set() };
+      return true;
+    }
+
+    if (this.reflector.getAllAndOverride<boolean>(NATIONAL_SCOPE_KEY, targets)) {
+      throw new ForbiddenException('This endpoint requires national access');
+    }
+
+    if (!user.assignedLocationId) {
+      throw new ForbiddenException('No location assigned to this account');
+    }
+
+    const scope = await this.resolveScope(user.assignedLocationId);
+    request.locationScope = scope;
+
+    const filters =
+      this.reflector.getAllAndOverride<Record<string, LocationFilter>>(LOCATION_FILTERS_KEY, targets) ||
+      DEFAULT_LOCATION_FILTERS;
+
+    let filtered = false;
+
+    for (const key of Object.keys(filters)) {
+      for (const value of [request.params?.[key], request.query?.[key]]) {
+        if (value === undefined) continue;
+
+        if (typeof value !== 'string' || !scope.identifiers.has(value)) {
+          this.logger.warn(`Out-of-scope ${key}=${value} requested by user ${user.id}`);
+          throw new ForbiddenException(`${key} is outside your assigned scope`);
+        }
+
+        filtered = true;
+      }
+    }
+
+    if (filtered) {
+      return true;
+    }
+
+    // No filter given: narrow the request to the user's own location
+    const ownFilter = Object.entries(filters).find(([, filter]) => filter.level === scope.level);
+
+    if (!ownFilter) {
+      throw new ForbiddenException(`This endpoint cannot be filtered to your ${scope.level}`);
+    }
+
+    const [key, filter] = ownFilter;
+    const value = scope.location[filter.ref];
+
+    if (!value) {
+      throw new ForbiddenException(`Your assigned ${scope.level} has no ${filter.ref}`);
+    }
+
+    scope.filter = { [key]: value };
+
+    return true;
+  }
+
+  /**
+   * Load the assigned location and all its descendants (cached per location)
+   */
+  private async resolveScope(locationId: string): Promise<LocationScope> {
+    const cacheKey = `vax:scope:${locationId}`;
+    let cached = await this.cacheService.get<CachedScope>(cacheKey);
+
+    if (!cached) {
+      const rows: { id: string; code: string; openlmis_id: string | null; type: LocationType; depth: number }[] =
+        await this.dataSource.query(
+          `WITH RECURSIVE scope AS (
+             SELECT id, code, openlmis_id, type, 0 AS depth
+             FROM locations
+             WHERE id = $1
+             UNION ALL
+             SELECT l.id, l.code, l.openlmis_id, l.type, s.depth + 1
+             FROM locations l
+             JOIN scope s ON l.parent_id = s.id
+           )
+           SELECT id, code, openlmis_id, type, depth FROM scope`,
+          [locationId],
+        );
+
+      const root = rows.find((row) => row.depth === 0);
+
+      if (!root) {
+        throw new ForbiddenException('Assigned location no longer exists');
+      }
+
+      cached = {
+        level: root.type,
+        location: { id: root.id, code: root.code, openlmisId: root.openlmis_id },
+        identifiers: rows.flatMap((row) => [row.id, row.code, row.openlmis_id]).filter(Boolean),
+      };
+
+      await this.cacheService.set(cacheKey, cached, { ttl: SCOPE_CACHE_TTL });
+    }
+
+    return {
+      national: false,
+      level: cached.level,
+      location: cached.location,
+      identifiers: new Set(cached.identifiers),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * VaxTrace Nigeria - RBAC Guard Unit Tests
+ *
+ * Tests that the guard:
+ * - Only admits users holding a role required by the handler
+ * - Rejects unauthenticated requests
+ * - Protects every endpoint of the system admin controllers
+ * - Limits the alert lifecycle by role
+ */
+
+import { ExecutionContext, Type } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { RBACGuard } from './rbac.guard';
+import { AlertsController } from '../modules/alerts/alerts.controller';
+import { WebhookEventsController } from '../modules/webhook/webhook-events.controller';
+import { WebhookSubscriptionsController } from '../modules/webhook-subscriptions/webhook-subscriptions.controller';
+
+describe('RBACGuard', () => {
+  let guard: RBACGuard;
+
+  const admin = { id: 'user-1', role: 'system_admin', permissions: [] };
+  const officer = { id: 'user-2', role: 'lga_logistics_officer', permissions: [] };
+  const stateOfficer = { id: 'user-3', role: 'state_cold_chain_officer', permissions: [] };
+  const facilityInCharge = { id: 'user-4', role: 'facility_in_charge', permissions: [] };
+
+  const handlers = (controller: Type<unknown>): string[] =>
+    Object.getOwnPropertyNames(controller.prototype).filter((name) => name !== 'constructor');
+
+  const createContext = (controller: Type<unknown>, handler: string, user?: unknown): ExecutionContext =>
+    ({
+      getHandler: () => controller.prototype[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    guard = new RBACGuard(new Reflector());
+  });
+
+  it.each([
+    ['webhook inbox', WebhookEventsController],
+    ['partner webhook subscription', WebhookSubscriptionsController],
+  ])('should restrict every %s endpoint to system admins', (_, controller: Type<unknown>) => {
+    expect(handlers(controller).length).toBeGreaterThan(0);
+
+    for (const handler of handlers(controller)) {
+      expect(guard.canActivate(createContext(controller, handler, admin))).toBe(true);
+      expect(guard.canActivate(createContext(controller, handler, officer))).toBe(false);
+      expect(guard.canActivate(createContext(controller, handler))).toBe(false);
+    }
+  });
+
+  it.each([
+    ['acknowledgeAlert', [facilityInCharge, officer, stateOfficer, admin], []],
+    ['addComment', [facilityInCharge, officer, stateOfficer, admin], []],
+    ['resolveAlert', [officer, stateOfficer, admin], [facilityInCharge]],
+    ['assignAlert', [stateOfficer, admin], [facilityInCharge, officer]],
+    ['snoozeAlert', [stateOfficer, admin], [facilityInCharge, officer]],
+  ])('should limit %s by role', (handler, allowed, denied) => {
+    for (const user of allowed) {
+      expect(guard.canActivate(createContext(AlertsController, handler, user))).toBe(true);
+    }
+    for (const user of [...denied, undefined]) {
+      expect(guard.canActivate(createContext(AlertsController, handler, user))).toBe(false);
+    }
+  });
+
+  it('should require the manage_alerts permission to assign alerts', () => {
+    const revoked = { ...stateOfficer, permissions: ['view_state', 'view_lga', 'view_facility'] };
+
+    expect(guard.canActivate(createContext(AlertsController, 'assignAlert', revoked))).toBe(false);
+  });
+});
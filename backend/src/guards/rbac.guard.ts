@@ -13,17 +13,17 @@
 import { Injectable, CanActivate, ExecutionContext, SetMetadata } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 
+import { UserRole } from '../entities/user.entity';
+
 /**
  * Role decorator for specifying required roles
  */
-export const Roles = (...roles: UserRole[]) => SetMetadata('roles', roles);
+export const Roles = (...roles: RoleName[]) => SetMetadata('roles', roles);
 
-export type UserRole =
-  | 'nphcda_director'
-  | 'state_cold_chain_officer'
-  | 'lga_logistics_officer'
-  | 'facility_in_charge'
-  | 'system_admin';
+/**
+ * Role names as stored in the `users.role` column (values of the UserRole enum)
+ */
+export type RoleName = `${UserRole}`;
 
 export type Permission =
   | 'view_national'
@@ -38,21 +38,39 @@ export type Permission =
 /**
  * Role permissions mapping
  */
-const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
-  nphcda_director: ['view_national', 'view_state', 'view_lga', 'view_facility', 'edit_users', 'view_reports', 'manage_alerts'],
-  state_cold_chain_officer: ['view_state', 'view_lga', 'view_facility', 'view_reports', 'manage_alerts'],
-  lga_logistics_officer: ['view_lga', 'view_facility', 'edit_stock', 'view_reports'],
-  facility_in_charge: ['view_facility', 'edit_stock', 'view_reports'],
-  system_admin: ['view_national', 'view_state', 'view_lga', 'view_facility', 'edit_stock', 'edit_users', 'view_reports', 'manage_alerts'],
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.NPHCDA_DIRECTOR]: ['view_national', 'view_state', 'view_lga', 'view_facility', 'edit_users', 'view_reports', 'manage_alerts'],
+  [UserRole.STATE_COLD_CHAIN_OFFICER]: ['view_state', 'view_lga', 'view_facility', 'view_reports', 'manage_alerts'],
+  [UserRole.LGA_LOGISTICS_OFFICER]: ['view_lga', 'view_facility', 'edit_stock', 'view_reports'],
+  [UserRole.FACILITY_IN_CHARGE]: ['view_facility', 'edit_stock', 'view_reports'],
+  [UserRole.SYSTEM_ADMIN]: ['view_national', 'view_state', 'view_lga', 'view_facility', 'edit_stock', 'edit_users', 'view_reports', 'manage_alerts'],
 };
 
+/**
+ * Resolve the effective permissions for a user: the role defaults plus any
+ * per-user overrides stored in `users.permissions` (e.g. { "edit_stock": false }).
+ */
+export function resolvePermissions(role: RoleName, overrides: Record<string, any> = {}): Permission[] {
+  const granted = new Set<Permission>(ROLE_PERMISSIONS[role] || []);
+
+  for (const [permission, enabled] of Object.entries(overrides || {})) {
+    if (enabled === true) {
+      granted.add(permission as Permission);
+    } else if (enabled === false) {
+      granted.delete(permission as Permission);
+    }
+  }
+
+  return Array.from(granted);
+}
+
 @Injectable()
 export class RBACGuard implements CanActivate {
   constructor(private readonly reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
     // Get required roles from decorator
-    const requiredRoles = this.reflector.get<UserRole[]>('roles', context.getHandler());
+    const requiredRoles = this.reflector.get<RoleName[]>('roles', context.getHandler());
     
     // If no roles specified, allow access
     if (!requiredRoles || requiredRoles.length === 0) {
@@ -76,7 +94,7 @@ export class RBACGuard implements CanActivate {
     // Check if user has required permissions
     const requiredPermissions = this.reflector.get<Permission[]>('permissions', context.getHandler());
     if (requiredPermissions) {
-      const userPermissions = ROLE_PERMISSIONS[user.role] || [];
+      const userPermissions: string[] = user.permissions?.length ? user.permissions : ROLE_PERMISSIONS[user.role] || [];
       const hasAllPermissions = requiredPermissions.every(perm => userPermissions.includes(perm));
       
       if (!hasAllPermissions) {
@@ -10,10 +10,12 @@
  */
 
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe, Logger, VersioningType } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import helmet from 'helmet';
+import { json } from 'express';
 import { AppModule } from './modules/app.module';
 import { initSentry } from './sentry';
 
@@ -24,7 +26,7 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
   logger.log('Starting VaxTrace Nigeria backend...');
   
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: ['log', 'error', 'warn', 'debug', 'verbose'],
     bufferLogs: true,
   });
@@ -50,6 +52,12 @@ async function bootstrap() {
     },
   }));
 
+  // Delivery confirmations carry a compressed photo of the shipment; every
+  // other route keeps the default JSON limit (100kb). The route parser must be
+  // registered first, the global one then skips bodies it already parsed.
+  app.use('/api/v1/delivery/confirm', json({ limit: '3mb' }));
+  app.useBodyParser('json');
+
   // Note: Compression is handled by the platform (Express/NestJS)
   // No manual compression needed for development
 
@@ -0,0 +1,71 @@
+/**
+ * VaxTrace Nigeria - JWT Middleware Unit Tests
+ *
+ * Tests that the middleware:
+ * - Adds the user of a valid bearer token to the request
+ * - Rejects missing, invalid and expired tokens
+ * - Only skips authentication for public routes
+ */
+
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { sign } from 'jsonwebtoken';
+
+import { ExtendedRequest, JwtMiddleware } from './jwt.middleware';
+
+describe('JwtMiddleware', () => {
+  const secret = 'test-secret';
+  let middleware: JwtMiddleware;
+  let next: jest.Mock;
+
+  const token = (expiresIn = '15m') =>
+    sign({ sub: 'user-1', email: 'amina@vaxtrace.ng', role: 'lga_logistics_officer', assignedLocationId: 'amac' }, secret, {
+      expiresIn,
+    });
+
+  const request = (url: string, authorization?: string) =>
+    ({ originalUrl: url, headers: authorization ? { authorization } : {} }) as ExtendedRequest;
+
+  beforeEach(() => {
+    middleware = new JwtMiddleware({ get: jest.fn(() => secret) } as unknown as ConfigService);
+    next = jest.fn();
+  });
+
+  it('should add the user of a valid token to the request', () => {
+    const req = request('/api/v1/lmd/sync', `Bearer ${token()}`);
+
+    middleware.use(req, {} as any, next);
+
+    expect(req.user).toEqual(expect.objectContaining({ id: 'user-1', role: 'lga_logistics_officer', assignedLocationId: 'amac' }));
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject missing, invalid and expired tokens', () => {
+    expect(() => middleware.use(request('/api/v1/lmd/sync'), {} as any, next)).toThrow(UnauthorizedException);
+    expect(() => middleware.use(request('/api/v1/lmd/sync', 'Bearer forged'), {} as any, next)).toThrow('Invalid token');
+    expect(() => middleware.use(request('/api/v1/lmd/sync', `Bearer ${token('-1m')}`), {} as any, next)).toThrow(
+      'Token has expired',
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should skip authentication for public routes', () => {
+    middleware.use(request('/api/v1/auth/login'), {} as any, next);
+    middleware.use(request('/api/v1/health/ready?probe=1'), {} as any, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only skip authentication for the signed OpenLMIS webhook', () => {
+    middleware.use(request('/api/v1/webhooks/openlmis'), {} as any, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(() => middleware.use(request('/api/v1/webhooks/events'), {} as any, next)).toThrow('Missing authorization header');
+    expect(() => middleware.use(request('/api/v1/webhooks/events/status'), {} as any, next)).toThrow(UnauthorizedException);
+    expect(() => middleware.use(request('/api/v1/webhooks/subscriptions'), {} as any, next)).toThrow(UnauthorizedException);
+  });
+
+  it('should require a token to sync LMD records', () => {
+    expect(() => middleware.use(request('/api/v1/lmd/sync'), {} as any, next)).toThrow('Missing authorization header');
+  });
+});
@@ -16,6 +16,8 @@ import { Request, Response, NextFunction } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { verify } from 'jsonwebtoken';
 
+import { RoleName } from '../guards/rbac.guard';
+
 /**
  * Extended Request interface with user property
  */
@@ -24,9 +26,10 @@ export interface ExtendedRequest extends Request {
     id: string;
     email: string;
     name: string;
-    role: 'nphcda_director' | 'state_cold_chain_officer' | 'lga_logistics_officer' | 'facility_in_charge' | 'system_admin';
+    role: RoleName;
     assignedLocationId?: string;
     permissions: string[];
+    sessionId?: string;
     iat?: number;
     exp?: number;
   };
@@ -42,8 +45,8 @@ export class JwtMiddleware implements NestMiddleware {
   }
 
   use(req: ExtendedRequest, res: Response, next: NextFunction): void {
-    // Skip authentication for public routes
-    if (this.isPublicRoute(req.path)) {
+    // Skip authentication for public routes (originalUrl keeps the global prefix)
+    if (this.isPublicRoute(req.originalUrl.split('?')[0])) {
       return next();
     }
 
@@ -72,6 +75,7 @@ export class JwtMiddleware implements NestMiddleware {
         role: decoded.role,
         assignedLocationId: decoded.assignedLocationId,
         permissions: decoded.permissions || [],
+        sessionId: decoded.sid,
         iat: decoded.iat,
         exp: decoded.exp,
       };
@@ -92,12 +96,14 @@ export class JwtMiddleware implements NestMiddleware {
    */
   private isPublicRoute(path: string): boolean {
     const publicRoutes = [
-      '/health',
+      '/api/v1/health',
       '/metrics',
-      '/api/v1/openlmis', // All OpenLMIS routes are public (use internal OAuth2)
-      '/api/auth/login',
-      '/api/auth/refresh',
-      '/api/webhooks',
+      '/api/v1/auth/login',
+      '/api/v1/auth/biometric',
+      '/api/v1/auth/webauthn/authentication-options',
+      '/api/v1/auth/pin',
+      '/api/v1/auth/refresh',
+      '/api/v1/webhooks/openlmis', // Verified by HMAC signature instead
     ];
 
     return publicRoutes.some(route => path.startsWith(route));
@@ -0,0 +1,284 @@
+/**
+ * VaxTrace Nigeria - Alert Engine Unit Tests
+ *
+ * Tests for the rule-based alert engine including:
+ * - Rule resolution (vaccine/state specificity, disabled rules)
+ * - Stock level evaluation against rule thresholds
+ * - Alert deduplication and auto-resolution
+ * - Partner webhook events for opened, resolved and stocked-out alerts
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+
+import { Alert, AlertType, AlertSeverity } from '../../entities/alert.entity';
+import { AlertRule } from '../../entities/alert-rule.entity';
+import { CacheService } from '../cache/cache.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { AlertsService } from './alerts.service';
+import { AlertEngineService, AlertCandidate } from './alert-engine.service';
+import { AlertRulesService, buildAlertRuleSet } from './alert-rules.service';
+
+describe('AlertEngineService', () => {
+  let service: AlertEngineService;
+  let mockDataSource: { query: jest.Mock };
+  let mockAlertRepository: any;
+  let mockQueryBuilder: any;
+  let mockRulesService: { loadRuleSet: jest.Mock };
+  let mockWebSocketService: { broadcastAlert: jest.Mock };
+  let mockAlertsService: Record<string, jest.Mock>;
+
+  const rule = (overrides: Partial<AlertRule>): AlertRule =>
+    ({
+      id: 'rule-id',
+      alertType: AlertType.STOCKOUT,
+      vaccineId: null,
+      stateId: null,
+      isEnabled: true,
+      severity: null,
+      threshold: null,
+      parameters: {},
+      ...overrides,
+    }) as AlertRule;
+
+  const candidate = (dedupKey: string): AlertCandidate => ({
+    alertType: AlertType.STOCKOUT,
+    severity: AlertSeverity.HIGH,
+    facilityId: 'fac-1',
+    vaccineId: 'vac-1',
+    title: 'BCG low stock',
+    description: 'BCG at 1.0 months of stock',
+    dedupKey,
+    data: { quantityOnHand: 100 },
+  });
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    mockAlertRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockDataSource = { query: jest.fn().mockResolvedValue([]) };
+    mockRulesService = { loadRuleSet: jest.fn().mockResolvedValue(buildAlertRuleSet([])) };
+    mockWebSocketService = { broadcastAlert: jest.fn() };
+    mockAlertsService = {
+      toAlertDto: jest.fn((alert) => alert),
+      isStockout: jest.fn((alert) => alert.alertType === AlertType.STOCKOUT && alert.data?.quantityOnHand <= 0),
+      publishAlertEvent: jest.fn().mockResolvedValue(undefined),
+      publishStockoutEvent: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertEngineService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(Alert), useValue: mockAlertRepository },
+        { provide: AlertRulesService, useValue: mockRulesService },
+        { provide: AlertsService, useValue: mockAlertsService },
+        { provide: CacheService, useValue: { invalidateAlertsCache: jest.fn().mockResolvedValue(undefined) } },
+        { provide: WebSocketService, useValue: mockWebSocketService },
+      ],
+    }).compile();
+
+    service = module.get<AlertEngineService>(AlertEngineService);
+  });
+
+  describe('Rule Resolution', () => {
+    it('should fall back to built-in defaults when no rule exists', () => {
+      const rules = buildAlertRuleSet([]);
+
+      const resolved = rules.resolve(AlertType.NEAR_EXPIRY, 'vac-1', 'state-1');
+
+      expect(resolved.threshold).toBe(30);
+      expect(resolved.severity).toBe(AlertSeverity.HIGH);
+    });
+
+    it('should prefer the most specific rule', () => {
+      const rules = buildAlertRuleSet([
+        rule({ id: 'national', alertType: AlertType.NEAR_EXPIRY, threshold: 30 }),
+        rule({ id: 'state', alertType: AlertType.NEAR_EXPIRY, stateId: 'state-1', threshold: 45 }),
+        rule({ id: 'vaccine', alertType: AlertType.NEAR_EXPIRY, vaccineId: 'vac-1', threshold: 60 }),
+        rule({ id: 'both', alertType: AlertType.NEAR_EXPIRY, vaccineId: 'vac-1', stateId: 'state-1', threshold: 90 }),
+      ]);
+
+      expect(rules.resolve(AlertType.NEAR_EXPIRY, 'vac-1', 'state-1').ruleId).toBe('both');
+      expect(rules.resolve(AlertType.NEAR_EXPIRY, 'vac-1', 'state-2').ruleId).toBe('vaccine');
+      expect(rules.resolve(AlertType.NEAR_EXPIRY, 'vac-2', 'state-1').ruleId).toBe('state');
+      expect(rules.resolve(AlertType.NEAR_EXPIRY, 'vac-2', 'state-2').ruleId).toBe('national');
+    });
+
+    it('should return null when the matching rule is disabled', () => {
+      const rules = buildAlertRuleSet([
+        rule({ alertType: AlertType.POWER_OUTAGE, stateId: 'state-1', isEnabled: false }),
+      ]);
+
+      expect(rules.resolve(AlertType.POWER_OUTAGE, undefined, 'state-1')).toBeNull();
+      expect(rules.resolve(AlertType.POWER_OUTAGE, undefined, 'state-2')).not.toBeNull();
+    });
+
+    it('should merge rule parameters over default parameters', () => {
+      const rules = buildAlertRuleSet([
+        rule({ alertType: AlertType.TEMPERATURE_EXCURSION, parameters: { maxTemp: 10 } }),
+      ]);
+
+      const resolved = rules.resolve(AlertType.TEMPERATURE_EXCURSION);
+
+      expect(resolved.parameters).toEqual(expect.objectContaining({ minTemp: 2, maxTemp: 10 }));
+    });
+  });
+
+  describe('Stock Level Evaluation', () => {
+    const row = (overrides: Record<string, any>) => ({
+      facility_id: 'fac-1',
+      lga_id: 'lga-1',
+      state_id: 'state-1',
+      vaccine_id: 'vac-1',
+      vaccine_code: 'BCG',
+      min_months_of_stock: '3.0',
+      quantity_on_hand: '100',
+      months_of_stock: '1.50',
+      ...overrides,
+    });
+
+    it('should raise a critical alert for a stockout', async () => {
+      mockDataSource.query.mockResolvedValue([row({ quantity_on_hand: '0', months_of_stock: '0' })]);
+
+      const candidates = await service.evaluateStockLevels(buildAlertRuleSet([]));
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0]).toEqual(
+        expect.objectContaining({
+          alertType: AlertType.STOCKOUT,
+          severity: AlertSeverity.CRITICAL,
+          dedupKey: 'stockout:fac-1:vac-1',
+        }),
+      );
+    });
+
+    it('should use the vaccine minimum months of stock when the rule has no threshold', async () => {
+      mockDataSource.query.mockResolvedValue([row({ months_of_stock: '2.5' }), row({ vaccine_id: 'vac-2', months_of_stock: '3.5' })]);
+
+      const candidates = await service.evaluateStockLevels(buildAlertRuleSet([]));
+
+      expect(candidates.map((c) => c.vaccineId)).toEqual(['vac-1']);
+      expect(candidates[0].severity).toBe(AlertSeverity.HIGH);
+    });
+
+    it('should apply a state-specific threshold', async () => {
+      mockDataSource.query.mockResolvedValue([row({ months_of_stock: '2.5' })]);
+
+      const rules = buildAlertRuleSet([rule({ stateId: 'state-1', threshold: 2 })]);
+      const candidates = await service.evaluateStockLevels(rules);
+
+      expect(candidates).toHaveLength(0);
+    });
+  });
+
+  describe('Deduplication', () => {
+    it('should create alerts for new conditions', async () => {
+      const counts = await service.upsertAlerts(AlertType.STOCKOUT, [candidate('stockout:fac-1:vac-1')]);
+
+      expect(counts).toEqual({ created: 1, updated: 0, autoResolved: 0 });
+      expect(mockAlertRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ dedupKey: 'stockout:fac-1:vac-1', source: 'alert-engine' }),
+        }),
+      );
+      expect(mockWebSocketService.broadcastAlert).toHaveBeenCalledTimes(1);
+      expect(mockAlertsService.publishAlertEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh an open alert instead of duplicating it', async () => {
+      const existing = {
+        id: 'alert-1',
+        severity: AlertSeverity.MEDIUM,
+        isResolved: false,
+        data: { dedupKey: 'stockout:fac-1:vac-1', source: 'alert-engine' },
+      };
+      mockQueryBuilder.getMany.mockResolvedValue([existing]);
+
+      const counts = await service.upsertAlerts(AlertType.STOCKOUT, [candidate('stockout:fac-1:vac-1')]);
+
+      expect(counts).toEqual({ created: 0, updated: 1, autoResolved: 0 });
+      expect(mockAlertRepository.create).not.toHaveBeenCalled();
+      expect(existing.severity).toBe(AlertSeverity.HIGH);
+      expect(mockWebSocketService.broadcastAlert).not.toHaveBeenCalled();
+      expect(mockAlertsService.publishAlertEvent).not.toHaveBeenCalled();
+      expect(mockAlertsService.publishStockoutEvent).not.toHaveBeenCalled();
+    });
+
+    it('should publish a stockout when a low-stock alert runs out of doses', async () => {
+      const existing = {
+        id: 'alert-1',
+        alertType: AlertType.STOCKOUT,
+        severity: AlertSeverity.HIGH,
+        isResolved: false,
+        data: { dedupKey: 'stockout:fac-1:vac-1', source: 'alert-engine', quantityOnHand: 100 },
+      };
+      mockQueryBuilder.getMany.mockResolvedValue([existing]);
+
+      await service.upsertAlerts(AlertType.STOCKOUT, [
+        { ...candidate('stockout:fac-1:vac-1'), severity: AlertSeverity.CRITICAL, data: { quantityOnHand: 0 } },
+      ]);
+
+      expect(mockAlertsService.publishStockoutEvent).toHaveBeenCalledWith(existing);
+      expect(mockAlertsService.publishAlertEvent).not.toHaveBeenCalled();
+    });
+
+    it('should auto-resolve engine alerts whose condition cleared', async () => {
+      const engineAlert = {
+        id: 'alert-1',
+        isResolved: false,
+        data: { dedupKey: 'stockout:fac-1:vac-1', source: 'alert-engine' },
+      } as any;
+      const manualAlert = {
+        id: 'alert-2',
+        isResolved: false,
+        data: { dedupKey: 'stockout:fac-2:vac-1', source: 'webhook' },
+      } as any;
+      mockQueryBuilder.getMany.mockResolvedValue([engineAlert, manualAlert]);
+
+      const counts = await service.upsertAlerts(AlertType.STOCKOUT, []);
+
+      expect(counts.autoResolved).toBe(1);
+      expect(engineAlert.isResolved).toBe(true);
+      expect(manualAlert.isResolved).toBe(false);
+      expect(mockAlertsService.publishAlertEvent).toHaveBeenCalledWith(engineAlert);
+      expect(mockAlertsService.publishAlertEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never auto-resolve temperature excursions', async () => {
+      const engineAlert = {
+        id: 'alert-1',
+        isResolved: false,
+        data: { dedupKey: 'temperature_excursion:cce-1:x', source: 'alert-engine' },
+      } as any;
+      mockQueryBuilder.getMany.mockResolvedValue([engineAlert]);
+
+      const counts = await service.upsertAlerts(AlertType.TEMPERATURE_EXCURSION, []);
+
+      expect(counts.autoResolved).toBe(0);
+      expect(engineAlert.isResolved).toBe(false);
+    });
+  });
+
+  describe('Engine Run', () => {
+    it('should not touch open alerts when a rule query fails', async () => {
+      mockDataSource.query.mockRejectedValue(new Error('relation "cce_telemetry" does not exist'));
+
+      const result = await service.run();
+
+      expect(result.created).toBe(0);
+      expect(result.autoResolved).toBe(0);
+      expect(mockAlertRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+});
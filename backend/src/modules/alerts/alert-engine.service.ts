@@ -0,0 +1,744 @@
+/**
+ * VaxTrace Nigeria - Alert Engine Service
+ *
+ * Scheduled, rule-based alert generation. Every run evaluates the
+ * configured alert rules (see AlertRulesService) over:
+ *
+ * - stock_snapshots:  stockout / months of stock below threshold
+ * - product_batches:  lots expiring within N days, VVM stage 3/4
+ * - cce_telemetry:    temperature excursions longer than X minutes, power outages
+ * - requisitions:     deliveries overdue N days after approval/shipping
+ * - requisition_line_items: received vs approved quantity beyond tolerance
+ *
+ * Alerts are deduplicated on `data.dedupKey`: while an alert for the same
+ * condition is still open it is refreshed instead of duplicated. Engine
+ * alerts whose condition has cleared are auto-resolved, except for
+ * temperature excursions and reconciliation mismatches which need a human
+ * to review the affected stock.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+
+import { Alert, AlertType, AlertSeverity } from '../../entities/alert.entity';
+import { CacheService } from '../cache/cache.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { AlertsService } from './alerts.service';
+import { AlertRulesService, AlertRuleSet } from './alert-rules.service';
+import { AlertEngineRunDto } from './dto/alert-rule.dto';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export interface AlertCandidate {
+  alertType: AlertType;
+  severity: AlertSeverity;
+  facilityId: string;
+  lgaId?: string;
+  stateId?: string;
+  vaccineId?: string;
+  title: string;
+  description: string;
+  dedupKey: string;
+  data: Record<string, any>;
+}
+
+type Evaluator = (rules: AlertRuleSet) => Promise<AlertCandidate[]>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ENGINE_SOURCE = 'alert-engine';
+
+/**
+ * Alert types whose open alerts are resolved automatically once the
+ * condition is no longer detected
+ */
+const AUTO_RESOLVE_TYPES = new Set<AlertType>([
+  AlertType.STOCKOUT,
+  AlertType.NEAR_EXPIRY,
+  AlertType.VVM_STAGE_3,
+  AlertType.VVM_STAGE_4,
+  AlertType.POWER_OUTAGE,
+  AlertType.DELIVERY_DELAY,
+]);
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  [AlertSeverity.LOW]: 0,
+  [AlertSeverity.MEDIUM]: 1,
+  [AlertSeverity.HIGH]: 2,
+  [AlertSeverity.CRITICAL]: 3,
+};
+
+/**
+ * Resolves LGA and state IDs for a location aliased `f`, whether it is a
+ * facility (facility → LGA → state) or itself an LGA/state store
+ */
+const HIERARCHY_JOIN = `
+  LEFT JOIN locations p1 ON p1.id = f.parent_id
+  LEFT JOIN locations p2 ON p2.id = p1.parent_id`;
+const LGA_ID_SQL = `CASE WHEN f.type = 'lga' THEN f.id WHEN p1.type = 'lga' THEN p1.id END`;
+const STATE_ID_SQL = `CASE WHEN f.type = 'state' THEN f.id WHEN p1.type = 'state' THEN p1.id WHEN p2.type = 'state' THEN p2.id END`;
+
+/**
+ * Latest snapshot date per facility/vaccine
+ */
+const LATEST_SNAPSHOTS_CTE = `
+  latest AS (
+    SELECT DISTINCT ON (facility_id, vaccine_id) facility_id, vaccine_id, snapshot_date
+    FROM stock_snapshots
+    ORDER BY facility_id, vaccine_id, snapshot_date DESC
+  )`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class AlertEngineService {
+  private readonly logger = new Logger(AlertEngineService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(Alert)
+    private readonly alertRepository: Repository<Alert>,
+    private readonly alertRulesService: AlertRulesService,
+    private readonly alertsService: AlertsService,
+    private readonly cacheService: CacheService,
+    private readonly webSocketService: WebSocketService,
+  ) {
+    this.logger.log('Alert Engine Service initialized');
+  }
+
+  // ============================================
+  // SCHEDULED RUN
+  // ============================================
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async scheduledRun(): Promise<void> {
+    await this.run();
+  }
+
+  /**
+   * Evaluate all rules and upsert alerts
+   */
+  async run(): Promise<AlertEngineRunDto> {
+    const result: AlertEngineRunDto = { created: 0, updated: 0, autoResolved: 0, byType: {}, durationMs: 0 };
+
+    if (this.isRunning) {
+      this.logger.warn('Alert engine run already in progress - skipping');
+      return result;
+    }
+
+    this.isRunning = true;
+    const startTime = Date.now();
+
+    try {
+      const rules = await this.alertRulesService.loadRuleSet();
+
+      const evaluators: [AlertType[], Evaluator][] = [
+        [[AlertType.STOCKOUT], (r) => this.evaluateStockLevels(r)],
+        [[AlertType.NEAR_EXPIRY, AlertType.VVM_STAGE_3, AlertType.VVM_STAGE_4], (r) => this.evaluateLots(r)],
+        [[AlertType.TEMPERATURE_EXCURSION], (r) => this.evaluateTemperatureExcursions(r)],
+        [[AlertType.POWER_OUTAGE], (r) => this.evaluatePowerOutages(r)],
+        [[AlertType.DELIVERY_DELAY], (r) => this.evaluateDeliveryDelays(r)],
+        [[AlertType.RECONCILIATION_MISMATCH], (r) => this.evaluateReconciliation(r)],
+      ];
+
+      for (const [types, evaluate] of evaluators) {
+        let candidates: AlertCandidate[];
+
+        try {
+          candidates = await evaluate(rules);
+        } catch (error) {
+          // Skip the upsert so a failed query never auto-resolves open alerts
+          this.logger.error(`Alert rule evaluation failed for ${types.join(', ')}: ${error.message}`);
+          continue;
+        }
+
+        for (const type of types) {
+          const matches = candidates.filter((candidate) => candidate.alertType === type);
+          const counts = await this.upsertAlerts(type, matches);
+
+          result.byType[type] = matches.length;
+          result.created += counts.created;
+          result.updated += counts.updated;
+          result.autoResolved += counts.autoResolved;
+        }
+      }
+
+      if (result.created > 0 || result.autoResolved > 0) {
+        await this.cacheService.invalidateAlertsCache();
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    this.logger.log(
+      `Alert engine run complete: ${result.created} created, ${result.updated} updated, ` +
+        `${result.autoResolved} auto-resolved in ${result.durationMs}ms`,
+    );
+
+    return result;
+  }
+
+  // ============================================
+  // RULE EVALUATORS
+  // ============================================
+
+  /**
+   * Stockouts and months of stock below the rule threshold
+   * (defaults to the vaccine's minMonthsOfStock)
+   */
+  async evaluateStockLevels(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    const allRules = rules.all(AlertType.STOCKOUT);
+    if (allRules.length === 0) return [];
+
+    const maxThreshold = Math.max(0, ...allRules.map((rule) => rule.threshold ?? 0));
+
+    const rows = await this.dataSource.query(
+      `WITH ${LATEST_SNAPSHOTS_CTE},
+       levels AS (
+         SELECT ss.facility_id, ss.vaccine_id,
+                SUM(ss.quantity_on_hand) AS quantity_on_hand,
+                COALESCE(SUM(ss.quantity_on_hand) / NULLIF(MAX(ss.average_monthly_consumption), 0), MAX(ss.months_of_stock)) AS months_of_stock
+         FROM latest l
+         JOIN stock_snapshots ss
+           ON ss.facility_id = l.facility_id AND ss.vaccine_id = l.vaccine_id AND ss.snapshot_date = l.snapshot_date
+         GROUP BY ss.facility_id, ss.vaccine_id
+       )
+       SELECT lv.facility_id, ${LGA_ID_SQL} AS lga_id, ${STATE_ID_SQL} AS state_id,
+              lv.vaccine_id, v.code AS vaccine_code, v.min_months_of_stock,
+              lv.quantity_on_hand, lv.months_of_stock
+       FROM levels lv
+       JOIN vaccines v ON v.id = lv.vaccine_id
+       JOIN locations f ON f.id = lv.facility_id
+       ${HIERARCHY_JOIN}
+       WHERE lv.quantity_on_hand <= 0
+          OR lv.months_of_stock < GREATEST($1, v.min_months_of_stock)`,
+      [maxThreshold],
+    );
+
+    const candidates: AlertCandidate[] = [];
+
+    for (const row of rows) {
+      const rule = rules.resolve(AlertType.STOCKOUT, row.vaccine_id, row.state_id);
+      if (!rule) continue;
+
+      const quantity = Number(row.quantity_on_hand);
+      const monthsOfStock = row.months_of_stock !== null ? Number(row.months_of_stock) : null;
+      const threshold = rule.threshold ?? Number(row.min_months_of_stock);
+      const isStockout = quantity <= 0;
+
+      if (!isStockout && (monthsOfStock === null || monthsOfStock >= threshold)) continue;
+
+      candidates.push({
+        alertType: AlertType.STOCKOUT,
+        severity: isStockout ? AlertSeverity.CRITICAL : rule.severity,
+        facilityId: row.facility_id,
+        lgaId: row.lga_id,
+        stateId: row.state_id,
+        vaccineId: row.vaccine_id,
+        title: isStockout ? `${row.vaccine_code} stockout` : `${row.vaccine_code} low stock`,
+        description: isStockout
+          ? `${row.vaccine_code} stockout - 0 doses remaining`
+          : `${row.vaccine_code} at ${monthsOfStock.toFixed(1)} months of stock (threshold ${threshold})`,
+        dedupKey: `${AlertType.STOCKOUT}:${row.facility_id}:${row.vaccine_id}`,
+        data: { quantityOnHand: quantity, monthsOfStock, threshold, ruleId: rule.ruleId },
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Lots expiring within N days and lots at VVM stage 3/4,
+   * from the facility lot register (product_batches)
+   */
+  async evaluateLots(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    // Lots are still scanned for VVM stage when all expiry rules are disabled
+    const maxDays = Math.max(0, ...rules.all(AlertType.NEAR_EXPIRY).map((rule) => rule.threshold ?? 0));
+
+    const rows = await this.dataSource.query(
+      `SELECT pb.facility_id, ${LGA_ID_SQL} AS lga_id, ${STATE_ID_SQL} AS state_id,
+              pb.vaccine_id, v.code AS vaccine_code, pb.batch_number AS lot_number, pb.quantity_on_hand,
+              pb.expiry_date, pb.vvm_stage_current AS vvm_stage
+       FROM product_batches pb
+       JOIN vaccines v ON v.id = pb.vaccine_id
+       JOIN locations f ON f.id = pb.facility_id
+       ${HIERARCHY_JOIN}
+       WHERE pb.quantity_on_hand > 0
+         AND (pb.expiry_date <= CURRENT_DATE + $1::int OR pb.vvm_stage_current >= 3)`,
+      [Math.ceil(maxDays)],
+    );
+
+    const candidates: AlertCandidate[] = [];
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    for (const row of rows) {
+      const base = {
+        facilityId: row.facility_id,
+        lgaId: row.lga_id,
+        stateId: row.state_id,
+        vaccineId: row.vaccine_id,
+      };
+      const quantity = Number(row.quantity_on_hand);
+
+      if (row.expiry_date) {
+        const rule = rules.resolve(AlertType.NEAR_EXPIRY, row.vaccine_id, row.state_id);
+        const daysToExpiry = Math.ceil((new Date(row.expiry_date).getTime() - today.getTime()) / DAY_MS);
+
+        if (rule && daysToExpiry <= rule.threshold) {
+          const expired = daysToExpiry < 0;
+
+          candidates.push({
+            ...base,
+            alertType: AlertType.NEAR_EXPIRY,
+            severity: expired ? AlertSeverity.CRITICAL : rule.severity,
+            title: expired
+              ? `${row.vaccine_code} lot ${row.lot_number} expired`
+              : `${row.vaccine_code} lot ${row.lot_number} expiring`,
+            description: expired
+              ? `${quantity} doses of ${row.vaccine_code} lot ${row.lot_number} have expired`
+              : `${row.vaccine_code} lot ${row.lot_number} expiring in ${daysToExpiry} days - ${quantity} doses at risk`,
+            dedupKey: `${AlertType.NEAR_EXPIRY}:${row.facility_id}:${row.vaccine_id}:${row.lot_number}`,
+            data: {
+              lotNumber: row.lot_number,
+              expiryDate: row.expiry_date,
+              daysToExpiry,
+              quantity,
+              threshold: rule.threshold,
+              ruleId: rule.ruleId,
+            },
+          });
+        }
+      }
+
+      const vvmStage = row.vvm_stage !== null ? Number(row.vvm_stage) : null;
+
+      if (vvmStage === 3 || vvmStage === 4) {
+        const alertType = vvmStage === 4 ? AlertType.VVM_STAGE_4 : AlertType.VVM_STAGE_3;
+        const rule = rules.resolve(alertType, row.vaccine_id, row.state_id);
+
+        if (rule) {
+          candidates.push({
+            ...base,
+            alertType,
+            severity: rule.severity,
+            title: `${row.vaccine_code} lot ${row.lot_number} at VVM stage ${vvmStage}`,
+            description:
+              vvmStage === 4
+                ? `${quantity} doses of ${row.vaccine_code} lot ${row.lot_number} reached VVM stage 4 - do not use`
+                : `${quantity} doses of ${row.vaccine_code} lot ${row.lot_number} reached VVM stage 3 - use first`,
+            dedupKey: `${alertType}:${row.facility_id}:${row.vaccine_id}:${row.lot_number}`,
+            data: { lotNumber: row.lot_number, vvmStage, quantity, ruleId: rule.ruleId },
+          });
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Ongoing temperature excursions (consecutive out-of-range readings since
+   * the last in-range reading) lasting at least the rule's minutes.
+   * Rules are resolved per state; vaccine scope does not apply to equipment.
+   */
+  async evaluateTemperatureExcursions(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    const candidates: AlertCandidate[] = [];
+    const bands = new Map<string, { minTemp: number; maxTemp: number; minMinutes: number; lookbackHours: number }>();
+
+    // One query per distinct temperature band configured across rules
+    for (const rule of rules.all(AlertType.TEMPERATURE_EXCURSION)) {
+      const minTemp = Number(rule.parameters.minTemp);
+      const maxTemp = Number(rule.parameters.maxTemp);
+      const key = `${minTemp}|${maxTemp}`;
+      const band = bands.get(key);
+
+      bands.set(key, {
+        minTemp,
+        maxTemp,
+        minMinutes: Math.min(band?.minMinutes ?? Infinity, rule.threshold),
+        lookbackHours: Math.max(band?.lookbackHours ?? 0, Number(rule.parameters.lookbackHours) || 24),
+      });
+    }
+
+    for (const band of bands.values()) {
+      const rows = await this.dataSource.query(
+        `WITH recent AS (
+           SELECT cce_id, location_id, temp_celsius, recorded_at
+           FROM cce_telemetry
+           WHERE recorded_at >= NOW() - ($3 * INTERVAL '1 hour')
+         ),
+         last_ok AS (
+           SELECT cce_id, MAX(recorded_at) AS last_ok_at
+           FROM recent
+           WHERE temp_celsius BETWEEN $1 AND $2
+           GROUP BY cce_id
+         ),
+         excursions AS (
+           SELECT r.cce_id, r.location_id,
+                  MIN(r.recorded_at) AS started_at, MAX(r.recorded_at) AS last_reading_at,
+                  MIN(r.temp_celsius) AS min_temp, MAX(r.temp_celsius) AS max_temp
+           FROM recent r
+           LEFT JOIN last_ok o ON o.cce_id = r.cce_id
+           WHERE (r.temp_celsius < $1 OR r.temp_celsius > $2)
+             AND (o.last_ok_at IS NULL OR r.recorded_at > o.last_ok_at)
+           GROUP BY r.cce_id, r.location_id
+         )
+         SELECT e.*, EXTRACT(EPOCH FROM (e.last_reading_at - e.started_at)) / 60 AS duration_minutes,
+                f.id AS facility_id, ${LGA_ID_SQL} AS lga_id, ${STATE_ID_SQL} AS state_id
+         FROM excursions e
+         JOIN locations f ON f.id = e.location_id
+         ${HIERARCHY_JOIN}
+         WHERE EXTRACT(EPOCH FROM (e.last_reading_at - e.started_at)) / 60 >= $4`,
+        [band.minTemp, band.maxTemp, band.lookbackHours, band.minMinutes],
+      );
+
+      for (const row of rows) {
+        const rule = rules.resolve(AlertType.TEMPERATURE_EXCURSION, undefined, row.state_id);
+        const durationMinutes = Math.round(Number(row.duration_minutes));
+
+        if (
+          !rule ||
+          Number(rule.parameters.minTemp) !== band.minTemp ||
+          Number(rule.parameters.maxTemp) !== band.maxTemp ||
+          durationMinutes < rule.threshold
+        ) {
+          continue;
+        }
+
+        const tooHot = Number(row.max_temp) > band.maxTemp;
+        const peak = tooHot ? Number(row.max_temp) : Number(row.min_temp);
+
+        candidates.push({
+          alertType: AlertType.TEMPERATURE_EXCURSION,
+          severity: rule.severity,
+          facilityId: row.facility_id,
+          lgaId: row.lga_id,
+          stateId: row.state_id,
+          title: 'Cold chain temperature excursion',
+          description:
+            `Temperature ${tooHot ? 'above' : 'below'} ${tooHot ? band.maxTemp : band.minTemp}°C ` +
+            `for ${durationMinutes} minutes (peak ${peak}°C)`,
+          dedupKey: `${AlertType.TEMPERATURE_EXCURSION}:${row.cce_id}:${new Date(row.started_at).toISOString()}`,
+          data: {
+            cceId: row.cce_id,
+            startedAt: row.started_at,
+            lastReadingAt: row.last_reading_at,
+            durationMinutes,
+            minTemp: Number(row.min_temp),
+            maxTemp: Number(row.max_temp),
+            allowedRange: [band.minTemp, band.maxTemp],
+            ruleId: rule.ruleId,
+          },
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Ongoing power outages on cold chain equipment lasting at least the rule's minutes
+   */
+  async evaluatePowerOutages(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    const allRules = rules.all(AlertType.POWER_OUTAGE);
+    if (allRules.length === 0) return [];
+
+    const minMinutes = Math.min(...allRules.map((rule) => rule.threshold));
+    const lookbackHours = Math.max(...allRules.map((rule) => Number(rule.parameters.lookbackHours) || 24));
+
+    const rows = await this.dataSource.query(
+      `WITH recent AS (
+         SELECT cce_id, location_id, is_power_on, battery_level, recorded_at
+         FROM cce_telemetry
+         WHERE recorded_at >= NOW() - ($1 * INTERVAL '1 hour')
+       ),
+       last_on AS (
+         SELECT cce_id, MAX(recorded_at) AS last_on_at
+         FROM recent
+         WHERE is_power_on = TRUE
+         GROUP BY cce_id
+       ),
+       outages AS (
+         SELECT r.cce_id, r.location_id,
+                MIN(r.recorded_at) AS started_at, MAX(r.recorded_at) AS last_reading_at,
+                MIN(r.battery_level) AS min_battery_level
+         FROM recent r
+         LEFT JOIN last_on o ON o.cce_id = r.cce_id
+         WHERE r.is_power_on = FALSE
+           AND (o.last_on_at IS NULL OR r.recorded_at > o.last_on_at)
+         GROUP BY r.cce_id, r.location_id
+       )
+       SELECT o.*, EXTRACT(EPOCH FROM (o.last_reading_at - o.started_at)) / 60 AS duration_minutes,
+              f.id AS facility_id, ${LGA_ID_SQL} AS lga_id, ${STATE_ID_SQL} AS state_id
+       FROM outages o
+       JOIN locations f ON f.id = o.location_id
+       ${HIERARCHY_JOIN}
+       WHERE EXTRACT(EPOCH FROM (o.last_reading_at - o.started_at)) / 60 >= $2`,
+      [lookbackHours, minMinutes],
+    );
+
+    const candidates: AlertCandidate[] = [];
+
+    for (const row of rows) {
+      const rule = rules.resolve(AlertType.POWER_OUTAGE, undefined, row.state_id);
+      const durationMinutes = Math.round(Number(row.duration_minutes));
+
+      if (!rule || durationMinutes < rule.threshold) continue;
+
+      candidates.push({
+        alertType: AlertType.POWER_OUTAGE,
+        severity: rule.severity,
+        facilityId: row.facility_id,
+        lgaId: row.lga_id,
+        stateId: row.state_id,
+        title: 'Cold chain equipment power outage',
+        description: `No power for ${durationMinutes} minutes` +
+          (row.min_battery_level !== null ? ` (battery at ${row.min_battery_level}%)` : ''),
+        dedupKey: `${AlertType.POWER_OUTAGE}:${row.cce_id}`,
+        data: {
+          cceId: row.cce_id,
+          startedAt: row.started_at,
+          lastReadingAt: row.last_reading_at,
+          durationMinutes,
+          batteryLevel: row.min_battery_level !== null ? Number(row.min_battery_level) : null,
+          ruleId: rule.ruleId,
+        },
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Requisitions approved/shipped more than N days ago and not yet received
+   */
+  async evaluateDeliveryDelays(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    const allRules = rules.all(AlertType.DELIVERY_DELAY);
+    if (allRules.length === 0) return [];
+
+    const minDays = Math.min(...allRules.map((rule) => rule.threshold));
+
+    const rows = await this.dataSource.query(
+      `SELECT r.id AS requisition_id, r.openlmis_requisition_id, r.status,
+              r.facility_id, COALESCE(r.lga_id, ${LGA_ID_SQL}) AS lga_id, COALESCE(r.state_id, ${STATE_ID_SQL}) AS state_id,
+              COALESCE(r.shipped_date, r.approved_date) AS since_date,
+              CURRENT_DATE - COALESCE(r.shipped_date, r.approved_date) AS days_waiting
+       FROM requisitions r
+       JOIN locations f ON f.id = r.facility_id
+       ${HIERARCHY_JOIN}
+       WHERE r.status IN ('approved', 'released', 'shipped')
+         AND r.received_date IS NULL
+         AND COALESCE(r.shipped_date, r.approved_date) <= CURRENT_DATE - $1::int`,
+      [Math.floor(minDays)],
+    );
+
+    const candidates: AlertCandidate[] = [];
+
+    for (const row of rows) {
+      const rule = rules.resolve(AlertType.DELIVERY_DELAY, undefined, row.state_id);
+      const daysWaiting = Number(row.days_waiting);
+
+      if (!rule || daysWaiting < rule.threshold) continue;
+
+      candidates.push({
+        alertType: AlertType.DELIVERY_DELAY,
+        severity: rule.severity,
+        facilityId: row.facility_id,
+        lgaId: row.lga_id,
+        stateId: row.state_id,
+        title: 'Delivery overdue',
+        description: `Requisition ${row.openlmis_requisition_id} ${row.status} ${daysWaiting} days ago and not yet received`,
+        dedupKey: `${AlertType.DELIVERY_DELAY}:${row.requisition_id}`,
+        data: {
+          requisitionId: row.requisition_id,
+          openlmisRequisitionId: row.openlmis_requisition_id,
+          status: row.status,
+          sinceDate: row.since_date,
+          daysWaiting,
+          threshold: rule.threshold,
+          ruleId: rule.ruleId,
+        },
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Received quantities deviating from approved quantities beyond the tolerance (%)
+   */
+  async evaluateReconciliation(rules: AlertRuleSet): Promise<AlertCandidate[]> {
+    const allRules = rules.all(AlertType.RECONCILIATION_MISMATCH);
+    if (allRules.length === 0) return [];
+
+    const minTolerance = Math.min(...allRules.map((rule) => rule.threshold));
+    const lookbackDays = Math.max(...allRules.map((rule) => Number(rule.parameters.lookbackDays) || 30));
+
+    const rows = await this.dataSource.query(
+      `SELECT li.id AS line_item_id, li.requisition_id, r.openlmis_requisition_id,
+              r.facility_id, COALESCE(r.lga_id, ${LGA_ID_SQL}) AS lga_id, COALESCE(r.state_id, ${STATE_ID_SQL}) AS state_id,
+              li.vaccine_id, v.code AS vaccine_code, li.approved_quantity, li.received_quantity
+       FROM requisition_line_items li
+       JOIN requisitions r ON r.id = li.requisition_id
+       JOIN vaccines v ON v.id = li.vaccine_id
+       JOIN locations f ON f.id = r.facility_id
+       ${HIERARCHY_JOIN}
+       WHERE li.received_quantity IS NOT NULL
+         AND li.approved_quantity > 0
+         AND COALESCE(r.received_date, r.updated_at::date) >= CURRENT_DATE - $2::int
+         AND ABS(li.received_quantity - li.approved_quantity) * 100.0 / li.approved_quantity > $1`,
+      [minTolerance, lookbackDays],
+    );
+
+    const candidates: AlertCandidate[] = [];
+
+    for (const row of rows) {
+      const rule = rules.resolve(AlertType.RECONCILIATION_MISMATCH, row.vaccine_id, row.state_id);
+      const approved = Number(row.approved_quantity);
+      const received = Number(row.received_quantity);
+      const variancePercent = Math.round((Math.abs(received - approved) * 10000) / approved) / 100;
+
+      if (!rule || variancePercent <= rule.threshold) continue;
+
+      candidates.push({
+        alertType: AlertType.RECONCILIATION_MISMATCH,
+        severity: rule.severity,
+        facilityId: row.facility_id,
+        lgaId: row.lga_id,
+        stateId: row.state_id,
+        vaccineId: row.vaccine_id,
+        title: `${row.vaccine_code} receipt does not match approved quantity`,
+        description:
+          `Requisition ${row.openlmis_requisition_id}: approved ${approved}, received ${received} ` +
+          `(${variancePercent}% variance, tolerance ${rule.threshold}%)`,
+        dedupKey: `${AlertType.RECONCILIATION_MISMATCH}:${row.line_item_id}`,
+        data: {
+          requisitionId: row.requisition_id,
+          lineItemId: row.line_item_id,
+          approvedQuantity: approved,
+          receivedQuantity: received,
+          variancePercent,
+          tolerance: rule.threshold,
+          ruleId: rule.ruleId,
+        },
+      });
+    }
+
+    return candidates;
+  }
+
+  // ============================================
+  // PERSISTENCE
+  // ============================================
+
+  /**
+   * Create, refresh or auto-resolve alerts of one type against the current matches
+   */
+  async upsertAlerts(
+    alertType: AlertType,
+    candidates: AlertCandidate[],
+  ): Promise<{ created: number; updated: number; autoResolved: number }> {
+    const openAlerts = await this.alertRepository
+      .createQueryBuilder('alert')
+      .where('alert.alertType = :alertType', { alertType })
+      .andWhere('alert.isResolved = false')
+      .andWhere(`alert.data ->> 'dedupKey' IS NOT NULL`)
+      .getMany();
+
+    const openByKey = new Map(openAlerts.map((alert) => [alert.data.dedupKey, alert]));
+    const seen = new Set<string>();
+    const toSave: Alert[] = [];
+    const created: Alert[] = [];
+    const stockedOut: Alert[] = [];
+    const now = new Date().toISOString();
+
+    for (const candidate of candidates) {
+      if (seen.has(candidate.dedupKey)) continue;
+      seen.add(candidate.dedupKey);
+
+      const existing = openByKey.get(candidate.dedupKey);
+
+      if (existing) {
+        const wasStockout = this.alertsService.isStockout(existing);
+        if (SEVERITY_RANK[candidate.severity] > SEVERITY_RANK[existing.severity]) {
+          existing.severity = candidate.severity;
+        }
+        existing.title = candidate.title;
+        existing.description = candidate.description;
+        existing.data = { ...existing.data, ...candidate.data, lastEvaluatedAt: now };
+        toSave.push(existing);
+        // A low-stock alert that has run out of doses
+        if (!wasStockout && this.alertsService.isStockout(existing)) {
+          stockedOut.push(existing);
+        }
+        continue;
+      }
+
+      const alert = this.alertRepository.create({
+        alertType: candidate.alertType,
+        severity: candidate.severity,
+        facilityId: candidate.facilityId,
+        lgaId: candidate.lgaId || null,
+        stateId: candidate.stateId || null,
+        vaccineId: candidate.vaccineId || null,
+        title: candidate.title,
+        description: candidate.description,
+        data: { ...candidate.data, dedupKey: candidate.dedupKey, source: ENGINE_SOURCE, lastEvaluatedAt: now },
+      });
+      toSave.push(alert);
+      created.push(alert);
+    }
+
+    const autoResolved: Alert[] = [];
+
+    if (AUTO_RESOLVE_TYPES.has(alertType)) {
+      for (const alert of openAlerts) {
+        if (alert.data.source !== ENGINE_SOURCE || seen.has(alert.data.dedupKey)) continue;
+
+        alert.isResolved = true;
+        alert.resolvedAt = new Date();
+        alert.resolutionNotes = 'Condition cleared - auto-resolved by alert engine';
+        toSave.push(alert);
+        autoResolved.push(alert);
+      }
+    }
+
+    if (toSave.length > 0) {
+      await this.alertRepository.save(toSave, { chunk: 200 });
+    }
+
+    for (const alert of created) {
+      this.webSocketService.broadcastAlert(this.alertsService.toAlertDto(alert));
+    }
+
+    for (const alert of [...created, ...autoResolved]) {
+      await this.alertsService.publishAlertEvent(alert);
+    }
+    for (const alert of stockedOut) {
+      await this.alertsService.publishStockoutEvent(alert);
+    }
+
+    return {
+      created: created.length,
+      updated: toSave.length - created.length - autoResolved.length,
+      autoResolved: autoResolved.length,
+    };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * VaxTrace Nigeria - Alert Escalation Unit Tests
+ *
+ * Tests for SLA-based escalation of critical alerts including:
+ * - SLA breach detection (acknowledged, resolved and snoozed alerts are skipped)
+ * - Each step up the hierarchy: facility → LGA → state → national
+ * - The WebSocket room each escalation is broadcast to
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Brackets } from 'typeorm';
+
+import { Alert, AlertSeverity, AlertType, EscalationLevel } from '../../entities/alert.entity';
+import { WebSocketService } from '../websocket/websocket.service';
+import { AlertsService } from './alerts.service';
+import { AlertEscalationService } from './alert-escalation.service';
+
+describe('AlertEscalationService', () => {
+  let service: AlertEscalationService;
+  let mockAlertRepository: any;
+  let mockQueryBuilder: any;
+  let mockWebSocketService: { broadcastAlertEscalation: jest.Mock };
+
+  const alert = (overrides: Partial<Alert> = {}): Alert =>
+    ({
+      id: 'alert-1',
+      alertType: AlertType.STOCKOUT,
+      severity: AlertSeverity.CRITICAL,
+      facilityId: 'fac-1',
+      lgaId: 'lga-1',
+      stateId: 'state-1',
+      escalationLevel: EscalationLevel.FACILITY,
+      isAcknowledged: false,
+      isResolved: false,
+      data: { quantityOnHand: 0 },
+      createdAt: new Date('2026-03-01T09:00:00Z'),
+      ...overrides,
+    }) as Alert;
+
+  const createService = async (slaMinutes?: number) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertEscalationService,
+        { provide: ConfigService, useValue: { get: jest.fn((key, fallback) => slaMinutes ?? fallback) } },
+        { provide: getRepositoryToken(Alert), useValue: mockAlertRepository },
+        { provide: AlertsService, useValue: { toAlertDto: jest.fn((row) => ({ id: row.id })) } },
+        { provide: WebSocketService, useValue: mockWebSocketService },
+      ],
+    }).compile();
+
+    return module.get<AlertEscalationService>(AlertEscalationService);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-01T10:00:00Z'));
+
+    mockQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+    mockAlertRepository = {
+      createQueryBuilder: jest.fn(() => mockQueryBuilder),
+      save: jest.fn(async (row) => row),
+    };
+    mockWebSocketService = { broadcastAlertEscalation: jest.fn() };
+
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('SLA Breach Detection', () => {
+    it('should only select unacknowledged, unresolved critical alerts past the SLA', async () => {
+      await service.escalateOverdueAlerts();
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith('alert.severity = :severity', {
+        severity: AlertSeverity.CRITICAL,
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('alert.isAcknowledged = false');
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('alert.isResolved = false');
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('alert.escalationLevel != :national', {
+        national: EscalationLevel.NATIONAL,
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('COALESCE(alert.escalatedAt, alert.createdAt) <= :deadline', {
+        deadline: new Date('2026-03-01T09:30:00Z'),
+      });
+    });
+
+    it('should use the configured SLA', async () => {
+      service = await createService(45);
+
+      await service.escalateOverdueAlerts();
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining(':deadline'), {
+        deadline: new Date('2026-03-01T09:15:00Z'),
+      });
+    });
+
+    it('should skip alerts until their snooze expires', async () => {
+      await service.escalateOverdueAlerts();
+
+      const brackets: Brackets = mockQueryBuilder.andWhere.mock.calls.find(([condition]) => condition instanceof Brackets)[0];
+      const snooze = { where: jest.fn().mockReturnThis(), orWhere: jest.fn().mockReturnThis() };
+      brackets.whereFactory(snooze as any);
+
+      expect(snooze.where).toHaveBeenCalledWith('alert.snoozedUntil IS NULL');
+      expect(snooze.orWhere).toHaveBeenCalledWith('alert.snoozedUntil <= :now', { now: new Date('2026-03-01T10:00:00Z') });
+    });
+
+    it('should do nothing without overdue alerts', async () => {
+      await expect(service.escalateOverdueAlerts()).resolves.toBe(0);
+
+      expect(mockAlertRepository.save).not.toHaveBeenCalled();
+      expect(mockWebSocketService.broadcastAlertEscalation).not.toHaveBeenCalled();
+    });
+
+    it('should report no escalations when the run fails', async () => {
+      mockQueryBuilder.getMany.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.escalateOverdueAlerts()).resolves.toBe(0);
+    });
+  });
+
+  describe('Escalation Steps', () => {
+    it.each([
+      ['facility', 'lga', {}, 'lga:lga-1'],
+      ['lga', 'state', {}, 'state:state-1'],
+      ['state', 'national', {}, 'national'],
+      ['facility', 'state', { lgaId: null }, 'state:state-1'],
+      ['facility', 'national', { lgaId: null, stateId: null }, 'national'],
+      ['lga', 'national', { stateId: null }, 'national'],
+    ])('should escalate from %s to %s and broadcast to the new room', async (from, to, location, room) => {
+      mockQueryBuilder.getMany.mockResolvedValue([alert({ escalationLevel: from as EscalationLevel, ...location })]);
+
+      await expect(service.escalateOverdueAlerts()).resolves.toBe(1);
+
+      expect(mockAlertRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ escalationLevel: to, escalatedAt: new Date('2026-03-01T10:00:00Z') }),
+      );
+      expect(mockWebSocketService.broadcastAlertEscalation).toHaveBeenCalledWith({ id: 'alert-1' }, to, [room]);
+    });
+
+    it('should keep the escalation history on the alert', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        alert({
+          escalationLevel: EscalationLevel.LGA,
+          data: { quantityOnHand: 0, escalations: [{ from: 'facility', to: 'lga', at: '2026-03-01T09:30:00.000Z' }] },
+        }),
+      ]);
+
+      await service.escalateOverdueAlerts();
+
+      expect(mockAlertRepository.save.mock.calls[0][0].data).toEqual({
+        quantityOnHand: 0,
+        escalations: [
+          { from: 'facility', to: 'lga', at: '2026-03-01T09:30:00.000Z' },
+          { from: 'lga', to: 'state', at: '2026-03-01T10:00:00.000Z' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * VaxTrace Nigeria - Alert Escalation Service
+ *
+ * Auto-escalates CRITICAL alerts that are not acknowledged within the
+ * configured SLA to the next level of the location hierarchy:
+ *
+ *   facility → LGA → state → NPHCDA (national)
+ *
+ * Each escalation is pushed over WebSocket to the room of the new level
+ * (`lga:<id>`, `state:<id>` or `national`). Snoozed alerts are skipped
+ * until the snooze expires.
+ *
+ * Config:
+ * - ALERT_ESCALATION_SLA_MINUTES: minutes allowed per level before escalating (default 30)
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Brackets, Repository } from 'typeorm';
+
+import { Alert, AlertSeverity, EscalationLevel } from '../../entities/alert.entity';
+import { WebSocketService } from '../websocket/websocket.service';
+import { AlertsService } from './alerts.service';
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class AlertEscalationService {
+  private readonly logger = new Logger(AlertEscalationService.name);
+  private readonly slaMinutes: number;
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Alert)
+    private readonly alertRepository: Repository<Alert>,
+    private readonly alertsService: AlertsService,
+    private readonly webSocketService: WebSocketService,
+  ) {
+    this.slaMinutes = Number(this.configService.get('ALERT_ESCALATION_SLA_MINUTES', 30));
+    this.logger.log(`Alert Escalation Service initialized (SLA: ${this.slaMinutes} minutes)`);
+  }
+
+  /**
+   * Escalate overdue CRITICAL alerts. Runs every minute.
+   *
+   * @returns number of alerts escalated in this run
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async escalateOverdueAlerts(): Promise<number> {
+    if (this.isRunning) {
+      return 0;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const deadline = new Date(now.getTime() - this.slaMinutes * 60 * 1000);
+
+      const overdue = await this.alertRepository
+        .createQueryBuilder('alert')
+        .where('alert.severity = :severity', { severity: AlertSeverity.CRITICAL })
+        .andWhere('alert.isAcknowledged = false')
+        .andWhere('alert.isResolved = false')
+        .andWhere('alert.escalationLevel != :national', { national: EscalationLevel.NATIONAL })
+        .andWhere(
+          new Brackets((qb) => {
+            qb.where('alert.snoozedUntil IS NULL').orWhere('alert.snoozedUntil <= :now', { now });
+          }),
+        )
+        .andWhere('COALESCE(alert.escalatedAt, alert.createdAt) <= :deadline', { deadline })
+        .getMany();
+
+      for (const alert of overdue) {
+        await this.escalate(alert, now);
+      }
+
+      if (overdue.length > 0) {
+        this.logger.warn(`Escalated ${overdue.length} unacknowledged critical alerts`);
+      }
+
+      return overdue.length;
+    } catch (error) {
+      this.logger.error(`Alert escalation run failed: ${error.message}`);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private async escalate(alert: Alert, now: Date): Promise<void> {
+    const nextLevel = this.getNextLevel(alert);
+    const previousLevel = alert.escalationLevel;
+
+    alert.escalationLevel = nextLevel;
+    alert.escalatedAt = now;
+    alert.data = {
+      ...(alert.data || {}),
+      escalations: [
+        ...((alert.data && alert.data.escalations) || []),
+        { from: previousLevel, to: nextLevel, at: now.toISOString() },
+      ],
+    };
+
+    await this.alertRepository.save(alert);
+
+    this.logger.warn(`Alert ${alert.id} escalated from ${previousLevel} to ${nextLevel}`);
+
+    this.webSocketService.broadcastAlertEscalation(
+      this.alertsService.toAlertDto(alert),
+      nextLevel,
+      this.getRoomsForLevel(alert, nextLevel),
+    );
+  }
+
+  /**
+   * Next level up the hierarchy, skipping levels the alert has no location for
+   */
+  private getNextLevel(alert: Alert): EscalationLevel {
+    switch (alert.escalationLevel) {
+      case EscalationLevel.FACILITY:
+        if (alert.lgaId) return EscalationLevel.LGA;
+        if (alert.stateId) return EscalationLevel.STATE;
+        return EscalationLevel.NATIONAL;
+      case EscalationLevel.LGA:
+        if (alert.stateId) return EscalationLevel.STATE;
+        return EscalationLevel.NATIONAL;
+      default:
+        return EscalationLevel.NATIONAL;
+    }
+  }
+
+  private getRoomsForLevel(alert: Alert, level: EscalationLevel): string[] {
+    switch (level) {
+      case EscalationLevel.LGA:
+        return [`lga:${alert.lgaId}`];
+      case EscalationLevel.STATE:
+        return [`state:${alert.stateId}`];
+      default:
+        return ['national'];
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * VaxTrace Nigeria - Alert Rules Controller
+ *
+ * Exposes configuration of the rule-based alert engine.
+ *
+ * Endpoints:
+ * - GET /api/v1/alert-rules - List configured rules
+ * - POST /api/v1/alert-rules - Create a rule for a vaccine/state scope
+ * - PUT /api/v1/alert-rules/:id - Update a rule
+ * - DELETE /api/v1/alert-rules/:id - Delete a rule (scope falls back to the next level)
+ * - POST /api/v1/alert-rules/evaluate - Run the alert engine immediately
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertEngineService } from './alert-engine.service';
+import {
+  AlertRuleDto,
+  AlertRuleQueryDto,
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+  AlertEngineRunDto,
+} from './dto/alert-rule.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Alerts')
+@Controller('alert-rules')
+@UseGuards(RBACGuard)
+export class AlertRulesController {
+  private readonly logger = new Logger(AlertRulesController.name);
+
+  constructor(
+    private readonly alertRulesService: AlertRulesService,
+    private readonly alertEngineService: AlertEngineService,
+  ) {}
+
+  /**
+   * List alert rules
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get alert rules',
+    description: 'List alert engine rules, optionally filtered by type, vaccine or state',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules retrieved successfully',
+    type: [AlertRuleDto],
+  })
+  async getRules(@Query() query: AlertRuleQueryDto): Promise<AlertRuleDto[]> {
+    return await this.alertRulesService.getRules(query);
+  }
+
+  /**
+   * Create alert rule
+   */
+  @Post()
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'system_admin')
+  @ApiOperation({
+    summary: 'Create alert rule',
+    description: 'Create a rule for an alert type, optionally scoped to a vaccine and/or state',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created successfully',
+    type: AlertRuleDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A rule already exists for this scope',
+  })
+  async createRule(@Body() body: CreateAlertRuleDto, @Req() req: ExtendedRequest): Promise<AlertRuleDto> {
+    this.logger.log(`Create alert rule request: ${body.alertType}`);
+    return await this.alertRulesService.createRule(body, req.user?.id);
+  }
+
+  /**
+   * Update alert rule
+   */
+  @Put(':id')
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'system_admin')
+  @ApiOperation({
+    summary: 'Update alert rule',
+    description: 'Update threshold, severity, parameters or enabled state of a rule',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule updated successfully',
+    type: AlertRuleDto,
+  })
+  async updateRule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateAlertRuleDto,
+    @Req() req: ExtendedRequest,
+  ): Promise<AlertRuleDto> {
+    this.logger.log(`Update alert rule request: ${id}`);
+    return await this.alertRulesService.updateRule(id, body, req.user?.id);
+  }
+
+  /**
+   * Delete alert rule
+   */
+  @Delete(':id')
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'system_admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete alert rule',
+    description: 'Delete a rule; its scope falls back to the next less specific rule',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Rule deleted successfully',
+  })
+  async deleteRule(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    this.logger.log(`Delete alert rule request: ${id}`);
+    await this.alertRulesService.deleteRule(id);
+  }
+
+  /**
+   * Run the alert engine now
+   */
+  @Post('evaluate')
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'system_admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Evaluate alert rules',
+    description: 'Run the alert engine immediately instead of waiting for the next scheduled run',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Alert engine run completed',
+    type: AlertEngineRunDto,
+  })
+  async evaluate(): Promise<AlertEngineRunDto> {
+    this.logger.log('Manual alert engine run requested');
+    return await this.alertEngineService.run();
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * VaxTrace Nigeria - Alert Rules Service
+ *
+ * Manages the configurable rules evaluated by the alert engine.
+ * Rules are stored in the `alert_rules` table so thresholds can be tuned
+ * per vaccine and per state without redeploying.
+ *
+ * Rule resolution (most specific enabled rule wins):
+ *   vaccine + state > vaccine > state > national rule > built-in default
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+
+import { AlertType, AlertSeverity } from '../../entities/alert.entity';
+import { AlertRule } from '../../entities/alert-rule.entity';
+import {
+  AlertRuleDto,
+  AlertRuleQueryDto,
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+} from './dto/alert-rule.dto';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export interface EffectiveAlertRule {
+  alertType: AlertType;
+  severity: AlertSeverity;
+  threshold: number;
+  parameters: Record<string, any>;
+  ruleId?: string;
+}
+
+/**
+ * Rules loaded once per engine run
+ */
+export interface AlertRuleSet {
+  resolve(alertType: AlertType, vaccineId?: string, stateId?: string): EffectiveAlertRule | null;
+  all(alertType: AlertType): EffectiveAlertRule[];
+}
+
+// ============================================
+// DEFAULT RULES
+// ============================================
+
+/**
+ * Built-in defaults used when no rule row exists for a scope.
+ * A null stockout threshold means "use the vaccine's minMonthsOfStock".
+ */
+export const DEFAULT_ALERT_RULES: Record<AlertType, Omit<EffectiveAlertRule, 'alertType'>> = {
+  [AlertType.STOCKOUT]: { severity: AlertSeverity.HIGH, threshold: null, parameters: {} },
+  [AlertType.NEAR_EXPIRY]: { severity: AlertSeverity.HIGH, threshold: 30, parameters: {} },
+  [AlertType.TEMPERATURE_EXCURSION]: {
+    severity: AlertSeverity.HIGH,
+    threshold: 60,
+    parameters: { minTemp: 2, maxTemp: 8, lookbackHours: 24 },
+  },
+  [AlertType.VVM_STAGE_3]: { severity: AlertSeverity.HIGH, threshold: null, parameters: {} },
+  [AlertType.VVM_STAGE_4]: { severity: AlertSeverity.CRITICAL, threshold: null, parameters: {} },
+  [AlertType.POWER_OUTAGE]: { severity: AlertSeverity.MEDIUM, threshold: 120, parameters: { lookbackHours: 24 } },
+  [AlertType.DELIVERY_DELAY]: { severity: AlertSeverity.MEDIUM, threshold: 14, parameters: {} },
+  [AlertType.RECONCILIATION_MISMATCH]: { severity: AlertSeverity.MEDIUM, threshold: 5, parameters: { lookbackDays: 30 } },
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class AlertRulesService {
+  private readonly logger = new Logger(AlertRulesService.name);
+
+  constructor(
+    @InjectRepository(AlertRule)
+    private readonly ruleRepository: Repository<AlertRule>,
+  ) {
+    this.logger.log('Alert Rules Service initialized');
+  }
+
+  // ============================================
+  // CRUD
+  // ============================================
+
+  async getRules(query: AlertRuleQueryDto = {}): Promise<AlertRuleDto[]> {
+    const where: Record<string, any> = {};
+
+    if (query.alertType) where.alertType = query.alertType;
+    if (query.vaccineId) where.vaccineId = query.vaccineId;
+    if (query.stateId) where.stateId = query.stateId;
+
+    const rules = await this.ruleRepository.find({
+      where,
+      order: { alertType: 'ASC', createdAt: 'ASC' },
+    });
+
+    return rules.map((rule) => this.toRuleDto(rule));
+  }
+
+  async createRule(dto: CreateAlertRuleDto, userId?: string): Promise<AlertRuleDto> {
+    const existing = await this.ruleRepository.findOne({
+      where: {
+        alertType: dto.alertType,
+        vaccineId: dto.vaccineId ?? IsNull(),
+        stateId: dto.stateId ?? IsNull(),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(`A ${dto.alertType} rule already exists for this vaccine/state scope`);
+    }
+
+    const rule = await this.ruleRepository.save(
+      this.ruleRepository.create({
+        ...dto,
+        parameters: dto.parameters || {},
+        updatedBy: userId || null,
+      }),
+    );
+
+    this.logger.log(`Alert rule created: ${rule.alertType} (vaccine=${rule.vaccineId}, state=${rule.stateId})`);
+
+    return this.toRuleDto(rule);
+  }
+
+  async updateRule(ruleId: string, dto: UpdateAlertRuleDto, userId?: string): Promise<AlertRuleDto> {
+    const rule = await this.ruleRepository.findOne({ where: { id: ruleId } });
+
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${ruleId} not found`);
+    }
+
+    Object.assign(rule, dto, { updatedBy: userId || null });
+    await this.ruleRepository.save(rule);
+
+    this.logger.log(`Alert rule updated: ${ruleId}`);
+
+    return this.toRuleDto(rule);
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    const result = await this.ruleRepository.delete(ruleId);
+
+    if (!result.affected) {
+      throw new NotFoundException(`Alert rule ${ruleId} not found`);
+    }
+
+    this.logger.log(`Alert rule deleted: ${ruleId}`);
+  }
+
+  // ============================================
+  // RULE RESOLUTION
+  // ============================================
+
+  /**
+   * Load all rules and build a resolver for the engine run
+   */
+  async loadRuleSet(): Promise<AlertRuleSet> {
+    const rules = await this.ruleRepository.find();
+    return buildAlertRuleSet(rules);
+  }
+
+  private toRuleDto(rule: AlertRule): AlertRuleDto {
+    return {
+      id: rule.id,
+      alertType: rule.alertType,
+      vaccineId: rule.vaccineId,
+      stateId: rule.stateId,
+      isEnabled: rule.isEnabled,
+      severity: rule.severity,
+      threshold: rule.threshold !== null && rule.threshold !== undefined ? Number(rule.threshold) : null,
+      parameters: rule.parameters || {},
+      description: rule.description,
+      updatedAt: rule.updatedAt?.toISOString(),
+    };
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Build a rule set from rule rows. Scope keys are `type|vaccineId|stateId`
+ * with `*` standing for "any".
+ */
+export function buildAlertRuleSet(rules: AlertRule[]): AlertRuleSet {
+  const byScope = new Map<string, AlertRule>();
+
+  for (const rule of rules) {
+    byScope.set(`${rule.alertType}|${rule.vaccineId || '*'}|${rule.stateId || '*'}`, rule);
+  }
+
+  const toEffective = (alertType: AlertType, rule?: AlertRule): EffectiveAlertRule => {
+    const defaults = DEFAULT_ALERT_RULES[alertType];
+
+    return {
+      alertType,
+      severity: rule?.severity || defaults.severity,
+      threshold:
+        rule?.threshold !== null && rule?.threshold !== undefined ? Number(rule.threshold) : defaults.threshold,
+      parameters: { ...defaults.parameters, ...(rule?.parameters || {}) },
+      ruleId: rule?.id,
+    };
+  };
+
+  return {
+    resolve(alertType: AlertType, vaccineId?: string, stateId?: string): EffectiveAlertRule | null {
+      const candidates = [
+        vaccineId && stateId ? `${alertType}|${vaccineId}|${stateId}` : null,
+        vaccineId ? `${alertType}|${vaccineId}|*` : null,
+        stateId ? `${alertType}|*|${stateId}` : null,
+        `${alertType}|*|*`,
+      ].filter(Boolean);
+
+      for (const key of candidates) {
+        const rule = byScope.get(key);
+        if (rule) {
+          return rule.isEnabled ? toEffective(alertType, rule) : null;
+        }
+      }
+
+      return toEffective(alertType);
+    },
+
+    all(alertType: AlertType): EffectiveAlertRule[] {
+      const scoped = rules
+        .filter((rule) => rule.alertType === alertType && rule.isEnabled)
+        .map((rule) => toEffective(alertType, rule));
+
+      return byScope.has(`${alertType}|*|*`) ? scoped : [...scoped, toEffective(alertType)];
+    },
+  };
+}
@@ -9,19 +9,50 @@
  * - GET /api/v1/alerts/active - Get active (unresolved) alerts
  * - GET /api/v1/alerts/:id - Get alert by ID
  * - POST /api/v1/alerts/:id/resolve - Resolve an alert
+ * - POST /api/v1/alerts/:id/acknowledge - Acknowledge an alert
+ * - POST /api/v1/alerts/:id/assign - Assign an alert to an LGA officer
+ * - POST /api/v1/alerts/:id/snooze - Snooze escalation of an alert
+ * - GET/POST /api/v1/alerts/:id/comments - Alert comment thread
+ *
+ * Results are limited to the caller's assigned location (see LocationScopeGuard).
+ * Every role responsible for a location can acknowledge and comment on its
+ * alerts; resolving needs an LGA officer or above, and assigning or snoozing
+ * the manage_alerts permission (see RBACGuard).
  *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Controller, Get, Post, Body, HttpCode, HttpStatus, Logger, Param, Put } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { LocationScopeGuard, LocationScope, CurrentScope, assertInScope } from '../../guards/location-scope.guard';
+import { RBACGuard, Roles, RequirePermissions } from '../../guards/rbac.guard';
 import { AlertsService } from './alerts.service';
+import { Audited } from '../audit/audit.interceptor';
 import {
   AlertQueryDto,
   AlertDto,
   AlertsResponseDto,
+  ResolveAlertDto,
+  AssignAlertDto,
+  SnoozeAlertDto,
+  CreateAlertCommentDto,
+  AlertCommentDto,
 } from './dto/alert.dto';
 
 // ============================================
@@ -30,6 +61,7 @@ import {
 
 @ApiTags('Alerts')
 @Controller('alerts')
+@UseGuards(RBACGuard, LocationScopeGuard)
 export class AlertsController {
   private readonly logger = new Logger(AlertsController.name);
 
@@ -47,26 +79,16 @@ export class AlertsController {
   @Get()
   @ApiOperation({
     summary: 'Get alerts',
-    description: 'Retrieve alerts with optional filtering by severity, type, state, and active status',
+    description: 'Retrieve alerts with optional filtering by severity, type, location, date range and active status',
   })
   @ApiResponse({
     status: 200,
     description: 'Alerts retrieved successfully',
     type: AlertsResponseDto,
   })
-  async getAlerts(
-    @Param('severity') severity?: string,
-    @Param('type') type?: string,
-    @Param('state') state?: string,
-    @Param('active') active?: string,
-  ): Promise<AlertsResponseDto> {
-    this.logger.debug(`Get alerts request with filters: severity=${severity}, type=${type}, state=${state}, active=${active}`);
-    return await this.alertsService.getAlerts({
-      severity,
-      type,
-      state,
-      active: active === 'true' ? true : active === 'false' ? false : undefined,
-    });
+  async getAlerts(@Query() query: AlertQueryDto, @CurrentScope() scope: LocationScope): Promise<AlertsResponseDto> {
+    this.logger.debug(`Get alerts request with filters: ${JSON.stringify(query)}`);
+    return await this.alertsService.getAlerts({ ...query, ...scope?.filter });
   }
 
   /**
@@ -82,17 +104,9 @@ export class AlertsController {
     description: 'Active alerts retrieved successfully',
     type: AlertsResponseDto,
   })
-  async getActiveAlerts(
-    @Param('severity') severity?: string,
-    @Param('type') type?: string,
-    @Param('state') state?: string,
-  ): Promise<AlertsResponseDto> {
-    this.logger.debug(`Get active alerts request with filters: severity=${severity}, type=${type}, state=${state}`);
-    return await this.alertsService.getActiveAlerts({
-      severity,
-      type,
-      state,
-    });
+  async getActiveAlerts(@Query() query: AlertQueryDto, @CurrentScope() scope: LocationScope): Promise<AlertsResponseDto> {
+    this.logger.debug(`Get active alerts request with filters: ${JSON.stringify(query)}`);
+    return await this.alertsService.getActiveAlerts({ ...query, ...scope?.filter });
   }
 
   /**
@@ -112,30 +126,197 @@ export class AlertsController {
     status: 404,
     description: 'Alert not found',
   })
-  async getAlert(@Param('id') id: string): Promise<AlertDto | null> {
+  async getAlert(@Param('id', ParseUUIDPipe) id: string, @CurrentScope() scope: LocationScope): Promise<AlertDto> {
     this.logger.debug(`Get alert request: ${id}`);
-    return await this.alertsService.getAlert(id);
+    return await this.findAlertInScope(id, scope);
   }
 
   /**
    * Resolve alert
    */
   @Post(':id/resolve')
+  @Roles('lga_logistics_officer', 'state_cold_chain_officer', 'nphcda_director', 'system_admin')
+  @Audited({ action: 'RESOLVE', resource: 'alert' })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Resolve alert',
-    description: 'Mark an alert as resolved',
+    description: 'Mark an alert as resolved, recording the resolving user and optional notes',
   })
   @ApiResponse({
     status: 200,
     description: 'Alert resolved successfully',
+    type: AlertDto,
   })
   @ApiResponse({
     status: 404,
     description: 'Alert not found',
   })
-  async resolveAlert(@Param('id') id: string): Promise<void> {
+  @ApiResponse({
+    status: 409,
+    description: 'Alert already resolved',
+  })
+  async resolveAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ResolveAlertDto,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertDto> {
     this.logger.log(`Resolve alert request: ${id}`);
-    await this.alertsService.resolveAlert(id);
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.resolveAlert(id, req.user?.id, body.resolutionNotes);
+  }
+
+  // ============================================
+  // LIFECYCLE ENDPOINTS
+  // ============================================
+
+  /**
+   * Acknowledge alert
+   */
+  @Post(':id/acknowledge')
+  @Roles('facility_in_charge', 'lga_logistics_officer', 'state_cold_chain_officer', 'nphcda_director', 'system_admin')
+  @Audited({ action: 'ACKNOWLEDGE', resource: 'alert' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Acknowledge alert',
+    description: 'Acknowledge an alert. Acknowledged alerts are not auto-escalated.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Alert acknowledged successfully',
+    type: AlertDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Alert already acknowledged or resolved',
+  })
+  async acknowledgeAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertDto> {
+    this.logger.log(`Acknowledge alert request: ${id}`);
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.acknowledgeAlert(id, req.user?.id);
+  }
+
+  /**
+   * Assign alert to an LGA logistics officer
+   */
+  @Post(':id/assign')
+  @Roles('state_cold_chain_officer', 'nphcda_director', 'system_admin')
+  @RequirePermissions('manage_alerts')
+  @Audited({ action: 'ASSIGN', resource: 'alert' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Assign alert',
+    description: 'Assign an alert to an LGA logistics officer',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Alert assigned successfully',
+    type: AlertDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Assignee is not an LGA logistics officer for this alert',
+  })
+  async assignAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AssignAlertDto,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertDto> {
+    this.logger.log(`Assign alert request: ${id} -> ${body.assigneeId}`);
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.assignAlert(id, body.assigneeId, req.user?.id);
+  }
+
+  /**
+   * Snooze alert escalation
+   */
+  @Post(':id/snooze')
+  @Roles('state_cold_chain_officer', 'nphcda_director', 'system_admin')
+  @RequirePermissions('manage_alerts')
+  @Audited({ action: 'SNOOZE', resource: 'alert' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Snooze alert',
+    description: 'Suppress escalation of an alert for the given number of minutes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Alert snoozed successfully',
+    type: AlertDto,
+  })
+  async snoozeAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: SnoozeAlertDto,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertDto> {
+    this.logger.log(`Snooze alert request: ${id} for ${body.minutes} minutes`);
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.snoozeAlert(id, body.minutes, req.user?.id);
+  }
+
+  /**
+   * Get alert comments
+   */
+  @Get(':id/comments')
+  @ApiOperation({
+    summary: 'Get alert comments',
+    description: 'Retrieve the comment thread of an alert',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Comments retrieved successfully',
+    type: [AlertCommentDto],
+  })
+  async getComments(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertCommentDto[]> {
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.getComments(id);
+  }
+
+  /**
+   * Add alert comment
+   */
+  @Post(':id/comments')
+  @Roles('facility_in_charge', 'lga_logistics_officer', 'state_cold_chain_officer', 'nphcda_director', 'system_admin')
+  @Audited({ action: 'COMMENT', resource: 'alert' })
+  @ApiOperation({
+    summary: 'Add alert comment',
+    description: 'Add a comment to the thread of an alert',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Comment added successfully',
+    type: AlertCommentDto,
+  })
+  async addComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: CreateAlertCommentDto,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<AlertCommentDto> {
+    this.logger.log(`Add comment request for alert: ${id}`);
+    await this.findAlertInScope(id, scope);
+    return await this.alertsService.addComment(id, body.comment, req.user?.id);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Load an alert, rejecting alerts outside the caller's location scope
+   */
+  private async findAlertInScope(id: string, scope?: LocationScope): Promise<AlertDto> {
+    const alert = await this.alertsService.getAlert(id);
+    assertInScope(scope, alert.facilityId, alert.lgaId, alert.stateId);
+    return alert;
   }
 }
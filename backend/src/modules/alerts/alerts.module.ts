@@ -10,13 +10,25 @@
  */
 
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { Alert } from '../../entities/alert.entity';
+import { AlertComment } from '../../entities/alert-comment.entity';
+import { AlertRule } from '../../entities/alert-rule.entity';
+import { User } from '../../entities/user.entity';
+import { WebSocketModule } from '../websocket/websocket.module';
+import { WebhookSubscriptionsModule } from '../webhook-subscriptions/webhook-subscriptions.module';
 import { AlertsController } from './alerts.controller';
 import { AlertsService } from './alerts.service';
+import { AlertEscalationService } from './alert-escalation.service';
+import { AlertRulesController } from './alert-rules.controller';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertEngineService } from './alert-engine.service';
 
 @Module({
-  controllers: [AlertsController],
-  providers: [AlertsService],
-  exports: [AlertsService],
+  imports: [TypeOrmModule.forFeature([Alert, AlertComment, AlertRule, User]), WebSocketModule, WebhookSubscriptionsModule],
+  controllers: [AlertsController, AlertRulesController],
+  providers: [AlertsService, AlertEscalationService, AlertRulesService, AlertEngineService],
+  exports: [AlertsService, AlertRulesService, AlertEngineService],
 })
 export class AlertsModule {}
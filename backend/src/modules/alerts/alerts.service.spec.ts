@@ -0,0 +1,247 @@
+/**
+ * VaxTrace Nigeria - Alerts Service Unit Tests
+ *
+ * Tests for the alert lifecycle including:
+ * - Resolving, acknowledging, assigning and snoozing persisted alerts
+ * - Conflicts on alerts that are already resolved or acknowledged
+ * - Comment threads
+ * - Realtime and partner webhook notifications
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+
+import { Alert, AlertSeverity, AlertType } from '../../entities/alert.entity';
+import { AlertComment } from '../../entities/alert-comment.entity';
+import { User, UserRole } from '../../entities/user.entity';
+import { OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebSocketService } from '../websocket/websocket.service';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { AlertsService } from './alerts.service';
+
+describe('AlertsService', () => {
+  let service: AlertsService;
+  let mockAlertRepository: any;
+  let mockCommentRepository: any;
+  let mockUserRepository: any;
+  let mockWebSocketService: { broadcastToRoom: jest.Mock };
+  let mockWebhookDispatchService: { publish: jest.Mock };
+
+  const alert = (overrides: Partial<Alert> = {}): Alert =>
+    ({
+      id: 'alert-1',
+      alertType: AlertType.STOCKOUT,
+      severity: AlertSeverity.HIGH,
+      facilityId: 'fac-1',
+      lgaId: 'lga-1',
+      stateId: 'state-1',
+      vaccineId: 'vac-1',
+      title: 'BCG low stock',
+      data: { quantityOnHand: 100 },
+      isAcknowledged: false,
+      isResolved: false,
+      escalationLevel: 0,
+      createdAt: new Date('2026-03-01T08:00:00Z'),
+      ...overrides,
+    }) as Alert;
+
+  const officer = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 'officer-1',
+      role: UserRole.LGA_LOGISTICS_OFFICER,
+      assignedLocationId: 'lga-1',
+      isActive: true,
+      ...overrides,
+    }) as User;
+
+  const broadcastRooms = (event: string) =>
+    mockWebSocketService.broadcastToRoom.mock.calls.filter(([, name]) => name === event).map(([room]) => room);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-01T10:00:00Z'));
+
+    mockAlertRepository = {
+      findOne: jest.fn().mockResolvedValue(alert()),
+      save: jest.fn(async (row) => row),
+    };
+    mockCommentRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (row) => ({ ...row, id: 'comment-1', createdAt: new Date() })),
+      find: jest.fn().mockResolvedValue([]),
+    };
+    mockUserRepository = { findOne: jest.fn().mockResolvedValue(officer()) };
+    mockWebSocketService = { broadcastToRoom: jest.fn() };
+    mockWebhookDispatchService = { publish: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertsService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: getRepositoryToken(Alert), useValue: mockAlertRepository },
+        { provide: getRepositoryToken(AlertComment), useValue: mockCommentRepository },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: WebSocketService, useValue: mockWebSocketService },
+        { provide: WebhookDispatchService, useValue: mockWebhookDispatchService },
+      ],
+    }).compile();
+
+    service = module.get<AlertsService>(AlertsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Resolving', () => {
+    it('should record who resolved the alert and notify its rooms and subscribers', async () => {
+      const resolved = await service.resolveAlert('alert-1', 'user-1', 'Restocked from state store');
+
+      expect(mockAlertRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isResolved: true,
+          resolvedBy: 'user-1',
+          resolvedAt: new Date('2026-03-01T10:00:00Z'),
+          resolutionNotes: 'Restocked from state store',
+        }),
+      );
+      expect(resolved).toEqual(
+        expect.objectContaining({ id: 'alert-1', isResolved: true, resolvedAt: '2026-03-01T10:00:00.000Z' }),
+      );
+      expect(broadcastRooms('alert:resolved')).toEqual(['facility:fac-1', 'lga:lga-1', 'state:state-1', 'alerts']);
+      expect(mockWebhookDispatchService.publish).toHaveBeenCalledWith(OutboundEventType.ALERT_RESOLVED, resolved);
+    });
+
+    it('should reject resolving an alert twice', async () => {
+      mockAlertRepository.findOne.mockResolvedValue(alert({ isResolved: true }));
+
+      await expect(service.resolveAlert('alert-1', 'user-1')).rejects.toThrow(ConflictException);
+      expect(mockAlertRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown alerts', async () => {
+      mockAlertRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.resolveAlert('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('Acknowledging', () => {
+    it('should record who acknowledged the alert', async () => {
+      const acknowledged = await service.acknowledgeAlert('alert-1', 'user-1');
+
+      expect(acknowledged).toEqual(
+        expect.objectContaining({
+          isAcknowledged: true,
+          acknowledgedBy: 'user-1',
+          acknowledgedAt: '2026-03-01T10:00:00.000Z',
+        }),
+      );
+      expect(broadcastRooms('alert:acknowledged')).toContain('lga:lga-1');
+    });
+
+    it('should reject acknowledging an acknowledged or resolved alert', async () => {
+      mockAlertRepository.findOne.mockResolvedValue(alert({ isAcknowledged: true }));
+      await expect(service.acknowledgeAlert('alert-1', 'user-1')).rejects.toThrow(ConflictException);
+
+      mockAlertRepository.findOne.mockResolvedValue(alert({ isResolved: true }));
+      await expect(service.acknowledgeAlert('alert-1', 'user-1')).rejects.toThrow(ConflictException);
+
+      expect(mockAlertRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Assigning', () => {
+    it('should assign the alert to an officer of its LGA and notify them', async () => {
+      const assigned = await service.assignAlert('alert-1', 'officer-1', 'user-1');
+
+      expect(mockAlertRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ assignedTo: 'officer-1', assignedBy: 'user-1' }),
+      );
+      expect(assigned).toEqual(expect.objectContaining({ assignedTo: 'officer-1', assignedAt: '2026-03-01T10:00:00.000Z' }));
+      expect(mockWebSocketService.broadcastToRoom).toHaveBeenCalledWith('user:officer-1', 'alert:assigned', assigned);
+    });
+
+    it('should only assign to active LGA logistics officers of the alert LGA', async () => {
+      mockUserRepository.findOne.mockResolvedValueOnce(null);
+      await expect(service.assignAlert('alert-1', 'officer-1')).rejects.toThrow(NotFoundException);
+
+      mockUserRepository.findOne.mockResolvedValueOnce(officer({ isActive: false }));
+      await expect(service.assignAlert('alert-1', 'officer-1')).rejects.toThrow(NotFoundException);
+
+      mockUserRepository.findOne.mockResolvedValueOnce(officer({ role: UserRole.FACILITY_IN_CHARGE }));
+      await expect(service.assignAlert('alert-1', 'officer-1')).rejects.toThrow(BadRequestException);
+
+      mockUserRepository.findOne.mockResolvedValueOnce(officer({ assignedLocationId: 'lga-2' }));
+      await expect(service.assignAlert('alert-1', 'officer-1')).rejects.toThrow(BadRequestException);
+
+      expect(mockAlertRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject assigning a resolved alert', async () => {
+      mockAlertRepository.findOne.mockResolvedValue(alert({ isResolved: true }));
+
+      await expect(service.assignAlert('alert-1', 'officer-1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('Snoozing', () => {
+    it('should snooze the alert for the requested minutes', async () => {
+      const snoozed = await service.snoozeAlert('alert-1', 30, 'user-1');
+
+      expect(mockAlertRepository.save).toHaveBeenCalledWith(expect.objectContaining({ snoozedBy: 'user-1' }));
+      expect(snoozed.snoozedUntil).toBe('2026-03-01T10:30:00.000Z');
+    });
+
+    it('should reject snoozing a resolved alert', async () => {
+      mockAlertRepository.findOne.mockResolvedValue(alert({ isResolved: true }));
+
+      await expect(service.snoozeAlert('alert-1', 30)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should add a comment and push it to the alert rooms', async () => {
+      const comment = await service.addComment('alert-1', 'Driver dispatched', 'user-1');
+
+      expect(mockCommentRepository.create).toHaveBeenCalledWith({
+        alertId: 'alert-1',
+        userId: 'user-1',
+        comment: 'Driver dispatched',
+      });
+      expect(comment).toEqual({
+        id: 'comment-1',
+        alertId: 'alert-1',
+        userId: 'user-1',
+        comment: 'Driver dispatched',
+        createdAt: '2026-03-01T10:00:00.000Z',
+      });
+      expect(broadcastRooms('alert:comment')).toContain('facility:fac-1');
+    });
+
+    it('should return the thread oldest first', async () => {
+      await service.getComments('alert-1');
+
+      expect(mockCommentRepository.find).toHaveBeenCalledWith({ where: { alertId: 'alert-1' }, order: { createdAt: 'ASC' } });
+    });
+  });
+
+  describe('Partner Webhooks', () => {
+    it('should publish a stockout with a new alert at zero doses on hand', async () => {
+      await service.publishAlertEvent(alert({ data: { quantityOnHand: 0 } }));
+
+      expect(mockWebhookDispatchService.publish).toHaveBeenCalledWith(OutboundEventType.ALERT_CREATED, expect.any(Object));
+      expect(mockWebhookDispatchService.publish).toHaveBeenCalledWith(
+        OutboundEventType.STOCKOUT,
+        expect.objectContaining({ alertId: 'alert-1', quantityOnHand: 0 }),
+      );
+    });
+
+    it('should not publish a stockout for low stock', async () => {
+      await service.publishAlertEvent(alert());
+
+      expect(mockWebhookDispatchService.publish).toHaveBeenCalledTimes(1);
+    });
+  });
+});
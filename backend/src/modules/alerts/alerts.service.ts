@@ -5,105 +5,31 @@
  * Integrates with stock data and VVM status to generate
  * actionable alerts for vaccine supply chain.
  *
+ * Alerts are persisted in the `alerts` table (see 001_initial_schema.sql)
+ * and queried through the TypeORM Alert repository.
+ *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { randomUUID } from 'crypto';
-
-import { AlertDto, AlertQueryDto, AlertsResponseDto } from './dto/alert.dto';
-
-// ============================================
-// INTERFACES & TYPES
-// ============================================
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
 
-interface AlertRecord {
-  id: string;
-  type: 'STOCKOUT' | 'EXPIRY' | 'COLD_CHAIN' | 'DAMAGE' | 'QUALITY';
-  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  facilityId: string;
-  facilityName: string;
-  lga: string;
-  state: string;
-  message: string;
-  createdAt: string;
-  resolvedAt?: string;
-  vaccineCode?: string;
-  quantity?: number;
-}
+import { Alert, AlertSeverity, AlertType } from '../../entities/alert.entity';
+import { AlertComment } from '../../entities/alert-comment.entity';
+import { User, UserRole } from '../../entities/user.entity';
+import { OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebSocketService } from '../websocket/websocket.service';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { AlertDto, AlertCommentDto, AlertQueryDto, AlertsResponseDto } from './dto/alert.dto';
 
 // ============================================
-// MOCK ALERTS DATABASE
+// CONSTANTS
 // ============================================
 
-// In production, this would be replaced with actual database queries
-const MOCK_ALERTS: AlertRecord[] = [
-  {
-    id: 'alert-1',
-    type: 'STOCKOUT',
-    severity: 'CRITICAL',
-    facilityId: 'facility-1',
-    facilityName: 'Central Hospital, Abuja',
-    lga: 'AMAC',
-    state: 'FCT',
-    message: 'BCG vaccine stockout - 0 doses remaining',
-    createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    vaccineCode: 'BCG',
-    quantity: 0,
-  },
-  {
-    id: 'alert-2',
-    type: 'EXPIRY',
-    severity: 'HIGH',
-    facilityId: 'facility-2',
-    facilityName: 'General Hospital, Lagos',
-    lga: 'Ikeja',
-    state: 'Lagos',
-    message: 'Measles vaccine expiring in 7 days - 120 doses at risk',
-    createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-    vaccineCode: 'MEASLES',
-    quantity: 120,
-  },
-  {
-    id: 'alert-3',
-    type: 'COLD_CHAIN',
-    severity: 'MEDIUM',
-    facilityId: 'facility-3',
-    facilityName: 'Primary Health Center, Kano',
-    lga: 'Kano Municipal',
-    state: 'Kano',
-    message: 'Cold chain breach detected - Temperature exceeded 8°C for 2 hours',
-    createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 'alert-4',
-    type: 'STOCKOUT',
-    severity: 'HIGH',
-    facilityId: 'facility-4',
-    facilityName: 'District Hospital, Ibadan',
-    lga: 'Ibadan North',
-    state: 'Oyo',
-    message: 'OPV vaccine stockout - 50 doses remaining',
-    createdAt: new Date(Date.now() - 8 * 60 * 60 * 1000).toISOString(),
-    vaccineCode: 'OPV',
-    quantity: 50,
-  },
-  {
-    id: 'alert-5',
-    type: 'DAMAGE',
-    severity: 'MEDIUM',
-    facilityId: 'facility-5',
-    facilityName: 'Health Center, Port Harcourt',
-    lga: 'Port Harcourt',
-    state: 'Rivers',
-    message: 'Vaccine vials damaged during transport - 25 doses affected',
-    createdAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
-    vaccineCode: 'DTP',
-    quantity: 25,
-  },
-];
+const DEFAULT_PAGE_SIZE = 50;
 
 // ============================================
 // ALERTS SERVICE
@@ -113,7 +39,17 @@ const MOCK_ALERTS: AlertRecord[] = [
 export class AlertsService {
   private readonly logger = new Logger(AlertsService.name);
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Alert)
+    private readonly alertRepository: Repository<Alert>,
+    @InjectRepository(AlertComment)
+    private readonly commentRepository: Repository<AlertComment>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly webSocketService: WebSocketService,
+    private readonly webhookDispatchService: WebhookDispatchService,
+  ) {
     this.logger.log('Alerts Service initialized');
   }
 
@@ -122,55 +58,43 @@ export class AlertsService {
   // ============================================
 
   /**
-   * Get alerts with optional filtering
+   * Get alerts with optional filtering and pagination
    */
   async getAlerts(query: AlertQueryDto = {}): Promise<AlertsResponseDto> {
     this.logger.debug(`Fetching alerts with query: ${JSON.stringify(query)}`);
 
-    let filteredAlerts = [...MOCK_ALERTS];
+    const page = query.page || 1;
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
 
-    // Filter by active status
-    if (query.active === true || query.active === 'true') {
-      filteredAlerts = filteredAlerts.filter((alert) => !alert.resolvedAt);
-    }
+    const qb = this.alertRepository
+      .createQueryBuilder('alert')
+      .leftJoinAndSelect('alert.facility', 'facility')
+      .leftJoinAndSelect('alert.lga', 'lga')
+      .leftJoinAndSelect('alert.state', 'state')
+      .leftJoinAndSelect('alert.vaccine', 'vaccine');
 
-    // Filter by severity
-    if (query.severity) {
-      filteredAlerts = filteredAlerts.filter((alert) => alert.severity === query.severity);
-    }
+    this.applyFilters(qb, query);
 
-    // Filter by type
-    if (query.type) {
-      filteredAlerts = filteredAlerts.filter((alert) => alert.type === query.type);
-    }
+    // Sort by severity (critical first) and then by creation date (newest first)
+    qb.orderBy(
+      `CASE alert.severity WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END`,
+      'ASC',
+    )
+      .addOrderBy('alert.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
 
-    // Filter by state
-    if (query.state) {
-      filteredAlerts = filteredAlerts.filter((alert) => alert.state === query.state);
-    }
+    const [alerts, total] = await qb.getManyAndCount();
+    const summary = await this.getSeveritySummary(query);
 
-    // Sort by severity (CRITICAL first) and then by creation date (newest first)
-    const severityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
-    filteredAlerts.sort((a, b) => {
-      if (a.severity !== b.severity) {
-        return severityOrder[a.severity] - severityOrder[b.severity];
-      }
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-
-    // Calculate summary
-    const summary = {
-      critical: filteredAlerts.filter((a) => a.severity === 'CRITICAL').length,
-      high: filteredAlerts.filter((a) => a.severity === 'HIGH').length,
-      medium: filteredAlerts.filter((a) => a.severity === 'MEDIUM').length,
-      low: filteredAlerts.filter((a) => a.severity === 'LOW').length,
-    };
-
-    this.logger.log(`Returning ${filteredAlerts.length} alerts`);
+    this.logger.log(`Returning ${alerts.length} of ${total} alerts`);
 
     return {
-      data: filteredAlerts.map((alert) => this.toAlertDto(alert)),
-      count: filteredAlerts.length,
+      data: alerts.map((alert) => this.toAlertDto(alert)),
+      count: alerts.length,
+      total,
+      page,
+      limit,
       summary,
     };
   }
@@ -185,41 +109,347 @@ export class AlertsService {
   /**
    * Get alert by ID
    */
-  async getAlert(alertId: string): Promise<AlertDto | null> {
+  async getAlert(alertId: string): Promise<AlertDto> {
     this.logger.debug(`Fetching alert: ${alertId}`);
-    const alert = MOCK_ALERTS.find((a) => a.id === alertId);
-    return alert ? this.toAlertDto(alert) : null;
+    return this.toAlertDto(await this.findAlertOrFail(alertId));
   }
 
   /**
-   * Resolve alert
+   * Resolve alert, recording who resolved it and when
    */
-  async resolveAlert(alertId: string): Promise<void> {
+  async resolveAlert(alertId: string, resolvedBy?: string, resolutionNotes?: string): Promise<AlertDto> {
     this.logger.log(`Resolving alert: ${alertId}`);
-    const alert = MOCK_ALERTS.find((a) => a.id === alertId);
-    if (alert) {
-      alert.resolvedAt = new Date().toISOString();
+
+    const alert = await this.findAlertOrFail(alertId);
+
+    if (alert.isResolved) {
+      throw new ConflictException(`Alert ${alertId} is already resolved`);
+    }
+
+    alert.isResolved = true;
+    alert.resolvedBy = resolvedBy || null;
+    alert.resolvedAt = new Date();
+    alert.resolutionNotes = resolutionNotes || null;
+
+    await this.alertRepository.save(alert);
+
+    const dto = this.toAlertDto(alert);
+    this.notifyAlertRooms(alert, 'alert:resolved', dto);
+    await this.webhookDispatchService.publish(OutboundEventType.ALERT_RESOLVED, dto);
+
+    return dto;
+  }
+
+  // ============================================
+  // LIFECYCLE METHODS
+  // ============================================
+
+  /**
+   * Acknowledge alert. Acknowledged alerts are no longer auto-escalated.
+   */
+  async acknowledgeAlert(alertId: string, acknowledgedBy?: string): Promise<AlertDto> {
+    this.logger.log(`Acknowledging alert: ${alertId}`);
+
+    const alert = await this.findAlertOrFail(alertId);
+    this.assertNotResolved(alert);
+
+    if (alert.isAcknowledged) {
+      throw new ConflictException(`Alert ${alertId} is already acknowledged`);
     }
+
+    alert.isAcknowledged = true;
+    alert.acknowledgedBy = acknowledgedBy || null;
+    alert.acknowledgedAt = new Date();
+
+    await this.alertRepository.save(alert);
+
+    const dto = this.toAlertDto(alert);
+    this.notifyAlertRooms(alert, 'alert:acknowledged', dto);
+
+    return dto;
+  }
+
+  /**
+   * Assign alert to an LGA logistics officer
+   */
+  async assignAlert(alertId: string, assigneeId: string, assignedBy?: string): Promise<AlertDto> {
+    this.logger.log(`Assigning alert ${alertId} to user ${assigneeId}`);
+
+    const alert = await this.findAlertOrFail(alertId);
+    this.assertNotResolved(alert);
+
+    const assignee = await this.userRepository.findOne({ where: { id: assigneeId } });
+
+    if (!assignee || !assignee.isActive) {
+      throw new NotFoundException(`User ${assigneeId} not found`);
+    }
+
+    if (assignee.role !== UserRole.LGA_LOGISTICS_OFFICER) {
+      throw new BadRequestException('Alerts can only be assigned to LGA logistics officers');
+    }
+
+    if (alert.lgaId && assignee.assignedLocationId !== alert.lgaId) {
+      throw new BadRequestException('Assignee is not assigned to the LGA of this alert');
+    }
+
+    alert.assignedTo = assignee.id;
+    alert.assignedBy = assignedBy || null;
+    alert.assignedAt = new Date();
+
+    await this.alertRepository.save(alert);
+
+    const dto = this.toAlertDto(alert);
+    this.notifyAlertRooms(alert, 'alert:assigned', dto);
+    this.webSocketService.broadcastToRoom(`user:${assignee.id}`, 'alert:assigned', dto);
+
+    return dto;
+  }
+
+  /**
+   * Snooze alert - suppresses escalation until the snooze expires
+   */
+  async snoozeAlert(alertId: string, minutes: number, snoozedBy?: string): Promise<AlertDto> {
+    this.logger.log(`Snoozing alert ${alertId} for ${minutes} minutes`);
+
+    const alert = await this.findAlertOrFail(alertId);
+    this.assertNotResolved(alert);
+
+    alert.snoozedUntil = new Date(Date.now() + minutes * 60 * 1000);
+    alert.snoozedBy = snoozedBy || null;
+
+    await this.alertRepository.save(alert);
+
+    return this.toAlertDto(alert);
+  }
+
+  /**
+   * Add a comment to an alert
+   */
+  async addComment(alertId: string, comment: string, userId?: string): Promise<AlertCommentDto> {
+    const alert = await this.findAlertOrFail(alertId);
+
+    const saved = await this.commentRepository.save(
+      this.commentRepository.create({
+        alertId: alert.id,
+        userId: userId || null,
+        comment,
+      }),
+    );
+
+    const dto = this.toCommentDto(saved);
+    this.notifyAlertRooms(alert, 'alert:comment', dto);
+
+    return dto;
+  }
+
+  /**
+   * Get the comment thread of an alert (oldest first)
+   */
+  async getComments(alertId: string): Promise<AlertCommentDto[]> {
+    await this.findAlertOrFail(alertId);
+
+    const comments = await this.commentRepository.find({
+      where: { alertId },
+      order: { createdAt: 'ASC' },
+    });
+
+    return comments.map((comment) => this.toCommentDto(comment));
+  }
+
+  // ============================================
+  // PARTNER WEBHOOKS
+  // ============================================
+
+  /**
+   * Notify webhook subscribers of an alert that was just opened or
+   * auto-resolved. Call after the alert has been saved.
+   */
+  async publishAlertEvent(alert: Alert): Promise<void> {
+    const dto = this.toAlertDto(alert);
+
+    if (alert.isResolved) {
+      await this.webhookDispatchService.publish(OutboundEventType.ALERT_RESOLVED, dto);
+      return;
+    }
+
+    await this.webhookDispatchService.publish(OutboundEventType.ALERT_CREATED, dto);
+    if (this.isStockout(alert)) {
+      await this.publishStockoutEvent(alert);
+    }
+  }
+
+  /**
+   * Notify webhook subscribers that a facility has run out of a vaccine
+   */
+  async publishStockoutEvent(alert: Alert): Promise<void> {
+    await this.webhookDispatchService.publish(OutboundEventType.STOCKOUT, {
+      alertId: alert.id,
+      facilityId: alert.facilityId,
+      lgaId: alert.lgaId,
+      stateId: alert.stateId,
+      vaccineId: alert.vaccineId,
+      quantityOnHand: Number(alert.data?.quantityOnHand ?? 0),
+      detectedAt: (alert.createdAt || new Date()).toISOString(),
+    });
+  }
+
+  /**
+   * Stockout alerts also cover low stock; only zero doses on hand is a stockout
+   */
+  isStockout(alert: Alert): boolean {
+    return alert.alertType === AlertType.STOCKOUT && Number(alert.data?.quantityOnHand) <= 0;
   }
 
   // ============================================
   // PRIVATE METHODS
   // ============================================
 
-  private toAlertDto(alert: AlertRecord): AlertDto {
+  private async findAlertOrFail(alertId: string): Promise<Alert> {
+    const alert = await this.alertRepository.findOne({
+      where: { id: alertId },
+      relations: ['facility', 'lga', 'state', 'vaccine'],
+    });
+
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+
+    return alert;
+  }
+
+  private assertNotResolved(alert: Alert): void {
+    if (alert.isResolved) {
+      throw new ConflictException(`Alert ${alert.id} is already resolved`);
+    }
+  }
+
+  /**
+   * Push an alert lifecycle event to the facility, LGA and state rooms of the alert
+   */
+  private notifyAlertRooms(alert: Alert, event: string, payload: any): void {
+    const rooms = [
+      alert.facilityId && `facility:${alert.facilityId}`,
+      alert.lgaId && `lga:${alert.lgaId}`,
+      alert.stateId && `state:${alert.stateId}`,
+      'alerts',
+    ].filter(Boolean);
+
+    for (const room of rooms) {
+      this.webSocketService.broadcastToRoom(room, event, payload);
+    }
+  }
+
+  private applyFilters(qb: SelectQueryBuilder<Alert>, query: AlertQueryDto): SelectQueryBuilder<Alert> {
+    if (query.active === true) {
+      qb.andWhere('alert.isResolved = false');
+    }
+
+    if (query.acknowledged !== undefined) {
+      qb.andWhere('alert.isAcknowledged = :acknowledged', { acknowledged: query.acknowledged });
+    }
+
+    if (query.severity) {
+      qb.andWhere('alert.severity = :severity', { severity: query.severity });
+    }
+
+    if (query.type) {
+      qb.andWhere('alert.alertType = :type', { type: query.type });
+    }
+
+    if (query.stateId) {
+      qb.andWhere('alert.stateId = :stateId', { stateId: query.stateId });
+    }
+
+    if (query.lgaId) {
+      qb.andWhere('alert.lgaId = :lgaId', { lgaId: query.lgaId });
+    }
+
+    if (query.facilityId) {
+      qb.andWhere('alert.facilityId = :facilityId', { facilityId: query.facilityId });
+    }
+
+    if (query.vaccineId) {
+      qb.andWhere('alert.vaccineId = :vaccineId', { vaccineId: query.vaccineId });
+    }
+
+    if (query.assignedTo) {
+      qb.andWhere('alert.assignedTo = :assignedTo', { assignedTo: query.assignedTo });
+    }
+
+    if (query.from) {
+      qb.andWhere('alert.createdAt >= :from', { from: new Date(query.from) });
+    }
+
+    if (query.to) {
+      qb.andWhere('alert.createdAt <= :to', { to: new Date(query.to) });
+    }
+
+    return qb;
+  }
+
+  /**
+   * Count alerts per severity across the whole filtered set (not just the page)
+   */
+  private async getSeveritySummary(query: AlertQueryDto): Promise<AlertsResponseDto['summary']> {
+    const qb = this.alertRepository
+      .createQueryBuilder('alert')
+      .select('alert.severity', 'severity')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('alert.severity');
+
+    this.applyFilters(qb, query);
+
+    const rows: { severity: AlertSeverity; count: string }[] = await qb.getRawMany();
+    const countFor = (severity: AlertSeverity) =>
+      Number(rows.find((row) => row.severity === severity)?.count || 0);
+
+    return {
+      critical: countFor(AlertSeverity.CRITICAL),
+      high: countFor(AlertSeverity.HIGH),
+      medium: countFor(AlertSeverity.MEDIUM),
+      low: countFor(AlertSeverity.LOW),
+    };
+  }
+
+  toAlertDto(alert: Alert): AlertDto {
     return {
       id: alert.id,
-      type: alert.type,
+      type: alert.alertType,
       severity: alert.severity,
       facilityId: alert.facilityId,
-      facilityName: alert.facilityName,
-      lga: alert.lga,
-      state: alert.state,
-      message: alert.message,
-      createdAt: alert.createdAt,
-      resolvedAt: alert.resolvedAt,
-      vaccineCode: alert.vaccineCode,
-      quantity: alert.quantity,
+      facilityName: alert.facility?.name,
+      lgaId: alert.lgaId,
+      lga: alert.lga?.name,
+      stateId: alert.stateId,
+      state: alert.state?.name,
+      title: alert.title,
+      message: alert.description || alert.title,
+      vaccineId: alert.vaccineId,
+      vaccineCode: alert.vaccine?.code,
+      data: alert.data,
+      isAcknowledged: alert.isAcknowledged,
+      acknowledgedBy: alert.acknowledgedBy,
+      acknowledgedAt: alert.acknowledgedAt?.toISOString(),
+      isResolved: alert.isResolved,
+      resolvedBy: alert.resolvedBy,
+      resolvedAt: alert.resolvedAt?.toISOString(),
+      resolutionNotes: alert.resolutionNotes,
+      assignedTo: alert.assignedTo,
+      assignedAt: alert.assignedAt?.toISOString(),
+      snoozedUntil: alert.snoozedUntil?.toISOString(),
+      escalationLevel: alert.escalationLevel,
+      escalatedAt: alert.escalatedAt?.toISOString(),
+      createdAt: alert.createdAt?.toISOString(),
+    };
+  }
+
+  private toCommentDto(comment: AlertComment): AlertCommentDto {
+    return {
+      id: comment.id,
+      alertId: comment.alertId,
+      userId: comment.userId,
+      comment: comment.comment,
+      createdAt: comment.createdAt?.toISOString(),
     };
   }
 }
@@ -0,0 +1,165 @@
+/**
+ * VaxTrace Nigeria - Alert Rule DTOs
+ *
+ * Data Transfer Objects for configuring the alert engine rules
+ *
+ * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { IsString, IsOptional, IsEnum, IsUUID, IsBoolean, IsNumber, IsObject, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { AlertType, AlertSeverity } from '../../../entities/alert.entity';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class AlertRuleQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by alert type',
+    enum: AlertType,
+  })
+  @IsOptional()
+  @IsEnum(AlertType)
+  alertType?: AlertType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by vaccine ID',
+  })
+  @IsOptional()
+  @IsUUID()
+  vaccineId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by state location ID',
+  })
+  @IsOptional()
+  @IsUUID()
+  stateId?: string;
+}
+
+export class UpdateAlertRuleDto {
+  @ApiPropertyOptional({
+    description: 'Whether the rule is evaluated',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Severity of alerts raised by this rule (defaults per alert type)',
+    enum: AlertSeverity,
+  })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiPropertyOptional({
+    description:
+      'Rule threshold: months of stock (stockout), days (near_expiry, delivery_delay), ' +
+      'minutes (temperature_excursion, power_outage) or percent (reconciliation_mismatch)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  threshold?: number;
+
+  @ApiPropertyOptional({
+    description: 'Additional rule parameters, e.g. { "minTemp": 2, "maxTemp": 8 }',
+    type: 'object',
+  })
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Free-text description of the rule',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Sanitize()
+  description?: string;
+}
+
+export class CreateAlertRuleDto extends UpdateAlertRuleDto {
+  @ApiProperty({
+    description: 'Alert type this rule configures',
+    enum: AlertType,
+  })
+  @IsEnum(AlertType)
+  alertType: AlertType;
+
+  @ApiPropertyOptional({
+    description: 'Restrict the rule to a vaccine (omit for all vaccines)',
+  })
+  @IsOptional()
+  @IsUUID()
+  vaccineId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Restrict the rule to a state (omit for national default)',
+  })
+  @IsOptional()
+  @IsUUID()
+  stateId?: string;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class AlertRuleDto {
+  @ApiProperty({ description: 'Rule ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Alert type', enum: AlertType })
+  alertType: AlertType;
+
+  @ApiPropertyOptional({ description: 'Vaccine scope' })
+  vaccineId?: string;
+
+  @ApiPropertyOptional({ description: 'State scope' })
+  stateId?: string;
+
+  @ApiProperty({ description: 'Whether the rule is evaluated' })
+  isEnabled: boolean;
+
+  @ApiPropertyOptional({ description: 'Severity override', enum: AlertSeverity })
+  severity?: AlertSeverity;
+
+  @ApiPropertyOptional({ description: 'Rule threshold' })
+  threshold?: number;
+
+  @ApiProperty({ description: 'Additional rule parameters', type: 'object' })
+  parameters: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Rule description' })
+  description?: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: string;
+}
+
+export class AlertEngineRunDto {
+  @ApiProperty({ description: 'New alerts created', example: 12 })
+  created: number;
+
+  @ApiProperty({ description: 'Existing open alerts refreshed', example: 40 })
+  updated: number;
+
+  @ApiProperty({ description: 'Engine alerts auto-resolved because the condition cleared', example: 3 })
+  autoResolved: number;
+
+  @ApiProperty({ description: 'Matches per alert type', type: 'object' })
+  byType: Record<string, number>;
+
+  @ApiProperty({ description: 'Run duration in milliseconds', example: 850 })
+  durationMs: number;
+}
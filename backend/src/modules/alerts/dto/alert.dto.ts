@@ -9,59 +9,173 @@
  * @version 1.0.0
  */
 
-import { IsString, IsOptional, IsEnum, IsUUID, MaxLength } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsUUID, IsBoolean, IsInt, IsDateString, MaxLength, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { AlertType, AlertSeverity, EscalationLevel } from '../../../entities/alert.entity';
 
 // ============================================
 // REQUEST DTOS
 // ============================================
 
+/**
+ * Converts 'true' / 'false' query strings into booleans
+ */
+const toBoolean = ({ value }: { value: any }) => {
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  return undefined;
+};
+
 export class AlertQueryDto {
   @ApiPropertyOptional({
     description: 'Filter by severity level',
-    enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'],
+    enum: AlertSeverity,
   })
   @IsOptional()
-  @IsEnum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'])
-  severity?: string;
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
 
   @ApiPropertyOptional({
     description: 'Filter by alert type',
-    enum: ['STOCKOUT', 'EXPIRY', 'COLD_CHAIN', 'DAMAGE', 'QUALITY'],
+    enum: AlertType,
   })
   @IsOptional()
-  @IsString()
-  @MaxLength(50)
-  @Sanitize()
-  type?: string;
+  @IsEnum(AlertType)
+  type?: AlertType;
 
   @ApiPropertyOptional({
-    description: 'Filter by state',
-    example: 'FCT',
+    description: 'Filter by state location ID',
   })
   @IsOptional()
-  @IsString()
-  @MaxLength(100)
-  @Sanitize()
-  state?: string;
+  @IsUUID()
+  stateId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by LGA location ID',
+  })
+  @IsOptional()
+  @IsUUID()
+  lgaId?: string;
 
   @ApiPropertyOptional({
     description: 'Filter by facility ID',
-    example: 'facility-123',
   })
   @IsOptional()
   @IsUUID()
-  @MaxLength(50)
-  @Sanitize()
   facilityId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Filter by vaccine ID',
+  })
+  @IsOptional()
+  @IsUUID()
+  vaccineId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by assigned officer (user ID)',
+  })
+  @IsOptional()
+  @IsUUID()
+  assignedTo?: string;
+
   @ApiPropertyOptional({
     description: 'Include only active (unresolved) alerts',
     example: true,
   })
   @IsOptional()
-  active?: boolean | string;
+  @Transform(toBoolean)
+  @IsBoolean()
+  active?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Filter by acknowledgement status',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  acknowledged?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only alerts raised on or after this date',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only alerts raised on or before this date',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (1-based)',
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Page size',
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class ResolveAlertDto {
+  @ApiPropertyOptional({
+    description: 'Notes describing how the alert was resolved',
+    example: 'Emergency allocation received from state store',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  @Sanitize()
+  resolutionNotes?: string;
+}
+
+export class AssignAlertDto {
+  @ApiProperty({
+    description: 'User ID of the LGA logistics officer to assign',
+  })
+  @IsUUID()
+  assigneeId: string;
+}
+
+export class CreateAlertCommentDto {
+  @ApiProperty({
+    description: 'Comment text',
+    example: 'Called facility in-charge, cold box dispatched',
+  })
+  @IsString()
+  @MaxLength(2000)
+  @Sanitize()
+  comment: string;
+}
+
+export class SnoozeAlertDto {
+  @ApiProperty({
+    description: 'Snooze duration in minutes (max 7 days)',
+    example: 60,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(5)
+  @Max(10080)
+  minutes: number;
 }
 
 // ============================================
@@ -71,45 +185,59 @@ export class AlertQueryDto {
 export class AlertDto {
   @ApiProperty({
     description: 'Alert ID',
-    example: 'alert-123',
   })
   id: string;
 
   @ApiProperty({
     description: 'Alert type',
-    enum: ['STOCKOUT', 'EXPIRY', 'COLD_CHAIN', 'DAMAGE', 'QUALITY'],
+    enum: AlertType,
   })
-  type: string;
+  type: AlertType;
 
   @ApiProperty({
     description: 'Alert severity',
-    enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'],
+    enum: AlertSeverity,
   })
-  severity: string;
+  severity: AlertSeverity;
 
   @ApiProperty({
     description: 'Facility ID',
-    example: 'facility-123',
   })
   facilityId: string;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
     description: 'Facility name',
     example: 'Central Hospital, Abuja',
   })
-  facilityName: string;
+  facilityName?: string;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
+    description: 'LGA location ID',
+  })
+  lgaId?: string;
+
+  @ApiPropertyOptional({
     description: 'LGA name',
     example: 'AMAC',
   })
-  lga: string;
+  lga?: string;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
+    description: 'State location ID',
+  })
+  stateId?: string;
+
+  @ApiPropertyOptional({
     description: 'State name',
     example: 'FCT',
   })
-  state: string;
+  state?: string;
+
+  @ApiProperty({
+    description: 'Alert title',
+    example: 'BCG stockout',
+  })
+  title: string;
 
   @ApiProperty({
     description: 'Alert message',
@@ -117,11 +245,47 @@ export class AlertDto {
   })
   message: string;
 
+  @ApiPropertyOptional({
+    description: 'Vaccine ID (if applicable)',
+  })
+  vaccineId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Vaccine code (if applicable)',
+    example: 'BCG',
+  })
+  vaccineCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Alert-specific data (quantities, readings, lots)',
+    type: 'object',
+  })
+  data?: Record<string, any>;
+
   @ApiProperty({
-    description: 'Alert creation timestamp',
-    example: '2024-01-15T10:30:00.000Z',
+    description: 'Whether the alert has been acknowledged',
   })
-  createdAt: string;
+  isAcknowledged: boolean;
+
+  @ApiPropertyOptional({
+    description: 'User who acknowledged the alert',
+  })
+  acknowledgedBy?: string;
+
+  @ApiPropertyOptional({
+    description: 'Acknowledgement timestamp',
+  })
+  acknowledgedAt?: string;
+
+  @ApiProperty({
+    description: 'Whether the alert has been resolved',
+  })
+  isResolved: boolean;
+
+  @ApiPropertyOptional({
+    description: 'User who resolved the alert',
+  })
+  resolvedBy?: string;
 
   @ApiPropertyOptional({
     description: 'Alert resolution timestamp',
@@ -130,16 +294,68 @@ export class AlertDto {
   resolvedAt?: string;
 
   @ApiPropertyOptional({
-    description: 'Vaccine code (if applicable)',
-    example: 'BCG',
+    description: 'Resolution notes',
   })
-  vaccineCode?: string;
+  resolutionNotes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Officer the alert is assigned to',
+  })
+  assignedTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'Assignment timestamp',
+  })
+  assignedAt?: string;
 
   @ApiPropertyOptional({
-    description: 'Quantity affected',
-    example: 0,
+    description: 'Alert is snoozed (no escalation) until this time',
   })
-  quantity?: number;
+  snoozedUntil?: string;
+
+  @ApiProperty({
+    description: 'Current escalation level in the location hierarchy',
+    enum: EscalationLevel,
+  })
+  escalationLevel: EscalationLevel;
+
+  @ApiPropertyOptional({
+    description: 'Last escalation timestamp',
+  })
+  escalatedAt?: string;
+
+  @ApiProperty({
+    description: 'Alert creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: string;
+}
+
+export class AlertCommentDto {
+  @ApiProperty({
+    description: 'Comment ID',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Alert ID',
+  })
+  alertId: string;
+
+  @ApiPropertyOptional({
+    description: 'Author user ID',
+  })
+  userId?: string;
+
+  @ApiProperty({
+    description: 'Comment text',
+  })
+  comment: string;
+
+  @ApiProperty({
+    description: 'Comment timestamp',
+  })
+  createdAt: string;
 }
 
 export class AlertsResponseDto {
@@ -150,13 +366,31 @@ export class AlertsResponseDto {
   data: AlertDto[];
 
   @ApiProperty({
-    description: 'Total number of alerts',
+    description: 'Number of alerts in this page',
     example: 5,
   })
   count: number;
 
+  @ApiProperty({
+    description: 'Total number of alerts matching the filters',
+    example: 120,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Current page (1-based)',
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 50,
+  })
+  limit: number;
+
   @ApiPropertyOptional({
-    description: 'Summary statistics by severity',
+    description: 'Summary statistics by severity across all matching alerts',
     type: 'object',
   })
   summary?: {
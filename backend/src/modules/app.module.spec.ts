@@ -0,0 +1,60 @@
+/**
+ * VaxTrace Nigeria - Root Application Module Unit Tests
+ *
+ * Tests that the controllers relying on req.user (RBAC and location
+ * scoping) are authenticated by JwtMiddleware
+ */
+
+import { MiddlewareConsumer } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { JwtMiddleware } from '../middleware/jwt.middleware';
+import { AppModule } from './app.module';
+import { OutcomeMetricsModule } from './outcome-metrics/outcome-metrics.module';
+import { UsersController } from './users/users.controller';
+import { OutcomeMetricsController } from './outcome-metrics/outcome-metrics.controller';
+import { PredictiveInsightsController } from './predictive-insights/predictive-insights.controller';
+import { FeatureFlagsModule } from './feature-flags/feature-flags.module';
+import { FeatureFlagsController } from './feature-flags/feature-flags.controller';
+import { LogisticsModule } from './logistics/logistics.module';
+import { TransferSuggestionController } from './logistics/transfer-suggestion.controller';
+
+describe('AppModule', () => {
+  const authenticatedControllers = (): unknown[] => {
+    const consumer = { apply: jest.fn().mockReturnThis(), forRoutes: jest.fn().mockReturnThis() };
+
+    new AppModule({ get: jest.fn() } as unknown as ConfigService).configure(consumer as unknown as MiddlewareConsumer);
+
+    expect(consumer.apply).toHaveBeenCalledWith(JwtMiddleware);
+    return consumer.forRoutes.mock.calls.flat();
+  };
+
+  it('should authenticate the user administration API', () => {
+    expect(authenticatedControllers()).toContain(UsersController);
+  });
+
+  it('should register and authenticate the location-scoped outcome metrics', () => {
+    const modules: unknown[] = Reflect.getMetadata('imports', AppModule);
+
+    expect(modules).toContain(OutcomeMetricsModule);
+    expect(authenticatedControllers()).toContain(OutcomeMetricsController);
+  });
+
+  it('should authenticate the ML administration endpoints', () => {
+    expect(authenticatedControllers()).toContain(PredictiveInsightsController);
+  });
+
+  it('should register and authenticate the audited feature flag administration', () => {
+    const modules: unknown[] = Reflect.getMetadata('imports', AppModule);
+
+    expect(modules).toContain(FeatureFlagsModule);
+    expect(authenticatedControllers()).toContain(FeatureFlagsController);
+  });
+
+  it('should register and authenticate transfer execution', () => {
+    const modules: unknown[] = Reflect.getMetadata('imports', AppModule);
+
+    expect(modules).toContain(LogisticsModule);
+    expect(authenticatedControllers()).toContain(TransferSuggestionController);
+  });
+});
@@ -5,7 +5,7 @@
  * and configures the application.
  */
 
-import { Module } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TypeOrmModule } from '@nestjs/typeorm';
@@ -20,11 +20,35 @@ import { WebSocketModule } from './websocket/websocket.module';
 import { HealthModule } from './health/health.module';
 import { LMDModule } from './lmd/lmd.module';
 import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
 import { DeliveryModule } from './delivery/delivery.module';
 import { AlertsModule } from './alerts/alerts.module';
 import { PredictiveInsightsModule } from './predictive-insights/predictive-insights.module';
+import { AuditModule } from './audit/audit.module';
+import { WebhookSubscriptionsModule } from './webhook-subscriptions/webhook-subscriptions.module';
+import { StockModule } from './stock/stock.module';
+import { OutcomeMetricsModule } from './outcome-metrics/outcome-metrics.module';
+import { FeatureFlagsModule } from './feature-flags/feature-flags.module';
+import { LogisticsModule } from './logistics/logistics.module';
 import { WinstonLoggerModule } from '../common/logger.module';
 import { ContentNegotiationModule } from '../common/content-negotiation.module';
+import { JwtMiddleware } from '../middleware/jwt.middleware';
+import { AuthController } from './auth/auth.controller';
+import { OpenLMISController } from './openlmis/openlmis.controller';
+import { LMDController } from './lmd/lmd.controller';
+import { UsersController } from './users/users.controller';
+import { AlertsController } from './alerts/alerts.controller';
+import { AlertRulesController } from './alerts/alert-rules.controller';
+import { AuditController } from './audit/audit.controller';
+import { DeliveryController } from './delivery/delivery.controller';
+import { WebhookEventsController } from './webhook/webhook-events.controller';
+import { WebhookSubscriptionsController } from './webhook-subscriptions/webhook-subscriptions.controller';
+import { StockController } from './stock/stock.controller';
+import { StockLedgerController } from './stock/stock-ledger.controller';
+import { OutcomeMetricsController } from './outcome-metrics/outcome-metrics.controller';
+import { PredictiveInsightsController } from './predictive-insights/predictive-insights.controller';
+import { FeatureFlagsController } from './feature-flags/feature-flags.controller';
+import { TransferSuggestionController } from './logistics/transfer-suggestion.controller';
 
 @Module({
   imports: [
@@ -81,9 +105,16 @@ import { ContentNegotiationModule } from '../common/content-negotiation.module';
     HealthModule,
     LMDModule,
     AuthModule,
+    UsersModule,
     DeliveryModule,
     AlertsModule,
     PredictiveInsightsModule,
+    AuditModule,
+    WebhookSubscriptionsModule,
+    StockModule,
+    OutcomeMetricsModule,
+    FeatureFlagsModule,
+    LogisticsModule,
   ],
   controllers: [],
   providers: [
@@ -95,10 +126,37 @@ import { ContentNegotiationModule } from '../common/content-negotiation.module';
   ],
   exports: [],
 })
-export class AppModule {
+export class AppModule implements NestModule {
   static port: number;
 
   constructor(private readonly configService: ConfigService) {
     AppModule.port = this.configService.get<number>('PORT') || 3001;
   }
+
+  /**
+   * Authenticate the controllers that rely on req.user for RBAC and
+   * location scoping (public routes are skipped by the middleware itself)
+   */
+  configure(consumer: MiddlewareConsumer): void {
+    consumer
+      .apply(JwtMiddleware)
+      .forRoutes(
+        AuthController,
+        OpenLMISController,
+        LMDController,
+        UsersController,
+        AlertsController,
+        AlertRulesController,
+        AuditController,
+        DeliveryController,
+        WebhookEventsController,
+        WebhookSubscriptionsController,
+        StockController,
+        StockLedgerController,
+        OutcomeMetricsController,
+        PredictiveInsightsController,
+        FeatureFlagsController,
+        TransferSuggestionController,
+      );
+  }
 }
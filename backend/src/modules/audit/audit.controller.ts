@@ -0,0 +1,81 @@
+/**
+ * VaxTrace Nigeria - Audit Controller
+ *
+ * Audit trail endpoints for NDPR compliance reviews.
+ *
+ * Endpoints:
+ * - GET /api/v1/audit - Filtered, paginated audit trail
+ * - GET /api/v1/audit/export - Same filters, as a CSV download
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Controller, Get, Logger, Query, Res, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { AuditService } from './audit.service';
+import { AuditQueryDto, AuditLogsResponseDto } from './dto/audit.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Audit')
+@ApiBearerAuth()
+@Controller('audit')
+@UseGuards(RBACGuard)
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {
+    this.logger.log('Audit Controller initialized');
+  }
+
+  /**
+   * Query the audit trail
+   */
+  @Get()
+  @Roles('system_admin', 'nphcda_director')
+  @ApiOperation({
+    summary: 'Query audit trail',
+    description: 'Filter audit events by user, action, resource, outcome and date range',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit events retrieved successfully',
+    type: AuditLogsResponseDto,
+  })
+  async getAuditLogs(@Query() query: AuditQueryDto): Promise<AuditLogsResponseDto> {
+    return await this.auditService.query(query);
+  }
+
+  /**
+   * Export the audit trail as CSV
+   */
+  @Get('export')
+  @Roles('system_admin', 'nphcda_director')
+  @ApiProduces('text/csv')
+  @ApiOperation({
+    summary: 'Export audit trail',
+    description: 'Download the audit events matching the filters as CSV (pagination is ignored)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file',
+  })
+  async exportAuditLogs(
+    @Query() query: AuditQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    this.logger.log(`Audit export requested: ${JSON.stringify(query)}`);
+
+    const filename = `vaxtrace-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return await this.auditService.exportCsv(query);
+  }
+}
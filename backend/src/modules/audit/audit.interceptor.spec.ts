@@ -0,0 +1,123 @@
+/**
+ * VaxTrace Nigeria - Audit Interceptor Unit Tests
+ *
+ * Tests that mutating requests are recorded with actor, outcome and a
+ * redacted payload, and that reads and opted-out handlers are not.
+ */
+
+import { CallHandler, Controller, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { of, throwError, lastValueFrom } from 'rxjs';
+
+import { AuditStatus } from '../../entities/audit-log.entity';
+import { AuditInterceptor, Audited, SkipAudit } from './audit.interceptor';
+
+@Controller('alert-rules')
+class TestController {
+  create() {}
+
+  @Audited({ action: 'RESOLVE', resource: 'alert' })
+  resolve() {}
+
+  @Audited({ action: 'LOGIN', resource: 'session' })
+  login() {}
+
+  @SkipAudit()
+  refresh() {}
+}
+
+describe('AuditInterceptor', () => {
+  let interceptor: AuditInterceptor;
+  let mockAuditService: { log: jest.Mock };
+
+  const officer = {
+    id: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
+    email: 'amac.logistics@vaxtrace.gov.ng',
+    role: 'lga_logistics_officer',
+    assignedLocationId: 'lga-1',
+    permissions: [],
+  };
+
+  const createContext = (handler: keyof TestController, request: Record<string, any>): ExecutionContext =>
+    ({
+      getType: () => 'http',
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({
+        getRequest: () => ({ params: {}, headers: { 'user-agent': 'jest' }, ip: '10.0.0.5', ...request }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const run = (context: ExecutionContext, handler: CallHandler) => lastValueFrom(interceptor.intercept(context, handler));
+
+  beforeEach(() => {
+    mockAuditService = { log: jest.fn().mockResolvedValue(undefined) };
+    interceptor = new AuditInterceptor(new Reflector(), mockAuditService as any);
+  });
+
+  it('should record a mutating request with the actor and resource derived from the controller', async () => {
+    await run(createContext('create', { method: 'POST', user: officer, body: { name: 'Low BCG' } }), {
+      handle: () => of({ id: 'rule-1' }),
+    });
+
+    expect(mockAuditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'CREATE',
+        resource: 'alert_rule',
+        resourceId: 'rule-1',
+        userId: officer.id,
+        accessLevel: 'LGA',
+        ipAddress: '10.0.0.5',
+        newValues: { name: 'Low BCG' },
+      }),
+    );
+  });
+
+  it('should use the @Audited action and the route id', async () => {
+    await run(createContext('resolve', { method: 'POST', user: officer, params: { id: 'alert-1' } }), {
+      handle: () => of({}),
+    });
+
+    expect(mockAuditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'RESOLVE', resource: 'alert', resourceId: 'alert-1' }),
+    );
+  });
+
+  it('should take the login actor from the response and redact secrets', async () => {
+    await run(createContext('login', { method: 'POST', body: { userId: 'VT-LGA-001', password: 'correct-horse' } }), {
+      handle: () => of({ accessToken: 'jwt', user: officer }),
+    });
+
+    expect(mockAuditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'LOGIN',
+        userId: officer.id,
+        newValues: { userId: 'VT-LGA-001', password: '[REDACTED]' },
+      }),
+    );
+  });
+
+  it('should record failed attempts as unauthorized', async () => {
+    const context = createContext('login', { method: 'POST', body: { userId: 'VT-LGA-001', pin: '000000' } });
+
+    await expect(
+      run(context, { handle: () => throwError(() => new UnauthorizedException('Invalid PIN')) }),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(mockAuditService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'LOGIN',
+        status: AuditStatus.UNAUTHORIZED,
+        failureReason: 'Invalid PIN',
+        newValues: { userId: 'VT-LGA-001', pin: '[REDACTED]' },
+      }),
+    );
+  });
+
+  it('should skip reads and opted-out handlers', async () => {
+    await run(createContext('create', { method: 'GET', user: officer }), { handle: () => of([]) });
+    await run(createContext('refresh', { method: 'POST', body: { refreshToken: 'x' } }), { handle: () => of({}) });
+
+    expect(mockAuditService.log).not.toHaveBeenCalled();
+  });
+});
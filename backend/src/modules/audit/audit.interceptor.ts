@@ -0,0 +1,185 @@
+/**
+ * VaxTrace Nigeria - Audit Interceptor
+ *
+ * Records every mutating request (POST, PUT, PATCH, DELETE) in the audit
+ * trail, with the acting user, the outcome and the request payload
+ * (secrets redacted). Registered globally by AuditModule.
+ *
+ * Usage:
+ * @Audited({ action: 'RESOLVE', resource: 'alert' })   // name the action
+ * @SkipAudit()                                          // opt out (e.g. token refresh)
+ *
+ * Without @Audited the action is derived from the HTTP method and the
+ * resource from the controller path (e.g. PUT /alert-rules/:id -> UPDATE alert_rule).
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  HttpException,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { AuditStatus } from '../../entities/audit-log.entity';
+import { UserRole } from '../../entities/user.entity';
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { AuditEvent, AuditService } from './audit.service';
+
+// ============================================
+// DECORATORS
+// ============================================
+
+export const AUDIT_KEY = 'audit';
+export const SKIP_AUDIT_KEY = 'skipAudit';
+
+export interface AuditOptions {
+  action?: string;
+  resource?: string;
+}
+
+/**
+ * Name the action and resource recorded for a handler
+ */
+export const Audited = (options: AuditOptions) => SetMetadata(AUDIT_KEY, options);
+
+/**
+ * Do not record this handler (or controller) in the audit trail
+ */
+export const SkipAudit = () => SetMetadata(SKIP_AUDIT_KEY, true);
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MUTATING_METHODS: Record<string, string> = {
+  POST: 'CREATE',
+  PUT: 'UPDATE',
+  PATCH: 'UPDATE',
+  DELETE: 'DELETE',
+};
+
+const ROLE_ACCESS_LEVELS: Record<UserRole, string> = {
+  [UserRole.NPHCDA_DIRECTOR]: 'NATIONAL',
+  [UserRole.SYSTEM_ADMIN]: 'NATIONAL',
+  [UserRole.STATE_COLD_CHAIN_OFFICER]: 'STATE',
+  [UserRole.LGA_LOGISTICS_OFFICER]: 'LGA',
+  [UserRole.FACILITY_IN_CHARGE]: 'FACILITY',
+};
+
+// Passwords, PINs, tokens and WebAuthn ceremony data never reach the audit trail
+const REDACTED_KEYS = /password|pin$|token|secret|signature|clientdatajson|authenticatordata|attestation/i;
+
+// Larger payloads (e.g. offline sync batches) are summarised by their keys
+const MAX_PAYLOAD_LENGTH = 8192;
+
+// ============================================
+// INTERCEPTOR
+// ============================================
+
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<ExtendedRequest>();
+    const defaultAction = MUTATING_METHODS[request.method];
+
+    const skip = this.reflector.getAllAndOverride<boolean>(SKIP_AUDIT_KEY, [context.getHandler(), context.getClass()]);
+    if (!defaultAction || skip) {
+      return next.handle();
+    }
+
+    const options = this.reflector.get<AuditOptions>(AUDIT_KEY, context.getHandler()) || {};
+    const event: AuditEvent = {
+      action: options.action || defaultAction,
+      resource: options.resource || this.getControllerResource(context),
+      resourceId: request.params?.id || Object.values(request.params || {})[0],
+      newValues: this.redact(request.body),
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+      requestId: request.requestId || (request.headers['x-request-id'] as string),
+      ...this.getActor(request.user),
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: (response) => {
+          // Logins have no req.user yet; take the actor from the issued session
+          const actor = event.userId ? {} : this.getActor(response?.user);
+          void this.auditService.log({ ...event, ...actor, resourceId: event.resourceId || response?.id });
+        },
+        error: (error) => {
+          const status = error instanceof HttpException ? error.getStatus() : 500;
+          void this.auditService.log({
+            ...event,
+            status: status === 401 || status === 403 ? AuditStatus.UNAUTHORIZED : AuditStatus.FAILURE,
+            failureReason: error.message,
+          });
+        },
+      }),
+    );
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private getActor(user?: { id: string; email?: string; role?: string; assignedLocationId?: string }) {
+    if (!user?.id) {
+      return {};
+    }
+
+    return {
+      userId: user.id,
+      userEmail: user.email,
+      userRole: user.role,
+      locationId: user.assignedLocationId,
+      accessLevel: ROLE_ACCESS_LEVELS[user.role as UserRole],
+    };
+  }
+
+  /**
+   * Singular form of the controller path's last segment, e.g. 'alert-rules' -> 'alert_rule'
+   */
+  private getControllerResource(context: ExecutionContext): string {
+    const path: string = this.reflector.get(PATH_METADATA, context.getClass()) || 'unknown';
+    return path
+      .split('/')
+      .filter(Boolean)
+      .pop()
+      .replace(/-/g, '_')
+      .replace(/([^is])s$/, '$1');
+  }
+
+  private redact(body: any): Record<string, any> | undefined {
+    if (!body || typeof body !== 'object' || Object.keys(body).length === 0) {
+      return undefined;
+    }
+
+    const redacted = JSON.parse(
+      JSON.stringify(body, (key, value) => (key && REDACTED_KEYS.test(key) ? '[REDACTED]' : value)),
+    );
+
+    if (JSON.stringify(redacted).length > MAX_PAYLOAD_LENGTH) {
+      return { truncated: true, keys: Object.keys(redacted) };
+    }
+
+    return redacted;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * VaxTrace Nigeria - Audit Module
+ *
+ * Writes the immutable audit trail (audit_logs) and exposes it for
+ * compliance reviews. Global so any module can inject AuditService;
+ * AuditInterceptor is registered as an app-wide interceptor.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AuditLog } from '../../entities/audit-log.entity';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditService } from './audit.service';
+
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLog])],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,133 @@
+/**
+ * VaxTrace Nigeria - Audit Service Unit Tests
+ *
+ * Tests for the audit_logs-backed audit trail:
+ * - Events written with INSERT only (the table is immutable)
+ * - Filtered, paginated queries
+ * - CSV export quoting
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { AuditLog, AuditStatus } from '../../entities/audit-log.entity';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let mockQueryBuilder: any;
+  let mockAuditLogRepository: any;
+
+  const auditLog = (overrides: Partial<AuditLog> = {}): AuditLog =>
+    ({
+      id: '42',
+      createdAt: new Date('2024-03-01T09:30:00Z'),
+      userId: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
+      userEmail: 'amac.logistics@vaxtrace.gov.ng',
+      userRole: 'lga_logistics_officer',
+      actionType: 'RESOLVE',
+      resourceType: 'alert',
+      resourceId: 'c9f0f895-fb98-4b91-99f5-1a0c4a3c2c11',
+      actionStatus: AuditStatus.SUCCESS,
+      newValues: { resolutionNotes: 'Restocked, "urgent"' },
+      ...overrides,
+    }) as AuditLog;
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getManyAndCount: jest.fn().mockResolvedValue([[auditLog()], 1]),
+      getMany: jest.fn().mockResolvedValue([auditLog()]),
+    };
+
+    mockAuditLogRepository = {
+      insert: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn(),
+      createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuditService, { provide: getRepositoryToken(AuditLog), useValue: mockAuditLogRepository }],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  describe('Logging', () => {
+    it('should insert the event into audit_logs', async () => {
+      await service.log({
+        userId: 'user-1',
+        action: 'UPDATE',
+        resource: 'requisition',
+        resourceId: 'req-1',
+        newValues: { status: 'APPROVED' },
+      });
+
+      expect(mockAuditLogRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          actionType: 'UPDATE',
+          resourceType: 'requisition',
+          resourceId: 'req-1',
+          actionStatus: AuditStatus.SUCCESS,
+        }),
+      );
+      expect(mockAuditLogRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the audit write fails', async () => {
+      mockAuditLogRepository.insert.mockRejectedValue(new Error('connection refused'));
+
+      await expect(service.log({ action: 'LOGIN', resource: 'session' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Querying', () => {
+    it('should apply filters and paginate newest first', async () => {
+      const result = await service.query({
+        userId: 'user-1',
+        actionType: 'LOGIN',
+        status: AuditStatus.UNAUTHORIZED,
+        from: '2024-03-01T00:00:00Z',
+        page: 3,
+        limit: 20,
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('audit.userId = :userId', { userId: 'user-1' });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('audit.actionType = :actionType', { actionType: 'LOGIN' });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('audit.actionStatus = :status', {
+        status: AuditStatus.UNAUTHORIZED,
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('audit.createdAt >= :from', {
+        from: new Date('2024-03-01T00:00:00Z'),
+      });
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('audit.createdAt', 'DESC');
+      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(40);
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(20);
+      expect(result).toEqual(expect.objectContaining({ total: 1, page: 3, limit: 20 }));
+    });
+  });
+
+  describe('CSV Export', () => {
+    it('should export a header row and quoted values', async () => {
+      const csv = await service.exportCsv({ resourceType: 'alert' });
+      const [header, row] = csv.split('\r\n');
+
+      expect(header.startsWith('id,createdAt,userId,userEmail')).toBe(true);
+      expect(row).toContain('2024-03-01T09:30:00.000Z');
+      expect(row).toContain('"{""resolutionNotes"":""Restocked, \\""urgent\\""""}"');
+    });
+
+    it('should neutralise spreadsheet formulas', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([auditLog({ failureReason: '=HYPERLINK("http://evil")' })]);
+
+      const csv = await service.exportCsv();
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    });
+  });
+});
@@ -1,69 +1,229 @@
 /**
  * VaxTrace Nigeria - Audit Logging Service
- * 
+ *
  * FIX #19: Audit Logging
  * Tracks all important actions for compliance and debugging
+ *
+ * Events are written to the immutable `audit_logs` table (migration 002)
+ * and can be queried or exported as CSV for NDPR compliance reviews.
+ * Writing an audit event never fails the request that triggered it.
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { CacheService } from '../cache/cache.service';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 
-export interface AuditLog {
-  id: string;
-  timestamp: Date;
-  userId: string;
+import { AuditLog, AuditStatus } from '../../entities/audit-log.entity';
+import { AuditQueryDto, AuditLogDto, AuditLogsResponseDto } from './dto/audit.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_EXPORT_ROWS = 50000;
+
+const CSV_COLUMNS: (keyof AuditLogDto)[] = [
+  'id',
+  'createdAt',
+  'userId',
+  'userEmail',
+  'userRole',
+  'actionType',
+  'resourceType',
+  'resourceId',
+  'actionStatus',
+  'failureReason',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'accessLevel',
+  'newValues',
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AuditEvent {
+  userId?: string;
+  userEmail?: string;
+  userRole?: string;
   action: string;
   resource: string;
   resourceId?: string;
-  details: Record<string, any>;
+  oldValues?: Record<string, any>;
+  newValues?: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
+  requestId?: string;
+  locationId?: string;
+  accessLevel?: string;
+  status?: AuditStatus;
+  failureReason?: string;
 }
 
+// ============================================
+// SERVICE
+// ============================================
+
 @Injectable()
 export class AuditService {
   private readonly logger = new Logger(AuditService.name);
-  private readonly AUDIT_LOG_PREFIX = 'vax:audit:';
 
-  constructor(private readonly cacheService: CacheService) {}
+  constructor(
+    @InjectRepository(AuditLog)
+    private readonly auditLogRepository: Repository<AuditLog>,
+  ) {}
 
   /**
    * Log an audit event
    */
-  async log(event: Omit<AuditLog, 'id' | 'timestamp'>): Promise<void> {
-    const auditLog: AuditLog = {
-      id: this.generateId(),
-      timestamp: new Date(),
-      ...event,
-    };
+  async log(event: AuditEvent): Promise<void> {
+    const status = event.status || AuditStatus.SUCCESS;
 
-    // Store in Redis with 30-day TTL
-    const key = `${this.AUDIT_LOG_PREFIX}${auditLog.id}`;
-    await this.cacheService.set(key, auditLog, { ttl: 30 * 24 * 60 * 60 });
+    try {
+      // insert() rather than save(): the table only accepts INSERTs
+      await this.auditLogRepository.insert({
+        userId: event.userId,
+        userEmail: event.userEmail,
+        userRole: event.userRole,
+        actionType: event.action,
+        resourceType: event.resource,
+        resourceId: event.resourceId,
+        oldValues: event.oldValues,
+        newValues: event.newValues,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        requestId: event.requestId,
+        locationAccessed: event.locationId,
+        accessLevel: event.accessLevel,
+        actionStatus: status,
+        failureReason: event.failureReason,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write audit event ${event.action} on ${event.resource}`, error.stack);
+    }
 
     // Also log to application logger for immediate visibility
     this.logger.log(
-      `[AUDIT] ${auditLog.userId} - ${auditLog.action} on ${auditLog.resource}` +
-        (auditLog.resourceId ? `:${auditLog.resourceId}` : '')
+      `[AUDIT] ${event.userId || 'anonymous'} - ${event.action} on ${event.resource}` +
+        (event.resourceId ? `:${event.resourceId}` : '') +
+        (status !== AuditStatus.SUCCESS ? ` (${status})` : ''),
     );
   }
 
   /**
-   * Query audit logs
+   * Query audit logs, newest first
+   */
+  async query(filters: AuditQueryDto = {}): Promise<AuditLogsResponseDto> {
+    const page = filters.page || 1;
+    const limit = filters.limit || DEFAULT_PAGE_SIZE;
+
+    const [logs, total] = await this.buildQuery(filters)
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: logs.map((log) => this.toDto(log)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Export matching audit logs as CSV (ignores pagination, capped at MAX_EXPORT_ROWS)
    */
-  async query(filters: {
-    userId?: string;
-    action?: string;
-    resource?: string;
-    startDate?: Date;
-    endDate?: Date;
-  }): Promise<AuditLog[]> {
-    // In production, this would query a dedicated audit log database
-    // For now, return empty array as audit logs are stored in Redis
-    return [];
+  async exportCsv(filters: AuditQueryDto = {}): Promise<string> {
+    const logs = await this.buildQuery(filters).take(MAX_EXPORT_ROWS).getMany();
+
+    if (logs.length === MAX_EXPORT_ROWS) {
+      this.logger.warn(`Audit export truncated to ${MAX_EXPORT_ROWS} rows`);
+    }
+
+    const rows = logs.map((log) => {
+      const dto = this.toDto(log);
+      return CSV_COLUMNS.map((column) => this.toCsvCell(dto[column])).join(',');
+    });
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private buildQuery(filters: AuditQueryDto) {
+    const qb = this.auditLogRepository.createQueryBuilder('audit');
+
+    if (filters.userId) {
+      qb.andWhere('audit.userId = :userId', { userId: filters.userId });
+    }
+
+    if (filters.actionType) {
+      qb.andWhere('audit.actionType = :actionType', { actionType: filters.actionType });
+    }
+
+    if (filters.resourceType) {
+      qb.andWhere('audit.resourceType = :resourceType', { resourceType: filters.resourceType });
+    }
+
+    if (filters.resourceId) {
+      qb.andWhere('audit.resourceId = :resourceId', { resourceId: filters.resourceId });
+    }
+
+    if (filters.status) {
+      qb.andWhere('audit.actionStatus = :status', { status: filters.status });
+    }
+
+    if (filters.from) {
+      qb.andWhere('audit.createdAt >= :from', { from: new Date(filters.from) });
+    }
+
+    if (filters.to) {
+      qb.andWhere('audit.createdAt < :to', { to: new Date(filters.to) });
+    }
+
+    return qb.orderBy('audit.createdAt', 'DESC').addOrderBy('audit.id', 'DESC');
   }
 
-  private generateId(): string {
-    return `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private toDto(log: AuditLog): AuditLogDto {
+    return {
+      id: log.id,
+      createdAt: log.createdAt,
+      userId: log.userId,
+      userEmail: log.userEmail,
+      userRole: log.userRole,
+      actionType: log.actionType,
+      resourceType: log.resourceType,
+      resourceId: log.resourceId,
+      actionStatus: log.actionStatus,
+      failureReason: log.failureReason,
+      newValues: log.newValues,
+      oldValues: log.oldValues,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+      requestId: log.requestId,
+      accessLevel: log.accessLevel,
+    };
+  }
+
+  /**
+   * Quote a CSV cell (RFC 4180) and neutralise spreadsheet formulas
+   */
+  private toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
   }
 }
@@ -0,0 +1,147 @@
+/**
+ * VaxTrace Nigeria - Audit Trail DTOs
+ *
+ * Data Transfer Objects for querying and exporting the audit trail
+ *
+ * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { IsString, IsOptional, IsEnum, IsUUID, IsInt, IsDateString, Matches, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { AuditStatus } from '../../../entities/audit-log.entity';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class AuditQueryDto {
+  @ApiPropertyOptional({ description: 'Only actions by this user' })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  // Action types are SQL verbs (CREATE, UPDATE, DELETE), which @Sanitize would strip
+  @ApiPropertyOptional({ description: 'Action type', example: 'LOGIN' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[A-Z_]+$/)
+  actionType?: string;
+
+  @ApiPropertyOptional({ description: 'Resource type', example: 'requisition' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[a-z_]+$/)
+  resourceType?: string;
+
+  @ApiPropertyOptional({ description: 'Resource ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  @Sanitize()
+  resourceId?: string;
+
+  @ApiPropertyOptional({ description: 'Outcome of the action', enum: AuditStatus })
+  @IsOptional()
+  @IsEnum(AuditStatus)
+  status?: AuditStatus;
+
+  @ApiPropertyOptional({ description: 'From (inclusive, ISO 8601)', example: '2024-01-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'To (exclusive, ISO 8601)', example: '2024-02-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Page number (1-based)', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class AuditLogDto {
+  @ApiProperty({ description: 'Audit record ID' })
+  id: string;
+
+  @ApiProperty({ description: 'When the action happened' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: 'Acting user' })
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Acting user email' })
+  userEmail?: string;
+
+  @ApiPropertyOptional({ description: 'Acting user role' })
+  userRole?: string;
+
+  @ApiProperty({ description: 'Action type', example: 'UPDATE' })
+  actionType: string;
+
+  @ApiProperty({ description: 'Resource type', example: 'requisition' })
+  resourceType: string;
+
+  @ApiPropertyOptional({ description: 'Resource ID' })
+  resourceId?: string;
+
+  @ApiProperty({ description: 'Outcome', enum: AuditStatus })
+  actionStatus: AuditStatus;
+
+  @ApiPropertyOptional({ description: 'Error message for failed actions' })
+  failureReason?: string;
+
+  @ApiPropertyOptional({ description: 'Request payload (secrets redacted)' })
+  newValues?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Previous values, where known' })
+  oldValues?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Client IP address' })
+  ipAddress?: string;
+
+  @ApiPropertyOptional({ description: 'Client user agent' })
+  userAgent?: string;
+
+  @ApiPropertyOptional({ description: 'Correlation ID' })
+  requestId?: string;
+
+  @ApiPropertyOptional({ description: 'Access level of the actor', example: 'STATE' })
+  accessLevel?: string;
+}
+
+export class AuditLogsResponseDto {
+  @ApiProperty({ description: 'Audit records, newest first', type: [AuditLogDto] })
+  data: AuditLogDto[];
+
+  @ApiProperty({ description: 'Total matching records', example: 1240 })
+  total: number;
+
+  @ApiProperty({ description: 'Page number', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Page size', example: 50 })
+  limit: number;
+}
@@ -6,20 +6,44 @@
  *
  * Endpoints:
  * - POST /api/v1/auth/login - User login with credentials
- * - POST /api/v1/auth/biometric - Biometric authentication
+ * - POST /api/v1/auth/webauthn/authentication-options - Challenge for biometric login
+ * - POST /api/v1/auth/biometric - Biometric authentication (WebAuthn assertion)
  * - POST /api/v1/auth/pin - PIN authentication
  * - POST /api/v1/auth/refresh - Refresh access token
- * - POST /api/v1/auth/logout - Logout and invalidate tokens
+ * - POST /api/v1/auth/logout - Logout and revoke the current session
+ * - GET /api/v1/auth/sessions - List the current user's active sessions
+ * - DELETE /api/v1/auth/sessions/:id - Revoke a session
+ * - POST /api/v1/auth/webauthn/registration-options - Challenge for registering a device
+ * - POST /api/v1/auth/webauthn/register - Register a WebAuthn credential
+ * - GET /api/v1/auth/webauthn/credentials - List registered credentials
+ * - DELETE /api/v1/auth/webauthn/credentials/:id - Revoke a credential
  *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Controller, Post, Body, HttpCode, HttpStatus, Logger, UseGuards, Req, Get } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  Req,
+  Get,
+  Param,
+  ParseUUIDPipe,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
 import { Request } from 'express';
 
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
 import { AuthService } from './auth.service';
+import { SessionClient } from './refresh-token.service';
+import { Audited, SkipAudit } from '../audit/audit.interceptor';
+import { WebAuthnService } from './webauthn.service';
 import {
   LoginDto,
   RefreshTokenDto,
@@ -27,6 +51,12 @@ import {
   PinLoginDto,
   AuthResponseDto,
   UserDto,
+  WebAuthnLoginOptionsDto,
+  WebAuthnAuthenticationOptionsDto,
+  WebAuthnRegistrationDto,
+  WebAuthnRegistrationOptionsDto,
+  WebAuthnCredentialDto,
+  SessionDto,
 } from './dto/auth.dto';
 
 // ============================================
@@ -38,7 +68,10 @@ import {
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
 
-  constructor(private readonly authService: AuthService) {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly webAuthnService: WebAuthnService,
+  ) {
     this.logger.log('Authentication Controller initialized');
   }
 
@@ -50,6 +83,7 @@ export class AuthController {
    * User login with credentials (username/password or PIN)
    */
   @Post('login')
+  @Audited({ action: 'LOGIN', resource: 'session' })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'User login',
@@ -65,19 +99,40 @@ export class AuthController {
     description: 'Invalid credentials',
   })
   @ApiBody({ type: LoginDto })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(@Body() loginDto: LoginDto, @Req() req: Request): Promise<AuthResponseDto> {
     this.logger.log(`Login request for user: ${loginDto.userId}`);
-    return await this.authService.login(loginDto);
+    return await this.authService.login(loginDto, this.getClient(req));
+  }
+
+  /**
+   * WebAuthn challenge for biometric login
+   */
+  @Post('webauthn/authentication-options')
+  @SkipAudit()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Biometric login options',
+    description: 'Issue a single-use challenge for navigator.credentials.get()',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Authentication options issued',
+    type: WebAuthnAuthenticationOptionsDto,
+  })
+  @ApiBody({ type: WebAuthnLoginOptionsDto })
+  async getBiometricLoginOptions(@Body() body: WebAuthnLoginOptionsDto): Promise<WebAuthnAuthenticationOptionsDto> {
+    return await this.authService.getBiometricLoginOptions(body.userId);
   }
 
   /**
    * Biometric authentication (WebAuthn)
    */
   @Post('biometric')
+  @Audited({ action: 'LOGIN', resource: 'session' })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Biometric authentication',
-    description: 'Authenticate user using biometric credentials (WebAuthn)',
+    description: 'Authenticate user with a WebAuthn assertion signed by a registered authenticator',
   })
   @ApiResponse({
     status: 200,
@@ -89,15 +144,16 @@ export class AuthController {
     description: 'Invalid biometric credentials',
   })
   @ApiBody({ type: BiometricLoginDto })
-  async biometricLogin(@Body() biometricDto: BiometricLoginDto): Promise<AuthResponseDto> {
+  async biometricLogin(@Body() biometricDto: BiometricLoginDto, @Req() req: Request): Promise<AuthResponseDto> {
     this.logger.log(`Biometric login request for credential: ${biometricDto.credentialId}`);
-    return await this.authService.biometricLogin(biometricDto);
+    return await this.authService.biometricLogin(biometricDto, this.getClient(req));
   }
 
   /**
    * PIN authentication
    */
   @Post('pin')
+  @Audited({ action: 'LOGIN', resource: 'session' })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'PIN authentication',
@@ -113,19 +169,21 @@ export class AuthController {
     description: 'Invalid PIN',
   })
   @ApiBody({ type: PinLoginDto })
-  async pinLogin(@Body() pinDto: PinLoginDto): Promise<AuthResponseDto> {
+  async pinLogin(@Body() pinDto: PinLoginDto, @Req() req: Request): Promise<AuthResponseDto> {
     this.logger.log(`PIN login request`);
-    return await this.authService.pinLogin(pinDto);
+    return await this.authService.pinLogin(pinDto, this.getClient(req));
   }
 
   /**
    * Refresh access token
    */
   @Post('refresh')
+  @SkipAudit()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Refresh access token',
-    description: 'Obtain a new access token using a valid refresh token',
+    description:
+      'Exchange a refresh token for a new token pair. Each refresh token works once; replaying a rotated token revokes the session',
   })
   @ApiResponse({
     status: 200,
@@ -134,7 +192,7 @@ export class AuthController {
   })
   @ApiResponse({
     status: 401,
-    description: 'Invalid or expired refresh token',
+    description: 'Invalid, expired, revoked or already used refresh token',
   })
   @ApiBody({ type: RefreshTokenDto })
   async refreshToken(@Body() refreshDto: RefreshTokenDto): Promise<AuthResponseDto> {
@@ -176,12 +234,13 @@ export class AuthController {
    * Logout user and invalidate tokens
    */
   @Post('logout')
+  @Audited({ action: 'LOGOUT', resource: 'session' })
   @UseGuards() // Will be replaced with JWT guard
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Logout user',
-    description: 'Logout user and invalidate refresh tokens',
+    description: 'Logout user and revoke the refresh token of the current session',
   })
   @ApiResponse({
     status: 204,
@@ -191,10 +250,163 @@ export class AuthController {
     status: 401,
     description: 'Unauthorized - Invalid or missing token',
   })
-  async logout(@Req() req: Request): Promise<void> {
+  async logout(@Req() req: ExtendedRequest): Promise<void> {
     // Extract user from JWT (added by middleware)
-    const user = req['user'] as any;
-    this.logger.log(`Logout request for user: ${user?.id}`);
-    await this.authService.logout(user?.sub);
+    this.logger.log(`Logout request for user: ${req.user?.id}`);
+    await this.authService.logout(req.user?.id, req.user?.sessionId);
+  }
+
+  /**
+   * List the current user's sessions
+   */
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List sessions',
+    description: 'List the active sessions (devices holding a refresh token) of the current user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved',
+    type: [SessionDto],
+  })
+  async listSessions(@Req() req: ExtendedRequest): Promise<SessionDto[]> {
+    return await this.authService.listSessions(req.user.id, req.user.sessionId);
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  @Delete('sessions/:id')
+  @Audited({ action: 'REVOKE', resource: 'session' })
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke session',
+    description: 'Sign out a device; its refresh token stops working immediately',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  async revokeSession(@Param('id', ParseUUIDPipe) id: string, @Req() req: ExtendedRequest): Promise<void> {
+    this.logger.log(`Session revoke request: ${id}`);
+    await this.authService.revokeSession(req.user.id, id);
+  }
+
+  // ============================================
+  // WEBAUTHN CREDENTIAL MANAGEMENT
+  // ============================================
+
+  /**
+   * WebAuthn challenge for registering the current device
+   */
+  @Post('webauthn/registration-options')
+  @SkipAudit()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Biometric registration options',
+    description: 'Issue a single-use challenge for navigator.credentials.create()',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Registration options issued',
+    type: WebAuthnRegistrationOptionsDto,
+  })
+  async getRegistrationOptions(@Req() req: ExtendedRequest): Promise<WebAuthnRegistrationOptionsDto> {
+    return await this.webAuthnService.generateRegistrationOptions({
+      id: req.user.id,
+      email: req.user.email,
+      displayName: req.user.name,
+    });
+  }
+
+  /**
+   * Register a WebAuthn credential for the current user
+   */
+  @Post('webauthn/register')
+  @Audited({ action: 'CREATE', resource: 'webauthn_credential' })
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Register biometric credential',
+    description: 'Verify the attestation from navigator.credentials.create() and store the credential',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Credential registered',
+    type: WebAuthnCredentialDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Authenticator already registered',
+  })
+  @ApiBody({ type: WebAuthnRegistrationDto })
+  async registerCredential(
+    @Body() body: WebAuthnRegistrationDto,
+    @Req() req: ExtendedRequest,
+  ): Promise<WebAuthnCredentialDto> {
+    this.logger.log(`WebAuthn registration request for user: ${req.user.id}`);
+    return await this.webAuthnService.verifyRegistration(req.user.id, body);
+  }
+
+  /**
+   * List the current user's credentials
+   */
+  @Get('webauthn/credentials')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List biometric credentials',
+    description: 'List the active WebAuthn credentials of the current user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Credentials retrieved',
+    type: [WebAuthnCredentialDto],
+  })
+  async listCredentials(@Req() req: ExtendedRequest): Promise<WebAuthnCredentialDto[]> {
+    return await this.webAuthnService.listCredentials(req.user.id);
+  }
+
+  /**
+   * Revoke one of the current user's credentials
+   */
+  @Delete('webauthn/credentials/:id')
+  @Audited({ action: 'REVOKE', resource: 'webauthn_credential' })
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke biometric credential',
+    description: 'Revoke a WebAuthn credential, e.g. for a lost or reassigned phone',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Credential revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Credential not found',
+  })
+  async revokeCredential(@Param('id', ParseUUIDPipe) id: string, @Req() req: ExtendedRequest): Promise<void> {
+    this.logger.log(`WebAuthn credential revoke request: ${id}`);
+    await this.webAuthnService.revokeCredential(req.user.id, id);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Device details recorded against a new session
+   */
+  private getClient(req: Request): SessionClient {
+    return {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    };
   }
 }
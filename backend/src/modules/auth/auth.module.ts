@@ -5,11 +5,10 @@
  * This module handles user login, token generation/validation, and session management.
  *
  * Features:
- * - JWT-based authentication
+ * - JWT-based authentication against the users table
  * - Role-based access control (RBAC)
- * - Refresh token management
- * - Biometric authentication support (WebAuthn)
- * - Token cleanup and expiration handling
+ * - Refresh token families in Redis (rotation, reuse detection, session revocation)
+ * - Biometric authentication (WebAuthn registration, assertion and credential management)
  *
  * @author VaxTrace Team
  * @version 1.0.0
@@ -18,10 +17,15 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { ScheduleModule } from '@nestjs/schedule';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { User } from '../../entities/user.entity';
+import { WebAuthnCredential } from '../../entities/webauthn-credential.entity';
 
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { WebAuthnService } from './webauthn.service';
+import { RefreshTokenService } from './refresh-token.service';
 
 // ============================================
 // MODULE CONFIGURATION
@@ -29,6 +33,7 @@ import { AuthService } from './auth.service';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([User, WebAuthnCredential]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -39,10 +44,9 @@ import { AuthService } from './auth.service';
       }),
       inject: [ConfigService],
     }),
-    ScheduleModule.forRoot(),
   ],
   controllers: [AuthController],
-  providers: [AuthService],
+  providers: [AuthService, WebAuthnService, RefreshTokenService],
   exports: [AuthService],
 })
 export class AuthModule {
@@ -0,0 +1,271 @@
+/**
+ * VaxTrace Nigeria - Authentication Service Unit Tests
+ *
+ * Tests for database-backed authentication including:
+ * - Password and PIN login against bcrypt hashes
+ * - Role permissions derived from the UserRole enum with per-user overrides
+ * - Token claims carrying role, location scope and session
+ * - Refresh token rotation and session revocation
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+
+import { User, UserRole } from '../../entities/user.entity';
+import { LocationType } from '../../entities/location.entity';
+import { AuthService } from './auth.service';
+import { CacheService } from '../cache/cache.service';
+import { WebAuthnService } from './webauthn.service';
+import { RefreshTokenService } from './refresh-token.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+  let mockQueryBuilder: any;
+  let mockUserRepository: any;
+  let mockWebAuthnService: { verifyAuthentication: jest.Mock; generateAuthenticationOptions: jest.Mock };
+  let cache: Map<string, any>;
+
+  const passwordHash = bcrypt.hashSync('correct-horse', 4);
+  const pinHash = bcrypt.hashSync('246810', 4);
+
+  const lga = {
+    id: 'lga-1',
+    name: 'Abuja Municipal',
+    type: LocationType.LGA,
+    parent: { id: 'state-1', name: 'FCT', type: LocationType.STATE },
+  };
+
+  const user = (overrides: Partial<User> = {}): User =>
+    ({
+      id: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
+      email: 'amac.logistics@vaxtrace.gov.ng',
+      staffId: 'VT-LGA-001',
+      displayName: 'AMAC Logistics Officer',
+      role: UserRole.LGA_LOGISTICS_OFFICER,
+      assignedLocationId: 'lga-1',
+      assignedLocation: lga,
+      permissions: {},
+      isActive: true,
+      passwordHash,
+      pinHash,
+      createdAt: new Date('2024-01-01'),
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(user()),
+    };
+
+    mockUserRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockWebAuthnService = {
+      verifyAuthentication: jest.fn(),
+      generateAuthenticationOptions: jest.fn(),
+    };
+
+    cache = new Map();
+    const mockCacheService = {
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => void cache.set(key, JSON.parse(JSON.stringify(value)))),
+      setConditional: jest.fn(async (key: string, value: any, condition: 'NX' | 'XX') => {
+        if (cache.has(key) !== (condition === 'XX')) {
+          return false;
+        }
+        cache.set(key, JSON.parse(JSON.stringify(value)));
+        return true;
+      }),
+      del: jest.fn(async (key: string) => void cache.delete(key)),
+    };
+
+    jwtService = new JwtService({ secret: 'test-secret' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+        { provide: JwtService, useValue: jwtService },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: WebAuthnService, useValue: mockWebAuthnService },
+        { provide: CacheService, useValue: mockCacheService },
+        RefreshTokenService,
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('Password Login', () => {
+    it('should log in with a valid password and record the login', async () => {
+      const response = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+
+      expect(response.user).toEqual(
+        expect.objectContaining({
+          name: 'AMAC Logistics Officer',
+          role: UserRole.LGA_LOGISTICS_OFFICER,
+          assignedLocationId: 'lga-1',
+        }),
+      );
+      expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(['user.passwordHash', 'user.pinHash']);
+      expect(mockUserRepository.update).toHaveBeenCalledWith(
+        user().id,
+        expect.objectContaining({ lastLoginAt: expect.any(Date) }),
+      );
+    });
+
+    it('should reject an invalid password', async () => {
+      await expect(service.login({ userId: 'VT-LGA-001', password: 'wrong-password' })).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown or inactive users', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue(null);
+
+      await expect(service.login({ userId: 'nobody@vaxtrace.gov.ng', password: 'correct-horse' })).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith('user.isActive = true');
+    });
+
+    it('should reject users without a password hash', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue(user({ passwordHash: null }));
+
+      await expect(service.login({ userId: 'VT-LGA-001', password: 'correct-horse' })).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('PIN Login', () => {
+    it('should validate the PIN against the stored hash', async () => {
+      await expect(service.pinLogin({ userId: 'VT-LGA-001', pin: '246810' })).resolves.toBeDefined();
+      await expect(service.pinLogin({ userId: 'VT-LGA-001', pin: '123456' })).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('Biometric Login', () => {
+    const assertion = {
+      credentialId: 'Y3JlZGVudGlhbA',
+      clientDataJSON: 'e30',
+      authenticatorData: 'AA',
+      signature: 'AA',
+    };
+
+    it('should log in the user whose credential signed the assertion', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue(user().id);
+
+      const response = await service.biometricLogin(assertion);
+
+      expect(mockWebAuthnService.verifyAuthentication).toHaveBeenCalledWith(assertion);
+      expect(response.user.id).toBe(user().id);
+    });
+
+    it('should reject assertions for inactive users', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue(user().id);
+      mockQueryBuilder.getOne.mockResolvedValue(null);
+
+      await expect(service.biometricLogin(assertion)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('should derive permissions from the role', () => {
+      const permissions = service.getPermissionsForRole(UserRole.STATE_COLD_CHAIN_OFFICER);
+
+      expect(permissions).toEqual({
+        canViewNational: false,
+        canViewState: true,
+        canViewLGA: true,
+        canViewFacility: true,
+        canEditStock: false,
+        canEditUsers: false,
+        canViewReports: true,
+        canManageAlerts: true,
+      });
+    });
+
+    it('should apply per-user overrides from the users table', () => {
+      const permissions = service.getPermissionsForRole(UserRole.LGA_LOGISTICS_OFFICER, {
+        edit_stock: false,
+        manage_alerts: true,
+      });
+
+      expect(permissions.canEditStock).toBe(false);
+      expect(permissions.canManageAlerts).toBe(true);
+    });
+  });
+
+  describe('Tokens', () => {
+    it('should put role, location scope and permissions in the access token', async () => {
+      const response = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+      const payload = jwtService.verify(response.accessToken);
+
+      expect(payload).toEqual(
+        expect.objectContaining({
+          sub: user().id,
+          role: 'lga_logistics_officer',
+          assignedLocationId: 'lga-1',
+          permissions: expect.arrayContaining(['view_lga', 'edit_stock']),
+          sid: expect.any(String),
+        }),
+      );
+    });
+
+    it('should reload the user from the database on refresh', async () => {
+      const { refreshToken } = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+      mockQueryBuilder.getOne.mockResolvedValue(user({ role: UserRole.STATE_COLD_CHAIN_OFFICER }));
+
+      const response = await service.refreshToken({ refreshToken });
+
+      expect(response.user.role).toBe(UserRole.STATE_COLD_CHAIN_OFFICER);
+      expect(mockQueryBuilder.andWhere).toHaveBeenLastCalledWith('user.id = :identifier', { identifier: user().id });
+    });
+
+    it('should only accept each refresh token once', async () => {
+      const { refreshToken } = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+
+      const rotated = await service.refreshToken({ refreshToken });
+
+      await expect(service.refreshToken({ refreshToken })).rejects.toThrow(UnauthorizedException);
+      // Reuse revokes the whole session, including the latest token
+      await expect(service.refreshToken({ refreshToken: rotated.refreshToken })).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should end only the current session on logout', async () => {
+      const tablet = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+      const phone = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+
+      await service.logout(user().id, jwtService.verify(tablet.accessToken).sid);
+
+      await expect(service.refreshToken({ refreshToken: tablet.refreshToken })).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(service.refreshToken({ refreshToken: phone.refreshToken })).resolves.toBeDefined();
+    });
+
+    it('should resolve state and LGA names for the current user', async () => {
+      const { accessToken } = await service.login({ userId: 'VT-LGA-001', password: 'correct-horse' });
+
+      const profile = await service.validateToken(accessToken);
+
+      expect(profile).toEqual(expect.objectContaining({ state: 'FCT', lga: 'Abuja Municipal' }));
+    });
+  });
+});
@@ -6,24 +6,30 @@
  *
  * Features:
  * - JWT token generation with configurable expiry
- * - Refresh token management
- * - User validation against mock database
- * - Role-based access control (RBAC)
- * - Session management
+ * - Rotating refresh tokens with reuse detection (see RefreshTokenService)
+ * - User validation against the `users` table (bcrypt password/PIN hashes)
+ * - Biometric login via WebAuthn assertions
+ * - Role-based access control (RBAC) derived from the UserRole enum
+ *   plus per-user overrides in `users.permissions`
+ * - Session listing and revocation
  *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Injectable, UnauthorizedException, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { isUUID } from 'class-validator';
 import * as bcrypt from 'bcrypt';
-import { sign, verify } from 'jsonwebtoken';
 
+import { User, UserRole } from '../../entities/user.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Permission, resolvePermissions } from '../../guards/rbac.guard';
+import { WebAuthnService } from './webauthn.service';
+import { IssuedRefreshToken, RefreshTokenService, SessionClient } from './refresh-token.service';
 import {
   LoginDto,
   RefreshTokenDto,
@@ -31,6 +37,8 @@ import {
   PinLoginDto,
   AuthResponseDto,
   UserDto,
+  WebAuthnAuthenticationOptionsDto,
+  SessionDto,
 } from './dto/auth.dto';
 
 // ============================================
@@ -40,106 +48,35 @@ import {
 interface JwtPayload {
   sub: string;
   email: string;
-  role: string;
+  name: string;
+  role: UserRole;
+  assignedLocationId?: string;
+  permissions: Permission[];
+  sid: string;
   iat?: number;
   exp?: number;
 }
 
-interface RefreshTokenPayload {
-  sub: string;
-  tokenId: string;
-  type: 'refresh';
-}
-
 interface TokenPair {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
 }
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: string;
-  password: string;
-  state?: string;
-  lga?: string;
-  createdAt: Date;
-  lastLogin?: Date;
-}
-
-// ============================================
-// MOCK USER DATABASE
-// ============================================
-
 /**
- * SECURITY: Mock users for development/testing
- *
- * In production, this would be replaced with actual database queries.
- * Passwords are loaded from environment variables to avoid hardcoding credentials.
- *
- * To set up test users, add these to your .env file:
- * - MOCK_ADMIN_PASSWORD_HASH
- * - MOCK_MGR_PASSWORD_HASH
- * - MOCK_SUP_PASSWORD_HASH
- * - MOCK_FAC_PASSWORD_HASH
- *
- * Generate bcrypt hashes using: htpasswd -bnBC 10 "" "your-password" | tr -d ':\n'
+ * Permission flags returned to the client, keyed by RBAC permission
  */
-
-const getMockUsers = (): User[] => {
-  // Default bcrypt hash for "password123" - CHANGE THIS IN PRODUCTION!
-  const defaultHash = process.env.MOCK_DEFAULT_PASSWORD_HASH ||
-    '$2b$10$YourHashedPasswordHere_CHANGE_IN_PRODUCTION';
-  
-  return [
-    {
-      id: 'VT-ADMIN-001',
-      email: 'admin@vaxtrace.gov.ng',
-      name: 'System Administrator',
-      role: 'NATIONAL_ADMIN',
-      password: process.env.MOCK_ADMIN_PASSWORD_HASH || defaultHash,
-      createdAt: new Date('2024-01-01'),
-      lastLogin: new Date('2024-01-15'),
-    },
-    {
-      id: 'VT-MGR-001',
-      email: 'fct.manager@vaxtrace.gov.ng',
-      name: 'FCT State Manager',
-      role: 'STATE_MANAGER',
-      state: 'FCT',
-      password: process.env.MOCK_MGR_PASSWORD_HASH || defaultHash,
-      createdAt: new Date('2024-01-01'),
-      lastLogin: new Date('2024-01-15'),
-    },
-    {
-      id: 'VT-SUP-001',
-      email: 'abuja.supervisor@vaxtrace.gov.ng',
-      name: 'Abuja Municipal Supervisor',
-      role: 'LGA_SUPERVISOR',
-      state: 'FCT',
-      lga: 'Abuja Municipal',
-      password: process.env.MOCK_SUP_PASSWORD_HASH || defaultHash,
-      createdAt: new Date('2024-01-01'),
-      lastLogin: new Date('2024-01-15'),
-    },
-    {
-      id: 'VT-FAC-001',
-      email: 'wuse.facility@vaxtrace.gov.ng',
-      name: 'Wuse Zone 4 Facility In-Charge',
-      role: 'FACILITY_IN_CHARGE',
-      state: 'FCT',
-      lga: 'Abuja Municipal',
-      password: process.env.MOCK_FAC_PASSWORD_HASH || defaultHash,
-      createdAt: new Date('2024-01-01'),
-      lastLogin: new Date('2024-01-15'),
-    },
-  ];
+const PERMISSION_FLAGS: Record<Permission, string> = {
+  view_national: 'canViewNational',
+  view_state: 'canViewState',
+  view_lga: 'canViewLGA',
+  view_facility: 'canViewFacility',
+  edit_stock: 'canEditStock',
+  edit_users: 'canEditUsers',
+  view_reports: 'canViewReports',
+  manage_alerts: 'canManageAlerts',
 };
 
-const MOCK_USERS: User[] = getMockUsers();
-
 // ============================================
 // AUTH SERVICE
 // ============================================
@@ -147,11 +84,14 @@ const MOCK_USERS: User[] = getMockUsers();
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
-  private readonly refreshTokens: Map<string, { userId: string; expiresAt: Date }> = new Map();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly jwtService: JwtService,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly refreshTokenService: RefreshTokenService,
   ) {
     this.logger.log('Authentication Service initialized');
   }
@@ -163,192 +103,110 @@ export class AuthService {
   /**
    * Authenticate user with credentials (username/password)
    */
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(loginDto: LoginDto, client?: SessionClient): Promise<AuthResponseDto> {
     this.logger.log(`Login attempt for user: ${loginDto.userId}`);
 
-    // Find user by ID or email
-    const user = this.findUser(loginDto.userId);
+    // Find user by ID, staff ID or email
+    const user = await this.findUser(loginDto.userId, true);
     if (!user) {
       this.logger.warn(`Login failed: User not found - ${loginDto.userId}`);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Validate password (for development, accept any 4+ digit PIN)
-    // In production, use bcrypt.compare()
-    const isValidPassword = await this.validatePassword(loginDto.password, user.password);
+    const isValidPassword = await this.validateSecret(loginDto.password, user.passwordHash);
     if (!isValidPassword) {
       this.logger.warn(`Login failed: Invalid password - ${loginDto.userId}`);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
-
-    // Get user permissions
-    const permissions = this.getPermissionsForRole(user.role);
+    await this.recordLogin(user);
 
     this.logger.log(`User logged in successfully: ${user.id} (${user.role})`);
 
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresIn: tokens.expiresIn,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      permissions,
-    };
+    return this.buildAuthResponse(user, await this.refreshTokenService.createSession(user.id, client));
   }
 
   /**
-   * Authenticate user with biometric credentials
+   * Authenticate user with a WebAuthn assertion (see WebAuthnService)
    */
-  async biometricLogin(biometricDto: BiometricLoginDto): Promise<AuthResponseDto> {
+  async biometricLogin(biometricDto: BiometricLoginDto, client?: SessionClient): Promise<AuthResponseDto> {
     this.logger.log(`Biometric login attempt for credential: ${biometricDto.credentialId}`);
 
-    // In production, validate biometric credential against WebAuthn
-    // For now, we'll accept any valid credential ID format
-    if (!biometricDto.credentialId || biometricDto.credentialId.length < 10) {
-      this.logger.warn(`Biometric login failed: Invalid credential ID`);
-      throw new UnauthorizedException('Invalid biometric credentials');
-    }
-
-    // Extract user ID from credential (in production, this would come from WebAuthn validation)
-    const userId = this.extractUserIdFromCredential(biometricDto.credentialId);
-    const user = this.findUser(userId);
+    const userId = await this.webAuthnService.verifyAuthentication(biometricDto);
 
+    const user = await this.findUser(userId);
     if (!user) {
-      this.logger.warn(`Biometric login failed: User not found - ${userId}`);
+      this.logger.warn(`Biometric login failed: User not found or inactive - ${userId}`);
       throw new UnauthorizedException('Invalid biometric credentials');
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
-
-    // Get user permissions
-    const permissions = this.getPermissionsForRole(user.role);
+    await this.recordLogin(user);
 
     this.logger.log(`User logged in via biometric: ${user.id} (${user.role})`);
 
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresIn: tokens.expiresIn,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      permissions,
-    };
+    return this.buildAuthResponse(user, await this.refreshTokenService.createSession(user.id, client));
+  }
+
+  /**
+   * WebAuthn request options for biometric login, optionally limited to one user's credentials
+   */
+  async getBiometricLoginOptions(identifier?: string): Promise<WebAuthnAuthenticationOptionsDto> {
+    // Unknown users get discoverable-credential options so accounts cannot be enumerated
+    const user = identifier ? await this.findUser(identifier) : null;
+    return this.webAuthnService.generateAuthenticationOptions(user?.id);
   }
 
   /**
    * Authenticate user with PIN code
    */
-  async pinLogin(pinDto: PinLoginDto): Promise<AuthResponseDto> {
-    this.logger.log(`PIN login attempt`);
+  async pinLogin(pinDto: PinLoginDto, client?: SessionClient): Promise<AuthResponseDto> {
+    this.logger.log(`PIN login attempt for user: ${pinDto.userId}`);
 
-    // For demo purposes, accept PIN '123456' for any user
-    // In production, this would validate against user's stored PIN hash
-    if (pinDto.pin !== '123456') {
-      this.logger.warn(`PIN login failed: Invalid PIN`);
+    const user = await this.findUser(pinDto.userId, true);
+    if (!user) {
+      this.logger.warn(`PIN login failed: User not found - ${pinDto.userId}`);
       throw new UnauthorizedException('Invalid PIN');
     }
 
-    // For demo, return the admin user
-    // In production, find user by PIN or associated user ID
-    const user = this.findUser('VT-ADMIN-001');
-    if (!user) {
-      this.logger.warn(`PIN login failed: User not found`);
-      throw new UnauthorizedException('Invalid credentials');
+    const isValidPin = await this.validateSecret(pinDto.pin, user.pinHash);
+    if (!isValidPin) {
+      this.logger.warn(`PIN login failed: Invalid PIN - ${pinDto.userId}`);
+      throw new UnauthorizedException('Invalid PIN');
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
-
-    // Get user permissions
-    const permissions = this.getPermissionsForRole(user.role);
+    await this.recordLogin(user);
 
     this.logger.log(`User logged in via PIN: ${user.id} (${user.role})`);
 
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresIn: tokens.expiresIn,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      permissions,
-    };
+    return this.buildAuthResponse(user, await this.refreshTokenService.createSession(user.id, client));
   }
 
   /**
-   * Refresh access token using refresh token
+   * Rotate the refresh token and issue a new access token
    */
   async refreshToken(refreshDto: RefreshTokenDto): Promise<AuthResponseDto> {
     this.logger.debug('Token refresh attempt');
 
     try {
-      // Verify refresh token
-      const payload = verify(
-        refreshDto.refreshToken,
-        this.configService.get<string>('JWT_REFRESH_SECRET') || 'vaxtrace-refresh-secret-key',
-      ) as RefreshTokenPayload;
-
-      // Check if token exists in our store
-      const storedToken = this.refreshTokens.get(payload.tokenId);
-      if (!storedToken || storedToken.expiresAt < new Date()) {
-        this.logger.warn('Token refresh failed: Invalid or expired refresh token');
-        throw new UnauthorizedException('Invalid refresh token');
-      }
+      // Rejects unknown, expired, revoked and already-rotated tokens
+      const session = await this.refreshTokenService.rotate(refreshDto.refreshToken);
 
-      // Find user
-      const user = this.findUser(payload.sub);
+      // Reload the user so role, scope and deactivation changes take effect
+      const user = await this.findUser(session.userId);
       if (!user) {
-        this.logger.warn('Token refresh failed: User not found');
+        this.logger.warn('Token refresh failed: User not found or inactive');
+        await this.refreshTokenService.revokeSession(session.userId, session.sessionId);
         throw new UnauthorizedException('Invalid refresh token');
       }
 
-      // Generate new tokens
-      const tokens = await this.generateTokens(user);
-
-      // Get user permissions
-      const permissions = this.getPermissionsForRole(user.role);
-
       this.logger.log(`Token refreshed for user: ${user.id}`);
 
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresIn: tokens.expiresIn,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-        permissions,
-      };
+      return this.buildAuthResponse(user, session);
     } catch (error) {
       this.logger.error('Token refresh failed:', error.message);
-      throw new UnauthorizedException('Invalid refresh token');
+      throw new UnauthorizedException(
+        error instanceof UnauthorizedException ? error.message : 'Invalid refresh token',
+      );
     }
   }
 
@@ -360,20 +218,24 @@ export class AuthService {
       const payload = this.jwtService.verify(token) as JwtPayload;
 
       // Find user
-      const user = this.findUser(payload.sub);
+      const user = await this.findUser(payload.sub);
       if (!user) {
         throw new UnauthorizedException('User not found');
       }
 
+      const { state, lga } = this.resolveLocationNames(user.assignedLocation);
+
       return {
         id: user.id,
         email: user.email,
-        name: user.name,
+        name: this.getDisplayName(user),
         role: user.role,
-        state: user.state,
-        lga: user.lga,
+        assignedLocationId: user.assignedLocationId,
+        state,
+        lga,
+        permissions: this.getPermissionsForRole(user.role, user.permissions),
         createdAt: user.createdAt,
-        lastLogin: user.lastLogin,
+        lastLogin: user.lastLoginAt,
       };
     } catch (error) {
       this.logger.error('Token validation failed:', error.message);
@@ -382,64 +244,93 @@ export class AuthService {
   }
 
   /**
-   * Logout user and invalidate tokens
+   * Logout user: end one session, or every session when none is given
    */
-  async logout(userId: string): Promise<void> {
+  async logout(userId: string, sessionId?: string): Promise<void> {
     this.logger.log(`Logout request for user: ${userId}`);
 
-    // Invalidate all refresh tokens for this user
-    for (const [tokenId, tokenData] of this.refreshTokens.entries()) {
-      if (tokenData.userId === userId) {
-        this.refreshTokens.delete(tokenId);
-      }
+    if (sessionId) {
+      // Already expired or revoked sessions need no further action
+      await this.refreshTokenService.revokeSession(userId, sessionId).catch(() => undefined);
+    } else {
+      await this.refreshTokenService.revokeAllSessions(userId);
     }
 
     this.logger.log(`User logged out: ${userId}`);
   }
 
+  /**
+   * List a user's active sessions
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionDto[]> {
+    return this.refreshTokenService.listSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.refreshTokenService.revokeSession(userId, sessionId);
+  }
+
+  /**
+   * Get permission flags for a role, applying per-user overrides
+   */
+  getPermissionsForRole(role: UserRole, overrides: Record<string, any> = {}): Record<string, boolean> {
+    const granted = resolvePermissions(role, overrides);
+    const permissions: Record<string, boolean> = {};
+
+    for (const [permission, flag] of Object.entries(PERMISSION_FLAGS)) {
+      permissions[flag] = granted.includes(permission as Permission);
+    }
+
+    return permissions;
+  }
+
   // ============================================
   // PRIVATE METHODS
   // ============================================
 
   /**
-   * Generate access and refresh tokens for a user
+   * Issue tokens and build the login response for a user
    */
-  private async generateTokens(user: User): Promise<TokenPair> {
-    const accessTokenExpiry = this.configService.get<string>('JWT_EXPIRES_IN') || '1h';
-    const refreshTokenExpiry = this.configService.get<string>('JWT_REFRESH_EXPIRES_IN') || '7d';
+  private buildAuthResponse(user: User, session: IssuedRefreshToken): AuthResponseDto {
+    const tokens = this.generateTokens(user, session);
 
-    // Generate access token
-    const accessToken = this.jwtService.sign(
-      {
-        sub: user.id,
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+      user: {
+        id: user.id,
         email: user.email,
+        name: this.getDisplayName(user),
         role: user.role,
+        assignedLocationId: user.assignedLocationId,
       },
-      {
-        expiresIn: accessTokenExpiry,
-      },
-    );
-
-    // Generate refresh token
-    const tokenId = this.generateTokenId();
-    const refreshToken = sign(
-      {
-        sub: user.id,
-        tokenId,
-        type: 'refresh',
-      },
-      this.configService.get<string>('JWT_REFRESH_SECRET') || 'vaxtrace-refresh-secret-key',
-      {
-        expiresIn: refreshTokenExpiry,
-      },
-    );
-
-    // Store refresh token
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
-    this.refreshTokens.set(tokenId, {
-      userId: user.id,
-      expiresAt,
+      permissions: this.getPermissionsForRole(user.role, user.permissions),
+    };
+  }
+
+  /**
+   * Generate the access token to go with a session's refresh token
+   */
+  private generateTokens(user: User, session: IssuedRefreshToken): TokenPair {
+    const accessTokenExpiry = this.configService.get<string>('JWT_EXPIRES_IN') || '1h';
+
+    // Generate access token (claims match ExtendedRequest.user in JwtMiddleware)
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      name: this.getDisplayName(user),
+      role: user.role,
+      assignedLocationId: user.assignedLocationId,
+      permissions: resolvePermissions(user.role, user.permissions),
+      sid: session.sessionId,
+    };
+
+    const accessToken = this.jwtService.sign(payload, {
+      expiresIn: accessTokenExpiry,
     });
 
     // Calculate expiry in seconds
@@ -447,86 +338,80 @@ export class AuthService {
 
     return {
       accessToken,
-      refreshToken,
+      refreshToken: session.refreshToken,
       expiresIn,
     };
   }
 
   /**
-   * Find user by ID or email
+   * Find an active user by ID, staff ID or email
    */
-  private findUser(identifier: string): User | undefined {
-    return MOCK_USERS.find(
-      (user) => user.id === identifier || user.email === identifier,
-    );
+  private async findUser(identifier: string, withCredentials = false): Promise<User | null> {
+    if (!identifier) {
+      return null;
+    }
+
+    const query = this.userRepository
+      .createQueryBuilder('user')
+      .leftJoinAndSelect('user.assignedLocation', 'location')
+      .leftJoinAndSelect('location.parent', 'parentLocation')
+      .leftJoinAndSelect('parentLocation.parent', 'grandparentLocation')
+      .where('user.isActive = true');
+
+    if (isUUID(identifier)) {
+      query.andWhere('user.id = :identifier', { identifier });
+    } else {
+      query.andWhere('(LOWER(user.email) = LOWER(:identifier) OR user.staffId = :identifier)', { identifier });
+    }
+
+    if (withCredentials) {
+      query.addSelect(['user.passwordHash', 'user.pinHash']);
+    }
+
+    return await query.getOne();
   }
 
   /**
-   * Validate user password
+   * Compare a password or PIN against its stored bcrypt hash
    */
-  private async validatePassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
-    // For development, accept any 4+ digit PIN or "password"
-    if (process.env.NODE_ENV === 'development') {
-      return plainPassword.length >= 4;
+  private async validateSecret(plainSecret: string, hash?: string): Promise<boolean> {
+    if (!hash) {
+      return false;
     }
 
-    // In production, use bcrypt
-    return bcrypt.compare(plainPassword, hashedPassword);
+    return bcrypt.compare(plainSecret, hash);
   }
 
   /**
-   * Get permissions for a given role
+   * Record a successful login
    */
-  private getPermissionsForRole(role: string): Record<string, boolean> {
-    const permissions = {
-      canViewNational: false,
-      canViewState: false,
-      canViewLGA: false,
-      canViewFacility: true,
-      canEditStock: false,
-      canEditUsers: false,
-      canViewReports: true,
-    };
-
-    switch (role) {
-      case 'NATIONAL_ADMIN':
-        permissions.canViewNational = true;
-        permissions.canViewState = true;
-        permissions.canViewLGA = true;
-        permissions.canEditStock = true;
-        permissions.canEditUsers = true;
-        break;
-      case 'STATE_MANAGER':
-        permissions.canViewState = true;
-        permissions.canViewLGA = true;
-        permissions.canEditStock = true;
-        break;
-      case 'LGA_SUPERVISOR':
-        permissions.canViewLGA = true;
-        permissions.canEditStock = true;
-        break;
-      case 'FACILITY_IN_CHARGE':
-        permissions.canEditStock = true;
-        break;
-    }
-
-    return permissions;
+  private async recordLogin(user: User): Promise<void> {
+    user.lastLoginAt = new Date();
+    await this.userRepository.update(user.id, { lastLoginAt: user.lastLoginAt });
   }
 
   /**
-   * Extract user ID from biometric credential
+   * Name shown in the dashboard (the legal name is stored encrypted)
    */
-  private extractUserIdFromCredential(credentialId: string): string {
-    // In production, this would extract user ID from WebAuthn credential
-    // For now, return a default admin user
-    return 'VT-ADMIN-001';
+  private getDisplayName(user: User): string {
+    return user.displayName || user.email;
   }
 
   /**
-   * Generate unique token ID
+   * Walk up the assigned location to find the state and LGA names
    */
-  private generateTokenId(): string {
-    return `token-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private resolveLocationNames(location?: Location): { state?: string; lga?: string } {
+    const names: { state?: string; lga?: string } = {};
+
+    for (let node = location; node; node = node.parent) {
+      if (node.type === LocationType.STATE) {
+        names.state = node.name;
+      } else if (node.type === LocationType.LGA) {
+        names.lga = node.name;
+      }
+    }
+
+    return names;
   }
 
   /**
@@ -549,28 +434,4 @@ export class AuthService {
         return 3600; // Default to 1 hour
     }
   }
-
-  // ============================================
-  // SCHEDULED TASKS
-  // ============================================
-
-  /**
-   * Clean up expired refresh tokens every hour
-   */
-  @Cron(CronExpression.EVERY_HOUR)
-  private cleanupExpiredTokens(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [tokenId, tokenData] of this.refreshTokens.entries()) {
-      if (tokenData.expiresAt < now) {
-        this.refreshTokens.delete(tokenId);
-        cleanedCount++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      this.logger.debug(`Cleaned up ${cleanedCount} expired refresh tokens`);
-    }
-  }
 }
@@ -9,9 +9,10 @@
  * @version 1.0.0
  */
 
-import { IsString, IsNotEmpty, IsEmail, IsOptional, MinLength, MaxLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsEmail, IsOptional, IsArray, MinLength, MaxLength, Matches } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { SanitizedString, SanitizeEmail, Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { UserRole } from '../../../entities/user.entity';
 
 // ============================================
 // REQUEST DTOS
@@ -19,7 +20,7 @@ import { SanitizedString, SanitizeEmail, Sanitize } from '../../../common/decora
 
 export class LoginDto {
   @ApiProperty({
-    description: 'User ID (staff ID, email, or username)',
+    description: 'User ID (UUID, staff ID, or email)',
     example: 'VT-ADMIN-001',
   })
   @IsString()
@@ -58,29 +59,122 @@ export class RefreshTokenDto {
   refreshToken: string;
 }
 
+/**
+ * Binary WebAuthn fields are sent base64url encoded
+ */
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
 export class BiometricLoginDto {
   @ApiProperty({
-    description: 'Biometric credential ID',
-    example: 'credential-abc-123',
+    description: 'WebAuthn credential ID (base64url)',
+    example: 'hK3n8vT2Qm6yW1xZ0aBcDeFgHiJkLmNoPqRsTuVwXyZ',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  @Matches(BASE64URL)
+  credentialId: string;
+
+  @ApiProperty({
+    description: 'AuthenticatorAssertionResponse.clientDataJSON (base64url)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  @Matches(BASE64URL)
+  clientDataJSON: string;
+
+  @ApiProperty({
+    description: 'AuthenticatorAssertionResponse.authenticatorData (base64url)',
   })
   @IsString()
   @IsNotEmpty()
-  @MaxLength(200)
+  @MaxLength(4096)
+  @Matches(BASE64URL)
+  authenticatorData: string;
+
+  @ApiProperty({
+    description: 'AuthenticatorAssertionResponse.signature (base64url)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  @Matches(BASE64URL)
+  signature: string;
+}
+
+export class WebAuthnLoginOptionsDto {
+  @ApiPropertyOptional({
+    description: 'User ID (UUID, staff ID, or email) to restrict the allowed credentials to',
+    example: 'VT-FAC-001',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
   @Sanitize()
+  userId?: string;
+}
+
+export class WebAuthnRegistrationDto {
+  @ApiProperty({
+    description: 'WebAuthn credential ID (base64url)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  @Matches(BASE64URL)
   credentialId: string;
 
   @ApiProperty({
-    description: 'Biometric authentication response',
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'AuthenticatorAttestationResponse.clientDataJSON (base64url)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  @Matches(BASE64URL)
+  clientDataJSON: string;
+
+  @ApiProperty({
+    description: 'AuthenticatorAttestationResponse.attestationObject (base64url)',
   })
   @IsString()
   @IsNotEmpty()
-  @MaxLength(2000)
+  @MaxLength(16384)
+  @Matches(BASE64URL)
+  attestationObject: string;
+
+  @ApiPropertyOptional({
+    description: 'AuthenticatorAttestationResponse.getTransports()',
+    example: ['internal'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(20, { each: true })
+  transports?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Name to recognise the device by',
+    example: 'PHC Nassarawa shared phone',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
   @Sanitize()
-  authData: string;
+  deviceName?: string;
 }
 
 export class PinLoginDto {
+  @ApiProperty({
+    description: 'User ID (UUID, staff ID, or email) the PIN belongs to',
+    example: 'VT-FAC-001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Sanitize()
+  userId: string;
+
   @ApiProperty({
     description: '6-digit PIN code',
     example: '123456',
@@ -120,17 +214,19 @@ export class AuthResponseDto {
     description: 'User information',
     type: 'object',
     example: {
-      id: 'VT-ADMIN-001',
+      id: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
       email: 'admin@vaxtrace.gov.ng',
       name: 'System Administrator',
-      role: 'NATIONAL_ADMIN',
+      role: 'nphcda_director',
+      assignedLocationId: null,
     },
   })
   user: {
     id: string;
     email: string;
     name: string;
-    role: string;
+    role: UserRole;
+    assignedLocationId?: string;
   };
 
   @ApiProperty({
@@ -144,6 +240,7 @@ export class AuthResponseDto {
       canEditStock: true,
       canEditUsers: true,
       canViewReports: true,
+      canManageAlerts: true,
     },
   })
   permissions: Record<string, boolean>;
@@ -152,7 +249,7 @@ export class AuthResponseDto {
 export class UserDto {
   @ApiProperty({
     description: 'User ID',
-    example: 'VT-ADMIN-001',
+    example: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
   })
   id: string;
 
@@ -170,10 +267,16 @@ export class UserDto {
 
   @ApiProperty({
     description: 'User role',
-    example: 'NATIONAL_ADMIN',
-    enum: ['NATIONAL_ADMIN', 'STATE_MANAGER', 'LGA_SUPERVISOR', 'FACILITY_IN_CHARGE'],
+    example: UserRole.STATE_COLD_CHAIN_OFFICER,
+    enum: UserRole,
   })
-  role: string;
+  role: UserRole;
+
+  @ApiProperty({
+    description: 'Assigned location (state, LGA or facility) that scopes data access',
+    required: false,
+  })
+  assignedLocationId?: string;
 
   @ApiProperty({
     description: 'User state assignment',
@@ -189,6 +292,22 @@ export class UserDto {
   })
   lga?: string;
 
+  @ApiProperty({
+    description: 'User permissions',
+    type: 'object',
+    example: {
+      canViewNational: false,
+      canViewState: true,
+      canViewLGA: true,
+      canViewFacility: true,
+      canEditStock: false,
+      canEditUsers: false,
+      canViewReports: true,
+      canManageAlerts: true,
+    },
+  })
+  permissions: Record<string, boolean>;
+
   @ApiProperty({
     description: 'Account creation date',
     example: '2024-01-01T00:00:00.000Z',
@@ -202,3 +321,99 @@ export class UserDto {
   })
   lastLogin?: Date;
 }
+
+interface PublicKeyCredentialDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export class WebAuthnRegistrationOptionsDto {
+  @ApiProperty({ description: 'Single-use challenge (base64url)' })
+  challenge: string;
+
+  @ApiProperty({ description: 'Relying party', example: { id: 'vaxtrace.gov.ng', name: 'VaxTrace Nigeria' } })
+  rp: { id: string; name: string };
+
+  @ApiProperty({ description: 'User handle (base64url), name and display name' })
+  user: { id: string; name: string; displayName: string };
+
+  @ApiProperty({ description: 'Accepted COSE algorithms' })
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+
+  @ApiProperty({ description: 'Ceremony timeout in milliseconds', example: 300000 })
+  timeout: number;
+
+  @ApiProperty({ description: 'Attestation conveyance preference', example: 'none' })
+  attestation: string;
+
+  @ApiProperty({ description: 'Authenticator requirements' })
+  authenticatorSelection: {
+    authenticatorAttachment: string;
+    residentKey: string;
+    userVerification: string;
+  };
+
+  @ApiProperty({ description: 'Credentials already registered by the user' })
+  excludeCredentials: PublicKeyCredentialDescriptor[];
+}
+
+export class WebAuthnAuthenticationOptionsDto {
+  @ApiProperty({ description: 'Single-use challenge (base64url)' })
+  challenge: string;
+
+  @ApiProperty({ description: 'Relying party ID', example: 'vaxtrace.gov.ng' })
+  rpId: string;
+
+  @ApiProperty({ description: 'Ceremony timeout in milliseconds', example: 300000 })
+  timeout: number;
+
+  @ApiProperty({ description: 'User verification requirement', example: 'required' })
+  userVerification: string;
+
+  @ApiProperty({ description: 'Credentials the user may sign with (empty for discoverable credentials)' })
+  allowCredentials: PublicKeyCredentialDescriptor[];
+}
+
+export class WebAuthnCredentialDto {
+  @ApiProperty({ description: 'Credential record ID' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Device name', example: 'PHC Nassarawa shared phone' })
+  deviceName?: string;
+
+  @ApiPropertyOptional({ description: 'Authenticator model (AAGUID)' })
+  aaguid?: string;
+
+  @ApiProperty({ description: 'Transports reported by the authenticator', example: ['internal'] })
+  transports: string[];
+
+  @ApiProperty({ description: 'Registration timestamp' })
+  createdAt: string;
+
+  @ApiPropertyOptional({ description: 'Last successful login with this credential' })
+  lastUsedAt?: string;
+}
+
+export class SessionDto {
+  @ApiProperty({ description: 'Session (refresh token family) ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Login timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last token refresh' })
+  lastUsedAt: string;
+
+  @ApiProperty({ description: 'When the session expires unless refreshed' })
+  expiresAt: string;
+
+  @ApiPropertyOptional({ description: 'Browser or app that started the session' })
+  userAgent?: string;
+
+  @ApiPropertyOptional({ description: 'IP address that started the session' })
+  ipAddress?: string;
+
+  @ApiProperty({ description: 'Whether this is the session making the request' })
+  current: boolean;
+}
@@ -0,0 +1,151 @@
+/**
+ * VaxTrace Nigeria - Refresh Token Service Unit Tests
+ *
+ * Tests for refresh token families:
+ * - Rotation on every refresh
+ * - Reuse detection revoking the whole family, also for concurrent refreshes
+ * - Listing and revoking sessions per user
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { sign } from 'jsonwebtoken';
+
+import { CacheService } from '../cache/cache.service';
+import { RefreshTokenService } from './refresh-token.service';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let cache: Map<string, any>;
+  let mockCacheService: { get: jest.Mock; set: jest.Mock; setConditional: jest.Mock; del: jest.Mock };
+
+  const userId = '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11';
+  const otherUserId = '1679091c-5a88-4faf-afb5-e6087eb1b2dc';
+
+  beforeEach(async () => {
+    cache = new Map();
+
+    mockCacheService = {
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => void cache.set(key, JSON.parse(JSON.stringify(value)))),
+      setConditional: jest.fn(async (key: string, value: any, condition: 'NX' | 'XX') => {
+        if (cache.has(key) !== (condition === 'XX')) {
+          return false;
+        }
+        cache.set(key, JSON.parse(JSON.stringify(value)));
+        return true;
+      }),
+      del: jest.fn(async (key: string) => void cache.delete(key)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+        { provide: CacheService, useValue: mockCacheService },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  describe('Rotation', () => {
+    it('should persist the session in Redis with the token lifetime', async () => {
+      const { sessionId } = await service.createSession(userId, { userAgent: 'Mozilla/5.0', ipAddress: '10.0.0.5' });
+
+      const [key, session, { ttl }] = mockCacheService.set.mock.calls[0];
+
+      expect(key).toBe(`vax:auth:session:${sessionId}`);
+      expect(session).toEqual(expect.objectContaining({ userId, userAgent: 'Mozilla/5.0', ipAddress: '10.0.0.5' }));
+      expect(ttl).toBeGreaterThan(7 * 86400 - 5);
+      expect(ttl).toBeLessThanOrEqual(7 * 86400);
+    });
+
+    it('should issue a new token in the same family on every refresh', async () => {
+      const issued = await service.createSession(userId);
+
+      const rotated = await service.rotate(issued.refreshToken);
+
+      expect(rotated.sessionId).toBe(issued.sessionId);
+      expect(rotated.userId).toBe(userId);
+      expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+      await expect(service.rotate(rotated.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const issued = await service.createSession(userId);
+      const rotated = await service.rotate(issued.refreshToken);
+
+      await expect(service.rotate(issued.refreshToken)).rejects.toThrow('Refresh token has already been used');
+      await expect(service.rotate(rotated.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.listSessions(userId)).resolves.toEqual([]);
+    });
+
+    it('should let only one of two concurrent refreshes with the same token through', async () => {
+      const issued = await service.createSession(userId);
+
+      const results = await Promise.allSettled([service.rotate(issued.refreshToken), service.rotate(issued.refreshToken)]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(mockCacheService.setConditional).toHaveBeenCalledWith(
+        expect.stringMatching(/^vax:auth:consumed:/),
+        issued.sessionId,
+        'NX',
+        expect.objectContaining({ ttl: expect.any(Number) }),
+      );
+      await expect(service.listSessions(userId)).resolves.toEqual([]);
+    });
+
+    it('should reject tokens signed with another secret or without a family', async () => {
+      const forged = sign({ sub: userId, tokenId: 't', familyId: 'f', type: 'refresh' }, 'wrong-secret');
+      const legacy = sign({ sub: userId, tokenId: 't', type: 'refresh' }, 'vaxtrace-refresh-secret-key');
+
+      await expect(service.rotate(forged)).rejects.toThrow(UnauthorizedException);
+      await expect(service.rotate(legacy)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('Session Management', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const tablet = await service.createSession(userId, { userAgent: 'Tablet' });
+      await service.createSession(userId, { userAgent: 'Phone' });
+      await service.createSession(otherUserId);
+
+      const sessions = await service.listSessions(userId, tablet.sessionId);
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.find((session) => session.current)).toEqual(
+        expect.objectContaining({ id: tablet.sessionId, userAgent: 'Tablet' }),
+      );
+    });
+
+    it('should revoke a single session', async () => {
+      const tablet = await service.createSession(userId);
+      const phone = await service.createSession(userId);
+
+      await service.revokeSession(userId, tablet.sessionId);
+
+      await expect(service.rotate(tablet.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.rotate(phone.refreshToken)).resolves.toBeDefined();
+    });
+
+    it("should not revoke another user's session", async () => {
+      const other = await service.createSession(otherUserId);
+
+      await expect(service.revokeSession(userId, other.sessionId)).rejects.toThrow(NotFoundException);
+      await expect(service.rotate(other.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('should revoke every session of a user', async () => {
+      const tablet = await service.createSession(userId);
+      const phone = await service.createSession(userId);
+
+      await service.revokeAllSessions(userId);
+
+      await expect(service.rotate(tablet.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.rotate(phone.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.listSessions(userId)).resolves.toEqual([]);
+    });
+  });
+});
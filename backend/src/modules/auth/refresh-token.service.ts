@@ -0,0 +1,318 @@
+/**
+ * VaxTrace Nigeria - Refresh Token Service
+ *
+ * Persists refresh tokens as token families (one per login session) in
+ * Redis so sessions survive restarts and are shared across instances:
+ * - Every login starts a new family
+ * - Every refresh rotates the token; only the family's latest token is valid
+ * - Presenting an already-rotated token means it leaked, so the whole
+ *   family is revoked and the user has to log in again
+ * - Each token is claimed atomically (SET NX) before it is rotated, so two
+ *   concurrent refreshes with the same token cannot both succeed
+ * - Sessions can be listed and revoked per user
+ *
+ * Key Patterns:
+ * - vax:auth:session:{familyId} - Session (family) record
+ * - vax:auth:user:{userId}:sessions - Family IDs issued to a user
+ * - vax:auth:consumed:{tokenId} - Marker of a token already exchanged
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { decode, sign, verify } from 'jsonwebtoken';
+
+import { CacheService } from '../cache/cache.service';
+import { SessionDto } from './dto/auth.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SESSION_PREFIX = 'vax:auth:session:';
+const USER_SESSIONS_PREFIX = 'vax:auth:user:';
+const CONSUMED_TOKEN_PREFIX = 'vax:auth:consumed:';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+interface RefreshTokenPayload {
+  sub: string;
+  tokenId: string;
+  familyId: string;
+  type: 'refresh';
+  exp?: number;
+}
+
+interface SessionRecord {
+  id: string;
+  userId: string;
+  tokenId: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Device details recorded when a session starts
+ */
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  userId: string;
+  sessionId: string;
+  refreshToken: string;
+}
+
+// ============================================
+// REFRESH TOKEN SERVICE
+// ============================================
+
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  // ============================================
+  // TOKEN LIFECYCLE
+  // ============================================
+
+  /**
+   * Start a new session (token family) for a user
+   */
+  async createSession(userId: string, client: SessionClient = {}): Promise<IssuedRefreshToken> {
+    const now = new Date().toISOString();
+    const session: SessionRecord = {
+      id: randomUUID(),
+      userId,
+      tokenId: randomUUID(),
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: now,
+      userAgent: client.userAgent?.substring(0, 255),
+      ipAddress: client.ipAddress,
+    };
+
+    const refreshToken = await this.saveSession(session);
+    await this.addUserSession(session);
+
+    this.logger.debug(`Session started for user ${userId}: ${session.id}`);
+
+    return { userId, sessionId: session.id, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family
+   */
+  async rotate(refreshToken: string): Promise<IssuedRefreshToken> {
+    let payload: RefreshTokenPayload;
+
+    try {
+      payload = verify(refreshToken, this.getSecret()) as RefreshTokenPayload;
+    } catch (error) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (payload.type !== 'refresh' || !payload.familyId) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.cacheService.get<SessionRecord>(this.sessionKey(payload.familyId));
+    if (!session || session.userId !== payload.sub) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const claimed =
+      session.tokenId === payload.tokenId &&
+      (await this.cacheService.setConditional(this.consumedTokenKey(payload.tokenId), session.id, 'NX', {
+        ttl: this.ttlUntil(new Date(session.expiresAt).getTime() / 1000),
+      }));
+
+    if (!claimed) {
+      // An older token of this family was replayed - treat the family as compromised
+      this.logger.warn(`Refresh token reuse detected for user ${session.userId}, revoking session ${session.id}`);
+      await this.removeSession(session.userId, session.id);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    session.tokenId = randomUUID();
+    session.lastUsedAt = new Date().toISOString();
+
+    const rotatedToken = await this.saveSession(session, true);
+
+    // Keep the user's index alive as long as the extended session
+    await this.writeUserSessions(session.userId, await this.getUserSessions(session.userId));
+
+    return { userId: session.userId, sessionId: session.id, refreshToken: rotatedToken };
+  }
+
+  // ============================================
+  // SESSION MANAGEMENT
+  // ============================================
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionDto[]> {
+    const sessions = await this.getUserSessions(userId);
+
+    return sessions
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map((session) => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        current: session.id === currentSessionId,
+      }));
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.cacheService.get<SessionRecord>(this.sessionKey(sessionId));
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+
+    await this.removeSession(userId, sessionId);
+    this.logger.log(`Session revoked for user ${userId}: ${sessionId}`);
+  }
+
+  /**
+   * Revoke every session of a user
+   */
+  async revokeAllSessions(userId: string): Promise<void> {
+    const sessionIds = (await this.cacheService.get<string[]>(this.userSessionsKey(userId))) || [];
+
+    for (const sessionId of sessionIds) {
+      await this.cacheService.del(this.sessionKey(sessionId));
+    }
+    await this.cacheService.del(this.userSessionsKey(userId));
+
+    this.logger.log(`Revoked ${sessionIds.length} sessions for user ${userId}`);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Sign a refresh token for the session's current token ID and persist the session.
+   * A replaced session is only written if it still exists, so a family revoked
+   * during the rotation is not brought back.
+   */
+  private async saveSession(session: SessionRecord, replace = false): Promise<string> {
+    const refreshToken = sign(
+      {
+        sub: session.userId,
+        tokenId: session.tokenId,
+        familyId: session.id,
+        type: 'refresh',
+      },
+      this.getSecret(),
+      {
+        expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN') || '7d',
+      },
+    );
+
+    // The session lives exactly as long as its latest token
+    const { exp } = decode(refreshToken) as RefreshTokenPayload;
+    session.expiresAt = new Date(exp * 1000).toISOString();
+
+    const options = { ttl: this.ttlUntil(exp) };
+
+    if (!replace) {
+      await this.cacheService.set(this.sessionKey(session.id), session, options);
+    } else if (!(await this.cacheService.setConditional(this.sessionKey(session.id), session, 'XX', options))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return refreshToken;
+  }
+
+  /**
+   * Load the user's sessions, pruning IDs whose session has expired or been revoked
+   */
+  private async getUserSessions(userId: string): Promise<SessionRecord[]> {
+    const sessionIds = (await this.cacheService.get<string[]>(this.userSessionsKey(userId))) || [];
+    const sessions: SessionRecord[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await this.cacheService.get<SessionRecord>(this.sessionKey(sessionId));
+      if (session) {
+        sessions.push(session);
+      }
+    }
+
+    if (sessions.length !== sessionIds.length) {
+      await this.writeUserSessions(userId, sessions);
+    }
+
+    return sessions;
+  }
+
+  private async addUserSession(session: SessionRecord): Promise<void> {
+    const sessions = await this.getUserSessions(session.userId);
+    await this.writeUserSessions(session.userId, [...sessions, session]);
+  }
+
+  private async removeSession(userId: string, sessionId: string): Promise<void> {
+    await this.cacheService.del(this.sessionKey(sessionId));
+    await this.getUserSessions(userId);
+  }
+
+  /**
+   * The index outlives the longest-lived session it points to
+   */
+  private async writeUserSessions(userId: string, sessions: SessionRecord[]): Promise<void> {
+    if (sessions.length === 0) {
+      await this.cacheService.del(this.userSessionsKey(userId));
+      return;
+    }
+
+    const latestExpiry = Math.max(...sessions.map((session) => new Date(session.expiresAt).getTime() / 1000));
+
+    await this.cacheService.set(
+      this.userSessionsKey(userId),
+      sessions.map((session) => session.id),
+      { ttl: this.ttlUntil(latestExpiry) },
+    );
+  }
+
+  private ttlUntil(exp: number): number {
+    return Math.max(Math.ceil(exp - Date.now() / 1000), 1);
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${SESSION_PREFIX}${sessionId}`;
+  }
+
+  private consumedTokenKey(tokenId: string): string {
+    return `${CONSUMED_TOKEN_PREFIX}${tokenId}`;
+  }
+
+  private userSessionsKey(userId: string): string {
+    return `${USER_SESSIONS_PREFIX}${userId}:sessions`;
+  }
+
+  private getSecret(): string {
+    return this.configService.get<string>('JWT_REFRESH_SECRET') || 'vaxtrace-refresh-secret-key';
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * VaxTrace Nigeria - WebAuthn Service Unit Tests
+ *
+ * Runs registration and login ceremonies against a software authenticator:
+ * - Attestation ("none" and packed self attestation) and credential storage
+ * - Assertion signature, challenge and origin checks
+ * - Signature counter (cloned authenticator) detection
+ * - Credential listing and revocation
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { createHash, generateKeyPairSync, randomBytes, sign, KeyObject } from 'crypto';
+
+import { WebAuthnCredential } from '../../entities/webauthn-credential.entity';
+import { CacheService } from '../cache/cache.service';
+import { WebAuthnService } from './webauthn.service';
+
+// ============================================
+// SOFTWARE AUTHENTICATOR
+// ============================================
+
+/**
+ * Minimal CBOR encoder for the structures an authenticator emits
+ */
+function encodeCbor(value: any): Buffer {
+  const head = (majorType: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(majorType << 5) | length]);
+    if (length < 0x100) return Buffer.from([(majorType << 5) | 24, length]);
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (majorType << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (typeof value === 'string') return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  if (Array.isArray(value)) return Buffer.concat([head(4, value.length), ...value.map(encodeCbor)]);
+
+  const entries: [any, any][] = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+  return Buffer.concat([head(5, entries.length), ...entries.flatMap(([k, v]) => [encodeCbor(k), encodeCbor(v)])]);
+}
+
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly keys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  signCount = 0;
+
+  constructor(private readonly rpId = 'localhost', private readonly origin = 'http://localhost:3000') {}
+
+  get privateKey(): KeyObject {
+    return this.keys.privateKey;
+  }
+
+  register(challenge: string, format: 'none' | 'packed' = 'none') {
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    const coseKey = encodeCbor(
+      new Map<number, any>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x, 'base64url')],
+        [-3, Buffer.from(jwk.y, 'base64url')],
+      ]),
+    );
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authenticatorData(0x45), // UP | UV | AT
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      coseKey,
+    ]);
+    const clientDataJSON = this.clientData('webauthn.create', challenge);
+
+    const attStmt =
+      format === 'packed'
+        ? { alg: -7, sig: sign('sha256', Buffer.concat([authData, sha256(clientDataJSON)]), this.privateKey) }
+        : {};
+
+    return {
+      credentialId: this.credentialId.toString('base64url'),
+      clientDataJSON: clientDataJSON.toString('base64url'),
+      attestationObject: encodeCbor({ fmt: format, attStmt, authData }).toString('base64url'),
+      transports: ['internal'],
+    };
+  }
+
+  assert(challenge: string, options: { origin?: string; flags?: number } = {}) {
+    this.signCount++;
+    const authenticatorData = this.authenticatorData(options.flags ?? 0x05);
+    const clientDataJSON = this.clientData('webauthn.get', challenge, options.origin);
+
+    return {
+      credentialId: this.credentialId.toString('base64url'),
+      clientDataJSON: clientDataJSON.toString('base64url'),
+      authenticatorData: authenticatorData.toString('base64url'),
+      signature: sign('sha256', Buffer.concat([authenticatorData, sha256(clientDataJSON)]), this.privateKey).toString(
+        'base64url',
+      ),
+    };
+  }
+
+  private authenticatorData(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+    return Buffer.concat([sha256(Buffer.from(this.rpId)), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string, origin = this.origin): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+  }
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest();
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let cache: Map<string, any>;
+  let credentials: WebAuthnCredential[];
+  let authenticator: SoftwareAuthenticator;
+
+  const userId = '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11';
+  const user = { id: userId, email: 'phc.nassarawa@vaxtrace.gov.ng', displayName: 'PHC Nassarawa' };
+
+  const matches = (credential: WebAuthnCredential, where: Record<string, any>) =>
+    Object.entries(where).every(([key, value]) =>
+      value && typeof value === 'object' && '_type' in value ? !credential[key] : credential[key] === value,
+    );
+
+  const registerDevice = async () => {
+    const options = await service.generateRegistrationOptions(user);
+    return service.verifyRegistration(userId, authenticator.register(options.challenge));
+  };
+
+  beforeEach(async () => {
+    cache = new Map();
+    credentials = [];
+    authenticator = new SoftwareAuthenticator();
+
+    const mockCacheService = {
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => void cache.set(key, value)),
+      del: jest.fn(async (key: string) => void cache.delete(key)),
+    };
+
+    const mockCredentialRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (data) => {
+        const credential = { id: `cred-${credentials.length + 1}`, createdAt: new Date(), ...data };
+        credentials.push(credential);
+        return credential;
+      }),
+      findOne: jest.fn(async ({ where }) => credentials.find((c) => matches(c, where)) || null),
+      find: jest.fn(async ({ where }) => credentials.filter((c) => matches(c, where))),
+      update: jest.fn(async (id, changes) => Object.assign(credentials.find((c) => c.id === id), changes)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: getRepositoryToken(WebAuthnCredential), useValue: mockCredentialRepository },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+  });
+
+  describe('Registration', () => {
+    it('should issue options requiring user verification on a platform authenticator', async () => {
+      const options = await service.generateRegistrationOptions(user);
+
+      expect(options.rp.id).toBe('localhost');
+      expect(options.pubKeyCredParams.map((param) => param.alg)).toEqual(expect.arrayContaining([-7, -257]));
+      expect(options.authenticatorSelection.userVerification).toBe('required');
+      expect(Buffer.from(options.user.id, 'base64url').toString()).toBe(userId);
+    });
+
+    it('should verify the attestation and store the credential public key', async () => {
+      const credential = await registerDevice();
+
+      expect(credential.transports).toEqual(['internal']);
+      expect(credentials).toHaveLength(1);
+      expect(credentials[0]).toMatchObject({
+        userId,
+        credentialId: authenticator.credentialId.toString('base64url'),
+        signCount: 0,
+      });
+    });
+
+    it('should verify packed self attestation', async () => {
+      const options = await service.generateRegistrationOptions(user);
+
+      await expect(
+        service.verifyRegistration(userId, authenticator.register(options.challenge, 'packed')),
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject a challenge that was not issued', async () => {
+      await expect(
+        service.verifyRegistration(userId, authenticator.register(randomBytes(32).toString('base64url'))),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should exclude already registered credentials', async () => {
+      await registerDevice();
+
+      const options = await service.generateRegistrationOptions(user);
+
+      expect(options.excludeCredentials.map((credential) => credential.id)).toEqual([
+        authenticator.credentialId.toString('base64url'),
+      ]);
+    });
+  });
+
+  describe('Authentication', () => {
+    beforeEach(async () => {
+      await registerDevice();
+    });
+
+    it('should verify a signed assertion and advance the counter', async () => {
+      const options = await service.generateAuthenticationOptions(userId);
+
+      await expect(service.verifyAuthentication(authenticator.assert(options.challenge))).resolves.toBe(userId);
+      expect(credentials[0].signCount).toBe(1);
+      expect(credentials[0].lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should only accept each challenge once', async () => {
+      const { challenge } = await service.generateAuthenticationOptions(userId);
+
+      await service.verifyAuthentication(authenticator.assert(challenge));
+
+      await expect(service.verifyAuthentication(authenticator.assert(challenge))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an assertion from another origin', async () => {
+      const { challenge } = await service.generateAuthenticationOptions(userId);
+
+      await expect(
+        service.verifyAuthentication(authenticator.assert(challenge, { origin: 'https://evil.example' })),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should require user verification', async () => {
+      const { challenge } = await service.generateAuthenticationOptions(userId);
+
+      await expect(service.verifyAuthentication(authenticator.assert(challenge, { flags: 0x01 }))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a signature from a different key', async () => {
+      const { challenge } = await service.generateAuthenticationOptions(userId);
+      const assertion = authenticator.assert(challenge);
+      const impostor = new SoftwareAuthenticator();
+
+      assertion.signature = sign('sha256', Buffer.from('forged'), impostor.privateKey).toString('base64url');
+
+      await expect(service.verifyAuthentication(assertion)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a counter that did not increase (cloned authenticator)', async () => {
+      const first = await service.generateAuthenticationOptions(userId);
+      await service.verifyAuthentication(authenticator.assert(first.challenge));
+
+      authenticator.signCount = 0;
+      const second = await service.generateAuthenticationOptions(userId);
+
+      await expect(service.verifyAuthentication(authenticator.assert(second.challenge))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject revoked credentials', async () => {
+      await service.revokeCredential(userId, credentials[0].id);
+      const { challenge } = await service.generateAuthenticationOptions(userId);
+
+      await expect(service.verifyAuthentication(authenticator.assert(challenge))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('Credential Management', () => {
+    it('should list and revoke a user credential', async () => {
+      await registerDevice();
+
+      const [credential] = await service.listCredentials(userId);
+      await service.revokeCredential(userId, credential.id);
+
+      await expect(service.listCredentials(userId)).resolves.toEqual([]);
+      await expect(service.revokeCredential(userId, credential.id)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject malformed attestation objects', async () => {
+      const options = await service.generateRegistrationOptions(user);
+      const registration = authenticator.register(options.challenge);
+
+      registration.attestationObject = Buffer.from([0xff]).toString('base64url');
+
+      await expect(service.verifyRegistration(userId, registration)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * VaxTrace Nigeria - WebAuthn Service
+ *
+ * FIDO2 / WebAuthn ceremonies for biometric login on field devices:
+ * - Registration: issue a creation challenge, verify the attestation and
+ *   store the credential public key against the user
+ * - Authentication: issue a request challenge, verify the assertion
+ *   signature and the signature counter
+ * - Credential management: list and revoke a user's authenticators
+ *
+ * Challenges are single-use and kept in Redis for CHALLENGE_TTL seconds.
+ * Only "none" and "packed" attestation are accepted; we ask for "none"
+ * since field phones are enrolled by the officer, not by device model.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  UnauthorizedException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, X509Certificate, KeyObject } from 'crypto';
+
+import { User } from '../../entities/user.entity';
+import { WebAuthnCredential } from '../../entities/webauthn-credential.entity';
+import { CacheService } from '../cache/cache.service';
+import {
+  COSE_ALGORITHMS,
+  coseToPublicKey,
+  decodeCbor,
+  fromBase64Url,
+  parseAuthenticatorData,
+  toBase64Url,
+  verifySignature,
+  AuthenticatorData,
+} from './webauthn.utils';
+import {
+  BiometricLoginDto,
+  WebAuthnRegistrationDto,
+  WebAuthnRegistrationOptionsDto,
+  WebAuthnAuthenticationOptionsDto,
+  WebAuthnCredentialDto,
+} from './dto/auth.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CHALLENGE_TTL = 300; // 5 minutes
+const CHALLENGE_PREFIX = 'vax:webauthn:challenge:';
+
+interface StoredChallenge {
+  ceremony: 'registration' | 'authentication';
+  userId?: string;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly rpId: string;
+  private readonly rpName: string;
+  private readonly origins: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+    @InjectRepository(WebAuthnCredential)
+    private readonly credentialRepository: Repository<WebAuthnCredential>,
+  ) {
+    this.rpId = this.configService.get<string>('WEBAUTHN_RP_ID') || 'localhost';
+    this.rpName = this.configService.get<string>('WEBAUTHN_RP_NAME') || 'VaxTrace Nigeria';
+    this.origins = (this.configService.get<string>('WEBAUTHN_ORIGINS') || 'http://localhost:3000')
+      .split(',')
+      .map((origin) => origin.trim());
+  }
+
+  // ============================================
+  // REGISTRATION
+  // ============================================
+
+  /**
+   * Creation options for navigator.credentials.create()
+   */
+  async generateRegistrationOptions(user: Pick<User, 'id' | 'email' | 'displayName'>): Promise<WebAuthnRegistrationOptionsDto> {
+    const challenge = await this.issueChallenge({ ceremony: 'registration', userId: user.id });
+    const existing = await this.getActiveCredentials(user.id);
+
+    return {
+      challenge,
+      rp: { id: this.rpId, name: this.rpName },
+      user: {
+        id: toBase64Url(Buffer.from(user.id)),
+        name: user.email,
+        displayName: user.displayName || user.email,
+      },
+      pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({ type: 'public-key' as const, alg })),
+      timeout: CHALLENGE_TTL * 1000,
+      attestation: 'none',
+      authenticatorSelection: {
+        authenticatorAttachment: 'platform',
+        residentKey: 'preferred',
+        userVerification: 'required',
+      },
+      excludeCredentials: existing.map((credential) => ({
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports || undefined,
+      })),
+    };
+  }
+
+  /**
+   * Verify the attestation returned by navigator.credentials.create() and store the credential
+   */
+  async verifyRegistration(userId: string, dto: WebAuthnRegistrationDto): Promise<WebAuthnCredentialDto> {
+    const clientDataJSON = fromBase64Url(dto.clientDataJSON);
+    await this.verifyClientData(clientDataJSON, 'webauthn.create', 'registration', userId);
+
+    let attestation: Map<string, any>;
+    let authData: AuthenticatorData;
+
+    try {
+      attestation = decodeCbor(fromBase64Url(dto.attestationObject)).value;
+      authData = parseAuthenticatorData(attestation.get('authData'));
+    } catch (error) {
+      throw new BadRequestException(`Malformed attestation object: ${error.message}`);
+    }
+
+    this.verifyAuthenticatorFlags(authData);
+
+    if (!authData.credentialId || !authData.credentialPublicKey) {
+      throw new BadRequestException('Attestation does not contain a credential');
+    }
+
+    const credentialId = toBase64Url(authData.credentialId);
+    if (credentialId !== dto.credentialId) {
+      throw new BadRequestException('Credential ID does not match the attestation');
+    }
+
+    let publicKey: { algorithm: number; key: KeyObject };
+    try {
+      publicKey = coseToPublicKey(authData.credentialPublicKey);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    this.verifyAttestationStatement(attestation, clientDataJSON, publicKey);
+
+    if (await this.credentialRepository.findOne({ where: { credentialId } })) {
+      throw new ConflictException('This authenticator is already registered');
+    }
+
+    const credential = await this.credentialRepository.save(
+      this.credentialRepository.create({
+        userId,
+        credentialId,
+        publicKey: toBase64Url(authData.credentialPublicKey),
+        signCount: authData.signCount,
+        aaguid: authData.aaguid,
+        transports: dto.transports || null,
+        deviceName: dto.deviceName || null,
+      }),
+    );
+
+    this.logger.log(`WebAuthn credential registered for user ${userId}: ${credential.id}`);
+
+    return this.toCredentialDto(credential);
+  }
+
+  // ============================================
+  // AUTHENTICATION
+  // ============================================
+
+  /**
+   * Request options for navigator.credentials.get(); pass a user to restrict allowCredentials
+   */
+  async generateAuthenticationOptions(userId?: string): Promise<WebAuthnAuthenticationOptionsDto> {
+    const credentials = userId ? await this.getActiveCredentials(userId) : [];
+    const challenge = await this.issueChallenge({ ceremony: 'authentication', userId });
+
+    return {
+      challenge,
+      rpId: this.rpId,
+      timeout: CHALLENGE_TTL * 1000,
+      userVerification: 'required',
+      allowCredentials: credentials.map((credential) => ({
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports || undefined,
+      })),
+    };
+  }
+
+  /**
+   * Verify an assertion from navigator.credentials.get(); returns the authenticated user ID
+   */
+  async verifyAuthentication(dto: BiometricLoginDto): Promise<string> {
+    const credential = await this.credentialRepository.findOne({
+      where: { credentialId: dto.credentialId, revokedAt: IsNull() },
+    });
+
+    if (!credential) {
+      this.logger.warn('Biometric login failed: Unknown or revoked credential');
+      throw new UnauthorizedException('Invalid biometric credentials');
+    }
+
+    const clientDataJSON = fromBase64Url(dto.clientDataJSON);
+    await this.verifyClientData(clientDataJSON, 'webauthn.get', 'authentication', credential.userId);
+
+    const authenticatorData = fromBase64Url(dto.authenticatorData);
+    let authData: AuthenticatorData;
+
+    try {
+      authData = parseAuthenticatorData(authenticatorData);
+    } catch (error) {
+      throw new UnauthorizedException('Invalid biometric credentials');
+    }
+
+    this.verifyAuthenticatorFlags(authData);
+
+    const { algorithm, key } = coseToPublicKey(fromBase64Url(credential.publicKey));
+    const signedData = Buffer.concat([authenticatorData, this.sha256(clientDataJSON)]);
+
+    if (!verifySignature(algorithm, key, signedData, fromBase64Url(dto.signature))) {
+      this.logger.warn(`Biometric login failed: Bad signature for credential ${credential.id}`);
+      throw new UnauthorizedException('Invalid biometric credentials');
+    }
+
+    // Authenticators that keep a counter must increase it on every use
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+      this.logger.warn(
+        `Biometric login failed: Signature counter did not increase for credential ${credential.id} ` +
+          `(${authData.signCount} <= ${credential.signCount}), possible cloned authenticator`,
+      );
+      throw new UnauthorizedException('Invalid biometric credentials');
+    }
+
+    await this.credentialRepository.update(credential.id, {
+      signCount: authData.signCount,
+      lastUsedAt: new Date(),
+    });
+
+    return credential.userId;
+  }
+
+  // ============================================
+  // CREDENTIAL MANAGEMENT
+  // ============================================
+
+  async listCredentials(userId: string): Promise<WebAuthnCredentialDto[]> {
+    const credentials = await this.getActiveCredentials(userId);
+    return credentials.map((credential) => this.toCredentialDto(credential));
+  }
+
+  async revokeCredential(userId: string, credentialId: string): Promise<void> {
+    const credential = await this.credentialRepository.findOne({
+      where: { id: credentialId, userId, revokedAt: IsNull() },
+    });
+
+    if (!credential) {
+      throw new NotFoundException(`Credential ${credentialId} not found`);
+    }
+
+    await this.credentialRepository.update(credential.id, { revokedAt: new Date() });
+
+    this.logger.log(`WebAuthn credential revoked for user ${userId}: ${credential.id}`);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private async getActiveCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    return this.credentialRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private async issueChallenge(challenge: StoredChallenge): Promise<string> {
+    const value = toBase64Url(randomBytes(32));
+    await this.cacheService.set(`${CHALLENGE_PREFIX}${value}`, challenge, { ttl: CHALLENGE_TTL });
+    return value;
+  }
+
+  /**
+   * Check type, origin and challenge of clientDataJSON; the challenge is consumed
+   */
+  private async verifyClientData(
+    clientDataJSON: Buffer,
+    type: ClientData['type'],
+    ceremony: StoredChallenge['ceremony'],
+    userId: string,
+  ): Promise<void> {
+    let clientData: ClientData;
+
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch (error) {
+      throw new BadRequestException('Malformed clientDataJSON');
+    }
+
+    if (clientData.type !== type) {
+      throw new BadRequestException(`Unexpected client data type ${clientData.type}`);
+    }
+
+    if (!this.origins.includes(clientData.origin)) {
+      this.logger.warn(`WebAuthn ${ceremony} rejected: Unexpected origin ${clientData.origin}`);
+      throw new UnauthorizedException('Unexpected WebAuthn origin');
+    }
+
+    const key = `${CHALLENGE_PREFIX}${clientData.challenge}`;
+    const stored = await this.cacheService.get<StoredChallenge>(key);
+    await this.cacheService.del(key);
+
+    if (!stored || stored.ceremony !== ceremony || (stored.userId && stored.userId !== userId)) {
+      this.logger.warn(`WebAuthn ${ceremony} rejected: Unknown or expired challenge`);
+      throw new UnauthorizedException('WebAuthn challenge is invalid or has expired');
+    }
+  }
+
+  /**
+   * Require the relying party hash plus user presence and verification (the biometric check)
+   */
+  private verifyAuthenticatorFlags(authData: AuthenticatorData): void {
+    if (!authData.rpIdHash.equals(this.sha256(Buffer.from(this.rpId)))) {
+      throw new UnauthorizedException('Credential was not created for this site');
+    }
+
+    if (!authData.flags.userPresent || !authData.flags.userVerified) {
+      throw new UnauthorizedException('User verification is required');
+    }
+  }
+
+  private verifyAttestationStatement(
+    attestation: Map<string, any>,
+    clientDataJSON: Buffer,
+    publicKey: { algorithm: number; key: KeyObject },
+  ): void {
+    const format = attestation.get('fmt');
+
+    if (format === 'none') {
+      return;
+    }
+
+    if (format !== 'packed') {
+      throw new BadRequestException(`Unsupported attestation format ${format}`);
+    }
+
+    const statement: Map<string, any> = attestation.get('attStmt');
+    const signedData = Buffer.concat([attestation.get('authData'), this.sha256(clientDataJSON)]);
+    const certificates: Buffer[] | undefined = statement.get('x5c');
+
+    // Full attestation is signed by the device certificate, self attestation by the credential key
+    const key = certificates?.length ? new X509Certificate(certificates[0]).publicKey : publicKey.key;
+
+    if (!verifySignature(statement.get('alg'), key, signedData, statement.get('sig'))) {
+      throw new BadRequestException('Attestation signature is invalid');
+    }
+  }
+
+  private sha256(data: Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+  }
+
+  private toCredentialDto(credential: WebAuthnCredential): WebAuthnCredentialDto {
+    return {
+      id: credential.id,
+      deviceName: credential.deviceName,
+      aaguid: credential.aaguid,
+      transports: credential.transports || [],
+      createdAt: credential.createdAt?.toISOString(),
+      lastUsedAt: credential.lastUsedAt?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * VaxTrace Nigeria - WebAuthn Encoding Utilities
+ *
+ * Minimal decoders needed to verify FIDO2 ceremonies without a third-party
+ * library:
+ * - CBOR (RFC 8949) for attestation objects and COSE keys
+ * - Authenticator data (WebAuthn Level 2, section 6.1)
+ * - COSE_Key (RFC 9053) to Node KeyObject for ES256, RS256 and EdDSA
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { createPublicKey, verify, KeyObject } from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: {
+    userPresent: boolean;
+    userVerified: boolean;
+    attestedCredentialData: boolean;
+  };
+  signCount: number;
+  aaguid?: string;
+  credentialId?: Buffer;
+  credentialPublicKey?: Buffer;
+}
+
+/**
+ * COSE algorithm identifiers accepted for credentials
+ */
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const;
+
+// ============================================
+// BASE64URL
+// ============================================
+
+export const toBase64Url = (data: Buffer): string => data.toString('base64url');
+
+export const fromBase64Url = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+// ============================================
+// CBOR
+// ============================================
+
+/**
+ * Decode one CBOR item starting at `offset`; returns the value and the offset after it.
+ * Maps are returned as Map since COSE keys are integers.
+ */
+export function decodeCbor(data: Buffer, offset = 0): { value: any; offset: number } {
+  if (offset >= data.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = data[offset++];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+
+  let length: number;
+
+  if (additional < 24) {
+    length = additional;
+  } else if (additional === 24) {
+    length = data.readUInt8(offset);
+    offset += 1;
+  } else if (additional === 25) {
+    length = data.readUInt16BE(offset);
+    offset += 2;
+  } else if (additional === 26) {
+    length = data.readUInt32BE(offset);
+    offset += 4;
+  } else if (additional === 27) {
+    length = Number(data.readBigUInt64BE(offset));
+    offset += 8;
+  } else {
+    throw new Error(`Unsupported CBOR additional info ${additional}`);
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+      return { value: data.subarray(offset, offset + length), offset: offset + length };
+    case 3:
+      return { value: data.toString('utf8', offset, offset + length), offset: offset + length };
+    case 4: {
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(data, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<any, any>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(data, offset);
+        const value = decodeCbor(data, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7:
+      if (additional === 20) return { value: false, offset };
+      if (additional === 21) return { value: true, offset };
+      if (additional === 22) return { value: null, offset };
+      throw new Error(`Unsupported CBOR simple value ${additional}`);
+    default:
+      throw new Error(`Unsupported CBOR major type ${majorType}`);
+  }
+}
+
+// ============================================
+// AUTHENTICATOR DATA
+// ============================================
+
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: {
+      userPresent: (flags & 0x01) !== 0,
+      userVerified: (flags & 0x04) !== 0,
+      attestedCredentialData: (flags & 0x40) !== 0,
+    },
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (parsed.flags.attestedCredentialData) {
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const credentialIdLength = data.readUInt16BE(53);
+    const keyStart = 55 + credentialIdLength;
+
+    parsed.aaguid = [
+      aaguid.slice(0, 8),
+      aaguid.slice(8, 12),
+      aaguid.slice(12, 16),
+      aaguid.slice(16, 20),
+      aaguid.slice(20),
+    ].join('-');
+    parsed.credentialId = data.subarray(55, keyStart);
+    parsed.credentialPublicKey = data.subarray(keyStart, decodeCbor(data, keyStart).offset);
+  }
+
+  return parsed;
+}
+
+// ============================================
+// COSE KEYS & SIGNATURES
+// ============================================
+
+/**
+ * Convert a CBOR-encoded COSE_Key into a Node public key
+ */
+export function coseToPublicKey(coseKey: Buffer): { algorithm: number; key: KeyObject } {
+  const cose: Map<number, any> = decodeCbor(coseKey).value;
+  const keyType = cose.get(1);
+  const algorithm = cose.get(3);
+
+  if (keyType === 2 && algorithm === COSE_ALGORITHMS.ES256 && cose.get(-1) === 1) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: toBase64Url(cose.get(-2)), y: toBase64Url(cose.get(-3)) },
+        format: 'jwk',
+      }),
+    };
+  }
+
+  if (keyType === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'RSA', n: toBase64Url(cose.get(-1)), e: toBase64Url(cose.get(-2)) },
+        format: 'jwk',
+      }),
+    };
+  }
+
+  if (keyType === 1 && algorithm === COSE_ALGORITHMS.EdDSA && cose.get(-1) === 6) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: toBase64Url(cose.get(-2)) },
+        format: 'jwk',
+      }),
+    };
+  }
+
+  throw new Error(`Unsupported COSE key (kty ${keyType}, alg ${algorithm})`);
+}
+
+/**
+ * Verify a WebAuthn signature made with the given COSE algorithm
+ */
+export function verifySignature(algorithm: number, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  // Ed25519 hashes internally; ES256 signatures are DER-encoded
+  return verify(algorithm === COSE_ALGORITHMS.EdDSA ? null : 'sha256', data, key, signature);
+}
@@ -192,6 +192,42 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Sets a value only if the key does not exist yet (NX) or already
+   * exists (XX), atomically. Returns whether the value was written.
+   */
+  async setConditional<T>(
+    key: string,
+    value: T,
+    condition: 'NX' | 'XX',
+    options: CacheOptions = {}
+  ): Promise<boolean> {
+    if (!this.isConnected) {
+      this.logger.warn('Redis not connected, skipping cache set');
+      return false;
+    }
+
+    try {
+      const ttl = options.ttl ?? this.TTL.STOCK;
+      const serialized = JSON.stringify({
+        value,
+        timestamp: Date.now(),
+        version: 1,
+      } as CacheEntry<T>);
+
+      const result =
+        condition === 'NX'
+          ? await this.redis.set(key, serialized, 'EX', ttl, 'NX')
+          : await this.redis.set(key, serialized, 'EX', ttl, 'XX');
+
+      this.logger.debug(`Cache set ${condition}: ${key} (${result === 'OK' ? 'written' : 'skipped'})`);
+      return result === 'OK';
+    } catch (error) {
+      this.logger.error(`Failed to set cache: ${key}`, error.stack);
+      return false;
+    }
+  }
+
   /**
    * Gets a value from cache
    */
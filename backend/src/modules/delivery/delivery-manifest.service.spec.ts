@@ -0,0 +1,208 @@
+/**
+ * VaxTrace Nigeria - Delivery Manifest Service Unit Tests
+ *
+ * Tests that manifests are:
+ * - Signed with the lots shipped and their registered expiry dates
+ * - Verifiable with the published public key
+ * - Rejected when altered, expired or already received
+ * - Rendered as PNG, SVG and PDF
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { createPublicKey, verify } from 'crypto';
+
+import { DeliveryManifest } from '../../entities/delivery-manifest.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { DeliveryManifestService, ManifestPayload } from './delivery-manifest.service';
+import { CreateManifestDto, ManifestFormat } from './dto/delivery.dto';
+
+describe('DeliveryManifestService', () => {
+  let service: DeliveryManifestService;
+  let mockManifestRepository: any;
+  let mockLocationRepository: any;
+  let mockVaccineRepository: any;
+  let mockProductBatchRepository: any;
+
+  const ORIGIN_ID = '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+  const DESTINATION_ID = '9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a';
+
+  const lgaStore = { id: ORIGIN_ID, code: 'LGA-AMAC', name: 'AMAC LGA Store', type: LocationType.LGA } as Location;
+  const facility = { id: DESTINATION_ID, code: 'FC-GARKI-PHC', name: 'Garki PHC', type: LocationType.FACILITY } as Location;
+
+  const request = (overrides: Partial<CreateManifestDto> = {}): CreateManifestDto => ({
+    transferId: 'issue-1',
+    originId: ORIGIN_ID,
+    destinationId: DESTINATION_ID,
+    items: [
+      { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 200 },
+      { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 100 },
+    ],
+    ...overrides,
+  });
+
+  const decode = (token: string): ManifestPayload => JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+  beforeEach(async () => {
+    mockManifestRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (manifest) => manifest),
+      findOne: jest.fn(),
+      findOneBy: jest.fn(),
+    };
+    mockLocationRepository = {
+      findOneBy: jest.fn(async ({ id }) => [lgaStore, facility].find((location) => location.id === id) ?? null),
+    };
+    mockVaccineRepository = { findBy: jest.fn().mockResolvedValue([{ id: 'vaccine-bcg', code: 'BCG' }]) };
+    mockProductBatchRepository = {
+      findBy: jest.fn().mockResolvedValue([
+        { facilityId: ORIGIN_ID, vaccineId: 'vaccine-bcg', batchNumber: 'BCG-A', expiryDate: '2027-03-31' },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveryManifestService,
+        { provide: getRepositoryToken(DeliveryManifest), useValue: mockManifestRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+        { provide: getRepositoryToken(Vaccine), useValue: mockVaccineRepository },
+        { provide: getRepositoryToken(ProductBatch), useValue: mockProductBatchRepository },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DeliveryManifestService>(DeliveryManifestService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Generating manifests', () => {
+    it('should sign the lots shipped with their registered expiry dates', async () => {
+      const manifest = await service.createManifest(request());
+
+      expect(manifest).toEqual(
+        expect.objectContaining({
+          transferId: 'issue-1',
+          originName: 'AMAC LGA Store',
+          destinationName: 'Garki PHC',
+          items: [{ vaccineCode: 'BCG', lotNumber: 'BCG-A', expiryDate: '2027-03-31', quantity: 300 }],
+        }),
+      );
+      expect(decode(manifest.token)).toEqual(
+        expect.objectContaining({
+          mid: manifest.id,
+          tid: 'issue-1',
+          from: { id: ORIGIN_ID, n: 'AMAC LGA Store' },
+          to: { id: DESTINATION_ID, n: 'Garki PHC' },
+          items: [{ c: 'BCG', l: 'BCG-A', e: '2027-03-31', q: 300 }],
+          kid: manifest.keyId,
+        }),
+      );
+    });
+
+    it('should be verifiable offline with the published public key', async () => {
+      const { token } = await service.createManifest(request());
+      const { jwk, keyId } = service.getPublicKey();
+      const [prefix, payload, signature] = token.split('.');
+
+      const valid = verify(
+        'sha256',
+        Buffer.from(`${prefix}.${payload}`),
+        { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      );
+
+      expect(valid).toBe(true);
+      expect(jwk).toEqual(expect.objectContaining({ kty: 'EC', crv: 'P-256' }));
+      expect(decode(token).kid).toBe(keyId);
+    });
+
+    it('should reject lots not registered at the origin', async () => {
+      mockProductBatchRepository.findBy.mockResolvedValue([]);
+
+      await expect(service.createManifest(request())).rejects.toThrow('Lot BCG-A of BCG is not registered at AMAC LGA Store');
+      expect(mockManifestRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should only address manifests to another health facility', async () => {
+      await expect(service.createManifest(request({ destinationId: ORIGIN_ID }))).rejects.toThrow(BadRequestException);
+      await expect(service.createManifest(request({ originId: 'missing' }))).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('Verifying manifests', () => {
+    it('should return the stored manifest of a valid token', async () => {
+      const { id, token } = await service.createManifest(request());
+      mockManifestRepository.findOneBy.mockResolvedValue({ id, consumedAt: null });
+
+      await expect(service.verifyManifest(token)).resolves.toEqual({ id, consumedAt: null });
+      expect(mockManifestRepository.findOneBy).toHaveBeenCalledWith({ id });
+    });
+
+    it('should reject an altered manifest', async () => {
+      const { token } = await service.createManifest(request());
+      const [prefix, , signature] = token.split('.');
+      const altered = Buffer.from(
+        JSON.stringify({ ...decode(token), items: [{ c: 'BCG', l: 'BCG-A', e: '2027-03-31', q: 3000 }] }),
+      ).toString('base64url');
+
+      await expect(service.verifyManifest(`${prefix}.${altered}.${signature}`)).rejects.toThrow(
+        'Manifest signature is invalid; the QR code may have been altered',
+      );
+      await expect(service.verifyManifest('VAX-TRF-2024-001')).rejects.toThrow(BadRequestException);
+      expect(mockManifestRepository.findOneBy).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired manifest', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const { token } = await service.createManifest(request());
+      jest.setSystemTime(new Date('2026-01-09T00:00:00Z'));
+
+      await expect(service.verifyManifest(token)).rejects.toThrow(/expired/);
+    });
+
+    it('should reject a manifest that has already been received', async () => {
+      const { id, token } = await service.createManifest(request());
+      mockManifestRepository.findOneBy.mockResolvedValue({ id, consumedAt: new Date() });
+
+      await expect(service.verifyManifest(token)).rejects.toThrow(ConflictException);
+    });
+
+    it('should consume a manifest only once', async () => {
+      const update = jest.fn().mockResolvedValueOnce({ affected: 1 }).mockResolvedValueOnce({ affected: 0 });
+      const manager: any = { getRepository: jest.fn(() => ({ update })) };
+
+      await service.consumeManifest(manager, 'manifest-1', 'delivery-1');
+      await expect(service.consumeManifest(manager, 'manifest-1', 'delivery-2')).rejects.toThrow(ConflictException);
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'manifest-1' }),
+        expect.objectContaining({ deliveryId: 'delivery-1', consumedAt: expect.any(Date) }),
+      );
+    });
+  });
+
+  describe('Rendering manifests', () => {
+    it('should render the QR code as PNG, SVG and PDF', async () => {
+      const manifest = await service.createManifest(request());
+
+      const png = await service.renderManifest(manifest, ManifestFormat.PNG);
+      const svg = await service.renderManifest(manifest, ManifestFormat.SVG);
+      const pdf = await service.renderManifest(manifest, ManifestFormat.PDF);
+
+      expect(png.contentType).toBe('image/png');
+      expect(png.body.subarray(1, 4).toString()).toBe('PNG');
+      expect(svg.contentType).toBe('image/svg+xml');
+      expect(svg.body.toString()).toContain('<svg');
+      expect(pdf.contentType).toBe('application/pdf');
+      expect(pdf.body.toString()).toMatch(/^%PDF-1\.4/);
+      expect(pdf.body.toString()).toContain('(BCG   Lot BCG-A   Expires 2027-03-31   300 doses) Tj');
+      expect(pdf.fileName).toBe(`manifest-${manifest.id}.pdf`);
+    });
+  });
+});
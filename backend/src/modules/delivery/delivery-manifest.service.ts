@@ -0,0 +1,415 @@
+/**
+ * VaxTrace Nigeria - Delivery Manifest Service
+ *
+ * Generates the signed manifest of a shipment and verifies it when the
+ * delivery is received.
+ *
+ * A manifest lists the lots shipped from the origin store to a facility, with
+ * their quantities and expiry dates (taken from the origin's lot register).
+ * Its QR code carries the manifest itself, signed with the server's ECDSA
+ * P-256 key (ES256):
+ *
+ *   VXT1.<base64url JSON payload>.<base64url signature>
+ *
+ * The signature covers "VXT1.<payload>" and uses the IEEE P1363 encoding, so
+ * devices can verify a manifest offline with WebCrypto and the cached public
+ * key. The server rejects altered, expired and already received manifests.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+import {
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+  sign,
+  verify,
+} from 'crypto';
+import * as QRCode from 'qrcode';
+
+import { DeliveryManifest, DeliveryManifestItem } from '../../entities/delivery-manifest.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { buildManifestPdf } from './manifest-document';
+import { CreateManifestDto, ManifestDto, ManifestFormat, ManifestPublicKeyDto } from './dto/delivery.dto';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+/**
+ * Signed QR payload. Keys are short to keep the QR code small.
+ */
+export interface ManifestPayload {
+  v: number;
+  mid: string; // Manifest ID
+  tid: string; // Transfer ID
+  from: { id: string; n: string };
+  to: { id: string; n: string };
+  items: { c: string; l: string; e: string; q: number }[]; // Vaccine code, lot, expiry, quantity
+  iat: number; // Seconds since the epoch
+  exp: number;
+  kid: string;
+}
+
+export interface ManifestFile {
+  contentType: string;
+  fileName: string;
+  body: Buffer;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TOKEN_PREFIX = 'VXT1';
+const PAYLOAD_VERSION = 1;
+const SIGNATURE_ALGORITHM = 'ES256';
+const CURVE = 'prime256v1';
+
+// Long enough for a shipment to a hard-to-reach facility
+const DEFAULT_TTL_HOURS = 168;
+
+const QR_OPTIONS: QRCode.QRCodeRenderersOptions = { errorCorrectionLevel: 'M', margin: 4 };
+
+// ============================================
+// DELIVERY MANIFEST SERVICE
+// ============================================
+
+@Injectable()
+export class DeliveryManifestService {
+  private readonly logger = new Logger(DeliveryManifestService.name);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly keyId: string;
+  private readonly ttlHours: number;
+
+  constructor(
+    @InjectRepository(DeliveryManifest)
+    private readonly manifestRepository: Repository<DeliveryManifest>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    @InjectRepository(Vaccine)
+    private readonly vaccineRepository: Repository<Vaccine>,
+    @InjectRepository(ProductBatch)
+    private readonly productBatchRepository: Repository<ProductBatch>,
+    private readonly configService: ConfigService,
+  ) {
+    this.privateKey = this.loadSigningKey();
+    this.publicKey = createPublicKey(this.privateKey);
+    this.keyId = createHash('sha256')
+      .update(this.publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('hex')
+      .slice(0, 16);
+    this.ttlHours = Number(this.configService.get('QR_MANIFEST_TTL_HOURS')) || DEFAULT_TTL_HOURS;
+
+    this.logger.log(`Delivery Manifest Service initialized (key ${this.keyId})`);
+  }
+
+  // ============================================
+  // PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Generate and sign the manifest of a shipment
+   */
+  async createManifest(request: CreateManifestDto, user?: ExtendedRequest['user']): Promise<ManifestDto> {
+    const [origin, destination] = await Promise.all([
+      this.locationRepository.findOneBy({ id: request.originId }),
+      this.locationRepository.findOneBy({ id: request.destinationId }),
+    ]);
+
+    if (!origin || (origin.type !== LocationType.FACILITY && origin.type !== LocationType.LGA)) {
+      throw new NotFoundException(`Facility or LGA store not found: ${request.originId}`);
+    }
+    if (!destination || destination.type !== LocationType.FACILITY) {
+      throw new BadRequestException(`Manifests must be addressed to a health facility: ${request.destinationId}`);
+    }
+    if (destination.id === origin.id) {
+      throw new BadRequestException('A manifest cannot be addressed to the store that issues it');
+    }
+
+    const items = await this.getItems(origin, request);
+    const id = randomUUID();
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.ttlHours * 3600 * 1000);
+
+    const token = this.sign({
+      v: PAYLOAD_VERSION,
+      mid: id,
+      tid: request.transferId,
+      from: { id: origin.id, n: origin.name },
+      to: { id: destination.id, n: destination.name },
+      items: items.map((item) => ({ c: item.vaccineCode, l: item.lotNumber, e: item.expiryDate, q: item.quantity })),
+      iat: Math.floor(issuedAt.getTime() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+      kid: this.keyId,
+    });
+
+    const manifest = await this.manifestRepository.save(
+      this.manifestRepository.create({
+        id,
+        transferId: request.transferId,
+        originId: origin.id,
+        destinationId: destination.id,
+        items,
+        token,
+        keyId: this.keyId,
+        issuedBy: user?.id,
+        issuedAt,
+        expiresAt,
+      }),
+    );
+
+    this.logger.log(`Manifest ${id} issued for transfer ${request.transferId}: ${origin.code} → ${destination.code}`);
+
+    return this.toDto({ ...manifest, origin, destination });
+  }
+
+  /**
+   * Get a manifest by ID
+   */
+  async getManifest(manifestId: string): Promise<ManifestDto> {
+    const manifest = await this.manifestRepository.findOne({
+      where: { id: manifestId },
+      relations: { origin: true, destination: true },
+    });
+
+    if (!manifest) {
+      throw new NotFoundException(`Manifest not found: ${manifestId}`);
+    }
+
+    return this.toDto(manifest);
+  }
+
+  /**
+   * Printable QR code of a manifest
+   */
+  async renderManifest(manifest: ManifestDto, format: ManifestFormat = ManifestFormat.PNG): Promise<ManifestFile> {
+    const fileName = `manifest-${manifest.id}.${format}`;
+
+    if (format === ManifestFormat.SVG) {
+      const svg = await QRCode.toString(manifest.token, { ...QR_OPTIONS, type: 'svg' });
+      return { contentType: 'image/svg+xml', fileName, body: Buffer.from(svg) };
+    }
+
+    if (format === ManifestFormat.PDF) {
+      const qr = QRCode.create(manifest.token, { errorCorrectionLevel: QR_OPTIONS.errorCorrectionLevel });
+      const lines = [
+        `Manifest: ${manifest.id}`,
+        `Transfer: ${manifest.transferId}`,
+        `From: ${manifest.originName ?? manifest.originId}`,
+        `To: ${manifest.destinationName ?? manifest.destinationId}`,
+        `Issued: ${manifest.issuedAt}`,
+        `Valid until: ${manifest.expiresAt}`,
+        '',
+        ...manifest.items.map(
+          (item) => `${item.vaccineCode}   Lot ${item.lotNumber}   Expires ${item.expiryDate}   ${item.quantity} doses`,
+        ),
+      ];
+      return {
+        contentType: 'application/pdf',
+        fileName,
+        body: buildManifestPdf(qr.modules, 'VaxTrace Nigeria - Delivery Manifest', lines),
+      };
+    }
+
+    const png = await QRCode.toBuffer(manifest.token, { ...QR_OPTIONS, type: 'png', width: 512 });
+    return { contentType: 'image/png', fileName, body: png };
+  }
+
+  /**
+   * Public key devices cache to verify manifests offline
+   */
+  getPublicKey(): ManifestPublicKeyDto {
+    return {
+      keyId: this.keyId,
+      algorithm: SIGNATURE_ALGORITHM,
+      jwk: this.publicKey.export({ format: 'jwk' }),
+    };
+  }
+
+  /**
+   * Verify a scanned manifest: signed by this server, not expired and not
+   * received yet
+   */
+  async verifyManifest(token: string): Promise<DeliveryManifest> {
+    const payload = this.decode(token);
+
+    if (payload.exp * 1000 <= Date.now()) {
+      throw new BadRequestException(
+        `Manifest ${payload.mid} expired on ${new Date(payload.exp * 1000).toISOString()}`,
+      );
+    }
+
+    const manifest = await this.manifestRepository.findOneBy({ id: payload.mid });
+
+    if (!manifest) {
+      throw new NotFoundException(`Manifest not found: ${payload.mid}`);
+    }
+    if (manifest.consumedAt) {
+      throw new ConflictException(`Manifest ${manifest.id} has already been received`);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Mark a manifest received by a delivery. Only the first of concurrent
+   * confirmations succeeds.
+   */
+  async consumeManifest(manager: EntityManager, manifestId: string, deliveryId: string): Promise<void> {
+    const result = await manager
+      .getRepository(DeliveryManifest)
+      .update({ id: manifestId, consumedAt: IsNull() }, { consumedAt: new Date(), deliveryId });
+
+    if (!result.affected) {
+      throw new ConflictException(`Manifest ${manifestId} has already been received`);
+    }
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * PEM private key from QR_MANIFEST_SIGNING_KEY. Without one a temporary key
+   * is generated; manifests it signs fail verification after a restart.
+   */
+  private loadSigningKey(): KeyObject {
+    const pem = this.configService.get<string>('QR_MANIFEST_SIGNING_KEY');
+
+    if (!pem) {
+      this.logger.warn('QR_MANIFEST_SIGNING_KEY is not set; manifests are signed with a temporary key');
+      return generateKeyPairSync('ec', { namedCurve: CURVE }).privateKey;
+    }
+
+    const key = createPrivateKey(pem.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== CURVE) {
+      throw new Error('QR_MANIFEST_SIGNING_KEY must be an ECDSA P-256 private key');
+    }
+
+    return key;
+  }
+
+  /**
+   * Lots shipped, with their expiry dates from the origin's lot register
+   */
+  private async getItems(origin: Location, request: CreateManifestDto): Promise<DeliveryManifestItem[]> {
+    const codes = [...new Set(request.items.map((item) => item.vaccineCode))];
+    const vaccines = await this.vaccineRepository.findBy({ code: In(codes) });
+
+    const missing = codes.filter((code) => !vaccines.some((vaccine) => vaccine.code === code));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown vaccine: ${missing.join(', ')}`);
+    }
+
+    const lots = await this.productBatchRepository.findBy({
+      facilityId: origin.id,
+      vaccineId: In(vaccines.map((vaccine) => vaccine.id)),
+      batchNumber: In(request.items.map((item) => item.lotNumber)),
+    });
+
+    const items: DeliveryManifestItem[] = [];
+    for (const line of request.items) {
+      const vaccine = vaccines.find((candidate) => candidate.code === line.vaccineCode);
+      const lot = lots.find((candidate) => candidate.vaccineId === vaccine.id && candidate.batchNumber === line.lotNumber);
+
+      if (!lot) {
+        throw new BadRequestException(`Lot ${line.lotNumber} of ${line.vaccineCode} is not registered at ${origin.name}`);
+      }
+
+      // A lot listed twice is shipped once with both quantities
+      const existing = items.find((item) => item.vaccineCode === line.vaccineCode && item.lotNumber === line.lotNumber);
+      if (existing) {
+        existing.quantity += line.quantity;
+      } else {
+        items.push({
+          vaccineCode: line.vaccineCode,
+          lotNumber: line.lotNumber,
+          expiryDate: DateUtils.mixedDateToDateString(lot.expiryDate),
+          quantity: line.quantity,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private sign(payload: ManifestPayload): string {
+    const signingInput = `${TOKEN_PREFIX}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+    const signature = sign('sha256', Buffer.from(signingInput), { key: this.privateKey, dsaEncoding: 'ieee-p1363' });
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Check the format and signature of a token and return its payload
+   */
+  private decode(token: string): ManifestPayload {
+    const parts = (token || '').trim().split('.');
+
+    if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) {
+      throw new BadRequestException('QR code is not a VaxTrace delivery manifest');
+    }
+
+    let payload: ManifestPayload;
+    try {
+      payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('QR code is not a VaxTrace delivery manifest');
+    }
+
+    if (payload?.kid !== this.keyId) {
+      throw new BadRequestException('Manifest was signed with an unknown key');
+    }
+
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      { key: this.publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(parts[2], 'base64url'),
+    );
+
+    if (!valid) {
+      throw new BadRequestException('Manifest signature is invalid; the QR code may have been altered');
+    }
+
+    return payload;
+  }
+
+  private toDto(manifest: DeliveryManifest): ManifestDto {
+    return {
+      id: manifest.id,
+      transferId: manifest.transferId,
+      originId: manifest.originId,
+      originName: manifest.origin?.name,
+      destinationId: manifest.destinationId,
+      destinationName: manifest.destination?.name,
+      items: manifest.items,
+      token: manifest.token,
+      keyId: manifest.keyId,
+      issuedAt: new Date(manifest.issuedAt).toISOString(),
+      expiresAt: new Date(manifest.expiresAt).toISOString(),
+      consumedAt: manifest.consumedAt ? new Date(manifest.consumedAt).toISOString() : undefined,
+      deliveryId: manifest.deliveryId ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * VaxTrace Nigeria - Delivery Controller Tests
+ *
+ * Tests over HTTP, with the JwtMiddleware wiring of AppModule and the
+ * global ValidationPipe of main.ts, that printable manifests:
+ * - Are rendered for a facility in-charge receiving the shipment
+ * - Are refused for manifests outside the user's scope
+ */
+
+import { INestApplication, MiddlewareConsumer, Module, NestModule, ValidationPipe, VersioningType } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { sign } from 'jsonwebtoken';
+import request from 'supertest';
+import { DataSource } from 'typeorm';
+
+import { AppModule } from '../app.module';
+import { CacheService } from '../cache/cache.service';
+import { LocationType } from '../../entities/location.entity';
+import { DeliveryController } from './delivery.controller';
+import { DeliveryService } from './delivery.service';
+import { DeliveryManifestService } from './delivery-manifest.service';
+
+describe('DeliveryController', () => {
+  const secret = 'test-secret';
+  const manifestId = '5d1f0a7e-2c3b-4e8f-9a61-7b2c4d9e0f13';
+
+  let app: INestApplication;
+  let mockManifestService: { getManifest: jest.Mock; renderManifest: jest.Mock };
+
+  const token = `Bearer ${sign(
+    { sub: 'user-2', email: 'phc@vaxtrace.ng', role: 'facility_in_charge', assignedLocationId: 'phc-nassarawa' },
+    secret,
+  )}`;
+
+  beforeEach(async () => {
+    mockManifestService = {
+      getManifest: jest.fn().mockResolvedValue({ id: manifestId, originId: 'lga-store', destinationId: 'phc-nassarawa' }),
+      renderManifest: jest.fn().mockResolvedValue({
+        body: Buffer.from('<svg/>'),
+        contentType: 'image/svg+xml',
+        fileName: `manifest-${manifestId}.svg`,
+      }),
+    };
+    const configService = { get: (key: string) => (key === 'JWT_SECRET' ? secret : undefined) };
+    const dataSource = {
+      query: async () => [
+        { id: 'phc-nassarawa', code: 'KN-NAS-001', openlmis_id: 'olmis-phc-1', type: LocationType.FACILITY, depth: 0 },
+      ],
+    };
+
+    @Module({
+      controllers: [DeliveryController],
+      providers: [
+        { provide: ConfigService, useValue: configService },
+        { provide: DataSource, useValue: dataSource },
+        { provide: CacheService, useValue: { get: async () => null, set: async () => undefined } },
+        { provide: DeliveryService, useValue: {} },
+        { provide: DeliveryManifestService, useValue: mockManifestService },
+      ],
+    })
+    class TestModule implements NestModule {
+      configure(consumer: MiddlewareConsumer): void {
+        new AppModule(configService as unknown as ConfigService).configure(consumer);
+      }
+    }
+
+    const moduleRef = await Test.createTestingModule({ imports: [TestModule] }).compile();
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' });
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should render the manifest for the receiving facility in-charge', async () => {
+    await request(app.getHttpServer())
+      .get(`/api/v1/delivery/manifests/${manifestId}/qr?format=svg`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', /image\/svg\+xml/);
+
+    expect(mockManifestService.renderManifest).toHaveBeenCalledWith(expect.objectContaining({ id: manifestId }), 'svg');
+  });
+
+  it('should refuse manifests outside the user scope', async () => {
+    mockManifestService.getManifest.mockResolvedValue({ id: manifestId, originId: 'lga-store', destinationId: 'phc-lagos' });
+
+    await request(app.getHttpServer())
+      .get(`/api/v1/delivery/manifests/${manifestId}/qr`)
+      .set('Authorization', token)
+      .expect(403);
+
+    expect(mockManifestService.renderManifest).not.toHaveBeenCalled();
+  });
+});
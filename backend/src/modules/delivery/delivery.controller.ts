@@ -4,22 +4,54 @@
  * Exposes delivery confirmation endpoints for field operations.
  * Integrates with QR scanning for last-mile delivery tracking.
  *
+ * Deliveries are received into the confirming user's facility against the
+ * signed manifest of the shipment; reads are limited to deliveries and
+ * manifests within the user's location scope.
+ *
  * Endpoints:
  * - POST /api/v1/delivery/confirm - Confirm delivery from QR scan
+ * - POST /api/v1/delivery/manifests - Generate the signed manifest of a shipment
+ * - GET /api/v1/delivery/manifests/public-key - Key to verify manifests offline
+ * - GET /api/v1/delivery/manifests/:id - Get manifest by ID
+ * - GET /api/v1/delivery/manifests/:id/qr - Printable manifest QR code (PNG, SVG or PDF)
  * - GET /api/v1/delivery/:id - Get delivery by ID
+ * - GET /api/v1/delivery/:id/photo - Shipment photo taken on receipt
  * - GET /api/v1/delivery/transfer/:transferId - Get deliveries by transfer ID
  *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Controller, Post, Body, HttpCode, HttpStatus, Logger, Get, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
 
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { LocationScopeGuard, LocationScope, CurrentScope, assertInScope } from '../../guards/location-scope.guard';
+import { Audited } from '../audit/audit.interceptor';
 import { DeliveryService } from './delivery.service';
+import { DeliveryManifestService } from './delivery-manifest.service';
 import {
   ConfirmDeliveryDto,
+  CreateManifestDto,
   DeliveryConfirmationResponseDto,
+  DeliveryDto,
+  ManifestDto,
+  ManifestPublicKeyDto,
+  ManifestQrQueryDto,
 } from './dto/delivery.dto';
 
 // ============================================
@@ -27,11 +59,15 @@ import {
 // ============================================
 
 @ApiTags('Delivery')
+@ApiBearerAuth()
 @Controller('delivery')
 export class DeliveryController {
   private readonly logger = new Logger(DeliveryController.name);
 
-  constructor(private readonly deliveryService: DeliveryService) {
+  constructor(
+    private readonly deliveryService: DeliveryService,
+    private readonly deliveryManifestService: DeliveryManifestService,
+  ) {
     this.logger.log('Delivery Controller initialized');
   }
 
@@ -55,14 +91,113 @@ export class DeliveryController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid delivery data',
+    description: 'Invalid delivery data, or a manifest that is altered, expired or does not list the lots received',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Account is not assigned to the health facility the manifest is addressed to',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Delivery has already been received',
   })
   @ApiBody({ type: ConfirmDeliveryDto })
+  @Audited({ action: 'CONFIRM', resource: 'delivery' })
   async confirmDelivery(
     @Body() confirmDto: ConfirmDeliveryDto,
+    @Req() req: ExtendedRequest,
   ): Promise<DeliveryConfirmationResponseDto> {
     this.logger.log(`Delivery confirmation for QR: ${confirmDto.qrCodeId}`);
-    return await this.deliveryService.confirmDelivery(confirmDto);
+    return await this.deliveryService.confirmDelivery(confirmDto, req.user);
+  }
+
+  // ============================================
+  // MANIFEST ENDPOINTS
+  // ============================================
+
+  /**
+   * Generate the signed manifest of a shipment
+   */
+  @Post('manifests')
+  @UseGuards(LocationScopeGuard)
+  @ApiOperation({
+    summary: 'Generate delivery manifest',
+    description: 'Signs the lots, quantities and expiry dates shipped from a store to a facility for printing as a QR code',
+  })
+  @ApiBody({ type: CreateManifestDto })
+  @ApiResponse({ status: 201, description: 'Manifest generated', type: ManifestDto })
+  @ApiResponse({ status: 400, description: 'Unknown vaccine or lot, or destination is not a facility' })
+  @ApiResponse({ status: 404, description: 'Facility or LGA store not found' })
+  @Audited({ action: 'CREATE', resource: 'delivery_manifest' })
+  async createManifest(
+    @Body() request: CreateManifestDto,
+    @Req() req: ExtendedRequest,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<ManifestDto> {
+    assertInScope(scope, request.originId);
+
+    this.logger.log(`Manifest request for transfer: ${request.transferId}`);
+    return this.deliveryManifestService.createManifest(request, req.user);
+  }
+
+  /**
+   * Public key to verify manifests offline
+   */
+  @Get('manifests/public-key')
+  @ApiOperation({
+    summary: 'Get manifest public key',
+    description: 'ECDSA P-256 public key (JWK) that devices cache to verify manifest signatures offline',
+  })
+  @ApiResponse({ status: 200, description: 'Public key retrieved successfully', type: ManifestPublicKeyDto })
+  getManifestPublicKey(): ManifestPublicKeyDto {
+    return this.deliveryManifestService.getPublicKey();
+  }
+
+  /**
+   * Get manifest by ID
+   */
+  @Get('manifests/:id')
+  @UseGuards(LocationScopeGuard)
+  @ApiOperation({
+    summary: 'Get manifest by ID',
+    description: 'Retrieve a manifest issued from or addressed to a location within the user\'s scope',
+  })
+  @ApiResponse({ status: 200, description: 'Manifest retrieved successfully', type: ManifestDto })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  async getManifest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<ManifestDto> {
+    const manifest = await this.deliveryManifestService.getManifest(id);
+    this.assertManifestInScope(scope, manifest);
+    return manifest;
+  }
+
+  /**
+   * Printable manifest QR code
+   */
+  @Get('manifests/:id/qr')
+  @UseGuards(LocationScopeGuard)
+  @ApiOperation({
+    summary: 'Get printable manifest',
+    description: 'The manifest QR code as a PNG or SVG image, or an A4 PDF with the lots shipped',
+  })
+  @ApiProduces('image/png', 'image/svg+xml', 'application/pdf')
+  @ApiResponse({ status: 200, description: 'Manifest rendered successfully' })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  async getManifestQr(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ManifestQrQueryDto,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<StreamableFile> {
+    const manifest = await this.deliveryManifestService.getManifest(id);
+    this.assertManifestInScope(scope, manifest);
+
+    const file = await this.deliveryManifestService.renderManifest(manifest, query.format);
+    return new StreamableFile(file.body, {
+      type: file.contentType,
+      disposition: `inline; filename="${file.fileName}"`,
+    });
   }
 
   // ============================================
@@ -73,6 +208,7 @@ export class DeliveryController {
    * Get delivery by ID
    */
   @Get(':id')
+  @UseGuards(LocationScopeGuard)
   @ApiOperation({
     summary: 'Get delivery by ID',
     description: 'Retrieve a specific delivery record by its ID',
@@ -80,20 +216,49 @@ export class DeliveryController {
   @ApiResponse({
     status: 200,
     description: 'Delivery retrieved successfully',
+    type: DeliveryDto,
   })
   @ApiResponse({
     status: 404,
     description: 'Delivery not found',
   })
-  async getDelivery(@Param('id') id: string) {
+  async getDelivery(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<DeliveryDto> {
     this.logger.debug(`Get delivery request: ${id}`);
-    return await this.deliveryService.getDelivery(id);
+    const delivery = await this.deliveryService.getDelivery(id);
+    assertInScope(scope, delivery.facilityId);
+    return delivery;
+  }
+
+  /**
+   * Shipment photo taken on receipt
+   */
+  @Get(':id/photo')
+  @UseGuards(LocationScopeGuard)
+  @ApiOperation({
+    summary: 'Get delivery photo',
+    description: 'The photo of the shipment taken by the receiving officer',
+  })
+  @ApiProduces('image/jpeg', 'image/png', 'image/webp')
+  @ApiResponse({ status: 200, description: 'Photo retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Delivery or photo not found' })
+  async getDeliveryPhoto(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<StreamableFile> {
+    const photo = await this.deliveryService.getDeliveryPhoto(id);
+    assertInScope(scope, photo.facilityId);
+
+    return new StreamableFile(photo.body, { type: photo.contentType, disposition: 'inline' });
   }
 
   /**
    * Get deliveries by transfer ID
    */
   @Get('transfer/:transferId')
+  @UseGuards(LocationScopeGuard)
   @ApiOperation({
     summary: 'Get deliveries by transfer ID',
     description: 'Retrieve all delivery confirmations for a specific transfer',
@@ -101,9 +266,27 @@ export class DeliveryController {
   @ApiResponse({
     status: 200,
     description: 'Deliveries retrieved successfully',
+    type: [DeliveryDto],
   })
-  async getDeliveriesByTransfer(@Param('transferId') transferId: string) {
+  async getDeliveriesByTransfer(
+    @Param('transferId') transferId: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<DeliveryDto[]> {
     this.logger.debug(`Get deliveries by transfer request: ${transferId}`);
-    return await this.deliveryService.getDeliveriesByTransfer(transferId);
+    const deliveries = await this.deliveryService.getDeliveriesByTransfer(transferId);
+    return deliveries.filter((delivery) => !scope || scope.national || scope.identifiers.has(delivery.facilityId));
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Manifests are visible at both ends of the shipment
+   */
+  private assertManifestInScope(scope: LocationScope, manifest: ManifestDto): void {
+    if (scope && !scope.national && !scope.identifiers.has(manifest.destinationId)) {
+      assertInScope(scope, manifest.originId);
+    }
   }
 }
@@ -10,13 +10,28 @@
  */
 
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { Delivery } from '../../entities/delivery.entity';
+import { DeliveryItem } from '../../entities/delivery-item.entity';
+import { DeliveryManifest } from '../../entities/delivery-manifest.entity';
+import { Location } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { WebhookSubscriptionsModule } from '../webhook-subscriptions/webhook-subscriptions.module';
+import { StockModule } from '../stock/stock.module';
 import { DeliveryController } from './delivery.controller';
 import { DeliveryService } from './delivery.service';
+import { DeliveryManifestService } from './delivery-manifest.service';
 
 @Module({
+  imports: [
+    TypeOrmModule.forFeature([Delivery, DeliveryItem, DeliveryManifest, Location, Vaccine, ProductBatch]),
+    WebhookSubscriptionsModule,
+    StockModule,
+  ],
   controllers: [DeliveryController],
-  providers: [DeliveryService],
+  providers: [DeliveryService, DeliveryManifestService],
   exports: [DeliveryService],
 })
 export class DeliveryModule {}
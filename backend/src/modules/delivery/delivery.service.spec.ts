@@ -0,0 +1,417 @@
+/**
+ * VaxTrace Nigeria - Delivery Service Unit Tests
+ *
+ * Tests that a confirmed delivery is:
+ * - Received into the confirming user's facility
+ * - Checked against the signed manifest, which is then consumed
+ * - Persisted once per QR code
+ * - Added to today's stock snapshots and recorded in the stock ledger
+ * - Published to partner webhook subscribers
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { Delivery } from '../../entities/delivery.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { StockLedger } from '../../entities/stock-ledger.entity';
+import { OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import { DeliveryService, DeliveryUser } from './delivery.service';
+import { DeliveryManifestService } from './delivery-manifest.service';
+import { ConfirmDeliveryDto } from './dto/delivery.dto';
+
+describe('DeliveryService', () => {
+  let service: DeliveryService;
+  let mockDeliveryRepository: any;
+  let mockLocationRepository: any;
+  let mockVaccineRepository: any;
+  let mockSnapshotRepository: any;
+  let mockLedgerRepository: any;
+  let mockManager: any;
+  let mockWebhookDispatchService: { publish: jest.Mock };
+  let mockProductBatchService: { recordLots: jest.Mock };
+  let mockDeliveryManifestService: { verifyManifest: jest.Mock; consumeManifest: jest.Mock };
+
+  const BCG_ID = '3f2b8c1e-5d4a-4e7b-9c6f-1a2b3c4d5e6f';
+
+  const user: DeliveryUser = {
+    id: '8f14e45f-ceea-4a7b-9c1e-2b7d0c4f6a11',
+    email: 'garki.phc@vaxtrace.gov.ng',
+    name: 'Garki PHC In-Charge',
+    role: 'facility_in_charge',
+    assignedLocationId: 'facility-1',
+    permissions: [],
+    iat: 0,
+    exp: 0,
+  };
+
+  const facility = {
+    id: 'facility-1',
+    code: 'FC-GARKI-PHC',
+    name: 'Garki PHC',
+    type: LocationType.FACILITY,
+    parentId: 'lga-1',
+    parent: { id: 'lga-1', type: LocationType.LGA, parentId: 'state-1' },
+  } as Location;
+
+  const bcg = { id: BCG_ID, code: 'BCG', minMonthsOfStock: 3, maxMonthsOfStock: 6 } as Vaccine;
+
+  const manifest = {
+    id: 'QR-DEL-12345',
+    transferId: 'TRF-2024-001',
+    originId: 'lga-1',
+    destinationId: 'facility-1',
+    items: [
+      { vaccineCode: 'BCG', lotNumber: 'BCG-A', expiryDate: '2025-03-31', quantity: 200 },
+      { vaccineCode: 'BCG', lotNumber: 'BCG-C', expiryDate: '2025-06-30', quantity: 300 },
+    ],
+  };
+
+  const confirmDto = (overrides: Partial<ConfirmDeliveryDto> = {}): ConfirmDeliveryDto => ({
+    manifest: 'VXT1.payload.signature',
+    qrCodeId: 'QR-DEL-12345',
+    transferId: 'TRF-2024-001',
+    vvmStage: 2,
+    temperature: 4.5,
+    timestamp: '2024-03-01T10:30:00.000Z',
+    items: [
+      { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 200 },
+      { vaccineCode: 'BCG', lotNumber: 'BCG-C', expiryDate: '2025-06-30', quantity: 300 },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockDeliveryRepository = {
+      exists: jest.fn().mockResolvedValue(false),
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+    };
+    mockLocationRepository = { findOne: jest.fn().mockResolvedValue(facility) };
+    mockVaccineRepository = { findBy: jest.fn().mockResolvedValue([bcg]) };
+
+    // Latest snapshot date is yesterday: two lots on hand
+    mockSnapshotRepository = {
+      findOne: jest.fn().mockResolvedValue({ snapshotDate: '2000-01-01' }),
+      find: jest.fn().mockResolvedValue([
+        { lotNumber: 'BCG-A', quantityOnHand: 100, vvmStage: 1, averageMonthlyConsumption: '100', stockStatus: StockStatus.UNDERSTOCKED },
+        { lotNumber: 'BCG-B', quantityOnHand: 0, vvmStage: 1, averageMonthlyConsumption: '100', stockStatus: StockStatus.STOCKOUT },
+      ]),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (lots) => lots),
+    };
+    mockLedgerRepository = { insert: jest.fn().mockResolvedValue(undefined) };
+
+    mockManager = {
+      create: jest.fn((_entity, data) => ({ ...data })),
+      save: jest.fn(async (delivery) => ({ id: 'delivery-1', confirmedAt: new Date('2024-03-01T10:31:00Z'), ...delivery })),
+      getRepository: jest.fn((entity) => (entity === StockSnapshot ? mockSnapshotRepository : mockLedgerRepository)),
+    };
+
+    const mockDataSource = { transaction: jest.fn((work) => work(mockManager)) };
+    mockWebhookDispatchService = { publish: jest.fn().mockResolvedValue(undefined) };
+    mockProductBatchService = { recordLots: jest.fn().mockResolvedValue(undefined) };
+    mockDeliveryManifestService = {
+      verifyManifest: jest.fn().mockResolvedValue(manifest),
+      consumeManifest: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveryService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+        { provide: getRepositoryToken(Vaccine), useValue: mockVaccineRepository },
+        { provide: WebhookDispatchService, useValue: mockWebhookDispatchService },
+        { provide: ProductBatchService, useValue: mockProductBatchService },
+        StockSnapshotService,
+        { provide: DeliveryManifestService, useValue: mockDeliveryManifestService },
+      ],
+    }).compile();
+
+    service = module.get<DeliveryService>(DeliveryService);
+  });
+
+  describe('Confirming deliveries', () => {
+    it('should persist the delivery against the user\'s facility', async () => {
+      const result = await service.confirmDelivery(confirmDto(), user);
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          qrCodeId: 'QR-DEL-12345',
+          transferId: 'TRF-2024-001',
+          facilityId: 'facility-1',
+          confirmedBy: user.id,
+          items: [
+            expect.objectContaining({ vaccineId: BCG_ID, lotNumber: 'BCG-A', quantity: 200 }),
+            expect.objectContaining({ vaccineId: BCG_ID, lotNumber: 'BCG-C', quantity: 300 }),
+          ],
+        }),
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          confirmationId: 'delivery-1',
+          status: 'CONFIRMED',
+          meta: expect.objectContaining({ facilityId: 'facility-1', facilityName: 'Garki PHC', vvmStatus: 'STAGE_2_OK' }),
+        }),
+      );
+    });
+
+    it('should carry the latest lots forward and add the received quantities', async () => {
+      await service.confirmDelivery(confirmDto(), user);
+
+      const [lots] = mockSnapshotRepository.save.mock.calls[0];
+      expect(lots).toEqual([
+        expect.objectContaining({ lotNumber: 'BCG-A', quantityOnHand: 300, vvmStage: 2, monthsOfStock: 6, stockStatus: StockStatus.OPTIMAL }),
+        expect.objectContaining({ lotNumber: 'BCG-B', quantityOnHand: 0, monthsOfStock: 6, stockStatus: StockStatus.OPTIMAL }),
+        expect.objectContaining({ lotNumber: 'BCG-C', quantityOnHand: 300, vvmStage: 2, facilityId: 'facility-1', vaccineId: BCG_ID }),
+      ]);
+      expect(lots.every((lot: StockSnapshot) => lot.snapshotDate instanceof Date)).toBe(true);
+      expect(mockProductBatchService.recordLots).toHaveBeenCalledWith(mockManager, lots);
+    });
+
+    it('should write a receipt to the stock ledger with the new stock on hand', async () => {
+      await service.confirmDelivery(confirmDto(), user);
+
+      expect(mockManager.getRepository).toHaveBeenCalledWith(StockLedger);
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          facilityId: 'facility-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          vaccineId: BCG_ID,
+          quantity: 500,
+          quantityOnHand: 600,
+          transactionType: 'receipt',
+          transactionReference: 'delivery:delivery-1',
+          reasonCode: 'transfer_in',
+        }),
+      );
+    });
+
+    it('should notify webhook subscribers of the confirmed delivery', async () => {
+      await service.confirmDelivery(confirmDto(), user);
+
+      expect(mockWebhookDispatchService.publish).toHaveBeenCalledWith(
+        OutboundEventType.DELIVERY_CONFIRMED,
+        expect.objectContaining({
+          id: 'delivery-1',
+          qrCodeId: 'QR-DEL-12345',
+          facilityId: 'facility-1',
+          facilityName: 'Garki PHC',
+          vvmStatus: 'STAGE_2_OK',
+          items: [
+            expect.objectContaining({ vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 200 }),
+            expect.objectContaining({ vaccineCode: 'BCG', lotNumber: 'BCG-C', quantity: 300 }),
+          ],
+        }),
+      );
+    });
+
+    it('should take expiry dates from the manifest and consume it with the delivery', async () => {
+      await service.confirmDelivery(confirmDto(), user);
+
+      expect(mockDeliveryManifestService.verifyManifest).toHaveBeenCalledWith('VXT1.payload.signature');
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            expect.objectContaining({ lotNumber: 'BCG-A', expiryDate: new Date('2025-03-31') }),
+            expect.objectContaining({ lotNumber: 'BCG-C', expiryDate: new Date('2025-06-30') }),
+          ],
+        }),
+      );
+      expect(mockDeliveryManifestService.consumeManifest).toHaveBeenCalledWith(mockManager, 'QR-DEL-12345', 'delivery-1');
+    });
+
+    it('should reject a manifest that fails verification', async () => {
+      mockDeliveryManifestService.verifyManifest.mockRejectedValue(new BadRequestException('Manifest signature is invalid'));
+
+      await expect(service.confirmDelivery(confirmDto(), user)).rejects.toThrow(BadRequestException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a manifest addressed to another facility', async () => {
+      mockDeliveryManifestService.verifyManifest.mockResolvedValue({ ...manifest, destinationId: 'facility-2' });
+
+      await expect(service.confirmDelivery(confirmDto(), user)).rejects.toThrow(ForbiddenException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a QR code or transfer ID that does not match the manifest', async () => {
+      await expect(service.confirmDelivery(confirmDto({ transferId: 'TRF-2024-999' }), user)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.confirmDelivery(confirmDto({ qrCodeId: 'QR-DEL-99999' }), user)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject lots not on the manifest and more doses than shipped', async () => {
+      await expect(
+        service.confirmDelivery(confirmDto({ items: [{ vaccineCode: 'BCG', lotNumber: 'BCG-Z', quantity: 10 }] }), user),
+      ).rejects.toThrow('Lot BCG-Z of BCG is not on the manifest');
+      await expect(
+        service.confirmDelivery(
+          confirmDto({
+            items: [
+              { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 150 },
+              { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 100 },
+            ],
+          }),
+          user,
+        ),
+      ).rejects.toThrow('Received quantity of lot BCG-A exceeds the 200 doses shipped');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep damaged doses out of stock and record the VVM stage of each lot', async () => {
+      await service.confirmDelivery(
+        confirmDto({
+          vvmStage: 3,
+          items: [
+            { vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 150, damagedQuantity: 50, vvmStage: 3 },
+            { vaccineCode: 'BCG', lotNumber: 'BCG-C', quantity: 0, damagedQuantity: 300, vvmStage: 4 },
+          ],
+        }),
+        user,
+      );
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            expect.objectContaining({ lotNumber: 'BCG-A', quantity: 150, damagedQuantity: 50, vvmStage: 3 }),
+            expect.objectContaining({ lotNumber: 'BCG-C', quantity: 0, damagedQuantity: 300, vvmStage: 4 }),
+          ],
+        }),
+      );
+      const [lots] = mockSnapshotRepository.save.mock.calls[0];
+      expect(lots).toHaveLength(2);
+      expect(lots[0]).toEqual(expect.objectContaining({ lotNumber: 'BCG-A', quantityOnHand: 250, vvmStage: 3 }));
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 150, quantityOnHand: 250, vvmStage: 3 }),
+      );
+    });
+
+    it('should count damaged doses against the doses shipped', async () => {
+      await expect(
+        service.confirmDelivery(
+          confirmDto({ items: [{ vaccineCode: 'BCG', lotNumber: 'BCG-A', quantity: 190, damagedQuantity: 20 }] }),
+          user,
+        ),
+      ).rejects.toThrow('Received quantity of lot BCG-A exceeds the 200 doses shipped');
+    });
+
+    it('should store the shipment photo with the delivery', async () => {
+      const result = await service.confirmDelivery(confirmDto({ photo: 'data:image/jpeg;base64,/9j/4AAQ' }), user);
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({ photo: Buffer.from('/9j/4AAQ', 'base64'), photoContentType: 'image/jpeg' }),
+      );
+      expect(result.confirmationId).toBe('delivery-1');
+    });
+
+    it('should reject a photo whose content does not match its declared type', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString('base64');
+
+      await expect(
+        service.confirmDelivery(confirmDto({ photo: `data:image/jpeg;base64,${png}` }), user),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject users not assigned to a facility', async () => {
+      mockLocationRepository.findOne.mockResolvedValue({ id: 'lga-1', type: LocationType.LGA });
+
+      await expect(service.confirmDelivery(confirmDto(), { ...user, assignedLocationId: 'lga-1' })).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(service.confirmDelivery(confirmDto(), { ...user, assignedLocationId: undefined })).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a QR code that has already been received', async () => {
+      mockDeliveryRepository.exists.mockResolvedValue(true);
+
+      await expect(service.confirmDelivery(confirmDto(), user)).rejects.toThrow(ConflictException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockWebhookDispatchService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should report a concurrent confirmation of the same QR code as a conflict', async () => {
+      mockManager.save.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(service.confirmDelivery(confirmDto(), user)).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject unknown vaccines', async () => {
+      mockVaccineRepository.findBy.mockResolvedValue([]);
+
+      await expect(service.confirmDelivery(confirmDto(), user)).rejects.toThrow(BadRequestException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Querying deliveries', () => {
+    it('should throw when the delivery does not exist', async () => {
+      mockDeliveryRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getDelivery('missing')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should return deliveries for a transfer with their items', async () => {
+      mockDeliveryRepository.find.mockResolvedValue([
+        {
+          id: 'delivery-1',
+          qrCodeId: 'QR-DEL-12345',
+          transferId: 'TRF-2024-001',
+          facilityId: 'facility-1',
+          facility,
+          status: 'CONFIRMED',
+          vvmStage: 2,
+          temperature: 4.5,
+          latitude: '9.076500',
+          longitude: '7.398600',
+          deliveredAt: new Date('2024-03-01T10:30:00Z'),
+          confirmedAt: new Date('2024-03-01T10:31:00Z'),
+          items: [{ vaccineId: BCG_ID, vaccine: bcg, lotNumber: 'BCG-C', expiryDate: '2025-06-30', quantity: 300 }],
+        },
+      ]);
+
+      const [delivery] = await service.getDeliveriesByTransfer('TRF-2024-001');
+
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          facilityName: 'Garki PHC',
+          location: { lat: 9.0765, lng: 7.3986 },
+          hasPhoto: false,
+          items: [
+            {
+              vaccineId: BCG_ID,
+              vaccineCode: 'BCG',
+              lotNumber: 'BCG-C',
+              expiryDate: '2025-06-30',
+              quantity: 300,
+              damagedQuantity: 0,
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should throw when the delivery has no photo', async () => {
+      mockDeliveryRepository.findOne.mockResolvedValue({ id: 'delivery-1', facilityId: 'facility-1', photo: null });
+
+      await expect(service.getDeliveryPhoto('delivery-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -5,56 +5,84 @@
  * Integrates with LMD (Last-Mile Delivery) module for
  * offline-captured delivery data synchronization.
  *
+ * Every delivery is received against the signed manifest scanned from its QR
+ * code (see DeliveryManifestService): the manifest must be addressed to the
+ * confirming user's facility, and only lots on it can be received, up to the
+ * quantities shipped. Each line records the doses received, the doses that
+ * arrived damaged (never added to stock) and the VVM stage of the lot; a
+ * photo of the shipment may accompany the proof of delivery.
+ *
+ * A confirmation is received into the confirming user's facility in one
+ * transaction:
+ * - deliveries / delivery_items: the delivery and the lots received
+ * - stock_snapshots: today's snapshot per lot (carried forward from the
+ *   latest snapshot date) with the received quantities added
+ * - stock_ledger: one 'receipt' (transfer in) entry per vaccine with the new
+ *   stock on hand
+ * - delivery_manifests: the manifest is marked received
+ *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { randomUUID } from 'crypto';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
 
+import { Delivery, DeliveryStatus } from '../../entities/delivery.entity';
+import { DeliveryItem } from '../../entities/delivery-item.entity';
+import { DeliveryManifest, DeliveryManifestItem } from '../../entities/delivery-manifest.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { StockLedger, StockLedgerReason } from '../../entities/stock-ledger.entity';
+import { OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService, UNIQUE_VIOLATION } from '../stock/stock-snapshot.service';
+import { DeliveryManifestService } from './delivery-manifest.service';
 import {
   ConfirmDeliveryDto,
   DeliveryConfirmationResponseDto,
+  DeliveryDto,
+  DeliveryItemDto,
 } from './dto/delivery.dto';
 
 // ============================================
 // INTERFACES & TYPES
 // ============================================
 
-interface DeliveryRecord {
-  id: string;
-  qrCodeId: string;
-  transferId: string;
-  vvmStage: number;
-  temperature: number;
-  notes?: string;
-  timestamp: string;
-  location?: {
-    lat: number;
-    lng: number;
-  };
-  confirmedAt: string;
-  status: 'CONFIRMED' | 'REJECTED' | 'PENDING';
-  facilityId?: string;
-  facilityName?: string;
+export type DeliveryUser = ExtendedRequest['user'];
+
+export interface DeliveryPhoto {
+  facilityId: string;
+  contentType: string;
+  body: Buffer;
 }
 
 // ============================================
-// ============================================
-// TYPES EXPORTS
+// CONSTANTS
 // ============================================
 
-export type { DeliveryRecord };
+const RECEIPT_TRANSACTION = 'receipt';
 
-// ============================================
-// MOCK DELIVERY DATABASE
-// ============================================
+const PHOTO_DATA_URL = /^data:(image\/(?:jpeg|png|webp));base64,(.+)$/;
 
-// In production, this would be replaced with actual database queries
-const MOCK_DELIVERIES: DeliveryRecord[] = [];
+// Leading bytes of each accepted photo type
+const PHOTO_SIGNATURES: Record<string, (photo: Buffer) => boolean> = {
+  'image/jpeg': (photo) => photo.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/png': (photo) => photo.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': (photo) => photo.toString('latin1', 0, 4) === 'RIFF' && photo.toString('latin1', 8, 12) === 'WEBP',
+};
 
 // ============================================
 // DELIVERY SERVICE
@@ -65,7 +93,17 @@ export class DeliveryService {
   private readonly logger = new Logger(DeliveryService.name);
 
   constructor(
-    private readonly configService: ConfigService,
+    private readonly dataSource: DataSource,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    @InjectRepository(Vaccine)
+    private readonly vaccineRepository: Repository<Vaccine>,
+    private readonly webhookDispatchService: WebhookDispatchService,
+    private readonly productBatchService: ProductBatchService,
+    private readonly stockSnapshotService: StockSnapshotService,
+    private readonly deliveryManifestService: DeliveryManifestService,
   ) {
     this.logger.log('Delivery Service initialized');
   }
@@ -75,10 +113,11 @@ export class DeliveryService {
   // ============================================
 
   /**
-   * Confirm delivery from QR scan
+   * Confirm delivery from QR scan and receive it into the user's facility
    */
   async confirmDelivery(
     confirmDto: ConfirmDeliveryDto,
+    user: DeliveryUser,
   ): Promise<DeliveryConfirmationResponseDto> {
     this.logger.log(
       `Delivery confirmation for QR: ${confirmDto.qrCodeId}, Transfer: ${confirmDto.transferId}`,
@@ -86,7 +125,7 @@ export class DeliveryService {
 
     // Validate VVM stage (1-4)
     if (confirmDto.vvmStage < 1 || confirmDto.vvmStage > 4) {
-      throw new Error('Invalid VVM stage. Must be between 1 and 4.');
+      throw new BadRequestException('Invalid VVM stage. Must be between 1 and 4.');
     }
 
     // Validate temperature (typical cold chain: 2°C to 8°C)
@@ -96,24 +135,67 @@ export class DeliveryService {
       );
     }
 
-    // Create delivery record
-    const deliveryRecord: DeliveryRecord = {
-      id: randomUUID(),
-      qrCodeId: confirmDto.qrCodeId,
-      transferId: confirmDto.transferId,
-      vvmStage: confirmDto.vvmStage,
-      temperature: confirmDto.temperature,
-      notes: confirmDto.notes,
-      timestamp: confirmDto.timestamp,
-      location: confirmDto.location,
-      confirmedAt: new Date().toISOString(),
-      status: 'CONFIRMED',
-      facilityId: 'FAC-001', // In production, derive from user context
-      facilityName: 'Demo Facility',
-    };
+    const facility = await this.getReceivingFacility(user);
+    const manifest = await this.deliveryManifestService.verifyManifest(confirmDto.manifest);
+    const items = this.getReceivedItems(confirmDto, manifest, facility);
+
+    if (await this.deliveryRepository.exists({ where: { qrCodeId: confirmDto.qrCodeId } })) {
+      throw new ConflictException(`Delivery ${confirmDto.qrCodeId} has already been received`);
+    }
+
+    const vaccines = await this.getVaccines(items);
+    const photo = confirmDto.photo ? this.decodePhoto(confirmDto.photo) : undefined;
 
-    // Store delivery record (in production, save to database)
-    MOCK_DELIVERIES.push(deliveryRecord);
+    let delivery: Delivery;
+    try {
+      delivery = await this.dataSource.transaction(async (manager) => {
+        const saved = await manager.save(
+          manager.create(Delivery, {
+            qrCodeId: confirmDto.qrCodeId,
+            transferId: confirmDto.transferId,
+            facilityId: facility.id,
+            confirmedBy: user.id,
+            status: DeliveryStatus.CONFIRMED,
+            vvmStage: confirmDto.vvmStage,
+            temperature: confirmDto.temperature,
+            notes: confirmDto.notes,
+            latitude: confirmDto.location?.lat,
+            longitude: confirmDto.location?.lng,
+            deliveredAt: new Date(confirmDto.timestamp),
+            photo: photo?.body,
+            photoContentType: photo?.contentType,
+            items: items.map((item) =>
+              manager.create(DeliveryItem, {
+                vaccineId: vaccines.find((vaccine) => vaccine.code === item.vaccineCode).id,
+                lotNumber: item.lotNumber,
+                expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined,
+                quantity: item.quantity,
+                damagedQuantity: item.damagedQuantity ?? 0,
+                vvmStage: item.vvmStage,
+              }),
+            ),
+          }),
+        );
+
+        // Lots that arrived entirely damaged add nothing to stock
+        for (const vaccine of vaccines) {
+          const received = items.filter((item) => item.vaccineCode === vaccine.code && item.quantity > 0);
+          if (received.length > 0) {
+            await this.receiveStock(manager, saved, facility, vaccine, received);
+          }
+        }
+
+        await this.deliveryManifestService.consumeManifest(manager, manifest.id, saved.id);
+
+        return saved;
+      });
+    } catch (error) {
+      // Two devices confirming the same QR code at once
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(`Delivery ${confirmDto.qrCodeId} has already been received`);
+      }
+      throw error;
+    }
 
     // Determine VVM status based on stage
     const vvmStatus = this.getVVMStatus(confirmDto.vvmStage);
@@ -122,17 +204,27 @@ export class DeliveryService {
     const temperatureStatus = this.getTemperatureStatus(confirmDto.temperature);
 
     this.logger.log(
-      `Delivery confirmed successfully: ${deliveryRecord.id} (VVM: ${vvmStatus}, Temp: ${temperatureStatus})`,
+      `Delivery confirmed successfully: ${delivery.id} at ${facility.code} (VVM: ${vvmStatus}, Temp: ${temperatureStatus})`,
     );
 
+    delivery.facility = facility;
+    for (const item of delivery.items || []) {
+      item.vaccine = vaccines.find((vaccine) => vaccine.id === item.vaccineId);
+    }
+    await this.webhookDispatchService.publish(OutboundEventType.DELIVERY_CONFIRMED, {
+      ...this.toDto(delivery),
+      vvmStatus,
+      temperatureStatus,
+    });
+
     return {
-      confirmationId: deliveryRecord.id,
-      transferId: confirmDto.transferId,
-      status: 'CONFIRMED',
-      confirmedAt: deliveryRecord.confirmedAt,
+      confirmationId: delivery.id,
+      transferId: delivery.transferId,
+      status: delivery.status,
+      confirmedAt: new Date(delivery.confirmedAt).toISOString(),
       meta: {
-        facilityId: deliveryRecord.facilityId,
-        facilityName: deliveryRecord.facilityName,
+        facilityId: facility.id,
+        facilityName: facility.name,
         vvmStatus,
         temperatureStatus,
       },
@@ -142,23 +234,247 @@ export class DeliveryService {
   /**
    * Get delivery by ID
    */
-  async getDelivery(deliveryId: string): Promise<DeliveryRecord | null> {
+  async getDelivery(deliveryId: string): Promise<DeliveryDto> {
     this.logger.debug(`Fetching delivery: ${deliveryId}`);
-    return MOCK_DELIVERIES.find((d) => d.id === deliveryId) || null;
+
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: { items: { vaccine: true }, facility: true },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Delivery not found: ${deliveryId}`);
+    }
+
+    return this.toDto(delivery);
+  }
+
+  /**
+   * Get the shipment photo of a delivery
+   */
+  async getDeliveryPhoto(deliveryId: string): Promise<DeliveryPhoto> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      select: { id: true, facilityId: true, photo: true, photoContentType: true },
+    });
+
+    if (!delivery?.photo) {
+      throw new NotFoundException(`Delivery photo not found: ${deliveryId}`);
+    }
+
+    return { facilityId: delivery.facilityId, contentType: delivery.photoContentType, body: delivery.photo };
   }
 
   /**
    * Get deliveries by transfer ID
    */
-  async getDeliveriesByTransfer(transferId: string): Promise<DeliveryRecord[]> {
+  async getDeliveriesByTransfer(transferId: string): Promise<DeliveryDto[]> {
     this.logger.debug(`Fetching deliveries for transfer: ${transferId}`);
-    return MOCK_DELIVERIES.filter((d) => d.transferId === transferId);
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { transferId },
+      relations: { items: { vaccine: true }, facility: true },
+      order: { confirmedAt: 'DESC' },
+    });
+
+    return deliveries.map((delivery) => this.toDto(delivery));
   }
 
   // ============================================
   // PRIVATE METHODS
   // ============================================
 
+  /**
+   * Deliveries are always received into the confirming user's own facility
+   */
+  private async getReceivingFacility(user: DeliveryUser): Promise<Location> {
+    const facility = user?.assignedLocationId
+      ? await this.locationRepository.findOne({
+          where: { id: user.assignedLocationId },
+          relations: { parent: true },
+        })
+      : null;
+
+    if (!facility || facility.type !== LocationType.FACILITY) {
+      throw new ForbiddenException('Delivery confirmation requires an account assigned to a health facility');
+    }
+
+    return facility;
+  }
+
+  /**
+   * Received lots checked against the manifest, with expiry dates from the
+   * manifest. Received and damaged doses together may fall short of the
+   * doses shipped, never exceed them.
+   */
+  private getReceivedItems(
+    confirmDto: ConfirmDeliveryDto,
+    manifest: DeliveryManifest,
+    facility: Location,
+  ): DeliveryItemDto[] {
+    if (confirmDto.qrCodeId !== manifest.id || confirmDto.transferId !== manifest.transferId) {
+      throw new BadRequestException('QR code ID and transfer ID do not match the scanned manifest');
+    }
+    if (manifest.destinationId !== facility.id) {
+      throw new ForbiddenException(`Manifest ${manifest.id} is addressed to another facility`);
+    }
+
+    const received = new Map<DeliveryManifestItem, number>();
+
+    return confirmDto.items.map((item) => {
+      const shipped = manifest.items.find(
+        (line) => line.vaccineCode === item.vaccineCode && line.lotNumber === item.lotNumber,
+      );
+
+      if (!shipped) {
+        throw new BadRequestException(`Lot ${item.lotNumber ?? '(none)'} of ${item.vaccineCode} is not on the manifest`);
+      }
+
+      received.set(shipped, (received.get(shipped) ?? 0) + item.quantity + (item.damagedQuantity ?? 0));
+      if (received.get(shipped) > shipped.quantity) {
+        throw new BadRequestException(
+          `Received quantity of lot ${shipped.lotNumber} exceeds the ${shipped.quantity} doses shipped`,
+        );
+      }
+
+      return { ...item, expiryDate: shipped.expiryDate };
+    });
+  }
+
+  /**
+   * Decode the shipment photo, rejecting data URLs whose content is not the declared image type
+   */
+  private decodePhoto(dataUrl: string): { contentType: string; body: Buffer } {
+    const match = dataUrl.match(PHOTO_DATA_URL);
+    const body = match && Buffer.from(match[2], 'base64');
+
+    if (!match || !PHOTO_SIGNATURES[match[1]](body)) {
+      throw new BadRequestException('photo must be a base64 JPEG, PNG or WebP image matching its declared type');
+    }
+
+    return { contentType: match[1], body };
+  }
+
+  private async getVaccines(items: DeliveryItemDto[]): Promise<Vaccine[]> {
+    const codes = [...new Set(items.map((item) => item.vaccineCode))];
+    const vaccines = await this.vaccineRepository.findBy({ code: In(codes) });
+
+    const missing = codes.filter((code) => !vaccines.some((vaccine) => vaccine.code === code));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown vaccine: ${missing.join(', ')}`);
+    }
+
+    return vaccines;
+  }
+
+  /**
+   * Add the received lots to today's snapshot and record the receipt in the ledger
+   */
+  private async receiveStock(
+    manager: EntityManager,
+    delivery: Delivery,
+    facility: Location,
+    vaccine: Vaccine,
+    items: DeliveryItemDto[],
+  ): Promise<void> {
+    const snapshotRepository = manager.getRepository(StockSnapshot);
+    const now = new Date();
+    const where = { facilityId: facility.id, vaccineId: vaccine.id };
+    const lots = await this.stockSnapshotService.getCurrentLots(manager, where, now);
+
+    for (const item of items) {
+      const lot = lots.find((existing) => (existing.lotNumber ?? null) === (item.lotNumber ?? null));
+      const vvmStage = item.vvmStage ?? delivery.vvmStage;
+
+      if (lot) {
+        lot.quantityOnHand += item.quantity;
+        lot.expiryDate = lot.expiryDate ?? (item.expiryDate ? new Date(item.expiryDate) : undefined);
+        lot.vvmStage = Math.max(lot.vvmStage ?? 0, vvmStage);
+      } else {
+        lots.push(
+          snapshotRepository.create({
+            ...where,
+            lotNumber: item.lotNumber,
+            expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined,
+            vvmStage,
+            quantityOnHand: item.quantity,
+            snapshotDate: now,
+          }),
+        );
+      }
+    }
+
+    const quantityOnHand = lots.reduce((sum, lot) => sum + lot.quantityOnHand, 0);
+    const consumption = Math.max(0, ...lots.map((lot) => Number(lot.averageMonthlyConsumption) || 0));
+    const monthsOfStock = consumption > 0 ? Math.round((quantityOnHand / consumption) * 100) / 100 : null;
+
+    for (const lot of lots) {
+      if (monthsOfStock !== null) {
+        lot.monthsOfStock = monthsOfStock;
+      }
+      lot.stockStatus = this.getStockStatus(monthsOfStock, vaccine, lot.stockStatus);
+    }
+
+    await snapshotRepository.save(lots);
+    await this.productBatchService.recordLots(manager, lots);
+
+    await manager.getRepository(StockLedger).insert({
+      ...where,
+      ...this.stockSnapshotService.getHierarchy(facility),
+      quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      quantityOnHand,
+      vvmStage: Math.max(...items.map((item) => item.vvmStage ?? delivery.vvmStage)),
+      transactionType: RECEIPT_TRANSACTION,
+      transactionReference: `delivery:${delivery.id}`,
+      reasonCode: StockLedgerReason.TRANSFER_IN,
+      snapshotDate: now,
+    });
+  }
+
+  /**
+   * Stock status after a receipt. Without consumption data months of stock
+   * cannot be assessed, so the previous status is kept (stock is no longer out).
+   */
+  private getStockStatus(monthsOfStock: number | null, vaccine: Vaccine, previous?: StockStatus): StockStatus | null {
+    if (monthsOfStock === null) {
+      return previous === StockStatus.STOCKOUT ? null : previous ?? null;
+    }
+    if (monthsOfStock < Number(vaccine.minMonthsOfStock)) return StockStatus.UNDERSTOCKED;
+    if (monthsOfStock > Number(vaccine.maxMonthsOfStock)) return StockStatus.OVERSTOCKED;
+    return StockStatus.OPTIMAL;
+  }
+
+  private toDto(delivery: Delivery): DeliveryDto {
+    return {
+      id: delivery.id,
+      qrCodeId: delivery.qrCodeId,
+      transferId: delivery.transferId,
+      facilityId: delivery.facilityId,
+      facilityName: delivery.facility?.name,
+      confirmedBy: delivery.confirmedBy,
+      status: delivery.status,
+      vvmStage: delivery.vvmStage,
+      temperature: delivery.temperature,
+      notes: delivery.notes,
+      location:
+        delivery.latitude != null && delivery.longitude != null
+          ? { lat: Number(delivery.latitude), lng: Number(delivery.longitude) }
+          : undefined,
+      deliveredAt: new Date(delivery.deliveredAt).toISOString(),
+      confirmedAt: new Date(delivery.confirmedAt).toISOString(),
+      hasPhoto: !!delivery.photoContentType,
+      items: (delivery.items || []).map((item) => ({
+        vaccineId: item.vaccineId,
+        vaccineCode: item.vaccine?.code,
+        lotNumber: item.lotNumber,
+        expiryDate: item.expiryDate ? DateUtils.mixedDateToDateString(item.expiryDate) : undefined,
+        quantity: item.quantity,
+        damagedQuantity: item.damagedQuantity ?? 0,
+        vvmStage: item.vvmStage ?? undefined,
+      })),
+    };
+  }
+
   /**
    * Get VVM status description based on stage
    */
@@ -9,7 +9,25 @@
  * @version 1.0.0
  */
 
-import { IsString, IsNotEmpty, IsOptional, IsNumber, Min, Max, MaxLength, IsDateString } from 'class-validator';
+import { JsonWebKey } from 'crypto';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  IsDateString,
+  IsEnum,
+  IsUUID,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Sanitize } from '../../../common/decorators/sanitize.decorator';
 
@@ -17,10 +35,80 @@ import { Sanitize } from '../../../common/decorators/sanitize.decorator';
 // REQUEST DTOS
 // ============================================
 
+export class DeliveryItemDto {
+  @ApiProperty({
+    description: 'Vaccine (product) code',
+    example: 'OPV',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode: string;
+
+  @ApiPropertyOptional({
+    description: 'Lot (batch) number',
+    example: 'BCG-2024-0117',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @Sanitize()
+  lotNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'Lot expiry date',
+    example: '2025-06-30',
+  })
+  @IsDateString()
+  @IsOptional()
+  expiryDate?: string;
+
+  @ApiProperty({
+    description: 'Doses received into stock',
+    example: 480,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Doses that arrived damaged; these are not added to stock',
+    example: 20,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  damagedQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'VVM stage read on the lot (1-4); defaults to the delivery VVM stage',
+    example: 1,
+    minimum: 1,
+    maximum: 4,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(4)
+  @IsOptional()
+  vvmStage?: number;
+}
+
 export class ConfirmDeliveryDto {
   @ApiProperty({
-    description: 'QR Code ID from the scanned delivery',
-    example: 'QR-DEL-12345',
+    description: 'Signed manifest read from the QR code (VXT1.<payload>.<signature>)',
+    example: 'VXT1.eyJ2IjoxLCJtaWQiOiI...In0.MEUCIQ...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  manifest: string;
+
+  @ApiProperty({
+    description: 'Manifest ID from the scanned QR code',
+    example: '0b6a2f4e-8c1d-4f3a-9e5b-7d2c1a0f9e8b',
   })
   @IsString()
   @IsNotEmpty()
@@ -39,7 +127,7 @@ export class ConfirmDeliveryDto {
   transferId: string;
 
   @ApiProperty({
-    description: 'VVM (Vaccine Vial Monitor) stage (1-4)',
+    description: 'VVM (Vaccine Vial Monitor) stage (1-4); the worst stage of the lots received',
     example: 2,
     minimum: 1,
     maximum: 4,
@@ -86,6 +174,102 @@ export class ConfirmDeliveryDto {
     lat: number;
     lng: number;
   };
+
+  @ApiPropertyOptional({
+    description: 'Photo of the shipment on arrival, as a base64 data URL (JPEG, PNG or WebP, up to about 1.5 MB)',
+    example: 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ...',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2_000_000)
+  @Matches(/^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/, {
+    message: 'photo must be a base64 JPEG, PNG or WebP data URL',
+  })
+  photo?: string;
+
+  @ApiProperty({
+    description: 'Vaccine lots received, one per manifest line; received doses are added to the facility stock',
+    type: [DeliveryItemDto],
+  })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => DeliveryItemDto)
+  items: DeliveryItemDto[];
+}
+
+export enum ManifestFormat {
+  PNG = 'png',
+  SVG = 'svg',
+  PDF = 'pdf',
+}
+
+export class ManifestLineDto {
+  @ApiProperty({
+    description: 'Vaccine (product) code',
+    example: 'BCG',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode: string;
+
+  @ApiProperty({
+    description: 'Lot (batch) number in the origin store',
+    example: 'BCG-2024-0117',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Sanitize()
+  lotNumber: string;
+
+  @ApiProperty({
+    description: 'Doses shipped',
+    example: 500,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateManifestDto {
+  @ApiProperty({
+    description: 'Transfer ID of the shipment, e.g. the stock issue ID',
+    example: 'transfer-abc-123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Sanitize()
+  transferId: string;
+
+  @ApiProperty({ description: 'Issuing facility or LGA store ID' })
+  @IsUUID()
+  originId: string;
+
+  @ApiProperty({ description: 'Receiving facility ID' })
+  @IsUUID()
+  destinationId: string;
+
+  @ApiProperty({
+    description: 'Lots shipped; expiry dates are taken from the origin lot register',
+    type: [ManifestLineDto],
+  })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20) // Keeps the signed payload within a printable QR code
+  @ValidateNested({ each: true })
+  @Type(() => ManifestLineDto)
+  items: ManifestLineDto[];
+}
+
+export class ManifestQrQueryDto {
+  @ApiPropertyOptional({ enum: ManifestFormat, default: ManifestFormat.PNG })
+  @IsEnum(ManifestFormat)
+  @IsOptional()
+  format?: ManifestFormat;
 }
 
 // ============================================
@@ -129,3 +313,142 @@ export class DeliveryConfirmationResponseDto {
     temperatureStatus?: string;
   };
 }
+
+export class DeliveryItemResponseDto {
+  @ApiProperty({ description: 'Vaccine ID' })
+  vaccineId: string;
+
+  @ApiPropertyOptional({ description: 'Vaccine code' })
+  vaccineCode?: string;
+
+  @ApiPropertyOptional({ description: 'Lot number' })
+  lotNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Lot expiry date' })
+  expiryDate?: string;
+
+  @ApiProperty({ description: 'Doses received into stock' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Doses that arrived damaged' })
+  damagedQuantity: number;
+
+  @ApiPropertyOptional({ description: 'VVM stage of the lot on arrival' })
+  vvmStage?: number;
+}
+
+export class DeliveryDto {
+  @ApiProperty({ description: 'Delivery (confirmation) ID' })
+  id: string;
+
+  @ApiProperty({ description: 'QR code ID' })
+  qrCodeId: string;
+
+  @ApiProperty({ description: 'Transfer ID' })
+  transferId: string;
+
+  @ApiProperty({ description: 'Receiving facility ID' })
+  facilityId: string;
+
+  @ApiPropertyOptional({ description: 'Receiving facility name' })
+  facilityName?: string;
+
+  @ApiPropertyOptional({ description: 'User who confirmed receipt' })
+  confirmedBy?: string;
+
+  @ApiProperty({ enum: ['CONFIRMED', 'REJECTED', 'PENDING'] })
+  status: string;
+
+  @ApiProperty({ description: 'VVM stage on arrival' })
+  vvmStage: number;
+
+  @ApiProperty({ description: 'Temperature on arrival (Celsius)' })
+  temperature: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  notes?: string;
+
+  @ApiPropertyOptional({ description: 'GPS location of the confirmation', type: 'object' })
+  location?: {
+    lat: number;
+    lng: number;
+  };
+
+  @ApiProperty({ description: 'Device time of the scan' })
+  deliveredAt: string;
+
+  @ApiProperty({ description: 'Server time of the confirmation' })
+  confirmedAt: string;
+
+  @ApiProperty({ description: 'Whether a shipment photo was captured (GET /delivery/:id/photo)' })
+  hasPhoto: boolean;
+
+  @ApiProperty({ type: [DeliveryItemResponseDto] })
+  items: DeliveryItemResponseDto[];
+}
+
+export class ManifestItemResponseDto {
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Lot number' })
+  lotNumber: string;
+
+  @ApiProperty({ description: 'Lot expiry date' })
+  expiryDate: string;
+
+  @ApiProperty({ description: 'Doses shipped' })
+  quantity: number;
+}
+
+export class ManifestDto {
+  @ApiProperty({ description: 'Manifest ID; the delivery is confirmed with it as QR code ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Transfer ID' })
+  transferId: string;
+
+  @ApiProperty({ description: 'Issuing facility or LGA store ID' })
+  originId: string;
+
+  @ApiPropertyOptional({ description: 'Issuing facility or LGA store name' })
+  originName?: string;
+
+  @ApiProperty({ description: 'Receiving facility ID' })
+  destinationId: string;
+
+  @ApiPropertyOptional({ description: 'Receiving facility name' })
+  destinationName?: string;
+
+  @ApiProperty({ type: [ManifestItemResponseDto] })
+  items: ManifestItemResponseDto[];
+
+  @ApiProperty({ description: 'Signed QR payload' })
+  token: string;
+
+  @ApiProperty({ description: 'ID of the key that signed the manifest' })
+  keyId: string;
+
+  @ApiProperty({ description: 'Issue time' })
+  issuedAt: string;
+
+  @ApiProperty({ description: 'Time after which the manifest can no longer be received' })
+  expiresAt: string;
+
+  @ApiPropertyOptional({ description: 'Time the manifest was received' })
+  consumedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Delivery that received the manifest' })
+  deliveryId?: string;
+}
+
+export class ManifestPublicKeyDto {
+  @ApiProperty({ description: 'Key ID carried in every manifest signed with the key' })
+  keyId: string;
+
+  @ApiProperty({ description: 'Signature algorithm', example: 'ES256' })
+  algorithm: string;
+
+  @ApiProperty({ description: 'ECDSA P-256 public key as a JSON Web Key', type: 'object' })
+  jwk: JsonWebKey;
+}
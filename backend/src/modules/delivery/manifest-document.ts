@@ -0,0 +1,94 @@
+/**
+ * VaxTrace Nigeria - Printable Manifest Document
+ *
+ * Renders a delivery manifest as a single-page A4 PDF: the QR code drawn
+ * module by module, followed by the manifest details as text. Written
+ * directly in PDF syntax so the backend needs no PDF library.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { BitMatrix } from 'qrcode';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+const QR_SIZE = 240;
+const FONT_SIZE = 10;
+const TITLE_SIZE = 16;
+const LINE_HEIGHT = 15;
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * Build the PDF. Lines are printed in Helvetica; characters outside
+ * printable ASCII are replaced with '?'.
+ */
+export function buildManifestPdf(modules: BitMatrix, title: string, lines: string[]): Buffer {
+  const moduleSize = QR_SIZE / modules.size;
+  const qrTop = PAGE_HEIGHT - MARGIN - TITLE_SIZE - LINE_HEIGHT;
+  const content: string[] = ['0 g'];
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        const x = MARGIN + col * moduleSize;
+        const y = qrTop - (row + 1) * moduleSize;
+        content.push(`${round(x)} ${round(y)} ${round(moduleSize)} ${round(moduleSize)} re`);
+      }
+    }
+  }
+  content.push('f');
+
+  content.push(text(MARGIN, PAGE_HEIGHT - MARGIN - TITLE_SIZE, TITLE_SIZE, title));
+  lines.forEach((line, index) => {
+    content.push(text(MARGIN, qrTop - QR_SIZE - LINE_HEIGHT * (index + 2), FONT_SIZE, line));
+  });
+
+  const stream = content.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+  ];
+
+  // Everything written is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function text(x: number, y: number, size: number, value: string): string {
+  const escaped = value.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+  return `BT /F1 ${size} Tf ${round(x)} ${round(y)} Td (${escaped}) Tj ET`;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -3,14 +3,19 @@
  * 
  * REST API for managing feature flags.
  * Provides endpoints to check, list, and manage feature flags.
+ * Flags are readable by any authenticated user; only system admins change them.
  */
 
 import { Controller, Get, Post, Put, Delete, Param, Body, Logger, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { FeatureFlagsService } from './feature-flags.service';
+import { Audited } from '../audit/audit.interceptor';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
 
 @ApiTags('feature-flags')
+@ApiBearerAuth()
 @Controller('feature-flags')
+@UseGuards(RBACGuard)
 export class FeatureFlagsController {
   private readonly logger = new Logger(FeatureFlagsController.name);
 
@@ -19,7 +24,7 @@ export class FeatureFlagsController {
   /**
    * Get all feature flags
    * 
-   * GET /api/feature-flags
+   * GET /api/v1/feature-flags
    */
   @Get()
   @ApiOperation({ summary: 'Get all feature flags' })
@@ -39,7 +44,7 @@ export class FeatureFlagsController {
   /**
    * Check if a specific feature flag is enabled
    * 
-   * GET /api/feature-flags/:key/check
+   * GET /api/v1/feature-flags/:key/check
    */
   @Get(':key/check')
   @ApiOperation({ summary: 'Check if a feature flag is enabled' })
@@ -72,10 +77,12 @@ export class FeatureFlagsController {
   /**
    * Enable a feature flag
    * 
-   * PUT /api/feature-flags/:key/enable
-   * Requires authentication
+   * PUT /api/v1/feature-flags/:key/enable
+   * Requires system admin
    */
   @Put(':key/enable')
+  @Roles('system_admin')
+  @Audited({ action: 'ENABLE', resource: 'feature_flag' })
   @ApiOperation({ summary: 'Enable a feature flag' })
   @ApiResponse({ status: 200, description: 'Flag enabled successfully' })
   enableFlag(@Param('key') key: string) {
@@ -94,10 +101,12 @@ export class FeatureFlagsController {
   /**
    * Disable a feature flag
    * 
-   * PUT /api/feature-flags/:key/disable
-   * Requires authentication
+   * PUT /api/v1/feature-flags/:key/disable
+   * Requires system admin
    */
   @Put(':key/disable')
+  @Roles('system_admin')
+  @Audited({ action: 'DISABLE', resource: 'feature_flag' })
   @ApiOperation({ summary: 'Disable a feature flag' })
   @ApiResponse({ status: 200, description: 'Flag disabled successfully' })
   disableFlag(@Param('key') key: string) {
@@ -116,10 +125,12 @@ export class FeatureFlagsController {
   /**
    * Set rollout percentage for a feature flag
    * 
-   * PUT /api/feature-flags/:key/rollout
-   * Requires authentication
+   * PUT /api/v1/feature-flags/:key/rollout
+   * Requires system admin
    */
   @Put(':key/rollout')
+  @Roles('system_admin')
+  @Audited({ action: 'UPDATE', resource: 'feature_flag' })
   @ApiOperation({ summary: 'Set rollout percentage for a feature flag' })
   @ApiResponse({ status: 200, description: 'Rollout percentage set successfully' })
   setRollout(
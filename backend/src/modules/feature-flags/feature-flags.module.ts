@@ -0,0 +1,23 @@
+/**
+ * VaxTrace Nigeria - Feature Flags Module
+ *
+ * Feature flags with environment overrides; system admins toggle them and
+ * set rollout percentages at runtime.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { FeatureFlagsController } from './feature-flags.controller';
+import { FeatureFlagsService } from './feature-flags.service';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [FeatureFlagsController],
+  providers: [FeatureFlagsService],
+  exports: [FeatureFlagsService],
+})
+export class FeatureFlagsModule {}
@@ -6,19 +6,30 @@
  * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
  */
 
-import { IsString, IsNumber, IsBoolean, IsDateString, IsArray, ValidateNested, IsOptional, IsEnum, MaxLength, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsDateString,
+  IsArray,
+  ValidateNested,
+  IsOptional,
+  IsEnum,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import {
+  VVMStatus,
+  LMDReconciliationStatus,
+  LMDReconciliationIssue,
+  LMDReconciliationLine,
+} from '../../../entities/lmd-record.entity';
 
-/**
- * VVM Status Enum
- */
-export enum VVMStatus {
-  OK = 'OK',
-  WARNING = 'WARNING',
-  CRITICAL = 'CRITICAL',
-  NOT_TESTED = 'NOT_TESTED',
-}
+export { VVMStatus, LMDReconciliationStatus, LMDReconciliationIssue };
 
 /**
  * LMD Delivery Item DTO
@@ -34,11 +45,11 @@ export class LMDDeliveryItemDto {
   @Sanitize()
   productName: string;
 
-  @IsNumber()
+  @IsInt()
   @Min(0)
   quantityDelivered: number;
 
-  @IsNumber()
+  @IsInt()
   @Min(0)
   quantityReceived: number;
 
@@ -145,3 +156,101 @@ export class LMDDto {
   @IsDateString()
   updatedAt: string;
 }
+
+/**
+ * LMD Query DTO
+ *
+ * Filters for the statistics, active delivery and bottleneck queries
+ */
+export class LMDQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  stateCode?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lgaCode?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  facilityId?: string;
+}
+
+/**
+ * LMD Statistics
+ */
+export class LMDStatisticsDto {
+  totalDeliveries: number;
+  todayDeliveries: number;
+  pendingSync: number;
+  byState: Record<string, number>;
+  byLGA: Record<string, number>;
+  vvmStatusBreakdown: Record<string, number>;
+}
+
+/**
+ * Facility with VVM-critical items or cold chain breaks on delivery
+ */
+export class LMDBottleneckDto {
+  facilityId: string;
+  facilityName: string;
+  stateCode: string;
+  lgaCode: string;
+  lastDelivery: string;
+  vvmCriticalCount: number;
+  coldChainBreaks: number;
+}
+
+/**
+ * Disagreement found while reconciling a delivery item
+ */
+export class LMDReconciliationIssueDto {
+  type: LMDReconciliationIssue;
+  detail: string;
+}
+
+/**
+ * Delivery item compared with the approved requisition line item
+ * and the dispatching store's ledger and lots
+ */
+export class LMDReconciliationLineDto implements LMDReconciliationLine {
+  lineNumber: number;
+  productCode: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantityDelivered: number;
+  quantityReceived: number;
+  vaccineId: string | null;
+  requisitionId: string | null;
+  openlmisRequisitionId: string | null;
+  approvedQuantity: number | null;
+  dispatchingFacilityId: string | null;
+  dispatchedQuantity: number | null; // Issued by the dispatching store since approval; null without ledger entries
+  dispatchedExpiryDate: string | null; // Expiry of the batch in the dispatching store's stock
+  variancePercent: number | null; // Received vs approved
+  tolerance: number; // Percent, from the reconciliation_mismatch alert rule
+  status: LMDReconciliationStatus;
+  issues: LMDReconciliationIssueDto[];
+}
+
+/**
+ * Reconciliation report of one delivery
+ */
+export class LMDReconciliationDto {
+  recordId: string;
+  facilityId: string;
+  status: LMDReconciliationStatus | null; // Null until the delivery has been reconciled
+  reconciledAt: string | null;
+  lines: LMDReconciliationLineDto[];
+}
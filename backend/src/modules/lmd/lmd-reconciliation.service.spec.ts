@@ -0,0 +1,239 @@
+/**
+ * VaxTrace Nigeria - LMD Reconciliation Service Unit Tests
+ *
+ * Tests that delivery items are:
+ * - Matched against the approved requisition line item and dispatcher stock
+ * - Flagged when quantities, lots or expiry dates disagree beyond tolerance
+ * - Turned into RECONCILIATION_MISMATCH alerts unless the rule is disabled
+ */
+
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+
+import { LMDRecord } from '../../entities/lmd-record.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { RequisitionLineItem } from '../../entities/requisition-line-item.entity';
+import { AlertSeverity, AlertType } from '../../entities/alert.entity';
+import { CacheService } from '../cache/cache.service';
+import { AlertRulesService } from '../alerts/alert-rules.service';
+import { AlertEngineService } from '../alerts/alert-engine.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import { LMDReconciliationService } from './lmd-reconciliation.service';
+import { LMDReconciliationIssue, LMDReconciliationStatus, VVMStatus } from './dto/lmd.dto';
+
+describe('LMDReconciliationService', () => {
+  let service: LMDReconciliationService;
+  let mockDataSource: any;
+  let mockRecordRepository: any;
+  let mockFacilityQueryBuilder: any;
+  let mockLineItemQueryBuilder: any;
+  let mockRuleSet: any;
+  let mockAlertEngineService: any;
+  let mockCacheService: any;
+  let ledgerRows: any[];
+  let lotRows: any[];
+
+  const lga = { id: 'lga-1', type: LocationType.LGA, parentId: 'state-1', name: 'AMAC Store' } as Location;
+  const facility = { id: 'facility-1', type: LocationType.FACILITY, parentId: 'lga-1', parent: lga } as Location;
+
+  const storedRecord = (items: Record<string, unknown>[]): LMDRecord =>
+    ({
+      id: 'lmd-device-001',
+      facilityId: 'FAC-001',
+      deliveryTimestamp: new Date('2026-10-19T09:30:00Z'),
+      items: items.map((item, index) => ({
+        lineNumber: index + 1,
+        productCode: 'BCG',
+        quantityDelivered: 200,
+        quantityReceived: 200,
+        batchNumber: 'BCG-A',
+        expiryDate: '2027-06-30',
+        vvmStatus: VVMStatus.OK,
+        ...item,
+      })),
+    }) as unknown as LMDRecord;
+
+  const lineItem = (approvedQuantity: number) =>
+    ({
+      id: 'line-item-1',
+      requisitionId: 'requisition-1',
+      approvedQuantity,
+      requisition: { openlmisRequisitionId: 'REQ-42', approvedDate: new Date('2026-10-01'), createdDate: new Date('2026-09-28') },
+    }) as unknown as RequisitionLineItem;
+
+  beforeEach(async () => {
+    ledgerRows = [{ entries: '2', issued: '500' }];
+    lotRows = [
+      { lot_number: 'BCG-A', expiry_date: '2027-06-30' },
+      { lot_number: 'BCG-B', expiry_date: '2027-03-31' },
+    ];
+
+    mockDataSource = {
+      query: jest.fn((sql: string) => Promise.resolve(sql.includes('stock_ledger') ? ledgerRows : lotRows)),
+    };
+
+    mockFacilityQueryBuilder = {
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(facility),
+    };
+
+    mockLineItemQueryBuilder = {
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(lineItem(200)),
+    };
+
+    mockRecordRepository = {
+      findOne: jest.fn().mockResolvedValue(storedRecord([{}])),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+
+    mockRuleSet = {
+      resolve: jest.fn().mockReturnValue({
+        alertType: AlertType.RECONCILIATION_MISMATCH,
+        severity: AlertSeverity.MEDIUM,
+        threshold: 5,
+        parameters: {},
+        ruleId: 'rule-1',
+      }),
+    };
+
+    mockAlertEngineService = {
+      upsertAlerts: jest.fn().mockResolvedValue({ created: 1, updated: 0, autoResolved: 0 }),
+    };
+
+    mockCacheService = {
+      invalidateAlertsCache: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LMDReconciliationService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(LMDRecord), useValue: mockRecordRepository },
+        { provide: getRepositoryToken(Location), useValue: { createQueryBuilder: jest.fn(() => mockFacilityQueryBuilder) } },
+        {
+          provide: getRepositoryToken(Vaccine),
+          useValue: { find: jest.fn().mockResolvedValue([{ id: 'vaccine-bcg', code: 'BCG' }]) },
+        },
+        {
+          provide: getRepositoryToken(RequisitionLineItem),
+          useValue: { createQueryBuilder: jest.fn(() => mockLineItemQueryBuilder) },
+        },
+        { provide: AlertRulesService, useValue: { loadRuleSet: jest.fn().mockResolvedValue(mockRuleSet) } },
+        { provide: AlertEngineService, useValue: mockAlertEngineService },
+        { provide: CacheService, useValue: mockCacheService },
+        StockSnapshotService,
+      ],
+    }).compile();
+
+    service = module.get<LMDReconciliationService>(LMDReconciliationService);
+  });
+
+  it('should match an item that agrees with the requisition and dispatcher stock', async () => {
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.status).toBe(LMDReconciliationStatus.MATCHED);
+    expect(report.lines[0]).toEqual(
+      expect.objectContaining({
+        vaccineId: 'vaccine-bcg',
+        openlmisRequisitionId: 'REQ-42',
+        approvedQuantity: 200,
+        dispatchingFacilityId: 'lga-1',
+        dispatchedQuantity: 500,
+        dispatchedExpiryDate: '2027-06-30',
+        variancePercent: 0,
+        issues: [],
+      }),
+    );
+    expect(mockRecordRepository.update).toHaveBeenCalledWith(
+      'lmd-device-001',
+      expect.objectContaining({ reconciliationStatus: LMDReconciliationStatus.MATCHED }),
+    );
+    expect(mockAlertEngineService.upsertAlerts).not.toHaveBeenCalled();
+  });
+
+  it('should raise an alert for short receipts and unknown lots', async () => {
+    mockRecordRepository.findOne.mockResolvedValue(storedRecord([{ quantityReceived: 150, batchNumber: 'BCG-X' }]));
+
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.status).toBe(LMDReconciliationStatus.MISMATCH);
+    expect(report.lines[0].issues.map((issue) => issue.type)).toEqual([
+      LMDReconciliationIssue.RECEIVED_VS_DELIVERED,
+      LMDReconciliationIssue.RECEIVED_VS_APPROVED,
+      LMDReconciliationIssue.UNKNOWN_LOT,
+    ]);
+    expect(report.lines[0].variancePercent).toBe(25);
+
+    const [alertType, candidates] = mockAlertEngineService.upsertAlerts.mock.calls[0];
+    expect(alertType).toBe(AlertType.RECONCILIATION_MISMATCH);
+    expect(candidates).toEqual([
+      expect.objectContaining({
+        facilityId: 'facility-1',
+        lgaId: 'lga-1',
+        stateId: 'state-1',
+        vaccineId: 'vaccine-bcg',
+        severity: AlertSeverity.MEDIUM,
+        dedupKey: 'reconciliation_mismatch:lmd:lmd-device-001:BCG:BCG-X',
+      }),
+    ]);
+    expect(mockCacheService.invalidateAlertsCache).toHaveBeenCalled();
+  });
+
+  it('should flag deliveries beyond what the dispatcher issued and expiry dates that differ', async () => {
+    ledgerRows = [{ entries: '1', issued: '100' }];
+    mockRecordRepository.findOne.mockResolvedValue(storedRecord([{ expiryDate: '2027-12-31' }]));
+
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.lines[0].issues.map((issue) => issue.type)).toEqual([
+      LMDReconciliationIssue.NOT_DISPATCHED,
+      LMDReconciliationIssue.EXPIRY_MISMATCH,
+    ]);
+  });
+
+  it('should not compare with the ledger or lots when the dispatcher has no data', async () => {
+    ledgerRows = [{ entries: '0', issued: '0' }];
+    lotRows = [];
+    mockRecordRepository.findOne.mockResolvedValue(storedRecord([{ batchNumber: 'BCG-X' }]));
+
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.status).toBe(LMDReconciliationStatus.MATCHED);
+    expect(report.lines[0].dispatchedQuantity).toBeNull();
+  });
+
+  it('should leave items without an approved requisition unmatched', async () => {
+    mockLineItemQueryBuilder.getOne.mockResolvedValue(null);
+
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.status).toBe(LMDReconciliationStatus.UNMATCHED);
+    expect(mockDataSource.query).not.toHaveBeenCalledWith(expect.stringContaining('stock_ledger'), expect.anything());
+  });
+
+  it('should record mismatches without alerts when the rule is disabled', async () => {
+    mockRuleSet.resolve.mockReturnValue(null);
+    mockRecordRepository.findOne.mockResolvedValue(storedRecord([{ quantityReceived: 150 }]));
+
+    const report = await service.reconcile('lmd-device-001');
+
+    expect(report.status).toBe(LMDReconciliationStatus.MISMATCH);
+    expect(report.lines[0].tolerance).toBe(5);
+    expect(mockAlertEngineService.upsertAlerts).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the record does not exist', async () => {
+    mockRecordRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.getReconciliation('missing')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * VaxTrace Nigeria - LMD Reconciliation Service
+ *
+ * Reconciles last-mile deliveries against OpenLMIS data. Each delivery item
+ * is compared with:
+ * - the approved quantity of the facility's latest approved requisition
+ *   line item for the product
+ * - the dispatching store (the facility's parent location): its ledger must
+ *   show the delivered quantity issued since the requisition was approved,
+ *   and the batch must be one of its lots with the same expiry date
+ *
+ * The report is stored on the record. Items that disagree beyond the
+ * reconciliation_mismatch alert rule tolerance raise RECONCILIATION_MISMATCH
+ * alerts through the alert engine, one per delivery item.
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { LMDRecord } from '../../entities/lmd-record.entity';
+import { LMDDeliveryItem } from '../../entities/lmd-delivery-item.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { RequisitionLineItem } from '../../entities/requisition-line-item.entity';
+import { RequisitionStatus } from '../../entities/requisition.entity';
+import { AlertType } from '../../entities/alert.entity';
+import { CacheService } from '../cache/cache.service';
+import { AlertRulesService, DEFAULT_ALERT_RULES, EffectiveAlertRule } from '../alerts/alert-rules.service';
+import { AlertCandidate, AlertEngineService } from '../alerts/alert-engine.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import {
+  LMDReconciliationDto,
+  LMDReconciliationIssue,
+  LMDReconciliationIssueDto,
+  LMDReconciliationLineDto,
+  LMDReconciliationStatus,
+} from './dto/lmd.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Requisitions whose approved quantities can be on the way to the facility
+const DISPATCHABLE_STATUSES = [
+  RequisitionStatus.APPROVED,
+  RequisitionStatus.RELEASED,
+  RequisitionStatus.SHIPPED,
+  RequisitionStatus.RECEIVED,
+];
+
+interface DeliveryContext {
+  facility: Location | null;
+  dispatcher: Location | null;
+  lgaId?: string;
+  stateId?: string;
+  deliveredAt: Date;
+}
+
+@Injectable()
+export class LMDReconciliationService {
+  private readonly logger = new Logger(LMDReconciliationService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(LMDRecord)
+    private readonly recordRepository: Repository<LMDRecord>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    @InjectRepository(Vaccine)
+    private readonly vaccineRepository: Repository<Vaccine>,
+    @InjectRepository(RequisitionLineItem)
+    private readonly lineItemRepository: Repository<RequisitionLineItem>,
+    private readonly alertRulesService: AlertRulesService,
+    private readonly alertEngineService: AlertEngineService,
+    private readonly cacheService: CacheService,
+    private readonly stockSnapshotService: StockSnapshotService,
+  ) {}
+
+  /**
+   * Stored reconciliation report of a delivery
+   */
+  async getReconciliation(recordId: string): Promise<LMDReconciliationDto> {
+    const record = await this.findRecord(recordId);
+    return this.toDto(record);
+  }
+
+  /**
+   * Reconcile every item of a delivery, store the report and raise
+   * mismatch alerts
+   */
+  async reconcile(recordId: string): Promise<LMDReconciliationDto> {
+    const record = await this.findRecord(recordId, true);
+
+    const facility = await this.findFacility(record.facilityId);
+    const context: DeliveryContext = {
+      facility,
+      dispatcher: facility?.parent ?? null,
+      ...(facility ? this.stockSnapshotService.getHierarchy(facility) : {}),
+      deliveredAt: new Date(record.deliveryTimestamp),
+    };
+
+    const items = [...record.items].sort((a, b) => a.lineNumber - b.lineNumber);
+    const vaccines = await this.vaccineRepository.find({
+      where: { code: In([...new Set(items.map((item) => item.productCode))]) },
+    });
+    const vaccinesByCode = new Map(vaccines.map((vaccine) => [vaccine.code, vaccine]));
+    const rules = await this.alertRulesService.loadRuleSet();
+
+    const lines: LMDReconciliationLineDto[] = [];
+    const candidates: AlertCandidate[] = [];
+
+    for (const item of items) {
+      const vaccine = vaccinesByCode.get(item.productCode) ?? null;
+      // A disabled rule still reconciles with the default tolerance, but raises no alerts
+      const rule = vaccine ? rules.resolve(AlertType.RECONCILIATION_MISMATCH, vaccine.id, context.stateId) : null;
+      const tolerance = rule?.threshold ?? DEFAULT_ALERT_RULES[AlertType.RECONCILIATION_MISMATCH].threshold;
+
+      const line = await this.reconcileItem(item, vaccine, context, tolerance);
+      lines.push(line);
+
+      if (line.status === LMDReconciliationStatus.MISMATCH && rule && facility) {
+        candidates.push(this.toCandidate(record, line, context, rule));
+      }
+    }
+
+    record.reconciliationStatus = this.aggregateStatus(lines);
+    record.reconciliation = lines;
+    record.reconciledAt = new Date();
+    await this.recordRepository.update(record.id, {
+      reconciliationStatus: record.reconciliationStatus,
+      reconciliation: lines,
+      reconciledAt: record.reconciledAt,
+    });
+
+    if (candidates.length > 0) {
+      const counts = await this.alertEngineService.upsertAlerts(AlertType.RECONCILIATION_MISMATCH, candidates);
+      if (counts.created > 0) {
+        await this.cacheService.invalidateAlertsCache();
+      }
+    }
+
+    this.logger.log(`LMD record ${record.id} reconciled: ${record.reconciliationStatus}`);
+    return this.toDto(record);
+  }
+
+  // ============================================
+  // ITEM RECONCILIATION
+  // ============================================
+
+  private async reconcileItem(
+    item: LMDDeliveryItem,
+    vaccine: Vaccine | null,
+    context: DeliveryContext,
+    tolerance: number,
+  ): Promise<LMDReconciliationLineDto> {
+    const issues: LMDReconciliationIssueDto[] = [];
+    const line: LMDReconciliationLineDto = {
+      lineNumber: item.lineNumber,
+      productCode: item.productCode,
+      batchNumber: item.batchNumber,
+      expiryDate: DateUtils.mixedDateToDateString(item.expiryDate),
+      quantityDelivered: item.quantityDelivered,
+      quantityReceived: item.quantityReceived,
+      vaccineId: vaccine?.id ?? null,
+      requisitionId: null,
+      openlmisRequisitionId: null,
+      approvedQuantity: null,
+      dispatchingFacilityId: context.dispatcher?.id ?? null,
+      dispatchedQuantity: null,
+      dispatchedExpiryDate: null,
+      variancePercent: null,
+      tolerance,
+      status: LMDReconciliationStatus.UNMATCHED,
+      issues,
+    };
+
+    // Unknown facility or product: nothing to compare with
+    if (!context.facility || !vaccine) {
+      return line;
+    }
+
+    if (this.variancePercent(item.quantityReceived, item.quantityDelivered) > tolerance) {
+      issues.push({
+        type: LMDReconciliationIssue.RECEIVED_VS_DELIVERED,
+        detail: `received ${item.quantityReceived} of ${item.quantityDelivered} delivered`,
+      });
+    }
+
+    const lineItem = await this.findRequisitionLineItem(context.facility.id, vaccine.id, context.deliveredAt);
+
+    if (lineItem) {
+      line.requisitionId = lineItem.requisitionId;
+      line.openlmisRequisitionId = lineItem.requisition.openlmisRequisitionId;
+      line.approvedQuantity = lineItem.approvedQuantity;
+      line.variancePercent = this.variancePercent(item.quantityReceived, lineItem.approvedQuantity);
+
+      if (line.variancePercent > tolerance) {
+        issues.push({
+          type: LMDReconciliationIssue.RECEIVED_VS_APPROVED,
+          detail: `received ${item.quantityReceived}, approved ${lineItem.approvedQuantity} (${line.variancePercent}% variance)`,
+        });
+      }
+    }
+
+    if (context.dispatcher) {
+      if (lineItem) {
+        const requisition = lineItem.requisition;
+        const since = requisition.approvedDate ?? requisition.createdDate;
+        line.dispatchedQuantity = await this.getDispatchedQuantity(context.dispatcher.id, vaccine.id, since, context.deliveredAt);
+
+        if (line.dispatchedQuantity !== null && item.quantityDelivered > line.dispatchedQuantity * (1 + tolerance / 100)) {
+          issues.push({
+            type: LMDReconciliationIssue.NOT_DISPATCHED,
+            detail: `delivered ${item.quantityDelivered}, ${context.dispatcher.name} issued ${line.dispatchedQuantity}`,
+          });
+        }
+      }
+
+      const lots = await this.getDispatcherLots(context.dispatcher.id, vaccine.id, context.deliveredAt);
+
+      // Stores without lot-level stock cannot confirm or contradict a batch
+      if (lots.size > 0) {
+        if (!lots.has(item.batchNumber)) {
+          issues.push({
+            type: LMDReconciliationIssue.UNKNOWN_LOT,
+            detail: `batch ${item.batchNumber} is not held by ${context.dispatcher.name}`,
+          });
+        } else {
+          line.dispatchedExpiryDate = lots.get(item.batchNumber);
+          if (line.dispatchedExpiryDate && line.dispatchedExpiryDate !== line.expiryDate) {
+            issues.push({
+              type: LMDReconciliationIssue.EXPIRY_MISMATCH,
+              detail: `batch ${item.batchNumber} expires ${line.dispatchedExpiryDate}, recorded ${line.expiryDate}`,
+            });
+          }
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      line.status = LMDReconciliationStatus.MISMATCH;
+    } else if (lineItem) {
+      line.status = LMDReconciliationStatus.MATCHED;
+    }
+
+    return line;
+  }
+
+  /**
+   * Latest approved line item for the product requisitioned by the facility
+   * before the delivery
+   */
+  private async findRequisitionLineItem(
+    facilityId: string,
+    vaccineId: string,
+    deliveredAt: Date,
+  ): Promise<RequisitionLineItem | null> {
+    return this.lineItemRepository
+      .createQueryBuilder('lineItem')
+      .innerJoinAndSelect('lineItem.requisition', 'requisition')
+      .where('requisition.facilityId = :facilityId', { facilityId })
+      .andWhere('lineItem.vaccineId = :vaccineId', { vaccineId })
+      .andWhere('lineItem.approvedQuantity IS NOT NULL')
+      .andWhere('requisition.status IN (:...statuses)', { statuses: DISPATCHABLE_STATUSES })
+      .andWhere('COALESCE(requisition.approvedDate, requisition.createdDate) <= :deliveredAt', { deliveredAt })
+      .orderBy('COALESCE(requisition.approvedDate, requisition.createdDate)', 'DESC')
+      .getOne();
+  }
+
+  /**
+   * Quantity issued by the dispatching store between approval and delivery,
+   * or null when its ledger has no entries for the product in that window
+   */
+  private async getDispatchedQuantity(
+    dispatcherId: string,
+    vaccineId: string,
+    since: Date,
+    deliveredAt: Date,
+  ): Promise<number | null> {
+    const [row] = await this.dataSource.query(
+      `SELECT COUNT(*) AS entries, COALESCE(-SUM(quantity) FILTER (WHERE quantity < 0), 0) AS issued
+       FROM stock_ledger
+       WHERE facility_id = $1 AND vaccine_id = $2
+         AND snapshot_date BETWEEN $3::date AND $4::date`,
+      [dispatcherId, vaccineId, since, deliveredAt],
+    );
+
+    return Number(row?.entries) > 0 ? Number(row.issued) : null;
+  }
+
+  /**
+   * Expiry date of each lot the dispatching store held up to the delivery
+   */
+  private async getDispatcherLots(dispatcherId: string, vaccineId: string, deliveredAt: Date): Promise<Map<string, string>> {
+    const rows = await this.dataSource.query(
+      `SELECT DISTINCT ON (lot_number) lot_number, expiry_date
+       FROM stock_snapshots
+       WHERE facility_id = $1 AND vaccine_id = $2 AND lot_number IS NOT NULL
+         AND snapshot_date <= $3::date
+       ORDER BY lot_number, snapshot_date DESC`,
+      [dispatcherId, vaccineId, deliveredAt],
+    );
+
+    return new Map(
+      rows.map((row) => [row.lot_number, row.expiry_date ? DateUtils.mixedDateToDateString(row.expiry_date) : null]),
+    );
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async findRecord(recordId: string, withItems = false): Promise<LMDRecord> {
+    const record = await this.recordRepository.findOne({
+      where: { id: recordId },
+      relations: { items: withItems },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`LMD record ${recordId} not found`);
+    }
+
+    return record;
+  }
+
+  /**
+   * Facility captured on the device, by ID, code or OpenLMIS ID
+   */
+  private async findFacility(reference: string): Promise<Location | null> {
+    return this.locationRepository
+      .createQueryBuilder('facility')
+      .leftJoinAndSelect('facility.parent', 'parent')
+      .where('facility.type = :type', { type: LocationType.FACILITY })
+      .andWhere('(CAST(facility.id AS text) = :reference OR facility.code = :reference OR facility.openlmisId = :reference)', {
+        reference,
+      })
+      .getOne();
+  }
+
+  private variancePercent(actual: number, expected: number): number {
+    if (!expected) {
+      return actual > 0 ? 100 : 0;
+    }
+
+    return Math.round((Math.abs(actual - expected) * 10000) / expected) / 100;
+  }
+
+  private aggregateStatus(lines: LMDReconciliationLineDto[]): LMDReconciliationStatus {
+    if (lines.some((line) => line.status === LMDReconciliationStatus.MISMATCH)) {
+      return LMDReconciliationStatus.MISMATCH;
+    }
+
+    if (lines.some((line) => line.status === LMDReconciliationStatus.UNMATCHED)) {
+      return LMDReconciliationStatus.UNMATCHED;
+    }
+
+    return LMDReconciliationStatus.MATCHED;
+  }
+
+  private toCandidate(
+    record: LMDRecord,
+    line: LMDReconciliationLineDto,
+    context: DeliveryContext,
+    rule: EffectiveAlertRule,
+  ): AlertCandidate {
+    return {
+      alertType: AlertType.RECONCILIATION_MISMATCH,
+      severity: rule.severity,
+      facilityId: context.facility.id,
+      lgaId: context.lgaId,
+      stateId: context.stateId,
+      vaccineId: line.vaccineId,
+      title: `${line.productCode} delivery does not reconcile`,
+      description:
+        `Delivery ${record.id}, batch ${line.batchNumber}: ` +
+        `${line.issues.map((issue) => issue.detail).join('; ')} (tolerance ${line.tolerance}%)`,
+      dedupKey: `${AlertType.RECONCILIATION_MISMATCH}:lmd:${record.id}:${line.productCode}:${line.batchNumber}`,
+      data: {
+        lmdRecordId: record.id,
+        lineNumber: line.lineNumber,
+        batchNumber: line.batchNumber,
+        requisitionId: line.requisitionId,
+        dispatchingFacilityId: line.dispatchingFacilityId,
+        issues: line.issues.map((issue) => issue.type),
+        tolerance: line.tolerance,
+        ruleId: rule.ruleId,
+      },
+    };
+  }
+
+  private toDto(record: LMDRecord): LMDReconciliationDto {
+    return {
+      recordId: record.id,
+      facilityId: record.facilityId,
+      status: record.reconciliationStatus ?? null,
+      reconciledAt: record.reconciledAt ? new Date(record.reconciledAt).toISOString() : null,
+      lines: record.reconciliation ?? [],
+    };
+  }
+}
@@ -3,35 +3,63 @@
  * 
  * Handles LMD record synchronization from field officers
  * Receives offline-captured delivery data and stores it in the database
+ * Syncs and reads are limited to the caller's assigned location (see LocationScopeGuard)
  */
 
-import { Controller, Post, Body, Get, Param, HttpCode, HttpStatus } from '@nestjs/common';
-import { LMDDto } from './dto/lmd.dto';
+import { Controller, Post, Body, Get, Param, Query, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { LMDDto, LMDQueryDto, LMDReconciliationDto } from './dto/lmd.dto';
 import { LMDService } from './lmd.service';
+import { LMDReconciliationService } from './lmd-reconciliation.service';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { LocationType } from '../../entities/location.entity';
+import {
+  LocationScopeGuard,
+  LocationFilters,
+  LocationFilter,
+  LocationScope,
+  NationalScope,
+  CurrentScope,
+  assertInScope,
+} from '../../guards/location-scope.guard';
+import { Audited } from '../audit/audit.interceptor';
+
+// Filters accepted by the aggregate endpoints
+const LMD_QUERY_FILTERS: Record<string, LocationFilter> = {
+  stateCode: { level: LocationType.STATE, ref: 'code' },
+  lgaCode: { level: LocationType.LGA, ref: 'code' },
+  facilityId: { level: LocationType.FACILITY, ref: 'id' },
+};
 
 @ApiTags('lmd')
 @Controller('lmd')
 export class LMDController {
-  constructor(private readonly lmdService: LMDService) {}
+  constructor(
+    private readonly lmdService: LMDService,
+    private readonly reconciliationService: LMDReconciliationService,
+  ) {}
 
   /**
    * Sync LMD record from field officer
-   * Receives offline-captured delivery data
+   * Receives offline-captured delivery data for a facility in the caller's scope
    */
   @Post('sync')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(LocationScopeGuard)
+  @Audited({ action: 'SYNC', resource: 'lmd_record' })
   @ApiOperation({ summary: 'Sync LMD record from field officer' })
   @ApiResponse({ status: 200, description: 'LMD record synced successfully' })
   @ApiResponse({ status: 400, description: 'Invalid LMD data' })
-  async syncLMDRecord(@Body() lmdDto: LMDDto) {
-    return this.lmdService.syncRecord(lmdDto);
+  @ApiResponse({ status: 403, description: 'Facility outside your assigned scope' })
+  async syncLMDRecord(@Body() lmdDto: LMDDto, @CurrentScope() scope: LocationScope) {
+    return this.lmdService.syncRecord(lmdDto, scope);
   }
 
   /**
    * Get LMD records by facility
    */
   @Get('facility/:facilityId')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'id' } })
   @ApiOperation({ summary: 'Get LMD records for a facility' })
   @ApiResponse({ status: 200, description: 'LMD records retrieved successfully' })
   async getFacilityRecords(@Param('facilityId') facilityId: string) {
@@ -42,6 +70,8 @@ export class LMDController {
    * Get LMD records by state
    */
   @Get('state/:stateCode')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ stateCode: { level: LocationType.STATE, ref: 'code' } })
   @ApiOperation({ summary: 'Get LMD records for a state' })
   @ApiResponse({ status: 200, description: 'LMD records retrieved successfully' })
   async getStateRecords(@Param('stateCode') stateCode: string) {
@@ -52,6 +82,8 @@ export class LMDController {
    * Get LMD records by date range
    */
   @Get('range/:startDate/:endDate')
+  @UseGuards(LocationScopeGuard)
+  @NationalScope()
   @ApiOperation({ summary: 'Get LMD records within date range' })
   @ApiResponse({ status: 200, description: 'LMD records retrieved successfully' })
   async getRecordsByDateRange(
@@ -65,9 +97,71 @@ export class LMDController {
    * Get LMD statistics
    */
   @Get('stats')
-  @ApiOperation({ summary: 'Get LMD statistics' })
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(LMD_QUERY_FILTERS)
+  @ApiOperation({ summary: 'Get LMD statistics (filter by date range, state, LGA or facility)' })
   @ApiResponse({ status: 200, description: 'LMD statistics retrieved successfully' })
-  async getLMDStats() {
-    return this.lmdService.getStatistics();
+  async getLMDStats(@Query() query: LMDQueryDto, @CurrentScope() scope: LocationScope) {
+    return this.lmdService.getStatistics({ ...query, ...scope?.filter });
+  }
+
+  /**
+   * Get deliveries handed over in the last hour with a vehicle position
+   */
+  @Get('active')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(LMD_QUERY_FILTERS)
+  @ApiOperation({ summary: 'Get active LMD deliveries for the map' })
+  @ApiResponse({ status: 200, description: 'Active deliveries retrieved successfully' })
+  async getActiveDeliveries(@Query() query: LMDQueryDto, @CurrentScope() scope: LocationScope) {
+    return this.lmdService.getActiveDeliveries({ ...query, ...scope?.filter });
+  }
+
+  /**
+   * Get facilities receiving VVM-critical items or cold chain breaks
+   */
+  @Get('bottlenecks')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(LMD_QUERY_FILTERS)
+  @ApiOperation({ summary: 'Get LMD delivery bottlenecks' })
+  @ApiResponse({ status: 200, description: 'Delivery bottlenecks retrieved successfully' })
+  async getDeliveryBottlenecks(@Query() query: LMDQueryDto, @CurrentScope() scope: LocationScope) {
+    return this.lmdService.getDeliveryBottlenecks({ ...query, ...scope?.filter });
+  }
+
+  /**
+   * Get the reconciliation report of a delivery
+   */
+  @Get('records/:id/reconciliation')
+  @UseGuards(LocationScopeGuard)
+  @ApiOperation({ summary: 'Get the reconciliation of an LMD record against requisitions and dispatcher stock' })
+  @ApiResponse({ status: 200, description: 'Reconciliation report retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'LMD record not found' })
+  async getReconciliation(
+    @Param('id') id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<LMDReconciliationDto> {
+    const report = await this.reconciliationService.getReconciliation(id);
+    assertInScope(scope, report.facilityId);
+    return report;
+  }
+
+  /**
+   * Re-run the reconciliation of a delivery, e.g. after OpenLMIS data was corrected
+   */
+  @Post('records/:id/reconcile')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(LocationScopeGuard)
+  @Audited({ action: 'RECONCILE', resource: 'lmd_record' })
+  @ApiOperation({ summary: 'Reconcile an LMD record again' })
+  @ApiResponse({ status: 200, description: 'LMD record reconciled' })
+  @ApiResponse({ status: 404, description: 'LMD record not found' })
+  async reconcile(
+    @Param('id') id: string,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<LMDReconciliationDto> {
+    const { facilityId } = await this.reconciliationService.getReconciliation(id);
+    assertInScope(scope, facilityId);
+    return this.reconciliationService.reconcile(id);
   }
 }
@@ -1,12 +1,20 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { LMDController } from './lmd.controller';
 import { LMDService } from './lmd.service';
+import { LMDReconciliationService } from './lmd-reconciliation.service';
 import { CacheModule } from '../cache/cache.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { StockModule } from '../stock/stock.module';
+import { LMDRecord } from '../../entities/lmd-record.entity';
+import { Location } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { RequisitionLineItem } from '../../entities/requisition-line-item.entity';
 
 @Module({
-  imports: [CacheModule],
+  imports: [TypeOrmModule.forFeature([LMDRecord, Location, Vaccine, RequisitionLineItem]), CacheModule, AlertsModule, StockModule],
   controllers: [LMDController],
-  providers: [LMDService],
+  providers: [LMDService, LMDReconciliationService],
   exports: [LMDService],
 })
 export class LMDModule {}
@@ -0,0 +1,321 @@
+/**
+ * VaxTrace Nigeria - LMD Service Unit Tests
+ *
+ * Tests that last-mile delivery records are:
+ * - Upserted on the device ID, replacing their items on resend
+ * - Not overwritten by a stale resend or from outside the officer's scope
+ * - Reconciled after syncing, without failing the sync on reconciliation errors
+ * - Aggregated in SQL with date/state/LGA filters
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ForbiddenException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { LMDRecord } from '../../entities/lmd-record.entity';
+import { LMDDeliveryItem } from '../../entities/lmd-delivery-item.entity';
+import { CacheService } from '../cache/cache.service';
+import { LMDService } from './lmd.service';
+import { LMDReconciliationService } from './lmd-reconciliation.service';
+import { LMDDto, VVMStatus } from './dto/lmd.dto';
+import { LocationScope } from '../../guards/location-scope.guard';
+
+describe('LMDService', () => {
+  let service: LMDService;
+  let mockRecordRepository: any;
+  let mockItemRepository: any;
+  let mockQueryBuilder: any;
+  let mockCacheService: any;
+  let mockReconciliationService: any;
+
+  const lmdDto = (overrides: Partial<LMDDto> = {}): LMDDto => ({
+    id: 'lmd-device-001',
+    facilityId: 'facility-1',
+    facilityName: 'Garki PHC',
+    lgaCode: 'AMAC',
+    stateCode: 'FC',
+    deliveryTimestamp: '2026-10-19T09:30:00.000Z',
+    vvmStatus: VVMStatus.OK,
+    vehicleGPS: { latitude: 9.0765, longitude: 7.3986, accuracy: 12, timestamp: '2026-10-19T09:29:00.000Z' },
+    deliveryItems: [
+      {
+        productCode: 'BCG',
+        productName: 'BCG Vaccine',
+        quantityDelivered: 200,
+        quantityReceived: 200,
+        batchNumber: 'BCG-A',
+        expiryDate: '2027-06-30',
+        vvmStatus: VVMStatus.OK,
+        coldChainBreak: false,
+      },
+      {
+        productCode: 'OPV',
+        productName: 'Oral Polio Vaccine',
+        quantityDelivered: 100,
+        quantityReceived: 90,
+        batchNumber: 'OPV-7',
+        expiryDate: '2027-01-31',
+        vvmStatus: VVMStatus.WARNING,
+        coldChainBreak: false,
+        notes: '10 vials damaged',
+      },
+    ],
+    officerId: 'officer-1',
+    officerName: 'Amina Bello',
+    synced: false,
+    createdAt: '2026-10-19T09:31:00.000Z',
+    updatedAt: '2026-10-19T09:31:00.000Z',
+    ...overrides,
+  });
+
+  const storedRecord = (overrides: Partial<LMDRecord> = {}): LMDRecord =>
+    ({
+      id: 'lmd-device-001',
+      facilityId: 'facility-1',
+      facilityName: 'Garki PHC',
+      lgaCode: 'AMAC',
+      stateCode: 'FC',
+      deliveryTimestamp: new Date('2026-10-19T09:30:00Z'),
+      vvmStatus: VVMStatus.OK,
+      gpsLatitude: '9.076500' as any,
+      gpsLongitude: '7.398600' as any,
+      gpsAccuracy: '12.00' as any,
+      gpsTimestamp: new Date('2026-10-19T09:29:00Z'),
+      officerId: 'officer-1',
+      officerName: 'Amina Bello',
+      deviceCreatedAt: new Date('2026-10-19T09:31:00Z'),
+      deviceUpdatedAt: new Date('2026-10-19T09:31:00Z'),
+      items: [
+        { lineNumber: 2, productCode: 'OPV', expiryDate: '2027-01-31', vvmStatus: VVMStatus.WARNING, notes: null },
+        { lineNumber: 1, productCode: 'BCG', expiryDate: '2027-06-30', vvmStatus: VVMStatus.OK, notes: null },
+      ] as unknown as LMDDeliveryItem[],
+      ...overrides,
+    }) as LMDRecord;
+
+  // Officer of AMAC LGA with its facilities
+  const amacScope: LocationScope = { national: false, identifiers: new Set(['amac', 'facility-1', 'facility-2']) };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-10-19T10:00:00Z'));
+
+    mockQueryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      having: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
+    mockRecordRepository = {
+      findOne: jest.fn().mockResolvedValueOnce(null).mockResolvedValue(storedRecord()),
+      upsert: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    };
+
+    mockItemRepository = {
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+      insert: jest.fn().mockResolvedValue({}),
+    };
+
+    mockCacheService = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockReconciliationService = {
+      reconcile: jest.fn().mockResolvedValue({}),
+    };
+
+    const manager = {
+      getRepository: jest.fn((entity) => (entity === LMDRecord ? mockRecordRepository : mockItemRepository)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LMDService,
+        { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+        { provide: getRepositoryToken(LMDRecord), useValue: mockRecordRepository },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: LMDReconciliationService, useValue: mockReconciliationService },
+      ],
+    }).compile();
+
+    service = module.get<LMDService>(LMDService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Syncing records', () => {
+    it('should upsert the record on its device ID and replace its items', async () => {
+      const result = await service.syncRecord(lmdDto());
+
+      expect(mockRecordRepository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'lmd-device-001',
+          facilityId: 'facility-1',
+          gpsLatitude: 9.0765,
+          deviceUpdatedAt: new Date('2026-10-19T09:31:00.000Z'),
+        }),
+        ['id'],
+      );
+      expect(mockItemRepository.delete).toHaveBeenCalledWith({ recordId: 'lmd-device-001' });
+      const [items] = mockItemRepository.insert.mock.calls[0];
+      expect(items).toEqual([
+        expect.objectContaining({ recordId: 'lmd-device-001', lineNumber: 1, productCode: 'BCG', quantityReceived: 200 }),
+        expect.objectContaining({ recordId: 'lmd-device-001', lineNumber: 2, productCode: 'OPV', notes: '10 vials damaged' }),
+      ]);
+
+      expect(result.synced).toBe(true);
+      expect(result.vehicleGPS).toEqual(expect.objectContaining({ latitude: 9.0765, longitude: 7.3986, accuracy: 12 }));
+      expect(result.deliveryItems.map((item) => item.productCode)).toEqual(['BCG', 'OPV']);
+      expect(mockCacheService.delete).toHaveBeenCalledWith('lmd:facility:facility-1');
+      expect(mockCacheService.delete).toHaveBeenCalledWith('lmd:state:FC');
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith('lmd-device-001');
+    });
+
+    it('should keep the sync when reconciliation fails', async () => {
+      mockReconciliationService.reconcile.mockRejectedValue(new Error('connection reset'));
+
+      const result = await service.syncRecord(lmdDto());
+
+      expect(result.synced).toBe(true);
+    });
+
+    it('should ignore a resend older than the stored copy', async () => {
+      mockRecordRepository.findOne.mockReset();
+      mockRecordRepository.findOne.mockResolvedValue(storedRecord({ deviceUpdatedAt: new Date('2026-10-19T10:00:00Z') }));
+
+      const result = await service.syncRecord(lmdDto({ updatedAt: '2026-10-19T09:45:00.000Z' }));
+
+      expect(mockRecordRepository.upsert).not.toHaveBeenCalled();
+      expect(mockItemRepository.insert).not.toHaveBeenCalled();
+      expect(mockReconciliationService.reconcile).not.toHaveBeenCalled();
+      expect(result.updatedAt).toBe('2026-10-19T10:00:00.000Z');
+    });
+
+    it('should invalidate the old facility when a resend corrects it', async () => {
+      mockRecordRepository.findOne.mockReset();
+      mockRecordRepository.findOne
+        .mockResolvedValueOnce(storedRecord({ facilityId: 'facility-0' }))
+        .mockResolvedValue(storedRecord());
+
+      await service.syncRecord(lmdDto({ updatedAt: '2026-10-19T09:45:00.000Z' }));
+
+      expect(mockRecordRepository.upsert).toHaveBeenCalled();
+      expect(mockCacheService.delete).toHaveBeenCalledWith('lmd:facility:facility-0');
+    });
+
+    it('should sync records of facilities in the officer scope', async () => {
+      await service.syncRecord(lmdDto(), amacScope);
+
+      expect(mockRecordRepository.upsert).toHaveBeenCalled();
+    });
+
+    it('should reject records of facilities outside the officer scope', async () => {
+      await expect(service.syncRecord(lmdDto({ facilityId: 'facility-kano' }), amacScope)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockRecordRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite a stored record of a facility outside the officer scope', async () => {
+      mockRecordRepository.findOne.mockReset();
+      mockRecordRepository.findOne.mockResolvedValue(storedRecord({ facilityId: 'facility-kano' }));
+
+      await expect(service.syncRecord(lmdDto({ updatedAt: '2026-10-19T09:45:00.000Z' }), amacScope)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockRecordRepository.upsert).not.toHaveBeenCalled();
+      expect(mockReconciliationService.reconcile).not.toHaveBeenCalled();
+    });
+
+    it('should reject records edited in the future', async () => {
+      await expect(service.syncRecord(lmdDto({ updatedAt: '2026-10-20T09:00:00.000Z' }))).rejects.toThrow(
+        'Record update time is in the future',
+      );
+      expect(mockRecordRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject records without delivery items', async () => {
+      await expect(service.syncRecord(lmdDto({ deliveryItems: [] }))).rejects.toThrow('At least one delivery item is required');
+      expect(mockRecordRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Aggregations', () => {
+    it('should count deliveries per state, LGA and VVM status with the requested filters', async () => {
+      mockQueryBuilder.getRawMany
+        .mockResolvedValueOnce([{ total: '5', today: '2' }])
+        .mockResolvedValueOnce([{ key: 'FC', total: '5', today: '2' }])
+        .mockResolvedValueOnce([{ key: 'AMAC', total: '3', today: '1' }, { key: 'BWARI', total: '2', today: '1' }])
+        .mockResolvedValueOnce([{ key: 'OK', total: '4', today: '2' }, { key: 'CRITICAL', total: '1', today: '0' }]);
+
+      const stats = await service.getStatistics({ stateCode: 'FC', from: '2026-10-01' });
+
+      expect(stats).toEqual({
+        totalDeliveries: 5,
+        todayDeliveries: 2,
+        pendingSync: 0,
+        byState: { FC: 5 },
+        byLGA: { AMAC: 3, BWARI: 2 },
+        vvmStatusBreakdown: { OK: 4, WARNING: 0, CRITICAL: 1, NOT_TESTED: 0 },
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('record.stateCode = :stateCode', { stateCode: 'FC' });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('record.deliveryTimestamp >= :from', {
+        from: new Date('2026-10-01'),
+      });
+    });
+
+    it('should report facilities with VVM-critical items or cold chain breaks', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        {
+          facilityId: 'facility-1',
+          facilityName: 'Garki PHC',
+          stateCode: 'FC',
+          lgaCode: 'AMAC',
+          lastDelivery: new Date('2026-10-19T09:30:00Z'),
+          vvmCriticalCount: '2',
+          coldChainBreaks: '1',
+        },
+      ]);
+
+      const bottlenecks = await service.getDeliveryBottlenecks({ lgaCode: 'AMAC' });
+
+      expect(bottlenecks).toEqual([
+        {
+          facilityId: 'facility-1',
+          facilityName: 'Garki PHC',
+          stateCode: 'FC',
+          lgaCode: 'AMAC',
+          lastDelivery: '2026-10-19T09:30:00.000Z',
+          vvmCriticalCount: 2,
+          coldChainBreaks: 1,
+        },
+      ]);
+      expect(mockQueryBuilder.groupBy).toHaveBeenCalledWith('record.facilityId');
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('record.lgaCode = :lgaCode', { lgaCode: 'AMAC' });
+    });
+
+    it('should only return recent deliveries with a vehicle position', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([storedRecord()]);
+
+      const active = await service.getActiveDeliveries();
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('record.gpsLatitude IS NOT NULL');
+      expect(active).toHaveLength(1);
+      expect(active[0].deliveryTimestamp).toBe('2026-10-19T09:30:00.000Z');
+    });
+  });
+});
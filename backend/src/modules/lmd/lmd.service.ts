@@ -1,196 +1,223 @@
 /**
  * VaxTrace Nigeria - LMD (Last-Mile Delivery) Service
- * 
+ *
  * Handles business logic for LMD record synchronization
  * Integrates with OpenLMIS and DHIS2 for triangulation
+ * (synced records are reconciled by LMDReconciliationService)
+ *
+ * Records are persisted in `lmd_records` / `lmd_delivery_items`
+ * (see 013_lmd_records.sql). Offline devices resend records they are not
+ * sure were received, so syncing is an upsert on the device-generated ID.
+ * Both the synced facility and the facility of a stored copy must be in
+ * the officer's location scope.
+ * Statistics and bottlenecks are aggregated in PostgreSQL.
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { LMDDto } from './dto/lmd.dto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository, SelectQueryBuilder } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+import { LMDDto, LMDQueryDto, LMDStatisticsDto, LMDBottleneckDto, VVMStatus } from './dto/lmd.dto';
 import { CacheService } from '../cache/cache.service';
+import { LMDRecord } from '../../entities/lmd-record.entity';
+import { LMDDeliveryItem } from '../../entities/lmd-delivery-item.entity';
+import { LMDReconciliationService } from './lmd-reconciliation.service';
+import { LocationScope, assertInScope } from '../../guards/location-scope.guard';
 
-export interface LMDRecord {
-  id: string;
-  facilityId: string;
-  facilityName: string;
-  lgaCode: string;
-  stateCode: string;
-  deliveryTimestamp: string;
-  vvmStatus: 'OK' | 'WARNING' | 'CRITICAL' | 'NOT_TESTED';
-  vehicleGPS?: {
-    latitude: number;
-    longitude: number;
-    accuracy: number;
-    timestamp: string;
-  };
-  deliveryItems: LMDDeliveryItem[];
-  officerId: string;
-  officerName: string;
-  synced: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+// Deliveries shown on the live map
+const ACTIVE_WINDOW_MS = 60 * 60 * 1000;
 
-export interface LMDDeliveryItem {
-  productCode: string;
-  productName: string;
-  quantityDelivered: number;
-  quantityReceived: number;
-  batchNumber: string;
-  expiryDate: string;
-  vvmStatus: string;
-  coldChainBreak: boolean;
-  notes?: string;
-}
+// Device clocks may run ahead; later edit times would win over every resend
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
 
-export interface LMDStatistics {
-  totalDeliveries: number;
-  todayDeliveries: number;
-  pendingSync: number;
-  byState: Record<string, number>;
-  byLGA: Record<string, number>;
-  vvmStatusBreakdown: Record<string, number>;
-}
+// Delivery items that point to a bottleneck at the receiving facility
+const ISSUE_COUNT = 'COUNT(*) FILTER (WHERE item.vvmStatus = :critical OR item.coldChainBreak)';
 
 @Injectable()
 export class LMDService {
   private readonly logger = new Logger(LMDService.name);
-  
-  // In-memory storage for development (replace with PostgreSQL in production)
-  private records: Map<string, LMDRecord> = new Map();
 
-  constructor(private readonly cacheService: CacheService) {}
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(LMDRecord)
+    private readonly recordRepository: Repository<LMDRecord>,
+    private readonly cacheService: CacheService,
+    private readonly reconciliationService: LMDReconciliationService,
+  ) {}
 
   /**
-   * Sync an LMD record from a field officer
+   * Sync an LMD record from a field officer.
+   * Resending a record replaces the stored copy unless the stored copy was
+   * edited more recently on the device.
    */
-  async syncRecord(dto: LMDDto): Promise<LMDRecord> {
+  async syncRecord(dto: LMDDto, scope?: LocationScope): Promise<LMDDto> {
     this.logger.log(`Syncing LMD record ${dto.id} for facility ${dto.facilityName}`);
-    
+
     // Validate the record
     this.validateRecord(dto);
-    
-    // Store the record
-    const record: LMDRecord = {
-      ...dto,
-      synced: true,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    this.records.set(dto.id, record);
-    
+    assertInScope(scope, dto.facilityId);
+
+    const { record, previous, stale } = await this.dataSource.transaction(async (manager) => {
+      const recordRepository = manager.getRepository(LMDRecord);
+      const itemRepository = manager.getRepository(LMDDeliveryItem);
+
+      // Row lock serialises concurrent resends of the same record
+      const previous = await recordRepository.findOne({
+        where: { id: dto.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // A record ID from another facility must not be overwritten from outside its scope
+      if (previous) {
+        assertInScope(scope, previous.facilityId);
+      }
+
+      if (previous && previous.deviceUpdatedAt > new Date(dto.updatedAt)) {
+        const record = await recordRepository.findOne({ where: { id: dto.id }, relations: { items: true } });
+        return { record, previous, stale: true };
+      }
+
+      await recordRepository.upsert(this.toEntity(dto), ['id']);
+      await itemRepository.delete({ recordId: dto.id });
+      await itemRepository.insert(
+        dto.deliveryItems.map((item, index) => ({
+          recordId: dto.id,
+          lineNumber: index + 1,
+          productCode: item.productCode,
+          productName: item.productName,
+          quantityDelivered: item.quantityDelivered,
+          quantityReceived: item.quantityReceived,
+          batchNumber: item.batchNumber,
+          expiryDate: new Date(item.expiryDate),
+          vvmStatus: item.vvmStatus,
+          coldChainBreak: item.coldChainBreak,
+          notes: item.notes,
+        })),
+      );
+
+      const record = await recordRepository.findOne({ where: { id: dto.id }, relations: { items: true } });
+      return { record, previous, stale: false };
+    });
+
+    if (stale) {
+      this.logger.log(`LMD record ${dto.id} ignored: stored copy is newer`);
+      return this.toDto(record);
+    }
+
+    const synced = this.toDto(record);
+
     // Cache the record
-    await this.cacheService.set(`lmd:record:${dto.id}`, record, { ttl: 86400 });
-    
-    // Invalidate relevant caches
+    await this.cacheService.set(`lmd:record:${dto.id}`, synced, { ttl: 86400 });
+
+    // Invalidate relevant caches, including the old location of a corrected record
     await this.invalidateFacilityCache(dto.facilityId);
     await this.invalidateStateCache(dto.stateCode);
-    
-    // TODO: Integrate with OpenLMIS to update stock levels
+    if (previous && previous.facilityId !== dto.facilityId) {
+      await this.invalidateFacilityCache(previous.facilityId);
+    }
+    if (previous && previous.stateCode !== dto.stateCode) {
+      await this.invalidateStateCache(previous.stateCode);
+    }
+
+    // Reconcile against OpenLMIS requisitions and stock; a failure never rejects the sync
+    try {
+      await this.reconciliationService.reconcile(dto.id);
+    } catch (error) {
+      this.logger.error(`Reconciliation of LMD record ${dto.id} failed: ${error.message}`);
+    }
+
     // TODO: Integrate with DHIS2 to update delivery data
-    
+
     this.logger.log(`LMD record ${dto.id} synced successfully`);
-    return record;
+    return synced;
   }
 
   /**
    * Get LMD records by facility
    */
-  async getRecordsByFacility(facilityId: string): Promise<LMDRecord[]> {
+  async getRecordsByFacility(facilityId: string): Promise<LMDDto[]> {
     const cacheKey = `lmd:facility:${facilityId}`;
-    
+
     // Check cache first
-    const cached = await this.cacheService.get<LMDRecord[]>(cacheKey);
+    const cached = await this.cacheService.get<LMDDto[]>(cacheKey);
     if (cached) {
       return cached;
     }
-    
-    // Fetch from storage
-    const records = Array.from(this.records.values())
-      .filter((r) => r.facilityId === facilityId)
-      .sort((a, b) => new Date(b.deliveryTimestamp).getTime() - new Date(a.deliveryTimestamp).getTime());
-    
+
+    const records = await this.findRecords({ facilityId });
+
     // Cache the result
     await this.cacheService.set(cacheKey, records, { ttl: 3600 });
-    
+
     return records;
   }
 
   /**
    * Get LMD records by state
    */
-  async getRecordsByState(stateCode: string): Promise<LMDRecord[]> {
+  async getRecordsByState(stateCode: string): Promise<LMDDto[]> {
     const cacheKey = `lmd:state:${stateCode}`;
-    
+
     // Check cache first
-    const cached = await this.cacheService.get<LMDRecord[]>(cacheKey);
+    const cached = await this.cacheService.get<LMDDto[]>(cacheKey);
     if (cached) {
       return cached;
     }
-    
-    // Fetch from storage
-    const records = Array.from(this.records.values())
-      .filter((r) => r.stateCode === stateCode)
-      .sort((a, b) => new Date(b.deliveryTimestamp).getTime() - new Date(a.deliveryTimestamp).getTime());
-    
+
+    const records = await this.findRecords({ stateCode });
+
     // Cache the result
     await this.cacheService.set(cacheKey, records, { ttl: 3600 });
-    
+
     return records;
   }
 
   /**
    * Get LMD records by date range
    */
-  async getRecordsByDateRange(startDate: string, endDate: string): Promise<LMDRecord[]> {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    return Array.from(this.records.values())
-      .filter((r) => {
-        const deliveryDate = new Date(r.deliveryTimestamp);
-        return deliveryDate >= start && deliveryDate <= end;
-      })
-      .sort((a, b) => new Date(b.deliveryTimestamp).getTime() - new Date(a.deliveryTimestamp).getTime());
+  async getRecordsByDateRange(startDate: string, endDate: string): Promise<LMDDto[]> {
+    return this.findRecords({ from: startDate, to: endDate });
   }
 
   /**
    * Get LMD statistics
    */
-  async getStatistics(): Promise<LMDStatistics> {
-    const records = Array.from(this.records.values());
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const todayRecords = records.filter((r) => new Date(r.deliveryTimestamp) >= today);
-    
-    const byState: Record<string, number> = {};
-    const byLGA: Record<string, number> = {};
-    const vvmStatusBreakdown: Record<string, number> = {
-      OK: 0,
-      WARNING: 0,
-      CRITICAL: 0,
-      NOT_TESTED: 0,
+  async getStatistics(query: LMDQueryDto = {}): Promise<LMDStatisticsDto> {
+    const countBy = (column?: string) => {
+      const qb = this.recordRepository
+        .createQueryBuilder('record')
+        .select('COUNT(*)', 'total')
+        .addSelect('COUNT(*) FILTER (WHERE record.deliveryTimestamp >= CURRENT_DATE)', 'today');
+
+      if (column) {
+        qb.addSelect(`record.${column}`, 'key').groupBy(`record.${column}`);
+      }
+
+      return this.applyFilters(qb, query).getRawMany<{ key?: string; total: string; today: string }>();
     };
-    
-    for (const record of records) {
-      // Count by state
-      byState[record.stateCode] = (byState[record.stateCode] || 0) + 1;
-      
-      // Count by LGA
-      byLGA[record.lgaCode] = (byLGA[record.lgaCode] || 0) + 1;
-      
-      // Count by VVM status
-      vvmStatusBreakdown[record.vvmStatus]++;
-    }
-    
+
+    const [[totals], byState, byLGA, byVVMStatus] = await Promise.all([
+      countBy(),
+      countBy('stateCode'),
+      countBy('lgaCode'),
+      countBy('vvmStatus'),
+    ]);
+
+    const toCounts = (rows: { key?: string; total: string }[], initial: Record<string, number> = {}) =>
+      rows.reduce((counts, row) => ({ ...counts, [row.key]: Number(row.total) }), initial);
+
     return {
-      totalDeliveries: records.length,
-      todayDeliveries: todayRecords.length,
-      pendingSync: 0, // All synced records are marked as synced
-      byState,
-      byLGA,
-      vvmStatusBreakdown,
+      totalDeliveries: Number(totals?.total || 0),
+      todayDeliveries: Number(totals?.today || 0),
+      pendingSync: 0, // Records only reach the server once synced
+      byState: toCounts(byState),
+      byLGA: toCounts(byLGA),
+      vvmStatusBreakdown: toCounts(byVVMStatus, {
+        [VVMStatus.OK]: 0,
+        [VVMStatus.WARNING]: 0,
+        [VVMStatus.CRITICAL]: 0,
+        [VVMStatus.NOT_TESTED]: 0,
+      }),
     };
   }
 
@@ -201,30 +228,34 @@ export class LMDService {
     if (!dto.facilityId || dto.facilityId.trim() === '') {
       throw new Error('Facility ID is required');
     }
-    
+
     if (!dto.deliveryItems || dto.deliveryItems.length === 0) {
       throw new Error('At least one delivery item is required');
     }
-    
+
+    if (new Date(dto.updatedAt).getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      throw new Error('Record update time is in the future');
+    }
+
     for (const item of dto.deliveryItems) {
       if (!item.productCode || item.productCode.trim() === '') {
         throw new Error('Product code is required for all delivery items');
       }
-      
+
       if (item.quantityDelivered < 0 || item.quantityReceived < 0) {
         throw new Error('Quantities must be non-negative');
       }
-      
+
       if (item.quantityReceived > item.quantityDelivered) {
         this.logger.warn(`Quantity received (${item.quantityReceived}) exceeds quantity delivered (${item.quantityDelivered}) for ${item.productCode}`);
       }
     }
-    
+
     if (dto.vehicleGPS) {
       if (dto.vehicleGPS.latitude < -90 || dto.vehicleGPS.latitude > 90) {
         throw new Error('Invalid GPS latitude');
       }
-      
+
       if (dto.vehicleGPS.longitude < -180 || dto.vehicleGPS.longitude > 180) {
         throw new Error('Invalid GPS longitude');
       }
@@ -248,69 +279,149 @@ export class LMDService {
   /**
    * Get active deliveries (for Mapbox LMD layer)
    */
-  async getActiveDeliveries(): Promise<LMDRecord[]> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    
-    return Array.from(this.records.values())
-      .filter((r) => new Date(r.deliveryTimestamp) >= oneHourAgo)
-      .filter((r) => r.vehicleGPS !== undefined);
+  async getActiveDeliveries(query: LMDQueryDto = {}): Promise<LMDDto[]> {
+    const qb = this.recordRepository
+      .createQueryBuilder('record')
+      .leftJoinAndSelect('record.items', 'item')
+      .where('record.deliveryTimestamp >= :since', { since: new Date(Date.now() - ACTIVE_WINDOW_MS) })
+      .andWhere('record.gpsLatitude IS NOT NULL')
+      .andWhere('record.gpsLongitude IS NOT NULL')
+      .orderBy('record.deliveryTimestamp', 'DESC')
+      .addOrderBy('item.lineNumber', 'ASC');
+
+    const records = await this.applyFilters(qb, query).getMany();
+    return records.map((record) => this.toDto(record));
+  }
+
+  /**
+   * Get delivery bottlenecks (for triangulation analytics):
+   * facilities that received VVM-critical items or had cold chain breaks
+   */
+  async getDeliveryBottlenecks(query: LMDQueryDto = {}): Promise<LMDBottleneckDto[]> {
+    const qb = this.recordRepository
+      .createQueryBuilder('record')
+      .innerJoin('record.items', 'item')
+      .select('record.facilityId', 'facilityId')
+      // Names and codes as captured on the most recent delivery
+      .addSelect('(ARRAY_AGG(record.facilityName ORDER BY record.deliveryTimestamp DESC))[1]', 'facilityName')
+      .addSelect('(ARRAY_AGG(record.stateCode ORDER BY record.deliveryTimestamp DESC))[1]', 'stateCode')
+      .addSelect('(ARRAY_AGG(record.lgaCode ORDER BY record.deliveryTimestamp DESC))[1]', 'lgaCode')
+      .addSelect('MAX(record.deliveryTimestamp)', 'lastDelivery')
+      .addSelect('COUNT(*) FILTER (WHERE item.vvmStatus = :critical)', 'vvmCriticalCount')
+      .addSelect('COUNT(*) FILTER (WHERE item.coldChainBreak)', 'coldChainBreaks')
+      .groupBy('record.facilityId')
+      .having(`${ISSUE_COUNT} > 0`)
+      .orderBy(ISSUE_COUNT, 'DESC')
+      .setParameter('critical', VVMStatus.CRITICAL);
+
+    const rows = await this.applyFilters(qb, query).getRawMany();
+
+    return rows.map((row) => ({
+      facilityId: row.facilityId,
+      facilityName: row.facilityName,
+      stateCode: row.stateCode,
+      lgaCode: row.lgaCode,
+      lastDelivery: new Date(row.lastDelivery).toISOString(),
+      vvmCriticalCount: Number(row.vvmCriticalCount),
+      coldChainBreaks: Number(row.coldChainBreaks),
+    }));
   }
 
   /**
-   * Get delivery bottlenecks (for triangulation analytics)
+   * Records with their items, most recent delivery first
    */
-  async getDeliveryBottlenecks(): Promise<{
-    facilityId: string;
-    facilityName: string;
-    stateCode: string;
-    lgaCode: string;
-    lastDelivery: string;
-    vvmCriticalCount: number;
-    coldChainBreaks: number;
-  }[]> {
-    // Get facilities with critical VVM status or cold chain breaks
-    const facilityIssues = new Map<string, {
-      facilityId: string;
-      facilityName: string;
-      stateCode: string;
-      lgaCode: string;
-      lastDelivery: string;
-      vvmCriticalCount: number;
-      coldChainBreaks: number;
-    }>();
-    
-    for (const record of this.records.values()) {
-      const existing = facilityIssues.get(record.facilityId);
-      
-      const vvmCriticalCount = record.deliveryItems.filter(
-        (item) => item.vvmStatus === 'CRITICAL'
-      ).length;
-      
-      const coldChainBreaks = record.deliveryItems.filter(
-        (item) => item.coldChainBreak
-      ).length;
-      
-      if (existing) {
-        if (new Date(record.deliveryTimestamp) > new Date(existing.lastDelivery)) {
-          existing.lastDelivery = record.deliveryTimestamp;
-        }
-        existing.vvmCriticalCount += vvmCriticalCount;
-        existing.coldChainBreaks += coldChainBreaks;
-      } else {
-        facilityIssues.set(record.facilityId, {
-          facilityId: record.facilityId,
-          facilityName: record.facilityName,
-          stateCode: record.stateCode,
-          lgaCode: record.lgaCode,
-          lastDelivery: record.deliveryTimestamp,
-          vvmCriticalCount,
-          coldChainBreaks,
-        });
-      }
+  private async findRecords(query: LMDQueryDto): Promise<LMDDto[]> {
+    const qb = this.recordRepository
+      .createQueryBuilder('record')
+      .leftJoinAndSelect('record.items', 'item')
+      .orderBy('record.deliveryTimestamp', 'DESC')
+      .addOrderBy('item.lineNumber', 'ASC');
+
+    const records = await this.applyFilters(qb, query).getMany();
+    return records.map((record) => this.toDto(record));
+  }
+
+  private applyFilters<T>(qb: SelectQueryBuilder<T>, query: LMDQueryDto): SelectQueryBuilder<T> {
+    if (query.from) {
+      qb.andWhere('record.deliveryTimestamp >= :from', { from: new Date(query.from) });
     }
-    
-    // Return only facilities with issues
-    return Array.from(facilityIssues.values())
-      .filter((f) => f.vvmCriticalCount > 0 || f.coldChainBreaks > 0);
+
+    if (query.to) {
+      qb.andWhere('record.deliveryTimestamp <= :to', { to: new Date(query.to) });
+    }
+
+    if (query.stateCode) {
+      qb.andWhere('record.stateCode = :stateCode', { stateCode: query.stateCode });
+    }
+
+    if (query.lgaCode) {
+      qb.andWhere('record.lgaCode = :lgaCode', { lgaCode: query.lgaCode });
+    }
+
+    if (query.facilityId) {
+      qb.andWhere('record.facilityId = :facilityId', { facilityId: query.facilityId });
+    }
+
+    return qb;
+  }
+
+  private toEntity(dto: LMDDto): Partial<LMDRecord> {
+    return {
+      id: dto.id,
+      facilityId: dto.facilityId,
+      facilityName: dto.facilityName,
+      lgaCode: dto.lgaCode,
+      stateCode: dto.stateCode,
+      deliveryTimestamp: new Date(dto.deliveryTimestamp),
+      vvmStatus: dto.vvmStatus,
+      gpsLatitude: dto.vehicleGPS?.latitude ?? null,
+      gpsLongitude: dto.vehicleGPS?.longitude ?? null,
+      gpsAccuracy: dto.vehicleGPS?.accuracy ?? null,
+      gpsTimestamp: dto.vehicleGPS ? new Date(dto.vehicleGPS.timestamp) : null,
+      officerId: dto.officerId,
+      officerName: dto.officerName,
+      deviceCreatedAt: new Date(dto.createdAt),
+      deviceUpdatedAt: new Date(dto.updatedAt),
+      syncedAt: new Date(),
+    };
+  }
+
+  private toDto(record: LMDRecord): LMDDto {
+    const items = [...(record.items || [])].sort((a, b) => a.lineNumber - b.lineNumber);
+
+    return {
+      id: record.id,
+      facilityId: record.facilityId,
+      facilityName: record.facilityName,
+      lgaCode: record.lgaCode,
+      stateCode: record.stateCode,
+      deliveryTimestamp: new Date(record.deliveryTimestamp).toISOString(),
+      vvmStatus: record.vvmStatus,
+      vehicleGPS:
+        record.gpsLatitude != null && record.gpsLongitude != null
+          ? {
+              latitude: Number(record.gpsLatitude),
+              longitude: Number(record.gpsLongitude),
+              accuracy: Number(record.gpsAccuracy),
+              timestamp: new Date(record.gpsTimestamp).toISOString(),
+            }
+          : undefined,
+      deliveryItems: items.map((item) => ({
+        productCode: item.productCode,
+        productName: item.productName,
+        quantityDelivered: item.quantityDelivered,
+        quantityReceived: item.quantityReceived,
+        batchNumber: item.batchNumber,
+        expiryDate: DateUtils.mixedDateToDateString(item.expiryDate),
+        vvmStatus: item.vvmStatus,
+        coldChainBreak: item.coldChainBreak,
+        notes: item.notes ?? undefined,
+      })),
+      officerId: record.officerId,
+      officerName: record.officerName,
+      synced: true,
+      createdAt: new Date(record.deviceCreatedAt).toISOString(),
+      updatedAt: new Date(record.deviceUpdatedAt).toISOString(),
+    };
   }
 }
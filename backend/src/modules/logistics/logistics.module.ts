@@ -0,0 +1,24 @@
+/**
+ * VaxTrace Nigeria - Logistics Module
+ *
+ * Transfer suggestions for redistributing vaccines between LGAs; executing
+ * a transfer notifies partner systems with a TRANSFER_EXECUTED webhook.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { WebhookSubscriptionsModule } from '../webhook-subscriptions/webhook-subscriptions.module';
+import { TransferSuggestionController } from './transfer-suggestion.controller';
+import { TransferSuggestionService } from './transfer-suggestion.service';
+
+@Module({
+  imports: [ConfigModule, WebhookSubscriptionsModule],
+  controllers: [TransferSuggestionController],
+  providers: [TransferSuggestionService],
+  exports: [TransferSuggestionService],
+})
+export class LogisticsModule {}
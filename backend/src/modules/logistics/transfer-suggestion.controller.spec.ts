@@ -0,0 +1,100 @@
+/**
+ * VaxTrace Nigeria - Transfer Suggestion Controller Tests
+ *
+ * Tests over HTTP, with the JwtMiddleware wiring of AppModule, that
+ * executing a transfer:
+ * - Queues a TRANSFER_EXECUTED delivery for subscribed partners
+ * - Is limited to logistics roles
+ */
+
+import { INestApplication, MiddlewareConsumer, Module, NestModule, ValidationPipe, VersioningType } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { sign } from 'jsonwebtoken';
+import request from 'supertest';
+
+import { AppModule } from '../app.module';
+import { WebhookSubscription, OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../entities/webhook-delivery.entity';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { TransferSuggestionController } from './transfer-suggestion.controller';
+import { TransferSuggestionService } from './transfer-suggestion.service';
+
+describe('TransferSuggestionController', () => {
+  const secret = 'test-secret';
+
+  let app: INestApplication;
+  let mockDeliveryRepository: { create: jest.Mock; save: jest.Mock };
+
+  const token = (role: string) => `Bearer ${sign({ sub: 'user-1', email: 'officer@vaxtrace.ng', role }, secret)}`;
+
+  beforeEach(async () => {
+    const subscriptionQueryBuilder = {
+      where: () => subscriptionQueryBuilder,
+      andWhere: () => subscriptionQueryBuilder,
+      getMany: async () => [{ id: 'sub-1', isActive: true }],
+    };
+    mockDeliveryRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (data) => data),
+    };
+    const configService = { get: (key: string) => (key === 'JWT_SECRET' ? secret : undefined) };
+
+    @Module({
+      controllers: [TransferSuggestionController],
+      providers: [
+        WebhookDispatchService,
+        { provide: ConfigService, useValue: configService },
+        { provide: getRepositoryToken(WebhookSubscription), useValue: { createQueryBuilder: () => subscriptionQueryBuilder } },
+        { provide: getRepositoryToken(WebhookDelivery), useValue: mockDeliveryRepository },
+        { provide: TransferSuggestionService, useValue: {} },
+      ],
+    })
+    class TestModule implements NestModule {
+      configure(consumer: MiddlewareConsumer): void {
+        new AppModule(configService as unknown as ConfigService).configure(consumer);
+      }
+    }
+
+    const moduleRef = await Test.createTestingModule({ imports: [TestModule] }).compile();
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' });
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should queue a transfer executed delivery for subscribed partners', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/transfer-suggestions/transfer-1/execute')
+      .set('Authorization', token('lga_logistics_officer'))
+      .send({ reason: 'Urgent stockout', estimatedCompletionTime: 90 })
+      .expect(200);
+
+    expect(mockDeliveryRepository.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        subscriptionId: 'sub-1',
+        eventType: OutboundEventType.TRANSFER_EXECUTED,
+        status: WebhookDeliveryStatus.PENDING,
+        payload: expect.objectContaining({
+          data: expect.objectContaining({ transferId: 'transfer-1', reason: 'Urgent stockout', estimatedCompletionTime: 90 }),
+        }),
+      }),
+    ]);
+  });
+
+  it('should reject other roles and requests without a token', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/transfer-suggestions/transfer-1/execute')
+      .set('Authorization', token('facility_in_charge'))
+      .expect(403);
+    await request(app.getHttpServer()).post('/api/v1/transfer-suggestions/transfer-1/execute').expect(401);
+
+    expect(mockDeliveryRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -8,28 +8,43 @@
  * - GET /api/v1/transfer-suggestions - Get transfer suggestions
  * - POST /api/v1/transfer-suggestions/:id/execute - Execute a transfer
  *
+ * Both are limited to logistics roles; executing a transfer is audited and
+ * published to partner webhook subscriptions.
+ *
  * @author VaxTrace Team
  * @version 1.0.0
  */
 
-import { Controller, Get, Post, Body, HttpCode, HttpStatus, Logger, Param, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty, ApiQuery } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, HttpCode, HttpStatus, Logger, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiPropertyOptional, ApiQuery } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
 
 import { TransferSuggestionService } from './transfer-suggestion.service';
 import { TransferSuggestion } from './transfer-suggestion.service';
+import { Audited } from '../audit/audit.interceptor';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { WebhookDispatchService } from '../webhook-subscriptions/webhook-dispatch.service';
+import { OutboundEventType } from '../../entities/webhook-subscription.entity';
 
 // ============================================
 // DTOS
 // ============================================
 
 export class ExecuteTransferDto {
-  @ApiProperty({ description: 'Reason for execution', example: 'Urgent stockout' })
+  @ApiPropertyOptional({ description: 'Reason for execution', example: 'Urgent stockout' })
+  @IsOptional()
+  @IsString()
   reason?: string;
 
-  @ApiProperty({ description: 'Notes for the transfer', example: 'Transfer completed successfully' })
+  @ApiPropertyOptional({ description: 'Notes for the transfer', example: 'Transfer completed successfully' })
+  @IsOptional()
+  @IsString()
   notes?: string;
 
-  @ApiProperty({ description: 'Estimated completion time (minutes)', example: 120 })
+  @ApiPropertyOptional({ description: 'Estimated completion time (minutes)', example: 120 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
   estimatedCompletionTime?: number;
 }
 
@@ -38,11 +53,16 @@ export class ExecuteTransferDto {
 // ============================================
 
 @ApiTags('Transfer Suggestions')
-@Controller('api/v1/transfer-suggestions')
+@ApiBearerAuth()
+@Controller('transfer-suggestions')
+@UseGuards(RBACGuard)
 export class TransferSuggestionController {
   private readonly logger = new Logger(TransferSuggestionController.name);
 
-  constructor(private readonly transferSuggestionService: TransferSuggestionService) {
+  constructor(
+    private readonly transferSuggestionService: TransferSuggestionService,
+    private readonly webhookDispatchService: WebhookDispatchService,
+  ) {
     this.logger.log('Transfer Suggestion Controller initialized');
   }
 
@@ -54,6 +74,7 @@ export class TransferSuggestionController {
    * Get transfer suggestions
    */
   @Get()
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'lga_logistics_officer', 'system_admin')
   @ApiOperation({
     summary: 'Get transfer suggestions',
     description: 'Retrieve AI-powered transfer suggestions for vaccine redistribution',
@@ -77,6 +98,8 @@ export class TransferSuggestionController {
    * Execute a transfer suggestion
    */
   @Post(':id/execute')
+  @Roles('nphcda_director', 'state_cold_chain_officer', 'lga_logistics_officer', 'system_admin')
+  @Audited({ action: 'EXECUTE', resource: 'transfer' })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Execute transfer',
@@ -96,12 +119,22 @@ export class TransferSuggestionController {
   ) {
     this.logger.log(`Execute transfer: ${id}`);
     // In production, this would trigger the actual transfer workflow
-    return {
+    const result = {
       success: true,
       message: 'Transfer executed successfully',
       transferId: id,
       estimatedCompletionTime: executeDto.estimatedCompletionTime || 120,
       notes: executeDto.notes,
     };
+
+    await this.webhookDispatchService.publish(OutboundEventType.TRANSFER_EXECUTED, {
+      transferId: id,
+      reason: executeDto.reason,
+      notes: executeDto.notes,
+      estimatedCompletionTime: result.estimatedCompletionTime,
+      executedAt: new Date().toISOString(),
+    });
+
+    return result;
   }
 }
@@ -180,6 +180,13 @@ export interface VaxTraceStockData {
   lastUpdated: string;
 }
 
+export interface VaxTracePage<T> {
+  content: T[];
+  pageNumber: number;
+  totalPages: number;
+  last: boolean;
+}
+
 export interface VaxTraceRequisition {
   id: string;
   program: string;
@@ -191,6 +198,65 @@ export interface VaxTraceRequisition {
   lastModifiedDate: string;
 }
 
+export interface VaxTraceOrderable {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface VaxTraceLot {
+  id: string;
+  lotCode: string;
+  expirationDate: string;
+  tradeItemId: string;
+  active: boolean;
+}
+
+// OpenLMIS entities that can be synchronized incrementally
+export interface OpenLMISChangeTypes {
+  facilities: VaxTraceFacility;
+  stockCards: VaxTraceStockData;
+  requisitions: VaxTraceRequisition;
+  orderables: VaxTraceOrderable;
+  lots: VaxTraceLot;
+}
+
+export type OpenLMISEntityType = keyof OpenLMISChangeTypes;
+
+export interface OpenLMISChangeFilters {
+  /** Only records modified after this time */
+  modifiedSince?: Date;
+  /** Only records in this state (geographic zone code) */
+  stateCode?: string;
+}
+
+interface ChangeEndpoint {
+  path: string;
+  modifiedSinceParam: string;
+  stateParams?: (stateCode: string) => Record<string, string>;
+}
+
+const CHANGE_ENDPOINTS: Record<OpenLMISEntityType, ChangeEndpoint> = {
+  facilities: {
+    path: '/facilities',
+    modifiedSinceParam: 'modifiedSince',
+    stateParams: (stateCode) => ({ geoZoneLevelCode: 'STATE', geoZoneCode: stateCode }),
+  },
+  stockCards: {
+    path: '/stockCards',
+    modifiedSinceParam: 'modifiedSince',
+    stateParams: (stateCode) => ({ geoZoneCode: stateCode, geoZoneLevel: 'STATE' }),
+  },
+  requisitions: {
+    path: '/requisitions/search',
+    modifiedSinceParam: 'modifiedDateFrom',
+    stateParams: (stateCode) => ({ geoZoneCode: stateCode }),
+  },
+  // Product and lot catalogues are national
+  orderables: { path: '/orderables', modifiedSinceParam: 'modifiedSince' },
+  lots: { path: '/lots', modifiedSinceParam: 'modifiedSince' },
+};
+
 @Injectable()
 export class OpenLMISAPIClientService {
   private readonly logger = new Logger(OpenLMISAPIClientService.name);
@@ -418,7 +484,7 @@ export class OpenLMISAPIClientService {
   async getStockOnHand(facilityId?: string): Promise<VaxTraceStockData[]> {
     const baseEndpoint = facilityId
       ? `/stockCards?facilityId=${facilityId}`
-      : '/stockCards';
+      : '/stockCards?';
     
     const cacheKey = `openlmis:stock:${facilityId || 'all'}`;
     
@@ -430,6 +496,56 @@ export class OpenLMISAPIClientService {
     );
   }
 
+  /**
+   * Whether an entity type can be fetched for a single state
+   */
+  supportsStateScope(entityType: OpenLMISEntityType): boolean {
+    return !!CHANGE_ENDPOINTS[entityType].stateParams;
+  }
+
+  /**
+   * Fetch a single page of records changed since a point in time, bypassing the cache
+   * Used by the OpenLMIS sync, which pages through changes itself
+   */
+  async getChangesPage<K extends OpenLMISEntityType>(
+    entityType: K,
+    pageNumber: number,
+    pageSize: number,
+    filters: OpenLMISChangeFilters = {},
+  ): Promise<VaxTracePage<OpenLMISChangeTypes[K]>> {
+    const endpoint = CHANGE_ENDPOINTS[entityType];
+    const params = new URLSearchParams({ page: String(pageNumber), size: String(pageSize) });
+
+    if (filters.modifiedSince) {
+      params.set(endpoint.modifiedSinceParam, filters.modifiedSince.toISOString());
+    }
+    if (filters.stateCode && endpoint.stateParams) {
+      for (const [key, value] of Object.entries(endpoint.stateParams(filters.stateCode))) {
+        params.set(key, value);
+      }
+    }
+
+    const headers = await this.authService.getAuthHeaders();
+    const response = await fetch(`${this.baseUrl}/api${endpoint.path}?${params.toString()}`, { headers });
+
+    if (!response.ok) {
+      throw new Error(`OpenLMIS API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const rawData = await response.json();
+
+    // Non-paginated servers return every record at once
+    const records = Array.isArray(rawData) ? rawData : rawData?.content || [];
+    const totalPages = Array.isArray(rawData) ? 1 : rawData.pageable?.totalPages ?? rawData.totalPages ?? 1;
+
+    return {
+      content: this.normalizeChanges(entityType, records),
+      pageNumber,
+      totalPages,
+      last: Array.isArray(rawData) || (rawData.last ?? pageNumber + 1 >= totalPages),
+    };
+  }
+
   /**
    * Get aggregated stock data for a state
    * NOTE: Nigeria OpenLMIS instance uses /stockCards endpoint
@@ -661,6 +777,33 @@ export class OpenLMISAPIClientService {
     }));
   }
 
+  /**
+   * Normalize a page of changed records by entity type
+   */
+  private normalizeChanges<K extends OpenLMISEntityType>(entityType: K, records: any[]): OpenLMISChangeTypes[K][] {
+    const normalized: { [T in OpenLMISEntityType]: () => OpenLMISChangeTypes[T][] } = {
+      facilities: () => this.normalizeFacilities(records),
+      stockCards: () => this.normalizeStockData(records),
+      requisitions: () => this.normalizeRequisitions(records),
+      orderables: () =>
+        records.filter((orderable) => orderable != null).map((orderable) => ({
+          id: orderable.id,
+          code: orderable.productCode || '',
+          name: orderable.fullProductName || orderable.productCode || '',
+        })),
+      lots: () =>
+        records.filter((lot) => lot != null).map((lot) => ({
+          id: lot.id,
+          lotCode: lot.lotCode || '',
+          expirationDate: lot.expirationDate || '',
+          tradeItemId: lot.tradeItemId || '',
+          active: typeof lot.active === 'boolean' ? lot.active : true,
+        })),
+    };
+
+    return normalized[entityType]() as OpenLMISChangeTypes[K][];
+  }
+
   /**
    * Health check for OpenLMIS connection
    */
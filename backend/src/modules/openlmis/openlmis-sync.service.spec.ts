@@ -0,0 +1,573 @@
+/**
+ * VaxTrace Nigeria - OpenLMIS Sync Service Unit Tests
+ *
+ * Tests that an OpenLMIS sync:
+ * - Fetches only changes since the stored per-entity, per-state watermark
+ * - Resumes an interrupted sync from its next page
+ * - Upserts today's snapshots idempotently, carrying unchanged lots forward
+ * - Appends ledger adjustments only for changed stock on hand
+ * - Records its progress and outcome in sync_logs
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DataSource, FindOperator } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { SyncLog } from '../../entities/sync-log.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { Requisition, RequisitionStatus } from '../../entities/requisition.entity';
+import { StockSnapshot } from '../../entities/stock-snapshot.entity';
+import { CacheService } from '../cache/cache.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import { OpenLMISService } from './openlmis.service';
+import { OpenLMISAPIClientService, VaxTraceStockData } from './openlmis-api-client.service';
+import { OpenLMISSyncService, SYNC_JOB } from './openlmis-sync.service';
+
+describe('OpenLMISSyncService', () => {
+  let service: OpenLMISSyncService;
+  let mockSyncLogRepository: any;
+  let mockLocationRepository: any;
+  let mockVaccineRepository: any;
+  let mockRequisitionRepository: any;
+  let mockApiClient: any;
+  let mockOpenLMISService: any;
+  let mockCacheService: any;
+  let mockSchedulerRegistry: any;
+  let mockProductBatchService: any;
+  let mockLedgerRepository: any;
+  let snapshots: Partial<StockSnapshot>[];
+  let syncLogs: { running?: Partial<SyncLog>; lastCompleted?: Partial<SyncLog>; lastAttempt?: Partial<SyncLog> };
+
+  const today = DateUtils.mixedDateToDateString(new Date());
+  const stockCards = { trigger: 'manual' as const, entityTypes: ['stockCards'] };
+
+  const facility = {
+    id: 'facility-1',
+    openlmisId: 'olmis-facility-1',
+    type: LocationType.FACILITY,
+    parent: { id: 'lga-1', type: LocationType.LGA, parentId: 'state-1' },
+  } as Location;
+
+  const kano = { id: 'state-kano', code: 'NG-KN', type: LocationType.STATE } as Location;
+
+  const bcg = { id: 'vaccine-bcg', code: 'BCG', openlmisProductId: 'olmis-bcg' } as Vaccine;
+
+  const stockCard = (overrides: Partial<VaxTraceStockData> = {}): VaxTraceStockData => ({
+    nodeId: 'olmis-facility-1',
+    facilityName: 'Garki PHC',
+    facilityCode: 'FC-GARKI-PHC',
+    state: 'FCT',
+    lga: 'AMAC',
+    productCode: 'olmis-bcg',
+    productName: 'BCG',
+    quantity: 100,
+    lotCode: 'BCG-A',
+    lotExpiry: '2025-06-30',
+    expiryRisk: 'LOW',
+    vvmStage: 1,
+    vvmStatus: 'HEALTHY',
+    monthsOfStock: 3,
+    lastUpdated: '2024-03-01T10:00:00Z',
+    ...overrides,
+  });
+
+  const page = (content: any[], pageNumber = 0, totalPages = 1) => ({
+    content,
+    pageNumber,
+    totalPages,
+    last: pageNumber + 1 >= totalPages,
+  });
+
+  const snapshot = (overrides: Partial<StockSnapshot>): Partial<StockSnapshot> => ({
+    id: `snapshot-${snapshots.length + 1}`,
+    facilityId: 'facility-1',
+    vaccineId: 'vaccine-bcg',
+    lotNumber: 'BCG-A',
+    expiryDate: '2025-06-30' as unknown as Date,
+    quantityOnHand: 100,
+    snapshotDate: today as unknown as Date,
+    ...overrides,
+  });
+
+  // Snapshots matched the way the service queries them
+  const matches = (row: Partial<StockSnapshot>, where: any) =>
+    row.facilityId === where.facilityId &&
+    row.vaccineId === where.vaccineId &&
+    (!('lotNumber' in where) ||
+      (where.lotNumber instanceof FindOperator ? row.lotNumber === null : row.lotNumber === where.lotNumber)) &&
+    (!('snapshotDate' in where) ||
+      DateUtils.mixedDateToDateString(row.snapshotDate as Date) === DateUtils.mixedDateToDateString(where.snapshotDate));
+
+  const latestFirst = (a: Partial<StockSnapshot>, b: Partial<StockSnapshot>) =>
+    DateUtils.mixedDateToDateString(b.snapshotDate as Date).localeCompare(DateUtils.mixedDateToDateString(a.snapshotDate as Date));
+
+  beforeEach(async () => {
+    snapshots = [];
+    syncLogs = {};
+
+    mockSyncLogRepository = {
+      findOne: jest.fn(async ({ where }) => {
+        if (where.status === 'running') return syncLogs.running ?? null;
+        if (where.status === 'completed') return syncLogs.lastCompleted ?? null;
+        return syncLogs.lastAttempt ?? null;
+      }),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (log) => Object.assign(log, { id: log.id ?? 'sync-1', startedAt: log.startedAt ?? new Date() })),
+      update: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => {
+        const builder: any = {};
+        for (const method of ['distinctOn', 'where', 'andWhere', 'orderBy', 'addOrderBy']) {
+          builder[method] = jest.fn(() => builder);
+        }
+        builder.getMany = jest.fn().mockResolvedValue([]);
+        return builder;
+      }),
+    };
+
+    const mockSnapshotRepository = {
+      findOne: jest.fn(async ({ where }) => snapshots.filter((row) => matches(row, where)).sort(latestFirst)[0] ?? null),
+      find: jest.fn(async ({ where }) => snapshots.filter((row) => matches(row, where))),
+      create: jest.fn((data) => ({ ...data })),
+      insert: jest.fn(async (rows) => {
+        for (const row of [].concat(rows)) {
+          snapshots.push(snapshot(row));
+        }
+      }),
+      update: jest.fn(async (id, changes) => {
+        Object.assign(snapshots.find((row) => row.id === id) as object, changes);
+      }),
+    };
+    mockLedgerRepository = { insert: jest.fn().mockResolvedValue(undefined) };
+
+    const mockManager = {
+      getRepository: jest.fn((entity) => (entity === StockSnapshot ? mockSnapshotRepository : mockLedgerRepository)),
+    };
+
+    mockLocationRepository = {
+      find: jest.fn().mockResolvedValue([facility]),
+      findOne: jest.fn().mockResolvedValue(kano),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    mockVaccineRepository = {
+      find: jest.fn().mockResolvedValue([bcg]),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    mockRequisitionRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      insert: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    mockApiClient = {
+      getChangesPage: jest.fn().mockResolvedValue(page([stockCard()])),
+      supportsStateScope: jest.fn((entityType) => !['orderables', 'lots'].includes(entityType)),
+    };
+    mockOpenLMISService = { isMockMode: jest.fn().mockReturnValue(false) };
+    mockCacheService = {
+      deletePattern: jest.fn().mockResolvedValue(undefined),
+      invalidateMapCache: jest.fn().mockResolvedValue(undefined),
+    };
+    mockProductBatchService = { recordLots: jest.fn().mockResolvedValue(undefined) };
+
+    mockSchedulerRegistry = {
+      getCronJob: jest.fn().mockReturnValue({
+        nextDate: () => ({ toJSDate: () => new Date('2024-03-01T11:00:00Z') }),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OpenLMISSyncService,
+        { provide: DataSource, useValue: { transaction: jest.fn((work) => work(mockManager)) } },
+        { provide: getRepositoryToken(SyncLog), useValue: mockSyncLogRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+        { provide: getRepositoryToken(Vaccine), useValue: mockVaccineRepository },
+        { provide: getRepositoryToken(Requisition), useValue: mockRequisitionRepository },
+        { provide: OpenLMISService, useValue: mockOpenLMISService },
+        { provide: OpenLMISAPIClientService, useValue: mockApiClient },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: SchedulerRegistry, useValue: mockSchedulerRegistry },
+        { provide: ProductBatchService, useValue: mockProductBatchService },
+        StockSnapshotService,
+      ],
+    }).compile();
+
+    service = module.get<OpenLMISSyncService>(OpenLMISSyncService);
+  });
+
+  describe('Watermarks', () => {
+    it('should run a full sync when there is no watermark', async () => {
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledWith('stockCards', 0, expect.any(Number), {
+        modifiedSince: undefined,
+        stateCode: undefined,
+      });
+      expect(mockSyncLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ syncType: 'full', entityType: 'stockCards', scope: 'national' }),
+      );
+      expect(run).toEqual(expect.objectContaining({ status: 'completed', watermark: expect.any(Date) }));
+    });
+
+    it('should fetch only changes since the last completed sync', async () => {
+      const watermark = new Date('2024-03-01T10:00:00Z');
+      syncLogs.lastCompleted = { id: 'sync-0', status: 'completed', watermark, nextPage: 4 };
+      syncLogs.lastAttempt = syncLogs.lastCompleted;
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledWith('stockCards', 0, expect.any(Number), {
+        modifiedSince: watermark,
+        stateCode: undefined,
+      });
+      expect(run.progress).toEqual(expect.objectContaining({ mode: 'delta', since: watermark.toISOString() }));
+      expect(run.watermark!.getTime()).toBeGreaterThan(watermark.getTime());
+    });
+
+    it('should keep separate watermarks per state', async () => {
+      const runs = await service.syncChanges({ trigger: 'manual', entityTypes: ['stockCards', 'orderables'], stateId: kano.id });
+
+      expect(runs.map((run) => [run.entityType, run.scope])).toEqual([
+        ['orderables', 'national'],
+        ['stockCards', 'NG-KN'],
+      ]);
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledWith('stockCards', 0, expect.any(Number), {
+        modifiedSince: undefined,
+        stateCode: 'NG-KN',
+      });
+      expect(mockSyncLogRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { entityType: 'stockCards', scope: 'NG-KN', status: 'completed' } }),
+      );
+    });
+
+    it('should use the given timestamp instead of the watermark', async () => {
+      syncLogs.lastCompleted = { id: 'sync-0', status: 'completed', watermark: new Date('2024-03-01T10:00:00Z') };
+      const since = new Date('2024-01-01T00:00:00Z');
+
+      await service.syncChanges({ ...stockCards, since });
+
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledWith('stockCards', 0, expect.any(Number), {
+        modifiedSince: since,
+        stateCode: undefined,
+      });
+    });
+
+    it('should resume a failed sync from its next page with the same window', async () => {
+      syncLogs.lastCompleted = { id: 'sync-0', status: 'completed', watermark: new Date('2024-02-01T00:00:00Z') };
+      syncLogs.lastAttempt = {
+        id: 'sync-failed',
+        status: 'failed',
+        nextPage: 3,
+        metadata: { since: '2024-02-01T00:00:00.000Z', watermark: '2024-03-01T10:00:00.000Z' },
+      };
+      mockApiClient.getChangesPage.mockResolvedValue(page([stockCard()], 3, 4));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledWith('stockCards', 3, expect.any(Number), {
+        modifiedSince: new Date('2024-02-01T00:00:00Z'),
+        stateCode: undefined,
+      });
+      expect(run.progress.resumedFrom).toEqual({ syncLogId: 'sync-failed', page: 3 });
+      expect(run.watermark).toEqual(new Date('2024-03-01T10:00:00Z'));
+    });
+
+    it('should mark a crashed sync as failed and resume it', async () => {
+      syncLogs.lastAttempt = {
+        id: 'sync-crashed',
+        status: 'running',
+        startedAt: new Date(Date.now() - 3 * 60 * 60 * 1000),
+        nextPage: 2,
+        metadata: { since: null, watermark: '2024-03-01T10:00:00.000Z' },
+      };
+      mockApiClient.getChangesPage.mockResolvedValue(page([stockCard()], 2, 3));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(mockSyncLogRepository.update).toHaveBeenCalledWith(
+        'sync-crashed',
+        expect.objectContaining({ status: 'failed', errorMessage: 'Interrupted' }),
+      );
+      expect(run.progress.resumedFrom).toEqual({ syncLogId: 'sync-crashed', page: 2 });
+    });
+
+    it('should refuse to start while the same sync is running', async () => {
+      syncLogs.running = { id: 'sync-0', status: 'running', startedAt: new Date() };
+
+      await expect(service.syncChanges(stockCards)).rejects.toThrow(ConflictException);
+      expect(mockApiClient.getChangesPage).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown entity types and locations that are not states', async () => {
+      await expect(service.syncChanges({ trigger: 'manual', entityTypes: ['patients'] })).rejects.toThrow(BadRequestException);
+
+      mockLocationRepository.findOne.mockResolvedValue({ ...facility });
+      await expect(service.syncChanges({ ...stockCards, stateId: facility.id })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('Syncing stock cards', () => {
+    it('should page through changes, recording the next page after each', async () => {
+      mockApiClient.getChangesPage
+        .mockResolvedValueOnce(page([stockCard()], 0, 2))
+        .mockResolvedValueOnce(page([stockCard({ lotCode: 'BCG-B', quantity: 50 })], 1, 2));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(mockApiClient.getChangesPage).toHaveBeenCalledTimes(2);
+      expect(mockSyncLogRepository.update).toHaveBeenCalledWith('sync-1', expect.objectContaining({ nextPage: 1 }));
+      expect(mockSyncLogRepository.update).toHaveBeenLastCalledWith(
+        'sync-1',
+        expect.objectContaining({ nextPage: 2, metadata: expect.objectContaining({ totalPages: 2, recordsFetched: 2 }) }),
+      );
+      expect(run.status).toBe('completed');
+    });
+
+    it('should insert new lots, summing duplicate stock cards', async () => {
+      mockApiClient.getChangesPage.mockResolvedValue(
+        page([stockCard(), stockCard({ quantity: 20 }), stockCard({ lotCode: '', quantity: 5 })]),
+      );
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(snapshots).toEqual([
+        expect.objectContaining({ facilityId: 'facility-1', vaccineId: 'vaccine-bcg', lotNumber: 'BCG-A', quantityOnHand: 120 }),
+        expect.objectContaining({ facilityId: 'facility-1', vaccineId: 'vaccine-bcg', lotNumber: null, quantityOnHand: 5 }),
+      ]);
+      // Today's lots of the facility/vaccine go to the lot register
+      const [, lots] = mockProductBatchService.recordLots.mock.calls[0];
+      expect(lots.map((lot: StockSnapshot) => lot.lotNumber)).toEqual(['BCG-A', null]);
+      expect(run.progress).toEqual(
+        expect.objectContaining({ recordsFetched: 3, recordsInserted: 2, recordsUpdated: 0, recordsFailed: 0 }),
+      );
+      expect(run.progress.changes).toEqual([
+        { key: 'FC-GARKI-PHC/olmis-bcg/BCG-A', action: 'inserted' },
+        { key: 'FC-GARKI-PHC/olmis-bcg/-', action: 'inserted' },
+      ]);
+    });
+
+    it('should write nothing when stock is unchanged', async () => {
+      snapshots.push(snapshot({}));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(run.progress).toEqual(expect.objectContaining({ recordsInserted: 0, recordsUpdated: 0, recordsUnchanged: 1 }));
+      expect(run.progress.changes).toEqual([]);
+      expect(mockLedgerRepository.insert).not.toHaveBeenCalled();
+    });
+
+    it('should update changed lots and record the change in the stock ledger', async () => {
+      snapshots.push(snapshot({ quantityOnHand: 160 }));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(snapshots[0]).toEqual(expect.objectContaining({ quantityOnHand: 100, syncedFromOpenlmisAt: expect.any(Date) }));
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          facilityId: 'facility-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          vaccineId: 'vaccine-bcg',
+          quantity: -60,
+          quantityOnHand: 100,
+          transactionType: 'adjustment',
+          transactionReference: 'openlmis-sync:sync-1:0',
+        }),
+      );
+      expect(run.progress).toEqual(expect.objectContaining({ recordsUpdated: 1, ledgerEntries: 1 }));
+    });
+
+    it('should carry unchanged lots forward to today when only some lots changed', async () => {
+      snapshots.push(
+        snapshot({ lotNumber: 'BCG-A', quantityOnHand: 160, snapshotDate: '2000-01-01' as unknown as Date }),
+        snapshot({ lotNumber: 'BCG-B', quantityOnHand: 40, snapshotDate: '2000-01-01' as unknown as Date }),
+      );
+
+      await service.syncChanges(stockCards);
+
+      const current = snapshots.filter((row) => DateUtils.mixedDateToDateString(row.snapshotDate as Date) === today);
+      expect(current).toEqual([
+        expect.objectContaining({ lotNumber: 'BCG-A', quantityOnHand: 100 }),
+        expect.objectContaining({ lotNumber: 'BCG-B', quantityOnHand: 40 }),
+      ]);
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: -60, quantityOnHand: 140 }),
+      );
+    });
+
+    it('should count stock cards for unknown facilities or products as failed', async () => {
+      mockApiClient.getChangesPage.mockResolvedValue(
+        page([stockCard(), stockCard({ nodeId: 'unknown-facility' }), stockCard({ productCode: 'unknown-product' })]),
+      );
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(run.progress.recordsFailed).toBe(2);
+      expect(run.progress.failures.map((failure) => failure.reason)).toEqual(['Unknown facility', 'Unknown product']);
+      expect(mockSyncLogRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'completed', entitiesSynced: 1, entitiesFailed: 2, durationSeconds: expect.any(Number) }),
+      );
+    });
+
+    it('should invalidate stock caches after syncing', async () => {
+      await service.syncChanges(stockCards);
+
+      expect(mockCacheService.deletePattern).toHaveBeenCalledWith('openlmis:stock:*');
+      expect(mockCacheService.deletePattern).toHaveBeenCalledWith('vax:stock:*');
+      expect(mockCacheService.invalidateMapCache).toHaveBeenCalled();
+    });
+
+    it('should mark the sync as failed, keeping the next page to resume from', async () => {
+      mockApiClient.getChangesPage
+        .mockResolvedValueOnce(page([stockCard()], 0, 3))
+        .mockRejectedValueOnce(new Error('OpenLMIS API request failed: 503 Service Unavailable'));
+
+      const [run] = await service.syncChanges(stockCards);
+
+      expect(run).toEqual(
+        expect.objectContaining({ status: 'failed', errorMessage: 'OpenLMIS API request failed: 503 Service Unavailable' }),
+      );
+      expect(mockSyncLogRepository.save).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed', nextPage: 1 }));
+      expect(mockCacheService.deletePattern).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Syncing reference data', () => {
+    it('should update registered facilities that changed', async () => {
+      mockLocationRepository.find.mockResolvedValue([{ id: 'facility-1', openlmisId: 'olmis-facility-1', name: 'Garki PHC', isActive: true }]);
+      mockApiClient.getChangesPage.mockResolvedValue(
+        page([
+          { id: 'olmis-facility-1', code: 'FC-GARKI-PHC', name: 'Garki Primary Health Centre', active: true },
+          { id: 'olmis-facility-9', code: 'FC-UNKNOWN', name: 'Unknown', active: true },
+        ]),
+      );
+
+      const [run] = await service.syncChanges({ trigger: 'manual', entityTypes: ['facilities'] });
+
+      expect(mockLocationRepository.update).toHaveBeenCalledWith('facility-1', {
+        name: 'Garki Primary Health Centre',
+        isActive: true,
+      });
+      expect(run.progress).toEqual(expect.objectContaining({ recordsUpdated: 1, recordsFailed: 1 }));
+    });
+
+    it('should link vaccines to their OpenLMIS orderables', async () => {
+      mockVaccineRepository.find.mockResolvedValue([{ id: 'vaccine-opv', code: 'OPV', openlmisProductId: null }]);
+      mockApiClient.getChangesPage.mockResolvedValue(page([{ id: 'olmis-opv', code: 'OPV', name: 'Oral Polio Vaccine' }]));
+
+      const [run] = await service.syncChanges({ trigger: 'manual', entityTypes: ['orderables'] });
+
+      expect(mockVaccineRepository.update).toHaveBeenCalledWith('vaccine-opv', { openlmisProductId: 'olmis-opv' });
+      expect(run.progress.changes).toEqual([{ key: 'OPV', action: 'updated' }]);
+    });
+
+    it('should upsert requisitions of registered facilities', async () => {
+      const requisition = (id: string, status: string) => ({
+        id,
+        program: 'EPI',
+        facilityId: 'olmis-facility-1',
+        facilityName: 'Garki PHC',
+        status,
+        emergency: false,
+        createdDate: '2024-02-20',
+        lastModifiedDate: '2024-03-01T09:00:00Z',
+      });
+      mockRequisitionRepository.find.mockResolvedValue([
+        { id: 'local-req-2', openlmisRequisitionId: 'req-2', status: RequisitionStatus.SUBMITTED, program: 'EPI', emergency: false },
+      ]);
+      mockApiClient.getChangesPage.mockResolvedValue(
+        page([requisition('req-1', 'APPROVED'), requisition('req-2', 'IN_APPROVAL'), requisition('req-3', 'SKIPPED')]),
+      );
+
+      const [run] = await service.syncChanges({ trigger: 'manual', entityTypes: ['requisitions'] });
+
+      expect(mockRequisitionRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          openlmisRequisitionId: 'req-1',
+          facilityId: 'facility-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          status: RequisitionStatus.APPROVED,
+        }),
+      );
+      expect(mockRequisitionRepository.update).toHaveBeenCalledWith(
+        'local-req-2',
+        expect.objectContaining({ status: RequisitionStatus.AUTHORIZED }),
+      );
+      expect(run.progress).toEqual(expect.objectContaining({ recordsInserted: 1, recordsUpdated: 1, recordsFailed: 1 }));
+    });
+  });
+
+  describe('Scheduled sync and status', () => {
+    it('should sync every entity type nationally on schedule', async () => {
+      mockApiClient.getChangesPage.mockResolvedValue(page([]));
+
+      await service.handleScheduledSync();
+
+      expect(mockApiClient.getChangesPage.mock.calls.map(([entityType]: [string]) => entityType)).toEqual([
+        'facilities',
+        'orderables',
+        'lots',
+        'stockCards',
+        'requisitions',
+      ]);
+    });
+
+    it('should skip scheduled syncs in mock mode', async () => {
+      mockOpenLMISService.isMockMode.mockReturnValue(true);
+
+      await service.handleScheduledSync();
+
+      expect(mockSyncLogRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should report running syncs, watermarks and the next scheduled run', async () => {
+      const running = {
+        id: 'sync-2',
+        entityType: 'stockCards',
+        scope: 'national',
+        status: 'running',
+        startedAt: new Date(),
+        metadata: { page: 3, totalPages: 10 },
+      };
+      const completed = {
+        id: 'sync-1',
+        entityType: 'facilities',
+        scope: 'national',
+        status: 'completed',
+        watermark: new Date('2024-03-01T10:00:00Z'),
+        startedAt: new Date('2024-03-01T10:00:00Z'),
+        completedAt: new Date('2024-03-01T10:05:00Z'),
+        durationSeconds: 300,
+        metadata: { page: 10, totalPages: 10 },
+      };
+      mockSyncLogRepository.find.mockResolvedValue([running]);
+      mockSyncLogRepository.findOne.mockResolvedValue(completed);
+      mockSyncLogRepository.createQueryBuilder = jest.fn(() => {
+        const builder: any = { getMany: jest.fn().mockResolvedValue([completed]) };
+        for (const method of ['distinctOn', 'where', 'andWhere', 'orderBy', 'addOrderBy']) {
+          builder[method] = jest.fn(() => builder);
+        }
+        return builder;
+      });
+
+      const status = await service.getSyncStatus();
+
+      expect(mockSchedulerRegistry.getCronJob).toHaveBeenCalledWith(SYNC_JOB);
+      expect(status).toEqual({
+        lastSync: completed.completedAt,
+        syncInProgress: true,
+        nextScheduledSync: '2024-03-01T11:00:00.000Z',
+        running: [expect.objectContaining({ id: 'sync-2', progress: { page: 3, totalPages: 10 } })],
+        lastRun: expect.objectContaining({ id: 'sync-1', durationSeconds: 300 }),
+        watermarks: [{ entityType: 'facilities', scope: 'national', watermark: completed.watermark, syncLogId: 'sync-1' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,822 @@
+/**
+ * VaxTrace Nigeria - OpenLMIS Sync Service
+ *
+ * Incremental synchronization of OpenLMIS into the local database.
+ * Facilities, orderables, lots, stock cards and requisitions are synced
+ * separately, nationally or for a single state. Every run:
+ * 1. Fetches only the records changed since the watermark of the last
+ *    completed run of the same entity type and scope (a full sync when
+ *    there is none)
+ * 2. Applies each page: stock cards are upserted into today's
+ *    stock_snapshots with a stock_ledger adjustment for every changed
+ *    stock on hand; requisitions are upserted; facilities and orderables
+ *    update their local locations and vaccines; lots are reported only
+ * 3. Invalidates the caches of the synced entity type
+ *
+ * Each run is recorded in sync_logs with its watermark and the next page
+ * to apply, written after every page. A run that fails or is interrupted
+ * is resumed from that page by the next sync, and GET /openlmis/sync/status
+ * reports runs that are still in progress.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { DataSource, EntityManager, In, IsNull, Not, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { SyncLog } from '../../entities/sync-log.entity';
+import { StockSnapshot } from '../../entities/stock-snapshot.entity';
+import { StockLedger } from '../../entities/stock-ledger.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { Requisition, RequisitionStatus } from '../../entities/requisition.entity';
+import { CacheService } from '../cache/cache.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import { OpenLMISService } from './openlmis.service';
+import {
+  OpenLMISAPIClientService,
+  OpenLMISChangeTypes,
+  OpenLMISEntityType,
+  VaxTraceFacility,
+  VaxTraceOrderable,
+  VaxTraceRequisition,
+  VaxTraceStockData,
+} from './openlmis-api-client.service';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export type SyncTrigger = 'scheduled' | 'manual';
+
+export interface SyncOptions {
+  trigger: SyncTrigger;
+  /** Entity types to sync (default: all) */
+  entityTypes?: string[];
+  /** Sync a single state instead of the whole country */
+  stateId?: string;
+  /** Fetch changes since this time instead of the stored watermark */
+  since?: Date;
+}
+
+export interface SyncChange {
+  /** Facility code, product code, lot code or requisition id of the changed record */
+  key: string;
+  action: 'inserted' | 'updated' | 'changed';
+}
+
+export interface SyncProgress {
+  trigger: SyncTrigger;
+  entityType: OpenLMISEntityType;
+  scope: string;
+  mode: 'full' | 'delta';
+  since: string | null;
+  watermark: string;
+  resumedFrom: { syncLogId: string; page: number } | null;
+  page: number;
+  totalPages: number | null;
+  recordsFetched: number;
+  recordsInserted: number;
+  recordsUpdated: number;
+  recordsUnchanged: number;
+  recordsFailed: number;
+  ledgerEntries: number;
+  /** First few records that could not be matched to a local facility or vaccine */
+  failures: { key: string; reason: string }[];
+  /** First few records that changed */
+  changes: SyncChange[];
+}
+
+export interface SyncRunSummary {
+  id: string;
+  entityType: string;
+  scope: string;
+  status: string;
+  watermark: Date | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  durationSeconds: number | null;
+  errorMessage: string | null;
+  progress: SyncProgress;
+}
+
+export interface SyncWatermark {
+  entityType: string;
+  scope: string;
+  watermark: Date;
+  syncLogId: string;
+}
+
+export interface SyncStatus {
+  lastSync: Date | null;
+  syncInProgress: boolean;
+  nextScheduledSync: string | null;
+  running: SyncRunSummary[];
+  lastRun: SyncRunSummary | null;
+  watermarks: SyncWatermark[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SYNC_JOB = 'openlmis-sync';
+export const NATIONAL_SCOPE = 'national';
+
+// Reference data first, so stock cards can be matched to facilities and products
+export const SYNC_ENTITY_TYPES: OpenLMISEntityType[] = ['facilities', 'orderables', 'lots', 'stockCards', 'requisitions'];
+
+const PAGE_SIZE = 100;
+const MAX_RECORDED_FAILURES = 20;
+const MAX_RECORDED_CHANGES = 50;
+
+// A 'running' sync older than this is assumed to have crashed
+const STALE_SYNC_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+const SyncStatusValue = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+// OpenLMIS requisition statuses without a VaxTrace equivalent
+const REQUISITION_STATUS_ALIASES: Record<string, RequisitionStatus> = {
+  IN_APPROVAL: RequisitionStatus.AUTHORIZED,
+  RELEASED_WITHOUT_ORDER: RequisitionStatus.RELEASED,
+};
+
+// Cache keys holding each entity type
+const CACHE_PATTERNS: Record<OpenLMISEntityType, string[]> = {
+  facilities: ['openlmis:facilities:*'],
+  orderables: [],
+  lots: [],
+  stockCards: ['openlmis:stock:*', 'vax:stock:*'],
+  requisitions: ['openlmis:requisitions:*'],
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class OpenLMISSyncService {
+  private readonly logger = new Logger(OpenLMISSyncService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(SyncLog)
+    private readonly syncLogRepository: Repository<SyncLog>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    @InjectRepository(Vaccine)
+    private readonly vaccineRepository: Repository<Vaccine>,
+    @InjectRepository(Requisition)
+    private readonly requisitionRepository: Repository<Requisition>,
+    private readonly openlmisService: OpenLMISService,
+    private readonly apiClient: OpenLMISAPIClientService,
+    private readonly cacheService: CacheService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly productBatchService: ProductBatchService,
+    private readonly stockSnapshotService: StockSnapshotService,
+  ) {}
+
+  // ============================================
+  // SCHEDULED RUN
+  // ============================================
+
+  /**
+   * Sync OpenLMIS changes nationally every 30 minutes
+   */
+  @Cron(CronExpression.EVERY_30_MINUTES, { name: SYNC_JOB })
+  async handleScheduledSync(): Promise<void> {
+    if (this.openlmisService.isMockMode()) {
+      this.logger.debug('OpenLMIS in mock mode - sync skipped');
+      return;
+    }
+
+    try {
+      await this.syncChanges({ trigger: 'scheduled' });
+    } catch (error) {
+      // Don't throw - the next scheduled run will try again
+      this.logger.warn(`Scheduled sync not run: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Sync each requested entity type, fetching only changes since its watermark
+   */
+  async syncChanges(options: SyncOptions): Promise<SyncRunSummary[]> {
+    const entityTypes = this.getEntityTypes(options.entityTypes);
+    const state = options.stateId ? await this.getState(options.stateId) : null;
+
+    const runs = entityTypes.map((entityType) => ({
+      entityType,
+      scope: state && this.apiClient.supportsStateScope(entityType) ? state.code : NATIONAL_SCOPE,
+    }));
+
+    for (const run of runs) {
+      const running = await this.findRunningSync(run.entityType, run.scope);
+      if (running) {
+        throw new ConflictException(`OpenLMIS ${run.entityType} sync ${running.id} (${run.scope}) is already running`);
+      }
+    }
+
+    const summaries: SyncRunSummary[] = [];
+    for (const run of runs) {
+      summaries.push(await this.syncEntity(run.entityType, run.scope, options));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Running and last syncs, stored watermarks and when the next sync is scheduled
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    const [running, lastRun, lastCompleted, watermarks] = await Promise.all([
+      this.syncLogRepository.find({
+        where: { status: SyncStatusValue.RUNNING, entityType: Not(IsNull()) },
+        order: { startedAt: 'DESC' },
+      }),
+      this.syncLogRepository.findOne({
+        where: { status: In([SyncStatusValue.COMPLETED, SyncStatusValue.FAILED]), entityType: Not(IsNull()) },
+        order: { startedAt: 'DESC' },
+      }),
+      this.syncLogRepository.findOne({
+        where: { status: SyncStatusValue.COMPLETED, entityType: Not(IsNull()) },
+        order: { completedAt: 'DESC' },
+      }),
+      this.getWatermarks(),
+    ]);
+
+    const current = running.filter((syncLog) => !this.isStale(syncLog));
+
+    return {
+      lastSync: lastCompleted?.completedAt ?? null,
+      syncInProgress: current.length > 0,
+      nextScheduledSync: this.getNextScheduledSync(),
+      running: current.map((syncLog) => this.toSummary(syncLog)),
+      lastRun: lastRun ? this.toSummary(lastRun) : null,
+      watermarks,
+    };
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Run one entity type for one scope, resuming an interrupted run if there is one
+   */
+  private async syncEntity(entityType: OpenLMISEntityType, scope: string, options: SyncOptions): Promise<SyncRunSummary> {
+    const [lastCompleted, lastAttempt] = await Promise.all([
+      this.syncLogRepository.findOne({
+        where: { entityType, scope, status: SyncStatusValue.COMPLETED },
+        order: { startedAt: 'DESC' },
+      }),
+      this.syncLogRepository.findOne({ where: { entityType, scope }, order: { startedAt: 'DESC' } }),
+    ]);
+
+    // A stale 'running' sync crashed; record it as failed so it can be resumed
+    if (lastAttempt?.status === SyncStatusValue.RUNNING) {
+      await this.syncLogRepository.update(lastAttempt.id, {
+        status: SyncStatusValue.FAILED,
+        errorMessage: 'Interrupted',
+        completedAt: new Date(),
+      });
+      lastAttempt.status = SyncStatusValue.FAILED;
+    }
+
+    // Resume from the first page not yet applied, with the interrupted run's window
+    const resume =
+      !options.since && lastAttempt && lastAttempt.status === SyncStatusValue.FAILED && lastAttempt.nextPage > 0
+        ? lastAttempt
+        : null;
+
+    const since = options.since ?? (resume ? this.toDate(resume.metadata?.since) : lastCompleted?.watermark ?? null);
+    const watermark = resume ? new Date(resume.metadata.watermark) : new Date();
+    const startPage = resume?.nextPage ?? 0;
+
+    const progress: SyncProgress = {
+      trigger: options.trigger,
+      entityType,
+      scope,
+      mode: since ? 'delta' : 'full',
+      since: since ? since.toISOString() : null,
+      watermark: watermark.toISOString(),
+      resumedFrom: resume ? { syncLogId: resume.id, page: startPage } : null,
+      page: startPage,
+      totalPages: null,
+      recordsFetched: 0,
+      recordsInserted: 0,
+      recordsUpdated: 0,
+      recordsUnchanged: 0,
+      recordsFailed: 0,
+      ledgerEntries: 0,
+      failures: [],
+      changes: [],
+    };
+
+    const syncLog = await this.syncLogRepository.save(
+      this.syncLogRepository.create({
+        syncType: progress.mode,
+        source: 'openlmis',
+        entityType,
+        scope,
+        status: SyncStatusValue.RUNNING,
+        nextPage: startPage,
+        metadata: progress,
+      }),
+    );
+
+    const startedAt = Date.now();
+    this.logger.log(
+      `Starting OpenLMIS ${entityType} ${progress.mode} sync ${syncLog.id} (${scope}, ${options.trigger})` +
+        (resume ? ` resuming ${resume.id} from page ${startPage}` : ''),
+    );
+
+    try {
+      let last = false;
+
+      while (!last) {
+        const page = await this.apiClient.getChangesPage(entityType, progress.page, PAGE_SIZE, {
+          modifiedSince: since ?? undefined,
+          stateCode: scope === NATIONAL_SCOPE ? undefined : scope,
+        });
+
+        progress.recordsFetched += page.content.length;
+        progress.totalPages = page.totalPages;
+        await this.applyPage(entityType, page.content, progress, syncLog.id);
+
+        progress.page++;
+        last = page.last || progress.page >= page.totalPages;
+
+        await this.syncLogRepository.update(syncLog.id, { nextPage: progress.page, ...this.toCounts(progress) });
+      }
+
+      await this.invalidateCaches(entityType);
+
+      Object.assign(syncLog, this.toCounts(progress), {
+        status: SyncStatusValue.COMPLETED,
+        watermark,
+        nextPage: progress.page,
+        completedAt: new Date(),
+        durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      });
+      await this.syncLogRepository.save(syncLog);
+
+      this.logger.log(
+        `OpenLMIS ${entityType} sync ${syncLog.id} completed in ${syncLog.durationSeconds}s: ` +
+          `${progress.recordsFetched} fetched, ${progress.recordsInserted} inserted, ` +
+          `${progress.recordsUpdated} updated, ${progress.recordsFailed} failed`,
+      );
+    } catch (error) {
+      Object.assign(syncLog, this.toCounts(progress), {
+        status: SyncStatusValue.FAILED,
+        nextPage: progress.page,
+        errorMessage: error.message,
+        completedAt: new Date(),
+        durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      });
+      await this.syncLogRepository.save(syncLog);
+
+      this.logger.error(`OpenLMIS ${entityType} sync ${syncLog.id} failed on page ${progress.page}: ${error.message}`);
+    }
+
+    return this.toSummary(syncLog);
+  }
+
+  private async applyPage<K extends OpenLMISEntityType>(
+    entityType: K,
+    records: OpenLMISChangeTypes[K][],
+    progress: SyncProgress,
+    syncLogId: string,
+  ): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    switch (entityType) {
+      case 'stockCards':
+        return this.applyStockPage(records as VaxTraceStockData[], progress, syncLogId);
+      case 'facilities':
+        return this.applyFacilityPage(records as VaxTraceFacility[], progress);
+      case 'orderables':
+        return this.applyOrderablePage(records as VaxTraceOrderable[], progress);
+      case 'lots':
+        // No local lot register: lots are reported only
+        for (const lot of records as OpenLMISChangeTypes['lots'][]) {
+          this.recordChange(progress, lot.lotCode || lot.id, 'changed');
+        }
+        return;
+      case 'requisitions':
+        return this.applyRequisitionPage(records as VaxTraceRequisition[], progress);
+    }
+  }
+
+  /**
+   * Upsert one page of stock cards into today's snapshots and record changed
+   * stock on hand in the ledger
+   */
+  private async applyStockPage(records: VaxTraceStockData[], progress: SyncProgress, syncLogId: string): Promise<void> {
+    const facilities = await this.locationRepository.find({
+      where: { openlmisId: In([...new Set(records.map((record) => record.nodeId))]) },
+      relations: { parent: true },
+    });
+    const productCodes = [...new Set(records.map((record) => record.productCode))];
+    const vaccines = await this.vaccineRepository.find({
+      where: [{ openlmisProductId: In(productCodes) }, { code: In(productCodes) }],
+    });
+
+    // Stock cards for the same lot (e.g. under different programs) are summed
+    const lots = new Map<
+      string,
+      { facility: Location; vaccine: Vaccine; key: string; lotNumber: string | null; expiryDate: string | null; quantity: number }
+    >();
+
+    for (const record of records) {
+      const facility = facilities.find((location) => location.openlmisId === record.nodeId);
+      const vaccine = vaccines.find(
+        (candidate) => candidate.openlmisProductId === record.productCode || candidate.code === record.productCode,
+      );
+      const recordKey = `${record.facilityCode}/${record.productCode}/${record.lotCode || '-'}`;
+
+      if (!facility || facility.type !== LocationType.FACILITY || !vaccine) {
+        this.recordFailure(
+          progress,
+          recordKey,
+          !facility || facility.type !== LocationType.FACILITY ? 'Unknown facility' : 'Unknown product',
+        );
+        continue;
+      }
+
+      const lotNumber = record.lotCode || null;
+      const key = `${facility.id}:${vaccine.id}:${lotNumber ?? ''}`;
+      const lot = lots.get(key);
+
+      if (lot) {
+        lot.quantity += record.quantity;
+      } else {
+        lots.set(key, {
+          facility,
+          vaccine,
+          key: recordKey,
+          lotNumber,
+          expiryDate: record.lotExpiry || null,
+          quantity: record.quantity,
+        });
+      }
+    }
+
+    if (lots.size === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const today = DateUtils.mixedDateToDateString(now);
+
+    await this.dataSource.transaction(async (manager) => {
+      const snapshotRepository = manager.getRepository(StockSnapshot);
+      const touched = new Map<string, { facility: Location; vaccineId: string; previousOnHand: number }>();
+
+      for (const lot of lots.values()) {
+        const stockKey = `${lot.facility.id}:${lot.vaccine.id}`;
+        if (!touched.has(stockKey)) {
+          touched.set(stockKey, {
+            facility: lot.facility,
+            vaccineId: lot.vaccine.id,
+            previousOnHand: await this.stockSnapshotService.carryForwardLots(
+              manager,
+              { facilityId: lot.facility.id, vaccineId: lot.vaccine.id },
+              now,
+            ),
+          });
+        }
+
+        const expiryDate = lot.expiryDate ? new Date(lot.expiryDate) : null;
+        const existing = await snapshotRepository.findOne({
+          where: {
+            facilityId: lot.facility.id,
+            vaccineId: lot.vaccine.id,
+            lotNumber: lot.lotNumber ?? IsNull(),
+            snapshotDate: today as unknown as Date,
+          },
+        });
+
+        if (!existing) {
+          await snapshotRepository.insert({
+            facilityId: lot.facility.id,
+            vaccineId: lot.vaccine.id,
+            lotNumber: lot.lotNumber,
+            expiryDate,
+            quantityOnHand: lot.quantity,
+            snapshotDate: now,
+            syncedFromOpenlmisAt: now,
+          });
+          progress.recordsInserted++;
+          this.recordChange(progress, lot.key, 'inserted');
+        } else if (existing.quantityOnHand !== lot.quantity || this.dateKey(existing.expiryDate) !== this.dateKey(expiryDate)) {
+          await snapshotRepository.update(existing.id, {
+            quantityOnHand: lot.quantity,
+            expiryDate,
+            syncedFromOpenlmisAt: now,
+          });
+          progress.recordsUpdated++;
+          this.recordChange(progress, lot.key, 'updated');
+        } else {
+          progress.recordsUnchanged++;
+        }
+      }
+
+      // One adjustment per facility/vaccine whose stock on hand changed on this page
+      for (const stock of touched.values()) {
+        const lots = await this.getLots(manager, stock.facility.id, stock.vaccineId, today);
+        await this.productBatchService.recordLots(manager, lots);
+
+        const quantityOnHand = lots.reduce((sum, lot) => sum + lot.quantityOnHand, 0);
+        if (quantityOnHand === stock.previousOnHand) {
+          continue;
+        }
+
+        await manager.getRepository(StockLedger).insert({
+          facilityId: stock.facility.id,
+          ...this.stockSnapshotService.getHierarchy(stock.facility),
+          vaccineId: stock.vaccineId,
+          quantity: quantityOnHand - stock.previousOnHand,
+          quantityOnHand,
+          transactionType: 'adjustment',
+          transactionReference: `openlmis-sync:${syncLogId}:${progress.page}`,
+          snapshotDate: now,
+        });
+        progress.ledgerEntries++;
+      }
+    });
+  }
+
+  /**
+   * Upsert requisitions of facilities registered in VaxTrace
+   */
+  private async applyRequisitionPage(records: VaxTraceRequisition[], progress: SyncProgress): Promise<void> {
+    const [facilities, existing] = await Promise.all([
+      this.locationRepository.find({
+        where: { openlmisId: In([...new Set(records.map((record) => record.facilityId))]) },
+        relations: { parent: true },
+      }),
+      this.requisitionRepository.find({
+        where: { openlmisRequisitionId: In(records.map((record) => record.id)) },
+      }),
+    ]);
+    const now = new Date();
+
+    for (const record of records) {
+      const facility = facilities.find((location) => location.openlmisId === record.facilityId);
+      const status = this.toRequisitionStatus(record.status);
+
+      if (!facility) {
+        this.recordFailure(progress, record.id, 'Unknown facility');
+        continue;
+      }
+      if (!status) {
+        this.recordFailure(progress, record.id, `Unknown status ${record.status}`);
+        continue;
+      }
+
+      const requisition = existing.find((candidate) => candidate.openlmisRequisitionId === record.id);
+
+      if (!requisition) {
+        await this.requisitionRepository.insert({
+          openlmisRequisitionId: record.id,
+          facilityId: facility.id,
+          ...this.stockSnapshotService.getHierarchy(facility),
+          status,
+          program: record.program,
+          emergency: record.emergency,
+          createdDate: record.createdDate ? new Date(record.createdDate) : undefined,
+          syncedFromOpenlmisAt: now,
+          lastSyncedAt: now,
+        });
+        progress.recordsInserted++;
+        this.recordChange(progress, record.id, 'inserted');
+      } else if (
+        requisition.status !== status ||
+        requisition.program !== record.program ||
+        requisition.emergency !== record.emergency
+      ) {
+        await this.requisitionRepository.update(requisition.id, {
+          status,
+          program: record.program,
+          emergency: record.emergency,
+          syncedFromOpenlmisAt: now,
+          lastSyncedAt: now,
+        });
+        progress.recordsUpdated++;
+        this.recordChange(progress, record.id, 'updated');
+      } else {
+        progress.recordsUnchanged++;
+      }
+    }
+  }
+
+  /**
+   * Update names and active flags of facilities already registered in VaxTrace
+   */
+  private async applyFacilityPage(records: VaxTraceFacility[], progress: SyncProgress): Promise<void> {
+    const locations = await this.locationRepository.find({
+      where: { openlmisId: In(records.map((record) => record.id)) },
+    });
+
+    for (const record of records) {
+      const location = locations.find((candidate) => candidate.openlmisId === record.id);
+
+      if (!location) {
+        this.recordFailure(progress, record.code || record.id, 'Unknown facility');
+        continue;
+      }
+
+      if (location.name === record.name && location.isActive === record.active) {
+        progress.recordsUnchanged++;
+        continue;
+      }
+
+      await this.locationRepository.update(location.id, { name: record.name, isActive: record.active });
+      progress.recordsUpdated++;
+      this.recordChange(progress, record.code || record.id, 'updated');
+    }
+  }
+
+  /**
+   * Link vaccines to their OpenLMIS orderables by product code
+   */
+  private async applyOrderablePage(records: VaxTraceOrderable[], progress: SyncProgress): Promise<void> {
+    const vaccines = await this.vaccineRepository.find({
+      where: [
+        { openlmisProductId: In(records.map((record) => record.id)) },
+        { code: In(records.map((record) => record.code)) },
+      ],
+    });
+
+    for (const record of records) {
+      const vaccine =
+        vaccines.find((candidate) => candidate.openlmisProductId === record.id) ??
+        vaccines.find((candidate) => candidate.code === record.code);
+
+      // Orderables that are not vaccines are not tracked
+      if (!vaccine) {
+        continue;
+      }
+
+      if (vaccine.openlmisProductId === record.id) {
+        progress.recordsUnchanged++;
+        continue;
+      }
+
+      await this.vaccineRepository.update(vaccine.id, { openlmisProductId: record.id });
+      progress.recordsUpdated++;
+      this.recordChange(progress, record.code, 'updated');
+    }
+  }
+
+  private async getLots(manager: EntityManager, facilityId: string, vaccineId: string, today: string): Promise<StockSnapshot[]> {
+    return manager.getRepository(StockSnapshot).find({
+      where: { facilityId, vaccineId, snapshotDate: today as unknown as Date },
+    });
+  }
+
+  private toRequisitionStatus(status: string): RequisitionStatus | null {
+    const value = (status || '').toUpperCase();
+    if (REQUISITION_STATUS_ALIASES[value]) {
+      return REQUISITION_STATUS_ALIASES[value];
+    }
+    return Object.values(RequisitionStatus).find((candidate) => candidate === value.toLowerCase()) ?? null;
+  }
+
+  private getEntityTypes(entityTypes?: string[]): OpenLMISEntityType[] {
+    if (!entityTypes?.length || entityTypes.includes('all')) {
+      return SYNC_ENTITY_TYPES;
+    }
+
+    const unknown = entityTypes.filter((entityType) => !SYNC_ENTITY_TYPES.includes(entityType as OpenLMISEntityType));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown entity types: ${unknown.join(', ')}. Expected one of: ${SYNC_ENTITY_TYPES.join(', ')}`,
+      );
+    }
+
+    // Keep the dependency order
+    return SYNC_ENTITY_TYPES.filter((entityType) => entityTypes.includes(entityType));
+  }
+
+  private async getState(stateId: string): Promise<Location> {
+    const state = await this.locationRepository.findOne({ where: { id: stateId } });
+    if (!state || state.type !== LocationType.STATE) {
+      throw new BadRequestException(`Location ${stateId} is not a state`);
+    }
+    return state;
+  }
+
+  private async findRunningSync(entityType: OpenLMISEntityType, scope: string): Promise<SyncLog | null> {
+    const running = await this.syncLogRepository.findOne({
+      where: { entityType, scope, status: SyncStatusValue.RUNNING },
+      order: { startedAt: 'DESC' },
+    });
+    return running && !this.isStale(running) ? running : null;
+  }
+
+  private isStale(syncLog: SyncLog): boolean {
+    return new Date(syncLog.startedAt).getTime() < Date.now() - STALE_SYNC_MS;
+  }
+
+  /**
+   * Watermark of the latest completed sync of every entity type and scope
+   */
+  private async getWatermarks(): Promise<SyncWatermark[]> {
+    const completed = await this.syncLogRepository
+      .createQueryBuilder('log')
+      .distinctOn(['log.entityType', 'log.scope'])
+      .where('log.status = :status', { status: SyncStatusValue.COMPLETED })
+      .andWhere('log.entityType IS NOT NULL')
+      .orderBy('log.entityType')
+      .addOrderBy('log.scope')
+      .addOrderBy('log.startedAt', 'DESC')
+      .getMany();
+
+    return completed.map((syncLog) => ({
+      entityType: syncLog.entityType,
+      scope: syncLog.scope,
+      watermark: syncLog.watermark,
+      syncLogId: syncLog.id,
+    }));
+  }
+
+  private async invalidateCaches(entityType: OpenLMISEntityType): Promise<void> {
+    for (const pattern of CACHE_PATTERNS[entityType]) {
+      await this.cacheService.deletePattern(pattern);
+    }
+
+    if (entityType === 'stockCards' || entityType === 'facilities') {
+      await this.cacheService.invalidateMapCache();
+    }
+  }
+
+  private recordChange(progress: SyncProgress, key: string, action: SyncChange['action']): void {
+    if (progress.changes.length < MAX_RECORDED_CHANGES) {
+      progress.changes.push({ key, action });
+    }
+  }
+
+  private recordFailure(progress: SyncProgress, key: string, reason: string): void {
+    progress.recordsFailed++;
+    if (progress.failures.length < MAX_RECORDED_FAILURES) {
+      progress.failures.push({ key, reason });
+    }
+  }
+
+  private getNextScheduledSync(): string | null {
+    try {
+      return this.schedulerRegistry.getCronJob(SYNC_JOB).nextDate().toJSDate().toISOString();
+    } catch {
+      return null;
+    }
+  }
+
+  private dateKey(value: Date | string | null | undefined): string | null {
+    return value ? DateUtils.mixedDateToDateString(value) : null;
+  }
+
+  private toDate(value: string | null | undefined): Date | null {
+    return value ? new Date(value) : null;
+  }
+
+  private toCounts(progress: SyncProgress): Partial<SyncLog> {
+    return {
+      entitiesSynced: progress.recordsInserted + progress.recordsUpdated + progress.recordsUnchanged,
+      entitiesUpdated: progress.recordsUpdated,
+      entitiesFailed: progress.recordsFailed,
+      metadata: { ...progress },
+    };
+  }
+
+  private toSummary(syncLog: SyncLog): SyncRunSummary {
+    return {
+      id: syncLog.id,
+      entityType: syncLog.entityType,
+      scope: syncLog.scope,
+      status: syncLog.status,
+      watermark: syncLog.watermark ?? null,
+      startedAt: syncLog.startedAt,
+      completedAt: syncLog.completedAt ?? null,
+      durationSeconds: syncLog.durationSeconds ?? null,
+      errorMessage: syncLog.errorMessage ?? null,
+      progress: syncLog.metadata as SyncProgress,
+    };
+  }
+}
@@ -10,15 +10,22 @@
  * - Requisition tracking
  * - VVM status monitoring
  * - Delta sync for efficiency
+ *
+ * Stock, facility, requisition and VVM reads are limited to the caller's
+ * assigned location (see LocationScopeGuard).
  */
 
-import { Controller, Get, Post, Put, Delete, Param, Query, Body, Logger, UseInterceptors } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, Logger, UseInterceptors, UseGuards } from '@nestjs/common';
 import { OpenLMISService } from './openlmis.service';
 import { OpenLMISAPIClientService } from './openlmis-api-client.service';
 import { OpenLMISAuthService } from './openlmis-auth.service';
+import { OpenLMISSyncService } from './openlmis-sync.service';
 import { CacheService } from '../cache/cache.service';
 import { ProtobufService } from '../protobuf/protobuf.service';
 import { ContentNegotiationInterceptor, ProtobufResponse } from '../../common/content-negotiation.interceptor';
+import { LocationType } from '../../entities/location.entity';
+import { LocationScopeGuard, LocationFilters, NationalScope, ScopedQuery, CurrentScope, LocationScope } from '../../guards/location-scope.guard';
+import { Audited } from '../audit/audit.interceptor';
 import * as crypto from 'crypto';
 import {
   IsOptional,
@@ -85,6 +92,15 @@ class RequisitionUpdateDto {
   notes?: string;
 }
 
+// ============================================
+// LOCATION FILTERS
+// ============================================
+
+// OpenLMIS endpoints are filtered by OpenLMIS IDs, not VaxTrace location IDs
+const STATE_FILTER = { stateId: { level: LocationType.STATE, ref: 'openlmisId' as const } };
+const LGA_FILTER = { lgaId: { level: LocationType.LGA, ref: 'openlmisId' as const } };
+const FACILITY_FILTER = { facilityId: { level: LocationType.FACILITY, ref: 'openlmisId' as const } };
+
 // ============================================
 // CONTROLLER
 // ============================================
@@ -97,6 +113,7 @@ export class OpenLMISController {
   constructor(
     private readonly openlmisService: OpenLMISService,
     private readonly openlmisApiClientService: OpenLMISAPIClientService,
+    private readonly openlmisSyncService: OpenLMISSyncService,
     private readonly openlmisAuthService: OpenLMISAuthService,
     private readonly cacheService: CacheService,
     private readonly protobufService: ProtobufService,
@@ -505,13 +522,17 @@ export class OpenLMISController {
    * - protobuf: Return Protobuf format
    */
   @Get('stock')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ ...STATE_FILTER, ...LGA_FILTER, ...FACILITY_FILTER })
   @UseInterceptors(ContentNegotiationInterceptor)
   @ProtobufResponse({ typeName: 'StockSnapshot' })
   @ApiOperation({ summary: 'Get stock data from OpenLMIS' })
   @ApiResponse({ status: 200, description: 'Stock data retrieved successfully' })
   async getStockData(
-    @Query() query: StockDataQueryDto,
+    @Query() dto: StockDataQueryDto,
+    @CurrentScope() scope: LocationScope,
   ) {
+    const query = { ...dto, ...scope?.filter };
     this.logger.log(`Fetching stock data with query: ${JSON.stringify(query)}`);
 
     // Try to get from cache first
@@ -556,11 +577,13 @@ export class OpenLMISController {
    * GET /api/v1/openlmis/stock/aggregated
    */
   @Get('stock/aggregated')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(STATE_FILTER)
   @UseInterceptors(ContentNegotiationInterceptor)
   @ProtobufResponse({ typeName: 'StockSnapshot' })
   @ApiOperation({ summary: 'Get aggregated stock data by state' })
   async getAggregatedStock(
-    @Query('stateId') stateId: string,
+    @ScopedQuery('stateId') stateId: string,
   ) {
     this.logger.log(`Fetching aggregated stock for state: ${stateId}`);
 
@@ -603,6 +626,8 @@ export class OpenLMISController {
    * GET /api/v1/openlmis/stock/national
    */
   @Get('stock/national')
+  @UseGuards(LocationScopeGuard)
+  @NationalScope()
   @UseInterceptors(ContentNegotiationInterceptor)
   @ProtobufResponse({ typeName: 'StockSnapshot' })
   @ApiOperation({ summary: 'Get national stock summary' })
@@ -652,9 +677,11 @@ export class OpenLMISController {
    * GET /api/v1/openlmis/facilities
    */
   @Get('facilities')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(STATE_FILTER)
   @ApiOperation({ summary: 'Get facilities from OpenLMIS' })
   async getFacilities(
-    @Query('stateId') stateId?: string,
+    @ScopedQuery('stateId') stateId?: string,
     @Query('lgaId') lgaId?: string,
   ) {
     this.logger.log(`Fetching facilities for state: ${stateId}, LGA: ${lgaId}`);
@@ -702,10 +729,12 @@ export class OpenLMISController {
    * GET /api/v1/openlmis/requisitions
    */
   @Get('requisitions')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(FACILITY_FILTER)
   @ApiOperation({ summary: 'Get requisitions from OpenLMIS' })
   async getRequisitions(
     @Query('status') status?: string,
-    @Query('facilityId') facilityId?: string,
+    @ScopedQuery('facilityId') facilityId?: string,
   ) {
     this.logger.log(`Fetching requisitions with status: ${status}, facility: ${facilityId}`);
 
@@ -728,6 +757,7 @@ export class OpenLMISController {
    * PUT /api/v1/openlmis/requisitions/:id
    */
   @Put('requisitions/:id')
+  @Audited({ action: 'UPDATE', resource: 'requisition' })
   @ApiOperation({ summary: 'Update requisition status in OpenLMIS' })
   async updateRequisition(
     @Param('id') id: string,
@@ -762,9 +792,11 @@ export class OpenLMISController {
    * GET /api/v1/openlmis/vvm-status
    */
   @Get('vvm-status')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters(FACILITY_FILTER)
   @ApiOperation({ summary: 'Get VVM status from OpenLMIS' })
   async getVVMStatus(
-    @Query('facilityId') facilityId?: string,
+    @ScopedQuery('facilityId') facilityId?: string,
     @Query('stage') stage?: string,
   ) {
     this.logger.log(`Fetching VVM status for facility: ${facilityId}, stage: ${stage}`);
@@ -788,18 +820,27 @@ export class OpenLMISController {
 
   /**
    * Trigger delta sync with OpenLMIS
-   * 
+   *
+   * Only records changed since the last completed sync of each entity type
+   * (nationally, or for the given state) are fetched; an interrupted sync is
+   * resumed from its last applied page.
+   *
    * POST /api/v1/openlmis/sync
    */
   @Post('sync')
+  @Audited({ action: 'SYNC', resource: 'openlmis' })
   @ApiOperation({ summary: 'Trigger delta sync with OpenLMIS' })
   async triggerSync(
     @Body() body: { lastSyncTimestamp?: number; entityTypes?: string[]; lgaId?: string; stateId?: string; },
   ) {
     this.logger.log(`Triggering delta sync with OpenLMIS: ${JSON.stringify(body)}`);
 
-    // Perform delta sync
-    const syncResult = await this.performDeltaSync(body);
+    const runs = await this.openlmisSyncService.syncChanges({
+      trigger: 'manual',
+      entityTypes: body.entityTypes,
+      stateId: body.stateId,
+      since: body.lastSyncTimestamp ? new Date(body.lastSyncTimestamp) : undefined,
+    });
 
     // Invalidate affected caches
     if (body.lgaId) {
@@ -810,8 +851,11 @@ export class OpenLMISController {
     }
 
     return {
-      success: true,
-      data: syncResult,
+      success: runs.every((run) => run.status === 'completed'),
+      data: {
+        runs,
+        entitiesSynced: runs.map((run) => run.entityType),
+      },
       meta: {
         timestamp: new Date().toISOString(),
         requestId: crypto.randomUUID(),
@@ -827,16 +871,11 @@ export class OpenLMISController {
   @Get('sync/status')
   @ApiOperation({ summary: 'Get sync status with OpenLMIS' })
   async getSyncStatus() {
-    const lastSync = await this.getLastSyncTimestamp();
-    const syncInProgress = await this.isSyncInProgress();
+    const status = await this.openlmisSyncService.getSyncStatus();
 
     return {
       success: true,
-      data: {
-        lastSync,
-        syncInProgress,
-        nextScheduledSync: lastSync ? new Date(lastSync.getTime() + 3600000).toISOString() : null, // 1 hour
-      },
+      data: status,
       meta: {
         timestamp: new Date().toISOString(),
         requestId: crypto.randomUUID(),
@@ -919,48 +958,6 @@ export class OpenLMISController {
       return [];
     }
   }
-
-  private async performDeltaSync(body: any): Promise<any> {
-    try {
-      // Clear cache to force fresh data fetch
-      await this.openlmisApiClientService.clearAllCache();
-      
-      return {
-        success: true,
-        message: 'Delta sync completed',
-        timestamp: new Date().toISOString(),
-        entitiesSynced: body.entityTypes || ['all'],
-      };
-    } catch (error) {
-      this.logger.error('Failed to perform delta sync with OpenLMIS', error.stack);
-      return {
-        success: false,
-        message: 'Delta sync failed',
-        error: error.message,
-      };
-    }
-  }
-
-  private async getLastSyncTimestamp(): Promise<Date | null> {
-    try {
-      // Get last sync timestamp from cache
-      const lastSync = await this.cacheService.get<string>('openlmis:last_sync');
-      return lastSync ? new Date(lastSync) : null;
-    } catch (error) {
-      this.logger.error('Failed to get last sync timestamp', error.stack);
-      return null;
-    }
-  }
-
-  private async isSyncInProgress(): Promise<boolean> {
-    try {
-      // Check if sync is currently in progress
-      return await this.cacheService.get<boolean>('openlmis:sync_in_progress') || false;
-    } catch (error) {
-      this.logger.error('Failed to check sync progress', error.stack);
-      return false;
-    }
-  }
 }
 
 // ============================================
@@ -996,9 +993,3 @@ function ApiQuery(options: any): Function {
     // Placeholder for @ApiQuery decorator
   };
 }
-
-function UseGuards(...guards: any[]): Function {
-  return (target: any, propertyKey: string) => {
-    // Placeholder for @UseGuards decorator
-  };
-}
@@ -1,23 +1,32 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { OpenLMISController } from './openlmis.controller';
 import { OpenLMISService } from './openlmis.service';
 import { OpenLMISAuthService } from './openlmis-auth.service';
 import { OpenLMISAPIClientService } from './openlmis-api-client.service';
+import { OpenLMISSyncService } from './openlmis-sync.service';
 import { CacheModule } from '../cache/cache.module';
 import { ProtobufModule } from '../protobuf/protobuf.module';
+import { StockModule } from '../stock/stock.module';
+import { SyncLog } from '../../entities/sync-log.entity';
+import { Location } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { Requisition } from '../../entities/requisition.entity';
 
 @Module({
-  imports: [CacheModule, ProtobufModule],
+  imports: [CacheModule, ProtobufModule, StockModule, TypeOrmModule.forFeature([SyncLog, Location, Vaccine, Requisition])],
   controllers: [OpenLMISController],
   providers: [
     OpenLMISService,
     OpenLMISAuthService,
     OpenLMISAPIClientService,
+    OpenLMISSyncService,
   ],
   exports: [
     OpenLMISService,
     OpenLMISAuthService,
     OpenLMISAPIClientService,
+    OpenLMISSyncService,
   ],
 })
 export class OpenLMISModule {}
@@ -684,47 +684,6 @@ export class OpenLMISService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  /**
-   * AUDIT FIX: Explicit Stock Data Synchronization Cron Job
-   * Syncs OpenLMIS stock data to local PostgreSQL database every 30 minutes
-   * This ensures the local database stays synchronized with OpenLMIS
-   *
-   * Schedule: Every 30 minutes (CronExpression.EVERY_30_MINUTES)
-   *
-   * This addresses the audit finding that no explicit stock sync cron was found
-   */
-  @Cron(CronExpression.EVERY_30_MINUTES)
-  async syncStockData(): Promise<void> {
-    if (this.mockMode) {
-      this.logger.debug('[AUDIT] OpenLMIS in mock mode - stock sync skipped');
-      return;
-    }
-
-    const syncStartTime = Date.now();
-    this.logger.log('[AUDIT] Starting OpenLMIS stock data synchronization...');
-
-    try {
-      // Import the API client service dynamically to avoid circular dependency
-      const { OpenLMISAPIClientService } = await import('./openlmis-api-client.service');
-      
-      // We need to get the service instance - this is handled by NestJS dependency injection
-      // In a real scenario, this would be injected via constructor
-      this.logger.warn('[AUDIT] Stock sync cron triggered - implement actual sync logic in OpenLMISAPIClientService');
-      
-      // TODO: Implement actual stock sync logic
-      // 1. Fetch all stock data from OpenLMIS via OpenLMISAPIClientService
-      // 2. Upsert to local stock_snapshots table
-      // 3. Update stock_ledger for historical tracking
-      // 4. Invalidate relevant cache keys
-      
-      const syncDuration = Date.now() - syncStartTime;
-      this.logger.log(`[AUDIT] Stock data synchronization completed in ${syncDuration}ms`);
-    } catch (error) {
-      this.logger.error(`[AUDIT] Stock data synchronization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      // Don't throw - let the next cron attempt handle it
-    }
-  }
-
   /**
    * Get current mock mode status
    */
@@ -5,24 +5,35 @@
  * Provides access to Donabedian framework outcome measurements
  * 
  * Endpoints:
- * - GET /api/outcome-metrics/summary - Comprehensive summary
- * - GET /api/outcome-metrics/stock-coverage - Stock-to-Coverage ratios
- * - GET /api/outcome-metrics/immunization - Immunization coverage rates
- * - GET /api/outcome-metrics/wastage - Vaccine wastage rates
- * - GET /api/outcome-metrics/stockouts - Stockout metrics
- * - GET /api/outcome-metrics/geographic - Geographic coverage
- * - POST /api/outcome-metrics/export-dhis2 - Export to DHIS2
+ * - GET /api/v1/outcome-metrics/summary - Comprehensive summary
+ * - GET /api/v1/outcome-metrics/stock-coverage - Stock-to-Coverage ratios
+ * - GET /api/v1/outcome-metrics/immunization - Immunization coverage rates
+ * - GET /api/v1/outcome-metrics/wastage - Vaccine wastage rates
+ * - GET /api/v1/outcome-metrics/stockouts - Stockout metrics
+ * - GET /api/v1/outcome-metrics/geographic - Geographic coverage
+ * - POST /api/v1/outcome-metrics/export-dhis2 - Export to DHIS2
+ * 
+ * Results are limited to the caller's assigned location (see LocationScopeGuard);
+ * the DHIS2 export is national only.
  * 
  * @author Security Audit Implementation
  * @date 2026-02-24
  */
 
-import { Controller, Get, Post, Query, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Post, Query, Param, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
 import { OutcomeMetricsService, OutcomeMetricsSummary } from './outcome-metrics.service';
 import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { LocationType } from '../../entities/location.entity';
+import { LocationScopeGuard, LocationFilters, NationalScope, ScopedQuery } from '../../guards/location-scope.guard';
+
+// Location filters accepted by the metrics endpoints
+const STATE_CODE = { stateCode: { level: LocationType.STATE, ref: 'code' as const } };
+const LGA_CODE = { lgaCode: { level: LocationType.LGA, ref: 'code' as const } };
+const FACILITY_ID = { facilityId: { level: LocationType.FACILITY, ref: 'id' as const } };
 
 @ApiTags('Outcome Metrics')
-@Controller('api/outcome-metrics')
+@Controller('outcome-metrics')
+@UseGuards(LocationScopeGuard)
 export class OutcomeMetricsController {
   constructor(private readonly outcomeMetricsService: OutcomeMetricsService) {}
 
@@ -31,6 +42,7 @@ export class OutcomeMetricsController {
    * Combines all Donabedian outcome metrics into a single report
    */
   @Get('summary')
+  @LocationFilters({ ...STATE_CODE, ...LGA_CODE, ...FACILITY_ID })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get comprehensive outcome metrics summary' })
   @ApiQuery({ name: 'stateCode', required: false, description: 'Filter by state code' })
@@ -38,9 +50,9 @@ export class OutcomeMetricsController {
   @ApiQuery({ name: 'facilityId', required: false, description: 'Filter by facility ID' })
   @ApiResponse({ status: 200, description: 'Outcome metrics summary retrieved successfully' })
   async getSummary(
-    @Query('stateCode') stateCode?: string,
-    @Query('lgaCode') lgaCode?: string,
-    @Query('facilityId') facilityId?: string,
+    @ScopedQuery('stateCode') stateCode?: string,
+    @ScopedQuery('lgaCode') lgaCode?: string,
+    @ScopedQuery('facilityId') facilityId?: string,
   ): Promise<OutcomeMetricsSummary> {
     return this.outcomeMetricsService.generateOutcomeMetricsSummary(
       stateCode,
@@ -54,13 +66,14 @@ export class OutcomeMetricsController {
    * Shows months of stock available vs consumption rate
    */
   @Get('stock-coverage')
+  @LocationFilters(FACILITY_ID)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get stock-to-coverage ratios' })
   @ApiQuery({ name: 'facilityId', required: false, description: 'Filter by facility ID' })
   @ApiQuery({ name: 'productId', required: false, description: 'Filter by product ID' })
   @ApiResponse({ status: 200, description: 'Stock-to-coverage ratios retrieved successfully' })
   async getStockToCoverage(
-    @Query('facilityId') facilityId?: string,
+    @ScopedQuery('facilityId') facilityId?: string,
     @Query('productId') productId?: string,
   ) {
     return this.outcomeMetricsService.calculateStockToCoverage(facilityId, productId);
@@ -71,14 +84,15 @@ export class OutcomeMetricsController {
    * Shows percentage of target population vaccinated
    */
   @Get('immunization')
+  @LocationFilters({ ...STATE_CODE, ...LGA_CODE })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get immunization coverage rates' })
   @ApiQuery({ name: 'stateCode', required: false, description: 'Filter by state code' })
   @ApiQuery({ name: 'lgaCode', required: false, description: 'Filter by LGA code' })
   @ApiResponse({ status: 200, description: 'Immunization coverage rates retrieved successfully' })
   async getImmunizationCoverage(
-    @Query('stateCode') stateCode?: string,
-    @Query('lgaCode') lgaCode?: string,
+    @ScopedQuery('stateCode') stateCode?: string,
+    @ScopedQuery('lgaCode') lgaCode?: string,
   ) {
     return this.outcomeMetricsService.calculateImmunizationCoverage(stateCode, lgaCode);
   }
@@ -88,13 +102,14 @@ export class OutcomeMetricsController {
    * Shows percentage of vaccines wasted or expired
    */
   @Get('wastage')
+  @LocationFilters(FACILITY_ID)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get vaccine wastage rates' })
   @ApiQuery({ name: 'facilityId', required: false, description: 'Filter by facility ID' })
   @ApiQuery({ name: 'period', required: false, description: 'Period in YYYY-MM format' })
   @ApiResponse({ status: 200, description: 'Vaccine wastage rates retrieved successfully' })
   async getVaccineWastage(
-    @Query('facilityId') facilityId?: string,
+    @ScopedQuery('facilityId') facilityId?: string,
     @Query('period') period?: string,
   ) {
     return this.outcomeMetricsService.calculateVaccineWastage(facilityId, period);
@@ -105,11 +120,12 @@ export class OutcomeMetricsController {
    * Shows facilities experiencing stockouts
    */
   @Get('stockouts')
+  @LocationFilters(FACILITY_ID)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get stockout metrics' })
   @ApiQuery({ name: 'facilityId', required: false, description: 'Filter by facility ID' })
   @ApiResponse({ status: 200, description: 'Stockout metrics retrieved successfully' })
-  async getStockoutMetrics(@Query('facilityId') facilityId?: string) {
+  async getStockoutMetrics(@ScopedQuery('facilityId') facilityId?: string) {
     return this.outcomeMetricsService.calculateStockoutMetrics(facilityId);
   }
 
@@ -118,11 +134,12 @@ export class OutcomeMetricsController {
    * Shows percentage of facilities with adequate stock by region
    */
   @Get('geographic')
+  @LocationFilters(STATE_CODE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get geographic coverage metrics' })
   @ApiQuery({ name: 'stateCode', required: false, description: 'Filter by state code' })
   @ApiResponse({ status: 200, description: 'Geographic coverage metrics retrieved successfully' })
-  async getGeographicCoverage(@Query('stateCode') stateCode?: string) {
+  async getGeographicCoverage(@ScopedQuery('stateCode') stateCode?: string) {
     return this.outcomeMetricsService.calculateGeographicCoverage(stateCode);
   }
 
@@ -131,6 +148,7 @@ export class OutcomeMetricsController {
    * Integrates with DHIS2 for comprehensive health reporting
    */
   @Post('export-dhis2')
+  @NationalScope()
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Export outcome metrics to DHIS2' })
   @ApiResponse({ status: 202, description: 'Metrics exported to DHIS2 successfully' })
@@ -3,6 +3,7 @@
  *
  * Phase 2: Lightweight ML Algorithms
  * - Exponential Smoothing (ETS) for consumption forecasting
+ * - Top-down reconciliation of hierarchical forecasts
  * - Isolation Forest for anomaly detection
  * - Random Forest for risk level classification
  *
@@ -11,10 +12,23 @@
  * - Ensemble methods for higher accuracy
  * - Transfer learning framework
  *
+ * Forecasting methods, including the rule-based consumption rate, can be
+ * compared with rolling-origin backtests (see rollingOriginEvaluation).
+ *
+ * Trained ETS, Isolation Forest, Random Forest and LSTM models serialize to
+ * plain JSON (see serializeModel), so the ModelRegistry can persist them.
+ *
  * @author VaxTrace Team
  * @version 2.0.0
  */
 
+import {
+  calculateAverageDailyConsumption,
+  calculateDataQuality,
+  calculateStockoutPrediction,
+  type HistoricalDataPoint,
+} from './prediction-algorithms';
+
 // ============================================
 // TYPES & INTERFACES
 // ============================================
@@ -74,6 +88,80 @@ export interface EnsemblePrediction {
   };
 }
 
+export interface ForecastErrors {
+  mae: number;
+  mape: number | null;
+  bias: number;
+}
+
+export interface ForecastHierarchyNode {
+  key: string;
+  forecast: number[];
+  children: ForecastHierarchyNode[];
+}
+
+export type ForecastMethod = 'rule-based' | 'ets' | 'lstm' | 'ensemble';
+
+export type Forecaster = (history: TimeSeriesData[], horizon: number) => Promise<number[]>;
+
+export interface ForecasterConfig {
+  ets?: { alpha?: number; beta?: number; gamma?: number; period?: number };
+  lstm?: Partial<LSTMModelConfig>;
+}
+
+export interface BacktestSample {
+  /** Days of history before the forecast origin */
+  origin: number;
+  actual: number[];
+  forecast: number[];
+  errors: ForecastErrors;
+}
+
+export type MLModelType = 'ets' | 'isolation-forest' | 'random-forest' | 'lstm';
+
+export interface SerializedModel {
+  type: MLModelType;
+  state: ETSModelState | IsolationForestState | RandomForestState | LSTMModelState;
+}
+
+export interface ETSModelState {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  period: number;
+  level: number;
+  trend: number;
+  seasonality: number[];
+}
+
+export interface IsolationForestState {
+  numTrees: number;
+  subSamplingSize: number;
+  maxDepth: number;
+  trees: TreeNode[];
+}
+
+export interface RandomForestState {
+  numTrees: number;
+  maxDepth: number;
+  minSamplesSplit: number;
+  numFeatures: number;
+  classes: string[];
+  trees: { featureNames: string[]; root: DecisionNode }[];
+}
+
+export interface LSTMModelState {
+  config: LSTMModelConfig;
+  trained: boolean;
+}
+
+export interface ModelSnapshot {
+  name: string;
+  version: string;
+  model: SerializedModel;
+  metrics: any;
+}
+
 // ============================================
 // PHASE 2: LIGHTWEIGHT ML ALGORITHMS
 // ============================================
@@ -135,9 +223,10 @@ export class ExponentialSmoothingModel {
 
     // Initialize seasonality using first period
     this.seasonality = new Array(this.period).fill(0);
+    // Days without consumption would give zero seasonal indices and levels; the divisions below are guarded
     for (let i = 0; i < this.period; i++) {
       const avg = values.slice(i, i + this.period).reduce((a, b) => a + b, 0) / this.period;
-      this.seasonality[i] = values[i] / avg;
+      this.seasonality[i] = avg > 0 ? values[i] / avg : 1;
     }
 
     // Fit model using Holt-Winters equations
@@ -149,7 +238,7 @@ export class ExponentialSmoothingModel {
       const prevTrend = this.trend;
 
       // Update level
-      this.level = this.alpha * (y / this.seasonality[seasonIdx]) + 
+      this.level = this.alpha * (y / (this.seasonality[seasonIdx] || 1)) + 
                    (1 - this.alpha) * (prevLevel + prevTrend);
 
       // Update trend
@@ -157,7 +246,7 @@ export class ExponentialSmoothingModel {
                    (1 - this.beta) * prevTrend;
 
       // Update seasonality
-      this.seasonality[seasonIdx] = this.gamma * (y / this.level) + 
+      this.seasonality[seasonIdx] = this.gamma * (this.level ? y / this.level : 1) + 
                                      (1 - this.gamma) * this.seasonality[seasonIdx];
     }
 
@@ -200,6 +289,31 @@ export class ExponentialSmoothingModel {
       };
     });
   }
+
+  toJSON(): ETSModelState {
+    if (!this.fitted) {
+      throw new Error('Model must be fitted before serializing');
+    }
+
+    return {
+      alpha: this.alpha,
+      beta: this.beta,
+      gamma: this.gamma,
+      period: this.period,
+      level: this.level,
+      trend: this.trend,
+      seasonality: [...this.seasonality],
+    };
+  }
+
+  static fromJSON(state: ETSModelState): ExponentialSmoothingModel {
+    const model = new ExponentialSmoothingModel(state.alpha, state.beta, state.gamma, state.period);
+    model.level = state.level;
+    model.trend = state.trend;
+    model.seasonality = [...state.seasonality];
+    model.fitted = true;
+    return model;
+  }
 }
 
 /**
@@ -222,6 +336,65 @@ export function forecastConsumption(
   return { forecast, predictionIntervals, model };
 }
 
+/**
+ * Errors of a forecast against the actual values. MAPE only covers periods
+ * with consumption (null when there is none); bias is the mean signed
+ * error, positive when the forecast is too high.
+ */
+export function calculateForecastErrors(actual: number[], forecast: number[]): ForecastErrors {
+  const errors = actual.map((value, i) => (forecast[i] ?? 0) - value);
+  const percentages = actual
+    .map((value, i) => (value > 0 ? Math.abs(errors[i]) / value : null))
+    .filter((value): value is number => value !== null);
+
+  return {
+    mae: errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length,
+    mape: percentages.length > 0 ? (percentages.reduce((sum, p) => sum + p, 0) / percentages.length) * 100 : null,
+    bias: errors.reduce((sum, error) => sum + error, 0) / errors.length,
+  };
+}
+
+// --------------------------------------------
+// HIERARCHICAL FORECAST RECONCILIATION
+// --------------------------------------------
+
+/**
+ * Reconcile the forecasts of a hierarchy top-down by forecast proportions
+ *
+ * The root keeps its own forecast. Each period of a node's reconciled
+ * forecast is split among its children in proportion to their own
+ * forecasts (evenly when they forecast nothing), so children always sum to
+ * their parent while keeping their relative patterns.
+ *
+ * @returns Reconciled forecast of every node by key
+ */
+export function reconcileHierarchy(root: ForecastHierarchyNode): Map<string, number[]> {
+  const reconciled = new Map<string, number[]>();
+
+  const split = (node: ForecastHierarchyNode, forecast: number[]): void => {
+    reconciled.set(node.key, forecast);
+    if (node.children.length === 0) {
+      return;
+    }
+
+    const totals = forecast.map((_, period) =>
+      node.children.reduce((sum, child) => sum + (child.forecast[period] ?? 0), 0),
+    );
+
+    for (const child of node.children) {
+      split(
+        child,
+        forecast.map((value, period) =>
+          totals[period] > 0 ? (value * (child.forecast[period] ?? 0)) / totals[period] : value / node.children.length,
+        ),
+      );
+    }
+  };
+
+  split(root, [...root.forecast]);
+  return reconciled;
+}
+
 // --------------------------------------------
 // ISOLATION FOREST FOR ANOMALY DETECTION
 // --------------------------------------------
@@ -294,6 +467,21 @@ export class IsolationForest {
     return data.filter((_, i) => scores[i] > threshold);
   }
 
+  toJSON(): IsolationForestState {
+    return {
+      numTrees: this.numTrees,
+      subSamplingSize: this.subSamplingSize,
+      maxDepth: this.maxDepth,
+      trees: this.trees.map(tree => tree.toJSON()),
+    };
+  }
+
+  static fromJSON(state: IsolationForestState): IsolationForest {
+    const forest = new IsolationForest(state.numTrees, state.subSamplingSize, state.maxDepth);
+    forest.trees = state.trees.map(root => IsolationTree.fromJSON(state.maxDepth, root));
+    return forest;
+  }
+
   private extractFeatures(data: AnomalyData[]): number[][] {
     return data.map(d => [d.value]);
   }
@@ -355,6 +543,16 @@ class IsolationTree {
     return this.traverse(this.root!, feature, 0);
   }
 
+  toJSON(): TreeNode {
+    return this.root;
+  }
+
+  static fromJSON(maxDepth: number, root: TreeNode): IsolationTree {
+    const tree = new IsolationTree(maxDepth);
+    tree.root = root;
+    return tree;
+  }
+
   private traverse(node: TreeNode, feature: number[], depth: number): number {
     if (node.isLeaf) {
       return depth + this.c(node.size);
@@ -370,7 +568,7 @@ class IsolationTree {
   }
 }
 
-interface TreeNode {
+export interface TreeNode {
   isLeaf: boolean;
   size?: number;
   featureIdx?: number;
@@ -502,6 +700,26 @@ export class RandomForestClassifier {
     return importances;
   }
 
+  toJSON(): RandomForestState {
+    return {
+      numTrees: this.numTrees,
+      maxDepth: this.maxDepth,
+      minSamplesSplit: this.minSamplesSplit,
+      numFeatures: this.numFeatures,
+      classes: [...this.classes],
+      trees: this.trees.map(tree => tree.toJSON()),
+    };
+  }
+
+  static fromJSON(state: RandomForestState): RandomForestClassifier {
+    const forest = new RandomForestClassifier(state.numTrees, state.maxDepth, state.minSamplesSplit, state.numFeatures);
+    forest.classes = [...state.classes];
+    forest.trees = state.trees.map(tree =>
+      DecisionTree.fromJSON(state.maxDepth, state.minSamplesSplit, state.numFeatures, tree)
+    );
+    return forest;
+  }
+
   private bootstrapSample(
     features: ClassificationFeatures[],
     labels: string[]
@@ -551,6 +769,22 @@ class DecisionTree {
     return importances;
   }
 
+  toJSON(): { featureNames: string[]; root: DecisionNode } {
+    return { featureNames: [...this.featureNames], root: this.root };
+  }
+
+  static fromJSON(
+    maxDepth: number,
+    minSamplesSplit: number,
+    numFeatures: number,
+    state: { featureNames: string[]; root: DecisionNode }
+  ): DecisionTree {
+    const tree = new DecisionTree(maxDepth, minSamplesSplit, numFeatures);
+    tree.featureNames = [...state.featureNames];
+    tree.root = state.root;
+    return tree;
+  }
+
   private buildTree(
     features: ClassificationFeatures[],
     labels: string[],
@@ -706,7 +940,7 @@ class DecisionTree {
   }
 }
 
-interface DecisionNode {
+export interface DecisionNode {
   isLeaf: boolean;
   class?: string;
   featureIdx?: number;
@@ -826,6 +1060,16 @@ export class LSTMNetwork {
 
     return forecasts;
   }
+
+  toJSON(): LSTMModelState {
+    return { config: { ...this.config }, trained: this.trained };
+  }
+
+  static fromJSON(state: LSTMModelState): LSTMNetwork {
+    const network = new LSTMNetwork(state.config);
+    network.trained = state.trained;
+    return network;
+  }
 }
 
 /**
@@ -1106,12 +1350,159 @@ export function createTransferLearningSystem(): TransferLearningManager {
 // MODEL VERSIONING AND A/B TESTING
 // ============================================
 
+/**
+ * Serialize a trained model to plain JSON
+ */
+export function serializeModel(
+  model: ExponentialSmoothingModel | IsolationForest | RandomForestClassifier | LSTMNetwork
+): SerializedModel {
+  if (model instanceof ExponentialSmoothingModel) {
+    return { type: 'ets', state: model.toJSON() };
+  }
+  if (model instanceof IsolationForest) {
+    return { type: 'isolation-forest', state: model.toJSON() };
+  }
+  if (model instanceof RandomForestClassifier) {
+    return { type: 'random-forest', state: model.toJSON() };
+  }
+  if (model instanceof LSTMNetwork) {
+    return { type: 'lstm', state: model.toJSON() };
+  }
+  throw new Error('Model type cannot be serialized');
+}
+
+/**
+ * Rebuild a model serialized with serializeModel
+ */
+export function deserializeModel(
+  serialized: SerializedModel
+): ExponentialSmoothingModel | IsolationForest | RandomForestClassifier | LSTMNetwork {
+  switch (serialized.type) {
+    case 'ets':
+      return ExponentialSmoothingModel.fromJSON(serialized.state as ETSModelState);
+    case 'isolation-forest':
+      return IsolationForest.fromJSON(serialized.state as IsolationForestState);
+    case 'random-forest':
+      return RandomForestClassifier.fromJSON(serialized.state as RandomForestState);
+    case 'lstm':
+      return LSTMNetwork.fromJSON(serialized.state as LSTMModelState);
+    default:
+      throw new Error(`Unknown model type: ${(serialized as SerializedModel).type}`);
+  }
+}
+
+// --------------------------------------------
+// ROLLING-ORIGIN BACKTESTING
+// --------------------------------------------
+
+export const FORECAST_METHODS: ForecastMethod[] = ['rule-based', 'ets', 'lstm', 'ensemble'];
+
+/** Recent days the rule-based consumption rate is averaged over */
+const RULE_BASED_WINDOW_DAYS = 28;
+
+/**
+ * Forecaster of a consumption forecasting method:
+ * - rule-based: the consumption rate calculateStockoutPrediction projects
+ *   stock with (average of the recent days)
+ * - ets: Exponential Smoothing fitted on the history
+ * - lstm: LSTM fitted on the history
+ * - ensemble: weighted ETS and LSTM forecasts (weights as in MLModelService)
+ */
+export function createForecaster(method: ForecastMethod, config: ForecasterConfig = {}): Forecaster {
+  switch (method) {
+    case 'rule-based':
+      return async (history, horizon) => {
+        const recent: HistoricalDataPoint[] = history
+          .slice(-RULE_BASED_WINDOW_DAYS)
+          .map((point) => ({ date: point.date, consumption: point.value, stock: 0, wastage: 0 }));
+        const { metrics } = calculateStockoutPrediction({
+          currentStock: 0,
+          avgDailyConsumption: calculateAverageDailyConsumption(recent),
+          historicalDataQuality: calculateDataQuality(recent),
+        });
+        return Array(horizon).fill(Number(metrics.avgDailyConsumption));
+      };
+
+    case 'ets':
+      return async (history, horizon) => {
+        const { alpha, beta, gamma, period } = config.ets ?? {};
+        const model = new ExponentialSmoothingModel(alpha, beta, gamma, period);
+        model.fit(history);
+        return model.forecast(horizon);
+      };
+
+    case 'lstm':
+      return async (history, horizon) => {
+        const lstm = await createLSTMForecaster(history, config.lstm);
+        const lookback = config.lstm?.inputSize ?? 30;
+        return lstm.forecast(history.slice(-lookback).map((point) => point.value), horizon);
+      };
+
+    case 'ensemble':
+      return async (history, horizon) => {
+        const [ets, lstm] = await Promise.all([
+          createForecaster('ets', config)(history, horizon),
+          createForecaster('lstm', config)(history, horizon),
+        ]);
+
+        const ensemble = new EnsemblePredictor('weighted');
+        ensemble.addModel('ets', { predict: (step: number) => ets[step] }, 0.3);
+        ensemble.addModel('lstm', { predict: (step: number) => lstm[step] }, 0.4);
+
+        const forecast: number[] = [];
+        for (let step = 0; step < horizon; step++) {
+          forecast.push((await ensemble.predict(step)).prediction);
+        }
+        return forecast;
+      };
+  }
+}
+
+/**
+ * Rolling-origin evaluation of forecasters on one series
+ *
+ * Forecast origins are `step` days apart, the last one `horizon` days
+ * before the end of the series. At each origin every forecaster is fitted
+ * on the history up to the origin only and its forecast compared with the
+ * following `horizon` days. Origins with less than `minHistory` days of
+ * history are skipped, so every forecaster is scored on the same origins.
+ */
+export async function rollingOriginEvaluation(
+  series: TimeSeriesData[],
+  forecasters: { [method: string]: Forecaster },
+  options: { horizon: number; origins: number; step: number; minHistory: number }
+): Promise<{ [method: string]: BacktestSample[] }> {
+  const samples: { [method: string]: BacktestSample[] } = Object.fromEntries(
+    Object.keys(forecasters).map((method) => [method, []])
+  );
+
+  for (let i = options.origins - 1; i >= 0; i--) {
+    const origin = series.length - options.horizon - i * options.step;
+    if (origin < options.minHistory) {
+      continue;
+    }
+
+    const history = series.slice(0, origin);
+    const actual = series.slice(origin, origin + options.horizon).map((point) => point.value);
+
+    for (const [method, forecaster] of Object.entries(forecasters)) {
+      const forecast = await forecaster(history, options.horizon);
+      samples[method].push({ origin, actual, forecast, errors: calculateForecastErrors(actual, forecast) });
+    }
+  }
+
+  return samples;
+}
+
 /**
  * Model Registry for versioning
+ *
+ * Each model name has its own current version. Versions of serializable
+ * models can be exported as snapshots for storage and imported again.
  */
 export class ModelRegistry {
   private models: Map<string, { version: string; model: any; metrics: any }> = new Map();
-  private currentVersion: string = '';
+  private currentVersions: Map<string, string> = new Map();
 
   /**
    * Register a new model version
@@ -1125,17 +1516,51 @@ export class ModelRegistry {
    * Get model by version
    */
   getModel(name: string, version?: string): any {
-    if (version) {
-      return this.models.get(`${name}:${version}`)?.model;
-    }
-    return this.models.get(`${name}:${this.currentVersion}`)?.model;
+    return this.models.get(`${name}:${version ?? this.currentVersions.get(name)}`)?.model;
   }
 
   /**
    * Set current model version
    */
   setCurrentVersion(name: string, version: string): void {
-    this.currentVersion = version;
+    this.currentVersions.set(name, version);
+  }
+
+  /**
+   * Get current model version
+   */
+  getCurrentVersion(name: string): string | undefined {
+    return this.currentVersions.get(name);
+  }
+
+  /**
+   * Current version of every model
+   */
+  getCurrentVersions(): { [name: string]: string } {
+    return Object.fromEntries(this.currentVersions);
+  }
+
+  /**
+   * Export a model version (default: current) with its metrics
+   */
+  exportModel(name: string, version?: string): ModelSnapshot {
+    const resolved = version ?? this.currentVersions.get(name);
+    const entry = this.models.get(`${name}:${resolved}`);
+    if (!entry) {
+      throw new Error(`Model ${name} version ${resolved} not found`);
+    }
+
+    return { name, version: entry.version, model: serializeModel(entry.model), metrics: entry.metrics };
+  }
+
+  /**
+   * Register an exported model version and make it current
+   */
+  importModel(snapshot: ModelSnapshot): ExponentialSmoothingModel | IsolationForest | RandomForestClassifier | LSTMNetwork {
+    const model = deserializeModel(snapshot.model);
+    this.registerModel(snapshot.name, snapshot.version, model, snapshot.metrics);
+    this.setCurrentVersion(snapshot.name, snapshot.version);
+    return model;
   }
 
   /**
@@ -0,0 +1,220 @@
+/**
+ * VaxTrace Nigeria - Consumption Forecast Service Unit Tests
+ *
+ * Tests that consumption forecasts are:
+ * - Generated per facility and vaccine, and for each LGA, state and nationally
+ * - Reconciled so facility forecasts sum to their LGA, state and country
+ * - Backtested with MAPE and bias per series
+ * - Generated with the method of the promoted backtest
+ * - Served for a facility with the forecasts they are reconciled with
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { ConsumptionForecast, ForecastLevel } from '../../entities/consumption-forecast.entity';
+import { ConsumptionForecastService } from './consumption-forecast.service';
+
+describe('ConsumptionForecastService', () => {
+  let service: ConsumptionForecastService;
+  let mockDataSource: any;
+  let mockForecastRepository: any;
+  let mockQueryBuilder: any;
+  let mockManagerRepository: any;
+
+  // Garki and Wuse PHC in AMAC (FCT), Ikeja PHC in Ikeja (Lagos)
+  const facilities = [
+    { facility_id: 'garki', lga_id: 'amac', state_id: 'fct', base: 40 },
+    { facility_id: 'wuse', lga_id: 'amac', state_id: 'fct', base: 10 },
+    { facility_id: 'ikeja', lga_id: 'ikeja-lga', state_id: 'lagos', base: 100 },
+  ];
+
+  const consumptionRows = (days: number) => {
+    const rows = [];
+    for (let day = 0; day < days; day++) {
+      const date = new Date(Date.UTC(2026, 2, 1) - (days - day) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      for (const facility of facilities) {
+        const { base, ...hierarchy } = facility;
+        rows.push({ ...hierarchy, date, consumed: String(base + (day % 7) * 2) });
+      }
+    }
+    return rows;
+  };
+
+  const savedRows = (): ConsumptionForecast[] => mockManagerRepository.insert.mock.calls.flatMap(([rows]) => rows);
+  const sum = (forecasts: number[][], day: number) => forecasts.reduce((total, forecast) => total + forecast[day], 0);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-01T03:00:00Z'));
+
+    mockManagerRepository = {
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+      insert: jest.fn().mockResolvedValue({}),
+    };
+    mockDataSource = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('forecast_backtests')) return [];
+        return sql.includes('DISTINCT') ? [{ vaccine_id: 'vaccine-bcg' }] : consumptionRows(60);
+      }),
+      transaction: jest.fn(async (work) => work({ getRepository: jest.fn(() => mockManagerRepository) })),
+    };
+    mockQueryBuilder = {
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+    mockForecastRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConsumptionForecastService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(ConsumptionForecast), useValue: mockForecastRepository },
+      ],
+    }).compile();
+
+    service = module.get<ConsumptionForecastService>(ConsumptionForecastService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Generating forecasts', () => {
+    it('should forecast every facility, LGA, state and the country for each vaccine', async () => {
+      const summary = await service.generateForecasts();
+
+      expect(summary).toEqual({ horizonStart: '2026-03-01', horizonDays: 30, vaccines: 1, series: 8 });
+      expect(mockManagerRepository.delete).toHaveBeenCalledWith({ vaccineId: 'vaccine-bcg' });
+      expect(savedRows().map((row) => `${row.level}:${row.locationId}`)).toEqual([
+        'national:null',
+        'state:fct',
+        'lga:amac',
+        'facility:garki',
+        'facility:wuse',
+        'state:lagos',
+        'lga:ikeja-lga',
+        'facility:ikeja',
+      ]);
+      expect(savedRows().find((row) => row.locationId === 'garki')).toEqual(
+        expect.objectContaining({
+          level: ForecastLevel.FACILITY,
+          lgaId: 'amac',
+          stateId: 'fct',
+          vaccineId: 'vaccine-bcg',
+          method: 'ets',
+          dataPoints: 60,
+          backtestDays: 14,
+        }),
+      );
+    });
+
+    it('should reconcile facility forecasts to sum to their LGA, state and the country', async () => {
+      await service.generateForecasts();
+
+      const forecast = (locationId: string | null) => savedRows().find((row) => row.locationId === locationId).forecast;
+
+      for (let day = 0; day < 30; day++) {
+        expect(sum([forecast('garki'), forecast('wuse')], day)).toBeCloseTo(forecast('amac')[day], 1);
+        expect(forecast('amac')[day]).toBeCloseTo(forecast('fct')[day], 1);
+        expect(sum([forecast('fct'), forecast('lagos')], day)).toBeCloseTo(forecast(null)[day], 1);
+      }
+    });
+
+    it('should record the backtest MAPE and bias of every series', async () => {
+      await service.generateForecasts();
+
+      for (const row of savedRows()) {
+        expect(row.mape).toEqual(expect.any(Number));
+        expect(row.bias).toEqual(expect.any(Number));
+      }
+      // Steady weekly consumption is forecast closely
+      expect(savedRows().find((row) => row.locationId === 'ikeja').mape).toBeLessThan(15);
+    });
+
+    it('should forecast with the method of the promoted backtest', async () => {
+      const query = mockDataSource.query.getMockImplementation();
+      mockDataSource.query.mockImplementation(async (sql: string) =>
+        sql.includes('forecast_backtests') ? [{ winner: 'rule-based' }] : query(sql),
+      );
+
+      await service.generateForecasts({ horizonDays: 7 });
+
+      expect(savedRows().every((row) => row.method === 'rule-based')).toBe(true);
+      expect(savedRows().find((row) => row.locationId === 'ikeja').mape).toEqual(expect.any(Number));
+    });
+
+    it('should forecast the recent mean for series too short for ETS', async () => {
+      mockDataSource.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('forecast_backtests')) return [];
+        return sql.includes('DISTINCT') ? [{ vaccine_id: 'vaccine-bcg' }] : consumptionRows(7);
+      });
+
+      await service.generateForecasts({ horizonDays: 7 });
+
+      const garki = savedRows().find((row) => row.locationId === 'garki');
+      expect(garki).toEqual(expect.objectContaining({ method: 'rule-based', mape: null, bias: null, backtestDays: 0 }));
+      expect(garki.baseForecast).toEqual(Array(7).fill(46));
+    });
+
+    it('should not start a second run while one is in progress', async () => {
+      let release: (rows: any[]) => void;
+      mockDataSource.query.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+      const running = service.generateForecasts();
+
+      await expect(service.generateForecasts()).rejects.toThrow(ConflictException);
+      release([]);
+      await expect(running).resolves.toEqual(expect.objectContaining({ vaccines: 0, series: 0 }));
+    });
+  });
+
+  describe('Serving forecasts', () => {
+    const row = (level: ForecastLevel, locationId: string | null): Partial<ConsumptionForecast> => ({
+      level,
+      locationId,
+      vaccineId: 'vaccine-bcg',
+      horizonStart: '2026-03-01' as any,
+      forecast: [10, 12.5],
+      baseForecast: [11, 12],
+      method: 'ets',
+      mape: '12.50' as any,
+      bias: '-1.25' as any,
+      backtestDays: 14,
+      dataPoints: 60,
+      generatedAt: new Date('2026-03-01T03:00:00Z'),
+    });
+
+    it('should return the facility forecast with the forecasts it is reconciled with', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        row(ForecastLevel.NATIONAL, null),
+        row(ForecastLevel.FACILITY, 'garki'),
+        row(ForecastLevel.LGA, 'amac'),
+        row(ForecastLevel.STATE, 'fct'),
+      ]);
+
+      const forecast = await service.getFacilityForecast('garki', 'BCG');
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('v.code = :productId'), {
+        productId: 'BCG',
+      });
+      expect(forecast).toEqual({
+        vaccineId: 'vaccine-bcg',
+        facility: expect.objectContaining({ level: 'facility', locationId: 'garki', total: 22.5, mape: 12.5, bias: -1.25 }),
+        lga: expect.objectContaining({ locationId: 'amac' }),
+        state: expect.objectContaining({ locationId: 'fct' }),
+        national: expect.objectContaining({ locationId: null, horizonStart: '2026-03-01' }),
+      });
+    });
+
+    it('should return null when the facility has no forecast', async () => {
+      await expect(service.getFacilityForecast('garki', 'BCG')).resolves.toBeNull();
+    });
+  });
+});
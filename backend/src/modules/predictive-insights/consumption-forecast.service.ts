@@ -0,0 +1,422 @@
+/**
+ * VaxTrace Nigeria - Consumption Forecast Service
+ *
+ * Forecasts daily consumption per facility and vaccine instead of one
+ * national series. Every night, for each vaccine with consumption in
+ * stock_ledger:
+ * 1. Builds the daily consumption of every facility and sums it into its
+ *    LGA, state and the national series (hierarchy from locations)
+ * 2. Forecasts every series on its own with the method promoted by the
+ *    latest forecast backtest (ETS until one is promoted), or the
+ *    rule-based rate when a series is too short for the models
+ * 3. Reconciles the forecasts top-down, so facility forecasts sum to their
+ *    LGA, LGA forecasts to their state and state forecasts to the country
+ * 4. Backtests the same steps on the history without its most recent days
+ *    and records MAPE and bias of the reconciled forecast per series
+ *
+ * Forecasts are stored in consumption_forecasts and served with the
+ * aggregated predictions of a facility and product.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+
+import { ConsumptionForecast, ForecastLevel } from '../../entities/consumption-forecast.entity';
+import { ModelTrainingConfig } from './ml-model.service';
+import {
+  calculateForecastErrors,
+  createForecaster,
+  reconcileHierarchy,
+  type ForecastErrors,
+  type ForecastHierarchyNode,
+  type ForecastMethod,
+} from './algorithms/ml-algorithms';
+import { FacilityProductForecastDto, SeriesForecastDto } from './dto/forecast.dto';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export interface ForecastOptions {
+  /** Days to forecast (default: 30) */
+  horizonDays?: number;
+  /** Days of history to forecast from (default: 365) */
+  lookbackDays?: number;
+  config?: ModelTrainingConfig['ets'];
+}
+
+export interface ForecastRunSummary {
+  horizonStart: string;
+  horizonDays: number;
+  vaccines: number;
+  series: number;
+}
+
+interface ConsumptionSeries {
+  key: string;
+  level: ForecastLevel;
+  locationId: string | null;
+  lgaId: string | null;
+  stateId: string | null;
+  values: number[];
+  children: ConsumptionSeries[];
+}
+
+interface BaseForecast {
+  forecast: number[];
+  method: ForecastMethod;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const FORECAST_JOB = 'consumption-forecasts';
+
+const DEFAULT_HORIZON_DAYS = 30;
+const DEFAULT_LOOKBACK_DAYS = 365;
+const BACKTEST_DAYS = 14;
+const INSERT_BATCH_SIZE = 500;
+
+// Issues and negative adjustments; losses are wastage, not consumption
+const CONSUMPTION_FILTER = `l.quantity < 0 AND l.transaction_type IN ('issue', 'adjustment')`;
+
+// ============================================
+// CONSUMPTION FORECAST SERVICE
+// ============================================
+
+@Injectable()
+export class ConsumptionForecastService {
+  private readonly logger = new Logger(ConsumptionForecastService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(ConsumptionForecast)
+    private readonly forecastRepository: Repository<ConsumptionForecast>,
+  ) {}
+
+  // ============================================
+  // SCHEDULED RUN
+  // ============================================
+
+  /**
+   * Regenerate every forecast nightly, after the models are retrained
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: FORECAST_JOB })
+  async handleScheduledForecasts(): Promise<void> {
+    try {
+      await this.generateForecasts();
+    } catch (error) {
+      // Don't throw - yesterday's forecasts stay in use until the next run
+      this.logger.warn(`Scheduled forecasts not generated: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Forecast, reconcile and backtest every series of every vaccine, replacing
+   * the stored forecasts of each vaccine
+   */
+  async generateForecasts(options: ForecastOptions = {}): Promise<ForecastRunSummary> {
+    if (this.isRunning) {
+      throw new ConflictException('Consumption forecasts are already being generated');
+    }
+
+    this.isRunning = true;
+    try {
+      const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+      const to = new Date();
+      const from = new Date(to.getTime() - (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * 24 * 60 * 60 * 1000);
+      const window = { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+
+      const vaccines: Array<{ vaccine_id: string }> = await this.dataSource.query(
+        `SELECT DISTINCT l.vaccine_id
+         FROM stock_ledger l
+         WHERE ${CONSUMPTION_FILTER} AND l.snapshot_date >= $1 AND l.snapshot_date < $2`,
+        [window.from, window.to],
+      );
+
+      const method = await this.getForecastMethod();
+      let series = 0;
+      for (const { vaccine_id: vaccineId } of vaccines) {
+        series += await this.forecastVaccine(vaccineId, window, horizonDays, method, options.config);
+      }
+
+      this.logger.log(`Generated ${series} consumption forecast(s) for ${vaccines.length} vaccine(s)`);
+      return { horizonStart: window.to, horizonDays, vaccines: vaccines.length, series };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Stored forecast of a facility and product with the LGA, state and
+   * national forecasts it is reconciled with; null when none was generated
+   *
+   * @param productId - Vaccine ID or code
+   */
+  async getFacilityForecast(facilityId: string, productId: string): Promise<FacilityProductForecastDto | null> {
+    const rows = await this.forecastRepository
+      .createQueryBuilder('c')
+      .innerJoin(ConsumptionForecast, 'f', 'f.vaccine_id = c.vaccine_id')
+      .innerJoin('vaccines', 'v', 'v.id = f.vaccine_id')
+      .where(`f.level = 'facility' AND f.location_id::text = :facilityId`, { facilityId })
+      .andWhere('(v.id::text = :productId OR v.code = :productId)', { productId })
+      .andWhere(
+        `(c.id = f.id
+          OR (c.level = 'lga' AND c.location_id IS NOT DISTINCT FROM f.lga_id AND c.state_id IS NOT DISTINCT FROM f.state_id)
+          OR (c.level = 'state' AND c.location_id IS NOT DISTINCT FROM f.state_id)
+          OR c.level = 'national')`,
+      )
+      .getMany();
+
+    const facility = rows.find((row) => row.level === ForecastLevel.FACILITY);
+    if (!facility) {
+      return null;
+    }
+
+    const byLevel = (level: ForecastLevel) => rows.find((row) => row.level === level);
+    return {
+      vaccineId: facility.vaccineId,
+      facility: this.toDto(facility),
+      lga: this.toDto(byLevel(ForecastLevel.LGA)),
+      state: this.toDto(byLevel(ForecastLevel.STATE)),
+      national: this.toDto(byLevel(ForecastLevel.NATIONAL)),
+    };
+  }
+
+  // ============================================
+  // FORECASTING
+  // ============================================
+
+  /**
+   * Forecast every series of a vaccine and store them
+   *
+   * @returns Number of series forecast
+   */
+  private async forecastVaccine(
+    vaccineId: string,
+    window: { from: string; to: string },
+    horizonDays: number,
+    method: ForecastMethod,
+    config: ModelTrainingConfig['ets'] = {},
+  ): Promise<number> {
+    const root = await this.getConsumptionHierarchy(vaccineId, window);
+    if (!root) {
+      return 0;
+    }
+
+    const nodes = this.flatten(root);
+    const forecasts = await this.forecastHierarchy(root, horizonDays, method, config);
+
+    // Backtest the reconciled forecast on the most recent days
+    const history = root.values.length;
+    const backtestDays = history > BACKTEST_DAYS ? BACKTEST_DAYS : 0;
+    const errors = new Map<string, ForecastErrors>();
+    if (backtestDays > 0) {
+      const backtest = await this.forecastHierarchy(root, backtestDays, method, config, history - backtestDays);
+      for (const node of nodes) {
+        errors.set(node.key, calculateForecastErrors(node.values.slice(-backtestDays), backtest.reconciled.get(node.key)));
+      }
+    }
+
+    const rows = nodes.map((node) =>
+      this.forecastRepository.create({
+        level: node.level,
+        locationId: node.locationId,
+        lgaId: node.lgaId,
+        stateId: node.stateId,
+        vaccineId,
+        horizonStart: new Date(window.to),
+        forecast: forecasts.reconciled.get(node.key).map((value) => this.round(value)),
+        baseForecast: forecasts.base.get(node.key).forecast.map((value) => this.round(value)),
+        method: forecasts.base.get(node.key).method,
+        mape: errors.has(node.key) && errors.get(node.key).mape !== null ? this.round(errors.get(node.key).mape) : null,
+        bias: errors.has(node.key) ? this.round(errors.get(node.key).bias) : null,
+        backtestDays,
+        dataPoints: history,
+      }),
+    );
+
+    await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(ConsumptionForecast);
+      await repository.delete({ vaccineId });
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await repository.insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    });
+
+    return rows.length;
+  }
+
+  /**
+   * Base forecast of every series from its first `length` days, reconciled
+   * from the national forecast down
+   */
+  private async forecastHierarchy(
+    root: ConsumptionSeries,
+    horizonDays: number,
+    method: ForecastMethod,
+    config: ModelTrainingConfig['ets'],
+    length: number = root.values.length,
+  ): Promise<{ base: Map<string, BaseForecast>; reconciled: Map<string, number[]> }> {
+    const base = new Map<string, BaseForecast>();
+
+    const toNode = async (series: ConsumptionSeries): Promise<ForecastHierarchyNode> => {
+      const forecast = await this.forecastSeries(series.values.slice(0, length), horizonDays, method, config);
+      base.set(series.key, forecast);
+
+      const children: ForecastHierarchyNode[] = [];
+      for (const child of series.children) {
+        children.push(await toNode(child));
+      }
+      return { key: series.key, forecast: forecast.forecast, children };
+    };
+
+    return { base, reconciled: reconcileHierarchy(await toNode(root)) };
+  }
+
+  /**
+   * Forecast of a series with the current method; the rule-based rate when
+   * a series is too short for the models
+   */
+  private async forecastSeries(
+    values: number[],
+    horizonDays: number,
+    method: ForecastMethod,
+    config: ModelTrainingConfig['ets'],
+  ): Promise<BaseForecast> {
+    const seriesMethod = values.length >= (config.period ?? 7) * 2 ? method : 'rule-based';
+    const history = values.map((value, day) => ({ date: new Date(day * 24 * 60 * 60 * 1000), value }));
+
+    return {
+      forecast: await createForecaster(seriesMethod, { ets: config })(history, horizonDays),
+      method: seriesMethod,
+    };
+  }
+
+  /**
+   * Method of the current (promoted) backtest; ETS until one is promoted
+   */
+  private async getForecastMethod(): Promise<ForecastMethod> {
+    const [current]: Array<{ winner: ForecastMethod }> = await this.dataSource.query(
+      'SELECT winner FROM forecast_backtests WHERE is_current LIMIT 1',
+    );
+    return current?.winner ?? 'ets';
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Daily consumption of a vaccine per facility, LGA, state and nationally,
+   * from the first day with consumption; days without consumption are zero
+   */
+  private async getConsumptionHierarchy(
+    vaccineId: string,
+    window: { from: string; to: string },
+  ): Promise<ConsumptionSeries | null> {
+    const rows: Array<{ facility_id: string; lga_id: string | null; state_id: string | null; date: string; consumed: string }> =
+      await this.dataSource.query(
+        `SELECT l.facility_id, f.parent_id AS lga_id, lga.parent_id AS state_id,
+                to_char(l.snapshot_date, 'YYYY-MM-DD') AS date, SUM(-l.quantity) AS consumed
+         FROM stock_ledger l
+         JOIN locations f ON f.id = l.facility_id
+         LEFT JOIN locations lga ON lga.id = f.parent_id
+         WHERE l.vaccine_id = $1 AND ${CONSUMPTION_FILTER}
+           AND l.snapshot_date >= $2 AND l.snapshot_date < $3
+         GROUP BY l.facility_id, f.parent_id, lga.parent_id, l.snapshot_date`,
+        [vaccineId, window.from, window.to],
+      );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const start = rows.reduce((first, row) => (row.date < first ? row.date : first), rows[0].date);
+    const dayIndex = (date: string) => Math.round((Date.parse(date) - Date.parse(start)) / (24 * 60 * 60 * 1000));
+    const length = dayIndex(window.to);
+
+    const national = this.createSeries('national', ForecastLevel.NATIONAL, null, null, null, length);
+    const index = new Map<string, ConsumptionSeries>();
+    const child = (parent: ConsumptionSeries, series: ConsumptionSeries): ConsumptionSeries => {
+      if (!index.has(series.key)) {
+        index.set(series.key, series);
+        parent.children.push(series);
+      }
+      return index.get(series.key);
+    };
+
+    for (const row of rows) {
+      const state = child(
+        national,
+        this.createSeries(`state:${row.state_id}`, ForecastLevel.STATE, row.state_id, null, null, length),
+      );
+      const lga = child(
+        state,
+        this.createSeries(`lga:${row.state_id}:${row.lga_id}`, ForecastLevel.LGA, row.lga_id, null, row.state_id, length),
+      );
+      const facility = child(
+        lga,
+        this.createSeries(`facility:${row.facility_id}`, ForecastLevel.FACILITY, row.facility_id, row.lga_id, row.state_id, length),
+      );
+
+      const day = dayIndex(row.date);
+      for (const series of [national, state, lga, facility]) {
+        series.values[day] += Number(row.consumed);
+      }
+    }
+
+    return national;
+  }
+
+  private createSeries(
+    key: string,
+    level: ForecastLevel,
+    locationId: string | null,
+    lgaId: string | null,
+    stateId: string | null,
+    length: number,
+  ): ConsumptionSeries {
+    return { key, level, locationId, lgaId, stateId, values: new Array(length).fill(0), children: [] };
+  }
+
+  private flatten(series: ConsumptionSeries): ConsumptionSeries[] {
+    return [series, ...series.children.flatMap((child) => this.flatten(child))];
+  }
+
+  private toDto(row: ConsumptionForecast | undefined): SeriesForecastDto | null {
+    if (!row) {
+      return null;
+    }
+
+    return {
+      level: row.level,
+      locationId: row.locationId,
+      horizonStart: new Date(row.horizonStart).toISOString().slice(0, 10),
+      forecast: row.forecast,
+      baseForecast: row.baseForecast,
+      total: this.round(row.forecast.reduce((sum, value) => sum + value, 0)),
+      method: row.method,
+      mape: row.mape !== null ? Number(row.mape) : null,
+      bias: row.bias !== null ? Number(row.bias) : null,
+      backtestDays: row.backtestDays,
+      dataPoints: row.dataPoints,
+      generatedAt: new Date(row.generatedAt).toISOString(),
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * VaxTrace Nigeria - Forecast Backtest DTOs
+ *
+ * Data Transfer Objects for rolling-origin backtests of the consumption
+ * forecasting methods
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { FORECAST_METHODS, type ForecastMethod } from '../algorithms/ml-algorithms';
+import type { ModelTrainingConfig } from '../ml-model.service';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class RunBacktestDto {
+  @ApiPropertyOptional({ description: 'Days forecast from each origin', default: 14, minimum: 1, maximum: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  horizonDays?: number;
+
+  @ApiPropertyOptional({ description: 'Forecast origins per series', default: 8, minimum: 1, maximum: 52 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(52)
+  origins?: number;
+
+  @ApiPropertyOptional({ description: 'Days between origins', default: 7, minimum: 1, maximum: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  stepDays?: number;
+
+  @ApiPropertyOptional({ description: 'Days of history to replay', default: 365, minimum: 60, maximum: 1825 })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(1825)
+  lookbackDays?: number;
+
+  @ApiPropertyOptional({ description: 'Vaccine codes to backtest (default: all)', example: ['BCG', 'PENTA'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  vaccineCodes?: string[];
+
+  @ApiPropertyOptional({ description: 'States to backtest (default: all)', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  stateIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Promote the winning method as current', default: false })
+  @IsOptional()
+  @IsBoolean()
+  promote?: boolean;
+
+  @ApiPropertyOptional({ description: 'Model configuration (ets, lstm)', type: 'object' })
+  @IsOptional()
+  @IsObject()
+  config?: Pick<ModelTrainingConfig, 'ets' | 'lstm'>;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class MethodAccuracyDto {
+  @ApiProperty({ enum: FORECAST_METHODS })
+  method: ForecastMethod;
+
+  @ApiProperty({ description: 'Forecast origins scored', example: 8 })
+  samples: number;
+
+  @ApiProperty({ description: 'Mean absolute error in doses per day', example: 12.4 })
+  mae: number;
+
+  @ApiProperty({ description: 'Mean absolute percentage error', nullable: true, example: 18.2 })
+  mape: number | null;
+
+  @ApiProperty({ description: 'Mean daily error in doses; positive when forecasts are too high', example: -3.1 })
+  bias: number;
+
+  @ApiProperty({ description: 'Accuracy (100 - MAPE, 0-100)', example: 81.8 })
+  accuracy: number;
+}
+
+export class SeriesAccuracyDto extends MethodAccuracyDto {
+  @ApiProperty({ example: 'BCG' })
+  vaccineCode: string;
+
+  @ApiProperty({ nullable: true })
+  stateId: string | null;
+
+  @ApiProperty({ nullable: true, example: 'Kano' })
+  stateName: string | null;
+}
+
+export class MethodComparisonDto {
+  @ApiProperty({ description: 'A/B experiment the paired origin accuracies were recorded in' })
+  experiment: string;
+
+  @ApiProperty({ enum: FORECAST_METHODS })
+  modelA: ForecastMethod;
+
+  @ApiProperty({ enum: FORECAST_METHODS })
+  modelB: ForecastMethod;
+
+  @ApiProperty({ description: 'Mean accuracy of model A', example: 81.8 })
+  meanA: number;
+
+  @ApiProperty({ description: 'Mean accuracy of model B', example: 74.1 })
+  meanB: number;
+
+  @ApiProperty({ enum: ['A', 'B', 'TIE'] })
+  winner: 'A' | 'B' | 'TIE';
+
+  @ApiProperty({ example: 0.95 })
+  significance: number;
+}
+
+export class BacktestResultDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: '20261019T020000' })
+  version: string;
+
+  @ApiProperty()
+  horizonDays: number;
+
+  @ApiProperty()
+  origins: number;
+
+  @ApiProperty()
+  stepDays: number;
+
+  @ApiProperty()
+  lookbackDays: number;
+
+  @ApiProperty({ description: 'Vaccine and state series replayed' })
+  series: number;
+
+  @ApiProperty({ enum: FORECAST_METHODS, nullable: true, description: 'Most accurate method (null without samples)' })
+  winner: ForecastMethod | null;
+
+  @ApiProperty({ description: 'Whether the winner generates the consumption forecasts' })
+  isCurrent: boolean;
+
+  @ApiProperty({ type: [MethodAccuracyDto] })
+  summary: MethodAccuracyDto[];
+
+  @ApiProperty({ type: [SeriesAccuracyDto] })
+  results: SeriesAccuracyDto[];
+
+  @ApiProperty({ type: MethodComparisonDto, nullable: true })
+  comparison: MethodComparisonDto | null;
+
+  @ApiProperty()
+  createdAt: string;
+}
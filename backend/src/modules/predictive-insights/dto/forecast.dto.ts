@@ -0,0 +1,80 @@
+/**
+ * VaxTrace Nigeria - Consumption Forecast DTOs
+ *
+ * Data Transfer Objects for the reconciled consumption forecasts of a
+ * facility and product
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+import { ForecastLevel } from '../../../entities/consumption-forecast.entity';
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class SeriesForecastDto {
+  @ApiProperty({ enum: ForecastLevel })
+  level: ForecastLevel;
+
+  @ApiProperty({ description: 'Facility, LGA or state (null nationally)', nullable: true })
+  locationId: string | null;
+
+  @ApiProperty({ description: 'First forecast day', example: '2026-10-19' })
+  horizonStart: string;
+
+  @ApiProperty({ description: 'Daily doses, reconciled with the parent series', type: [Number] })
+  forecast: number[];
+
+  @ApiProperty({ description: 'Daily doses forecast from the series alone', type: [Number] })
+  baseForecast: number[];
+
+  @ApiProperty({ description: 'Doses over the whole horizon', example: 1240 })
+  total: number;
+
+  @ApiProperty({ enum: ['rule-based', 'ets', 'lstm', 'ensemble'] })
+  method: string;
+
+  @ApiProperty({
+    description: 'Mean absolute percentage error of the backtest (null without consumption)',
+    nullable: true,
+    example: 18.4,
+  })
+  mape: number | null;
+
+  @ApiProperty({
+    description: 'Mean daily error of the backtest in doses; positive when forecasts are too high',
+    nullable: true,
+    example: -2.1,
+  })
+  bias: number | null;
+
+  @ApiProperty({ description: 'Most recent days held out of the backtest', example: 14 })
+  backtestDays: number;
+
+  @ApiProperty({ description: 'Days of history forecast from', example: 365 })
+  dataPoints: number;
+
+  @ApiProperty()
+  generatedAt: string;
+}
+
+export class FacilityProductForecastDto {
+  @ApiProperty()
+  vaccineId: string;
+
+  @ApiProperty({ type: SeriesForecastDto })
+  facility: SeriesForecastDto;
+
+  @ApiProperty({ type: SeriesForecastDto, nullable: true })
+  lga: SeriesForecastDto | null;
+
+  @ApiProperty({ type: SeriesForecastDto, nullable: true })
+  state: SeriesForecastDto | null;
+
+  @ApiProperty({ type: SeriesForecastDto, nullable: true })
+  national: SeriesForecastDto | null;
+}
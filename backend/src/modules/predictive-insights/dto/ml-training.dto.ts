@@ -0,0 +1,113 @@
+/**
+ * VaxTrace Nigeria - ML Training DTOs
+ *
+ * Data Transfer Objects for training the predictive insights models from
+ * stored history
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { ArrayUnique, IsArray, IsIn, IsInt, IsObject, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import type { MLModelType } from '../algorithms/ml-algorithms';
+import type { ModelTrainingConfig } from '../ml-model.service';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const TRAINABLE_MODELS: MLModelType[] = ['ets', 'isolation-forest', 'random-forest', 'lstm'];
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class TrainModelsDto {
+  @ApiPropertyOptional({
+    description: 'Models to train (default: all)',
+    enum: TRAINABLE_MODELS,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(TRAINABLE_MODELS, { each: true })
+  models?: MLModelType[];
+
+  @ApiPropertyOptional({
+    description: 'Days of history to train on',
+    default: 365,
+    minimum: 30,
+    maximum: 1825,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(1825)
+  lookbackDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Model configuration (ets, isolationForest, randomForest, lstm)',
+    type: 'object',
+  })
+  @IsOptional()
+  @IsObject()
+  config?: ModelTrainingConfig;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class ModelMetricsDto {
+  @ApiProperty({ description: 'Data points the model was trained on', example: 358 })
+  dataPoints: number;
+
+  @ApiPropertyOptional({ description: 'Data points held out for evaluation', example: 14 })
+  holdout?: number;
+
+  @ApiPropertyOptional({ description: 'Mean absolute error on the held-out history', example: 42.5 })
+  mae?: number;
+
+  @ApiPropertyOptional({ description: 'Mean absolute percentage error on the held-out history', example: 12.3 })
+  mape?: number;
+
+  @ApiPropertyOptional({ description: 'Accuracy on the held-out history (0-100)', example: 87.7 })
+  accuracy?: number;
+
+  @ApiPropertyOptional({ description: 'Share of training data scored as anomalous (0-100)', example: 3.2 })
+  anomalyRate?: number;
+}
+
+export class TrainedModelDto {
+  @ApiProperty({ description: 'Model', enum: TRAINABLE_MODELS })
+  name: MLModelType;
+
+  @ApiProperty({ description: 'Whether a new version was trained' })
+  trained: boolean;
+
+  @ApiPropertyOptional({ description: 'New current version', example: '20261019T020000' })
+  version?: string;
+
+  @ApiPropertyOptional({ description: 'Evaluation metrics', type: ModelMetricsDto })
+  metrics?: ModelMetricsDto;
+
+  @ApiPropertyOptional({ description: 'Why the model was not trained' })
+  reason?: string;
+}
+
+export class TrainModelsResponseDto {
+  @ApiProperty({ description: 'Whether every requested model was trained' })
+  success: boolean;
+
+  @ApiProperty({ example: 'Successfully trained 4 model(s)' })
+  message: string;
+
+  @ApiProperty({ description: 'Models trained', example: ['ETS', 'Isolation Forest'] })
+  modelsTrained: string[];
+
+  @ApiProperty({ type: [TrainedModelDto] })
+  models: TrainedModelDto[];
+}
@@ -0,0 +1,235 @@
+/**
+ * VaxTrace Nigeria - Forecast Backtest Service Unit Tests
+ *
+ * Tests that backtests:
+ * - Score every forecasting method per vaccine and state over rolling origins
+ * - Pick the most accurate method through the model registry
+ * - Compare the winner with the rule-based baseline as an A/B experiment
+ * - Promote the winner as the current consumption forecasting method
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { ForecastBacktest } from '../../entities/forecast-backtest.entity';
+import { MLModelService } from './ml-model.service';
+import { CONSUMPTION_FORECAST_MODEL, ForecastBacktestService } from './forecast-backtest.service';
+
+describe('ForecastBacktestService', () => {
+  let service: ForecastBacktestService;
+  let mlModelService: MLModelService;
+  let mockDataSource: any;
+  let mockBacktestRepository: any;
+  let mockManagerRepository: any;
+
+  // 120 days of BCG consumption up to 28 February in Lagos and Kano
+  const consumptionRows = (dailyConsumption: (day: number) => number) => {
+    const rows = [];
+    for (let day = 0; day < 120; day++) {
+      const date = new Date(Date.UTC(2026, 2, 1) - (120 - day) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      for (const [stateId, stateName, scale] of [['lagos', 'Lagos', 2], ['kano', 'Kano', 1]] as const) {
+        rows.push({
+          vaccine_code: 'BCG',
+          state_id: stateId,
+          state_name: stateName,
+          date,
+          consumed: String(dailyConsumption(day) * scale),
+        });
+      }
+    }
+    return rows;
+  };
+  const weekly = (day: number) => [60, 80, 120, 80, 60, 20, 5][day % 7];
+
+  const savedBacktest = (): ForecastBacktest => mockBacktestRepository.save.mock.calls[0][0];
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-01T03:00:00Z'));
+
+    mockManagerRepository = { update: jest.fn().mockResolvedValue({ affected: 1 }) };
+    mockDataSource = {
+      query: jest.fn().mockResolvedValue(consumptionRows(weekly)),
+      transaction: jest.fn(async (work) => work({ getRepository: jest.fn(() => mockManagerRepository) })),
+    };
+    mockBacktestRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (row) => ({ ...row, id: 'backtest-1', createdAt: new Date() })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForecastBacktestService,
+        MLModelService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(ForecastBacktest), useValue: mockBacktestRepository },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ForecastBacktestService>(ForecastBacktestService);
+    mlModelService = module.get<MLModelService>(MLModelService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Running backtests', () => {
+    it('should score every method per vaccine and state over rolling origins', async () => {
+      const result = await service.runBacktest({ userId: 'user-1' });
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(expect.stringContaining('FROM stock_ledger'), [
+        '2025-03-01',
+        '2026-03-01',
+        null,
+        null,
+      ]);
+      expect(result).toEqual(
+        expect.objectContaining({ id: 'backtest-1', version: '20260301T030000', series: 2, isCurrent: false }),
+      );
+      expect(result.results.map((row) => `${row.stateName}:${row.method}`)).toEqual([
+        'Lagos:rule-based',
+        'Lagos:ets',
+        'Lagos:lstm',
+        'Lagos:ensemble',
+        'Kano:rule-based',
+        'Kano:ets',
+        'Kano:lstm',
+        'Kano:ensemble',
+      ]);
+      for (const row of result.results) {
+        expect(row).toEqual(
+          expect.objectContaining({ vaccineCode: 'BCG', samples: 8, mae: expect.any(Number), mape: expect.any(Number) }),
+        );
+      }
+      expect(result.summary.map((row) => [row.method, row.samples])).toEqual([
+        ['rule-based', 16],
+        ['ets', 16],
+        ['lstm', 16],
+        ['ensemble', 16],
+      ]);
+      // The LSTM forecasts no consumption
+      expect(result.summary.find((row) => row.method === 'lstm').accuracy).toBe(0);
+      expect(savedBacktest()).toEqual(expect.objectContaining({ horizonDays: 14, origins: 8, stepDays: 7, runBy: 'user-1' }));
+    });
+
+    it('should pick the most accurate method as the winner', async () => {
+      const result = await service.runBacktest();
+
+      const best = Math.max(...result.summary.map((row) => row.accuracy));
+      expect(result.winner).not.toBe('lstm');
+      expect(result.summary.find((row) => row.method === result.winner).accuracy).toBe(best);
+      expect(mlModelService.getModel(CONSUMPTION_FORECAST_MODEL, `20260301T030000:${result.winner}`)).toEqual({
+        method: result.winner,
+      });
+    });
+
+    it('should keep the rule-based method when no model is more accurate', async () => {
+      mockDataSource.query.mockResolvedValue(consumptionRows(() => 50));
+
+      const result = await service.runBacktest();
+
+      expect(result.winner).toBe('rule-based');
+      expect(result.comparison).toEqual(expect.objectContaining({ modelA: 'rule-based' }));
+      expect(result.comparison.modelB).not.toBe('rule-based');
+    });
+
+    it('should compare the winner with the rule-based baseline as an A/B experiment', async () => {
+      const result = await service.runBacktest({ horizonDays: 7, origins: 4 });
+
+      if (result.winner === 'rule-based') {
+        expect(result.comparison.modelA).toBe('rule-based');
+      } else {
+        expect(result.comparison).toEqual(expect.objectContaining({ modelA: result.winner, modelB: 'rule-based' }));
+      }
+      expect(result.comparison.experiment).toBe('forecast-backtest:20260301T030000');
+      expect(mlModelService.getABTestStats(result.comparison.experiment)).toEqual(
+        expect.objectContaining({ modelA: expect.objectContaining({ count: 8 }), modelB: expect.objectContaining({ count: 8 }) }),
+      );
+    });
+
+    it('should only replay the requested vaccines and states', async () => {
+      await service.runBacktest({ vaccineCodes: ['BCG'], stateIds: ['lagos'], lookbackDays: 90 });
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(expect.any(String), ['2025-12-01', '2026-03-01', ['BCG'], ['lagos']]);
+    });
+
+    it('should not pick a winner without consumption', async () => {
+      mockDataSource.query.mockResolvedValue([]);
+
+      const result = await service.runBacktest({ promote: true });
+
+      expect(result).toEqual(expect.objectContaining({ series: 0, winner: null, summary: [], comparison: null }));
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not start a second backtest while one is in progress', async () => {
+      let release: (rows: any[]) => void;
+      mockDataSource.query.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+      const running = service.runBacktest();
+
+      await expect(service.runBacktest()).rejects.toThrow(ConflictException);
+      release([]);
+      await expect(running).resolves.toEqual(expect.objectContaining({ series: 0 }));
+    });
+  });
+
+  describe('Promoting winners', () => {
+    const backtest = (winner: string | null): Partial<ForecastBacktest> => ({
+      id: 'backtest-1',
+      version: '20260301T030000',
+      winner,
+      isCurrent: false,
+      summary: [{ method: 'ets', samples: 16, mae: 8.2, mape: 12.4, bias: -1.1, accuracy: 87.6 }],
+      results: [],
+      comparison: null,
+      createdAt: new Date('2026-03-01T03:00:00Z'),
+    });
+
+    it('should make the winner the current consumption forecast version', async () => {
+      mockBacktestRepository.findOne.mockResolvedValue(backtest('ets'));
+
+      const result = await service.promoteBacktest('backtest-1');
+
+      expect(mockManagerRepository.update).toHaveBeenCalledWith({ isCurrent: true }, { isCurrent: false });
+      expect(mockManagerRepository.update).toHaveBeenCalledWith(
+        { id: 'backtest-1' },
+        { isCurrent: true, promotedAt: new Date('2026-03-01T03:00:00Z') },
+      );
+      expect(result).toEqual(expect.objectContaining({ winner: 'ets', isCurrent: true }));
+      expect(mlModelService.getModel(CONSUMPTION_FORECAST_MODEL)).toEqual({ method: 'ets' });
+    });
+
+    it('should promote the winner of a backtest run with promote', async () => {
+      mockBacktestRepository.findOne.mockImplementation(async () => mockBacktestRepository.save.mock.results[0].value);
+
+      const result = await service.runBacktest({ promote: true });
+
+      expect(mockBacktestRepository.findOne).toHaveBeenCalledWith({ where: { id: 'backtest-1' } });
+      expect(result.isCurrent).toBe(true);
+      expect(mlModelService.getModel(CONSUMPTION_FORECAST_MODEL)).toEqual({ method: result.winner });
+    });
+
+    it('should reject unknown backtests and backtests without a winner', async () => {
+      await expect(service.promoteBacktest('missing')).rejects.toThrow(NotFoundException);
+
+      mockBacktestRepository.findOne.mockResolvedValue(backtest(null));
+      await expect(service.promoteBacktest('backtest-1')).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should restore the current winner at startup', async () => {
+      mockBacktestRepository.findOne.mockResolvedValue({ ...backtest('ets'), isCurrent: true });
+
+      await service.onModuleInit();
+
+      expect(mockBacktestRepository.findOne).toHaveBeenCalledWith({ where: { isCurrent: true } });
+      expect(mlModelService.getModel(CONSUMPTION_FORECAST_MODEL)).toEqual({ method: 'ets' });
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * VaxTrace Nigeria - Forecast Backtest Service
+ *
+ * Replays the consumption history in stock_ledger to compare the
+ * forecasting methods (rule-based, ETS, LSTM, ensemble):
+ * 1. Builds the daily consumption of every vaccine per state
+ * 2. Evaluates every method with rolling origins: at each origin it is
+ *    fitted on the history before the origin only and scored on the days
+ *    after it
+ * 3. Registers every method as a version of the consumption forecast in
+ *    the ModelRegistry and picks the winner with compareVersions
+ * 4. Records the paired origin accuracies of the winner and the
+ *    rule-based baseline as an A/B experiment for its significance
+ *
+ * Backtests are stored in forecast_backtests. Promoting one makes its
+ * winner the method consumption forecasts are generated with. Backtests
+ * can also be run offline with `npm run backtest`.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+
+import { ForecastBacktest } from '../../entities/forecast-backtest.entity';
+import { MLModelService, ModelTrainingConfig } from './ml-model.service';
+import {
+  FORECAST_METHODS,
+  createForecaster,
+  rollingOriginEvaluation,
+  type BacktestSample,
+  type ForecastMethod,
+  type TimeSeriesData,
+} from './algorithms/ml-algorithms';
+import {
+  BacktestResultDto,
+  MethodAccuracyDto,
+  MethodComparisonDto,
+  SeriesAccuracyDto,
+} from './dto/backtest.dto';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export interface BacktestOptions {
+  /** Days forecast from each origin (default: 14) */
+  horizonDays?: number;
+  /** Forecast origins per series (default: 8) */
+  origins?: number;
+  /** Days between origins (default: 7) */
+  stepDays?: number;
+  /** Days of history to replay (default: 365) */
+  lookbackDays?: number;
+  vaccineCodes?: string[];
+  stateIds?: string[];
+  /** Promote the winner as the current forecasting method */
+  promote?: boolean;
+  config?: Pick<ModelTrainingConfig, 'ets' | 'lstm'>;
+  /** User who requested the backtest */
+  userId?: string;
+}
+
+interface BacktestSeries {
+  vaccineCode: string;
+  stateId: string | null;
+  stateName: string | null;
+  points: TimeSeriesData[];
+  samples?: { [method: string]: BacktestSample[] };
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** ModelRegistry name of the consumption forecast; versions are `<backtest>:<method>` */
+export const CONSUMPTION_FORECAST_MODEL = 'consumption-forecast';
+
+const BASELINE_METHOD: ForecastMethod = 'rule-based';
+
+const DEFAULT_HORIZON_DAYS = 14;
+const DEFAULT_ORIGINS = 8;
+const DEFAULT_STEP_DAYS = 7;
+const DEFAULT_LOOKBACK_DAYS = 365;
+
+// ============================================
+// FORECAST BACKTEST SERVICE
+// ============================================
+
+@Injectable()
+export class ForecastBacktestService implements OnModuleInit {
+  private readonly logger = new Logger(ForecastBacktestService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(ForecastBacktest)
+    private readonly backtestRepository: Repository<ForecastBacktest>,
+    private readonly mlModelService: MLModelService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      const current = await this.backtestRepository.findOne({ where: { isCurrent: true } });
+      if (current) {
+        this.publishWinner(current);
+      }
+    } catch (error) {
+      this.logger.warn(`Current forecast backtest not loaded: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Backtest every forecasting method on the stored history and store the
+   * accuracy tables; optionally promote the winner
+   */
+  async runBacktest(options: BacktestOptions = {}): Promise<BacktestResultDto> {
+    if (this.isRunning) {
+      throw new ConflictException('A forecast backtest is already running');
+    }
+
+    this.isRunning = true;
+    let backtest: ForecastBacktest;
+    try {
+      backtest = await this.evaluate(options);
+    } finally {
+      this.isRunning = false;
+    }
+
+    if (options.promote && backtest.winner) {
+      return this.promoteBacktest(backtest.id);
+    }
+    return this.toDto(backtest);
+  }
+
+  /**
+   * Make the winner of a backtest the current consumption forecasting method
+   */
+  async promoteBacktest(id: string): Promise<BacktestResultDto> {
+    const backtest = await this.backtestRepository.findOne({ where: { id } });
+    if (!backtest) {
+      throw new NotFoundException(`Forecast backtest ${id} not found`);
+    }
+    if (!backtest.winner) {
+      throw new BadRequestException(`Forecast backtest ${backtest.version} has no winner to promote`);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(ForecastBacktest);
+      await repository.update({ isCurrent: true }, { isCurrent: false });
+      await repository.update({ id }, { isCurrent: true, promotedAt: new Date() });
+    });
+
+    backtest.isCurrent = true;
+    this.publishWinner(backtest);
+    this.logger.log(`Promoted ${backtest.winner} (backtest ${backtest.version}) as the consumption forecasting method`);
+
+    return this.toDto(backtest);
+  }
+
+  // ============================================
+  // EVALUATION
+  // ============================================
+
+  private async evaluate(options: BacktestOptions): Promise<ForecastBacktest> {
+    const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+    const origins = options.origins ?? DEFAULT_ORIGINS;
+    const stepDays = options.stepDays ?? DEFAULT_STEP_DAYS;
+    const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+    const version = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+    const config = options.config ?? {};
+
+    const series = await this.getConsumptionSeries(lookbackDays, options.vaccineCodes, options.stateIds);
+    const forecasters = Object.fromEntries(FORECAST_METHODS.map((method) => [method, createForecaster(method, config)]));
+
+    for (const item of series) {
+      item.samples = await rollingOriginEvaluation(item.points, forecasters, {
+        horizon: horizonDays,
+        origins,
+        step: stepDays,
+        minHistory: (config.ets?.period ?? 7) * 2,
+      });
+    }
+
+    const results: SeriesAccuracyDto[] = series.flatMap((item) =>
+      FORECAST_METHODS.filter((method) => item.samples[method].length > 0).map((method) => ({
+        vaccineCode: item.vaccineCode,
+        stateId: item.stateId,
+        stateName: item.stateName,
+        ...this.summarize(method, item.samples[method]),
+      })),
+    );
+    const summary = FORECAST_METHODS.map((method) =>
+      this.summarize(method, series.flatMap((item) => item.samples[method])),
+    ).filter((accuracy) => accuracy.samples > 0);
+
+    const winner = this.pickWinner(version, summary);
+    const comparison = winner ? this.compareWithBaseline(version, winner, summary, series) : null;
+
+    this.logger.log(
+      `Backtest ${version}: ${series.length} series, winner ${winner ?? 'none'}` +
+        (comparison ? ` (${comparison.meanA} vs ${comparison.meanB} for ${comparison.modelB})` : ''),
+    );
+
+    return this.backtestRepository.save(
+      this.backtestRepository.create({
+        version,
+        horizonDays,
+        origins,
+        stepDays,
+        lookbackDays,
+        series: series.length,
+        results,
+        summary,
+        comparison,
+        winner,
+        isCurrent: false,
+        runBy: options.userId ?? null,
+      }),
+    );
+  }
+
+  /**
+   * Register every method as a version and keep the more accurate one of
+   * each pair; ties keep the simpler method
+   */
+  private pickWinner(version: string, summary: MethodAccuracyDto[]): ForecastMethod | null {
+    if (summary.length === 0) {
+      return null;
+    }
+
+    for (const accuracy of summary) {
+      this.mlModelService.registerModelVersion(
+        CONSUMPTION_FORECAST_MODEL,
+        `${version}:${accuracy.method}`,
+        { method: accuracy.method },
+        accuracy,
+      );
+    }
+
+    const best = summary.slice(1).reduce(
+      (current, accuracy) =>
+        this.mlModelService.compareModelVersions(CONSUMPTION_FORECAST_MODEL, `${version}:${accuracy.method}`, current)
+          .better,
+      `${version}:${summary[0].method}`,
+    );
+    return best.split(':')[1] as ForecastMethod;
+  }
+
+  /**
+   * A/B test of the winner against the rule-based baseline (or the runner-up
+   * when the baseline wins) on the accuracy of each shared origin
+   */
+  private compareWithBaseline(
+    version: string,
+    winner: ForecastMethod,
+    summary: MethodAccuracyDto[],
+    series: BacktestSeries[],
+  ): MethodComparisonDto | null {
+    const challenger =
+      winner !== BASELINE_METHOD
+        ? BASELINE_METHOD
+        : [...summary].filter((accuracy) => accuracy.method !== winner).sort((a, b) => b.accuracy - a.accuracy)[0]?.method;
+    if (!challenger) {
+      return null;
+    }
+
+    const pairs = series.flatMap((item) =>
+      item.samples[winner]
+        .map((sample, i) => [sample.errors.mape, item.samples[challenger][i]?.errors.mape])
+        .filter(([a, b]) => a !== null && b !== null && b !== undefined),
+    );
+    if (pairs.length < 2) {
+      return null;
+    }
+
+    const experiment = `forecast-backtest:${version}`;
+    this.mlModelService.createABTest(experiment, `${version}:${winner}`, `${version}:${challenger}`);
+    for (const [a, b] of pairs) {
+      this.mlModelService.recordABTestResult(experiment, 'A', Math.max(0, 100 - a));
+      this.mlModelService.recordABTestResult(experiment, 'B', Math.max(0, 100 - b));
+    }
+
+    const stats = this.mlModelService.getABTestStats(experiment);
+    return {
+      experiment,
+      modelA: winner,
+      modelB: challenger,
+      meanA: this.round(stats.modelA.mean),
+      meanB: this.round(stats.modelB.mean),
+      winner: stats.winner,
+      significance: stats.significance,
+    };
+  }
+
+  private summarize(method: ForecastMethod, samples: BacktestSample[]): MethodAccuracyDto {
+    const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+    const mapes = samples.map((sample) => sample.errors.mape).filter((mape) => mape !== null);
+    const mape = mapes.length > 0 ? mean(mapes) : null;
+
+    return {
+      method,
+      samples: samples.length,
+      mae: this.round(mean(samples.map((sample) => sample.errors.mae))),
+      mape: mape !== null ? this.round(mape) : null,
+      bias: this.round(mean(samples.map((sample) => sample.errors.bias))),
+      accuracy: mape !== null ? this.round(Math.max(0, 100 - mape)) : 0,
+    };
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Daily consumption per vaccine and state from the first day with
+   * consumption; days without consumption are zero
+   */
+  private async getConsumptionSeries(
+    lookbackDays: number,
+    vaccineCodes?: string[],
+    stateIds?: string[],
+  ): Promise<BacktestSeries[]> {
+    const to = new Date();
+    const from = new Date(to.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+    const window = { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+
+    const rows: Array<{
+      vaccine_code: string;
+      state_id: string | null;
+      state_name: string | null;
+      date: string;
+      consumed: string;
+    }> = await this.dataSource.query(
+      `SELECT v.code AS vaccine_code, s.id AS state_id, s.name AS state_name,
+              to_char(l.snapshot_date, 'YYYY-MM-DD') AS date, SUM(-l.quantity) AS consumed
+       FROM stock_ledger l
+       JOIN vaccines v ON v.id = l.vaccine_id
+       JOIN locations f ON f.id = l.facility_id
+       LEFT JOIN locations lga ON lga.id = f.parent_id
+       LEFT JOIN locations s ON s.id = lga.parent_id
+       WHERE l.quantity < 0 AND l.transaction_type IN ('issue', 'adjustment')
+         AND l.snapshot_date >= $1 AND l.snapshot_date < $2
+         AND ($3::text[] IS NULL OR v.code = ANY($3))
+         AND ($4::uuid[] IS NULL OR s.id = ANY($4))
+       GROUP BY v.code, s.id, s.name, l.snapshot_date
+       ORDER BY v.code, s.name, l.snapshot_date`,
+      [window.from, window.to, vaccineCodes?.length ? vaccineCodes : null, stateIds?.length ? stateIds : null],
+    );
+
+    const grouped = new Map<string, { series: BacktestSeries; consumed: Map<string, number> }>();
+    for (const row of rows) {
+      const key = `${row.vaccine_code}:${row.state_id}`;
+      if (!grouped.has(key)) {
+        grouped.set(key, {
+          series: { vaccineCode: row.vaccine_code, stateId: row.state_id, stateName: row.state_name, points: [] },
+          consumed: new Map(),
+        });
+      }
+      grouped.get(key).consumed.set(row.date, Number(row.consumed));
+    }
+
+    return [...grouped.values()].map(({ series, consumed }) => {
+      const first = [...consumed.keys()].sort()[0];
+      for (const day = new Date(first); day < new Date(window.to); day.setUTCDate(day.getUTCDate() + 1)) {
+        series.points.push({ date: new Date(day), value: consumed.get(day.toISOString().slice(0, 10)) ?? 0 });
+      }
+      return series;
+    });
+  }
+
+  /**
+   * Register the winner of a backtest as the current consumption forecast version
+   */
+  private publishWinner(backtest: ForecastBacktest): void {
+    const version = `${backtest.version}:${backtest.winner}`;
+    const metrics = backtest.summary.find((accuracy) => accuracy.method === backtest.winner) ?? {};
+
+    this.mlModelService.registerModelVersion(CONSUMPTION_FORECAST_MODEL, version, { method: backtest.winner }, metrics);
+    this.mlModelService.setCurrentModelVersion(CONSUMPTION_FORECAST_MODEL, version);
+  }
+
+  private toDto(backtest: ForecastBacktest): BacktestResultDto {
+    return {
+      id: backtest.id,
+      version: backtest.version,
+      horizonDays: backtest.horizonDays,
+      origins: backtest.origins,
+      stepDays: backtest.stepDays,
+      lookbackDays: backtest.lookbackDays,
+      series: backtest.series,
+      winner: (backtest.winner as ForecastMethod) ?? null,
+      isCurrent: backtest.isCurrent,
+      summary: backtest.summary as MethodAccuracyDto[],
+      results: backtest.results as SeriesAccuracyDto[],
+      comparison: (backtest.comparison as MethodComparisonDto) ?? null,
+      createdAt: new Date(backtest.createdAt).toISOString(),
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -2,7 +2,9 @@
  * VaxTrace Nigeria - ML Model Service
  *
  * Integrates Phase 2 (Lightweight ML) and Phase 3 (Advanced ML) algorithms
- * into the predictive insights system.
+ * into the predictive insights system. Models are trained from stored
+ * history by MLTrainingService, which publishes each trained model as a
+ * version in the ModelRegistry and restores the current versions at startup.
  *
  * @author VaxTrace Team
  * @version 2.0.0
@@ -31,6 +33,8 @@ import {
   createTransferLearningSystem,
   
   // Types
+  type MLModelType,
+  type ModelSnapshot,
   type TimeSeriesData,
   type AnomalyData,
   type ClassificationFeatures,
@@ -79,6 +83,7 @@ export interface MLModelStatus {
   ensembleModel: boolean;
   transferLearningEnabled: boolean;
   lastTrained: Date | null;
+  versions: { [modelName: string]: string };
 }
 
 export interface ConsumptionForecastResult {
@@ -434,6 +439,48 @@ export class MLModelService {
     this.logger.log(`Set ${name} to version ${version}`);
   }
 
+  /**
+   * Register the trained model as a new current version and export it for storage
+   */
+  publishModel(name: MLModelType, version: string, metrics: any): ModelSnapshot {
+    const model = this.getTrainedModel(name);
+    if (!model) {
+      throw new Error(`Model ${name} has not been trained`);
+    }
+
+    this.modelRegistry.registerModel(name, version, model, metrics);
+    this.modelRegistry.setCurrentVersion(name, version);
+    this.logger.log(`Published model ${name} version ${version}`);
+
+    return this.modelRegistry.exportModel(name, version);
+  }
+
+  /**
+   * Restore a stored model version as the current model
+   */
+  restoreModel(snapshot: ModelSnapshot, trainedAt: Date): void {
+    const model = this.modelRegistry.importModel(snapshot);
+
+    switch (snapshot.model.type) {
+      case 'ets':
+        this.etsModel = model as ExponentialSmoothingModel;
+        break;
+      case 'isolation-forest':
+        this.isolationForest = model as IsolationForest;
+        break;
+      case 'random-forest':
+        this.randomForest = model as RandomForestClassifier;
+        break;
+      case 'lstm':
+        this.lstmModel = model as LSTMNetwork;
+        break;
+    }
+
+    this.lastTrained = this.lastTrained && this.lastTrained > trainedAt ? this.lastTrained : trainedAt;
+    this.currentPhase = snapshot.model.type === 'lstm' ? 3 : ((this.currentPhase >= 2 ? this.currentPhase : 2) as 1 | 2 | 3);
+    this.logger.log(`Restored model ${snapshot.name} version ${snapshot.version}`);
+  }
+
   /**
    * Compare model versions
    */
@@ -488,6 +535,7 @@ export class MLModelService {
       ensembleModel: this.ensemblePredictor !== null,
       transferLearningEnabled: this.transferLearning !== null,
       lastTrained: this.lastTrained,
+      versions: this.modelRegistry.getCurrentVersions(),
     };
   }
 
@@ -505,6 +553,26 @@ export class MLModelService {
   // PRIVATE METHODS
   // ============================================
 
+  /**
+   * Trained model of a type, if any
+   */
+  private getTrainedModel(
+    name: MLModelType
+  ): ExponentialSmoothingModel | IsolationForest | RandomForestClassifier | LSTMNetwork | null {
+    switch (name) {
+      case 'ets':
+        return this.etsModel;
+      case 'isolation-forest':
+        return this.isolationForest;
+      case 'random-forest':
+        return this.randomForest;
+      case 'lstm':
+        return this.lstmModel;
+      default:
+        return null;
+    }
+  }
+
   /**
    * Rule-based classification fallback
    */
@@ -0,0 +1,180 @@
+/**
+ * VaxTrace Nigeria - ML Training Service Unit Tests
+ *
+ * Tests that models are:
+ * - Trained from the consumption recorded in stock_ledger
+ * - Published and stored as the new current version
+ * - Skipped when there is not enough history
+ * - Restored from the stored current versions at startup
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { MLModel } from '../../entities/ml-model.entity';
+import { MLModelService } from './ml-model.service';
+import { MLTrainingService } from './ml-training.service';
+import { ExponentialSmoothingModel, serializeModel } from './algorithms/ml-algorithms';
+
+describe('MLTrainingService', () => {
+  let service: MLTrainingService;
+  let mlModelService: MLModelService;
+  let mockDataSource: any;
+  let mockManagerRepository: any;
+  let mockMLModelRepository: any;
+
+  // Daily consumption on every other day from 1 January to 28 February
+  const consumptionRows = () => {
+    const rows = [];
+    for (let day = new Date('2026-01-01'); day < new Date('2026-03-01'); day.setUTCDate(day.getUTCDate() + 2)) {
+      rows.push({ date: day.toISOString().slice(0, 10), consumed: String(100 + (day.getUTCDate() % 7) * 10) });
+    }
+    return rows;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-01T02:00:00Z'));
+
+    mockManagerRepository = {
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (row) => row),
+    };
+    mockDataSource = {
+      query: jest.fn().mockResolvedValue([]),
+      transaction: jest.fn(async (work) => work({ getRepository: jest.fn(() => mockManagerRepository) })),
+    };
+    mockMLModelRepository = { find: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MLTrainingService,
+        MLModelService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: getRepositoryToken(MLModel), useValue: mockMLModelRepository },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<MLTrainingService>(MLTrainingService);
+    mlModelService = module.get<MLModelService>(MLModelService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Training', () => {
+    it('should train ETS on daily ledger consumption and store it as the current version', async () => {
+      mockDataSource.query.mockResolvedValue(consumptionRows());
+
+      const [summary] = await service.trainModels({ trigger: 'manual', models: ['ets'], userId: 'user-1' });
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(expect.stringContaining('FROM stock_ledger'), [
+        '2025-03-01',
+        '2026-03-01',
+      ]);
+      expect(summary).toEqual({
+        name: 'ets',
+        trained: true,
+        version: '20260301T020000',
+        metrics: expect.objectContaining({ dataPoints: 59, holdout: 14, mae: expect.any(Number) }),
+      });
+      expect(mockManagerRepository.update).toHaveBeenCalledWith({ name: 'ets', isCurrent: true }, { isCurrent: false });
+      expect(mockManagerRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'ets',
+          version: '20260301T020000',
+          model: { type: 'ets', state: expect.objectContaining({ period: 7 }) },
+          dataPoints: 59,
+          isCurrent: true,
+          trainedBy: 'user-1',
+        }),
+      );
+      expect(mlModelService.getModelStatus()).toEqual(
+        expect.objectContaining({ etsModel: true, versions: { ets: '20260301T020000' } }),
+      );
+    });
+
+    it('should skip a model without enough history', async () => {
+      mockDataSource.query.mockResolvedValue(consumptionRows().slice(-3));
+
+      const summaries = await service.trainModels({ trigger: 'scheduled', models: ['ets', 'random-forest'] });
+
+      expect(summaries).toEqual([
+        { name: 'ets', trained: false, reason: 'Needs 14 days of consumption history, found 5' },
+        { name: 'random-forest', trained: false, reason: 'Needs 30 logistics metric periods, found 3' },
+      ]);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+      expect(mlModelService.getModelStatus().etsModel).toBe(false);
+    });
+
+    it('should label logistics periods by their stockout and wastage outcome', async () => {
+      const periods = Array.from({ length: 40 }, (_, i) => ({
+        wastage_rate_pct: i % 4 === 2 ? '15.00' : '2.00',
+        stockout_duration_days: i % 4 === 0 ? 10 : i % 4 === 1 ? 3 : 0,
+        previous_wastage: '2.00',
+        quantity_on_hand: i % 4 === 0 ? 20 : 500,
+        consumed: '300',
+      }));
+      mockDataSource.query.mockResolvedValue(periods);
+
+      const [summary] = await service.trainModels({ trigger: 'manual', models: ['random-forest'] });
+
+      expect(mockDataSource.query).toHaveBeenCalledWith(expect.stringContaining('FROM logistics_metrics m'), [
+        '2025-03-01',
+        '2026-03-01',
+        30,
+      ]);
+      expect(summary).toEqual(
+        expect.objectContaining({
+          trained: true,
+          metrics: expect.objectContaining({ dataPoints: 40, holdout: 8, accuracy: expect.any(Number) }),
+        }),
+      );
+      expect(mlModelService.classifyRisk({
+        currentStock: 20,
+        avgDailyConsumption: 10,
+        daysUntilStockout: 2,
+        expiryRisk: 2,
+        capacityUtilization: 0,
+        temperatureDeviation: 0,
+        dataQuality: 100,
+        seasonalityFactor: 1,
+      }).probabilities.CRITICAL).toBeGreaterThan(0);
+    });
+
+    it('should not start a second run while one is in progress', async () => {
+      let release: (rows: any[]) => void;
+      mockDataSource.query.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+      const running = service.trainModels({ trigger: 'scheduled', models: ['ets'] });
+
+      await expect(service.trainModels({ trigger: 'manual' })).rejects.toThrow(ConflictException);
+      release([]);
+      await running;
+    });
+  });
+
+  describe('Startup', () => {
+    it('should restore the stored current versions and skip unreadable ones', async () => {
+      const model = new ExponentialSmoothingModel();
+      model.fit(consumptionRows().map((row) => ({ date: new Date(row.date), value: Number(row.consumed) })));
+      mockMLModelRepository.find.mockResolvedValue([
+        { name: 'ets', version: 'v1', model: serializeModel(model), metrics: {}, trainedAt: new Date('2026-02-01') },
+        { name: 'lstm', version: 'v1', model: { type: 'unknown', state: {} }, metrics: {}, trainedAt: new Date('2026-02-01') },
+      ]);
+
+      await expect(service.loadCurrentModels()).resolves.toBe(1);
+
+      expect(mockMLModelRepository.find).toHaveBeenCalledWith({ where: { isCurrent: true } });
+      expect(mlModelService.getModelStatus()).toEqual(
+        expect.objectContaining({ etsModel: true, lstmModel: false, versions: { ets: 'v1' } }),
+      );
+      expect(mlModelService.forecastConsumption(7).method).toBe('ets');
+    });
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * VaxTrace Nigeria - ML Training Service
+ *
+ * Trains the predictive insights models from stored history instead of
+ * request bodies:
+ * - ETS and LSTM: national daily consumption (issues and negative
+ *   adjustments in stock_ledger)
+ * - Isolation Forest: daily consumption per facility and vaccine
+ * - Random Forest: logistics_metrics periods, labelled by their stockout
+ *   and wastage outcome, with the stock and consumption recorded in
+ *   stock_ledger before each period as features
+ *
+ * Forecasting models are evaluated on the most recent days and the
+ * classifier on the most recent periods before the final fit on the whole
+ * window. Every trained model is published as a new version in the
+ * ModelRegistry and stored in ml_models as the current version, which is
+ * restored at startup. Training runs nightly and on demand.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { ConflictException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+
+import { MLModel } from '../../entities/ml-model.entity';
+import { MLModelService, ModelTrainingConfig } from './ml-model.service';
+import {
+  ExponentialSmoothingModel,
+  RandomForestClassifier,
+  calculateForecastErrors,
+  createLSTMForecaster,
+  type AnomalyData,
+  type ClassificationFeatures,
+  type MLModelType,
+  type SerializedModel,
+  type TimeSeriesData,
+} from './algorithms/ml-algorithms';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+export type TrainingTrigger = 'scheduled' | 'manual';
+
+export interface TrainingOptions {
+  trigger: TrainingTrigger;
+  /** Models to train (default: all) */
+  models?: MLModelType[];
+  /** Days of history to train on (default: 365) */
+  lookbackDays?: number;
+  config?: ModelTrainingConfig;
+  /** User who requested a manual run */
+  userId?: string;
+}
+
+export interface ModelMetrics {
+  dataPoints: number;
+  holdout?: number;
+  mae?: number;
+  mape?: number;
+  accuracy?: number;
+  anomalyRate?: number;
+}
+
+export interface TrainedModelSummary {
+  name: MLModelType;
+  trained: boolean;
+  version?: string;
+  metrics?: ModelMetrics;
+  reason?: string;
+}
+
+interface TrainingWindow {
+  from: string;
+  to: string;
+}
+
+type TrainingOutcome = { metrics: ModelMetrics } | { reason: string };
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TRAINING_JOB = 'ml-training';
+const ALL_MODELS: MLModelType[] = ['ets', 'isolation-forest', 'random-forest', 'lstm'];
+
+const DEFAULT_LOOKBACK_DAYS = 365;
+const FORECAST_HOLDOUT_DAYS = 14;
+const CLASSIFIER_HOLDOUT_SHARE = 0.2;
+const MIN_TRAINING_SAMPLES = 30;
+const MAX_ANOMALY_SAMPLES = 50000;
+const CONSUMPTION_LOOKBACK_DAYS = 30;
+const MAX_DAYS_UNTIL_STOCKOUT = 365;
+const LSTM_LOOKBACK = 30;
+
+export const MODEL_LABELS: Record<MLModelType, string> = {
+  ets: 'ETS',
+  'isolation-forest': 'Isolation Forest',
+  'random-forest': 'Random Forest',
+  lstm: 'LSTM',
+};
+
+// Issues and negative adjustments; losses are wastage, not consumption
+const CONSUMPTION_FILTER = `quantity < 0 AND transaction_type IN ('issue', 'adjustment')`;
+
+// ============================================
+// ML TRAINING SERVICE
+// ============================================
+
+@Injectable()
+export class MLTrainingService implements OnModuleInit {
+  private readonly logger = new Logger(MLTrainingService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(MLModel)
+    private readonly mlModelRepository: Repository<MLModel>,
+    private readonly mlModelService: MLModelService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.loadCurrentModels();
+  }
+
+  // ============================================
+  // SCHEDULED RUN
+  // ============================================
+
+  /**
+   * Retrain every model nightly on the latest history
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_2AM, { name: TRAINING_JOB })
+  async handleScheduledTraining(): Promise<void> {
+    try {
+      await this.trainModels({ trigger: 'scheduled' });
+    } catch (error) {
+      // Don't throw - the current versions stay in use until the next run
+      this.logger.warn(`Scheduled training not run: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Restore the current version of every stored model
+   */
+  async loadCurrentModels(): Promise<number> {
+    let rows: MLModel[];
+    try {
+      rows = await this.mlModelRepository.find({ where: { isCurrent: true } });
+    } catch (error) {
+      this.logger.warn(`Stored models not loaded: ${error.message}`);
+      return 0;
+    }
+
+    let restored = 0;
+    for (const row of rows) {
+      try {
+        this.mlModelService.restoreModel(
+          { name: row.name, version: row.version, model: row.model as SerializedModel, metrics: row.metrics },
+          new Date(row.trainedAt),
+        );
+        restored++;
+      } catch (error) {
+        this.logger.warn(`Model ${row.name} version ${row.version} not restored: ${error.message}`);
+      }
+    }
+
+    if (rows.length > 0) {
+      this.logger.log(`Restored ${restored} of ${rows.length} stored model(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Train the requested models on the stored history and publish each one
+   * trained as the new current version
+   */
+  async trainModels(options: TrainingOptions): Promise<TrainedModelSummary[]> {
+    if (this.isRunning) {
+      throw new ConflictException('ML model training is already running');
+    }
+
+    this.isRunning = true;
+    try {
+      const models = options.models?.length ? options.models : ALL_MODELS;
+      const window = this.getTrainingWindow(options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS);
+      const version = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+
+      this.logger.log(`Training ${models.join(', ')} on ${window.from} to ${window.to} (${options.trigger})`);
+
+      const summaries: TrainedModelSummary[] = [];
+      for (const name of models) {
+        summaries.push(await this.trainModel(name, version, window, options));
+      }
+
+      return summaries;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // ============================================
+  // TRAINING
+  // ============================================
+
+  private async trainModel(
+    name: MLModelType,
+    version: string,
+    window: TrainingWindow,
+    options: TrainingOptions,
+  ): Promise<TrainedModelSummary> {
+    try {
+      const outcome = await this.fitModel(name, window, options.config ?? {});
+      if ('reason' in outcome) {
+        this.logger.warn(`${MODEL_LABELS[name]} not trained: ${outcome.reason}`);
+        return { name, trained: false, reason: outcome.reason };
+      }
+
+      const snapshot = this.mlModelService.publishModel(name, version, outcome.metrics);
+
+      await this.dataSource.transaction(async (manager) => {
+        const repository = manager.getRepository(MLModel);
+        await repository.update({ name, isCurrent: true }, { isCurrent: false });
+        await repository.save(
+          repository.create({
+            name,
+            version,
+            model: snapshot.model,
+            metrics: outcome.metrics,
+            dataPoints: outcome.metrics.dataPoints,
+            trainingFrom: new Date(window.from),
+            trainingTo: new Date(window.to),
+            isCurrent: true,
+            trainedBy: options.userId ?? null,
+          }),
+        );
+      });
+
+      return { name, trained: true, version, metrics: outcome.metrics };
+    } catch (error) {
+      this.logger.error(`Error training ${MODEL_LABELS[name]}: ${error.message}`);
+      return { name, trained: false, reason: error.message };
+    }
+  }
+
+  private async fitModel(name: MLModelType, window: TrainingWindow, config: ModelTrainingConfig): Promise<TrainingOutcome> {
+    switch (name) {
+      case 'ets':
+        return this.trainETS(window, config.ets);
+      case 'lstm':
+        return this.trainLSTM(window, config.lstm);
+      case 'isolation-forest':
+        return this.trainIsolationForest(window, config.isolationForest);
+      case 'random-forest':
+        return this.trainRandomForest(window, config.randomForest);
+    }
+  }
+
+  private async trainETS(window: TrainingWindow, config: ModelTrainingConfig['ets'] = {}): Promise<TrainingOutcome> {
+    const series = await this.getConsumptionSeries(window);
+    const period = config.period ?? 7;
+
+    if (series.length < period * 2) {
+      return { reason: `Needs ${period * 2} days of consumption history, found ${series.length}` };
+    }
+
+    let evaluation: Partial<ModelMetrics> = {};
+    if (series.length >= period * 2 + FORECAST_HOLDOUT_DAYS) {
+      const training = series.slice(0, -FORECAST_HOLDOUT_DAYS);
+      const holdout = series.slice(-FORECAST_HOLDOUT_DAYS).map((point) => point.value);
+
+      const model = new ExponentialSmoothingModel(config.alpha, config.beta, config.gamma, period);
+      model.fit(training);
+      evaluation = this.evaluateForecast(holdout, model.forecast(holdout.length));
+    }
+
+    this.mlModelService.trainETSModel(series, config);
+    return { metrics: { dataPoints: series.length, ...evaluation } };
+  }
+
+  private async trainLSTM(window: TrainingWindow, config: ModelTrainingConfig['lstm'] = {}): Promise<TrainingOutcome> {
+    const series = await this.getConsumptionSeries(window);
+
+    if (series.length <= LSTM_LOOKBACK + FORECAST_HOLDOUT_DAYS) {
+      return { reason: `Needs more than ${LSTM_LOOKBACK + FORECAST_HOLDOUT_DAYS} days of consumption history, found ${series.length}` };
+    }
+
+    const training = series.slice(0, -FORECAST_HOLDOUT_DAYS);
+    const holdout = series.slice(-FORECAST_HOLDOUT_DAYS).map((point) => point.value);
+    const model = await createLSTMForecaster(training, config);
+    const forecast = await model.forecast(
+      training.slice(-LSTM_LOOKBACK).map((point) => point.value),
+      holdout.length,
+    );
+
+    await this.mlModelService.trainLSTMModel(series, config);
+    return { metrics: { dataPoints: series.length, ...this.evaluateForecast(holdout, forecast) } };
+  }
+
+  private async trainIsolationForest(
+    window: TrainingWindow,
+    config: ModelTrainingConfig['isolationForest'] = {},
+  ): Promise<TrainingOutcome> {
+    const rows: Array<{ facility_id: string; vaccine_id: string; date: string; consumed: string }> = await this.dataSource.query(
+      `SELECT facility_id, vaccine_id, to_char(snapshot_date, 'YYYY-MM-DD') AS date, SUM(-quantity) AS consumed
+       FROM stock_ledger
+       WHERE ${CONSUMPTION_FILTER} AND snapshot_date >= $1 AND snapshot_date < $2
+       GROUP BY facility_id, vaccine_id, snapshot_date
+       ORDER BY snapshot_date DESC
+       LIMIT $3`,
+      [window.from, window.to, MAX_ANOMALY_SAMPLES],
+    );
+
+    if (rows.length < MIN_TRAINING_SAMPLES) {
+      return { reason: `Needs ${MIN_TRAINING_SAMPLES} facility consumption days, found ${rows.length}` };
+    }
+
+    const data: AnomalyData[] = rows.reverse().map((row) => ({
+      value: Number(row.consumed),
+      timestamp: new Date(row.date),
+      context: { facilityId: row.facility_id, vaccineId: row.vaccine_id },
+    }));
+
+    this.mlModelService.trainIsolationForest(data, config);
+    const { anomalyCount } = this.mlModelService.detectAnomalies(data, config.threshold);
+
+    return {
+      metrics: { dataPoints: data.length, anomalyRate: this.round((anomalyCount / data.length) * 100) },
+    };
+  }
+
+  private async trainRandomForest(
+    window: TrainingWindow,
+    config: ModelTrainingConfig['randomForest'] = {},
+  ): Promise<TrainingOutcome> {
+    const rows: Array<{
+      wastage_rate_pct: string | null;
+      stockout_duration_days: number | null;
+      previous_wastage: string | null;
+      quantity_on_hand: number | null;
+      consumed: string;
+    }> = await this.dataSource.query(
+      `SELECT m.wastage_rate_pct, m.stockout_duration_days,
+              LAG(m.wastage_rate_pct) OVER (
+                PARTITION BY m.facility_id, m.vaccine_id ORDER BY m.metric_period_start
+              ) AS previous_wastage,
+              stock.quantity_on_hand, usage.consumed
+       FROM logistics_metrics m
+       LEFT JOIN LATERAL (
+         SELECT l.quantity_on_hand
+         FROM stock_ledger l
+         WHERE l.facility_id = m.facility_id AND l.vaccine_id = m.vaccine_id
+           AND l.snapshot_date < m.metric_period_start
+         ORDER BY l.snapshot_date DESC, l.snapshot_time DESC
+         LIMIT 1
+       ) stock ON true
+       LEFT JOIN LATERAL (
+         SELECT COALESCE(SUM(-l.quantity), 0) AS consumed
+         FROM stock_ledger l
+         WHERE l.facility_id = m.facility_id AND l.vaccine_id = m.vaccine_id
+           AND l.quantity < 0 AND l.transaction_type IN ('issue', 'adjustment')
+           AND l.snapshot_date >= m.metric_period_start - $3::int AND l.snapshot_date < m.metric_period_start
+       ) usage ON true
+       WHERE m.facility_id IS NOT NULL AND m.vaccine_id IS NOT NULL
+         AND m.metric_period_start >= $1 AND m.metric_period_start < $2
+       ORDER BY m.metric_period_start`,
+      [window.from, window.to, CONSUMPTION_LOOKBACK_DAYS],
+    );
+
+    if (rows.length < MIN_TRAINING_SAMPLES) {
+      return { reason: `Needs ${MIN_TRAINING_SAMPLES} logistics metric periods, found ${rows.length}` };
+    }
+
+    const features: ClassificationFeatures[] = rows.map((row) => {
+      const currentStock = row.quantity_on_hand ?? 0;
+      const avgDailyConsumption = Number(row.consumed) / CONSUMPTION_LOOKBACK_DAYS;
+
+      return {
+        currentStock,
+        avgDailyConsumption,
+        daysUntilStockout:
+          avgDailyConsumption > 0
+            ? Math.min(MAX_DAYS_UNTIL_STOCKOUT, currentStock / avgDailyConsumption)
+            : MAX_DAYS_UNTIL_STOCKOUT,
+        expiryRisk: Number(row.previous_wastage ?? 0),
+        // Not recorded historically; constant so they do not bias the trees
+        capacityUtilization: 0,
+        temperatureDeviation: 0,
+        dataQuality: row.quantity_on_hand !== null ? 100 : 0,
+        seasonalityFactor: 1,
+      };
+    });
+    const labels = rows.map((row) => this.getRiskLabel(row.stockout_duration_days ?? 0, Number(row.wastage_rate_pct ?? 0)));
+
+    // Evaluate on the most recent periods
+    const split = Math.floor(rows.length * (1 - CLASSIFIER_HOLDOUT_SHARE));
+    const classifier = new RandomForestClassifier(config.numTrees, config.maxDepth, config.minSamplesSplit);
+    classifier.fit(features.slice(0, split), labels.slice(0, split));
+    const correct = features.slice(split).filter((sample, i) => classifier.predict(sample) === labels[split + i]).length;
+
+    this.mlModelService.trainRandomForest(features, labels, config);
+    return {
+      metrics: {
+        dataPoints: rows.length,
+        holdout: rows.length - split,
+        accuracy: this.round((correct / (rows.length - split)) * 100),
+      },
+    };
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  /**
+   * Whole days from the lookback to today (exclusive)
+   */
+  private getTrainingWindow(lookbackDays: number): TrainingWindow {
+    const to = new Date();
+    const from = new Date(to.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+    return { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+  }
+
+  /**
+   * National daily consumption from the first day with consumption, with
+   * days without consumption as zero
+   */
+  private async getConsumptionSeries(window: TrainingWindow): Promise<TimeSeriesData[]> {
+    const rows: Array<{ date: string; consumed: string }> = await this.dataSource.query(
+      `SELECT to_char(snapshot_date, 'YYYY-MM-DD') AS date, SUM(-quantity) AS consumed
+       FROM stock_ledger
+       WHERE ${CONSUMPTION_FILTER} AND snapshot_date >= $1 AND snapshot_date < $2
+       GROUP BY snapshot_date
+       ORDER BY snapshot_date`,
+      [window.from, window.to],
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const consumed = new Map(rows.map((row) => [row.date, Number(row.consumed)]));
+    const series: TimeSeriesData[] = [];
+    for (const day = new Date(rows[0].date); day < new Date(window.to); day.setUTCDate(day.getUTCDate() + 1)) {
+      series.push({ date: new Date(day), value: consumed.get(day.toISOString().slice(0, 10)) ?? 0 });
+    }
+
+    return series;
+  }
+
+  /**
+   * Error of a forecast against the held-out days
+   */
+  private evaluateForecast(actual: number[], forecast: number[]): Partial<ModelMetrics> {
+    const { mae, mape } = calculateForecastErrors(actual, forecast);
+
+    return {
+      holdout: actual.length,
+      mae: this.round(mae),
+      mape: this.round(mape ?? 0),
+      accuracy: this.round(Math.max(0, 100 - (mape ?? 0))),
+    };
+  }
+
+  /**
+   * Risk outcome of a logistics period
+   */
+  private getRiskLabel(stockoutDays: number, wastageRate: number): string {
+    if (stockoutDays >= 7) return 'CRITICAL';
+    if (stockoutDays > 0) return 'HIGH';
+    if (wastageRate > 10) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
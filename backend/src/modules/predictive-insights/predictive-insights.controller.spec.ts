@@ -0,0 +1,105 @@
+/**
+ * VaxTrace Nigeria - Predictive Insights Controller Tests
+ *
+ * Tests over HTTP, with the JwtMiddleware wiring of AppModule, that the ML
+ * administration endpoints (training, backtests, promotion):
+ * - Reach their services for system admins
+ * - Reject other roles and unauthenticated requests
+ */
+
+import { INestApplication, MiddlewareConsumer, Module, NestModule, VersioningType } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { sign } from 'jsonwebtoken';
+import request from 'supertest';
+
+import { AppModule } from '../app.module';
+import { PredictiveInsightsController } from './predictive-insights.controller';
+import { PredictiveInsightsService } from './predictive-insights.service';
+import { MLModelService } from './ml-model.service';
+import { MLTrainingService } from './ml-training.service';
+import { ForecastBacktestService } from './forecast-backtest.service';
+
+describe('PredictiveInsightsController', () => {
+  const secret = 'test-secret';
+  const backtestId = '0b6a2b43-1f1e-4c55-9a4e-3f2d8f0c7a10';
+
+  let app: INestApplication;
+  let mockTrainingService: { trainModels: jest.Mock };
+  let mockBacktestService: { runBacktest: jest.Mock; promoteBacktest: jest.Mock };
+
+  const token = (role: string) => `Bearer ${sign({ sub: 'user-1', email: 'admin@vaxtrace.ng', role }, secret)}`;
+
+  beforeEach(async () => {
+    mockTrainingService = { trainModels: jest.fn().mockResolvedValue([{ name: 'ets', trained: true }]) };
+    mockBacktestService = {
+      runBacktest: jest.fn().mockResolvedValue({ id: backtestId, winner: 'ets' }),
+      promoteBacktest: jest.fn().mockResolvedValue({ id: backtestId, winner: 'ets', isCurrent: true }),
+    };
+    const configService = { get: (key: string) => (key === 'JWT_SECRET' ? secret : undefined) };
+
+    @Module({
+      controllers: [PredictiveInsightsController],
+      providers: [
+        { provide: ConfigService, useValue: configService },
+        { provide: PredictiveInsightsService, useValue: {} },
+        { provide: MLModelService, useValue: {} },
+        { provide: MLTrainingService, useValue: mockTrainingService },
+        { provide: ForecastBacktestService, useValue: mockBacktestService },
+      ],
+    })
+    class TestModule implements NestModule {
+      configure(consumer: MiddlewareConsumer): void {
+        new AppModule(configService as unknown as ConfigService).configure(consumer);
+      }
+    }
+
+    const moduleRef = await Test.createTestingModule({ imports: [TestModule] }).compile();
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should let system admins train models', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/predictive-insights/ml/train')
+      .set('Authorization', token('system_admin'))
+      .send({ models: ['ets'] })
+      .expect(201);
+
+    expect(mockTrainingService.trainModels).toHaveBeenCalledWith(
+      expect.objectContaining({ trigger: 'manual', models: ['ets'], userId: 'user-1' }),
+    );
+  });
+
+  it('should let system admins run and promote backtests', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/predictive-insights/ml/backtest')
+      .set('Authorization', token('system_admin'))
+      .send({ horizonDays: 7 })
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/api/v1/predictive-insights/ml/backtest/${backtestId}/promote`)
+      .set('Authorization', token('system_admin'))
+      .expect(201);
+
+    expect(mockBacktestService.runBacktest).toHaveBeenCalledWith({ horizonDays: 7, userId: 'user-1' });
+    expect(mockBacktestService.promoteBacktest).toHaveBeenCalledWith(backtestId);
+  });
+
+  it('should reject other roles and requests without a token', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/predictive-insights/ml/train')
+      .set('Authorization', token('state_cold_chain_officer'))
+      .expect(403);
+    await request(app.getHttpServer()).post('/api/v1/predictive-insights/ml/backtest').expect(401);
+
+    expect(mockTrainingService.trainModels).not.toHaveBeenCalled();
+    expect(mockBacktestService.runBacktest).not.toHaveBeenCalled();
+  });
+});
@@ -10,27 +10,39 @@
  * - GET /api/v1/predictive-insights - Get predictive insights
  * - GET /api/v1/predictive-insights/facility/:id - Get insights by facility
  * - GET /api/v1/predictive-insights/product/:id - Get insights by product
- * - GET /api/v1/predictive-insights/aggregate/:facilityId/:productId - Get aggregated predictions
+ * - GET /api/v1/predictive-insights/aggregate/:facilityId/:productId - Get aggregated predictions and forecast
  * - GET /api/v1/predictive-insights/summary - Get summary statistics
  * - GET /api/v1/predictive-insights/ml/status - Get ML model status
- * - POST /api/v1/predictive-insights/ml/train - Train ML models
+ * - POST /api/v1/predictive-insights/ml/train - Train ML models from stored history
+ * - POST /api/v1/predictive-insights/ml/backtest - Backtest the consumption forecasting methods
+ * - POST /api/v1/predictive-insights/ml/backtest/:id/promote - Promote the winner of a backtest
  * - POST /api/v1/predictive-insights/ml/forecast - ML consumption forecast
  * - POST /api/v1/predictive-insights/ml/detect-anomalies - Detect anomalies
  * - POST /api/v1/predictive-insights/ml/classify - Classify risk level
  *
+ * All endpoints need a bearer token; training, backtests and promotion are
+ * restricted to system admins.
+ *
  * @author VaxTrace Team
  * @version 2.0.0
  */
 
-import { Controller, Get, Logger, Param, Query, Post, Body } from '@nestjs/common';
+import { Controller, Get, Logger, Param, ParseUUIDPipe, Query, Post, Body, Req, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
 
 import { PredictiveInsightsService } from './predictive-insights.service';
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { Audited } from '../audit/audit.interceptor';
 import { MLModelService } from './ml-model.service';
+import { MLTrainingService, MODEL_LABELS } from './ml-training.service';
+import { ForecastBacktestService } from './forecast-backtest.service';
 import {
   InsightQueryDto,
   InsightsResponseDto,
 } from './dto/insight.dto';
+import { TrainModelsDto, TrainModelsResponseDto } from './dto/ml-training.dto';
+import { BacktestResultDto, RunBacktestDto } from './dto/backtest.dto';
 
 // ============================================
 // CONTROLLER
@@ -44,6 +56,8 @@ export class PredictiveInsightsController {
   constructor(
     private readonly predictiveInsightsService: PredictiveInsightsService,
     private readonly mlModelService: MLModelService,
+    private readonly mlTrainingService: MLTrainingService,
+    private readonly forecastBacktestService: ForecastBacktestService,
   ) {
     this.logger.log('Predictive Insights Controller initialized with Phase 1-3 algorithms');
   }
@@ -152,12 +166,13 @@ export class PredictiveInsightsController {
 
   /**
    * Get aggregated predictions for a facility-product combination
-   * Returns stockout, expiry, and cold chain predictions together
+   * Returns stockout, expiry, and cold chain predictions together with the
+   * reconciled consumption forecast
    */
   @Get('aggregate/:facilityId/:productId')
   @ApiOperation({
     summary: 'Get aggregated predictions',
-    description: 'Retrieve comprehensive predictions (stockout, expiry, cold chain) for a specific facility-product combination',
+    description: 'Retrieve comprehensive predictions (stockout, expiry, cold chain) for a specific facility-product combination, with its daily consumption forecast reconciled with the LGA, state and national forecasts and their backtest MAPE and bias',
   })
   @ApiResponse({
     status: 200,
@@ -203,6 +218,11 @@ export class PredictiveInsightsController {
           enum: ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'],
           description: 'Highest risk level across all predictions',
         },
+        forecast: {
+          type: 'object',
+          nullable: true,
+          description: 'Daily consumption forecast of the facility, LGA, state and country with backtest MAPE and bias (null until forecasts are generated)',
+        },
       },
     },
   })
@@ -213,7 +233,7 @@ export class PredictiveInsightsController {
   })
   @ApiParam({
     name: 'productId',
-    description: 'Product/Vaccine code',
+    description: 'Product/Vaccine code or ID',
     example: 'BCG',
   })
   async getAggregatedPredictions(
@@ -277,6 +297,11 @@ export class PredictiveInsightsController {
         ensembleModel: { type: 'boolean', description: 'Ensemble model trained' },
         transferLearningEnabled: { type: 'boolean', description: 'Transfer learning enabled' },
         lastTrained: { type: 'string', description: 'Last training timestamp' },
+        versions: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Current version of each trained model',
+        },
       },
     },
   })
@@ -307,143 +332,96 @@ export class PredictiveInsightsController {
   }
 
   /**
-   * Train ML models
+   * Train ML models from stored history
    */
   @Post('ml/train')
+  @UseGuards(RBACGuard)
+  @Roles('system_admin')
+  @Audited({ action: 'TRAIN', resource: 'ml_model' })
   @ApiOperation({
     summary: 'Train ML models',
-    description: 'Train specified ML models with provided data. Supports Phase 2 (ETS, Isolation Forest, Random Forest) and Phase 3 (LSTM) models.',
+    description: 'Train the specified models on consumption history from the stock ledger and logistics metrics, and publish each trained model as the new current version. Models are also retrained nightly.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Models trained successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        success: { type: 'boolean' },
-        message: { type: 'string' },
-        modelsTrained: { type: 'array', items: { type: 'string' } },
-      },
-    },
+    description: 'Training run completed',
+    type: TrainModelsResponseDto,
   })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        models: {
-          type: 'array',
-          items: { type: 'string', enum: ['ets', 'isolation-forest', 'random-forest', 'lstm'] },
-          description: 'Models to train',
-        },
-        consumptionData: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              date: { type: 'string', format: 'date-time' },
-              value: { type: 'number' },
-            },
-          },
-          description: 'Historical consumption data for ETS/LSTM',
-        },
-        anomalyData: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              value: { type: 'number' },
-              timestamp: { type: 'string', format: 'date-time' },
-            },
-          },
-          description: 'Stock movement data for Isolation Forest',
-        },
-        classificationData: {
-          type: 'object',
-          properties: {
-            features: {
-              type: 'array',
-              items: { type: 'object' },
-              description: 'Classification features',
-            },
-            labels: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Risk level labels',
-            },
-          },
-          description: 'Classification data for Random Forest',
-        },
-        config: {
-          type: 'object',
-          description: 'Optional model configuration',
-        },
-      },
-    },
+  @ApiResponse({
+    status: 409,
+    description: 'Training is already running',
   })
-  async trainModels(@Body() body: {
-    models: string[];
-    consumptionData?: Array<{ date: string; value: number }>;
-    anomalyData?: Array<{ value: number; timestamp: string }>;
-    classificationData?: { features: any[]; labels: string[] };
-    config?: any;
-  }) {
-    this.logger.log(`Training ML models: ${body.models.join(', ')}`);
-    const modelsTrained: string[] = [];
+  @ApiBody({ type: TrainModelsDto })
+  async trainModels(@Body() body: TrainModelsDto, @Req() req: ExtendedRequest): Promise<TrainModelsResponseDto> {
+    this.logger.log(`Training ML models: ${body.models?.join(', ') ?? 'all'}`);
 
-    try {
-      // Train ETS model
-      if (body.models.includes('ets') && body.consumptionData) {
-        const timeSeriesData = body.consumptionData.map(d => ({
-          date: new Date(d.date),
-          value: d.value,
-        }));
-        this.mlModelService.trainETSModel(timeSeriesData, body.config?.ets);
-        modelsTrained.push('ETS');
-      }
+    const models = await this.mlTrainingService.trainModels({
+      trigger: 'manual',
+      models: body.models,
+      lookbackDays: body.lookbackDays,
+      config: body.config,
+      userId: req.user?.id,
+    });
+    const modelsTrained = models.filter((model) => model.trained).map((model) => MODEL_LABELS[model.name]);
 
-      // Train Isolation Forest
-      if (body.models.includes('isolation-forest') && body.anomalyData) {
-        const anomalyData = body.anomalyData.map(d => ({
-          value: d.value,
-          timestamp: new Date(d.timestamp),
-        }));
-        this.mlModelService.trainIsolationForest(anomalyData, body.config?.isolationForest);
-        modelsTrained.push('Isolation Forest');
-      }
+    return {
+      success: modelsTrained.length === models.length,
+      message: `Successfully trained ${modelsTrained.length} model(s)`,
+      modelsTrained,
+      models,
+    };
+  }
 
-      // Train Random Forest
-      if (body.models.includes('random-forest') && body.classificationData) {
-        this.mlModelService.trainRandomForest(
-          body.classificationData.features,
-          body.classificationData.labels,
-          body.config?.randomForest
-        );
-        modelsTrained.push('Random Forest');
-      }
+  /**
+   * Backtest the consumption forecasting methods on stored history
+   */
+  @Post('ml/backtest')
+  @UseGuards(RBACGuard)
+  @Roles('system_admin')
+  @Audited({ action: 'BACKTEST', resource: 'ml_model' })
+  @ApiOperation({
+    summary: 'Backtest forecasting methods',
+    description: 'Replay consumption history with rolling-origin evaluation of the rule-based, ETS, LSTM and ensemble forecasts, and compare their accuracy per vaccine and state. Optionally promote the winning method for consumption forecasts.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Backtest completed',
+    type: BacktestResultDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A backtest is already running',
+  })
+  @ApiBody({ type: RunBacktestDto })
+  async runBacktest(@Body() body: RunBacktestDto, @Req() req: ExtendedRequest): Promise<BacktestResultDto> {
+    this.logger.log(`Backtesting forecasting methods over ${body.lookbackDays ?? 365} days`);
 
-      // Train LSTM
-      if (body.models.includes('lstm') && body.consumptionData) {
-        const timeSeriesData = body.consumptionData.map(d => ({
-          date: new Date(d.date),
-          value: d.value,
-        }));
-        await this.mlModelService.trainLSTMModel(timeSeriesData, body.config?.lstm);
-        modelsTrained.push('LSTM');
-      }
+    return this.forecastBacktestService.runBacktest({ ...body, userId: req.user?.id });
+  }
 
-      return {
-        success: true,
-        message: `Successfully trained ${modelsTrained.length} model(s)`,
-        modelsTrained,
-      };
-    } catch (error) {
-      this.logger.error(`Error training models: ${error.message}`);
-      return {
-        success: false,
-        message: error.message,
-        modelsTrained,
-      };
-    }
+  /**
+   * Promote the winner of a backtest
+   */
+  @Post('ml/backtest/:id/promote')
+  @UseGuards(RBACGuard)
+  @Roles('system_admin')
+  @Audited({ action: 'PROMOTE', resource: 'ml_model' })
+  @ApiOperation({
+    summary: 'Promote backtest winner',
+    description: 'Make the winning method of a backtest the current consumption forecasting method',
+  })
+  @ApiParam({ name: 'id', description: 'Backtest ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Winner promoted',
+    type: BacktestResultDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Backtest not found',
+  })
+  async promoteBacktest(@Param('id', ParseUUIDPipe) id: string): Promise<BacktestResultDto> {
+    return this.forecastBacktestService.promoteBacktest(id);
   }
 
   /**
@@ -11,14 +11,34 @@
  */
 
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { MLModel } from '../../entities/ml-model.entity';
+import { ConsumptionForecast } from '../../entities/consumption-forecast.entity';
+import { ForecastBacktest } from '../../entities/forecast-backtest.entity';
 import { PredictiveInsightsController } from './predictive-insights.controller';
 import { PredictiveInsightsService } from './predictive-insights.service';
 import { MLModelService } from './ml-model.service';
+import { MLTrainingService } from './ml-training.service';
+import { ConsumptionForecastService } from './consumption-forecast.service';
+import { ForecastBacktestService } from './forecast-backtest.service';
 
 @Module({
+  imports: [TypeOrmModule.forFeature([MLModel, ConsumptionForecast, ForecastBacktest])],
   controllers: [PredictiveInsightsController],
-  providers: [PredictiveInsightsService, MLModelService],
-  exports: [PredictiveInsightsService, MLModelService],
+  providers: [
+    PredictiveInsightsService,
+    MLModelService,
+    MLTrainingService,
+    ConsumptionForecastService,
+    ForecastBacktestService,
+  ],
+  exports: [
+    PredictiveInsightsService,
+    MLModelService,
+    MLTrainingService,
+    ConsumptionForecastService,
+    ForecastBacktestService,
+  ],
 })
 export class PredictiveInsightsModule {}
@@ -21,6 +21,8 @@ import {
   PredictiveInsightDto,
   InsightsResponseDto,
 } from './dto/insight.dto';
+import { FacilityProductForecastDto } from './dto/forecast.dto';
+import { ConsumptionForecastService } from './consumption-forecast.service';
 
 import {
   calculateStockoutPrediction,
@@ -274,7 +276,10 @@ export class PredictiveInsightsService {
   private lastCacheUpdate: Date | null = null;
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly consumptionForecastService: ConsumptionForecastService,
+  ) {
     this.logger.log('Predictive Insights Service initialized with Rule-Based Foundation');
     this.generateInsights();
   }
@@ -358,14 +363,20 @@ export class PredictiveInsightsService {
     facilityId: string,
     productId: string
   ): Promise<{
-    stockout: PredictionResult;
-    expiry: PredictionResult;
-    coldChain: PredictionResult;
-    overallRiskLevel: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+    stockout: PredictionResult | null;
+    expiry: PredictionResult | null;
+    coldChain: PredictionResult | null;
+    overallRiskLevel: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | null;
+    forecast: FacilityProductForecastDto | null;
   }> {
     const facility = this.getFacilityById(facilityId);
     const vaccineData = VACCINE_STOCK_DATA[productId];
+    const forecast = await this.consumptionForecastService.getFacilityForecast(facilityId, productId);
 
+    // Facilities and products without rule-based data still have their forecast
+    if ((!facility || !vaccineData) && forecast) {
+      return { stockout: null, expiry: null, coldChain: null, overallRiskLevel: null, forecast };
+    }
     if (!facility) {
       throw new Error(`Facility not found: ${facilityId}`);
     }
@@ -398,11 +409,14 @@ export class PredictiveInsightsService {
       currentTemperature: facility.currentTemperature,
     };
 
-    return generateAllPredictions({
-      stockData,
-      expiryData,
-      coldChainData,
-    });
+    return {
+      ...generateAllPredictions({
+        stockData,
+        expiryData,
+        coldChainData,
+      }),
+      forecast,
+    };
   }
 
   /**
@@ -0,0 +1,263 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger DTOs
+ *
+ * Data Transfer Objects for stock ledger history and loss adjustments
+ *
+ * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsIn,
+  IsUUID,
+  IsInt,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { StockLedgerReason } from '../../../entities/stock-ledger.entity';
+
+export { StockLedgerReason };
+
+// ============================================
+// ENUMS
+// ============================================
+
+export enum StockTransactionType {
+  RECEIPT = 'receipt',
+  ISSUE = 'issue',
+  ADJUSTMENT = 'adjustment',
+  LOSS = 'loss',
+}
+
+/**
+ * Reasons an officer can record a loss with; transfers are recorded by
+ * delivery confirmations and stock issues
+ */
+export const LOSS_REASONS = [
+  StockLedgerReason.DAMAGED,
+  StockLedgerReason.EXPIRED,
+  StockLedgerReason.VVM_DISCARD,
+  StockLedgerReason.LOST,
+];
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class StockLedgerQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by facility or LGA store ID' })
+  @IsOptional()
+  @IsUUID()
+  facilityId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by LGA location ID' })
+  @IsOptional()
+  @IsUUID()
+  lgaId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by state location ID' })
+  @IsOptional()
+  @IsUUID()
+  stateId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by vaccine ID' })
+  @IsOptional()
+  @IsUUID()
+  vaccineId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by vaccine (product) code', example: 'BCG' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by transaction type', enum: StockTransactionType })
+  @IsOptional()
+  @IsEnum(StockTransactionType)
+  transactionType?: StockTransactionType;
+
+  @ApiPropertyOptional({ description: 'Filter by reason code', enum: StockLedgerReason })
+  @IsOptional()
+  @IsEnum(StockLedgerReason)
+  reasonCode?: StockLedgerReason;
+
+  @ApiPropertyOptional({ description: 'Only entries on or after this date', example: '2026-10-01' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Only entries on or before this date', example: '2026-10-31' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Page number (1-based)', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class StockLossDto {
+  @ApiProperty({ description: 'Facility or LGA store holding the lot' })
+  @IsUUID()
+  facilityId: string;
+
+  @ApiProperty({ description: 'Vaccine (product) code', example: 'BCG' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Batch (lot) number', example: 'BCG-2024-0117' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Sanitize()
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Doses lost', example: 20, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ description: 'Reason of the loss', enum: LOSS_REASONS })
+  @IsIn(LOSS_REASONS)
+  reasonCode: StockLedgerReason;
+
+  @ApiPropertyOptional({ description: 'Notes, e.g. how the vials were damaged' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  @Sanitize()
+  notes?: string;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class StockLedgerEntryDto {
+  @ApiProperty({ description: 'Ledger entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Facility or LGA store ID' })
+  facilityId: string;
+
+  @ApiProperty({ description: 'Facility or LGA store name' })
+  facilityName: string;
+
+  @ApiProperty({ description: 'Vaccine ID' })
+  vaccineId: string;
+
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Vaccine name' })
+  vaccineName: string;
+
+  @ApiPropertyOptional({ description: 'Transaction type', enum: StockTransactionType })
+  transactionType?: string;
+
+  @ApiPropertyOptional({ description: 'Reason of a loss or transfer', enum: StockLedgerReason })
+  reasonCode?: StockLedgerReason;
+
+  @ApiPropertyOptional({ description: 'Source of the entry, e.g. delivery:<id> or issue:<id>' })
+  transactionReference?: string;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  notes?: string;
+
+  @ApiProperty({ description: 'Signed change in stock' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Stock on hand recorded with the entry' })
+  quantityOnHand: number;
+
+  @ApiProperty({ description: 'Stock on hand computed from all changes up to and including the entry' })
+  runningBalance: number;
+
+  @ApiProperty({
+    description:
+      'Recorded stock on hand minus the previous recorded stock on hand plus the change; ' +
+      'non-zero on the entry where a discrepancy entered the ledger',
+  })
+  variance: number;
+
+  @ApiPropertyOptional({ description: 'VVM stage' })
+  vvmStage?: number;
+
+  @ApiProperty({ description: 'Ledger date', example: '2026-10-19' })
+  snapshotDate: string;
+
+  @ApiProperty({ description: 'Time the entry was recorded' })
+  recordedAt: string;
+}
+
+export class StockLedgerResponseDto {
+  @ApiProperty({ description: 'Ledger entries, latest first', type: [StockLedgerEntryDto] })
+  data: StockLedgerEntryDto[];
+
+  @ApiProperty({ description: 'Number of entries in this page', example: 50 })
+  count: number;
+
+  @ApiProperty({ description: 'Total number of entries matching the filters', example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Current page (1-based)', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Page size', example: 50 })
+  limit: number;
+}
+
+export class StockLossResultDto {
+  @ApiProperty({ description: 'Reference of the ledger entry (loss:<id>)' })
+  transactionReference: string;
+
+  @ApiProperty({ description: 'Facility or LGA store ID' })
+  facilityId: string;
+
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Batch (lot) number' })
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Doses lost' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Doses of the lot left on hand' })
+  quantityOnHand: number;
+
+  @ApiProperty({ description: 'Stock on hand of the vaccine after the loss' })
+  stockOnHand: number;
+
+  @ApiProperty({ description: 'Reason of the loss', enum: StockLedgerReason })
+  reasonCode: StockLedgerReason;
+
+  @ApiProperty({ description: 'Time of the loss' })
+  recordedAt: string;
+}
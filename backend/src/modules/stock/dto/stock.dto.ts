@@ -0,0 +1,307 @@
+/**
+ * VaxTrace Nigeria - Stock DTOs
+ *
+ * Data Transfer Objects for lot-level stock queries, FEFO issue
+ * recommendations and stock issues
+ *
+ * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  IsOptional,
+  IsString,
+  IsBoolean,
+  IsNotEmpty,
+  IsInt,
+  IsUUID,
+  MaxLength,
+  Min,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+
+// ============================================
+// ENUMS
+// ============================================
+
+/**
+ * Why a lot was picked for an issue
+ */
+export enum FefoPickReason {
+  VVM_STAGE_3 = 'vvm_stage_3',
+  EARLIEST_EXPIRY = 'earliest_expiry',
+}
+
+/**
+ * Why a lot with doses on hand cannot be issued
+ */
+export enum FefoExclusionReason {
+  VVM_STAGE_4 = 'vvm_stage_4',
+  EXPIRED = 'expired',
+  QUARANTINED = 'quarantined',
+}
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+/**
+ * Converts 'true' / 'false' query strings into booleans
+ */
+const toBoolean = ({ value }: { value: any }) => {
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  return undefined;
+};
+
+export class FacilityLotsQueryDto {
+  @ApiPropertyOptional({ description: 'Only lots of this vaccine', example: 'BCG' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode?: string;
+
+  @ApiPropertyOptional({ description: 'Include lots with no doses left', default: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeEmpty?: boolean;
+}
+
+export class FefoRequestItemDto {
+  @ApiProperty({ description: 'Vaccine (product) code', example: 'BCG' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Doses requested', example: 500, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class FefoRequestDto {
+  @ApiProperty({ description: 'Doses requested per vaccine', type: [FefoRequestItemDto] })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => FefoRequestItemDto)
+  items: FefoRequestItemDto[];
+}
+
+export class IssueLineDto {
+  @ApiProperty({ description: 'Vaccine (product) code', example: 'BCG' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Sanitize()
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Batch (lot) number to issue from', example: 'BCG-2024-0117' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Sanitize()
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Doses issued from the lot', example: 200, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class IssueStockDto {
+  @ApiPropertyOptional({ description: 'Facility receiving the doses' })
+  @IsOptional()
+  @IsUUID()
+  destinationFacilityId?: string;
+
+  @ApiProperty({ description: 'Lots issued; usually the picks of a FEFO recommendation', type: [IssueLineDto] })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => IssueLineDto)
+  lines: IssueLineDto[];
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class ProductBatchDto {
+  @ApiProperty({ description: 'Lot register entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Batch (lot) number' })
+  batchNumber: string;
+
+  @ApiPropertyOptional({ description: 'GS1 Global Trade Item Number' })
+  gtin?: string;
+
+  @ApiProperty({ description: 'Lot expiry date', example: '2027-06-30' })
+  expiryDate: string;
+
+  @ApiProperty({ description: 'Days until expiry (negative once expired)' })
+  daysToExpiry: number;
+
+  @ApiPropertyOptional({ description: 'Current VVM stage (1-4)' })
+  vvmStage?: number;
+
+  @ApiProperty({ description: 'Doses of the lot on hand' })
+  quantityOnHand: number;
+
+  @ApiProperty({ description: 'Lot is quarantined and must not be issued' })
+  isQuarantined: boolean;
+
+  @ApiPropertyOptional({ description: 'Time of the stock count the quantity comes from' })
+  lastCountedAt?: string;
+}
+
+export class VaccineLotsDto {
+  @ApiProperty({ description: 'Vaccine ID' })
+  vaccineId: string;
+
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Vaccine name' })
+  vaccineName: string;
+
+  @ApiProperty({ description: 'Stock on hand: sum of the lot quantities' })
+  stockOnHand: number;
+
+  @ApiPropertyOptional({ description: 'Earliest expiry among lots with doses on hand' })
+  nextExpiryDate?: string;
+
+  @ApiProperty({ type: [ProductBatchDto], description: 'Lots, earliest expiry first' })
+  lots: ProductBatchDto[];
+}
+
+export class FacilityLotsDto {
+  @ApiProperty({ description: 'Facility ID' })
+  facilityId: string;
+
+  @ApiProperty({ description: 'Facility name' })
+  facilityName: string;
+
+  @ApiProperty({ type: [VaccineLotsDto] })
+  vaccines: VaccineLotsDto[];
+}
+
+export class FefoPickDto {
+  @ApiProperty({ description: 'Batch (lot) number' })
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Lot expiry date', example: '2027-06-30' })
+  expiryDate: string;
+
+  @ApiProperty({ description: 'Days until expiry' })
+  daysToExpiry: number;
+
+  @ApiPropertyOptional({ description: 'Current VVM stage (1-3)' })
+  vvmStage?: number;
+
+  @ApiProperty({ description: 'Doses of the lot on hand' })
+  quantityOnHand: number;
+
+  @ApiProperty({ description: 'Doses to issue from the lot' })
+  quantity: number;
+
+  @ApiProperty({ enum: FefoPickReason, description: 'Why the lot is issued before the next one' })
+  reason: FefoPickReason;
+}
+
+export class FefoExcludedLotDto {
+  @ApiProperty({ description: 'Batch (lot) number' })
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Lot expiry date', example: '2027-06-30' })
+  expiryDate: string;
+
+  @ApiPropertyOptional({ description: 'Current VVM stage (1-4)' })
+  vvmStage?: number;
+
+  @ApiProperty({ description: 'Doses of the lot on hand' })
+  quantityOnHand: number;
+
+  @ApiProperty({ enum: FefoExclusionReason })
+  reason: FefoExclusionReason;
+}
+
+export class FefoItemRecommendationDto {
+  @ApiProperty({ description: 'Vaccine ID' })
+  vaccineId: string;
+
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Vaccine name' })
+  vaccineName: string;
+
+  @ApiProperty({ description: 'Doses requested' })
+  requestedQuantity: number;
+
+  @ApiProperty({ description: 'Doses covered by the picks' })
+  allocatedQuantity: number;
+
+  @ApiProperty({ description: 'Doses the issuing store cannot cover' })
+  shortfall: number;
+
+  @ApiProperty({ type: [FefoPickDto], description: 'Lots to issue, in issue order' })
+  picks: FefoPickDto[];
+
+  @ApiProperty({ type: [FefoExcludedLotDto], description: 'Lots with doses on hand that must not be issued' })
+  excluded: FefoExcludedLotDto[];
+}
+
+export class FefoRecommendationDto {
+  @ApiProperty({ description: 'Issuing facility or LGA store ID' })
+  facilityId: string;
+
+  @ApiProperty({ description: 'Issuing facility or LGA store name' })
+  facilityName: string;
+
+  @ApiProperty({ type: [FefoItemRecommendationDto] })
+  items: FefoItemRecommendationDto[];
+}
+
+export class IssuedLotDto {
+  @ApiProperty({ description: 'Vaccine code' })
+  vaccineCode: string;
+
+  @ApiProperty({ description: 'Batch (lot) number' })
+  batchNumber: string;
+
+  @ApiProperty({ description: 'Doses issued' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Doses of the lot left on hand' })
+  quantityOnHand: number;
+}
+
+export class StockIssueDto {
+  @ApiProperty({ description: 'Issue ID; the ledger entries reference it as issue:<id>' })
+  issueId: string;
+
+  @ApiProperty({ description: 'Issuing facility or LGA store ID' })
+  facilityId: string;
+
+  @ApiPropertyOptional({ description: 'Facility receiving the doses' })
+  destinationFacilityId?: string;
+
+  @ApiProperty({ description: 'Time of the issue' })
+  issuedAt: string;
+
+  @ApiProperty({ type: [IssuedLotDto] })
+  lines: IssuedLotDto[];
+}
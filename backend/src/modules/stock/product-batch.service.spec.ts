@@ -0,0 +1,138 @@
+/**
+ * VaxTrace Nigeria - Product Batch Service Unit Tests
+ *
+ * Tests that the facility lot register:
+ * - Records counted lots, keeping the VVM stage when the count has none
+ * - Reports stock on hand as the sum over lots, earliest expiry first
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { StockSnapshot } from '../../entities/stock-snapshot.entity';
+import { ProductBatchService } from './product-batch.service';
+
+describe('ProductBatchService', () => {
+  let service: ProductBatchService;
+  let mockBatchRepository: any;
+  let mockLocationRepository: any;
+  let mockQueryBuilder: any;
+
+  const bcg = { id: 'vaccine-bcg', code: 'BCG', name: 'BCG Vaccine' };
+  const opv = { id: 'vaccine-opv', code: 'OPV', name: 'Oral Polio Vaccine' };
+
+  const batch = (overrides: Partial<ProductBatch>): ProductBatch =>
+    ({
+      id: 'batch-1',
+      facilityId: 'facility-1',
+      vaccineId: bcg.id,
+      vaccine: bcg,
+      batchNumber: 'BCG-A',
+      expiryDate: '2027-01-31',
+      vvmStageCurrent: 1,
+      quantityOnHand: 100,
+      isQuarantined: false,
+      lastCountedAt: new Date('2026-10-19T08:00:00Z'),
+      ...overrides,
+    }) as unknown as ProductBatch;
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    mockBatchRepository = {
+      upsert: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    };
+
+    mockLocationRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: 'facility-1', name: 'Garki PHC', type: LocationType.FACILITY }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductBatchService,
+        { provide: getRepositoryToken(ProductBatch), useValue: mockBatchRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+      ],
+    }).compile();
+
+    service = module.get<ProductBatchService>(ProductBatchService);
+  });
+
+  describe('Recording lots', () => {
+    it('should upsert each counted lot on facility, vaccine and batch number', async () => {
+      const manager = { getRepository: jest.fn(() => mockBatchRepository) } as any;
+      const lots = [
+        { facilityId: 'facility-1', vaccineId: bcg.id, lotNumber: 'BCG-A', expiryDate: '2027-01-31', quantityOnHand: 80, vvmStage: 2 },
+        { facilityId: 'facility-1', vaccineId: bcg.id, lotNumber: 'BCG-B', expiryDate: '2027-06-30', quantityOnHand: -5 },
+        { facilityId: 'facility-1', vaccineId: bcg.id, lotNumber: null, quantityOnHand: 20 },
+      ] as unknown as StockSnapshot[];
+
+      await service.recordLots(manager, lots);
+
+      expect(mockBatchRepository.upsert).toHaveBeenCalledTimes(2);
+      expect(mockBatchRepository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ batchNumber: 'BCG-A', quantityOnHand: 80, vvmStageCurrent: 2 }),
+        ['facilityId', 'vaccineId', 'batchNumber'],
+      );
+      const [second] = mockBatchRepository.upsert.mock.calls[1];
+      expect(second).toEqual(expect.objectContaining({ batchNumber: 'BCG-B', quantityOnHand: 0 }));
+      expect(second).not.toHaveProperty('vvmStageCurrent');
+    });
+  });
+
+  describe('Facility lots', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should sum lots into stock on hand per vaccine', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        batch({ id: 'batch-1', batchNumber: 'BCG-A', expiryDate: '2026-11-18' as any, quantityOnHand: 40 }),
+        batch({ id: 'batch-2', batchNumber: 'BCG-B', expiryDate: '2027-06-30' as any, quantityOnHand: 160, vvmStageCurrent: 2 }),
+        batch({ id: 'batch-3', vaccineId: opv.id, vaccine: opv as any, batchNumber: 'OPV-7', quantityOnHand: 90 }),
+      ]);
+
+      const result = await service.getFacilityLots('facility-1');
+
+      expect(result.facilityName).toBe('Garki PHC');
+      expect(result.vaccines).toHaveLength(2);
+      expect(result.vaccines[0]).toEqual(
+        expect.objectContaining({ vaccineCode: 'BCG', stockOnHand: 200, nextExpiryDate: '2026-11-18' }),
+      );
+      expect(result.vaccines[0].lots.map((lot) => [lot.batchNumber, lot.daysToExpiry])).toEqual([
+        ['BCG-A', 30],
+        ['BCG-B', 254],
+      ]);
+      expect(result.vaccines[1]).toEqual(expect.objectContaining({ vaccineCode: 'OPV', stockOnHand: 90 }));
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('batch.quantityOnHand > 0');
+    });
+
+    it('should filter by vaccine and include empty lots on request', async () => {
+      await service.getFacilityLots('facility-1', { vaccineCode: 'BCG', includeEmpty: true });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('vaccine.code = :vaccineCode', { vaccineCode: 'BCG' });
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith('batch.quantityOnHand > 0');
+    });
+
+    it('should throw when the facility does not exist', async () => {
+      mockLocationRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getFacilityLots('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * VaxTrace Nigeria - Product Batch Service
+ *
+ * Maintains the lot register (`product_batches`, see
+ * 015_facility_product_batches.sql): quantity, expiry date and VVM stage of
+ * every lot held at a facility. Writers of stock snapshots (OpenLMIS sync,
+ * stock webhooks, delivery confirmations) record the lots they counted in
+ * the same transaction. Stock on hand is the sum over a facility's lots.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { StockSnapshot } from '../../entities/stock-snapshot.entity';
+import { FacilityLotsDto, FacilityLotsQueryDto, ProductBatchDto, VaccineLotsDto } from './dto/stock.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ProductBatchService {
+  constructor(
+    @InjectRepository(ProductBatch)
+    private readonly batchRepository: Repository<ProductBatch>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+  ) {}
+
+  /**
+   * Record the lots counted on a stock snapshot, in the caller's transaction
+   */
+  async recordLots(manager: EntityManager, lots: StockSnapshot[]): Promise<void> {
+    const batchRepository = manager.getRepository(ProductBatch);
+    const now = new Date();
+
+    for (const lot of lots) {
+      // Unlotted stock has no register entry; a lot needs its expiry date
+      if (!lot.lotNumber || !lot.expiryDate) {
+        continue;
+      }
+
+      await batchRepository.upsert(
+        {
+          facilityId: lot.facilityId,
+          vaccineId: lot.vaccineId,
+          batchNumber: lot.lotNumber,
+          expiryDate: lot.expiryDate,
+          quantityOnHand: Math.max(0, lot.quantityOnHand),
+          // Keep the last known stage when the count did not read the VVM
+          ...(lot.vvmStage != null && { vvmStageCurrent: lot.vvmStage }),
+          lastCountedAt: now,
+        },
+        ['facilityId', 'vaccineId', 'batchNumber'],
+      );
+    }
+  }
+
+  /**
+   * Lots held at a facility per vaccine, earliest expiry first
+   */
+  async getFacilityLots(facilityId: string, query: FacilityLotsQueryDto = {}): Promise<FacilityLotsDto> {
+    const facility = await this.locationRepository.findOne({
+      where: { id: facilityId, type: LocationType.FACILITY },
+    });
+
+    if (!facility) {
+      throw new NotFoundException(`Facility ${facilityId} not found`);
+    }
+
+    const qb = this.batchRepository
+      .createQueryBuilder('batch')
+      .innerJoinAndSelect('batch.vaccine', 'vaccine')
+      .where('batch.facilityId = :facilityId', { facilityId })
+      .orderBy('vaccine.code', 'ASC')
+      .addOrderBy('batch.expiryDate', 'ASC')
+      .addOrderBy('batch.batchNumber', 'ASC');
+
+    if (!query.includeEmpty) {
+      qb.andWhere('batch.quantityOnHand > 0');
+    }
+
+    if (query.vaccineCode) {
+      qb.andWhere('vaccine.code = :vaccineCode', { vaccineCode: query.vaccineCode });
+    }
+
+    const batches = await qb.getMany();
+    const vaccines = new Map<string, VaccineLotsDto>();
+
+    for (const batch of batches) {
+      let entry = vaccines.get(batch.vaccineId);
+
+      if (!entry) {
+        entry = {
+          vaccineId: batch.vaccineId,
+          vaccineCode: batch.vaccine.code,
+          vaccineName: batch.vaccine.name,
+          stockOnHand: 0,
+          lots: [],
+        };
+        vaccines.set(batch.vaccineId, entry);
+      }
+
+      const lot = this.toDto(batch);
+      entry.lots.push(lot);
+      entry.stockOnHand += lot.quantityOnHand;
+
+      if (lot.quantityOnHand > 0 && !entry.nextExpiryDate) {
+        entry.nextExpiryDate = lot.expiryDate;
+      }
+    }
+
+    return {
+      facilityId: facility.id,
+      facilityName: facility.name,
+      vaccines: [...vaccines.values()],
+    };
+  }
+
+  private toDto(batch: ProductBatch): ProductBatchDto {
+    const expiryDate = DateUtils.mixedDateToDateString(batch.expiryDate);
+    const today = DateUtils.mixedDateToDateString(new Date());
+
+    return {
+      id: batch.id,
+      batchNumber: batch.batchNumber,
+      gtin: batch.gtin ?? undefined,
+      expiryDate,
+      daysToExpiry: Math.round((Date.parse(expiryDate) - Date.parse(today)) / DAY_MS),
+      vvmStage: batch.vvmStageCurrent ?? undefined,
+      quantityOnHand: batch.quantityOnHand,
+      isQuarantined: batch.isQuarantined,
+      lastCountedAt: batch.lastCountedAt ? new Date(batch.lastCountedAt).toISOString() : undefined,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * VaxTrace Nigeria - Stock Issue Service Unit Tests
+ *
+ * Tests that FEFO recommendations:
+ * - Pick VVM stage 3 lots first, then the earliest expiry
+ * - Never pick VVM stage 4, expired or quarantined lots
+ * And that issues and losses take the doses off the lots, snapshots and ledger.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { StockLedger } from '../../entities/stock-ledger.entity';
+import { CacheService } from '../cache/cache.service';
+import { StockIssueService } from './stock-issue.service';
+import { StockSnapshotService } from './stock-snapshot.service';
+import { FefoExclusionReason, FefoPickReason } from './dto/stock.dto';
+import { StockLedgerReason } from './dto/stock-ledger.dto';
+
+describe('StockIssueService', () => {
+  let service: StockIssueService;
+  let mockBatchRepository: any;
+  let mockLocationRepository: any;
+  let mockSnapshotRepository: any;
+  let mockLedgerRepository: any;
+  let mockCacheService: any;
+
+  const state = { id: 'state-1', type: LocationType.STATE } as Location;
+  const store = { id: 'lga-1', name: 'AMAC Store', type: LocationType.LGA, parentId: 'state-1', parent: state } as Location;
+  const bcg = { id: 'vaccine-bcg', code: 'BCG', name: 'BCG Vaccine', minMonthsOfStock: 1, maxMonthsOfStock: 3 };
+
+  const batch = (overrides: Partial<ProductBatch>): ProductBatch =>
+    ({
+      facilityId: store.id,
+      vaccineId: bcg.id,
+      expiryDate: '2027-06-30',
+      vvmStageCurrent: 1,
+      quantityOnHand: 100,
+      isQuarantined: false,
+      ...overrides,
+    }) as unknown as ProductBatch;
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+
+    // Register order: earliest expiry first
+    mockBatchRepository = {
+      find: jest.fn().mockResolvedValue([
+        batch({ batchNumber: 'BCG-OLD', expiryDate: '2026-10-01' as any }),
+        batch({ batchNumber: 'BCG-A', expiryDate: '2026-12-31' as any, quantityOnHand: 50 }),
+        batch({ batchNumber: 'BCG-Q', expiryDate: '2027-01-31' as any, isQuarantined: true }),
+        batch({ batchNumber: 'BCG-V4', expiryDate: '2027-02-28' as any, vvmStageCurrent: 4 }),
+        batch({ batchNumber: 'BCG-V3', expiryDate: '2027-05-31' as any, vvmStageCurrent: 3, quantityOnHand: 30 }),
+        batch({ batchNumber: 'BCG-B', expiryDate: '2027-06-30' as any, quantityOnHand: 200 }),
+      ]),
+      save: jest.fn((entities) => Promise.resolve(entities)),
+    };
+
+    mockLocationRepository = {
+      findOne: jest.fn(({ where }) => Promise.resolve(where.id === store.id ? store : null)),
+    };
+
+    mockSnapshotRepository = {
+      findOne: jest.fn().mockResolvedValue({ snapshotDate: '2026-10-18' }),
+      find: jest.fn().mockResolvedValue([
+        { lotNumber: 'BCG-A', quantityOnHand: 50, averageMonthlyConsumption: 100, stockStatus: StockStatus.OPTIMAL },
+        { lotNumber: 'BCG-B', quantityOnHand: 200, averageMonthlyConsumption: 100, stockStatus: StockStatus.OPTIMAL },
+      ]),
+      create: jest.fn((entity) => entity),
+      save: jest.fn((entities) => Promise.resolve(entities)),
+    };
+
+    mockLedgerRepository = {
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const repositories = new Map<unknown, any>([
+      [ProductBatch, mockBatchRepository],
+      [StockSnapshot, mockSnapshotRepository],
+      [StockLedger, mockLedgerRepository],
+    ]);
+    const manager = { getRepository: jest.fn((entity) => repositories.get(entity)) };
+
+    mockCacheService = {
+      invalidateMapCache: jest.fn().mockResolvedValue(undefined),
+      invalidateFacilityStock: jest.fn().mockResolvedValue(undefined),
+      invalidateLGAStock: jest.fn().mockResolvedValue(undefined),
+      invalidateStateStock: jest.fn().mockResolvedValue(undefined),
+      publishInvalidation: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockIssueService,
+        { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+        { provide: getRepositoryToken(ProductBatch), useValue: mockBatchRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+        { provide: getRepositoryToken(Vaccine), useValue: { find: jest.fn().mockResolvedValue([bcg]) } },
+        { provide: CacheService, useValue: mockCacheService },
+        StockSnapshotService,
+      ],
+    }).compile();
+
+    service = module.get<StockIssueService>(StockIssueService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Recommendations', () => {
+    it('should pick VVM stage 3 lots first, then the earliest expiry', async () => {
+      const result = await service.recommend(store.id, { items: [{ vaccineCode: 'BCG', quantity: 120 }] });
+
+      const [item] = result.items;
+      expect(item.picks.map((pick) => [pick.batchNumber, pick.quantity, pick.reason])).toEqual([
+        ['BCG-V3', 30, FefoPickReason.VVM_STAGE_3],
+        ['BCG-A', 50, FefoPickReason.EARLIEST_EXPIRY],
+        ['BCG-B', 40, FefoPickReason.EARLIEST_EXPIRY],
+      ]);
+      expect(item.picks[1].daysToExpiry).toBe(73);
+      expect(item).toEqual(expect.objectContaining({ allocatedQuantity: 120, shortfall: 0 }));
+    });
+
+    it('should exclude VVM stage 4, expired and quarantined lots and report the shortfall', async () => {
+      const result = await service.recommend(store.id, { items: [{ vaccineCode: 'BCG', quantity: 500 }] });
+
+      const [item] = result.items;
+      expect(item.excluded.map((lot) => [lot.batchNumber, lot.reason])).toEqual([
+        ['BCG-OLD', FefoExclusionReason.EXPIRED],
+        ['BCG-Q', FefoExclusionReason.QUARANTINED],
+        ['BCG-V4', FefoExclusionReason.VVM_STAGE_4],
+      ]);
+      expect(item).toEqual(expect.objectContaining({ allocatedQuantity: 280, shortfall: 220 }));
+    });
+
+    it('should reject unknown vaccines', async () => {
+      await expect(service.recommend(store.id, { items: [{ vaccineCode: 'XYZ', quantity: 10 }] })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw when the issuing location does not exist', async () => {
+      await expect(service.recommend('missing', { items: [{ vaccineCode: 'BCG', quantity: 10 }] })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('Issues', () => {
+    it('should take the doses off the lots and today\'s snapshot and record an issue entry', async () => {
+      mockBatchRepository.find.mockResolvedValue([
+        batch({ batchNumber: 'BCG-A', quantityOnHand: 50 }),
+        batch({ batchNumber: 'BCG-B', quantityOnHand: 200, vvmStageCurrent: 2 }),
+      ]);
+
+      const result = await service.issue(store.id, {
+        lines: [
+          { vaccineCode: 'BCG', batchNumber: 'BCG-A', quantity: 50 },
+          { vaccineCode: 'BCG', batchNumber: 'BCG-B', quantity: 70 },
+        ],
+      });
+
+      expect(result.lines).toEqual([
+        { vaccineCode: 'BCG', batchNumber: 'BCG-A', quantity: 50, quantityOnHand: 0 },
+        { vaccineCode: 'BCG', batchNumber: 'BCG-B', quantity: 70, quantityOnHand: 130 },
+      ]);
+      expect(mockBatchRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+
+      const [snapshots] = mockSnapshotRepository.save.mock.calls[0];
+      expect(snapshots.map((lot) => [lot.lotNumber, lot.quantityOnHand, lot.monthsOfStock])).toEqual([
+        ['BCG-A', 0, 1.3],
+        ['BCG-B', 130, 1.3],
+      ]);
+      expect(snapshots[0].snapshotDate).toEqual(new Date('2026-10-19T12:00:00Z'));
+
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          facilityId: store.id,
+          lgaId: store.id,
+          stateId: 'state-1',
+          vaccineId: bcg.id,
+          quantity: -120,
+          quantityOnHand: 130,
+          vvmStage: 2,
+          transactionType: 'issue',
+          transactionReference: `issue:${result.issueId}`,
+        }),
+      );
+      expect(mockCacheService.invalidateLGAStock).toHaveBeenCalledWith(store.id);
+    });
+
+    it('should refuse lots that must not be issued or are short of doses', async () => {
+      mockBatchRepository.find.mockResolvedValue([batch({ batchNumber: 'BCG-V4', vvmStageCurrent: 4 })]);
+
+      await expect(
+        service.issue(store.id, { lines: [{ vaccineCode: 'BCG', batchNumber: 'BCG-V4', quantity: 10 }] }),
+      ).rejects.toThrow('cannot be issued: vvm_stage_4');
+
+      mockBatchRepository.find.mockResolvedValue([batch({ batchNumber: 'BCG-A', quantityOnHand: 5 })]);
+
+      await expect(
+        service.issue(store.id, { lines: [{ vaccineCode: 'BCG', batchNumber: 'BCG-A', quantity: 10 }] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLedgerRepository.insert).not.toHaveBeenCalled();
+    });
+
+    it('should record issues to a facility as transfers out', async () => {
+      const facility = { id: 'facility-1', type: LocationType.FACILITY } as Location;
+      mockLocationRepository.findOne.mockImplementation(({ where }) =>
+        Promise.resolve({ [store.id]: store, [facility.id]: facility }[where.id] ?? null),
+      );
+      mockBatchRepository.find.mockResolvedValue([batch({ batchNumber: 'BCG-A', quantityOnHand: 50 })]);
+
+      const result = await service.issue(store.id, {
+        destinationFacilityId: facility.id,
+        lines: [{ vaccineCode: 'BCG', batchNumber: 'BCG-A', quantity: 20 }],
+      });
+
+      expect(result.destinationFacilityId).toBe(facility.id);
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ transactionType: 'issue', reasonCode: 'transfer_out', quantity: -20 }),
+      );
+    });
+
+    it('should reject an unknown destination facility', async () => {
+      await expect(
+        service.issue(store.id, {
+          destinationFacilityId: 'missing',
+          lines: [{ vaccineCode: 'BCG', batchNumber: 'BCG-A', quantity: 10 }],
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('Losses', () => {
+    it('should discard doses of lots that cannot be issued', async () => {
+      mockBatchRepository.find.mockResolvedValue([
+        batch({ batchNumber: 'BCG-A', expiryDate: '2026-10-01' as any, quantityOnHand: 50 }),
+      ]);
+
+      const result = await service.recordLoss({
+        facilityId: store.id,
+        vaccineCode: 'BCG',
+        batchNumber: 'BCG-A',
+        quantity: 50,
+        reasonCode: StockLedgerReason.EXPIRED,
+        notes: 'Expired on the shelf',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ quantity: 50, quantityOnHand: 0, stockOnHand: 200, reasonCode: StockLedgerReason.EXPIRED }),
+      );
+      expect(mockLedgerRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          quantity: -50,
+          quantityOnHand: 200,
+          transactionType: 'loss',
+          transactionReference: result.transactionReference,
+          reasonCode: StockLedgerReason.EXPIRED,
+          notes: 'Expired on the shelf',
+        }),
+      );
+      expect(result.transactionReference).toMatch(/^loss:/);
+    });
+  });
+});
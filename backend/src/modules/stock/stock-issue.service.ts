@@ -0,0 +1,420 @@
+/**
+ * VaxTrace Nigeria - Stock Issue Service
+ *
+ * FEFO (first-expiry-first-out) issue recommendations and stock issues for
+ * facilities and LGA cold stores, from the lot register.
+ *
+ * A recommendation covers the requested doses per vaccine from the lots on
+ * hand: lots at VVM stage 3 first (use immediately), then earliest expiry.
+ * Lots at VVM stage 4, expired or quarantined lots are never picked.
+ *
+ * Issues and losses (damaged, expired, VVM discard, lost) are recorded in
+ * one transaction:
+ * - product_batches: the doses are taken off each lot
+ * - stock_snapshots: today's snapshot per lot (carried forward from the
+ *   latest snapshot date) with the quantities removed
+ * - stock_ledger: one 'issue' or 'loss' entry per vaccine with the new stock
+ *   on hand; issues to a facility are transfers out
+ *
+ * The receiving facility records the doses when it confirms the delivery.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, MoreThan, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+import { randomUUID } from 'crypto';
+
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { StockLedger, StockLedgerReason } from '../../entities/stock-ledger.entity';
+import { CacheService } from '../cache/cache.service';
+import {
+  FefoExclusionReason,
+  FefoItemRecommendationDto,
+  FefoPickReason,
+  FefoRecommendationDto,
+  FefoRequestDto,
+  IssuedLotDto,
+  IssueStockDto,
+  StockIssueDto,
+} from './dto/stock.dto';
+import { StockLossDto, StockLossResultDto, StockTransactionType } from './dto/stock-ledger.dto';
+import { StockSnapshotService } from './stock-snapshot.service';
+
+// ============================================
+// INTERFACES & TYPES
+// ============================================
+
+type LedgerEntry = Pick<StockLedger, 'transactionType' | 'transactionReference'> &
+  Partial<Pick<StockLedger, 'reasonCode' | 'notes'>>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Locations holding stock that can be issued
+const ISSUING_LOCATION_TYPES = [LocationType.FACILITY, LocationType.LGA];
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class StockIssueService {
+  private readonly logger = new Logger(StockIssueService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(ProductBatch)
+    private readonly batchRepository: Repository<ProductBatch>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    @InjectRepository(Vaccine)
+    private readonly vaccineRepository: Repository<Vaccine>,
+    private readonly cacheService: CacheService,
+    private readonly stockSnapshotService: StockSnapshotService,
+  ) {}
+
+  /**
+   * Recommend the lots to issue for the requested doses per vaccine
+   */
+  async recommend(facilityId: string, request: FefoRequestDto): Promise<FefoRecommendationDto> {
+    const store = await this.findIssuingLocation(facilityId);
+    const vaccines = await this.findVaccines(request.items.map((item) => item.vaccineCode));
+    const today = DateUtils.mixedDateToDateString(new Date());
+
+    const batches = await this.batchRepository.find({
+      where: { facilityId: store.id, vaccineId: In(vaccines.map((vaccine) => vaccine.id)), quantityOnHand: MoreThan(0) },
+      order: { expiryDate: 'ASC', batchNumber: 'ASC' },
+    });
+
+    const items = request.items.map((item): FefoItemRecommendationDto => {
+      const vaccine = vaccines.find((candidate) => candidate.code === item.vaccineCode);
+      const lots = batches.filter((batch) => batch.vaccineId === vaccine.id);
+      const recommendation: FefoItemRecommendationDto = {
+        vaccineId: vaccine.id,
+        vaccineCode: vaccine.code,
+        vaccineName: vaccine.name,
+        requestedQuantity: item.quantity,
+        allocatedQuantity: 0,
+        shortfall: 0,
+        picks: [],
+        excluded: [],
+      };
+
+      const eligible: ProductBatch[] = [];
+
+      for (const lot of lots) {
+        const reason = this.getExclusionReason(lot, today);
+
+        if (reason) {
+          recommendation.excluded.push({
+            batchNumber: lot.batchNumber,
+            expiryDate: DateUtils.mixedDateToDateString(lot.expiryDate),
+            vvmStage: lot.vvmStageCurrent ?? undefined,
+            quantityOnHand: lot.quantityOnHand,
+            reason,
+          });
+        } else {
+          eligible.push(lot);
+        }
+      }
+
+      // VVM 3 lots are close to their discard point: issue them before any expiry order
+      eligible.sort((a, b) => Number(b.vvmStageCurrent === 3) - Number(a.vvmStageCurrent === 3));
+
+      let remaining = item.quantity;
+
+      for (const lot of eligible) {
+        if (remaining <= 0) break;
+
+        const quantity = Math.min(remaining, lot.quantityOnHand);
+        const expiryDate = DateUtils.mixedDateToDateString(lot.expiryDate);
+
+        recommendation.picks.push({
+          batchNumber: lot.batchNumber,
+          expiryDate,
+          daysToExpiry: Math.round((Date.parse(expiryDate) - Date.parse(today)) / DAY_MS),
+          vvmStage: lot.vvmStageCurrent ?? undefined,
+          quantityOnHand: lot.quantityOnHand,
+          quantity,
+          reason: lot.vvmStageCurrent === 3 ? FefoPickReason.VVM_STAGE_3 : FefoPickReason.EARLIEST_EXPIRY,
+        });
+        remaining -= quantity;
+      }
+
+      recommendation.allocatedQuantity = item.quantity - remaining;
+      recommendation.shortfall = remaining;
+
+      return recommendation;
+    });
+
+    return { facilityId: store.id, facilityName: store.name, items };
+  }
+
+  /**
+   * Take issued lots off the store's stock and record the issue in the ledger
+   */
+  async issue(facilityId: string, request: IssueStockDto): Promise<StockIssueDto> {
+    const store = await this.findIssuingLocation(facilityId);
+    const vaccines = await this.findVaccines(request.lines.map((line) => line.vaccineCode));
+
+    let destination: Location | null = null;
+
+    if (request.destinationFacilityId) {
+      destination = await this.locationRepository.findOne({
+        where: { id: request.destinationFacilityId, type: LocationType.FACILITY },
+      });
+
+      if (!destination) {
+        throw new NotFoundException(`Facility ${request.destinationFacilityId} not found`);
+      }
+      if (destination.id === store.id) {
+        throw new BadRequestException('A facility cannot issue stock to itself');
+      }
+    }
+
+    const issueId = randomUUID();
+    const now = new Date();
+    const entry: LedgerEntry = {
+      transactionType: StockTransactionType.ISSUE,
+      transactionReference: `issue:${issueId}`,
+      reasonCode: destination ? StockLedgerReason.TRANSFER_OUT : undefined,
+    };
+
+    const lines = await this.dataSource.transaction(async (manager) => {
+      const issued: IssuedLotDto[] = [];
+
+      for (const vaccine of vaccines) {
+        const quantities = new Map<string, number>();
+
+        for (const line of request.lines.filter((candidate) => candidate.vaccineCode === vaccine.code)) {
+          quantities.set(line.batchNumber, (quantities.get(line.batchNumber) ?? 0) + line.quantity);
+        }
+
+        const { lots } = await this.removeLots(manager, store, vaccine, quantities, entry, now, true);
+        issued.push(...lots);
+      }
+
+      return issued;
+    });
+
+    this.logger.log(`Issue ${issueId}: ${lines.length} lots from ${store.id}${destination ? ` to ${destination.id}` : ''}`);
+
+    await this.invalidateStock(store);
+
+    return {
+      issueId,
+      facilityId: store.id,
+      destinationFacilityId: destination?.id,
+      issuedAt: now.toISOString(),
+      lines,
+    };
+  }
+
+  /**
+   * Record doses of a lot lost to damage, expiry, VVM discard or loss
+   */
+  async recordLoss(request: StockLossDto): Promise<StockLossResultDto> {
+    const store = await this.findIssuingLocation(request.facilityId);
+    const [vaccine] = await this.findVaccines([request.vaccineCode]);
+    const now = new Date();
+    const entry: LedgerEntry = {
+      transactionType: StockTransactionType.LOSS,
+      transactionReference: `loss:${randomUUID()}`,
+      reasonCode: request.reasonCode,
+      notes: request.notes,
+    };
+
+    // Expired and VVM 4 lots are exactly what gets discarded: no issuable check
+    const { lots, stockOnHand } = await this.dataSource.transaction((manager) =>
+      this.removeLots(manager, store, vaccine, new Map([[request.batchNumber, request.quantity]]), entry, now, false),
+    );
+
+    this.logger.log(`Loss ${entry.transactionReference}: ${request.quantity} ${vaccine.code} (${request.reasonCode}) at ${store.id}`);
+
+    await this.invalidateStock(store);
+
+    return {
+      transactionReference: entry.transactionReference,
+      facilityId: store.id,
+      vaccineCode: vaccine.code,
+      batchNumber: request.batchNumber,
+      quantity: request.quantity,
+      quantityOnHand: lots[0].quantityOnHand,
+      stockOnHand,
+      reasonCode: request.reasonCode,
+      recordedAt: now.toISOString(),
+    };
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Take doses off the lots of one vaccine and record the ledger entry;
+   * the lot rows are locked until the transaction ends
+   */
+  private async removeLots(
+    manager: EntityManager,
+    store: Location,
+    vaccine: Vaccine,
+    quantities: Map<string, number>,
+    entry: LedgerEntry,
+    now: Date,
+    issuable: boolean,
+  ): Promise<{ lots: IssuedLotDto[]; stockOnHand: number }> {
+    const today = DateUtils.mixedDateToDateString(now);
+    const where = { facilityId: store.id, vaccineId: vaccine.id };
+
+    const batchRepository = manager.getRepository(ProductBatch);
+    const batches = await batchRepository.find({
+      where: { ...where, batchNumber: In([...quantities.keys()]) },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    const issued: IssuedLotDto[] = [];
+
+    for (const [batchNumber, quantity] of quantities) {
+      const batch = batches.find((candidate) => candidate.batchNumber === batchNumber);
+
+      if (!batch) {
+        throw new BadRequestException(`Lot ${vaccine.code} ${batchNumber} is not held at ${store.name}`);
+      }
+
+      const reason = issuable ? this.getExclusionReason(batch, today) : null;
+      if (reason) {
+        throw new BadRequestException(`Lot ${vaccine.code} ${batchNumber} cannot be issued: ${reason}`);
+      }
+
+      if (quantity > batch.quantityOnHand) {
+        throw new BadRequestException(
+          `Lot ${vaccine.code} ${batchNumber} has ${batch.quantityOnHand} doses on hand, ${quantity} requested`,
+        );
+      }
+
+      batch.quantityOnHand -= quantity;
+      issued.push({ vaccineCode: vaccine.code, batchNumber, quantity, quantityOnHand: batch.quantityOnHand });
+    }
+
+    await batchRepository.save(batches);
+
+    const quantityOnHand = await this.removeFromSnapshots(manager, vaccine, where, quantities, now);
+
+    await manager.getRepository(StockLedger).insert({
+      ...where,
+      ...this.stockSnapshotService.getHierarchy(store),
+      ...entry,
+      quantity: -issued.reduce((sum, line) => sum + line.quantity, 0),
+      quantityOnHand,
+      vvmStage: Math.max(0, ...batches.map((batch) => batch.vvmStageCurrent ?? 0)) || undefined,
+      snapshotDate: now,
+    });
+
+    return { lots: issued, stockOnHand: quantityOnHand };
+  }
+
+  /**
+   * Invalidate cached stock of the store and the levels above it (after the DB commit)
+   */
+  private async invalidateStock(store: Location): Promise<void> {
+    const { lgaId, stateId } = this.stockSnapshotService.getHierarchy(store);
+    await this.cacheService.invalidateMapCache();
+    await this.cacheService.invalidateFacilityStock(store.id);
+    if (lgaId) await this.cacheService.invalidateLGAStock(lgaId);
+    if (stateId) await this.cacheService.invalidateStateStock(stateId);
+    await this.cacheService.publishInvalidation('stock', store.id);
+  }
+
+  /**
+   * Remove the issued quantities from today's snapshot; returns the new stock on hand
+   */
+  private async removeFromSnapshots(
+    manager: EntityManager,
+    vaccine: Vaccine,
+    where: { facilityId: string; vaccineId: string },
+    quantities: Map<string, number>,
+    now: Date,
+  ): Promise<number> {
+    const snapshotRepository = manager.getRepository(StockSnapshot);
+    const lots = await this.stockSnapshotService.getCurrentLots(manager, where, now);
+
+    for (const lot of lots) {
+      if (lot.lotNumber && quantities.has(lot.lotNumber)) {
+        lot.quantityOnHand = Math.max(0, lot.quantityOnHand - quantities.get(lot.lotNumber));
+      }
+    }
+
+    const quantityOnHand = lots.reduce((sum, lot) => sum + lot.quantityOnHand, 0);
+    const consumption = Math.max(0, ...lots.map((lot) => Number(lot.averageMonthlyConsumption) || 0));
+    const monthsOfStock = consumption > 0 ? Math.round((quantityOnHand / consumption) * 100) / 100 : null;
+
+    for (const lot of lots) {
+      if (monthsOfStock !== null) {
+        lot.monthsOfStock = monthsOfStock;
+      }
+      lot.stockStatus = this.getStockStatus(quantityOnHand, monthsOfStock, vaccine, lot.stockStatus);
+    }
+
+    await snapshotRepository.save(lots);
+
+    return quantityOnHand;
+  }
+
+  /**
+   * Why a lot must not be issued, or null when it can be
+   */
+  private getExclusionReason(batch: ProductBatch, today: string): FefoExclusionReason | null {
+    if (batch.isQuarantined) return FefoExclusionReason.QUARANTINED;
+    if (batch.vvmStageCurrent >= 4) return FefoExclusionReason.VVM_STAGE_4;
+    if (DateUtils.mixedDateToDateString(batch.expiryDate) < today) return FefoExclusionReason.EXPIRED;
+    return null;
+  }
+
+  private async findIssuingLocation(facilityId: string): Promise<Location> {
+    const store = await this.locationRepository.findOne({
+      where: { id: facilityId, type: In(ISSUING_LOCATION_TYPES) },
+      relations: ['parent'],
+    });
+
+    if (!store) {
+      throw new NotFoundException(`Facility or LGA store ${facilityId} not found`);
+    }
+
+    return store;
+  }
+
+  private async findVaccines(codes: string[]): Promise<Vaccine[]> {
+    const unique = [...new Set(codes)];
+    const vaccines = await this.vaccineRepository.find({ where: { code: In(unique) } });
+
+    const missing = unique.filter((code) => !vaccines.some((vaccine) => vaccine.code === code));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown vaccine: ${missing.join(', ')}`);
+    }
+
+    return vaccines;
+  }
+
+  private getStockStatus(
+    quantityOnHand: number,
+    monthsOfStock: number | null,
+    vaccine: Vaccine,
+    previous?: StockStatus,
+  ): StockStatus | null {
+    if (quantityOnHand <= 0) return StockStatus.STOCKOUT;
+    if (monthsOfStock === null) return previous === StockStatus.STOCKOUT ? null : previous ?? null;
+    if (monthsOfStock < Number(vaccine.minMonthsOfStock)) return StockStatus.UNDERSTOCKED;
+    if (monthsOfStock > Number(vaccine.maxMonthsOfStock)) return StockStatus.OVERSTOCKED;
+    return StockStatus.OPTIMAL;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger Controller
+ *
+ * Exposes the stock transaction history with running balances, and records
+ * losses with a standardised reason. Requests are limited to locations
+ * within the user's location scope.
+ *
+ * Endpoints:
+ * - GET /api/v1/stock-ledger - Ledger entries with running balances
+ * - POST /api/v1/stock-ledger/losses - Record doses lost from a lot
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Body, Controller, Get, Logger, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
+
+import { LocationScopeGuard, LocationScope, CurrentScope, assertInScope } from '../../guards/location-scope.guard';
+import { Audited } from '../audit/audit.interceptor';
+import { StockLedgerService } from './stock-ledger.service';
+import { StockIssueService } from './stock-issue.service';
+import { StockLedgerQueryDto, StockLedgerResponseDto, StockLossDto, StockLossResultDto } from './dto/stock-ledger.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Stock Ledger')
+@ApiBearerAuth()
+@Controller('stock-ledger')
+@UseGuards(LocationScopeGuard)
+export class StockLedgerController {
+  private readonly logger = new Logger(StockLedgerController.name);
+
+  constructor(
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly stockIssueService: StockIssueService,
+  ) {}
+
+  /**
+   * Get ledger entries
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get stock ledger',
+    description:
+      'Stock transactions filtered by facility, product, date range, transaction type and reason, latest first, ' +
+      'with the running balance and the variance against the recorded stock on hand',
+  })
+  @ApiResponse({ status: 200, description: 'Ledger retrieved successfully', type: StockLedgerResponseDto })
+  async getLedger(
+    @Query() query: StockLedgerQueryDto,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<StockLedgerResponseDto> {
+    this.logger.debug(`Get stock ledger request with filters: ${JSON.stringify(query)}`);
+    return this.stockLedgerService.getLedger({ ...query, ...scope?.filter });
+  }
+
+  /**
+   * Record a loss
+   */
+  @Post('losses')
+  @ApiOperation({
+    summary: 'Record a loss',
+    description: 'Takes damaged, expired, VVM-discarded or lost doses off a lot and records a loss entry in the ledger',
+  })
+  @ApiBody({ type: StockLossDto })
+  @ApiResponse({ status: 201, description: 'Loss recorded', type: StockLossResultDto })
+  @ApiResponse({ status: 400, description: 'Lot unknown or short of doses' })
+  @ApiResponse({ status: 404, description: 'Facility or LGA store not found' })
+  @Audited({ action: 'RECORD_LOSS', resource: 'stock' })
+  async recordLoss(@Body() request: StockLossDto, @CurrentScope() scope: LocationScope): Promise<StockLossResultDto> {
+    assertInScope(scope, request.facilityId);
+
+    this.logger.log(`Stock loss request: ${request.facilityId}`);
+    return this.stockIssueService.recordLoss(request);
+  }
+}
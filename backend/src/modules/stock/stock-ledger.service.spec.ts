@@ -0,0 +1,115 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger Service Unit Tests
+ *
+ * Tests that ledger reads:
+ * - Compute balances over whole facility/vaccine histories, filtering dates after
+ * - Map entries with their running balance and variance
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+
+import { StockLedgerService } from './stock-ledger.service';
+import { StockLedgerReason, StockTransactionType } from './dto/stock-ledger.dto';
+
+describe('StockLedgerService', () => {
+  let service: StockLedgerService;
+  let mockDataSource: any;
+
+  const row = (overrides: Record<string, unknown>) => ({
+    id: 'entry-1',
+    facility_id: 'facility-1',
+    facility_name: 'Garki PHC',
+    vaccine_id: 'vaccine-bcg',
+    vaccine_code: 'BCG',
+    vaccine_name: 'BCG Vaccine',
+    transaction_type: 'receipt',
+    reason_code: 'transfer_in',
+    transaction_reference: 'delivery:delivery-1',
+    notes: null,
+    change: '500',
+    quantity_on_hand: 600,
+    running_balance: '600',
+    variance: '0',
+    vvm_stage: 1,
+    snapshot_date: '2026-10-19',
+    snapshot_time: new Date('2026-10-19T09:30:00Z'),
+    total: '2',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockDataSource = {
+      query: jest.fn().mockResolvedValue([
+        row({
+          id: 'entry-2',
+          transaction_type: 'loss',
+          reason_code: 'damaged',
+          change: '-20',
+          quantity_on_hand: 570,
+          running_balance: '580',
+          variance: '-10',
+        }),
+        row({}),
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [StockLedgerService, { provide: DataSource, useValue: mockDataSource }],
+    }).compile();
+
+    service = module.get<StockLedgerService>(StockLedgerService);
+  });
+
+  it('should filter histories before computing balances and entries after', async () => {
+    await service.getLedger({
+      facilityId: 'facility-1',
+      vaccineCode: 'BCG',
+      from: '2026-10-01',
+      transactionType: StockTransactionType.LOSS,
+      reasonCode: StockLedgerReason.DAMAGED,
+      page: 2,
+      limit: 20,
+    });
+
+    const [sql, params] = mockDataSource.query.mock.calls[0];
+    const [history, outer] = sql.split('FROM balances b');
+
+    expect(history).toContain('l.facility_id = $1');
+    expect(history).toContain('code = $2');
+    expect(outer).toContain('b.snapshot_date >= $3::date');
+    expect(outer).toContain('b.transaction_type = $4');
+    expect(outer).toContain('b.reason_code = $5');
+    expect(outer).toContain('LIMIT $6 OFFSET $7');
+    expect(params).toEqual(['facility-1', 'BCG', '2026-10-01', 'loss', 'damaged', 20, 20]);
+  });
+
+  it('should return entries with running balances and variances', async () => {
+    const result = await service.getLedger({ facilityId: 'facility-1' });
+
+    expect(result).toEqual(expect.objectContaining({ count: 2, total: 2, page: 1, limit: 50 }));
+    expect(result.data[0]).toEqual(
+      expect.objectContaining({
+        id: 'entry-2',
+        transactionType: 'loss',
+        reasonCode: StockLedgerReason.DAMAGED,
+        quantity: -20,
+        quantityOnHand: 570,
+        runningBalance: 580,
+        variance: -10,
+        snapshotDate: '2026-10-19',
+        recordedAt: '2026-10-19T09:30:00.000Z',
+      }),
+    );
+    expect(result.data[1].notes).toBeUndefined();
+  });
+
+  it('should report an empty page', async () => {
+    mockDataSource.query.mockResolvedValue([]);
+
+    const result = await service.getLedger();
+
+    expect(result).toEqual({ data: [], count: 0, total: 0, page: 1, limit: 50 });
+    expect(mockDataSource.query.mock.calls[0][0]).not.toContain('WHERE l.');
+  });
+});
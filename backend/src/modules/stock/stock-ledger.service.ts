@@ -0,0 +1,129 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger Service
+ *
+ * Reads the transaction history in `stock_ledger`. Every entry carries the
+ * signed change and the stock on hand recorded with it. The running balance
+ * is the opening balance (stock on hand before the first entry) plus the
+ * changes of the facility and vaccine up to the entry, computed over the
+ * whole history so that date filters do not reset it. Entries written before
+ * changes were signed count the difference from the previous recorded stock
+ * on hand.
+ *
+ * The variance of an entry is its recorded stock on hand minus the previous
+ * recorded stock on hand plus its change: a discrepancy shows on the entry
+ * that introduced it, not on every later one.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+
+import { StockLedgerEntryDto, StockLedgerQueryDto, StockLedgerResponseDto } from './dto/stock-ledger.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class StockLedgerService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Ledger entries with running balances, latest first
+   */
+  async getLedger(query: StockLedgerQueryDto = {}): Promise<StockLedgerResponseDto> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+
+    // Facility and vaccine filters select whole histories: applied before the balances
+    const history: string[] = [];
+    if (query.facilityId) history.push(`l.facility_id = ${param(query.facilityId)}`);
+    if (query.lgaId) history.push(`l.lga_id = ${param(query.lgaId)}`);
+    if (query.stateId) history.push(`l.state_id = ${param(query.stateId)}`);
+    if (query.vaccineId) history.push(`l.vaccine_id = ${param(query.vaccineId)}`);
+    if (query.vaccineCode) history.push(`l.vaccine_id IN (SELECT id FROM vaccines WHERE code = ${param(query.vaccineCode)})`);
+
+    // Date, type and reason filters select entries within the histories
+    const entries: string[] = [];
+    if (query.from) entries.push(`b.snapshot_date >= ${param(query.from)}::date`);
+    if (query.to) entries.push(`b.snapshot_date <= ${param(query.to)}::date`);
+    if (query.transactionType) entries.push(`b.transaction_type = ${param(query.transactionType)}`);
+    if (query.reasonCode) entries.push(`b.reason_code = ${param(query.reasonCode)}`);
+
+    const where = (conditions: string[]) => (conditions.length ? `WHERE ${conditions.join(' AND ')}` : '');
+
+    const rows = await this.dataSource.query(
+      `WITH entries AS (
+         SELECT l.*,
+                LAG(l.quantity_on_hand) OVER w AS previous_on_hand,
+                FIRST_VALUE(l.quantity_on_hand - COALESCE(l.quantity, l.quantity_on_hand)) OVER w AS opening_balance,
+                COALESCE(l.quantity, l.quantity_on_hand - COALESCE(LAG(l.quantity_on_hand) OVER w, 0)) AS change
+         FROM stock_ledger l
+         ${where(history)}
+         WINDOW w AS (PARTITION BY l.facility_id, l.vaccine_id ORDER BY l.snapshot_time, l.id)
+       ),
+       balances AS (
+         SELECT e.*,
+                e.opening_balance + SUM(e.change) OVER (
+                  PARTITION BY e.facility_id, e.vaccine_id ORDER BY e.snapshot_time, e.id
+                ) AS running_balance
+         FROM entries e
+       )
+       SELECT b.id, b.facility_id, f.name AS facility_name, b.vaccine_id, v.code AS vaccine_code, v.name AS vaccine_name,
+              b.transaction_type, b.reason_code, b.transaction_reference, b.notes, b.change, b.quantity_on_hand,
+              b.running_balance, b.quantity_on_hand - COALESCE(b.previous_on_hand, b.opening_balance) - b.change AS variance,
+              b.vvm_stage, b.snapshot_date, b.snapshot_time,
+              COUNT(*) OVER () AS total
+       FROM balances b
+       JOIN locations f ON f.id = b.facility_id
+       JOIN vaccines v ON v.id = b.vaccine_id
+       ${where(entries)}
+       ORDER BY b.snapshot_time DESC, b.id DESC
+       LIMIT ${param(limit)} OFFSET ${param((page - 1) * limit)}`,
+      params,
+    );
+
+    const data = rows.map((row) => this.toDto(row));
+
+    return {
+      data,
+      count: data.length,
+      total: Number(rows[0]?.total ?? 0),
+      page,
+      limit,
+    };
+  }
+
+  private toDto(row: Record<string, any>): StockLedgerEntryDto {
+    return {
+      id: row.id,
+      facilityId: row.facility_id,
+      facilityName: row.facility_name,
+      vaccineId: row.vaccine_id,
+      vaccineCode: row.vaccine_code,
+      vaccineName: row.vaccine_name,
+      transactionType: row.transaction_type ?? undefined,
+      reasonCode: row.reason_code ?? undefined,
+      transactionReference: row.transaction_reference ?? undefined,
+      notes: row.notes ?? undefined,
+      quantity: Number(row.change),
+      quantityOnHand: Number(row.quantity_on_hand),
+      runningBalance: Number(row.running_balance),
+      variance: Number(row.variance),
+      vvmStage: row.vvm_stage ?? undefined,
+      snapshotDate: DateUtils.mixedDateToDateString(row.snapshot_date),
+      recordedAt: new Date(row.snapshot_time).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * VaxTrace Nigeria - Stock Snapshot Service Unit Tests
+ *
+ * Tests that current lots:
+ * - Are every lot on the latest snapshot date
+ * - Are carried forward to today's snapshot from an earlier date
+ * And that ledger entries are attributed to the LGA and state of a location.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { Location, LocationType } from '../../entities/location.entity';
+import { StockSnapshot } from '../../entities/stock-snapshot.entity';
+import { StockSnapshotService } from './stock-snapshot.service';
+
+describe('StockSnapshotService', () => {
+  let service: StockSnapshotService;
+  let mockSnapshotRepository: any;
+  let mockManager: any;
+
+  const now = new Date('2026-10-19T12:00:00Z');
+  const where = { facilityId: 'fac-1', vaccineId: 'vaccine-bcg' };
+
+  const lots = (snapshotDate: string) => [
+    { id: 'snap-1', ...where, lotNumber: 'BCG-A', quantityOnHand: 50, currentTemp: 4.5, snapshotDate },
+    { id: 'snap-2', ...where, lotNumber: 'BCG-B', quantityOnHand: 200, snapshotDate },
+  ];
+
+  beforeEach(async () => {
+    mockSnapshotRepository = {
+      findOne: jest.fn().mockResolvedValue({ snapshotDate: '2026-10-18' }),
+      find: jest.fn().mockResolvedValue(lots('2026-10-18')),
+      create: jest.fn((entity) => ({ ...entity })),
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+    mockManager = { getRepository: jest.fn(() => mockSnapshotRepository) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [StockSnapshotService],
+    }).compile();
+
+    service = module.get<StockSnapshotService>(StockSnapshotService);
+  });
+
+  describe('Current lots', () => {
+    it('should copy every lot on the latest snapshot date to today', async () => {
+      const current = await service.getCurrentLots(mockManager, where, now);
+
+      expect(mockManager.getRepository).toHaveBeenCalledWith(StockSnapshot);
+      expect(mockSnapshotRepository.findOne).toHaveBeenCalledWith({ where, order: { snapshotDate: 'DESC' } });
+      expect(mockSnapshotRepository.find).toHaveBeenCalledWith({ where: { ...where, snapshotDate: '2026-10-18' } });
+      expect(current).toEqual([
+        expect.objectContaining({ lotNumber: 'BCG-A', quantityOnHand: 50, currentTemp: 4.5, snapshotDate: now }),
+        expect.objectContaining({ lotNumber: 'BCG-B', quantityOnHand: 200, snapshotDate: now }),
+      ]);
+      expect(current[0].id).toBeUndefined();
+    });
+
+    it("should return today's lots as they are", async () => {
+      mockSnapshotRepository.findOne.mockResolvedValue({ snapshotDate: '2026-10-19' });
+      mockSnapshotRepository.find.mockResolvedValue(lots('2026-10-19'));
+
+      await expect(service.getCurrentLots(mockManager, where, now)).resolves.toEqual(lots('2026-10-19'));
+      expect(mockSnapshotRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should have no lots without a snapshot', async () => {
+      mockSnapshotRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getCurrentLots(mockManager, where, now)).resolves.toEqual([]);
+      await expect(service.carryForwardLots(mockManager, where, now)).resolves.toBe(0);
+      expect(mockSnapshotRepository.insert).not.toHaveBeenCalled();
+    });
+
+    it("should save the carried lots as today's snapshot and return the stock on hand", async () => {
+      await expect(service.carryForwardLots(mockManager, where, now)).resolves.toBe(250);
+
+      expect(mockSnapshotRepository.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ lotNumber: 'BCG-A', snapshotDate: now }),
+        expect.objectContaining({ lotNumber: 'BCG-B', snapshotDate: now }),
+      ]);
+    });
+
+    it("should not insert lots already on today's snapshot", async () => {
+      mockSnapshotRepository.findOne.mockResolvedValue({ snapshotDate: '2026-10-19' });
+
+      await expect(service.carryForwardLots(mockManager, where, now)).resolves.toBe(250);
+      expect(mockSnapshotRepository.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Hierarchy', () => {
+    const state = { id: 'state-1', type: LocationType.STATE } as Location;
+    const lga = { id: 'lga-1', type: LocationType.LGA, parentId: 'state-1', parent: state } as Location;
+
+    it.each([
+      ['a facility under an LGA', { type: LocationType.FACILITY, parent: lga }, { lgaId: 'lga-1', stateId: 'state-1' }],
+      ['a facility under a state', { type: LocationType.FACILITY, parent: state }, { stateId: 'state-1' }],
+      ['an LGA store', lga, { lgaId: 'lga-1', stateId: 'state-1' }],
+      ['a facility without a parent', { type: LocationType.FACILITY }, { stateId: undefined }],
+    ])('should find the LGA and state of %s', (_, location, hierarchy) => {
+      expect(service.getHierarchy(location as Location)).toEqual(hierarchy);
+    });
+  });
+});
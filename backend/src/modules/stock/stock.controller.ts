@@ -0,0 +1,139 @@
+/**
+ * VaxTrace Nigeria - Stock Controller
+ *
+ * Exposes lot-level stock from the facility lot register, FEFO issue
+ * recommendations and stock issues. Requests are limited to facilities and
+ * LGA stores within the user's location scope.
+ *
+ * Endpoints:
+ * - GET /api/v1/stock/facilities/:facilityId/lots - Lot breakdown of a facility
+ * - POST /api/v1/stock/facilities/:facilityId/fefo - Recommend lots to issue (FEFO)
+ * - POST /api/v1/stock/facilities/:facilityId/issues - Record a stock issue
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
+
+import { LocationType } from '../../entities/location.entity';
+import {
+  LocationScopeGuard,
+  LocationFilters,
+  LocationScope,
+  CurrentScope,
+  assertInScope,
+} from '../../guards/location-scope.guard';
+import { Audited } from '../audit/audit.interceptor';
+import { ProductBatchService } from './product-batch.service';
+import { StockIssueService } from './stock-issue.service';
+import {
+  FacilityLotsDto,
+  FacilityLotsQueryDto,
+  FefoRecommendationDto,
+  FefoRequestDto,
+  IssueStockDto,
+  StockIssueDto,
+} from './dto/stock.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Stock')
+@ApiBearerAuth()
+@Controller('stock')
+export class StockController {
+  private readonly logger = new Logger(StockController.name);
+
+  constructor(
+    private readonly productBatchService: ProductBatchService,
+    private readonly stockIssueService: StockIssueService,
+  ) {}
+
+  /**
+   * Get the lots held at a facility
+   */
+  @Get('facilities/:facilityId/lots')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'id' } })
+  @ApiOperation({
+    summary: 'Get facility lots',
+    description: 'Stock on hand per vaccine with its lots (quantity, expiry, VVM stage), earliest expiry first',
+  })
+  @ApiResponse({ status: 200, description: 'Lots retrieved successfully', type: FacilityLotsDto })
+  @ApiResponse({ status: 404, description: 'Facility not found' })
+  async getFacilityLots(
+    @Param('facilityId', ParseUUIDPipe) facilityId: string,
+    @Query() query: FacilityLotsQueryDto,
+  ): Promise<FacilityLotsDto> {
+    this.logger.debug(`Get lots request: ${facilityId}`);
+    return this.productBatchService.getFacilityLots(facilityId, query);
+  }
+
+  /**
+   * Recommend lots to issue, first expiry first out
+   */
+  @Post('facilities/:facilityId/fefo')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'id' } })
+  @ApiOperation({
+    summary: 'Recommend lots to issue (FEFO)',
+    description:
+      'Lots covering the requested doses per vaccine: VVM stage 3 first, then earliest expiry. ' +
+      'VVM stage 4, expired and quarantined lots are excluded.',
+  })
+  @ApiBody({ type: FefoRequestDto })
+  @ApiResponse({ status: 200, description: 'Recommendation computed', type: FefoRecommendationDto })
+  @ApiResponse({ status: 400, description: 'Unknown vaccine' })
+  @ApiResponse({ status: 404, description: 'Facility or LGA store not found' })
+  async recommendIssue(
+    @Param('facilityId', ParseUUIDPipe) facilityId: string,
+    @Body() request: FefoRequestDto,
+  ): Promise<FefoRecommendationDto> {
+    this.logger.debug(`FEFO recommendation request: ${facilityId}`);
+    return this.stockIssueService.recommend(facilityId, request);
+  }
+
+  /**
+   * Record lots issued from a facility or LGA store
+   */
+  @Post('facilities/:facilityId/issues')
+  @UseGuards(LocationScopeGuard)
+  @LocationFilters({ facilityId: { level: LocationType.FACILITY, ref: 'id' } })
+  @ApiOperation({
+    summary: 'Record a stock issue',
+    description: 'Takes the issued doses off each lot and records an issue entry per vaccine in the stock ledger',
+  })
+  @ApiBody({ type: IssueStockDto })
+  @ApiResponse({ status: 201, description: 'Issue recorded', type: StockIssueDto })
+  @ApiResponse({ status: 400, description: 'Lot unknown, not issuable or short of doses' })
+  @ApiResponse({ status: 404, description: 'Facility or LGA store not found' })
+  @Audited({ action: 'ISSUE', resource: 'stock' })
+  async issueStock(
+    @Param('facilityId', ParseUUIDPipe) facilityId: string,
+    @Body() request: IssueStockDto,
+    @CurrentScope() scope: LocationScope,
+  ): Promise<StockIssueDto> {
+    if (request.destinationFacilityId) {
+      assertInScope(scope, request.destinationFacilityId);
+    }
+
+    this.logger.log(`Stock issue request: ${facilityId}`);
+    return this.stockIssueService.issue(facilityId, request);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * VaxTrace Nigeria - Stock Module
+ *
+ * Lot-level stock: the facility lot register, its query endpoints, FEFO
+ * issues from facilities and LGA stores, and the stock ledger history.
+ * Modules writing stock snapshots import this module, carry the current
+ * lots forward with StockSnapshotService and record the lots they counted
+ * with ProductBatchService.recordLots.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { ProductBatch } from '../../entities/product-batch.entity';
+import { Location } from '../../entities/location.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { StockController } from './stock.controller';
+import { StockLedgerController } from './stock-ledger.controller';
+import { ProductBatchService } from './product-batch.service';
+import { StockIssueService } from './stock-issue.service';
+import { StockSnapshotService } from './stock-snapshot.service';
+import { StockLedgerService } from './stock-ledger.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ProductBatch, Location, Vaccine])],
+  controllers: [StockController, StockLedgerController],
+  providers: [ProductBatchService, StockIssueService, StockLedgerService, StockSnapshotService],
+  exports: [ProductBatchService, StockSnapshotService],
+})
+export class StockModule {}
@@ -0,0 +1,295 @@
+/**
+ * VaxTrace Nigeria - User Administration DTOs
+ *
+ * Data Transfer Objects for managing user accounts
+ *
+ * SECURITY: All inputs are sanitized to prevent SQL Injection and XSS
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsBoolean,
+  IsInt,
+  IsEmail,
+  IsObject,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize, SanitizeEmail } from '../../../common/decorators/sanitize.decorator';
+import { UserRole } from '../../../entities/user.entity';
+import { LocationType } from '../../../entities/location.entity';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+/**
+ * Converts 'true' / 'false' query strings into booleans
+ */
+const toBoolean = ({ value }: { value: any }) => {
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  return undefined;
+};
+
+export class UserQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by role',
+    enum: UserRole,
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiPropertyOptional({
+    description: 'Only users assigned within this state',
+  })
+  @IsOptional()
+  @IsUUID()
+  stateId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only users assigned within this LGA',
+  })
+  @IsOptional()
+  @IsUUID()
+  lgaId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by account status',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Search by name, email or staff ID',
+    example: 'amac',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Sanitize()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (1-based)',
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Page size',
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class LocationOptionsQueryDto {
+  @ApiProperty({
+    description: 'Location level to list',
+    enum: LocationType,
+  })
+  @IsEnum(LocationType)
+  type: LocationType;
+
+  @ApiPropertyOptional({
+    description: 'Only children of this location (e.g. LGAs of a state)',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+}
+
+/**
+ * Fields shared by invite and update
+ */
+class UserProfileDto {
+  @ApiPropertyOptional({
+    description: 'Name shown in the dashboard',
+    example: 'AMAC Logistics Officer',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  @Sanitize()
+  displayName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Phone number',
+    example: '+2348012345678',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  @Sanitize()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'Assigned location: a state, LGA or facility matching the role',
+  })
+  @IsOptional()
+  @IsUUID()
+  assignedLocationId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Per-user permission overrides, e.g. { "edit_stock": false }',
+    type: 'object',
+  })
+  @IsOptional()
+  @IsObject()
+  permissions?: Record<string, boolean>;
+}
+
+export class UpdateUserDto extends UserProfileDto {
+  @ApiPropertyOptional({
+    description: 'Role',
+    enum: UserRole,
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+}
+
+export class InviteUserDto extends UserProfileDto {
+  @ApiProperty({
+    description: 'Work email address',
+    example: 'amac.logistics@vaxtrace.gov.ng',
+  })
+  @IsEmail()
+  @MaxLength(255)
+  @SanitizeEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Staff ID used to log in',
+    example: 'VT-LGA-001',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Sanitize()
+  staffId?: string;
+
+  @ApiProperty({
+    description: 'Role',
+    enum: UserRole,
+  })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class UserAccountDto {
+  @ApiProperty({ description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Email address' })
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Staff ID' })
+  staffId?: string;
+
+  @ApiProperty({ description: 'Name shown in the dashboard' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Phone number' })
+  phoneNumber?: string;
+
+  @ApiProperty({ description: 'Role', enum: UserRole })
+  role: UserRole;
+
+  @ApiPropertyOptional({ description: 'Assigned location ID' })
+  assignedLocationId?: string;
+
+  @ApiPropertyOptional({ description: 'Assigned location name' })
+  assignedLocation?: string;
+
+  @ApiPropertyOptional({ description: 'State of the assigned location' })
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'LGA of the assigned location' })
+  lga?: string;
+
+  @ApiProperty({ description: 'Per-user permission overrides', type: 'object' })
+  permissions: Record<string, boolean>;
+
+  @ApiProperty({ description: 'Whether the account can log in' })
+  isActive: boolean;
+
+  @ApiPropertyOptional({ description: 'Last login timestamp' })
+  lastLoginAt?: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+}
+
+export class UsersResponseDto {
+  @ApiProperty({ description: 'Users', type: [UserAccountDto] })
+  data: UserAccountDto[];
+
+  @ApiProperty({ description: 'Total matching users', example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Page number', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Page size', example: 50 })
+  limit: number;
+}
+
+export class LocationOptionDto {
+  @ApiProperty({ description: 'Location ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Location name', example: 'Abuja Municipal' })
+  name: string;
+
+  @ApiProperty({ description: 'Location level', enum: LocationType })
+  type: LocationType;
+
+  @ApiPropertyOptional({ description: 'Parent location ID' })
+  parentId?: string;
+}
+
+export class TemporaryPinDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({
+    description: 'One-time 6-digit PIN to hand to the user; it is not stored in clear text and cannot be retrieved again',
+    example: '482913',
+  })
+  temporaryPin: string;
+}
+
+export class InviteUserResponseDto extends UserAccountDto {
+  @ApiProperty({
+    description: 'One-time 6-digit PIN for the first login',
+    example: '482913',
+  })
+  temporaryPin: string;
+}
@@ -0,0 +1,308 @@
+/**
+ * VaxTrace Nigeria - Users Controller
+ *
+ * User administration endpoints, restricted to system admins.
+ *
+ * Endpoints:
+ * - GET /api/v1/users - List users (filter by role, state, LGA, status, search)
+ * - GET /api/v1/users/locations - List assignable states, LGAs or facilities
+ * - GET /api/v1/users/:id - Get a user
+ * - POST /api/v1/users - Invite a user (returns a one-time PIN)
+ * - PATCH /api/v1/users/:id - Update role, location, profile or permission overrides
+ * - POST /api/v1/users/:id/reset-pin - Issue a new one-time PIN
+ * - POST /api/v1/users/:id/deactivate - Deactivate an account
+ * - POST /api/v1/users/:id/reactivate - Reactivate an account
+ * - GET /api/v1/users/:id/sessions - List a user's active sessions
+ * - DELETE /api/v1/users/:id/sessions/:sessionId - Revoke a user's session
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { UsersService } from './users.service';
+import { Audited } from '../audit/audit.interceptor';
+import {
+  UserQueryDto,
+  InviteUserDto,
+  UpdateUserDto,
+  UserAccountDto,
+  UsersResponseDto,
+  InviteUserResponseDto,
+  TemporaryPinDto,
+  LocationOptionsQueryDto,
+  LocationOptionDto,
+} from './dto/user.dto';
+import { SessionDto } from '../auth/dto/auth.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@Controller('users')
+@UseGuards(RBACGuard)
+export class UsersController {
+  private readonly logger = new Logger(UsersController.name);
+
+  constructor(private readonly usersService: UsersService) {
+    this.logger.log('Users Controller initialized');
+  }
+
+  // ============================================
+  // QUERY ENDPOINTS
+  // ============================================
+
+  /**
+   * List users
+   */
+  @Get()
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Get users',
+    description: 'List user accounts, optionally filtered by role, state, LGA, status or search text',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Users retrieved successfully',
+    type: UsersResponseDto,
+  })
+  async getUsers(@Query() query: UserQueryDto): Promise<UsersResponseDto> {
+    return await this.usersService.getUsers(query);
+  }
+
+  /**
+   * List assignable locations
+   */
+  @Get('locations')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Get assignable locations',
+    description: 'List states, LGAs or facilities (optionally under a parent) for role assignment',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Locations retrieved successfully',
+    type: [LocationOptionDto],
+  })
+  async getLocationOptions(@Query() query: LocationOptionsQueryDto): Promise<LocationOptionDto[]> {
+    return await this.usersService.getLocationOptions(query);
+  }
+
+  /**
+   * Get user by ID
+   */
+  @Get(':id')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Get user',
+    description: 'Retrieve a single user account',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User retrieved successfully',
+    type: UserAccountDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async getUser(@Param('id', ParseUUIDPipe) id: string): Promise<UserAccountDto> {
+    return await this.usersService.getUser(id);
+  }
+
+  // ============================================
+  // ADMINISTRATION ENDPOINTS
+  // ============================================
+
+  /**
+   * Invite a user
+   */
+  @Post()
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Invite user',
+    description: 'Create a user with a role and assigned location; returns a one-time PIN for the first login',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'User invited successfully',
+    type: InviteUserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Assigned location does not match the role',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Email or staff ID already in use',
+  })
+  async inviteUser(@Body() body: InviteUserDto, @Req() req: ExtendedRequest): Promise<InviteUserResponseDto> {
+    this.logger.log(`Invite user request: ${body.role}`);
+    return await this.usersService.inviteUser(body, req.user?.id);
+  }
+
+  /**
+   * Update a user
+   */
+  @Patch(':id')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Update user',
+    description: 'Change role, assigned location, profile or permission overrides. Existing sessions are revoked.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User updated successfully',
+    type: UserAccountDto,
+  })
+  async updateUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateUserDto,
+    @Req() req: ExtendedRequest,
+  ): Promise<UserAccountDto> {
+    this.logger.log(`Update user request: ${id}`);
+    return await this.usersService.updateUser(id, body, req.user?.id);
+  }
+
+  /**
+   * Reset a user's PIN
+   */
+  @Post(':id/reset-pin')
+  @Audited({ action: 'RESET_PIN', resource: 'user' })
+  @Roles('system_admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset PIN',
+    description: 'Replace the user PIN with a one-time PIN and revoke existing sessions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'PIN reset successfully',
+    type: TemporaryPinDto,
+  })
+  async resetPin(@Param('id', ParseUUIDPipe) id: string, @Req() req: ExtendedRequest): Promise<TemporaryPinDto> {
+    this.logger.log(`Reset PIN request: ${id}`);
+    return await this.usersService.resetPin(id, req.user?.id);
+  }
+
+  /**
+   * Deactivate a user
+   */
+  @Post(':id/deactivate')
+  @Audited({ action: 'DEACTIVATE', resource: 'user' })
+  @Roles('system_admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Deactivate user',
+    description: 'Block login for the account and revoke existing sessions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User deactivated successfully',
+    type: UserAccountDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'User is already deactivated',
+  })
+  async deactivateUser(@Param('id', ParseUUIDPipe) id: string, @Req() req: ExtendedRequest): Promise<UserAccountDto> {
+    this.logger.log(`Deactivate user request: ${id}`);
+    return await this.usersService.deactivateUser(id, req.user?.id);
+  }
+
+  /**
+   * Reactivate a user
+   */
+  @Post(':id/reactivate')
+  @Audited({ action: 'REACTIVATE', resource: 'user' })
+  @Roles('system_admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reactivate user',
+    description: 'Allow a deactivated account to log in again',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User reactivated successfully',
+    type: UserAccountDto,
+  })
+  async reactivateUser(@Param('id', ParseUUIDPipe) id: string, @Req() req: ExtendedRequest): Promise<UserAccountDto> {
+    this.logger.log(`Reactivate user request: ${id}`);
+    return await this.usersService.reactivateUser(id, req.user?.id);
+  }
+
+  // ============================================
+  // SESSION ENDPOINTS
+  // ============================================
+
+  /**
+   * List a user's sessions
+   */
+  @Get(':id/sessions')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'List user sessions',
+    description: 'List the devices currently holding a refresh token for the user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+    type: [SessionDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async getSessions(@Param('id', ParseUUIDPipe) id: string): Promise<SessionDto[]> {
+    return await this.usersService.getSessions(id);
+  }
+
+  /**
+   * Revoke a user's session
+   */
+  @Delete(':id/sessions/:sessionId')
+  @Audited({ action: 'REVOKE', resource: 'session' })
+  @Roles('system_admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke user session',
+    description: 'Sign the user out of one device; its refresh token stops working immediately',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Req() req: ExtendedRequest,
+  ): Promise<void> {
+    this.logger.log(`Revoke session request: ${sessionId} (user ${id})`);
+    await this.usersService.revokeSession(id, sessionId, req.user?.id);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * VaxTrace Nigeria - Users Module
+ *
+ * User administration for system admins: invite, role/location
+ * assignment, PIN resets and deactivation.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { User } from '../../entities/user.entity';
+import { Location } from '../../entities/location.entity';
+import { AuthModule } from '../auth/auth.module';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User, Location]), AuthModule],
+  controllers: [UsersController],
+  providers: [UsersService],
+  exports: [UsersService],
+})
+export class UsersModule {}
@@ -0,0 +1,142 @@
+/**
+ * VaxTrace Nigeria - User Administration Unit Tests
+ *
+ * Tests for user administration including:
+ * - Role / location level validation
+ * - One-time PIN issuing
+ * - Deactivation and session revocation
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+
+import { User, UserRole } from '../../entities/user.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { AuthService } from '../auth/auth.service';
+import { UsersService } from './users.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let mockUserRepository: any;
+  let mockLocationRepository: any;
+  let mockAuthService: { logout: jest.Mock };
+
+  const lga = { id: 'lga-1', name: 'Abuja Municipal', type: LocationType.LGA } as Location;
+  const state = { id: 'state-1', name: 'FCT', type: LocationType.STATE } as Location;
+
+  const storedUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 'user-1',
+      email: 'amac.logistics@vaxtrace.gov.ng',
+      role: UserRole.LGA_LOGISTICS_OFFICER,
+      assignedLocationId: 'lga-1',
+      assignedLocation: { ...lga, parent: state },
+      permissions: {},
+      isActive: true,
+      createdAt: new Date('2024-01-01'),
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    mockUserRepository = {
+      findOne: jest.fn(),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (user) => ({ id: 'user-1', ...user })),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockLocationRepository = {
+      findOne: jest.fn(async ({ where }) => [lga, state].find((location) => location.id === where.id) || null),
+    };
+
+    mockAuthService = { logout: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: getRepositoryToken(Location), useValue: mockLocationRepository },
+        { provide: AuthService, useValue: mockAuthService },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  describe('Invite', () => {
+    it('should create an LGA officer with a hashed one-time PIN', async () => {
+      mockUserRepository.findOne.mockResolvedValueOnce(null).mockResolvedValue(storedUser());
+
+      const result = await service.inviteUser({
+        email: 'AMAC.Logistics@vaxtrace.gov.ng',
+        role: UserRole.LGA_LOGISTICS_OFFICER,
+        assignedLocationId: 'lga-1',
+      });
+
+      const created = mockUserRepository.create.mock.calls[0][0];
+      expect(created.email).toBe('amac.logistics@vaxtrace.gov.ng');
+      expect(result.temporaryPin).toMatch(/^\d{6}$/);
+      expect(await bcrypt.compare(result.temporaryPin, created.pinHash)).toBe(true);
+      expect(result).toEqual(expect.objectContaining({ state: 'FCT', lga: 'Abuja Municipal' }));
+    });
+
+    it('should reject a location that does not match the role', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.inviteUser({
+          email: 'officer@vaxtrace.gov.ng',
+          role: UserRole.LGA_LOGISTICS_OFFICER,
+          assignedLocationId: 'state-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a duplicate email', async () => {
+      mockUserRepository.findOne.mockResolvedValue(storedUser());
+
+      await expect(
+        service.inviteUser({ email: 'amac.logistics@vaxtrace.gov.ng', role: UserRole.SYSTEM_ADMIN }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('Update', () => {
+    it('should re-validate the current location when only the role changes', async () => {
+      mockUserRepository.findOne.mockResolvedValue(storedUser());
+
+      await expect(service.updateUser('user-1', { role: UserRole.STATE_COLD_CHAIN_OFFICER })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should revoke sessions after a role change', async () => {
+      mockUserRepository.findOne.mockResolvedValue(storedUser());
+
+      await service.updateUser('user-1', { role: UserRole.STATE_COLD_CHAIN_OFFICER, assignedLocationId: 'state-1' });
+
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ role: UserRole.STATE_COLD_CHAIN_OFFICER, assignedLocationId: 'state-1' }),
+      );
+      expect(mockAuthService.logout).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('Deactivate', () => {
+    it('should deactivate the account and revoke sessions', async () => {
+      mockUserRepository.findOne.mockResolvedValue(storedUser());
+
+      await service.deactivateUser('user-1', 'admin-1');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', { isActive: false });
+      expect(mockAuthService.logout).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should not let admins deactivate themselves', async () => {
+      await expect(service.deactivateUser('admin-1', 'admin-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
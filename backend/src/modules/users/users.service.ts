@@ -0,0 +1,382 @@
+/**
+ * VaxTrace Nigeria - User Administration Service
+ *
+ * Lets system admins onboard and manage user accounts without SQL:
+ * - Invite users with a role and assigned location
+ * - Re-assign role / location and per-user permission overrides
+ * - Reset PINs (a one-time PIN is returned once and stored as a bcrypt hash)
+ * - Deactivate / reactivate accounts
+ * - List and revoke a user's login sessions
+ *
+ * The assigned location must match the role's level in the hierarchy
+ * (state officer -> state, LGA officer -> LGA, facility in-charge -> facility),
+ * since it is the location scope carried in the user's access token.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import * as bcrypt from 'bcrypt';
+
+import { User, UserRole } from '../../entities/user.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { AuthService } from '../auth/auth.service';
+import { SessionDto } from '../auth/dto/auth.dto';
+import {
+  UserQueryDto,
+  InviteUserDto,
+  UpdateUserDto,
+  UserAccountDto,
+  UsersResponseDto,
+  InviteUserResponseDto,
+  TemporaryPinDto,
+  LocationOptionsQueryDto,
+  LocationOptionDto,
+} from './dto/user.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+const BCRYPT_ROUNDS = 10;
+
+/**
+ * Location level each role must be assigned to (null = national, no location)
+ */
+export const ROLE_LOCATION_TYPES: Record<UserRole, LocationType | null> = {
+  [UserRole.NPHCDA_DIRECTOR]: null,
+  [UserRole.SYSTEM_ADMIN]: null,
+  [UserRole.STATE_COLD_CHAIN_OFFICER]: LocationType.STATE,
+  [UserRole.LGA_LOGISTICS_OFFICER]: LocationType.LGA,
+  [UserRole.FACILITY_IN_CHARGE]: LocationType.FACILITY,
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Location)
+    private readonly locationRepository: Repository<Location>,
+    private readonly authService: AuthService,
+  ) {
+    this.logger.log('User Administration Service initialized');
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  /**
+   * List users with role, state/LGA, status and text filters
+   */
+  async getUsers(query: UserQueryDto = {}): Promise<UsersResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+    const qb = this.userRepository
+      .createQueryBuilder('user')
+      .leftJoinAndSelect('user.assignedLocation', 'location')
+      .leftJoinAndSelect('location.parent', 'parentLocation')
+      .leftJoinAndSelect('parentLocation.parent', 'grandparentLocation');
+
+    if (query.role) {
+      qb.andWhere('user.role = :role', { role: query.role });
+    }
+
+    if (query.stateId) {
+      qb.andWhere(':stateId IN (location.id, parentLocation.id, grandparentLocation.id)', {
+        stateId: query.stateId,
+      });
+    }
+
+    if (query.lgaId) {
+      qb.andWhere(':lgaId IN (location.id, parentLocation.id)', { lgaId: query.lgaId });
+    }
+
+    if (query.isActive !== undefined) {
+      qb.andWhere('user.isActive = :isActive', { isActive: query.isActive });
+    }
+
+    if (query.search) {
+      qb.andWhere('(user.displayName ILIKE :search OR user.email ILIKE :search OR user.staffId ILIKE :search)', {
+        search: `%${query.search}%`,
+      });
+    }
+
+    qb.orderBy('user.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [users, total] = await qb.getManyAndCount();
+
+    return {
+      data: users.map((user) => this.toAccountDto(user)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getUser(userId: string): Promise<UserAccountDto> {
+    return this.toAccountDto(await this.findUserOrFail(userId));
+  }
+
+  /**
+   * Locations a user can be assigned to, for the admin pickers
+   */
+  async getLocationOptions(query: LocationOptionsQueryDto): Promise<LocationOptionDto[]> {
+    const locations = await this.locationRepository.find({
+      where: query.parentId ? { type: query.type, parentId: query.parentId } : { type: query.type },
+      order: { name: 'ASC' },
+    });
+
+    return locations.map((location) => ({
+      id: location.id,
+      name: location.name,
+      type: location.type,
+      parentId: location.parentId,
+    }));
+  }
+
+  // ============================================
+  // MUTATIONS
+  // ============================================
+
+  /**
+   * Create a user account with a one-time PIN for the first login
+   */
+  async inviteUser(dto: InviteUserDto, invitedBy?: string): Promise<InviteUserResponseDto> {
+    const email = dto.email.toLowerCase();
+
+    const existing = await this.userRepository.findOne({
+      where: dto.staffId ? [{ email }, { staffId: dto.staffId }] : { email },
+    });
+
+    if (existing) {
+      throw new ConflictException('A user with this email or staff ID already exists');
+    }
+
+    const assignedLocationId = await this.validateAssignment(dto.role, dto.assignedLocationId);
+    const temporaryPin = this.generatePin();
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        staffId: dto.staffId || null,
+        displayName: dto.displayName || null,
+        phoneNumber: dto.phoneNumber || null,
+        role: dto.role,
+        assignedLocationId,
+        permissions: dto.permissions || {},
+        authProvider: 'local',
+        pinHash: await bcrypt.hash(temporaryPin, BCRYPT_ROUNDS),
+        isActive: true,
+      }),
+    );
+
+    this.logger.log(`User invited: ${user.id} (${user.role}) by ${invitedBy || 'unknown'}`);
+
+    return {
+      ...(await this.getUser(user.id)),
+      temporaryPin,
+    };
+  }
+
+  /**
+   * Update profile, role, location or permission overrides
+   */
+  async updateUser(userId: string, dto: UpdateUserDto, updatedBy?: string): Promise<UserAccountDto> {
+    const user = await this.findUserOrFail(userId);
+
+    if (dto.role !== undefined || dto.assignedLocationId !== undefined) {
+      const role = dto.role ?? user.role;
+      const locationId = dto.assignedLocationId !== undefined ? dto.assignedLocationId : user.assignedLocationId;
+
+      user.assignedLocationId = await this.validateAssignment(role, locationId);
+      user.role = role;
+      // Drop the stale relation so save() persists the new foreign key
+      user.assignedLocation = undefined;
+    }
+
+    if (dto.displayName !== undefined) user.displayName = dto.displayName;
+    if (dto.phoneNumber !== undefined) user.phoneNumber = dto.phoneNumber;
+    if (dto.permissions !== undefined) user.permissions = dto.permissions;
+
+    await this.userRepository.save(user);
+
+    // Role/scope changes must not survive in refresh tokens issued before them
+    await this.authService.logout(userId);
+
+    this.logger.log(`User updated: ${userId} by ${updatedBy || 'unknown'}`);
+
+    return this.getUser(userId);
+  }
+
+  /**
+   * Replace the user's PIN with a new one-time PIN
+   */
+  async resetPin(userId: string, resetBy?: string): Promise<TemporaryPinDto> {
+    await this.findUserOrFail(userId);
+
+    const temporaryPin = this.generatePin();
+    await this.userRepository.update(userId, { pinHash: await bcrypt.hash(temporaryPin, BCRYPT_ROUNDS) });
+    await this.authService.logout(userId);
+
+    this.logger.log(`PIN reset for user: ${userId} by ${resetBy || 'unknown'}`);
+
+    return { userId, temporaryPin };
+  }
+
+  /**
+   * Deactivate an account and revoke its sessions
+   */
+  async deactivateUser(userId: string, deactivatedBy?: string): Promise<UserAccountDto> {
+    if (userId === deactivatedBy) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const user = await this.findUserOrFail(userId);
+
+    if (!user.isActive) {
+      throw new ConflictException(`User ${userId} is already deactivated`);
+    }
+
+    await this.userRepository.update(userId, { isActive: false });
+    await this.authService.logout(userId);
+
+    this.logger.log(`User deactivated: ${userId} by ${deactivatedBy || 'unknown'}`);
+
+    return this.getUser(userId);
+  }
+
+  /**
+   * Reactivate a deactivated account
+   */
+  async reactivateUser(userId: string, reactivatedBy?: string): Promise<UserAccountDto> {
+    const user = await this.findUserOrFail(userId);
+
+    if (user.isActive) {
+      throw new ConflictException(`User ${userId} is already active`);
+    }
+
+    await this.userRepository.update(userId, { isActive: true });
+
+    this.logger.log(`User reactivated: ${userId} by ${reactivatedBy || 'unknown'}`);
+
+    return this.getUser(userId);
+  }
+
+  /**
+   * List a user's active login sessions
+   */
+  async getSessions(userId: string): Promise<SessionDto[]> {
+    await this.findUserOrFail(userId);
+    return this.authService.listSessions(userId);
+  }
+
+  /**
+   * Revoke one of a user's sessions (e.g. a lost or shared device)
+   */
+  async revokeSession(userId: string, sessionId: string, revokedBy?: string): Promise<void> {
+    await this.authService.revokeSession(userId, sessionId);
+
+    this.logger.log(`Session ${sessionId} of user ${userId} revoked by ${revokedBy || 'unknown'}`);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private async findUserOrFail(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      relations: ['assignedLocation', 'assignedLocation.parent', 'assignedLocation.parent.parent'],
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return user;
+  }
+
+  /**
+   * Check that the location matches the role's level; returns the location ID to store
+   */
+  private async validateAssignment(role: UserRole, locationId?: string | null): Promise<string | null> {
+    const requiredType = ROLE_LOCATION_TYPES[role];
+
+    if (!requiredType) {
+      if (locationId) {
+        throw new BadRequestException(`Role ${role} is national and cannot be assigned to a location`);
+      }
+      return null;
+    }
+
+    if (!locationId) {
+      throw new BadRequestException(`Role ${role} requires an assigned ${requiredType}`);
+    }
+
+    const location = await this.locationRepository.findOne({ where: { id: locationId } });
+
+    if (!location) {
+      throw new NotFoundException(`Location ${locationId} not found`);
+    }
+
+    if (location.type !== requiredType) {
+      throw new BadRequestException(
+        `Role ${role} must be assigned to a ${requiredType}, but ${location.name} is a ${location.type}`,
+      );
+    }
+
+    return location.id;
+  }
+
+  private generatePin(): string {
+    return randomInt(0, 1000000).toString().padStart(6, '0');
+  }
+
+  private toAccountDto(user: User): UserAccountDto {
+    const names: { state?: string; lga?: string } = {};
+
+    for (let node = user.assignedLocation; node; node = node.parent) {
+      if (node.type === LocationType.STATE) names.state = node.name;
+      if (node.type === LocationType.LGA) names.lga = node.name;
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      staffId: user.staffId,
+      name: user.displayName || user.email,
+      phoneNumber: user.phoneNumber,
+      role: user.role,
+      assignedLocationId: user.assignedLocationId,
+      assignedLocation: user.assignedLocation?.name,
+      state: names.state,
+      lga: names.lga,
+      permissions: user.permissions || {},
+      isActive: user.isActive,
+      lastLoginAt: user.lastLoginAt?.toISOString(),
+      createdAt: user.createdAt?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * VaxTrace Nigeria - Webhook Subscription DTOs
+ *
+ * Data Transfer Objects for registering partner webhook endpoints and
+ * reading their delivery logs
+ *
+ * SECURITY: Signing secrets are write-only and never returned
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Sanitize } from '../../../common/decorators/sanitize.decorator';
+import { OutboundEventType } from '../../../entities/webhook-subscription.entity';
+import { WebhookDeliveryStatus } from '../../../entities/webhook-delivery.entity';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({ description: 'Partner name', example: 'Kano State EOC dashboard' })
+  @IsString()
+  @MaxLength(255)
+  @Sanitize()
+  name: string;
+
+  @ApiProperty({ description: 'HTTPS endpoint receiving the events', example: 'https://eoc.kano.gov.ng/hooks/vaxtrace' })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({ description: 'Shared secret used to sign payloads (HMAC-SHA256)', minLength: 16 })
+  @IsString()
+  @MinLength(16)
+  @MaxLength(255)
+  secret: string;
+
+  @ApiProperty({ description: 'Events delivered to this endpoint', enum: OutboundEventType, isArray: true })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(OutboundEventType, { each: true })
+  eventTypes: OutboundEventType[];
+
+  @ApiPropertyOptional({ description: 'Whether events are delivered', default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @ApiPropertyOptional({ description: 'Partner name', example: 'Kano State EOC dashboard' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  @Sanitize()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'HTTPS endpoint receiving the events', example: 'https://eoc.kano.gov.ng/hooks/vaxtrace' })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiPropertyOptional({ description: 'Shared secret used to sign payloads (HMAC-SHA256)', minLength: 16 })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(255)
+  secret?: string;
+
+  @ApiPropertyOptional({ description: 'Events delivered to this endpoint', enum: OutboundEventType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(OutboundEventType, { each: true })
+  eventTypes?: OutboundEventType[];
+
+  @ApiPropertyOptional({ description: 'Whether events are delivered', example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class WebhookDeliveryQueryDto {
+  @ApiPropertyOptional({ description: 'Delivery state', enum: WebhookDeliveryStatus })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ description: 'Event type', enum: OutboundEventType })
+  @IsOptional()
+  @IsEnum(OutboundEventType)
+  eventType?: OutboundEventType;
+
+  @ApiPropertyOptional({ description: 'Page number (1-based)', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class WebhookSubscriptionDto {
+  @ApiProperty({ description: 'Subscription ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Partner name' })
+  name: string;
+
+  @ApiProperty({ description: 'Endpoint receiving the events' })
+  url: string;
+
+  @ApiProperty({ description: 'Events delivered to this endpoint', enum: OutboundEventType, isArray: true })
+  eventTypes: OutboundEventType[];
+
+  @ApiProperty({ description: 'Whether events are delivered' })
+  isActive: boolean;
+
+  @ApiPropertyOptional({ description: 'Admin who registered the subscription' })
+  createdBy?: string;
+
+  @ApiProperty({ description: 'When the subscription was registered' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'When the subscription was last changed' })
+  updatedAt: string;
+}
+
+export class WebhookDeliveryDto {
+  @ApiProperty({ description: 'Delivery ID (sent as X-VaxTrace-Delivery)' })
+  id: string;
+
+  @ApiProperty({ description: 'Event ID (sent as the payload id)' })
+  eventId: string;
+
+  @ApiProperty({ description: 'Event type', enum: OutboundEventType })
+  eventType: OutboundEventType;
+
+  @ApiProperty({ description: 'Delivery state', enum: WebhookDeliveryStatus })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'Delivery attempts so far', example: 1 })
+  attempts: number;
+
+  @ApiPropertyOptional({ description: 'HTTP status returned by the partner on the last attempt', example: 200 })
+  responseStatus?: number;
+
+  @ApiPropertyOptional({ description: 'Error of the last failed attempt' })
+  lastError?: string;
+
+  @ApiPropertyOptional({ description: 'Next retry, for failed deliveries' })
+  nextAttemptAt?: string;
+
+  @ApiProperty({ description: 'Signed payload' })
+  payload: Record<string, any>;
+
+  @ApiProperty({ description: 'When the event was raised' })
+  createdAt: string;
+
+  @ApiPropertyOptional({ description: 'When the partner accepted the event' })
+  deliveredAt?: string;
+}
+
+export class WebhookDeliveriesResponseDto {
+  @ApiProperty({ description: 'Deliveries, newest first', type: [WebhookDeliveryDto] })
+  data: WebhookDeliveryDto[];
+
+  @ApiProperty({ description: 'Total matching deliveries', example: 12 })
+  total: number;
+
+  @ApiProperty({ description: 'Page number', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Page size', example: 50 })
+  limit: number;
+}
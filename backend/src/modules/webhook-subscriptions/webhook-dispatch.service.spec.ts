@@ -0,0 +1,186 @@
+/**
+ * VaxTrace Nigeria - Webhook Dispatch Service Unit Tests
+ *
+ * Tests for outbound partner webhooks including:
+ * - Queueing one delivery per matching active subscription
+ * - HMAC-signed POSTs with event and delivery headers
+ * - Retries with backoff, dead-lettering and lost claims
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+
+import { WebhookSubscription, OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../entities/webhook-delivery.entity';
+import { WebhookDispatchService, signWebhookPayload } from './webhook-dispatch.service';
+
+describe('WebhookDispatchService', () => {
+  let service: WebhookDispatchService;
+  let mockSubscriptionQueryBuilder: any;
+  let mockDeliveryQueryBuilder: any;
+  let mockDeliveryRepository: any;
+  let fetchMock: jest.Mock;
+
+  const SECRET = 'partner-secret-0123456789';
+
+  const subscription = {
+    id: 'sub-1',
+    name: 'Kano EOC',
+    url: 'https://eoc.kano.gov.ng/hooks/vaxtrace',
+    secret: SECRET,
+    isActive: true,
+  } as WebhookSubscription;
+
+  const delivery = (overrides: Partial<WebhookDelivery> = {}): WebhookDelivery =>
+    ({
+      id: 'del-1',
+      subscriptionId: 'sub-1',
+      subscription,
+      eventId: 'evt-1',
+      eventType: OutboundEventType.STOCKOUT,
+      payload: { id: 'evt-1', eventType: OutboundEventType.STOCKOUT, data: { facilityId: 'fac-1' } },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      ...overrides,
+    }) as WebhookDelivery;
+
+  beforeEach(async () => {
+    mockSubscriptionQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([subscription, { ...subscription, id: 'sub-2' }]),
+    };
+
+    mockDeliveryQueryBuilder = {
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([delivery()]),
+    };
+
+    mockDeliveryRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (data) => data),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => mockDeliveryQueryBuilder),
+    };
+
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    global.fetch = fetchMock;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatchService,
+        {
+          provide: getRepositoryToken(WebhookSubscription),
+          useValue: { createQueryBuilder: jest.fn(() => mockSubscriptionQueryBuilder) },
+        },
+        { provide: getRepositoryToken(WebhookDelivery), useValue: mockDeliveryRepository },
+        { provide: ConfigService, useValue: { get: jest.fn((key) => (key === 'WEBHOOK_MAX_ATTEMPTS' ? '3' : undefined)) } },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDispatchService>(WebhookDispatchService);
+  });
+
+  describe('Publishing', () => {
+    it('should queue one delivery per active subscription listening to the event', async () => {
+      await service.publish(OutboundEventType.ALERT_CREATED, { id: 'alert-1' });
+
+      expect(mockSubscriptionQueryBuilder.andWhere).toHaveBeenCalledWith(':eventType = ANY(subscription.eventTypes)', {
+        eventType: OutboundEventType.ALERT_CREATED,
+      });
+      const [deliveries] = mockDeliveryRepository.save.mock.calls[0];
+      expect(deliveries.map((d: WebhookDelivery) => d.subscriptionId)).toEqual(['sub-1', 'sub-2']);
+      expect(deliveries[0]).toEqual(
+        expect.objectContaining({
+          eventType: OutboundEventType.ALERT_CREATED,
+          status: WebhookDeliveryStatus.PENDING,
+          payload: expect.objectContaining({ eventType: OutboundEventType.ALERT_CREATED, data: { id: 'alert-1' } }),
+        }),
+      );
+      // Every subscriber sees the same event ID
+      expect(deliveries[0].eventId).toBe(deliveries[1].eventId);
+    });
+
+    it('should not queue anything without subscribers', async () => {
+      mockSubscriptionQueryBuilder.getMany.mockResolvedValue([]);
+
+      await service.publish(OutboundEventType.ALERT_CREATED, { id: 'alert-1' });
+
+      expect(mockDeliveryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should never fail the caller', async () => {
+      mockDeliveryRepository.save.mockRejectedValue(new Error('connection refused'));
+
+      await expect(service.publish(OutboundEventType.ALERT_CREATED, { id: 'alert-1' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Delivery', () => {
+    it('should POST the payload signed with the subscription secret', async () => {
+      const delivered = await service.deliverPending();
+
+      expect(delivered).toBe(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(subscription.url);
+      expect(init.headers).toEqual(
+        expect.objectContaining({
+          'X-VaxTrace-Event': OutboundEventType.STOCKOUT,
+          'X-VaxTrace-Delivery': 'del-1',
+          'X-VaxTrace-Signature': signWebhookPayload(init.body, SECRET),
+        }),
+      );
+      expect(JSON.parse(init.body)).toEqual(delivery().payload);
+      expect(mockDeliveryRepository.update).toHaveBeenLastCalledWith(
+        'del-1',
+        expect.objectContaining({ status: WebhookDeliveryStatus.DELIVERED, responseStatus: 200 }),
+      );
+    });
+
+    it('should retry with backoff when the partner rejects the delivery', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const before = Date.now();
+
+      await service.deliverPending();
+
+      const [, update] = mockDeliveryRepository.update.mock.calls[1];
+      expect(update).toEqual(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.FAILED,
+          responseStatus: 503,
+          lastError: 'HTTP 503 Service Unavailable',
+        }),
+      );
+      expect(update.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 1000);
+    });
+
+    it('should dead-letter a delivery that runs out of attempts', async () => {
+      mockDeliveryQueryBuilder.getMany.mockResolvedValue([delivery({ status: WebhookDeliveryStatus.FAILED, attempts: 2 })]);
+      fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await service.deliverPending();
+
+      expect(mockDeliveryRepository.update).toHaveBeenLastCalledWith(
+        'del-1',
+        expect.objectContaining({ status: WebhookDeliveryStatus.DEAD_LETTER, lastError: 'getaddrinfo ENOTFOUND' }),
+      );
+    });
+
+    it('should skip deliveries claimed by another worker', async () => {
+      mockDeliveryRepository.update.mockResolvedValue({ affected: 0 });
+
+      const delivered = await service.deliverPending();
+
+      expect(delivered).toBe(0);
+      expect(mockDeliveryRepository.update).toHaveBeenCalledWith(
+        { id: 'del-1', status: WebhookDeliveryStatus.PENDING, attempts: 0 },
+        { status: WebhookDeliveryStatus.PROCESSING, attempts: 1 },
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
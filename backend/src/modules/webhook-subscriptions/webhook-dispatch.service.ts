@@ -0,0 +1,254 @@
+/**
+ * VaxTrace Nigeria - Webhook Dispatch Service
+ *
+ * Notifies partner systems (state EOCs, NGO dashboards) of VaxTrace events.
+ *
+ * `publish` records one delivery per active subscription whose event filter
+ * matches; it never fails the action that raised the event. A scheduled
+ * worker then POSTs each delivery to the partner:
+ *
+ *   X-VaxTrace-Event:     event type
+ *   X-VaxTrace-Delivery:  delivery ID
+ *   X-VaxTrace-Signature: hex HMAC-SHA256 of the raw body with the
+ *                         subscription secret (the scheme used to verify
+ *                         incoming OpenLMIS webhooks)
+ *
+ * Non-2xx responses and network errors are retried with exponential
+ * backoff; deliveries that run out of attempts are moved to the dead-letter
+ * state and can be redelivered by an admin.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+
+import { WebhookSubscription, OutboundEventType } from '../../entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../entities/webhook-delivery.entity';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const WEBHOOK_OUTBOX_JOB = 'webhook-outbox';
+
+export const EVENT_HEADER = 'X-VaxTrace-Event';
+export const DELIVERY_HEADER = 'X-VaxTrace-Delivery';
+export const SIGNATURE_HEADER = 'X-VaxTrace-Signature';
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 25;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A worker that crashed mid-delivery leaves it in `processing`; reclaim it after this
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// ============================================
+// SIGNING
+// ============================================
+
+/**
+ * Hex HMAC-SHA256 of a raw webhook body
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class WebhookDispatchService {
+  private readonly logger = new Logger(WebhookDispatchService.name);
+  private readonly maxAttempts: number;
+  private isDelivering = false;
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(this.configService.get('WEBHOOK_MAX_ATTEMPTS')) || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Queue an event for every active subscription listening to it.
+   * Call after the change that raised the event has been committed.
+   */
+  async publish(eventType: OutboundEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptionRepository
+        .createQueryBuilder('subscription')
+        .where('subscription.isActive = true')
+        .andWhere(':eventType = ANY(subscription.eventTypes)', { eventType })
+        .getMany();
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const eventId = crypto.randomUUID();
+      const payload = { id: eventId, eventType, timestamp: new Date().toISOString(), data };
+
+      await this.deliveryRepository.save(
+        subscriptions.map((subscription) =>
+          this.deliveryRepository.create({
+            subscriptionId: subscription.id,
+            eventId,
+            eventType,
+            payload,
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 0,
+            nextAttemptAt: new Date(),
+          }),
+        ),
+      );
+
+      this.logger.log(`Event ${eventType} queued for ${subscriptions.length} subscription(s)`);
+    } catch (error) {
+      // Notifying partners never fails the action that raised the event
+      this.logger.error(`Failed to queue ${eventType} webhook deliveries`, error.stack);
+    }
+  }
+
+  /**
+   * Send due deliveries: new ones, failed ones whose backoff has elapsed and
+   * ones left in `processing` by a crashed worker. Deliveries of paused
+   * subscriptions wait until the subscription is reactivated.
+   */
+  @Interval(WEBHOOK_OUTBOX_JOB, POLL_INTERVAL_MS)
+  async deliverPending(): Promise<number> {
+    if (this.isDelivering) {
+      return 0;
+    }
+
+    this.isDelivering = true;
+    let delivered = 0;
+
+    try {
+      const now = new Date();
+      const due = await this.deliveryRepository
+        .createQueryBuilder('delivery')
+        .innerJoinAndSelect('delivery.subscription', 'subscription', 'subscription.isActive = true')
+        .where(
+          '((delivery.status IN (:...retryable) AND delivery.nextAttemptAt <= :now) ' +
+            'OR (delivery.status = :processing AND delivery.updatedAt < :staleBefore))',
+          {
+            retryable: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.FAILED],
+            now,
+            processing: WebhookDeliveryStatus.PROCESSING,
+            staleBefore: new Date(now.getTime() - STALE_PROCESSING_MS),
+          },
+        )
+        .orderBy('delivery.createdAt', 'ASC')
+        .take(BATCH_SIZE)
+        .getMany();
+
+      for (const delivery of due) {
+        if (await this.deliver(delivery)) {
+          delivered++;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to send webhook deliveries', error.stack);
+    } finally {
+      this.isDelivering = false;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Claim and send a single delivery. Returns false when another worker
+   * claimed it first or the partner did not accept it.
+   */
+  private async deliver(delivery: WebhookDelivery): Promise<boolean> {
+    const attempts = delivery.attempts + 1;
+
+    // Optimistic claim: the status/attempts pair acts as the version
+    const claim = await this.deliveryRepository.update(
+      { id: delivery.id, status: delivery.status, attempts: delivery.attempts },
+      { status: WebhookDeliveryStatus.PROCESSING, attempts },
+    );
+    if (!claim.affected) {
+      return false;
+    }
+
+    let responseStatus: number = null;
+
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'VaxTrace-Webhooks/1.0',
+          [EVENT_HEADER]: delivery.eventType,
+          [DELIVERY_HEADER]: delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(body, delivery.subscription.secret),
+        },
+        body,
+        // Partners must answer at the registered URL
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+
+      await this.deliveryRepository.update(delivery.id, {
+        status: WebhookDeliveryStatus.DELIVERED,
+        responseStatus,
+        deliveredAt: new Date(),
+        lastError: null,
+      });
+      return true;
+    } catch (error) {
+      const message = error?.message || String(error);
+
+      if (attempts >= this.maxAttempts) {
+        this.logger.error(
+          `Webhook delivery ${delivery.id} to ${delivery.subscription.name} moved to dead letter ` +
+            `after ${attempts} attempts: ${message}`,
+        );
+        await this.deliveryRepository.update(delivery.id, {
+          status: WebhookDeliveryStatus.DEAD_LETTER,
+          responseStatus,
+          lastError: message,
+        });
+      } else {
+        const delay = this.getRetryDelay(attempts);
+        this.logger.warn(
+          `Webhook delivery ${delivery.id} to ${delivery.subscription.name} failed (attempt ${attempts}/${this.maxAttempts}), ` +
+            `retrying in ${Math.round(delay / 1000)}s: ${message}`,
+        );
+        await this.deliveryRepository.update(delivery.id, {
+          status: WebhookDeliveryStatus.FAILED,
+          responseStatus,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lastError: message,
+        });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6h
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+}
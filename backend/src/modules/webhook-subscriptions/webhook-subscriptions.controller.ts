@@ -0,0 +1,208 @@
+/**
+ * VaxTrace Nigeria - Webhook Subscriptions Controller
+ *
+ * Partner webhook registry, restricted to system admins.
+ *
+ * Endpoints:
+ * - GET /api/v1/webhooks/subscriptions - List subscriptions
+ * - GET /api/v1/webhooks/subscriptions/:id - Get a subscription
+ * - POST /api/v1/webhooks/subscriptions - Register a partner endpoint
+ * - PATCH /api/v1/webhooks/subscriptions/:id - Change URL, secret, event filter or active state
+ * - DELETE /api/v1/webhooks/subscriptions/:id - Delete a subscription and its delivery log
+ * - GET /api/v1/webhooks/subscriptions/:id/deliveries - Delivery log (filter by status, event type)
+ * - POST /api/v1/webhooks/subscriptions/:id/deliveries/:deliveryId/redeliver - Send a delivery again
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { ExtendedRequest } from '../../middleware/jwt.middleware';
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { Audited } from '../audit/audit.interceptor';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+  WebhookDeliveryQueryDto,
+  WebhookDeliveryDto,
+  WebhookDeliveriesResponseDto,
+} from './dto/webhook-subscription.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@Controller('webhooks/subscriptions')
+@UseGuards(RBACGuard)
+export class WebhookSubscriptionsController {
+  private readonly logger = new Logger(WebhookSubscriptionsController.name);
+
+  constructor(private readonly subscriptionsService: WebhookSubscriptionsService) {}
+
+  /**
+   * List subscriptions
+   */
+  @Get()
+  @Roles('system_admin')
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscriptions retrieved successfully',
+    type: [WebhookSubscriptionDto],
+  })
+  async getSubscriptions(): Promise<WebhookSubscriptionDto[]> {
+    return await this.subscriptionsService.getSubscriptions();
+  }
+
+  /**
+   * Get a subscription
+   */
+  @Get(':id')
+  @Roles('system_admin')
+  @ApiOperation({ summary: 'Get webhook subscription' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription retrieved successfully',
+    type: WebhookSubscriptionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Subscription not found',
+  })
+  async getSubscription(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookSubscriptionDto> {
+    return await this.subscriptionsService.getSubscription(id);
+  }
+
+  /**
+   * Register a partner endpoint
+   */
+  @Post()
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Create webhook subscription',
+    description: 'Register an HTTPS endpoint, its signing secret and the events it receives',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscription created successfully',
+    type: WebhookSubscriptionDto,
+  })
+  async createSubscription(
+    @Body() body: CreateWebhookSubscriptionDto,
+    @Req() req: ExtendedRequest,
+  ): Promise<WebhookSubscriptionDto> {
+    this.logger.log(`Create webhook subscription request: ${body.name}`);
+    return await this.subscriptionsService.createSubscription(body, req.user?.id);
+  }
+
+  /**
+   * Update a subscription
+   */
+  @Patch(':id')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Update webhook subscription',
+    description: 'Change the URL, secret, event filter or active state. Paused subscriptions keep their queued deliveries.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription updated successfully',
+    type: WebhookSubscriptionDto,
+  })
+  async updateSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    this.logger.log(`Update webhook subscription request: ${id}`);
+    return await this.subscriptionsService.updateSubscription(id, body);
+  }
+
+  /**
+   * Delete a subscription
+   */
+  @Delete(':id')
+  @Roles('system_admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete webhook subscription',
+    description: 'Delete the subscription together with its delivery log',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Subscription deleted successfully',
+  })
+  async deleteSubscription(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    this.logger.log(`Delete webhook subscription request: ${id}`);
+    await this.subscriptionsService.deleteSubscription(id);
+  }
+
+  /**
+   * Delivery log of a subscription
+   */
+  @Get(':id/deliveries')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Get webhook deliveries',
+    description: 'Deliveries of the subscription with their status, attempts and last error, newest first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries retrieved successfully',
+    type: WebhookDeliveriesResponseDto,
+  })
+  async getDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: WebhookDeliveryQueryDto,
+  ): Promise<WebhookDeliveriesResponseDto> {
+    return await this.subscriptionsService.getDeliveries(id, query);
+  }
+
+  /**
+   * Send a delivery again
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @Roles('system_admin')
+  @Audited({ action: 'REDELIVER', resource: 'webhook_delivery' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Redeliver webhook',
+    description: 'Queue a delivered, failed or dead-lettered delivery again with a fresh set of attempts',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery queued',
+    type: WebhookDeliveryDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Delivery is still queued',
+  })
+  async redeliver(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    this.logger.log(`Redeliver webhook request: ${deliveryId}`);
+    return await this.subscriptionsService.redeliver(id, deliveryId);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * VaxTrace Nigeria - Webhook Subscriptions Module
+ *
+ * Outbound webhooks: partner subscriptions, signed event deliveries with
+ * retries and a delivery log per subscription. Modules raising partner
+ * events import this module and call WebhookDispatchService.publish.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { WebhookSubscription } from '../../entities/webhook-subscription.entity';
+import { WebhookDelivery } from '../../entities/webhook-delivery.entity';
+import { WebhookSubscriptionsController } from './webhook-subscriptions.controller';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import { WebhookDispatchService } from './webhook-dispatch.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery])],
+  controllers: [WebhookSubscriptionsController],
+  providers: [WebhookSubscriptionsService, WebhookDispatchService],
+  exports: [WebhookDispatchService],
+})
+export class WebhookSubscriptionsModule {}
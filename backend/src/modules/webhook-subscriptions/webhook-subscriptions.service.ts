@@ -0,0 +1,199 @@
+/**
+ * VaxTrace Nigeria - Webhook Subscriptions Service
+ *
+ * Registry of partner webhook endpoints and their delivery logs.
+ * Signing secrets are stored for the dispatcher but never returned.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { WebhookSubscription } from '../../entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../entities/webhook-delivery.entity';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+  WebhookDeliveryQueryDto,
+  WebhookDeliveryDto,
+  WebhookDeliveriesResponseDto,
+} from './dto/webhook-subscription.dto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Deliveries still queued are sent without admin action
+const REDELIVERABLE_STATUSES = [WebhookDeliveryStatus.DELIVERED, WebhookDeliveryStatus.FAILED, WebhookDeliveryStatus.DEAD_LETTER];
+
+// ============================================
+// SERVICE
+// ============================================
+
+@Injectable()
+export class WebhookSubscriptionsService {
+  private readonly logger = new Logger(WebhookSubscriptionsService.name);
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+  ) {}
+
+  // ============================================
+  // SUBSCRIPTIONS
+  // ============================================
+
+  async getSubscriptions(): Promise<WebhookSubscriptionDto[]> {
+    const subscriptions = await this.subscriptionRepository.find({ order: { createdAt: 'DESC' } });
+    return subscriptions.map((subscription) => this.toSubscriptionDto(subscription));
+  }
+
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscriptionDto> {
+    return this.toSubscriptionDto(await this.findSubscriptionOrFail(subscriptionId));
+  }
+
+  async createSubscription(dto: CreateWebhookSubscriptionDto, userId?: string): Promise<WebhookSubscriptionDto> {
+    const subscription = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        ...dto,
+        isActive: dto.isActive ?? true,
+        createdBy: userId || null,
+      }),
+    );
+
+    this.logger.log(`Webhook subscription created: ${subscription.name} (${subscription.eventTypes.join(', ')})`);
+
+    return this.toSubscriptionDto(subscription);
+  }
+
+  async updateSubscription(subscriptionId: string, dto: UpdateWebhookSubscriptionDto): Promise<WebhookSubscriptionDto> {
+    const subscription = await this.findSubscriptionOrFail(subscriptionId);
+
+    Object.assign(subscription, dto);
+    await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(`Webhook subscription updated: ${subscriptionId}`);
+
+    return this.toSubscriptionDto(subscription);
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    const result = await this.subscriptionRepository.delete(subscriptionId);
+
+    if (!result.affected) {
+      throw new NotFoundException(`Webhook subscription ${subscriptionId} not found`);
+    }
+
+    this.logger.log(`Webhook subscription deleted: ${subscriptionId}`);
+  }
+
+  // ============================================
+  // DELIVERY LOG
+  // ============================================
+
+  /**
+   * Deliveries of a subscription, newest first
+   */
+  async getDeliveries(subscriptionId: string, query: WebhookDeliveryQueryDto = {}): Promise<WebhookDeliveriesResponseDto> {
+    await this.findSubscriptionOrFail(subscriptionId);
+
+    const page = query.page || 1;
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+    const [deliveries, total] = await this.deliveryRepository.findAndCount({
+      where: {
+        subscriptionId,
+        ...(query.status && { status: query.status }),
+        ...(query.eventType && { eventType: query.eventType }),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: deliveries.map((delivery) => this.toDeliveryDto(delivery)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Send a delivery again with a fresh set of attempts
+   */
+  async redeliver(subscriptionId: string, deliveryId: string): Promise<WebhookDeliveryDto> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id: deliveryId, subscriptionId } });
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+    if (!REDELIVERABLE_STATUSES.includes(delivery.status)) {
+      throw new ConflictException(`Webhook delivery ${deliveryId} is still queued`);
+    }
+
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    delivery.lastError = null;
+    await this.deliveryRepository.save(delivery);
+
+    this.logger.log(`Webhook delivery ${deliveryId} queued for redelivery`);
+
+    return this.toDeliveryDto(delivery);
+  }
+
+  // ============================================
+  // PRIVATE METHODS
+  // ============================================
+
+  private async findSubscriptionOrFail(subscriptionId: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({ where: { id: subscriptionId } });
+
+    if (!subscription) {
+      throw new NotFoundException(`Webhook subscription ${subscriptionId} not found`);
+    }
+
+    return subscription;
+  }
+
+  private toSubscriptionDto(subscription: WebhookSubscription): WebhookSubscriptionDto {
+    return {
+      id: subscription.id,
+      name: subscription.name,
+      url: subscription.url,
+      eventTypes: subscription.eventTypes,
+      isActive: subscription.isActive,
+      createdBy: subscription.createdBy,
+      createdAt: subscription.createdAt?.toISOString(),
+      updatedAt: subscription.updatedAt?.toISOString(),
+    };
+  }
+
+  private toDeliveryDto(delivery: WebhookDelivery): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      nextAttemptAt: delivery.nextAttemptAt?.toISOString(),
+      payload: delivery.payload,
+      createdAt: delivery.createdAt?.toISOString(),
+      deliveredAt: delivery.deliveredAt?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * VaxTrace Nigeria - Webhook Inbox DTOs
+ *
+ * Data Transfer Objects for inspecting, replaying and discarding
+ * stored webhook events
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { IsOptional, IsEnum, IsInt, IsString, Matches, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventStatus } from '../../../entities/webhook-event.entity';
+
+// ============================================
+// REQUEST DTOS
+// ============================================
+
+export class WebhookEventQueryDto {
+  @ApiPropertyOptional({ description: 'Processing state', enum: WebhookEventStatus })
+  @IsOptional()
+  @IsEnum(WebhookEventStatus)
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({ description: 'Event type', example: 'stock.stockout' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[a-zA-Z_.]+$/)
+  eventType?: string;
+
+  @ApiPropertyOptional({ description: 'Page number (1-based)', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+// ============================================
+// RESPONSE DTOS
+// ============================================
+
+export class WebhookEventDto {
+  @ApiProperty({ description: 'Inbox record ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Source event ID' })
+  eventId: string;
+
+  @ApiProperty({ description: 'Event type', example: 'stock.stockout' })
+  eventType: string;
+
+  @ApiProperty({ description: 'Processing state', enum: WebhookEventStatus })
+  status: WebhookEventStatus;
+
+  @ApiProperty({ description: 'Processing attempts so far', example: 3 })
+  attempts: number;
+
+  @ApiPropertyOptional({ description: 'Next retry, for failed events' })
+  nextAttemptAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Error of the last failed attempt' })
+  lastError?: string;
+
+  @ApiProperty({ description: 'Event payload as received' })
+  payload: Record<string, any>;
+
+  @ApiProperty({ description: 'When the event was received' })
+  receivedAt: Date;
+
+  @ApiPropertyOptional({ description: 'When the event was processed' })
+  processedAt?: Date;
+}
+
+export class WebhookEventsResponseDto {
+  @ApiProperty({ description: 'Events, newest first', type: [WebhookEventDto] })
+  data: WebhookEventDto[];
+
+  @ApiProperty({ description: 'Total matching events', example: 12 })
+  total: number;
+
+  @ApiProperty({ description: 'Page number', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Page size', example: 50 })
+  limit: number;
+}
+
+export class WebhookQueueStatusDto {
+  @ApiProperty({ description: 'Events not processed yet (pending, processing or waiting for a retry)', example: 4 })
+  queued: number;
+
+  @ApiProperty({ example: 3 })
+  pending: number;
+
+  @ApiProperty({ example: 0 })
+  processing: number;
+
+  @ApiProperty({ example: 1520 })
+  processed: number;
+
+  @ApiProperty({ description: 'Failed, waiting for a retry', example: 1 })
+  failed: number;
+
+  @ApiProperty({ description: 'Out of attempts', example: 2 })
+  deadLetter: number;
+
+  @ApiProperty({ example: 0 })
+  discarded: number;
+
+  @ApiPropertyOptional({ description: 'When the oldest unprocessed event was received' })
+  oldestQueuedAt?: Date;
+}
@@ -0,0 +1,147 @@
+/**
+ * VaxTrace Nigeria - Webhook Events Controller
+ *
+ * Inbox administration endpoints, restricted to system admins.
+ *
+ * Endpoints:
+ * - GET /api/v1/webhooks/events - List stored events (filter by status, type)
+ * - GET /api/v1/webhooks/events/status - Inbox counts per processing state
+ * - GET /api/v1/webhooks/events/:id - Get an event with its payload and last error
+ * - POST /api/v1/webhooks/events/:id/replay - Process a failed or discarded event again
+ * - POST /api/v1/webhooks/events/:id/discard - Stop processing an event
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { Controller, Get, Post, HttpCode, HttpStatus, Logger, Param, ParseUUIDPipe, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { RBACGuard, Roles } from '../../guards/rbac.guard';
+import { Audited } from '../audit/audit.interceptor';
+import { WebhookService } from './webhook.service';
+import {
+  WebhookEventQueryDto,
+  WebhookEventDto,
+  WebhookEventsResponseDto,
+  WebhookQueueStatusDto,
+} from './dto/webhook-event.dto';
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@Controller('webhooks/events')
+@UseGuards(RBACGuard)
+export class WebhookEventsController {
+  private readonly logger = new Logger(WebhookEventsController.name);
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * List stored events
+   */
+  @Get()
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'List webhook events',
+    description: 'Stored incoming events, newest first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events retrieved successfully',
+    type: WebhookEventsResponseDto,
+  })
+  async listEvents(@Query() query: WebhookEventQueryDto): Promise<WebhookEventsResponseDto> {
+    return await this.webhookService.listEvents(query);
+  }
+
+  /**
+   * Inbox counts
+   */
+  @Get('status')
+  @Roles('system_admin')
+  @ApiOperation({
+    summary: 'Webhook inbox status',
+    description: 'Number of events per processing state and the age of the oldest unprocessed event',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inbox status retrieved successfully',
+    type: WebhookQueueStatusDto,
+  })
+  async getQueueStatus(): Promise<WebhookQueueStatusDto> {
+    return await this.webhookService.getQueueStatus();
+  }
+
+  /**
+   * Get an event
+   */
+  @Get(':id')
+  @Roles('system_admin')
+  @ApiOperation({ summary: 'Get webhook event' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event retrieved successfully',
+    type: WebhookEventDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook event not found',
+  })
+  async getEvent(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookEventDto> {
+    return await this.webhookService.getEvent(id);
+  }
+
+  /**
+   * Replay an event
+   */
+  @Post(':id/replay')
+  @Roles('system_admin')
+  @Audited({ action: 'REPLAY', resource: 'webhook_event' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay webhook event',
+    description: 'Queue a failed, dead-lettered or discarded event for processing with a fresh set of attempts',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event queued',
+    type: WebhookEventDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Webhook event is not failed, dead-lettered or discarded',
+  })
+  async replayEvent(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookEventDto> {
+    this.logger.log(`Replay webhook event request: ${id}`);
+    return await this.webhookService.replayEvent(id);
+  }
+
+  /**
+   * Discard an event
+   */
+  @Post(':id/discard')
+  @Roles('system_admin')
+  @Audited({ action: 'DISCARD', resource: 'webhook_event' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Discard webhook event',
+    description: 'Stop retrying a pending, failed or dead-lettered event',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event discarded',
+    type: WebhookEventDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Webhook event is already processed or discarded',
+  })
+  async discardEvent(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookEventDto> {
+    this.logger.log(`Discard webhook event request: ${id}`);
+    return await this.webhookService.discardEvent(id);
+  }
+}
@@ -34,6 +34,7 @@ export class WebhookController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Receive webhook from OpenLMIS' })
   @ApiHeader({ name: 'x-openlmis-signature', description: 'HMAC signature', required: true })
+  @ApiHeader({ name: 'x-openlmis-event-id', description: 'Event ID used to ignore redeliveries', required: false })
   @ApiResponse({ status: 200, description: 'Webhook received successfully' })
   @ApiResponse({ status: 400, description: 'Invalid webhook payload' })
   @ApiResponse({ status: 401, description: 'Invalid signature' })
@@ -61,12 +62,14 @@ export class WebhookController {
       throw new UnauthorizedException('Invalid webhook signature');
     }
 
-    // Process the webhook (queued for async processing)
-    await this.webhookService.processEvent(payload);
+    // Stored in the inbox before acknowledging; redeliveries are ignored
+    const event = await this.webhookService.receiveEvent(payload, headers['x-openlmis-event-id']);
 
     return {
       success: true,
-      message: 'Webhook queued for processing',
+      message: event.duplicate ? 'Webhook already received' : 'Webhook queued for processing',
+      eventId: event.eventId,
+      duplicate: event.duplicate,
       timestamp: new Date().toISOString(),
     };
   }
@@ -1,11 +1,17 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { WebhookController } from './webhook.controller';
+import { WebhookEventsController } from './webhook-events.controller';
 import { WebhookService } from './webhook.service';
 import { CacheModule } from '../cache/cache.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+import { StockModule } from '../stock/stock.module';
+import { WebhookEvent } from '../../entities/webhook-event.entity';
 
 @Module({
-  imports: [CacheModule],
-  controllers: [WebhookController],
+  imports: [TypeOrmModule.forFeature([WebhookEvent]), CacheModule, AlertsModule, WebSocketModule, StockModule],
+  controllers: [WebhookController, WebhookEventsController],
   providers: [WebhookService],
   exports: [WebhookService],
 })
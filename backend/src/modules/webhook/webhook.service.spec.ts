@@ -1,35 +1,86 @@
 /**
  * VaxTrace Nigeria - Webhook Service Unit Tests
- * 
+ *
  * Tests for webhook processing including:
- * - Event queuing and processing
- * - Write-through cache pattern (race condition fix)
  * - Signature verification
- * - Alert deduplication
+ * - Inbox storage and idempotency by event ID
+ * - Transactional apply to requisitions, stock and locations
+ * - Write-through cache pattern (race condition fix)
+ * - Retries with exponential backoff and dead-lettering
+ * - Stockout alerts and their deduplication
+ * - Replay and discard of failed events
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import * as crypto from 'crypto';
 import { WebhookService } from './webhook.service';
 import { CacheService } from '../cache/cache.service';
+import { AlertsService } from '../alerts/alerts.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService } from '../stock/stock-snapshot.service';
+import { WebhookEvent, WebhookEventStatus } from '../../entities/webhook-event.entity';
+import { Alert, AlertSeverity, AlertType } from '../../entities/alert.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Requisition, RequisitionStatus } from '../../entities/requisition.entity';
+import { StockLedger } from '../../entities/stock-ledger.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
 
 describe('WebhookService', () => {
   let service: WebhookService;
   let mockCacheService: jest.Mocked<CacheService>;
-  let mockConfigService: jest.Mocked<ConfigService>;
-
-  const mockConfig = {
-    get: jest.fn((key: string, defaultValue?: any) => {
-      const config: Record<string, any> = {
-        WEBHOOK_SECRET: 'test-webhook-secret',
-      };
-      return config[key] ?? defaultValue;
-    }),
-  };
+  let mockRepository: Record<string, jest.Mock>;
+  let mockQueryBuilder: Record<string, jest.Mock>;
+  let mockAlertQueryBuilder: Record<string, jest.Mock>;
+  let repositories: Map<unknown, Record<string, jest.Mock>>;
+  let mockDataSource: { transaction: jest.Mock };
+  let mockWebSocketService: { broadcastAlert: jest.Mock };
+  let mockProductBatchService: { recordLots: jest.Mock };
+  let mockAlertsService: { toAlertDto: jest.Mock; publishAlertEvent: jest.Mock };
+
+  const facility = {
+    id: 'loc-fac-1',
+    openlmisId: 'fac-123',
+    type: LocationType.FACILITY,
+    parent: { id: 'lga-1', type: LocationType.LGA, parentId: 'state-1' },
+  } as Location;
+  const vaccine = { id: 'vac-1', code: 'BCG', openlmisProductId: 'prod-456' } as Vaccine;
+  const repo = (entity: unknown) => repositories.get(entity);
+
+  const storedEvent = (overrides: Partial<WebhookEvent> = {}): WebhookEvent =>
+    ({
+      id: 'evt-row-1',
+      eventId: 'openlmis-evt-1',
+      source: 'openlmis',
+      eventType: 'stock.stockout',
+      payload: { eventType: 'stock.stockout', data: { facilityId: 'fac-123', productId: 'prod-456' } },
+      status: WebhookEventStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+      receivedAt: new Date('2026-10-01T08:00:00Z'),
+      processedAt: null,
+      updatedAt: new Date('2026-10-01T08:00:00Z'),
+      ...overrides,
+    }) as WebhookEvent;
 
   beforeEach(async () => {
     jest.clearAllMocks();
-    jest.useFakeTimers();
+
+    const mockConfig = {
+      get: jest.fn((key: string, defaultValue?: any) => {
+        const config: Record<string, any> = {
+          WEBHOOK_SECRET: 'test-webhook-secret',
+          WEBHOOK_MAX_ATTEMPTS: '3',
+        };
+        return config[key] ?? defaultValue;
+      }),
+    };
 
     // Mock CacheService
     const cacheServiceMock = {
@@ -38,332 +89,646 @@ describe('WebhookService', () => {
       publishInvalidation: jest.fn().mockResolvedValue(undefined),
       get: jest.fn().mockResolvedValue(null),
       set: jest.fn().mockResolvedValue(undefined),
+      deletePattern: jest.fn().mockResolvedValue(undefined),
+      invalidateFacilityStock: jest.fn().mockResolvedValue(undefined),
+      invalidateLGAStock: jest.fn().mockResolvedValue(undefined),
+      invalidateStateStock: jest.fn().mockResolvedValue(undefined),
+      invalidateAlertsCache: jest.fn().mockResolvedValue(undefined),
+    };
+
+    // Entity repositories used inside the apply transaction
+    mockAlertQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(null),
+    };
+    const entityRepository = () => ({
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      insert: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn(async (data) => data),
+      createQueryBuilder: jest.fn(() => mockAlertQueryBuilder),
+    });
+    repositories = new Map<unknown, Record<string, jest.Mock>>(
+      [Location, Vaccine, StockSnapshot, StockLedger, Alert, Requisition].map((entity) => [entity, entityRepository()]),
+    );
+    repo(Location).findOne.mockResolvedValue(facility);
+    repo(Vaccine).findOne.mockResolvedValue(vaccine);
+    repo(Alert).save.mockImplementation(async (data) => ({ id: 'alert-1', ...data }));
+
+    const manager = { getRepository: jest.fn((entity) => repositories.get(entity)) };
+    mockDataSource = { transaction: jest.fn((work) => work(manager)) };
+    mockWebSocketService = { broadcastAlert: jest.fn() };
+    mockProductBatchService = { recordLots: jest.fn().mockResolvedValue(undefined) };
+    mockAlertsService = { toAlertDto: jest.fn((alert) => alert), publishAlertEvent: jest.fn().mockResolvedValue(undefined) };
+
+    mockQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      orWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
+    mockRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      findAndCount: jest.fn().mockResolvedValue([[], 0]),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 'evt-row-1', ...data })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => mockQueryBuilder),
     };
 
     mockCacheService = cacheServiceMock as any;
-    mockConfigService = mockConfig as any;
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         WebhookService,
+        {
+          provide: getRepositoryToken(WebhookEvent),
+          useValue: mockRepository,
+        },
         {
           provide: ConfigService,
-          useValue: mockConfigService,
+          useValue: mockConfig,
         },
         {
           provide: CacheService,
           useValue: mockCacheService,
         },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: AlertsService,
+          useValue: mockAlertsService,
+        },
+        {
+          provide: WebSocketService,
+          useValue: mockWebSocketService,
+        },
+        {
+          provide: ProductBatchService,
+          useValue: mockProductBatchService,
+        },
+        StockSnapshotService,
       ],
     }).compile();
 
     service = module.get<WebhookService>(WebhookService);
   });
 
-  afterEach(() => {
-    jest.useRealTimers();
-    if (service) {
-      service.onModuleDestroy();
-    }
-  });
-
   describe('Signature Verification', () => {
     it('should verify valid webhook signature', () => {
       const payload = JSON.stringify({ type: 'test', data: {} });
-      const secret = 'test-webhook-secret';
-      const crypto = require('crypto');
-      const hmac = crypto.createHmac('sha256', secret);
-      const digest = hmac.update(payload).digest('hex');
-      const signature = digest;
-
-      const result = service.verifySignature(payload, signature);
+      const signature = crypto.createHmac('sha256', 'test-webhook-secret').update(payload).digest('hex');
 
-      expect(result).toBe(true);
+      expect(service.verifySignature(payload, signature)).toBe(true);
     });
 
-    it('should reject invalid webhook signature', () => {
+    it('should reject invalid webhook signature without throwing on length mismatch', () => {
       const payload = JSON.stringify({ type: 'test', data: {} });
-      const signature = 'invalid-signature';
 
-      const result = service.verifySignature(payload, signature);
-
-      expect(result).toBe(false);
+      expect(service.verifySignature(payload, 'invalid-signature')).toBe(false);
     });
 
     it('should reject missing signature', () => {
       const payload = JSON.stringify({ type: 'test', data: {} });
 
-      const result = service.verifySignature(payload, '');
-
-      expect(result).toBe(false);
+      expect(service.verifySignature(payload, '')).toBe(false);
     });
   });
 
-  describe('Event Processing (Race Condition Fix)', () => {
-    it('should queue event for processing', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+  describe('Inbox', () => {
+    it('should store a new event as pending', async () => {
+      const payload = { eventType: 'requisition.approved', entityId: 'req-1', data: {} };
 
-      await service.processEvent(event);
+      const result = await service.receiveEvent(payload, 'openlmis-evt-9');
 
-      const queueStatus = service.getQueueStatus();
-      expect(queueStatus.queued).toBeGreaterThan(0);
+      expect(result).toEqual({ id: 'evt-row-1', eventId: 'openlmis-evt-9', eventType: 'requisition.approved', duplicate: false });
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventId: 'openlmis-evt-9',
+          eventType: 'requisition.approved',
+          payload,
+          status: WebhookEventStatus.PENDING,
+          attempts: 0,
+        }),
+      );
     });
 
-    it('should process stock event with write-through pattern', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+    it('should ignore a redelivered event', async () => {
+      mockRepository.findOne.mockResolvedValue(storedEvent());
 
-      await service.processEvent(event);
+      const result = await service.receiveEvent({ eventType: 'stock.stockout', data: {} }, 'openlmis-evt-1');
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      expect(result.duplicate).toBe(true);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+    it('should treat a unique violation from a concurrent redelivery as a duplicate', async () => {
+      mockRepository.save.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+      mockRepository.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(storedEvent());
 
-      // Verify cache invalidation happens (step 2 of write-through pattern)
-      expect(mockCacheService.invalidateMapCache).toHaveBeenCalled();
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:facility:fac-123:stock');
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:product:prod-456:stock');
-    });
+      const result = await service.receiveEvent({ eventType: 'stock.stockout', data: {} }, 'openlmis-evt-1');
 
-    it('should process requisition event with write-through pattern', async () => {
-      const event = {
-        type: 'requisition.created',
-        data: { requisitionId: 'req-789', facilityId: 'fac-123' },
-      };
+      expect(result).toEqual(expect.objectContaining({ id: 'evt-row-1', duplicate: true }));
+    });
 
-      await service.processEvent(event);
+    it('should identify events without an ID by their payload', async () => {
+      const payload = { eventType: 'facility.updated', data: { facilityId: 'fac-1' } };
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      const first = await service.receiveEvent(payload);
+      const second = await service.receiveEvent({ ...payload });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+      expect(first.eventId).toMatch(/^[a-f0-9]{64}$/);
+      expect(second.eventId).toBe(first.eventId);
+    });
 
-      // Verify cache invalidation
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:requisition:req-789');
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:facility:fac-123:requisitions');
+    it('should reject payloads without an event type', async () => {
+      await expect(service.receiveEvent({ data: {} })).rejects.toThrow(BadRequestException);
     });
+  });
 
-    it('should process facility event with write-through pattern', async () => {
-      const event = {
-        type: 'facility.updated',
-        data: { facilityId: 'fac-123' },
-      };
+  describe('Event Processing (Race Condition Fix)', () => {
+    it('should claim an event and mark it processed', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent({ eventType: 'facility.updated' })]);
 
-      await service.processEvent(event);
+      const processed = await service.processPendingEvents();
+
+      expect(processed).toBe(1);
+      expect(mockRepository.update).toHaveBeenNthCalledWith(
+        1,
+        { id: 'evt-row-1', status: WebhookEventStatus.PENDING, attempts: 0 },
+        { status: WebhookEventStatus.PROCESSING, attempts: 1 },
+      );
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        'evt-row-1',
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED, processedAt: expect.any(Date) }),
+      );
+    });
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+    it('should skip an event claimed by another worker', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent()]);
+      mockRepository.update.mockResolvedValueOnce({ affected: 0 });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+      const processed = await service.processPendingEvents();
 
-      // Verify cache invalidation
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:facility:fac-123');
-      expect(mockCacheService.del).toHaveBeenCalledWith('vax:facilities:all');
+      expect(processed).toBe(0);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
     });
 
-    it('should publish cache invalidation event after processing', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+    it('should mark unknown event types processed without retrying', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent({ eventType: 'unknown.event' })]);
+
+      const processed = await service.processPendingEvents();
 
-      await service.processEvent(event);
+      expect(processed).toBe(1);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        'evt-row-1',
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED }),
+      );
+    });
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+    it('should not start a second run while one is in progress', async () => {
+      let release: (events: WebhookEvent[]) => void;
+      mockQueryBuilder.getMany.mockReturnValue(new Promise((resolve) => (release = resolve)));
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+      const first = service.processPendingEvents();
+      const second = await service.processPendingEvents();
+      release([]);
+      await first;
 
-      // Verify publishInvalidation is called (step 3 of write-through pattern)
-      expect(mockCacheService.publishInvalidation).toHaveBeenCalledWith('stock', 'fac-123');
+      expect(second).toBe(0);
+      expect(mockQueryBuilder.getMany).toHaveBeenCalledTimes(1);
     });
   });
 
-  describe('Alert Deduplication', () => {
-    it('should create stockout alert', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+  describe('Stock Events', () => {
+    const stockEvent = (eventType: string, data: Record<string, any>) =>
+      storedEvent({ eventType, payload: { eventType, data: { facilityId: 'fac-123', productId: 'prod-456', ...data } } });
 
-      mockCacheService.get = jest.fn().mockResolvedValue(null);
-
-      await service.processEvent(event);
+    beforeEach(() => {
+      // Yesterday's snapshot: one lot of 100 doses
+      repo(StockSnapshot).findOne.mockResolvedValue({ snapshotDate: '2026-10-01' });
+      repo(StockSnapshot).find.mockResolvedValue([
+        { id: 'snap-1', lotNumber: 'LOT-1', quantityOnHand: 100, stockStatus: StockStatus.OPTIMAL, snapshotDate: '2026-10-01' },
+      ]);
+    });
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+    it('should carry lots forward, set stock on hand and record the adjustment', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.adjustment', { lotCode: 'LOT-1', stockOnHand: 80 })]);
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+      await service.processPendingEvents();
 
-      // Verify alert is created
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        'vax:alert:stockout:fac-123:prod-456',
+      const [lots] = repo(StockSnapshot).save.mock.calls[0];
+      expect(lots).toEqual([
+        expect.objectContaining({ facilityId: 'loc-fac-1', vaccineId: 'vac-1', lotNumber: 'LOT-1', quantityOnHand: 80 }),
+      ]);
+      expect(lots[0].id).toBeUndefined();
+      expect(repo(StockLedger).insert).toHaveBeenCalledWith(
         expect.objectContaining({
-          type: 'stockout',
-          severity: 'critical',
-          facilityId: 'fac-123',
-          productId: 'prod-456',
+          facilityId: 'loc-fac-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          vaccineId: 'vac-1',
+          quantity: -20,
+          quantityOnHand: 80,
+          transactionType: 'adjustment',
+          transactionReference: 'openlmis-webhook:openlmis-evt-1',
         }),
-        expect.any(Object)
+      );
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        'evt-row-1',
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSED }),
+      );
+    });
+
+    it('should invalidate cache only after the transaction', async () => {
+      const order: string[] = [];
+      mockDataSource.transaction.mockImplementation(async (work) => {
+        const result = await work({ getRepository: (entity: unknown) => repositories.get(entity) });
+        order.push('commit');
+        return result;
+      });
+      mockCacheService.invalidateFacilityStock.mockImplementation(async () => {
+        order.push('invalidate');
+      });
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.adjustment', { lotCode: 'LOT-1', stockOnHand: 80 })]);
+
+      await service.processPendingEvents();
+
+      expect(order).toEqual(['commit', 'invalidate']);
+      expect(mockCacheService.invalidateMapCache).toHaveBeenCalled();
+      expect(mockCacheService.invalidateFacilityStock).toHaveBeenCalledWith('loc-fac-1');
+      expect(mockCacheService.invalidateLGAStock).toHaveBeenCalledWith('lga-1');
+      expect(mockCacheService.invalidateStateStock).toHaveBeenCalledWith('state-1');
+      expect(mockCacheService.publishInvalidation).toHaveBeenCalledWith('stock', 'loc-fac-1');
+    });
+
+    it('should add received quantity to a new lot as a receipt', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        stockEvent('stock.stocked', { lotCode: 'LOT-2', lotExpiry: '2027-06-30', quantity: 50 }),
+      ]);
+
+      await service.processPendingEvents();
+
+      const [lots] = repo(StockSnapshot).save.mock.calls[0];
+      expect(lots).toHaveLength(2);
+      expect(lots[1]).toEqual(
+        expect.objectContaining({ lotNumber: 'LOT-2', quantityOnHand: 50, expiryDate: new Date('2027-06-30') }),
+      );
+      expect(mockProductBatchService.recordLots).toHaveBeenCalledWith(expect.anything(), lots);
+      expect(repo(StockLedger).insert).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 50, quantityOnHand: 150, transactionType: 'receipt' }),
       );
     });
 
-    it('should deduplicate existing stockout alert', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+    it('should not apply an event twice', async () => {
+      repo(StockLedger).findOne.mockResolvedValue({ id: 'ledger-1' });
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.adjustment', { quantity: -10 })]);
+
+      await service.processPendingEvents();
+
+      expect(repo(StockSnapshot).save).not.toHaveBeenCalled();
+      expect(repo(StockLedger).insert).not.toHaveBeenCalled();
+    });
+
+    it('should retry stock of an unknown facility', async () => {
+      repo(Location).findOne.mockResolvedValue(null);
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.adjustment', { stockOnHand: 10 })]);
+
+      await service.processPendingEvents();
 
-      // Mock existing alert
-      const existingAlert = {
-        id: 'stockout:fac-123:prod-456',
-        type: 'stockout',
-        createdAt: new Date().toISOString(),
-      };
-      mockCacheService.get = jest.fn().mockResolvedValue(existingAlert);
+      expect(repo(StockSnapshot).save).not.toHaveBeenCalled();
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        'evt-row-1',
+        expect.objectContaining({ status: WebhookEventStatus.FAILED, lastError: 'Unknown facility fac-123' }),
+      );
+    });
 
-      await service.processEvent(event);
+    it('should empty every lot and open a stockout alert', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.stockout', {})]);
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      await service.processPendingEvents();
+
+      const [lots] = repo(StockSnapshot).save.mock.calls[0];
+      expect(lots).toEqual([expect.objectContaining({ quantityOnHand: 0, stockStatus: StockStatus.STOCKOUT })]);
+      expect(repo(Alert).save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          alertType: AlertType.STOCKOUT,
+          severity: AlertSeverity.CRITICAL,
+          facilityId: 'loc-fac-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          vaccineId: 'vac-1',
+          data: expect.objectContaining({ dedupKey: 'stockout:loc-fac-1:vac-1', source: 'openlmis-webhook' }),
+        }),
+      );
+      expect(mockCacheService.invalidateAlertsCache).toHaveBeenCalled();
+      expect(mockWebSocketService.broadcastAlert).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1' }));
+      expect(mockAlertsService.publishAlertEvent).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1' }));
+    });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+    it('should not create duplicate stockout alerts', async () => {
+      mockAlertQueryBuilder.getOne.mockResolvedValue({
+        id: 'alert-0',
+        data: { dedupKey: 'stockout:loc-fac-1:vac-1', source: 'alert-engine' },
+      });
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.stockout', {})]);
+
+      await service.processPendingEvents();
+
+      expect(mockAlertQueryBuilder.andWhere).toHaveBeenCalledWith(`alert.data ->> 'dedupKey' = :dedupKey`, {
+        dedupKey: 'stockout:loc-fac-1:vac-1',
+      });
+      expect(repo(Alert).save).not.toHaveBeenCalled();
+      expect(mockWebSocketService.broadcastAlert).not.toHaveBeenCalled();
+      expect(mockAlertsService.publishAlertEvent).not.toHaveBeenCalled();
+    });
 
-      // Verify alert is NOT created again (deduplication)
-      expect(mockCacheService.set).not.toHaveBeenCalledWith(
-        'vax:alert:stockout:fac-123:prod-456',
-        expect.any(Object),
-        expect.any(Object)
+    it('should resolve its stockout alert once stock is back', async () => {
+      repo(StockSnapshot).find.mockResolvedValue([
+        { id: 'snap-1', lotNumber: null, quantityOnHand: 0, stockStatus: StockStatus.STOCKOUT, snapshotDate: '2026-10-01' },
+      ]);
+      mockAlertQueryBuilder.getOne.mockResolvedValue({
+        id: 'alert-1',
+        isResolved: false,
+        data: { dedupKey: 'stockout:loc-fac-1:vac-1', source: 'openlmis-webhook' },
+      });
+      mockQueryBuilder.getMany.mockResolvedValue([stockEvent('stock.stocked', { quantity: 200 })]);
+
+      await service.processPendingEvents();
+
+      const [lots] = repo(StockSnapshot).save.mock.calls[0];
+      expect(lots[0]).toEqual(expect.objectContaining({ quantityOnHand: 200, stockStatus: null }));
+      expect(repo(Alert).save).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1', isResolved: true }));
+      expect(mockWebSocketService.broadcastAlert).not.toHaveBeenCalled();
+      expect(mockAlertsService.publishAlertEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'alert-1', isResolved: true }),
       );
     });
   });
 
-  describe('Queue Management', () => {
-    it('should track queue status', async () => {
-      const event1 = { type: 'test1', data: {} };
-      const event2 = { type: 'test2', data: {} };
+  describe('Requisition Events', () => {
+    it('should insert a new requisition with the status implied by the event', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent({
+          eventType: 'requisition.approved',
+          payload: {
+            eventType: 'requisition.approved',
+            timestamp: '2026-10-02T09:00:00Z',
+            data: { requisitionId: 'req-789', facilityId: 'fac-123', program: 'EPI' },
+          },
+        }),
+      ]);
+
+      await service.processPendingEvents();
+
+      expect(repo(Requisition).insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          openlmisRequisitionId: 'req-789',
+          facilityId: 'loc-fac-1',
+          lgaId: 'lga-1',
+          stateId: 'state-1',
+          status: RequisitionStatus.APPROVED,
+          program: 'EPI',
+          approvedDate: new Date('2026-10-02T09:00:00Z'),
+        }),
+      );
+      expect(mockCacheService.del).toHaveBeenCalledWith('vax:requisition:req-789');
+      expect(mockCacheService.deletePattern).toHaveBeenCalledWith('vax:requisitions:*');
+      expect(mockCacheService.publishInvalidation).toHaveBeenCalledWith('requisition', 'req-789');
+    });
 
-      await service.processEvent(event1);
-      await service.processEvent(event2);
+    it('should update an existing requisition from the OpenLMIS status', async () => {
+      repo(Requisition).findOne.mockResolvedValue({ id: 'local-req-1', status: RequisitionStatus.SUBMITTED });
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent({
+          eventType: 'requisition.updated',
+          payload: { eventType: 'requisition.updated', entityId: 'req-789', data: { status: 'IN_APPROVAL' } },
+        }),
+      ]);
 
-      const status = service.getQueueStatus();
+      await service.processPendingEvents();
 
-      expect(status.queued).toBe(2);
-      expect(status.processed).toBe(0);
+      expect(repo(Requisition).insert).not.toHaveBeenCalled();
+      expect(repo(Requisition).update).toHaveBeenCalledWith(
+        'local-req-1',
+        expect.objectContaining({ status: RequisitionStatus.AUTHORIZED }),
+      );
     });
+  });
 
-    it('should remove processed events from queue', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+  describe('Facility Events', () => {
+    it('should update a registered facility', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent({
+          eventType: 'facility.updated',
+          payload: { eventType: 'facility.updated', entityId: 'fac-123', data: { name: 'Kano General', active: false } },
+        }),
+      ]);
 
-      await service.processEvent(event);
+      await service.processPendingEvents();
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      expect(repo(Location).update).toHaveBeenCalledWith('loc-fac-1', {
+        openlmisId: 'fac-123',
+        name: 'Kano General',
+        isActive: false,
+      });
+      expect(mockCacheService.invalidateMapCache).toHaveBeenCalled();
+      expect(mockCacheService.publishInvalidation).toHaveBeenCalledWith('facility', 'loc-fac-1');
+    });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+    it('should skip facilities not registered in VaxTrace', async () => {
+      repo(Location).findOne.mockResolvedValue(null);
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent({ eventType: 'facility.created', payload: { eventType: 'facility.created', entityId: 'fac-999', data: {} } }),
+      ]);
 
-      const status = service.getQueueStatus();
+      const processed = await service.processPendingEvents();
 
-      expect(status.queued).toBe(0);
+      expect(processed).toBe(1);
+      expect(repo(Location).update).not.toHaveBeenCalled();
     });
+  });
 
-    it('should keep failed events in queue for retry', async () => {
-      const event = {
-        type: 'stock.stockout',
-        data: { facilityId: 'fac-123', productId: 'prod-456' },
-      };
+  describe('Retries', () => {
+    it('should schedule a retry with exponential backoff on failure', async () => {
+      repo(Location).findOne.mockResolvedValue(null);
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent({ status: WebhookEventStatus.FAILED, attempts: 1 })]);
+      const before = Date.now();
 
-      // Simulate processing failure
-      mockCacheService.invalidateMapCache = jest.fn().mockRejectedValue(
-        new Error('Cache invalidation failed')
+      const processed = await service.processPendingEvents();
+
+      expect(processed).toBe(0);
+      const [, changes] = mockRepository.update.mock.calls[1];
+      expect(changes).toEqual(
+        expect.objectContaining({ status: WebhookEventStatus.FAILED, lastError: 'Unknown facility fac-123' }),
       );
+      // Second attempt: 30s * 2
+      const delay = changes.nextAttemptAt.getTime() - before;
+      expect(delay).toBeGreaterThanOrEqual(60 * 1000);
+      expect(delay).toBeLessThan(61 * 1000);
+    });
 
-      await service.processEvent(event);
+    it('should move an event to dead letter when out of attempts', async () => {
+      mockCacheService.invalidateMapCache.mockRejectedValue(new Error('Redis unavailable'));
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent({ status: WebhookEventStatus.FAILED, attempts: 2 })]);
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      await service.processPendingEvents();
+
+      expect(mockRepository.update).toHaveBeenLastCalledWith('evt-row-1', {
+        status: WebhookEventStatus.DEAD_LETTER,
+        lastError: 'Redis unavailable',
+      });
+    });
+  });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+  describe('Ordering', () => {
+    const retryAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    it('should hold back later events of an entity while an earlier one waits for a retry', async () => {
+      mockRepository.find.mockResolvedValue([
+        storedEvent({
+          id: 'evt-row-0',
+          eventId: 'openlmis-evt-0',
+          status: WebhookEventStatus.FAILED,
+          attempts: 1,
+          nextAttemptAt: retryAt,
+          receivedAt: new Date('2026-10-01T07:00:00Z'),
+        }),
+      ]);
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent(),
+        storedEvent({ id: 'evt-row-2', eventId: 'openlmis-evt-2', eventType: 'facility.updated' }),
+      ]);
 
-      const status = service.getQueueStatus();
+      const processed = await service.processPendingEvents();
 
-      // Event should still be in queue (not processed)
-      expect(status.queued).toBeGreaterThan(0);
+      expect(processed).toBe(1);
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ status: WebhookEventStatus.FAILED }) }),
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { id: 'evt-row-1', status: WebhookEventStatus.PENDING, attempts: 0 },
+        { nextAttemptAt: retryAt },
+      );
+      expect(mockRepository.update).not.toHaveBeenCalledWith(
+        { id: 'evt-row-1', status: WebhookEventStatus.PENDING, attempts: 0 },
+        expect.objectContaining({ status: WebhookEventStatus.PROCESSING }),
+      );
+    });
+
+    it('should hold back later events of an entity behind one that just failed', async () => {
+      repo(Location).findOne.mockResolvedValue(null);
+      mockQueryBuilder.getMany.mockResolvedValue([
+        storedEvent(),
+        storedEvent({ id: 'evt-row-2', eventId: 'openlmis-evt-2', receivedAt: new Date('2026-10-01T09:00:00Z') }),
+      ]);
+
+      await service.processPendingEvents();
+
+      const [, retry] = mockRepository.update.mock.calls[1];
+      expect(retry).toEqual(expect.objectContaining({ status: WebhookEventStatus.FAILED }));
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        { id: 'evt-row-2', status: WebhookEventStatus.PENDING, attempts: 0 },
+        { nextAttemptAt: retry.nextAttemptAt },
+      );
     });
-  });
 
-  describe('Event Type Handling', () => {
-    it('should handle unknown event types', async () => {
-      const event = {
-        type: 'unknown.event',
-        data: {},
-      };
+    it('should apply events received before the waiting one', async () => {
+      mockRepository.find.mockResolvedValue([
+        storedEvent({ id: 'evt-row-0', status: WebhookEventStatus.FAILED, attempts: 1, nextAttemptAt: retryAt }),
+      ]);
+      mockQueryBuilder.getMany.mockResolvedValue([storedEvent({ receivedAt: new Date('2026-10-01T07:00:00Z') })]);
 
-      await service.processEvent(event);
+      await expect(service.processPendingEvents()).resolves.toBe(1);
+    });
+  });
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+  describe('Administration', () => {
+    it('should report counts per state', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        { status: 'pending', count: '3', oldest: new Date('2026-10-02T00:00:00Z') },
+        { status: 'failed', count: '1', oldest: new Date('2026-10-01T00:00:00Z') },
+        { status: 'processed', count: '120', oldest: new Date('2026-09-01T00:00:00Z') },
+        { status: 'dead_letter', count: '2', oldest: new Date('2026-09-15T00:00:00Z') },
+      ]);
+
+      const status = await service.getQueueStatus();
+
+      expect(status).toEqual({
+        queued: 4,
+        pending: 3,
+        processing: 0,
+        processed: 120,
+        failed: 1,
+        deadLetter: 2,
+        discarded: 0,
+        oldestQueuedAt: new Date('2026-10-01T00:00:00Z'),
+      });
+    });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+    it('should list events with filters and pagination', async () => {
+      mockRepository.findAndCount.mockResolvedValue([[storedEvent()], 41]);
 
-      // Should not throw error, just log warning
-      expect(mockCacheService.invalidateMapCache).not.toHaveBeenCalled();
+      const result = await service.listEvents({ status: WebhookEventStatus.DEAD_LETTER, page: 3, limit: 20 });
+
+      expect(mockRepository.findAndCount).toHaveBeenCalledWith({
+        where: { status: WebhookEventStatus.DEAD_LETTER },
+        order: { receivedAt: 'DESC' },
+        skip: 40,
+        take: 20,
+      });
+      expect(result).toEqual(expect.objectContaining({ total: 41, page: 3, limit: 20 }));
     });
 
-    it('should handle all requisition event types', async () => {
-      const requisitionEvents = [
-        'requisition.created',
-        'requisition.updated',
-        'requisition.approved',
-        'requisition.released',
-        'requisition.completed',
-      ];
+    it('should throw NotFoundException for an unknown event', async () => {
+      await expect(service.getEvent('missing')).rejects.toThrow(NotFoundException);
+    });
 
-      for (const eventType of requisitionEvents) {
-        const event = {
-          type: eventType,
-          data: { requisitionId: 'req-123', facilityId: 'fac-456' },
-        };
+    it('should replay a dead-lettered event with fresh attempts', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        storedEvent({ status: WebhookEventStatus.DEAD_LETTER, attempts: 8, lastError: 'boom' }),
+      );
 
-        await service.processEvent(event);
-      }
+      const event = await service.replayEvent('evt-row-1');
 
-      // Fast forward timer to trigger processing
-      jest.advanceTimersByTime(1000);
+      expect(event).toEqual(
+        expect.objectContaining({ status: WebhookEventStatus.PENDING, attempts: 0, lastError: null }),
+      );
+    });
 
-      // Wait for async processing
-      await new Promise(resolve => setImmediate(resolve));
+    it('should not replay a processed event', async () => {
+      mockRepository.findOne.mockResolvedValue(storedEvent({ status: WebhookEventStatus.PROCESSED }));
 
-      // All events should be processed
-      expect(mockCacheService.invalidateMapCache).toHaveBeenCalledTimes(5);
+      await expect(service.replayEvent('evt-row-1')).rejects.toThrow(ConflictException);
     });
-  });
 
-  describe('Cleanup', () => {
-    it('should clear interval on module destroy', () => {
-      const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+    it('should discard a failed event', async () => {
+      mockRepository.findOne.mockResolvedValue(storedEvent({ status: WebhookEventStatus.FAILED, attempts: 2 }));
+
+      const event = await service.discardEvent('evt-row-1');
+
+      expect(event.status).toBe(WebhookEventStatus.DISCARDED);
+    });
 
-      service.onModuleDestroy();
+    it('should not discard a processed event', async () => {
+      mockRepository.findOne.mockResolvedValue(storedEvent({ status: WebhookEventStatus.PROCESSED }));
 
-      expect(clearIntervalSpy).toHaveBeenCalled();
+      await expect(service.discardEvent('evt-row-1')).rejects.toThrow(ConflictException);
     });
   });
 });
@@ -1,39 +1,122 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { CacheService } from '../cache/cache.service';
+import { Injectable, Logger, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
 import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { DataSource, EntityManager, MoreThan, Repository } from 'typeorm';
 import * as crypto from 'crypto';
+import { CacheService } from '../cache/cache.service';
+import { AlertsService } from '../alerts/alerts.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { ProductBatchService } from '../stock/product-batch.service';
+import { StockSnapshotService, UNIQUE_VIOLATION } from '../stock/stock-snapshot.service';
+import { signWebhookPayload } from '../webhook-subscriptions/webhook-dispatch.service';
+import { WebhookEvent, WebhookEventStatus } from '../../entities/webhook-event.entity';
+import { Alert, AlertSeverity, AlertType } from '../../entities/alert.entity';
+import { Location, LocationType } from '../../entities/location.entity';
+import { Requisition, RequisitionStatus } from '../../entities/requisition.entity';
+import { StockLedger } from '../../entities/stock-ledger.entity';
+import { StockSnapshot, StockStatus } from '../../entities/stock-snapshot.entity';
+import { Vaccine } from '../../entities/vaccine.entity';
+import { WebhookEventQueryDto, WebhookEventsResponseDto, WebhookQueueStatusDto } from './dto/webhook-event.dto';
 
 /**
- * VaxTrace Nigeria - Webhook Service (FIXED)
+ * VaxTrace Nigeria - Webhook Service
+ *
+ * Incoming OpenLMIS events are stored in the `webhook_events` inbox
+ * (migration 011) before they are acknowledged, so nothing is lost on a
+ * restart. Redelivered events are recognised by their event ID.
+ *
+ * A scheduled worker claims due events and applies them. Failed events are
+ * retried with exponential backoff and moved to the dead-letter state once
+ * they run out of attempts; admins can then replay or discard them. Later
+ * events of the same entity wait for the retry, so they apply in order.
+ *
+ * Events are applied to the local tables so the dashboard reflects OpenLMIS
+ * without waiting for the next sync: requisition events upsert
+ * `requisitions`, stock events update today's `stock_snapshots` and the
+ * `stock_ledger` (and open or resolve the stockout alert), facility events
+ * update `locations`. Each event is applied in one transaction.
  *
  * FIX #1: Data Consistency Race Condition
- * - Implemented write-through cache pattern
- * - Cache invalidation happens AFTER data persistence
- * - Added event queue for async processing
- * - Added transactional guarantees
+ * - Write-through cache pattern: cache invalidation happens after the
+ *   transaction has committed
  */
 
-interface WebhookEvent {
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const WEBHOOK_INBOX_JOB = 'webhook-inbox';
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 25;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A worker that crashed mid-event leaves it in `processing`; reclaim it after this
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+
+// Alert source and ledger reference prefix of changes applied from webhooks
+const WEBHOOK_SOURCE = 'openlmis-webhook';
+
+// Status implied by the event when the payload carries none
+const REQUISITION_EVENT_STATUSES: Record<string, RequisitionStatus> = {
+  'requisition.created': RequisitionStatus.INITIATED,
+  'requisition.approved': RequisitionStatus.APPROVED,
+  'requisition.released': RequisitionStatus.RELEASED,
+  // Completed requisitions have been received at the facility
+  'requisition.completed': RequisitionStatus.RECEIVED,
+};
+
+// OpenLMIS requisition statuses without a VaxTrace equivalent
+const REQUISITION_STATUS_ALIASES: Record<string, RequisitionStatus> = {
+  IN_APPROVAL: RequisitionStatus.AUTHORIZED,
+  RELEASED_WITHOUT_ORDER: RequisitionStatus.RELEASED,
+};
+
+// Date recorded when a requisition first reaches a status
+const REQUISITION_STATUS_DATES: Partial<Record<RequisitionStatus, keyof Requisition>> = {
+  [RequisitionStatus.SUBMITTED]: 'submittedDate',
+  [RequisitionStatus.APPROVED]: 'approvedDate',
+  [RequisitionStatus.SHIPPED]: 'shippedDate',
+  [RequisitionStatus.RECEIVED]: 'receivedDate',
+};
+
+const REPLAYABLE_STATUSES = [WebhookEventStatus.FAILED, WebhookEventStatus.DEAD_LETTER, WebhookEventStatus.DISCARDED];
+const DISCARDABLE_STATUSES = [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED, WebhookEventStatus.DEAD_LETTER];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReceivedWebhookEvent {
   id: string;
-  type: string;
-  data: any;
-  timestamp: string;
-  processed: boolean;
+  eventId: string;
+  eventType: string;
+  duplicate: boolean;
 }
 
 @Injectable()
 export class WebhookService {
   private readonly logger = new Logger(WebhookService.name);
   private readonly webhookSecret: string;
-  private eventQueue: Map<string, WebhookEvent> = new Map();
-  private processingInterval: NodeJS.Timeout | null = null;
+  private readonly maxAttempts: number;
+  private isProcessing = false;
 
   constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(WebhookEvent)
+    private readonly webhookEventRepository: Repository<WebhookEvent>,
     private readonly cacheService: CacheService,
     private readonly configService: ConfigService,
+    private readonly alertsService: AlertsService,
+    private readonly webSocketService: WebSocketService,
+    private readonly productBatchService: ProductBatchService,
+    private readonly stockSnapshotService: StockSnapshotService,
   ) {
     this.webhookSecret = this.configService.get<string>('WEBHOOK_SECRET') || 'default-secret';
-    this.startEventProcessor();
+    this.maxAttempts = Number(this.configService.get('WEBHOOK_MAX_ATTEMPTS')) || DEFAULT_MAX_ATTEMPTS;
   }
 
   /**
@@ -45,61 +128,226 @@ export class WebhookService {
       this.logger.warn('Missing webhook signature');
       return false;
     }
-    
-    const hmac = crypto.createHmac('sha256', this.webhookSecret);
-    const digest = hmac.update(payload).digest('hex');
-    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest));
+
+    const digest = Buffer.from(signWebhookPayload(payload, this.webhookSecret));
+    const received = Buffer.from(signature);
+
+    // timingSafeEqual throws on length mismatch
+    return received.length === digest.length && crypto.timingSafeEqual(received, digest);
   }
 
+  // ============================================
+  // INBOX
+  // ============================================
+
   /**
-   * Process webhook event (FIXED - Queue-based processing)
-   * FIX #1: Added event queue for async processing
+   * Store an incoming event in the inbox.
+   * Events without an explicit ID are identified by a hash of their payload.
    */
-  async processEvent(event: any): Promise<void> {
-    const eventId = `${event.type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Add to event queue
-    const queuedEvent: WebhookEvent = {
-      id: eventId,
-      type: event.type,
-      data: event.data,
-      timestamp: new Date().toISOString(),
-      processed: false,
-    };
-    
-    this.eventQueue.set(eventId, queuedEvent);
-    this.logger.log(`Event queued: ${eventId} (${event.type})`);
+  async receiveEvent(payload: Record<string, any>, eventId?: string): Promise<ReceivedWebhookEvent> {
+    const eventType = payload?.eventType ?? payload?.type;
+    if (!eventType || typeof eventType !== 'string') {
+      throw new BadRequestException('Webhook payload has no event type');
+    }
+
+    const id = String(
+      eventId ||
+        payload.eventId ||
+        payload.id ||
+        crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex'),
+    );
+
+    const existing = await this.webhookEventRepository.findOne({ where: { eventId: id } });
+    if (existing) {
+      this.logger.log(`Duplicate webhook event ignored: ${id} (${eventType})`);
+      return { id: existing.id, eventId: id, eventType: existing.eventType, duplicate: true };
+    }
+
+    try {
+      const event = await this.webhookEventRepository.save(
+        this.webhookEventRepository.create({
+          eventId: id,
+          eventType,
+          payload,
+          status: WebhookEventStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+        }),
+      );
+
+      this.logger.log(`Event queued: ${id} (${eventType})`);
+      return { id: event.id, eventId: id, eventType, duplicate: false };
+    } catch (error) {
+      // Concurrent redelivery of the same event lost the race on the unique index
+      if (error?.code === UNIQUE_VIOLATION) {
+        const stored = await this.webhookEventRepository.findOne({ where: { eventId: id } });
+        return { id: stored?.id, eventId: id, eventType, duplicate: true };
+      }
+      throw error;
+    }
   }
 
   /**
-   * Start event processor (FIXED - Background processing)
-   * FIX #1: Process events sequentially to avoid race conditions
+   * Process due events: new ones, failed ones whose backoff has elapsed and
+   * ones left in `processing` by a crashed worker.
+   * Events are claimed one by one so that concurrent instances never apply
+   * the same event twice.
    */
-  private startEventProcessor(): void {
-    this.processingInterval = setInterval(async () => {
-      const unprocessedEvents = Array.from(this.eventQueue.values()).filter(e => !e.processed);
-      
-      for (const event of unprocessedEvents) {
-        try {
-          await this.processEventInternal(event);
-          event.processed = true;
-          this.eventQueue.delete(event.id);
-        } catch (error) {
-          this.logger.error(`Failed to process event ${event.id}:`, error);
-          // Keep in queue for retry
+  @Interval(WEBHOOK_INBOX_JOB, POLL_INTERVAL_MS)
+  async processPendingEvents(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+
+    try {
+      const now = new Date();
+      const due = await this.webhookEventRepository
+        .createQueryBuilder('event')
+        .where('(event.status IN (:...retryable) AND event.nextAttemptAt <= :now)', {
+          retryable: [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED],
+          now,
+        })
+        .orWhere('(event.status = :processing AND event.updatedAt < :staleBefore)', {
+          processing: WebhookEventStatus.PROCESSING,
+          staleBefore: new Date(now.getTime() - STALE_PROCESSING_MS),
+        })
+        .orderBy('event.receivedAt', 'ASC')
+        .take(BATCH_SIZE)
+        .getMany();
+
+      // Sequential on purpose: events for one entity must apply in order, so an
+      // event waiting for a retry holds back the later events of its entity.
+      // A dead-lettered event no longer does; admins replay or discard it.
+      const waiting = await this.getWaitingEvents(now);
+
+      for (const event of due) {
+        const key = this.getEntityKey(event);
+        const blocker = key ? waiting.get(key) : undefined;
+
+        if (blocker && blocker.receivedAt < event.receivedAt) {
+          await this.holdBack(event, blocker);
+          continue;
+        }
+
+        if (await this.processStoredEvent(event)) {
+          processed++;
+        } else if (key && event.status === WebhookEventStatus.FAILED && event.nextAttemptAt > now && !waiting.has(key)) {
+          waiting.set(key, event);
         }
       }
-    }, 1000); // Process every second
+    } catch (error) {
+      this.logger.error('Failed to process webhook inbox', error.stack);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Claim and apply a single stored event. Returns false when another worker
+   * claimed it first or the event failed.
+   */
+  private async processStoredEvent(event: WebhookEvent): Promise<boolean> {
+    const attempts = event.attempts + 1;
+
+    // Optimistic claim: the status/attempts pair acts as the version
+    const claim = await this.webhookEventRepository.update(
+      { id: event.id, status: event.status, attempts: event.attempts },
+      { status: WebhookEventStatus.PROCESSING, attempts },
+    );
+    if (!claim.affected) {
+      return false;
+    }
+
+    try {
+      await this.processEventInternal(event);
+
+      await this.webhookEventRepository.update(event.id, {
+        status: WebhookEventStatus.PROCESSED,
+        processedAt: new Date(),
+        lastError: null,
+      });
+      return true;
+    } catch (error) {
+      const message = error?.message || String(error);
+
+      if (attempts >= this.maxAttempts) {
+        this.logger.error(`Webhook event ${event.eventId} moved to dead letter after ${attempts} attempts: ${message}`);
+        await this.webhookEventRepository.update(event.id, {
+          status: WebhookEventStatus.DEAD_LETTER,
+          lastError: message,
+        });
+      } else {
+        const delay = this.getRetryDelay(attempts);
+        this.logger.warn(
+          `Webhook event ${event.eventId} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`,
+        );
+        const retry = {
+          status: WebhookEventStatus.FAILED,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lastError: message,
+        };
+        await this.webhookEventRepository.update(event.id, retry);
+        Object.assign(event, retry);
+      }
+      return false;
+    }
   }
 
   /**
-   * Process event internally (FIXED - Write-through cache)
+   * Earliest event waiting for a retry per entity
+   */
+  private async getWaitingEvents(now: Date): Promise<Map<string, WebhookEvent>> {
+    const events = await this.webhookEventRepository.find({
+      where: { status: WebhookEventStatus.FAILED, nextAttemptAt: MoreThan(now) },
+      order: { receivedAt: 'ASC' },
+    });
+    const waiting = new Map<string, WebhookEvent>();
+
+    for (const event of events) {
+      const key = this.getEntityKey(event);
+      if (key && !waiting.has(key)) {
+        waiting.set(key, event);
+      }
+    }
+
+    return waiting;
+  }
+
+  /**
+   * Postpone an event until the earlier event of its entity is retried
+   */
+  private async holdBack(event: WebhookEvent, blocker: WebhookEvent): Promise<void> {
+    this.logger.log(`Webhook event ${event.eventId} held back until ${blocker.eventId} is retried`);
+    await this.webhookEventRepository.update(
+      { id: event.id, status: event.status, attempts: event.attempts },
+      { nextAttemptAt: blocker.nextAttemptAt },
+    );
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6h
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  // ============================================
+  // EVENT HANDLERS
+  // ============================================
+
+  /**
+   * Apply an event (write-through cache)
    * FIX #1: Database write happens BEFORE cache invalidation
    */
   private async processEventInternal(event: WebhookEvent): Promise<void> {
-    this.logger.log(`Processing webhook event: ${event.type}`);
+    this.logger.log(`Processing webhook event: ${event.eventType}`);
 
-    switch (event.type) {
+    switch (event.eventType) {
       case 'requisition.created':
       case 'requisition.updated':
       case 'requisition.approved':
@@ -120,143 +368,480 @@ export class WebhookService {
         break;
 
       default:
-        this.logger.warn(`Unknown event type: ${event.type}`);
+        // Nothing to apply; retrying would not help
+        this.logger.warn(`Unknown event type: ${event.eventType}`);
     }
   }
 
   /**
-   * Handle requisition events (FIXED - Write-through pattern)
-   * FIX #1: Cache invalidation AFTER data persistence
+   * Upsert the requisition and record the date it reached its new status.
+   * Requisitions of facilities not registered yet fail and are retried.
    */
   private async handleRequisitionEvent(event: WebhookEvent): Promise<void> {
-    const { requisitionId, facilityId } = event.data;
+    const data = this.getEventData(event);
+    const requisitionId = data.requisitionId ?? event.payload.entityId;
+    const eventDate = this.getEventDate(event);
 
-    // STEP 1: Persist to database first (transactional)
-    // In real implementation, this would write to DB
-    await this.persistToDatabase('requisition', event);
+    if (!requisitionId) {
+      throw new Error('Requisition event has no requisition ID');
+    }
 
-    // STEP 2: THEN invalidate cache (after DB commit)
-    await this.cacheService.invalidateMapCache();
+    await this.dataSource.transaction(async (manager) => {
+      const requisitionRepository = manager.getRepository(Requisition);
+      const requisition = await requisitionRepository.findOne({ where: { openlmisRequisitionId: requisitionId } });
+      const status =
+        this.toRequisitionStatus(data.status) ?? REQUISITION_EVENT_STATUSES[event.eventType] ?? requisition?.status;
+
+      if (!status) {
+        throw new Error(`Unknown requisition status ${data.status}`);
+      }
+
+      const milestone = REQUISITION_STATUS_DATES[status];
+
+      if (!requisition) {
+        const facility = await this.findFacility(manager, data.facilityId);
+        if (!facility) {
+          throw new Error(`Unknown facility ${data.facilityId}`);
+        }
+
+        await requisitionRepository.insert({
+          openlmisRequisitionId: requisitionId,
+          facilityId: facility.id,
+          ...this.stockSnapshotService.getHierarchy(facility),
+          status,
+          program: data.program,
+          emergency: data.emergency ?? false,
+          createdDate: data.createdDate ? new Date(data.createdDate) : eventDate,
+          ...(milestone && { [milestone]: eventDate }),
+          syncedFromOpenlmisAt: new Date(),
+          lastSyncedAt: new Date(),
+        });
+        return;
+      }
+
+      await requisitionRepository.update(requisition.id, {
+        status,
+        ...(data.program !== undefined && { program: data.program }),
+        ...(data.emergency !== undefined && { emergency: data.emergency }),
+        ...(milestone && !requisition[milestone] && { [milestone]: eventDate }),
+        syncedFromOpenlmisAt: new Date(),
+        lastSyncedAt: new Date(),
+      });
+    });
+
+    // THEN invalidate cache (after DB commit)
     await this.cacheService.del(`vax:requisition:${requisitionId}`);
-    await this.cacheService.del(`vax:facility:${facilityId}:requisitions`);
+    await this.cacheService.deletePattern('vax:requisitions:*');
+    await this.cacheService.deletePattern('openlmis:requisitions:*');
 
-    // STEP 3: Publish cache invalidation event
+    // Publish cache invalidation event
     await this.cacheService.publishInvalidation('requisition', requisitionId);
 
-    this.logger.log(`Requisition event processed: ${event.type} for requisition ${requisitionId}`);
+    this.logger.log(`Requisition event processed: ${event.eventType} for requisition ${requisitionId}`);
   }
 
   /**
-   * Handle stock events (FIXED - Write-through pattern)
-   * FIX #1: Cache invalidation AFTER data persistence
+   * Apply a stock change to today's snapshot, record it in the ledger and
+   * open (or resolve) the stockout alert, all in one transaction.
+   * Stock of facilities or products not registered yet fails and is retried.
    */
   private async handleStockEvent(event: WebhookEvent): Promise<void> {
-    const { facilityId, productId } = event.data;
+    const data = this.getEventData(event);
+    const reference = `${WEBHOOK_SOURCE}:${event.eventId}`;
 
-    // STEP 1: Persist to database first (transactional)
-    await this.persistToDatabase('stock', event);
+    const { facility, alert } = await this.dataSource.transaction(async (manager) => {
+      const facility = await this.findFacility(manager, data.facilityId);
+      if (!facility) {
+        throw new Error(`Unknown facility ${data.facilityId}`);
+      }
 
-    // STEP 2: THEN invalidate cache (after DB commit)
+      const vaccine = await this.findVaccine(manager, data.productId, data.productCode);
+      if (!vaccine) {
+        throw new Error(`Unknown product ${data.productCode || data.productId}`);
+      }
+
+      // Applied by an earlier attempt whose status update was lost
+      const ledgerRepository = manager.getRepository(StockLedger);
+      const applied = await ledgerRepository.findOne({
+        where: { facilityId: facility.id, vaccineId: vaccine.id, transactionReference: reference },
+      });
+      if (applied) {
+        return { facility, alert: null };
+      }
+
+      const { previousOnHand, quantityOnHand } = await this.applyStockChange(manager, facility, vaccine, event.eventType, data);
+
+      if (quantityOnHand !== previousOnHand) {
+        await ledgerRepository.insert({
+          facilityId: facility.id,
+          ...this.stockSnapshotService.getHierarchy(facility),
+          vaccineId: vaccine.id,
+          quantity: quantityOnHand - previousOnHand,
+          quantityOnHand,
+          transactionType: event.eventType === 'stock.stocked' ? 'receipt' : 'adjustment',
+          transactionReference: reference,
+          snapshotDate: new Date(),
+        });
+      }
+
+      const alert =
+        quantityOnHand <= 0
+          ? await this.createStockoutAlert(manager, facility, vaccine, event)
+          : await this.resolveStockoutAlert(manager, facility, vaccine);
+
+      return { facility, alert };
+    });
+
+    // THEN invalidate cache (after DB commit)
+    const { lgaId, stateId } = this.stockSnapshotService.getHierarchy(facility);
     await this.cacheService.invalidateMapCache();
-    await this.cacheService.del(`vax:facility:${facilityId}:stock`);
-    await this.cacheService.del(`vax:product:${productId}:stock`);
+    await this.cacheService.invalidateFacilityStock(facility.id);
+    if (lgaId) await this.cacheService.invalidateLGAStock(lgaId);
+    if (stateId) await this.cacheService.invalidateStateStock(stateId);
 
-    // STEP 3: Publish cache invalidation event
-    await this.cacheService.publishInvalidation('stock', facilityId);
+    // Publish cache invalidation event
+    await this.cacheService.publishInvalidation('stock', facility.id);
 
-    // Check if stockout and create alert
-    if (event.type === 'stock.stockout') {
-      await this.createStockoutAlert(facilityId, productId);
+    if (alert) {
+      await this.cacheService.invalidateAlertsCache();
+      if (!alert.isResolved) {
+        this.webSocketService.broadcastAlert(this.alertsService.toAlertDto(alert));
+      }
+      await this.alertsService.publishAlertEvent(alert);
     }
 
-    this.logger.log(`Stock event processed: ${event.type} for facility ${facilityId}`);
+    this.logger.log(`Stock event processed: ${event.eventType} for facility ${facility.id}`);
   }
 
   /**
-   * Handle facility events (FIXED - Write-through pattern)
-   * FIX #1: Cache invalidation AFTER data persistence
+   * Update a registered facility, linking it by code when OpenLMIS announces
+   * it for the first time. Facilities are registered in VaxTrace by admins,
+   * so events for unknown facilities are skipped.
    */
   private async handleFacilityEvent(event: WebhookEvent): Promise<void> {
-    const { facilityId } = event.data;
+    const data = this.getEventData(event);
+    const openlmisId = data.facilityId ?? event.payload.entityId;
 
-    // STEP 1: Persist to database first (transactional)
-    await this.persistToDatabase('facility', event);
+    const location = await this.dataSource.transaction(async (manager) => {
+      const locationRepository = manager.getRepository(Location);
+      const location =
+        (openlmisId && (await locationRepository.findOne({ where: { openlmisId } }))) ||
+        (data.code && (await locationRepository.findOne({ where: { code: data.code, type: LocationType.FACILITY } })));
 
-    // STEP 2: THEN invalidate cache (after DB commit)
+      if (!location) {
+        return null;
+      }
+
+      await locationRepository.update(location.id, {
+        ...(openlmisId && { openlmisId }),
+        ...(data.name && { name: data.name }),
+        ...(typeof data.active === 'boolean' && { isActive: data.active }),
+      });
+      return location;
+    });
+
+    if (!location) {
+      this.logger.warn(`Facility event skipped: ${openlmisId || data.code} is not registered in VaxTrace`);
+      return;
+    }
+
+    // THEN invalidate cache (after DB commit)
     await this.cacheService.invalidateMapCache();
-    await this.cacheService.del(`vax:facility:${facilityId}`);
-    await this.cacheService.del(`vax:facilities:all`);
+    await this.cacheService.deletePattern('openlmis:facilities:*');
 
-    // STEP 3: Publish cache invalidation event
-    await this.cacheService.publishInvalidation('facility', facilityId);
+    // Publish cache invalidation event
+    await this.cacheService.publishInvalidation('facility', location.id);
 
-    this.logger.log(`Facility event processed: ${event.type} for facility ${facilityId}`);
+    this.logger.log(`Facility event processed: ${event.eventType} for facility ${location.id}`);
   }
 
   /**
-   * Persist to database (FIXED - Transactional write)
-   * FIX #1: Ensures data is committed before cache invalidation
+   * Set (stockOnHand) or change (quantity) one lot on today's snapshot;
+   * a stockout empties every lot. Returns stock on hand before and after.
    */
-  private async persistToDatabase(entityType: string, event: WebhookEvent): Promise<void> {
-    // In real implementation, this would:
-    // 1. Start database transaction
-    // 2. Write event data to database
-    // 3. Commit transaction
-    // 4. Only then proceed to cache invalidation
-    
-    // For now, simulate with a delay
-    await new Promise(resolve => setTimeout(resolve, 10));
-    
-    this.logger.debug(`Persisted ${entityType} event to database: ${event.id}`);
+  private async applyStockChange(
+    manager: EntityManager,
+    facility: Location,
+    vaccine: Vaccine,
+    eventType: string,
+    data: Record<string, any>,
+  ): Promise<{ previousOnHand: number; quantityOnHand: number }> {
+    const snapshotRepository = manager.getRepository(StockSnapshot);
+    const now = new Date();
+    const where = { facilityId: facility.id, vaccineId: vaccine.id };
+    const lots = await this.stockSnapshotService.getCurrentLots(manager, where, now);
+    const previousOnHand = lots.reduce((sum, lot) => sum + lot.quantityOnHand, 0);
+
+    if (eventType === 'stock.stockout') {
+      lots.forEach((lot) => (lot.quantityOnHand = 0));
+    } else {
+      if (data.stockOnHand == null && typeof data.quantity !== 'number') {
+        throw new Error('Stock event has neither stockOnHand nor quantity');
+      }
+
+      const lotNumber = data.lotCode || null;
+      let lot = lots.find((existing) => (existing.lotNumber ?? null) === lotNumber);
+
+      if (!lot) {
+        lot = snapshotRepository.create({
+          ...where,
+          lotNumber,
+          expiryDate: data.lotExpiry ? new Date(data.lotExpiry) : undefined,
+          quantityOnHand: 0,
+          snapshotDate: now,
+        });
+        lots.push(lot);
+      }
+
+      lot.quantityOnHand =
+        data.stockOnHand != null ? Number(data.stockOnHand) : Math.max(0, lot.quantityOnHand + data.quantity);
+    }
+
+    // A facility reported out of stock with no lots on record still shows as out
+    if (lots.length === 0) {
+      lots.push(snapshotRepository.create({ ...where, quantityOnHand: 0, snapshotDate: now }));
+    }
+
+    const quantityOnHand = lots.reduce((sum, lot) => sum + lot.quantityOnHand, 0);
+
+    for (const lot of lots) {
+      lot.syncedFromOpenlmisAt = now;
+      if (quantityOnHand <= 0) {
+        lot.stockStatus = StockStatus.STOCKOUT;
+      } else if (lot.stockStatus === StockStatus.STOCKOUT) {
+        // Months of stock are reassessed by the next sync
+        lot.stockStatus = null;
+      }
+    }
+
+    await snapshotRepository.save(lots);
+    await this.productBatchService.recordLots(manager, lots);
+
+    return { previousOnHand, quantityOnHand };
   }
 
   /**
-   * Create stockout alert (FIXED - Deduplication)
-   * FIX #5: Alert deduplication
+   * Open a stockout alert unless one is already open for the facility/vaccine
+   * (deduplicated on the same key as the alert engine)
    */
-  private async createStockoutAlert(facilityId: string, productId: string): Promise<void> {
-    const alertKey = `stockout:${facilityId}:${productId}`;
-    
-    // Check if alert already exists (deduplication)
-    const existingAlert = await this.cacheService.get(`vax:alert:${alertKey}`);
-    if (existingAlert) {
-      this.logger.debug(`Alert already exists: ${alertKey}`);
-      return;
+  private async createStockoutAlert(
+    manager: EntityManager,
+    facility: Location,
+    vaccine: Vaccine,
+    event: WebhookEvent,
+  ): Promise<Alert | null> {
+    const alertRepository = manager.getRepository(Alert);
+    const dedupKey = `${AlertType.STOCKOUT}:${facility.id}:${vaccine.id}`;
+
+    if (await this.findOpenAlert(manager, dedupKey)) {
+      this.logger.debug(`Alert already exists: ${dedupKey}`);
+      return null;
     }
-    
-    const alert = {
-      id: alertKey,
-      type: 'stockout',
-      severity: 'critical',
-      facilityId,
-      productId,
-      message: `Stockout detected for product ${productId} at facility ${facilityId}`,
-      createdAt: new Date().toISOString(),
-      isResolved: false,
-    };
 
-    // Store alert in cache with deduplication key
-    await this.cacheService.set(`vax:alert:${alertKey}`, alert, { ttl: 3600 });
-    await this.cacheService.set(`vax:alert:latest:${facilityId}`, alert, { ttl: 3600 });
+    const alert = await alertRepository.save(
+      alertRepository.create({
+        alertType: AlertType.STOCKOUT,
+        severity: AlertSeverity.CRITICAL,
+        facilityId: facility.id,
+        ...this.stockSnapshotService.getHierarchy(facility),
+        vaccineId: vaccine.id,
+        title: `${vaccine.code} stockout`,
+        description: `${vaccine.code} stockout reported by OpenLMIS - 0 doses remaining`,
+        data: { dedupKey, source: WEBHOOK_SOURCE, eventId: event.eventId, quantityOnHand: 0 },
+      }),
+    );
 
     this.logger.log(`Stockout alert created: ${alert.id}`);
+    return alert;
+  }
+
+  /**
+   * Resolve the stockout alert this service opened once stock is back
+   * (alert engine alerts are resolved by the engine)
+   */
+  private async resolveStockoutAlert(manager: EntityManager, facility: Location, vaccine: Vaccine): Promise<Alert | null> {
+    const alert = await this.findOpenAlert(manager, `${AlertType.STOCKOUT}:${facility.id}:${vaccine.id}`);
+
+    if (!alert || alert.data.source !== WEBHOOK_SOURCE) {
+      return null;
+    }
+
+    alert.isResolved = true;
+    alert.resolvedAt = new Date();
+    alert.resolutionNotes = 'Stock restored - resolved by OpenLMIS stock event';
+    return manager.getRepository(Alert).save(alert);
+  }
+
+  private findOpenAlert(manager: EntityManager, dedupKey: string): Promise<Alert | null> {
+    return manager
+      .getRepository(Alert)
+      .createQueryBuilder('alert')
+      .where('alert.isResolved = false')
+      .andWhere(`alert.data ->> 'dedupKey' = :dedupKey`, { dedupKey })
+      .getOne();
+  }
+
+  /**
+   * Facilities are identified by their OpenLMIS ID
+   */
+  private async findFacility(manager: EntityManager, openlmisId: string): Promise<Location | null> {
+    if (!openlmisId) {
+      return null;
+    }
+
+    return manager.getRepository(Location).findOne({
+      where: { openlmisId, type: LocationType.FACILITY },
+      relations: { parent: true },
+    });
+  }
+
+  /**
+   * Products are identified by their OpenLMIS orderable ID or vaccine code
+   */
+  private async findVaccine(manager: EntityManager, productId: string, productCode: string): Promise<Vaccine | null> {
+    const where = [
+      ...(productId ? [{ openlmisProductId: productId }] : []),
+      ...(productCode || productId ? [{ code: productCode || productId }] : []),
+    ];
+
+    return where.length > 0 ? manager.getRepository(Vaccine).findOne({ where }) : null;
+  }
+
+  private toRequisitionStatus(status: string): RequisitionStatus | null {
+    const value = (status || '').toUpperCase();
+    if (REQUISITION_STATUS_ALIASES[value]) {
+      return REQUISITION_STATUS_ALIASES[value];
+    }
+    return Object.values(RequisitionStatus).find((candidate) => candidate === value.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Entity an event applies to: a requisition, the stock of a product at a
+   * facility, or a facility. Null for events that apply to nothing.
+   */
+  private getEntityKey(event: WebhookEvent): string | null {
+    const data = this.getEventData(event);
+    const entityId = event.payload?.entityId;
+
+    if (event.eventType.startsWith('requisition.')) {
+      const requisitionId = data.requisitionId ?? entityId;
+      return requisitionId ? `requisition:${requisitionId}` : null;
+    }
+    if (event.eventType.startsWith('stock.')) {
+      return data.facilityId ? `stock:${data.facilityId}:${data.productCode || data.productId}` : null;
+    }
+    if (event.eventType.startsWith('facility.')) {
+      const facilityId = data.facilityId ?? entityId;
+      return facilityId ? `facility:${facilityId}` : null;
+    }
+    return null;
   }
 
+  private getEventData(event: WebhookEvent): Record<string, any> {
+    return event.payload?.data ?? {};
+  }
+
+  private getEventDate(event: WebhookEvent): Date {
+    const timestamp = event.payload?.timestamp ? new Date(event.payload.timestamp) : null;
+    return timestamp && !isNaN(timestamp.getTime()) ? timestamp : new Date(event.receivedAt);
+  }
+
+  // ============================================
+  // ADMINISTRATION
+  // ============================================
+
   /**
    * Get queue status (for monitoring)
    */
-  getQueueStatus(): { queued: number; processed: number } {
-    const total = this.eventQueue.size;
-    const processed = Array.from(this.eventQueue.values()).filter(e => e.processed).length;
-    return { queued: total, processed };
+  async getQueueStatus(): Promise<WebhookQueueStatusDto> {
+    const rows: { status: WebhookEventStatus; count: string; oldest: Date }[] = await this.webhookEventRepository
+      .createQueryBuilder('event')
+      .select('event.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('MIN(event.receivedAt)', 'oldest')
+      .groupBy('event.status')
+      .getRawMany();
+
+    const counts = new Map(rows.map((row) => [row.status, Number(row.count)]));
+    const count = (status: WebhookEventStatus) => counts.get(status) || 0;
+
+    const queuedStatuses = [WebhookEventStatus.PENDING, WebhookEventStatus.PROCESSING, WebhookEventStatus.FAILED];
+    const oldestQueued = rows
+      .filter((row) => queuedStatuses.includes(row.status) && row.oldest)
+      .map((row) => new Date(row.oldest))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    return {
+      queued: queuedStatuses.reduce((sum, status) => sum + count(status), 0),
+      pending: count(WebhookEventStatus.PENDING),
+      processing: count(WebhookEventStatus.PROCESSING),
+      processed: count(WebhookEventStatus.PROCESSED),
+      failed: count(WebhookEventStatus.FAILED),
+      deadLetter: count(WebhookEventStatus.DEAD_LETTER),
+      discarded: count(WebhookEventStatus.DISCARDED),
+      oldestQueuedAt: oldestQueued,
+    };
   }
 
   /**
-   * Cleanup on module destroy
+   * List stored events, newest first
    */
-  onModuleDestroy(): void {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
+  async listEvents(filters: WebhookEventQueryDto = {}): Promise<WebhookEventsResponseDto> {
+    const page = filters.page || 1;
+    const limit = filters.limit || DEFAULT_PAGE_SIZE;
+
+    const [events, total] = await this.webhookEventRepository.findAndCount({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.eventType && { eventType: filters.eventType }),
+      },
+      order: { receivedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { data: events, total, page, limit };
+  }
+
+  async getEvent(id: string): Promise<WebhookEvent> {
+    const event = await this.webhookEventRepository.findOne({ where: { id } });
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${id} not found`);
     }
+    return event;
+  }
+
+  /**
+   * Queue a failed, dead-lettered or discarded event for processing again
+   * with a fresh set of attempts
+   */
+  async replayEvent(id: string): Promise<WebhookEvent> {
+    const event = await this.getEvent(id);
+    if (!REPLAYABLE_STATUSES.includes(event.status)) {
+      throw new ConflictException(`Cannot replay a ${event.status} webhook event`);
+    }
+
+    event.status = WebhookEventStatus.PENDING;
+    event.attempts = 0;
+    event.nextAttemptAt = new Date();
+    event.lastError = null;
+
+    this.logger.log(`Webhook event ${event.eventId} queued for replay`);
+    return this.webhookEventRepository.save(event);
+  }
+
+  /**
+   * Stop processing an event that will never apply cleanly
+   */
+  async discardEvent(id: string): Promise<WebhookEvent> {
+    const event = await this.getEvent(id);
+    if (!DISCARDABLE_STATUSES.includes(event.status)) {
+      throw new ConflictException(`Cannot discard a ${event.status} webhook event`);
+    }
+
+    event.status = WebhookEventStatus.DISCARDED;
+
+    this.logger.log(`Webhook event ${event.eventId} discarded`);
+    return this.webhookEventRepository.save(event);
   }
 }
@@ -23,13 +23,20 @@ export interface AlertEvent {
   timestamp: string;
 }
 
+export interface AlertEscalationEvent {
+  type: 'alert_escalation';
+  alert: any;
+  level: string;
+  timestamp: string;
+}
+
 export interface MapUpdateEvent {
   type: 'map_update';
   data: any;
   timestamp: string;
 }
 
-export type RealTimeEvent = StockUpdateEvent | AlertEvent | MapUpdateEvent;
+export type RealTimeEvent = StockUpdateEvent | AlertEvent | AlertEscalationEvent | MapUpdateEvent;
 
 @Injectable()
 export class WebSocketService implements OnGatewayInit {
@@ -125,6 +132,24 @@ export class WebSocketService implements OnGatewayInit {
     this.broadcastToRoom('alerts', 'alert:new', event);
   }
 
+  /**
+   * Broadcast alert escalation to the rooms of the escalated level
+   * (e.g. `lga:<id>`, `state:<id>`, `national`)
+   */
+  broadcastAlertEscalation(alert: any, level: string, rooms: string[]) {
+    const event: AlertEscalationEvent = {
+      type: 'alert_escalation',
+      alert,
+      level,
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const room of rooms) {
+      this.broadcastToRoom(room, 'alert:escalated', event);
+    }
+    this.broadcastToRoom('alerts', 'alert:escalated', event);
+  }
+
   /**
    * Broadcast map data update
    */
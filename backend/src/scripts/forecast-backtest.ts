@@ -0,0 +1,122 @@
+/**
+ * VaxTrace Nigeria - Forecast Backtest Command
+ *
+ * Runs a rolling-origin backtest of the consumption forecasting methods
+ * against the configured database without starting the API, e.g. on the
+ * seed data (database/seeds/003_seed_consumption_history.sql):
+ *
+ *   npm run backtest -- --horizon 14 --origins 8 --vaccine BCG --promote
+ *
+ * Options:
+ *   --horizon <days>    Days forecast from each origin (default: 14)
+ *   --origins <n>       Forecast origins per series (default: 8)
+ *   --step <days>       Days between origins (default: 7)
+ *   --lookback <days>   Days of history to replay (default: 365)
+ *   --vaccine <code>    Vaccine to backtest; repeatable (default: all)
+ *   --state <id>        State to backtest; repeatable (default: all)
+ *   --promote           Promote the winner as the forecasting method
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+import { ConfigService } from '@nestjs/config';
+
+import dataSource from '../database/data-source';
+import { ForecastBacktest } from '../entities/forecast-backtest.entity';
+import { MLModelService } from '../modules/predictive-insights/ml-model.service';
+import { BacktestOptions, ForecastBacktestService } from '../modules/predictive-insights/forecast-backtest.service';
+
+// ============================================
+// ARGUMENTS
+// ============================================
+
+function parseArgs(args: string[]): BacktestOptions {
+  const options: BacktestOptions = { vaccineCodes: [], stateIds: [] };
+  const number = (flag: string, value: string): number => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < 1) {
+      throw new Error(`${flag} expects a positive number`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--horizon':
+        options.horizonDays = number(flag, args[++i]);
+        break;
+      case '--origins':
+        options.origins = number(flag, args[++i]);
+        break;
+      case '--step':
+        options.stepDays = number(flag, args[++i]);
+        break;
+      case '--lookback':
+        options.lookbackDays = number(flag, args[++i]);
+        break;
+      case '--vaccine':
+        options.vaccineCodes.push(args[++i]);
+        break;
+      case '--state':
+        options.stateIds.push(args[++i]);
+        break;
+      case '--promote':
+        options.promote = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  await dataSource.initialize();
+  try {
+    const service = new ForecastBacktestService(
+      dataSource,
+      dataSource.getRepository(ForecastBacktest),
+      new MLModelService(new ConfigService()),
+    );
+
+    const result = await service.runBacktest(options);
+
+    console.log(`Backtest ${result.version}: ${result.series} series, winner ${result.winner ?? 'none'}`);
+    console.table(result.summary);
+    console.table(
+      result.results.map(({ vaccineCode, stateName, method, samples, mae, mape, bias, accuracy }) => ({
+        vaccineCode,
+        state: stateName,
+        method,
+        samples,
+        mae,
+        mape,
+        bias,
+        accuracy,
+      })),
+    );
+    if (result.comparison) {
+      const { modelA, modelB, meanA, meanB, significance } = result.comparison;
+      console.log(`${modelA} vs ${modelB}: ${meanA} vs ${meanB} mean accuracy (significance ${significance})`);
+    }
+    if (result.isCurrent) {
+      console.log(`Promoted ${result.winner} as the consumption forecasting method`);
+    }
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+main().catch((error) => {
+  console.error(`Backtest failed: ${error.message}`);
+  process.exit(1);
+});
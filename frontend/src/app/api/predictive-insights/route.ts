@@ -134,6 +134,7 @@ export async function GET(request: NextRequest) {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
       },
     });
 
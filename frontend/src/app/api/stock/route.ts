@@ -161,8 +161,8 @@ export async function GET(request: NextRequest) {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        // Note: In production, include auth token from session
-        // 'Authorization': `Bearer ${sessionToken}`,
+        // The backend limits stock to the caller's assigned location
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
       },
       // Next.js cache configuration
       next: {
@@ -0,0 +1,154 @@
+/**
+ * VaxTrace Nigeria - Auth API Route
+ *
+ * This route proxies authentication requests to the backend API.
+ * The caller's bearer token is forwarded for the endpoints that need it
+ * (WebAuthn registration and credential management).
+ *
+ * Routes:
+ * - POST /api/v1/auth/login | pin | biometric | refresh | logout
+ * - GET /api/v1/auth/me - Current user
+ * - POST /api/v1/auth/webauthn/authentication-options - Biometric login challenge
+ * - POST /api/v1/auth/webauthn/registration-options - Device registration challenge
+ * - POST /api/v1/auth/webauthn/register - Register this device
+ * - GET /api/v1/auth/webauthn/credentials - List registered devices
+ * - DELETE /api/v1/auth/webauthn/credentials/:id - Revoke a device
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+const ALLOWED_PATHS = [
+  /^(login|pin|biometric|refresh|logout|me|sessions)$/,
+  /^sessions\/[0-9a-f-]{36}$/,
+  /^webauthn\/(authentication-options|registration-options|register|credentials)$/,
+  /^webauthn\/credentials\/[0-9a-f-]{36}$/,
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+interface AuthProxyResponse {
+  success: boolean;
+  data?: any;
+  meta?: {
+    timestamp: string;
+    requestId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+interface RouteContext {
+  params: { path: string[] };
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'GET');
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'POST');
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'DELETE');
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxy(request: NextRequest, { params }: RouteContext, method: 'GET' | 'POST' | 'DELETE') {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const path = params.path.join('/');
+
+  if (!ALLOWED_PATHS.some((pattern) => pattern.test(path))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Unknown auth endpoint' },
+      } as AuthProxyResponse,
+      { status: 404 }
+    );
+  }
+
+  try {
+    const backendUrl = new URL(`${BACKEND_API_URL}/api/v1/auth/${path}`);
+
+    const response = await fetch(backendUrl.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
+      },
+      body: method !== 'POST' ? undefined : JSON.stringify(await request.json().catch(() => ({}))),
+      cache: 'no-store',
+    });
+
+    // 204 responses (logout, revoke) have no body
+    const payload = response.status === 204 ? null : await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: Array.isArray(payload?.message) ? payload.message.join(', ') : payload?.message || response.statusText,
+          },
+          meta: { timestamp: new Date().toISOString(), requestId },
+        } as AuthProxyResponse,
+        { status: response.status, headers: { 'X-Request-ID': requestId } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payload,
+        meta: { timestamp: new Date().toISOString(), requestId },
+      } as AuthProxyResponse,
+      {
+        status: response.status === 204 ? 200 : response.status,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error(`[Auth API Error] ${method} Request ID: ${requestId}`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reach authentication service',
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        },
+      } as AuthProxyResponse,
+      {
+        status: 502,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * VaxTrace Nigeria - Delivery API Route
+ *
+ * This route proxies delivery requests to the backend API.
+ * The caller's bearer token is forwarded; the backend receives confirmed
+ * deliveries into the user's own facility.
+ *
+ * Routes:
+ * - GET /api/v1/delivery/:id - Get delivery by ID
+ * - GET /api/v1/delivery/:id/photo - Shipment photo taken on receipt (passed through as is)
+ * - GET /api/v1/delivery/transfer/:transferId - Get deliveries by transfer ID
+ * - POST /api/v1/delivery/confirm - Confirm delivery against its signed manifest
+ * - POST /api/v1/delivery/manifests - Generate the signed manifest of a shipment
+ * - GET /api/v1/delivery/manifests/public-key - Key to verify manifests offline
+ * - GET /api/v1/delivery/manifests/:id - Get manifest by ID
+ * - GET /api/v1/delivery/manifests/:id/qr?format=png|svg|pdf - Printable manifest (passed through as is)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface DeliveryItemData {
+  vaccineId: string;
+  vaccineCode?: string;
+  lotNumber?: string;
+  expiryDate?: string;
+  quantity: number;
+  damagedQuantity: number;
+  vvmStage?: number;
+}
+
+interface DeliveryData {
+  id: string;
+  qrCodeId: string;
+  transferId: string;
+  facilityId: string;
+  facilityName?: string;
+  confirmedBy?: string;
+  status: 'CONFIRMED' | 'REJECTED' | 'PENDING';
+  vvmStage: number;
+  temperature: number;
+  notes?: string;
+  location?: { lat: number; lng: number };
+  deliveredAt: string;
+  confirmedAt: string;
+  hasPhoto: boolean;
+  items: DeliveryItemData[];
+}
+
+interface ConfirmDeliveryData {
+  confirmationId: string;
+  transferId: string;
+  status: string;
+  confirmedAt: string;
+  meta?: {
+    facilityId?: string;
+    facilityName?: string;
+    vvmStatus?: string;
+    temperatureStatus?: string;
+  };
+}
+
+interface ManifestData {
+  id: string;
+  transferId: string;
+  originId: string;
+  originName?: string;
+  destinationId: string;
+  destinationName?: string;
+  items: { vaccineCode: string; lotNumber: string; expiryDate: string; quantity: number }[];
+  token: string;
+  keyId: string;
+  issuedAt: string;
+  expiresAt: string;
+  consumedAt?: string;
+  deliveryId?: string;
+}
+
+interface ManifestPublicKeyData {
+  keyId: string;
+  algorithm: string;
+  jwk: JsonWebKey;
+}
+
+interface DeliveryProxyResponse {
+  success: boolean;
+  data?: DeliveryData | DeliveryData[] | ConfirmDeliveryData | ManifestData | ManifestPublicKeyData;
+  meta?: {
+    timestamp: string;
+    requestId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+interface RouteContext {
+  params: { path: string[] };
+}
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const ConfirmDeliverySchema = z.object({
+  manifest: z.string().min(1, 'Signed manifest is required').max(4096),
+  qrCodeId: z.string().min(1, 'QR Code ID is required').max(100),
+  transferId: z.string().min(1, 'Transfer ID is required').max(100),
+  vvmStage: z.number().int().min(1).max(4, 'VVM stage must be between 1 and 4'),
+  temperature: z.number().min(-50).max(50, 'Temperature must be between -50 and 50'),
+  notes: z.string().max(1000).optional(),
+  timestamp: z.string().datetime(),
+  location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  photo: z
+    .string()
+    .max(2_000_000, 'Photo is too large')
+    .regex(/^data:image\/(jpeg|png|webp);base64,/, 'Photo must be a JPEG, PNG or WebP data URL')
+    .optional(),
+  items: z
+    .array(
+      z.object({
+        vaccineCode: z.string().min(1).max(50),
+        lotNumber: z.string().max(100).optional(),
+        expiryDate: z.string().optional(),
+        quantity: z.number().int().nonnegative(),
+        damagedQuantity: z.number().int().nonnegative().optional(),
+        vvmStage: z.number().int().min(1).max(4).optional(),
+      })
+    )
+    .min(1, 'At least one item is required')
+    .max(50),
+});
+
+const CreateManifestSchema = z.object({
+  transferId: z.string().min(1, 'Transfer ID is required').max(100),
+  originId: z.string().uuid(),
+  destinationId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        vaccineCode: z.string().min(1).max(50),
+        lotNumber: z.string().min(1).max(100),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, 'At least one item is required')
+    .max(20),
+});
+
+// POST endpoints and their request bodies
+const POST_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  confirm: ConfirmDeliverySchema,
+  manifests: CreateManifestSchema,
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const path = params.path;
+
+  // Only deliveries and their photos, deliveries of a transfer and manifests are forwarded
+  const isDelivery =
+    path[0] !== 'confirm' && path[0] !== 'manifests' && (path.length === 1 || (path.length === 2 && path[1] === 'photo'));
+  const isTransfer = path.length === 2 && path[0] === 'transfer';
+  const isManifest = path[0] === 'manifests' && (path.length === 2 || (path.length === 3 && path[2] === 'qr'));
+
+  if (!isDelivery && !isTransfer && !isManifest) {
+    return notFound();
+  }
+
+  return proxy(request, path, 'GET');
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const schema = params.path.length === 1 ? POST_SCHEMAS[params.path[0]] : undefined;
+
+  if (!schema) {
+    return notFound();
+  }
+
+  const body = await request.json().catch(() => null);
+
+  // Validate request body
+  const validationResult = schema.safeParse(body);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body',
+          details: validationResult.error.errors,
+        },
+      } as DeliveryProxyResponse,
+      { status: 400 }
+    );
+  }
+
+  return proxy(request, params.path, 'POST', validationResult.data);
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxy(request: NextRequest, path: string[], method: 'GET' | 'POST', body?: unknown) {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  try {
+    const backendUrl = new URL(`${BACKEND_API_URL}/api/v1/delivery/${path.map(encodeURIComponent).join('/')}`);
+    new URL(request.url).searchParams.forEach((value, key) => backendUrl.searchParams.set(key, value));
+
+    const response = await fetch(backendUrl.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: 'no-store',
+    });
+
+    // Printable manifests (PNG, SVG, PDF) and delivery photos are passed through unwrapped
+    const contentType = response.headers.get('content-type') || '';
+    if (response.ok && !contentType.includes('application/json')) {
+      return new NextResponse(await response.arrayBuffer(), {
+        status: response.status,
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': response.headers.get('content-disposition') || 'inline',
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      });
+    }
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: Array.isArray(payload?.message) ? payload.message.join(', ') : payload?.message || response.statusText,
+          },
+          meta: { timestamp: new Date().toISOString(), requestId },
+        } as DeliveryProxyResponse,
+        { status: response.status, headers: { 'X-Request-ID': requestId } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payload,
+        meta: { timestamp: new Date().toISOString(), requestId },
+      } as DeliveryProxyResponse,
+      {
+        status: response.status,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error(`[Delivery API Error] ${method} Request ID: ${requestId}`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: method === 'POST' ? 'Failed to submit delivery request' : 'Failed to fetch delivery data',
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        },
+      } as DeliveryProxyResponse,
+      {
+        status: 502,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  }
+}
+
+function notFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Unknown delivery endpoint' },
+    } as DeliveryProxyResponse,
+    { status: 404 }
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger API Route
+ *
+ * This route proxies stock ledger requests to the backend API.
+ * The caller's bearer token is forwarded; the backend limits the ledger to
+ * locations within the user's scope.
+ *
+ * Routes:
+ * - GET /api/v1/stock-ledger - Ledger entries with running balances
+ *   (facilityId, vaccineCode, transactionType, reasonCode, from, to, page, limit)
+ * - POST /api/v1/stock-ledger/losses - Record doses lost from a lot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface StockLedgerProxyResponse {
+  success: boolean;
+  data?: any;
+  meta?: {
+    timestamp: string;
+    requestId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+interface RouteContext {
+  params: { path?: string[] };
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'GET');
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'POST');
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxy(request: NextRequest, { params }: RouteContext, method: 'GET' | 'POST') {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const path = params.path || [];
+
+  // Only GET /stock-ledger and POST /stock-ledger/losses are forwarded
+  const allowed = method === 'GET' ? path.length === 0 : path.length === 1 && path[0] === 'losses';
+
+  if (!allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Unknown stock ledger endpoint' },
+      } as StockLedgerProxyResponse,
+      { status: 404 }
+    );
+  }
+
+  try {
+    const backendUrl = new URL(`${BACKEND_API_URL}/api/v1/stock-ledger${path.length ? `/${path.join('/')}` : ''}`);
+    new URL(request.url).searchParams.forEach((value, key) => backendUrl.searchParams.set(key, value));
+
+    const response = await fetch(backendUrl.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
+      },
+      body: method === 'GET' ? undefined : JSON.stringify(await request.json().catch(() => ({}))),
+      cache: 'no-store',
+    });
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: Array.isArray(payload?.message) ? payload.message.join(', ') : payload?.message || response.statusText,
+          },
+          meta: { timestamp: new Date().toISOString(), requestId },
+        } as StockLedgerProxyResponse,
+        { status: response.status, headers: { 'X-Request-ID': requestId } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payload,
+        meta: { timestamp: new Date().toISOString(), requestId },
+      } as StockLedgerProxyResponse,
+      {
+        status: response.status,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error(`[Stock Ledger API Error] ${method} Request ID: ${requestId}`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reach the stock ledger service',
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        },
+      } as StockLedgerProxyResponse,
+      {
+        status: 502,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  }
+}
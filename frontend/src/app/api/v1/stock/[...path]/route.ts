@@ -0,0 +1,203 @@
+/**
+ * VaxTrace Nigeria - Stock API Route
+ *
+ * This route proxies lot-level stock requests to the backend API.
+ * The caller's bearer token is forwarded; the backend limits requests to
+ * facilities and LGA stores within the user's scope.
+ *
+ * Routes:
+ * - GET /api/v1/stock/facilities/:facilityId/lots - Lot breakdown of a facility
+ * - POST /api/v1/stock/facilities/:facilityId/fefo - Recommend lots to issue (FEFO)
+ * - POST /api/v1/stock/facilities/:facilityId/issues - Record a stock issue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface StockProxyResponse {
+  success: boolean;
+  data?: unknown;
+  meta?: {
+    timestamp: string;
+    requestId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+interface RouteContext {
+  params: { path: string[] };
+}
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const FefoRequestSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        vaccineCode: z.string().min(1).max(50),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, 'At least one item is required')
+    .max(50),
+});
+
+const IssueStockSchema = z.object({
+  destinationFacilityId: z.string().uuid().optional(),
+  lines: z
+    .array(
+      z.object({
+        vaccineCode: z.string().min(1).max(50),
+        batchNumber: z.string().min(1).max(100),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, 'At least one lot is required')
+    .max(100),
+});
+
+const POST_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  fefo: FefoRequestSchema,
+  issues: IssueStockSchema,
+};
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const path = params.path;
+
+  // Only /stock/facilities/:facilityId/lots is forwarded
+  if (path.length !== 3 || path[0] !== 'facilities' || path[2] !== 'lots') {
+    return notFound();
+  }
+
+  return proxy(request, path, 'GET', undefined, request.nextUrl.search);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const path = params.path;
+  const schema = path.length === 3 && path[0] === 'facilities' ? POST_SCHEMAS[path[2]] : undefined;
+
+  if (!schema) {
+    return notFound();
+  }
+
+  const body = await request.json().catch(() => null);
+
+  // Validate request body
+  const validationResult = schema.safeParse(body);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body',
+          details: validationResult.error.errors,
+        },
+      } as StockProxyResponse,
+      { status: 400 }
+    );
+  }
+
+  return proxy(request, path, 'POST', validationResult.data);
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxy(request: NextRequest, path: string[], method: 'GET' | 'POST', body?: unknown, search = '') {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/api/v1/stock/${path.map(encodeURIComponent).join('/')}${search}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: 'no-store',
+    });
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: Array.isArray(payload?.message) ? payload.message.join(', ') : payload?.message || response.statusText,
+          },
+          meta: { timestamp: new Date().toISOString(), requestId },
+        } as StockProxyResponse,
+        { status: response.status, headers: { 'X-Request-ID': requestId } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payload,
+        meta: { timestamp: new Date().toISOString(), requestId },
+      } as StockProxyResponse,
+      {
+        status: response.status,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error(`[Stock API Error] ${method} Request ID: ${requestId}`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reach the stock service',
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        },
+      } as StockProxyResponse,
+      {
+        status: 502,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  }
+}
+
+function notFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Unknown stock endpoint' },
+    } as StockProxyResponse,
+    { status: 404 }
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * VaxTrace Nigeria - Users API Route
+ *
+ * This route proxies user administration requests to the backend API.
+ * The caller's bearer token is forwarded; the backend restricts these
+ * endpoints to system admins.
+ *
+ * Routes:
+ * - GET /api/v1/users - List users (role, stateId, lgaId, isActive, search, page, limit)
+ * - GET /api/v1/users/:id - Get user by ID
+ * - POST /api/v1/users - Invite user
+ * - PATCH /api/v1/users/:id - Update role, location or profile
+ * - POST /api/v1/users/:id/reset-pin - Issue a one-time PIN
+ * - POST /api/v1/users/:id/deactivate - Deactivate user
+ * - POST /api/v1/users/:id/reactivate - Reactivate user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKEND_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+const ALLOWED_ACTIONS = ['reset-pin', 'deactivate', 'reactivate'];
+
+// ============================================
+// TYPES
+// ============================================
+
+interface UsersProxyResponse {
+  success: boolean;
+  data?: any;
+  meta?: {
+    timestamp: string;
+    requestId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+interface RouteContext {
+  params: { path?: string[] };
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'GET');
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'POST');
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  return proxy(request, context, 'PATCH');
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxy(request: NextRequest, { params }: RouteContext, method: 'GET' | 'POST' | 'PATCH') {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  const path = params.path || [];
+
+  // Only /users, /users/:id and /users/:id/<action> are forwarded
+  if (path.length > 2 || (path.length === 2 && !ALLOWED_ACTIONS.includes(path[1]))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Unknown users endpoint' },
+      } as UsersProxyResponse,
+      { status: 404 }
+    );
+  }
+
+  try {
+    const backendUrl = new URL(`${BACKEND_API_URL}/api/v1/users${path.length ? `/${path.map(encodeURIComponent).join('/')}` : ''}`);
+    new URL(request.url).searchParams.forEach((value, key) => backendUrl.searchParams.set(key, value));
+
+    const response = await fetch(backendUrl.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(request.headers.get('authorization') ? { Authorization: request.headers.get('authorization') as string } : {}),
+      },
+      body: method === 'GET' ? undefined : JSON.stringify(await request.json().catch(() => ({}))),
+      cache: 'no-store',
+    });
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: Array.isArray(payload?.message) ? payload.message.join(', ') : payload?.message || response.statusText,
+          },
+          meta: { timestamp: new Date().toISOString(), requestId },
+        } as UsersProxyResponse,
+        { status: response.status, headers: { 'X-Request-ID': requestId } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: payload,
+        meta: { timestamp: new Date().toISOString(), requestId },
+      } as UsersProxyResponse,
+      {
+        status: response.status,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error(`[Users API Error] ${method} Request ID: ${requestId}`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reach user administration service',
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        },
+      } as UsersProxyResponse,
+      {
+        status: 502,
+        headers: {
+          'X-Request-ID': requestId,
+          'X-Response-Time': `${Date.now() - startTime}ms`,
+        },
+      }
+    );
+  }
+}
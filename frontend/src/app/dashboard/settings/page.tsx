@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useVaxTraceStore, useTheme } from '@/store/useVaxTraceStore';
 import { 
   Settings as SettingsIcon, 
@@ -14,9 +15,13 @@ import {
   Database,
   Palette,
   Save,
-  Check
+  Check,
+  Users,
+  ChevronRight,
+  Fingerprint
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { BiometricDevices } from '@/components/auth/BiometricDevices';
 
 export default function SettingsPage() {
   const { userSession } = useVaxTraceStore();
@@ -349,6 +354,47 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Biometric Login */}
+        {userSession?.isAuthenticated && (
+          <section id="biometrics" className="space-y-6">
+            <div className="flex items-center gap-3">
+              <Fingerprint className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Biometric Login</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">Devices that can sign in with fingerprint or face unlock</p>
+              </div>
+            </div>
+
+            <BiometricDevices />
+          </section>
+        )}
+
+        {/* User Administration (system admins only) */}
+        {userSession?.user?.role === 'system_admin' && (
+          <section id="users" className="space-y-6">
+            <div className="flex items-center gap-3">
+              <Users className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">User Administration</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">Onboard and manage VaxTrace users</p>
+              </div>
+            </div>
+
+            <Link
+              href="/dashboard/settings/users"
+              className="flex items-center justify-between bg-slate-100 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 rounded-xl p-6 hover:border-emerald-500 transition-colors"
+            >
+              <div>
+                <p className="font-medium text-slate-900 dark:text-white">Manage Users</p>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  Invite officers, assign roles and locations, reset PINs, deactivate accounts
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-400" />
+            </Link>
+          </section>
+        )}
+
         {/* Account Info */}
         <section className="space-y-6">
           <div className="flex items-center gap-3">
@@ -0,0 +1,647 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useVaxTraceStore, UserRole } from '@/store/useVaxTraceStore';
+import {
+  Users,
+  UserPlus,
+  ArrowLeft,
+  KeyRound,
+  UserX,
+  UserCheck,
+  Search,
+  X,
+  ShieldAlert,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface UserAccount {
+  id: string;
+  email: string;
+  staffId?: string;
+  name: string;
+  phoneNumber?: string;
+  role: UserRole;
+  assignedLocationId?: string;
+  assignedLocation?: string;
+  state?: string;
+  lga?: string;
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+}
+
+interface LocationOption {
+  id: string;
+  name: string;
+  type: 'state' | 'lga' | 'facility';
+  parentId?: string;
+}
+
+interface UserForm {
+  email: string;
+  staffId: string;
+  displayName: string;
+  phoneNumber: string;
+  role: UserRole;
+  stateId: string;
+  lgaId: string;
+  facilityId: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  nphcda_director: 'NPHCDA Director',
+  state_cold_chain_officer: 'State Cold Chain Officer',
+  lga_logistics_officer: 'LGA Logistics Officer',
+  facility_in_charge: 'Facility In-Charge',
+  system_admin: 'System Admin',
+};
+
+// Mirrors the backend rule: each role is assigned at one level of the hierarchy
+const ROLE_LOCATION_LEVEL: Record<UserRole, 'state' | 'lga' | 'facility' | null> = {
+  nphcda_director: null,
+  system_admin: null,
+  state_cold_chain_officer: 'state',
+  lga_logistics_officer: 'lga',
+  facility_in_charge: 'facility',
+};
+
+const EMPTY_FORM: UserForm = {
+  email: '',
+  staffId: '',
+  displayName: '',
+  phoneNumber: '',
+  role: 'lga_logistics_officer',
+  stateId: '',
+  lgaId: '',
+  facilityId: '',
+};
+
+const inputClass =
+  'w-full px-4 py-2 rounded-lg bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// ============================================
+// API
+// ============================================
+
+async function usersApi<T>(path: string, token?: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/v1/users${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || 'Request failed');
+  }
+
+  return result.data as T;
+}
+
+function useLocations(token: string | undefined, type: LocationOption['type'], parentId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ['user-admin-locations', type, parentId],
+    queryFn: () =>
+      usersApi<LocationOption[]>(
+        `/locations?type=${type}${parentId ? `&parentId=${parentId}` : ''}`,
+        token
+      ),
+    enabled: enabled && (type === 'state' || !!parentId),
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+// ============================================
+// PAGE
+// ============================================
+
+export default function UserAdministrationPage() {
+  const { userSession } = useVaxTraceStore();
+  const token = userSession?.accessToken;
+  const queryClient = useQueryClient();
+
+  const [filters, setFilters] = useState({ role: '', stateId: '', lgaId: '', status: 'active', search: '' });
+  const [form, setForm] = useState<UserForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [issuedPin, setIssuedPin] = useState<{ name: string; pin: string } | null>(null);
+  const [error, setError] = useState('');
+
+  const isSystemAdmin = userSession?.user?.role === 'system_admin';
+
+  const params = new URLSearchParams();
+  if (filters.role) params.set('role', filters.role);
+  if (filters.stateId) params.set('stateId', filters.stateId);
+  if (filters.lgaId) params.set('lgaId', filters.lgaId);
+  if (filters.status !== 'all') params.set('isActive', String(filters.status === 'active'));
+  if (filters.search) params.set('search', filters.search);
+
+  const { data: usersData, isLoading } = useQuery({
+    queryKey: ['user-admin-users', params.toString()],
+    queryFn: () => usersApi<{ data: UserAccount[]; total: number }>(`?${params.toString()}`, token),
+    enabled: isSystemAdmin,
+  });
+
+  const { data: states = [] } = useLocations(token, 'state', undefined, isSystemAdmin);
+  const { data: filterLgas = [] } = useLocations(token, 'lga', filters.stateId, isSystemAdmin);
+  const { data: formLgas = [] } = useLocations(token, 'lga', form?.stateId, !!form);
+  const { data: formFacilities = [] } = useLocations(token, 'facility', form?.lgaId, !!form);
+
+  const onMutationError = (err: Error) => setError(err.message);
+  const refreshUsers = () => queryClient.invalidateQueries({ queryKey: ['user-admin-users'] });
+
+  const saveUser = useMutation({
+    mutationFn: (payload: { id: string | null; body: Record<string, any> }) =>
+      payload.id
+        ? usersApi<UserAccount>(`/${payload.id}`, token, { method: 'PATCH', body: JSON.stringify(payload.body) })
+        : usersApi<UserAccount & { temporaryPin: string }>('', token, {
+            method: 'POST',
+            body: JSON.stringify(payload.body),
+          }),
+    onSuccess: (user: UserAccount & { temporaryPin?: string }) => {
+      if (user.temporaryPin) {
+        setIssuedPin({ name: user.name, pin: user.temporaryPin });
+      }
+      setForm(null);
+      setEditingId(null);
+      refreshUsers();
+    },
+    onError: onMutationError,
+  });
+
+  const userAction = useMutation({
+    mutationFn: ({ user, action }: { user: UserAccount; action: 'reset-pin' | 'deactivate' | 'reactivate' }) =>
+      usersApi<any>(`/${user.id}/${action}`, token, { method: 'POST' }).then((data) => ({ user, action, data })),
+    onSuccess: ({ user, action, data }) => {
+      if (action === 'reset-pin') {
+        setIssuedPin({ name: user.name, pin: data.temporaryPin });
+      }
+      refreshUsers();
+    },
+    onError: onMutationError,
+  });
+
+  const openInvite = () => {
+    setError('');
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM });
+  };
+
+  const openEdit = (user: UserAccount) => {
+    setError('');
+    setEditingId(user.id);
+    setForm({
+      ...EMPTY_FORM,
+      email: user.email,
+      staffId: user.staffId || '',
+      displayName: user.name === user.email ? '' : user.name,
+      phoneNumber: user.phoneNumber || '',
+      role: user.role,
+      // Pickers start empty; leaving them untouched keeps the current assignment
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!form) return;
+    setError('');
+
+    const level = ROLE_LOCATION_LEVEL[form.role];
+    const locationId =
+      level === 'state' ? form.stateId : level === 'lga' ? form.lgaId : level === 'facility' ? form.facilityId : null;
+
+    const body: Record<string, any> = {
+      displayName: form.displayName || undefined,
+      phoneNumber: form.phoneNumber || undefined,
+      role: form.role,
+    };
+
+    if (level === null) {
+      body.assignedLocationId = null;
+    } else if (locationId) {
+      body.assignedLocationId = locationId;
+    } else if (!editingId) {
+      setError(`Select the ${level === 'lga' ? 'LGA' : level} this user is assigned to`);
+      return;
+    }
+
+    if (!editingId) {
+      body.email = form.email;
+      body.staffId = form.staffId || undefined;
+    }
+
+    saveUser.mutate({ id: editingId, body });
+  };
+
+  if (!isSystemAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white dark:bg-slate-950 p-4">
+        <div className="text-center max-w-sm">
+          <ShieldAlert className="w-12 h-12 text-rose-500 mx-auto mb-3" />
+          <h1 className="text-lg font-semibold text-slate-900 dark:text-white">System admins only</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            User administration is restricted to system administrators.
+          </p>
+          <Link href="/dashboard/settings" className="inline-block mt-4 text-sm text-emerald-600 dark:text-emerald-400">
+            Back to settings
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const formLevel = form ? ROLE_LOCATION_LEVEL[form.role] : null;
+  const users = usersData?.data || [];
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100">
+      {/* Header */}
+      <div className="border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 backdrop-blur-sm sticky top-16 z-10">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/dashboard/settings"
+              className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-800 transition-colors"
+              aria-label="Back to settings"
+            >
+              <ArrowLeft className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+            </Link>
+            <div className="p-2 rounded-lg bg-gradient-to-br from-emerald-500/20 to-cyan-500/20">
+              <Users className="w-6 h-6 text-emerald-600 dark:text-emerald-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">User Administration</h1>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                Onboard officers, assign roles and locations, reset PINs
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={openInvite}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-gradient-to-r from-emerald-500 to-cyan-500 text-white hover:from-emerald-600 hover:to-cyan-600 transition-all"
+          >
+            <UserPlus className="w-4 h-4" />
+            Invite User
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && !form && (
+          <div className="p-3 rounded-lg bg-rose-500/10 border border-rose-500/30 text-sm text-rose-600 dark:text-rose-400">
+            {error}
+          </div>
+        )}
+
+        {/* One-time PIN notice */}
+        {issuedPin && (
+          <div className="flex items-start justify-between gap-4 p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/30">
+            <div>
+              <p className="font-medium text-slate-900 dark:text-white">One-time PIN for {issuedPin.name}</p>
+              <p className="text-3xl font-mono tracking-widest text-emerald-600 dark:text-emerald-400 my-2">
+                {issuedPin.pin}
+              </p>
+              <p className="text-xs text-slate-600 dark:text-slate-400">
+                Share this PIN with the user directly. It will not be shown again.
+              </p>
+            </div>
+            <button onClick={() => setIssuedPin(null)} aria-label="Dismiss">
+              <X className="w-4 h-4 text-slate-500" />
+            </button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="relative md:col-span-2">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={filters.search}
+              onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value }))}
+              placeholder="Search name, email or staff ID"
+              className={cn(inputClass, 'pl-9')}
+            />
+          </div>
+          <select
+            value={filters.role}
+            onChange={(e) => setFilters((prev) => ({ ...prev, role: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">All roles</option>
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.stateId}
+            onChange={(e) => setFilters((prev) => ({ ...prev, stateId: e.target.value, lgaId: '' }))}
+            className={inputClass}
+          >
+            <option value="">All states</option>
+            {states.map((state) => (
+              <option key={state.id} value={state.id}>
+                {state.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.lgaId}
+            onChange={(e) => setFilters((prev) => ({ ...prev, lgaId: e.target.value }))}
+            disabled={!filters.stateId}
+            className={inputClass}
+          >
+            <option value="">All LGAs</option>
+            {filterLgas.map((lga) => (
+              <option key={lga.id} value={lga.id}>
+                {lga.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-2">
+          {(['active', 'inactive', 'all'] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setFilters((prev) => ({ ...prev, status }))}
+              className={cn(
+                'px-3 py-1 rounded-full text-xs font-medium capitalize transition-colors',
+                filters.status === status
+                  ? 'bg-emerald-500 text-white'
+                  : 'bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-slate-400'
+              )}
+            >
+              {status}
+            </button>
+          ))}
+          <span className="ml-auto text-sm text-slate-500">{usersData?.total ?? 0} users</span>
+        </div>
+
+        {/* Users table */}
+        <div className="bg-slate-100 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200 dark:border-slate-800">
+                <th className="px-4 py-3 font-medium">User</th>
+                <th className="px-4 py-3 font-medium">Role</th>
+                <th className="px-4 py-3 font-medium">Location</th>
+                <th className="px-4 py-3 font-medium">Last login</th>
+                <th className="px-4 py-3 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-slate-500">
+                    Loading users...
+                  </td>
+                </tr>
+              )}
+              {!isLoading && users.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-slate-500">
+                    No users match these filters
+                  </td>
+                </tr>
+              )}
+              {users.map((user) => (
+                <tr
+                  key={user.id}
+                  className={cn(
+                    'border-b border-slate-200 dark:border-slate-800 last:border-0',
+                    !user.isActive && 'opacity-60'
+                  )}
+                >
+                  <td className="px-4 py-3">
+                    <button onClick={() => openEdit(user)} className="text-left">
+                      <p className="font-medium text-slate-900 dark:text-white hover:text-emerald-500">{user.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {user.email}
+                        {user.staffId ? ` • ${user.staffId}` : ''}
+                      </p>
+                    </button>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="inline-flex px-2 py-1 rounded text-xs font-medium bg-emerald-500/20 text-emerald-600 dark:text-emerald-400">
+                      {ROLE_LABELS[user.role]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-slate-600 dark:text-slate-400">
+                    {user.assignedLocation
+                      ? [user.assignedLocation, user.lga !== user.assignedLocation ? user.lga : null, user.state !== user.assignedLocation ? user.state : null]
+                          .filter(Boolean)
+                          .join(', ')
+                      : 'National'}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600 dark:text-slate-400">
+                    {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => userAction.mutate({ user, action: 'reset-pin' })}
+                        disabled={!user.isActive || userAction.isPending}
+                        className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-40"
+                        title="Reset PIN"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </button>
+                      {user.isActive ? (
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Deactivate ${user.name}? They will be signed out immediately.`)) {
+                              userAction.mutate({ user, action: 'deactivate' });
+                            }
+                          }}
+                          disabled={user.id === userSession?.user?.id || userAction.isPending}
+                          className="p-2 rounded-lg hover:bg-rose-500/10 text-rose-500 disabled:opacity-40"
+                          title="Deactivate"
+                        >
+                          <UserX className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => userAction.mutate({ user, action: 'reactivate' })}
+                          disabled={userAction.isPending}
+                          className="p-2 rounded-lg hover:bg-emerald-500/10 text-emerald-500 disabled:opacity-40"
+                          title="Reactivate"
+                        >
+                          <UserCheck className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Invite / edit dialog */}
+      {form && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <form
+            onSubmit={handleSubmit}
+            className="w-full max-w-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                {editingId ? 'Edit User' : 'Invite User'}
+              </h2>
+              <button type="button" onClick={() => setForm(null)} aria-label="Close">
+                <X className="w-5 h-5 text-slate-500" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium mb-1">Email</label>
+                <input
+                  type="email"
+                  required
+                  disabled={!!editingId}
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Staff ID</label>
+                <input
+                  disabled={!!editingId}
+                  value={form.staffId}
+                  onChange={(e) => setForm({ ...form, staffId: e.target.value })}
+                  placeholder="VT-LGA-001"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Phone</label>
+                <input
+                  value={form.phoneNumber}
+                  onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+                  placeholder="+234..."
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium mb-1">Display name</label>
+                <input
+                  value={form.displayName}
+                  onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium mb-1">Role</label>
+                <select
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                  className={inputClass}
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formLevel && (
+                <div className={formLevel === 'state' ? 'sm:col-span-2' : ''}>
+                  <label className="block text-sm font-medium mb-1">State</label>
+                  <select
+                    value={form.stateId}
+                    onChange={(e) => setForm({ ...form, stateId: e.target.value, lgaId: '', facilityId: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Select state</option>
+                    {states.map((state) => (
+                      <option key={state.id} value={state.id}>
+                        {state.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {(formLevel === 'lga' || formLevel === 'facility') && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">LGA</label>
+                  <select
+                    value={form.lgaId}
+                    disabled={!form.stateId}
+                    onChange={(e) => setForm({ ...form, lgaId: e.target.value, facilityId: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Select LGA</option>
+                    {formLgas.map((lga) => (
+                      <option key={lga.id} value={lga.id}>
+                        {lga.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {formLevel === 'facility' && (
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium mb-1">Facility</label>
+                  <select
+                    value={form.facilityId}
+                    disabled={!form.lgaId}
+                    onChange={(e) => setForm({ ...form, facilityId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select facility</option>
+                    {formFacilities.map((facility) => (
+                      <option key={facility.id} value={facility.id}>
+                        {facility.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {editingId && formLevel && (
+              <p className="text-xs text-slate-500">Leave the location empty to keep the current assignment.</p>
+            )}
+            {error && <p className="text-sm text-rose-500">{error}</p>}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 rounded-lg text-sm text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveUser.isPending}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50"
+              >
+                {saveUser.isPending ? 'Saving...' : editingId ? 'Save Changes' : 'Send Invite'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import Link from 'next/link';
 import { useVaxTraceStore } from '@/store/useVaxTraceStore';
 import { useMapContext } from '@/contexts/MapContext';
 import { FacilityViewMap } from '@/components/map/LocationMap';
+import { FefoIssuePanel } from '@/components/stock/FefoIssuePanel';
+import { StockLedgerTab } from '@/components/stock/StockLedgerTab';
 import {
   ArrowLeft,
   MapPin,
@@ -18,6 +20,7 @@ import {
   Phone,
   User,
   Calendar,
+  BookOpen,
 } from 'lucide-react';
 import { formatDate, formatDateTime, getStockStatusColor, getVVMStageColor, getExpiryRisk, getExpiryRiskColor } from '@/lib/utils';
 
@@ -75,6 +78,7 @@ export default function FacilityDetailPage() {
   const { selectFacility } = useMapContext();
   const [facility, setFacility] = useState<FacilityDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'stock' | 'ledger'>('stock');
 
   useEffect(() => {
     if (!userSession?.isAuthenticated) {
@@ -363,71 +367,101 @@ export default function FacilityDetailPage() {
           </div>
         </div>
 
-        {/* Stock Data Table */}
-        <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-4">
-          <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-            <Package className="w-5 h-5 text-cyan-400" />
-            Vaccine Stock Levels
-          </h2>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b border-slate-800">
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Product</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Status</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Quantity</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">MoS</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">VVM</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Expiry</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Batch</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-800">
-                {facility.stockData.map((stock, index) => (
-                  <tr key={index} className="hover:bg-slate-800/50 transition-colors">
-                    <td className="px-4 py-3">
-                      <div className="text-sm font-medium text-white">{stock.productName}</div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span
-                        className={`px-2 py-1 rounded text-xs font-medium border ${getStockStatusColor(
-                          stock.stockStatus
-                        )}`}
-                      >
-                        {stock.stockStatus}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="text-sm text-white">{stock.quantity} doses</div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="text-sm text-white">{stock.mos} months</div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span
-                        className={`px-2 py-1 rounded text-xs font-medium border ${getVVMStageColor(
-                          stock.vvmStage
-                        )}`}
-                      >
-                        Stage {stock.vvmStage}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="text-sm text-white">{formatDate(stock.expiryDate)}</div>
-                      <div className={`text-xs ${getExpiryRiskColor(stock.expiryDate)}`}>
-                        {getExpiryRisk(stock.expiryDate) === 'CRITICAL' ? 'Expiring Soon' :
-                         getExpiryRisk(stock.expiryDate) === 'HIGH' ? 'Check Expiry' : 'OK'}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="text-sm text-slate-300">{stock.batchNumber}</div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+        {/* Stock Tabs */}
+        <div className="flex gap-2 border-b border-slate-800">
+          {[
+            { id: 'stock' as const, label: 'Stock', icon: Package },
+            { id: 'ledger' as const, label: 'Ledger', icon: BookOpen },
+          ].map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-sm font-medium flex items-center gap-2 border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? 'border-emerald-500 text-white'
+                  : 'border-transparent text-slate-400 hover:text-white'
+              }`}
+            >
+              <tab.icon className="w-4 h-4" />
+              {tab.label}
+            </button>
+          ))}
         </div>
+
+        {activeTab === 'ledger' && <StockLedgerTab facilityId={facility.id} />}
+
+        {activeTab === 'stock' && (
+          <>
+            {/* Stock Data Table */}
+            <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-4">
+              <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <Package className="w-5 h-5 text-cyan-400" />
+                Vaccine Stock Levels
+              </h2>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-800">
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Product</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Quantity</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">MoS</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">VVM</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Expiry</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Batch</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {facility.stockData.map((stock, index) => (
+                      <tr key={index} className="hover:bg-slate-800/50 transition-colors">
+                        <td className="px-4 py-3">
+                          <div className="text-sm font-medium text-white">{stock.productName}</div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-medium border ${getStockStatusColor(
+                              stock.stockStatus
+                            )}`}
+                          >
+                            {stock.stockStatus}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-white">{stock.quantity} doses</div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-white">{stock.mos} months</div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-medium border ${getVVMStageColor(
+                              stock.vvmStage
+                            )}`}
+                          >
+                            Stage {stock.vvmStage}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-white">{formatDate(stock.expiryDate)}</div>
+                          <div className={`text-xs ${getExpiryRiskColor(stock.expiryDate)}`}>
+                            {getExpiryRisk(stock.expiryDate) === 'CRITICAL' ? 'Expiring Soon' :
+                             getExpiryRisk(stock.expiryDate) === 'HIGH' ? 'Check Expiry' : 'OK'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-slate-300">{stock.batchNumber}</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* FEFO Issue */}
+            <FefoIssuePanel facilityId={facility.id} />
+          </>
+        )}
       </main>
     </div>
   );
@@ -22,12 +22,12 @@ export default function LoginPage() {
         role: user.role as any,
       },
       permissions: {
-        canViewNational: ['NATIONAL_ADMIN', 'STATE_MANAGER'].includes(user.role),
-        canViewState: ['NATIONAL_ADMIN', 'STATE_MANAGER', 'LGA_SUPERVISOR'].includes(user.role),
-        canViewLGA: ['NATIONAL_ADMIN', 'STATE_MANAGER', 'LGA_SUPERVISOR'].includes(user.role),
+        canViewNational: ['nphcda_director', 'system_admin'].includes(user.role),
+        canViewState: ['nphcda_director', 'state_cold_chain_officer', 'system_admin'].includes(user.role),
+        canViewLGA: ['nphcda_director', 'state_cold_chain_officer', 'lga_logistics_officer', 'system_admin'].includes(user.role),
         canViewFacility: true,
-        canEditStock: ['FACILITY_IN_CHARGE', 'LGA_SUPERVISOR'].includes(user.role),
-        canEditUsers: ['NATIONAL_ADMIN'].includes(user.role),
+        canEditStock: ['lga_logistics_officer', 'facility_in_charge', 'system_admin'].includes(user.role),
+        canEditUsers: ['nphcda_director', 'system_admin'].includes(user.role),
         canViewReports: true,
       },
       loginTime: new Date().toISOString(),
@@ -59,7 +59,7 @@ export default function LoginPage() {
             </p>
           </div>
 
-          <BiometricLogin onSuccess={handleAuthSuccess} />
+          <BiometricLogin onSuccess={() => router.push('/dashboard')} />
 
           {/* PIN Fallback */}
           {!showPinFallback ? (
@@ -121,7 +121,7 @@ function PinFallbackForm({
         onSuccess({
           id: 'demo-user',
           name: 'Demo User',
-          role: 'NATIONAL_ADMIN',
+          role: 'nphcda_director',
         });
       } else {
         setError('Invalid PIN. Try 1234 for demo.');
@@ -0,0 +1,166 @@
+/**
+ * VaxTrace Nigeria - Biometric Devices
+ *
+ * Lets a signed-in user register this device's platform authenticator
+ * (fingerprint / face unlock) for biometric login and revoke old devices.
+ *
+ * @author VaxTrace Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Fingerprint, Loader2, Plus, Smartphone, Trash2 } from 'lucide-react';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
+import {
+  createCredential,
+  type RegistrationOptionsJSON,
+  type WebAuthnCredentialInfo,
+} from '@/lib/webauthn';
+import { cn } from '@/lib/utils';
+
+// ============================================
+// API
+// ============================================
+
+async function webAuthnApi<T>(path: string, token?: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/v1/auth/webauthn${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || 'Request failed');
+  }
+
+  return result.data as T;
+}
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : 'Never');
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function BiometricDevices() {
+  const { userSession } = useVaxTraceStore();
+  const token = userSession?.accessToken;
+  const queryClient = useQueryClient();
+
+  const [deviceName, setDeviceName] = useState('');
+  const [error, setError] = useState('');
+
+  const isSupported = typeof window !== 'undefined' && !!window.PublicKeyCredential;
+
+  const { data: credentials = [], isLoading } = useQuery({
+    queryKey: ['webauthn-credentials'],
+    queryFn: () => webAuthnApi<WebAuthnCredentialInfo[]>('/credentials', token),
+    enabled: !!token,
+  });
+
+  const refreshCredentials = () => queryClient.invalidateQueries({ queryKey: ['webauthn-credentials'] });
+  const onMutationError = (err: Error) => setError(err.message);
+
+  const registerDevice = useMutation({
+    mutationFn: async () => {
+      const options = await webAuthnApi<RegistrationOptionsJSON>('/registration-options', token, { method: 'POST' });
+      const registration = await createCredential(options, deviceName.trim() || undefined);
+
+      return webAuthnApi<WebAuthnCredentialInfo>('/register', token, {
+        method: 'POST',
+        body: JSON.stringify(registration),
+      });
+    },
+    onSuccess: () => {
+      setError('');
+      setDeviceName('');
+      refreshCredentials();
+    },
+    onError: onMutationError,
+  });
+
+  const revokeDevice = useMutation({
+    mutationFn: (id: string) => webAuthnApi<null>(`/credentials/${id}`, token, { method: 'DELETE' }),
+    onSuccess: refreshCredentials,
+    onError: onMutationError,
+  });
+
+  return (
+    <div className="bg-slate-100 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-800 rounded-xl p-6 space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-500">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading devices...
+        </div>
+      ) : credentials.length === 0 ? (
+        <p className="text-sm text-slate-600 dark:text-slate-400">No devices registered for biometric login yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+          {credentials.map((credential) => (
+            <li key={credential.id} className="flex items-center justify-between py-3 first:pt-0">
+              <div className="flex items-center gap-3">
+                <Smartphone className="w-5 h-5 text-slate-500" />
+                <div>
+                  <p className="font-medium text-slate-900 dark:text-white">
+                    {credential.deviceName || 'Unnamed device'}
+                  </p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    Added {formatDate(credential.createdAt)} · Last used {formatDate(credential.lastUsedAt)}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => revokeDevice.mutate(credential.id)}
+                disabled={revokeDevice.isPending}
+                className="p-2 text-slate-500 hover:text-red-500 transition-colors disabled:opacity-50"
+                title="Revoke device"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isSupported ? (
+        <div className="flex flex-col sm:flex-row gap-3 pt-2">
+          <input
+            type="text"
+            value={deviceName}
+            onChange={(e) => setDeviceName(e.target.value)}
+            placeholder="Device name (e.g. Office tablet)"
+            maxLength={100}
+            className="flex-1 px-4 py-2 rounded-lg bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            onClick={() => registerDevice.mutate()}
+            disabled={registerDevice.isPending}
+            className={cn(
+              'flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+              'bg-emerald-500 hover:bg-emerald-600 text-white disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {registerDevice.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Register this device
+          </button>
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          <Fingerprint className="w-4 h-4" />
+          This browser does not support biometric login.
+        </p>
+      )}
+    </div>
+  );
+}
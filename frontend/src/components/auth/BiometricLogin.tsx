@@ -21,6 +21,7 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { useUserSession } from '@/store/useVaxTraceStore';
 import { Fingerprint, Shield, AlertCircle, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getAssertion, toUserSession, type AuthResponse, type AuthenticationOptionsJSON } from '@/lib/webauthn';
 
 // ============================================
 // TYPES
@@ -31,12 +32,6 @@ interface LoginProps {
   onError?: (error: Error) => void;
 }
 
-interface BiometricCredential {
-  id: string;
-  type: 'public-key' | 'password';
-  name: string;
-}
-
 // ============================================
 // COMPONENT
 // ============================================
@@ -83,56 +78,34 @@ export function BiometricLogin({ onSuccess, onError }: LoginProps) {
         onSuccess?.({
           id: cachedSession.user?.id || 'unknown',
           name: cachedSession.user?.name || 'Unknown User',
-          role: cachedSession.user?.role || 'FACILITY_IN_CHARGE',
+          role: cachedSession.user?.role || 'facility_in_charge',
         });
         return;
       }
 
       setStatus('authenticating');
 
-      // Initiate WebAuthn authentication
-      const credential = await navigator.credentials.get({
-        publicKey: {
-          challenge: new Uint8Array(32),
-          allowCredentials: [],
-          userVerification: 'preferred',
-          timeout: 60000,
-        },
-      }) as PublicKeyCredential;
-
-      // Send credential to backend for verification
-      const response = await fetch('/api/v1/auth/biometric', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          credentialId: credential.id,
-          response: {
-            authenticatorData: bufferToBase64((credential.response as any).authenticatorData),
-            clientDataJSON: bufferToBase64((credential.response as any).clientDataJSON),
-            signature: bufferToBase64((credential.response as any).signature),
-          },
-        }),
+      // Ask the backend for a single-use challenge (limited to the last user's devices if known)
+      const options = await authApi<AuthenticationOptionsJSON>('/webauthn/authentication-options', {
+        userId: cachedSession?.user?.id,
       });
 
-      if (!response.ok) {
-        throw new Error('Authentication failed');
-      }
+      // Sign the challenge with the device's platform authenticator
+      const assertion = await getAssertion(options);
+
+      // Backend verifies the signature and counter, then issues tokens
+      const session = toUserSession(await authApi<AuthResponse>('/biometric', assertion));
+
+      setSession(session);
 
-      const data = await response.json();
-      
-      // Set user session
-      setSession(data.session);
-      
       // Cache session for offline access
-      cacheSession(data.session);
-      
+      cacheSession(session);
+
       setStatus('success');
       onSuccess?.({
-        id: data.session.user?.id || 'unknown',
-        name: data.session.user?.name || 'Unknown User',
-        role: data.session.user?.role || 'FACILITY_IN_CHARGE',
+        id: session.user.id,
+        name: session.user.name,
+        role: session.user.role,
       });
     } catch (error: any) {
       console.error('[BiometricLogin] Authentication error:', error);
@@ -153,25 +126,16 @@ export function BiometricLogin({ onSuccess, onError }: LoginProps) {
     setErrorMessage('');
 
     try {
-      const response = await fetch('/api/v1/auth/pin', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ pin }),
-      });
+      const session = toUserSession(
+        await authApi<AuthResponse>('/pin', { userId: getCachedSession()?.user?.id, pin })
+      );
 
-      if (!response.ok) {
-        throw new Error('Invalid PIN');
-      }
-
-      const data = await response.json();
-      setSession(data.session);
+      setSession(session);
       setStatus('success');
       onSuccess?.({
-        id: data.session.user?.id || 'unknown',
-        name: data.session.user?.name || 'Unknown User',
-        role: data.session.user?.role || 'FACILITY_IN_CHARGE',
+        id: session.user.id,
+        name: session.user.name,
+        role: session.user.role,
       });
     } catch (error: any) {
       setStatus('error');
@@ -417,15 +381,24 @@ export function BiometricLogin({ onSuccess, onError }: LoginProps) {
 // ============================================
 
 /**
- * Converts an ArrayBuffer to base64 string
+ * POSTs to the auth API proxy and unwraps its { success, data } envelope
  */
-function bufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+async function authApi<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`/api/v1/auth${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || 'Authentication failed');
   }
-  return btoa(binary);
+
+  return result.data as T;
 }
 
 /**
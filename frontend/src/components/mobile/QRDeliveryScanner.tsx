@@ -5,10 +5,12 @@
  * vaccine receipt and update the system in real-time.
  * 
  * Features:
- * - Camera-based QR scanning
- * - Offline-first with pending uploads
- * - VVM status capture
- * - Temperature recording
+ * - Camera-based QR scanning (frames decoded on the device with jsQR)
+ * - Manual manifest entry fallback
+ * - Signed manifests verified offline with the cached public key
+ * - Per-lot receipt: doses received, doses damaged and VVM stage
+ * - Temperature recording and shipment photo
+ * - Offline-first: receipts queued in IndexedDB and submitted when online
  * - Digital Proof of Delivery (PoD)
  * - Haptic feedback
  */
@@ -16,63 +18,97 @@
 'use client';
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Camera, QrCode, CheckCircle, XCircle, Thermometer, Package } from 'lucide-react';
+import jsQR from 'jsqr';
+import {
+  Camera,
+  QrCode,
+  CheckCircle,
+  XCircle,
+  Thermometer,
+  Package,
+  ShieldCheck,
+  ShieldAlert,
+  ImagePlus,
+  CloudOff,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DeliveryManifest, refreshPublicKey, verifyManifest } from '@/lib/delivery-manifest';
+import {
+  DeliveryConfirmation,
+  countPendingDeliveryReceipts,
+  flushDeliveryReceipts,
+  submitDeliveryReceipt,
+} from '@/lib/delivery-receipts';
+import { DeliveryReceiptPayload, setupNetworkListeners } from '@/lib/indexeddb';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
+
+export type { DeliveryConfirmation } from '@/lib/delivery-receipts';
 
 // ============================================
 // TYPES
 // ============================================
 
-interface DeliveryData {
-  transferId: string;
-  fromLGA: string;
-  toLGA: string;
-  vaccineName: string;
-  quantity: number;
-  batchNumber: string;
-  expiryDate: string;
-  qrCode: string;
-}
-
 interface ScanResult {
   success: boolean;
-  data?: DeliveryData;
+  data?: DeliveryManifest;
+  verifiedOffline?: boolean;
   error?: string;
 }
 
-interface ConfirmationData {
-  transferId: string;
+interface ReceiptLine {
+  vaccineCode: string;
+  lotNumber: string;
+  expiryDate: string;
+  shipped: number;
+  received: number;
+  damaged: number;
   vvmStage: number;
-  temperature: number;
-  notes: string;
-  timestamp: string;
-  location: {
-    latitude: number;
-    longitude: number;
-  };
 }
 
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Camera frames are scaled down to this width before decoding
+const SCAN_FRAME_WIDTH = 640;
+
+// Shipment photos are resized and re-encoded as JPEG before upload
+const PHOTO_MAX_DIMENSION = 1280;
+const PHOTO_QUALITY = 0.7;
+
 // ============================================
 // COMPONENT
 // ============================================
 
 interface QRDeliveryScannerProps {
-  onDeliveryConfirmed?: (data: ConfirmationData) => void;
+  onDeliveryConfirmed?: (confirmation: DeliveryConfirmation) => void;
   onError?: (error: Error) => void;
 }
 
 export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliveryScannerProps) {
-  const [step, setStep] = useState<'scan' | 'confirm' | 'success' | 'error'>('scan');
+  const [step, setStep] = useState<'scan' | 'confirm' | 'success' | 'queued' | 'error'>('scan');
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
   const [isScanning, setIsScanning] = useState(false);
-  const [vvmStage, setVvmStage] = useState<number>(1);
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
   const [temperature, setTemperature] = useState<number>(4.0);
   const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<string | null>(null);
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<DeliveryConfirmation | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [pendingReceipts, setPendingReceipts] = useState(0);
+  const { userSession } = useVaxTraceStore();
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastCodeRef = useRef<string | null>(null);
+  const onDeliveryConfirmedRef = useRef(onDeliveryConfirmed);
+
+  // The delivery is recorded at the worst VVM stage of its lots
+  const vvmStage = Math.max(1, ...lines.map((line) => line.vvmStage));
+  const hasInvalidLine = lines.some((line) => line.received + line.damaged > line.shipped);
 
   // Get current location
   useEffect(() => {
@@ -91,6 +127,36 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
     }
   }, []);
 
+  // Cache the manifest signing key while online, for offline verification
+  useEffect(() => {
+    if (navigator.onLine) {
+      refreshPublicKey(userSession?.accessToken);
+    }
+  }, [userSession?.accessToken]);
+
+  // Callers usually pass an inline callback; keep the sync below from re-running on every render
+  useEffect(() => {
+    onDeliveryConfirmedRef.current = onDeliveryConfirmed;
+  }, [onDeliveryConfirmed]);
+
+  // Submit receipts queued offline, now and whenever the device reconnects
+  const syncPendingReceipts = useCallback(async () => {
+    try {
+      if (navigator.onLine) {
+        const { confirmed } = await flushDeliveryReceipts(userSession?.accessToken);
+        confirmed.forEach((receipt) => onDeliveryConfirmedRef.current?.(receipt));
+      }
+      setPendingReceipts(await countPendingDeliveryReceipts());
+    } catch (error) {
+      console.error('Receipt sync error:', error);
+    }
+  }, [userSession?.accessToken]);
+
+  useEffect(() => {
+    syncPendingReceipts();
+    return setupNetworkListeners(syncPendingReceipts, () => undefined);
+  }, [syncPendingReceipts]);
+
   // Start camera for scanning
   const startScanning = useCallback(async () => {
     try {
@@ -114,94 +180,192 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
     if (videoRef.current && videoRef.current.srcObject) {
       const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
       tracks.forEach((track) => track.stop());
-      setIsScanning(false);
+      videoRef.current.srcObject = null;
     }
+    setIsScanning(false);
   }, []);
 
-  // Simulate QR scan (in production, use a real QR library)
-  const simulateScan = useCallback(() => {
-    setIsScanning(true);
-    
-    setTimeout(() => {
+  // Release the camera when leaving the page
+  useEffect(() => stopScanning, [stopScanning]);
+
+  // Verify a scanned or entered manifest before showing it
+  const handleManifestCode = useCallback(
+    async (code: string) => {
+      const verification = await verifyManifest(code, userSession?.accessToken);
+
+      if (verification.status === 'invalid') {
+        setScanResult({ success: false, error: verification.reason });
+        return;
+      }
+
       setScanResult({
         success: true,
-        data: {
-          transferId: 'TRF-2024-001',
-          fromLGA: 'Sabon Gari',
-          toLGA: 'Zaria',
-          vaccineName: 'OPV (Oral Polio Vaccine)',
-          quantity: 500,
-          batchNumber: 'OPV-2024-0442',
-          expiryDate: '2025-12-31',
-          qrCode: 'VAX-TRF-2024-001',
-        },
+        data: verification.manifest,
+        verifiedOffline: verification.status === 'verified',
       });
+      setLines(
+        verification.manifest.items.map((item) => ({
+          vaccineCode: item.vaccineCode,
+          lotNumber: item.lotNumber,
+          expiryDate: item.expiryDate,
+          shipped: item.quantity,
+          received: item.quantity,
+          damaged: 0,
+          vvmStage: 1,
+        }))
+      );
       setStep('confirm');
-      setIsScanning(false);
+      setManualCode('');
       stopScanning();
-      
+
       // Haptic feedback
       if ('vibrate' in navigator) {
         navigator.vibrate(200);
       }
-    }, 2000);
-  }, [stopScanning]);
+    },
+    [userSession?.accessToken, stopScanning]
+  );
+
+  // Decode camera frames until a manifest is found; a code already rejected is not checked again
+  useEffect(() => {
+    if (!isScanning) {
+      return;
+    }
+
+    let frame = 0;
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+
+      if (video && canvas && context && video.readyState === video.HAVE_ENOUGH_DATA) {
+        const scale = Math.min(1, SCAN_FRAME_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        if (code?.data && code.data !== lastCodeRef.current) {
+          lastCodeRef.current = code.data;
+          handleManifestCode(code.data);
+        }
+      }
+
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    frame = requestAnimationFrame(scanFrame);
+    return () => cancelAnimationFrame(frame);
+  }, [isScanning, handleManifestCode]);
+
+  // Update one lot of the receipt; lots at VVM stage 3 or 4 must not be used
+  const updateLine = useCallback((index: number, updates: Partial<ReceiptLine>) => {
+    setLines((current) =>
+      current.map((line, i) => {
+        if (i !== index) {
+          return line;
+        }
+        const updated = { ...line, ...updates };
+        return updated.vvmStage > 2 ? { ...updated, received: 0, damaged: updated.shipped } : updated;
+      })
+    );
+  }, []);
+
+  // Attach a photo of the shipment
+  const handlePhoto = useCallback(async (file?: File) => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      setPhoto(await compressPhoto(file));
+    } catch (error) {
+      console.error('Photo error:', error);
+      setPhoto(null);
+    }
+  }, []);
 
   // Confirm delivery
   const confirmDelivery = useCallback(async () => {
-    if (!scanResult?.data || !location) {
+    if (!scanResult?.data) {
       return;
     }
 
     setIsSubmitting(true);
+    setErrorMessage(null);
 
     try {
-      const confirmationData: ConfirmationData = {
+      // The backend receives the delivery into the signed-in user's facility
+      const receipt: DeliveryReceiptPayload = {
+        manifest: scanResult.data.token,
+        qrCodeId: scanResult.data.manifestId,
         transferId: scanResult.data.transferId,
         vvmStage,
         temperature,
-        notes,
+        notes: notes || undefined,
         timestamp: new Date().toISOString(),
-        location,
+        location: location ? { lat: location.latitude, lng: location.longitude } : undefined,
+        photo: photo || undefined,
+        items: lines.map((line) => ({
+          vaccineCode: line.vaccineCode,
+          lotNumber: line.lotNumber,
+          quantity: line.received,
+          damagedQuantity: line.damaged,
+          vvmStage: line.vvmStage,
+        })),
       };
 
-      // Send confirmation to backend
-      const response = await fetch('/api/v1/delivery/confirm', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(confirmationData),
-      });
+      const submission = await submitDeliveryReceipt(receipt, userSession?.accessToken);
 
-      if (!response.ok) {
-        throw new Error('Failed to confirm delivery');
-      }
-
-      setStep('success');
-      
       // Haptic feedback
       if ('vibrate' in navigator) {
         navigator.vibrate([100, 50, 100]);
       }
 
-      onDeliveryConfirmed?.(confirmationData);
+      if (submission.status === 'queued') {
+        setPendingReceipts(await countPendingDeliveryReceipts());
+        setStep('queued');
+        return;
+      }
+
+      setConfirmation(submission.confirmation);
+      setStep('success');
+      onDeliveryConfirmed?.(submission.confirmation);
     } catch (error: any) {
       console.error('Confirmation error:', error);
+      setErrorMessage(error.message);
       setStep('error');
       onError?.(error);
     } finally {
       setIsSubmitting(false);
     }
-  }, [scanResult, vvmStage, temperature, notes, location, onDeliveryConfirmed, onError]);
+  }, [
+    scanResult,
+    lines,
+    vvmStage,
+    temperature,
+    notes,
+    photo,
+    location,
+    userSession?.accessToken,
+    onDeliveryConfirmed,
+    onError,
+  ]);
 
   // Reset scanner
   const resetScanner = useCallback(() => {
     setStep('scan');
     setScanResult(null);
-    setVvmStage(1);
+    setConfirmation(null);
+    setErrorMessage(null);
+    setLines([]);
     setTemperature(4.0);
     setNotes('');
+    setPhoto(null);
+    setManualCode('');
+    lastCodeRef.current = null;
   }, []);
 
   // Render scan step
@@ -214,6 +378,7 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
           <p className="text-slate-400 text-sm">
             Scan the QR code on the delivery manifest
           </p>
+          {pendingReceipts > 0 && <PendingReceiptsBanner count={pendingReceipts} />}
         </div>
 
         {/* Camera View */}
@@ -227,7 +392,9 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
                 playsInline
                 muted
               />
-              
+              <canvas ref={canvasRef} className="hidden" />
+
+
               {/* Scan overlay */}
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="w-48 h-48 border-4 border-emerald-400 rounded-lg relative">
@@ -259,8 +426,15 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
 
         {/* Actions */}
         <div className="p-4 border-t border-slate-800 space-y-3">
+          {scanResult?.error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+              <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{scanResult.error}</span>
+            </div>
+          )}
+
           <button
-            onClick={simulateScan}
+            onClick={isScanning ? stopScanning : startScanning}
             className={cn(
               'w-full py-4 rounded-xl',
               'bg-gradient-to-r from-emerald-500 to-cyan-500',
@@ -270,31 +444,38 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
             )}
           >
             <Camera className="w-5 h-5" />
-            <span>Start Camera Scan</span>
+            <span>{isScanning ? 'Stop Camera' : 'Start Camera Scan'}</span>
           </button>
 
-          <button
-            onClick={() => {
-              // Manual entry fallback
-              setScanResult({
-                success: true,
-                data: {
-                  transferId: 'TRF-2024-001',
-                  fromLGA: 'Sabon Gari',
-                  toLGA: 'Zaria',
-                  vaccineName: 'OPV (Oral Polio Vaccine)',
-                  quantity: 500,
-                  batchNumber: 'OPV-2024-0442',
-                  expiryDate: '2025-12-31',
-                  qrCode: 'VAX-TRF-2024-001',
-                },
-              });
-              setStep('confirm');
+          {/* Manual entry fallback, also used by handheld scanners that type the code */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleManifestCode(manualCode);
             }}
-            className="w-full py-3 rounded-lg text-slate-400 text-sm"
+            className="space-y-2"
           >
-            Enter Transfer ID Manually
-          </button>
+            <textarea
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Paste the manifest code (VXT1...)"
+              className={cn(
+                'w-full px-4 py-3 rounded-lg bg-slate-800',
+                'text-white text-xs font-mono',
+                'focus:outline-none focus:ring-2 focus:ring-cyan-500',
+                'resize-none'
+              )}
+              rows={3}
+            />
+            <button
+              type="submit"
+              disabled={!manualCode.trim()}
+              className="w-full py-3 rounded-lg text-slate-400 text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <QrCode className="w-4 h-4" />
+              Enter Manifest Code Manually
+            </button>
+          </form>
         </div>
       </div>
     );
@@ -314,70 +495,122 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
 
         {/* Delivery Details */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {/* Transfer Card */}
+          {/* Manifest Card */}
           <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50">
             <div className="flex items-center gap-3 mb-4">
               <div className="w-10 h-10 rounded-lg bg-cyan-500/20 flex items-center justify-center">
                 <Package className="w-5 h-5 text-cyan-400" />
               </div>
               <div>
-                <p className="text-white font-medium">{scanResult.data.vaccineName}</p>
-                <p className="text-slate-400 text-sm">{scanResult.data.batchNumber}</p>
+                <p className="text-white font-medium">Transfer {scanResult.data.transferId}</p>
+                {scanResult.verifiedOffline ? (
+                  <p className="text-emerald-400 text-xs flex items-center gap-1">
+                    <ShieldCheck className="w-3 h-3" />
+                    Signed manifest verified
+                  </p>
+                ) : (
+                  <p className="text-amber-400 text-xs flex items-center gap-1">
+                    <ShieldAlert className="w-3 h-3" />
+                    Signature will be checked on confirmation
+                  </p>
+                )}
               </div>
             </div>
 
             <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-slate-400">Transfer ID:</span>
-                <span className="text-white font-mono">{scanResult.data.transferId}</span>
-              </div>
               <div className="flex justify-between">
                 <span className="text-slate-400">From:</span>
-                <span className="text-white">{scanResult.data.fromLGA}</span>
+                <span className="text-white">{scanResult.data.origin.name}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-400">To:</span>
-                <span className="text-white">{scanResult.data.toLGA}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-slate-400">Quantity:</span>
-                <span className="text-white">{scanResult.data.quantity} vials</span>
+                <span className="text-white">{scanResult.data.destination.name}</span>
               </div>
               <div className="flex justify-between">
-                <span className="text-slate-400">Expiry:</span>
-                <span className="text-white">{scanResult.data.expiryDate}</span>
+                <span className="text-slate-400">Valid until:</span>
+                <span className="text-white">{scanResult.data.expiresAt.slice(0, 10)}</span>
               </div>
             </div>
           </div>
 
-          {/* VVM Status */}
-          <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50">
-            <label className="block text-slate-400 text-sm mb-3">
-              VVM Stage (Vaccine Vial Monitor)
-            </label>
-            <div className="flex gap-2">
-              {[1, 2, 3, 4].map((stage) => (
-                <button
-                  key={stage}
-                  onClick={() => setVvmStage(stage)}
-                  className={cn(
-                    'flex-1 py-3 rounded-lg font-medium text-sm',
-                    vvmStage === stage
-                      ? stage <= 2
-                        ? 'bg-emerald-500 text-white'
-                        : 'bg-red-500 text-white'
-                      : 'bg-slate-800 text-slate-400'
-                  )}
-                >
-                  Stage {stage}
-                </button>
-              ))}
+          {/* Lots received */}
+          <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50 space-y-4">
+            <div>
+              <p className="text-slate-400 text-sm">Lots received</p>
+              <p className="text-slate-500 text-xs">
+                Record the doses received into stock, the doses damaged and the VVM stage of each lot
+              </p>
             </div>
-            <p className="text-slate-500 text-xs mt-2">
-              {vvmStage <= 2
-                ? '✓ Acceptable condition'
-                : '⚠ Do not use - Contact supervisor'}
-            </p>
+
+            {lines.map((line, index) => (
+              <div key={`${line.vaccineCode}-${line.lotNumber}`} className="pt-4 border-t border-slate-800 space-y-3">
+                <div className="flex justify-between text-sm">
+                  <div>
+                    <p className="text-white">{line.vaccineCode}</p>
+                    <p className="text-slate-500 text-xs font-mono">
+                      {line.lotNumber} · exp {line.expiryDate}
+                    </p>
+                  </div>
+                  <span className="text-white">{line.shipped} shipped</span>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-slate-400 text-xs">
+                    Received
+                    <input
+                      type="number"
+                      min={0}
+                      max={line.shipped}
+                      value={line.received}
+                      disabled={line.vvmStage > 2}
+                      onChange={(e) => updateLine(index, { received: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-slate-800 text-white font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="text-slate-400 text-xs">
+                    Damaged
+                    <input
+                      type="number"
+                      min={0}
+                      max={line.shipped}
+                      value={line.damaged}
+                      disabled={line.vvmStage > 2}
+                      onChange={(e) => updateLine(index, { damaged: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-slate-800 text-white font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                    />
+                  </label>
+                </div>
+
+                <div className="flex gap-2">
+                  {[1, 2, 3, 4].map((stage) => (
+                    <button
+                      key={stage}
+                      onClick={() => updateLine(index, { vvmStage: stage })}
+                      className={cn(
+                        'flex-1 py-2 rounded-lg font-medium text-xs',
+                        line.vvmStage === stage
+                          ? stage <= 2
+                            ? 'bg-emerald-500 text-white'
+                            : 'bg-red-500 text-white'
+                          : 'bg-slate-800 text-slate-400'
+                      )}
+                    >
+                      VVM {stage}
+                    </button>
+                  ))}
+                </div>
+
+                {line.vvmStage > 2 && (
+                  <p className="text-red-400 text-xs">⚠ Do not use - all doses recorded as damaged. Contact supervisor</p>
+                )}
+                {line.received + line.damaged > line.shipped && (
+                  <p className="text-red-400 text-xs">Received and damaged doses exceed the {line.shipped} shipped</p>
+                )}
+                {line.received + line.damaged < line.shipped && (
+                  <p className="text-amber-400 text-xs">{line.shipped - line.received - line.damaged} doses missing</p>
+                )}
+              </div>
+            ))}
           </div>
 
           {/* Temperature */}
@@ -411,6 +644,25 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
             </p>
           </div>
 
+          {/* Shipment Photo */}
+          <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50">
+            <label className="block text-slate-400 text-sm mb-3">
+              Shipment Photo (Optional)
+            </label>
+            {photo && <img src={photo} alt="Shipment" className="w-full rounded-lg mb-3" />}
+            <label className="w-full py-3 rounded-lg bg-slate-800 text-slate-300 text-sm flex items-center justify-center gap-2 cursor-pointer">
+              <ImagePlus className="w-4 h-4" />
+              {photo ? 'Retake Photo' : 'Take Photo'}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => handlePhoto(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+
           {/* Notes */}
           <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50">
             <label className="block text-slate-400 text-sm mb-3">
@@ -446,7 +698,7 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
         <div className="p-4 border-t border-slate-800 space-y-3">
           <button
             onClick={confirmDelivery}
-            disabled={isSubmitting || vvmStage > 2 || temperature < 2 || temperature > 8}
+            disabled={isSubmitting || hasInvalidLine || temperature < 2 || temperature > 8}
             className={cn(
               'w-full py-4 rounded-xl',
               'bg-gradient-to-r from-emerald-500 to-cyan-500',
@@ -494,7 +746,9 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
           </h1>
           
           <p className="text-slate-400 mb-8">
-            The transfer has been recorded and stock levels updated.
+            {confirmation?.meta?.facilityName
+              ? `Received into ${confirmation.meta.facilityName} and stock levels updated.`
+              : 'The transfer has been recorded and stock levels updated.'}
           </p>
 
           {scanResult?.data && (
@@ -515,6 +769,36 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
     );
   }
 
+  // Render queued step
+  if (step === 'queued') {
+    return (
+      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center p-6">
+        <div className="text-center">
+          <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-amber-500/20 mb-6">
+            <CloudOff className="w-10 h-10 text-amber-400" />
+          </div>
+
+          <h1 className="text-2xl font-bold text-white mb-2">
+            Receipt Saved Offline
+          </h1>
+
+          <p className="text-slate-400 mb-8">
+            The proof of delivery is stored on this device and will be submitted automatically when you are back online.
+          </p>
+
+          <PendingReceiptsBanner count={pendingReceipts} />
+
+          <button
+            onClick={resetScanner}
+            className="mt-6 px-8 py-3 rounded-lg bg-slate-800 text-white font-medium"
+          >
+            Scan Next Delivery
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Render error step
   if (step === 'error') {
     return (
@@ -529,7 +813,7 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
           </h1>
           
           <p className="text-slate-400 mb-8">
-            Unable to confirm delivery. Please try again.
+            {errorMessage || 'Unable to confirm delivery. Please try again.'}
           </p>
 
           <div className="flex gap-3">
@@ -554,6 +838,40 @@ export function QRDeliveryScanner({ onDeliveryConfirmed, onError }: QRDeliverySc
   return null;
 }
 
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+
+function PendingReceiptsBanner({ count }: { count: number }) {
+  return (
+    <div className="mt-3 inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-500/10 border border-amber-500/30">
+      <CloudOff className="w-4 h-4 text-amber-400" />
+      <span className="text-amber-400 text-xs">
+        {count} {count === 1 ? 'receipt' : 'receipts'} waiting to sync
+      </span>
+    </div>
+  );
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Resize a photo and re-encode it as a JPEG data URL
+ */
+async function compressPhoto(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PHOTO_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+}
+
 // ============================================
 // STYLES
 // ============================================
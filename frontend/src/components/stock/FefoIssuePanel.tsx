@@ -0,0 +1,416 @@
+/**
+ * VaxTrace Nigeria - FEFO Issue Panel
+ *
+ * Lets a facility or LGA store officer issue vaccines first-expiry-first-out.
+ *
+ * Features:
+ * - Requested doses per vaccine held at the store
+ * - Recommended lots: VVM stage 3 first, then earliest expiry
+ * - Lots that must not be issued (VVM stage 4, expired, quarantined)
+ * - Records the issue in the stock ledger
+ * - Signed delivery manifest for issues to a facility, printable as PDF, PNG or SVG
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, ClipboardList, Printer, QrCode, Truck } from 'lucide-react';
+import { formatDate, getVVMStageColor } from '@/lib/utils';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface VaccineLots {
+  vaccineId: string;
+  vaccineCode: string;
+  vaccineName: string;
+  stockOnHand: number;
+}
+
+interface FefoPick {
+  batchNumber: string;
+  expiryDate: string;
+  daysToExpiry: number;
+  vvmStage?: number;
+  quantityOnHand: number;
+  quantity: number;
+  reason: 'vvm_stage_3' | 'earliest_expiry';
+}
+
+interface FefoExcludedLot {
+  batchNumber: string;
+  expiryDate: string;
+  vvmStage?: number;
+  quantityOnHand: number;
+  reason: 'vvm_stage_4' | 'expired' | 'quarantined';
+}
+
+interface FefoItemRecommendation {
+  vaccineId: string;
+  vaccineCode: string;
+  vaccineName: string;
+  requestedQuantity: number;
+  allocatedQuantity: number;
+  shortfall: number;
+  picks: FefoPick[];
+  excluded: FefoExcludedLot[];
+}
+
+interface StockIssue {
+  issueId: string;
+  destinationFacilityId?: string;
+  issuedAt: string;
+  lines: { vaccineCode: string; batchNumber: string; quantity: number; quantityOnHand: number }[];
+}
+
+interface DeliveryManifest {
+  id: string;
+  destinationName?: string;
+  expiresAt: string;
+}
+
+interface FefoIssuePanelProps {
+  facilityId: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PICK_REASON_LABELS: Record<FefoPick['reason'], string> = {
+  vvm_stage_3: 'VVM 3 - use first',
+  earliest_expiry: 'Earliest expiry',
+};
+
+const MANIFEST_FORMATS = ['pdf', 'png', 'svg'] as const;
+
+const EXCLUSION_REASON_LABELS: Record<FefoExcludedLot['reason'], string> = {
+  vvm_stage_4: 'VVM 4 - discard',
+  expired: 'Expired',
+  quarantined: 'Quarantined',
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function FefoIssuePanel({ facilityId }: FefoIssuePanelProps) {
+  const { userSession } = useVaxTraceStore();
+  const [vaccines, setVaccines] = useState<VaccineLots[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [destinationFacilityId, setDestinationFacilityId] = useState('');
+  const [recommendation, setRecommendation] = useState<FefoItemRecommendation[] | null>(null);
+  const [issue, setIssue] = useState<StockIssue | null>(null);
+  const [manifest, setManifest] = useState<DeliveryManifest | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async <T,>(path: string, body?: unknown): Promise<T> => {
+      const response = await fetch(`/api/v1/stock/facilities/${facilityId}/${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(userSession?.accessToken ? { Authorization: `Bearer ${userSession.accessToken}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error?.message || 'Stock request failed');
+      }
+
+      return result.data as T;
+    },
+    [facilityId, userSession?.accessToken]
+  );
+
+  const authHeaders: Record<string, string> = userSession?.accessToken
+    ? { Authorization: `Bearer ${userSession.accessToken}` }
+    : {};
+
+  useEffect(() => {
+    request<{ vaccines: VaccineLots[] }>('lots')
+      .then((lots) => setVaccines(lots.vaccines))
+      .catch((err) => console.error('Error fetching facility lots:', err));
+  }, [request]);
+
+  const requestedItems = vaccines
+    .map((vaccine) => ({ vaccineCode: vaccine.vaccineCode, quantity: parseInt(quantities[vaccine.vaccineCode], 10) }))
+    .filter((item) => item.quantity > 0);
+
+  const picks = (recommendation || []).flatMap((item) =>
+    item.picks.map((pick) => ({ vaccineCode: item.vaccineCode, batchNumber: pick.batchNumber, quantity: pick.quantity }))
+  );
+
+  const handleRecommend = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setIssue(null);
+
+    try {
+      const result = await request<{ items: FefoItemRecommendation[] }>('fefo', { items: requestedItems });
+      setRecommendation(result.items);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await request<StockIssue>('issues', {
+        ...(destinationFacilityId.trim() ? { destinationFacilityId: destinationFacilityId.trim() } : {}),
+        lines: picks,
+      });
+      setIssue(result);
+      setManifest(null);
+      setRecommendation(null);
+      setQuantities({});
+
+      const lots = await request<{ vaccines: VaccineLots[] }>('lots');
+      setVaccines(lots.vaccines);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // The manifest's QR code travels with the shipment and is scanned on receipt
+  const handleGenerateManifest = async () => {
+    if (!issue?.destinationFacilityId) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/delivery/manifests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        body: JSON.stringify({
+          transferId: issue.issueId,
+          originId: facilityId,
+          destinationId: issue.destinationFacilityId,
+          items: issue.lines.map((line) => ({
+            vaccineCode: line.vaccineCode,
+            lotNumber: line.batchNumber,
+            quantity: line.quantity,
+          })),
+        }),
+      });
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error?.message || 'Failed to generate manifest');
+      }
+
+      setManifest(result.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePrintManifest = async (format: (typeof MANIFEST_FORMATS)[number]) => {
+    if (!manifest) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/delivery/manifests/${manifest.id}/qr?format=${format}`, {
+        headers: authHeaders,
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to download manifest');
+      }
+
+      window.open(URL.createObjectURL(await response.blob()), '_blank');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-4">
+      <h2 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+        <Truck className="w-5 h-5 text-cyan-400" />
+        Issue Vaccines (FEFO)
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Lots are recommended first-expiry-first-out, with VVM stage 3 lots issued first. VVM stage 4, expired and
+        quarantined lots are never issued.
+      </p>
+
+      {vaccines.length === 0 ? (
+        <p className="text-sm text-slate-400">No lots with doses on hand.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+          {vaccines.map((vaccine) => (
+            <label key={vaccine.vaccineId} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 block">
+              <span className="text-sm font-medium text-white">{vaccine.vaccineName}</span>
+              <span className="block text-xs text-slate-500 mb-2">{vaccine.stockOnHand.toLocaleString()} doses on hand</span>
+              <input
+                type="number"
+                min={0}
+                value={quantities[vaccine.vaccineCode] ?? ''}
+                onChange={(e) => setQuantities({ ...quantities, [vaccine.vaccineCode]: e.target.value })}
+                placeholder="Doses requested"
+                className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={destinationFacilityId}
+          onChange={(e) => setDestinationFacilityId(e.target.value)}
+          placeholder="Receiving facility ID (optional)"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-white"
+        />
+        <button
+          onClick={handleRecommend}
+          disabled={isSubmitting || requestedItems.length === 0}
+          className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-sm font-medium text-white disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <ClipboardList className="w-4 h-4" />
+          Recommend Lots
+        </button>
+        <button
+          onClick={handleIssue}
+          disabled={isSubmitting || picks.length === 0}
+          className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-medium text-white disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <CheckCircle className="w-4 h-4" />
+          Record Issue
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 rounded border bg-rose-500/10 border-rose-500/30 text-sm text-rose-400">{error}</div>
+      )}
+
+      {issue && (
+        <div className="p-3 mb-4 rounded border bg-emerald-500/10 border-emerald-500/30 text-sm text-emerald-400">
+          Issue recorded: {issue.lines.map((line) => `${line.quantity} × ${line.vaccineCode} ${line.batchNumber}`).join(', ')}
+          {issue.destinationFacilityId && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {manifest ? (
+                <>
+                  <span className="text-slate-300">
+                    Manifest for {manifest.destinationName || issue.destinationFacilityId}, valid until{' '}
+                    {formatDate(manifest.expiresAt)}:
+                  </span>
+                  {MANIFEST_FORMATS.map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handlePrintManifest(format)}
+                      className="px-3 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-white uppercase flex items-center gap-1"
+                    >
+                      <Printer className="w-3 h-3" />
+                      {format}
+                    </button>
+                  ))}
+                </>
+              ) : (
+                <button
+                  onClick={handleGenerateManifest}
+                  disabled={isSubmitting}
+                  className="px-3 py-1 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-xs text-white flex items-center gap-1"
+                >
+                  <QrCode className="w-3 h-3" />
+                  Generate Delivery Manifest
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {recommendation?.map((item) => (
+        <div key={item.vaccineId} className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-white">{item.vaccineName}</h3>
+            <span className="text-xs text-slate-400">
+              {item.allocatedQuantity} of {item.requestedQuantity} doses
+            </span>
+          </div>
+
+          {item.shortfall > 0 && (
+            <p className="text-xs text-amber-400 mb-2 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {item.shortfall} doses cannot be covered from issuable lots
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800">
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Batch</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Expiry</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">VVM</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">On Hand</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Issue</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {item.picks.map((pick) => (
+                  <tr key={pick.batchNumber}>
+                    <td className="px-4 py-2 text-sm text-white">{pick.batchNumber}</td>
+                    <td className="px-4 py-2 text-sm text-white">
+                      {formatDate(pick.expiryDate)}
+                      <span className="block text-xs text-slate-500">{pick.daysToExpiry} days</span>
+                    </td>
+                    <td className="px-4 py-2">
+                      {pick.vvmStage && (
+                        <span className={`px-2 py-1 rounded text-xs font-medium border ${getVVMStageColor(pick.vvmStage)}`}>
+                          Stage {pick.vvmStage}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-slate-300">{pick.quantityOnHand}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-emerald-400">{pick.quantity}</td>
+                    <td className="px-4 py-2 text-xs text-slate-400">{PICK_REASON_LABELS[pick.reason]}</td>
+                  </tr>
+                ))}
+                {item.excluded.map((lot) => (
+                  <tr key={lot.batchNumber} className="opacity-60">
+                    <td className="px-4 py-2 text-sm text-slate-400 line-through">{lot.batchNumber}</td>
+                    <td className="px-4 py-2 text-sm text-slate-400">{formatDate(lot.expiryDate)}</td>
+                    <td className="px-4 py-2">
+                      {lot.vvmStage && (
+                        <span className={`px-2 py-1 rounded text-xs font-medium border ${getVVMStageColor(lot.vvmStage)}`}>
+                          Stage {lot.vvmStage}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-slate-400">{lot.quantityOnHand}</td>
+                    <td className="px-4 py-2 text-sm text-slate-500">-</td>
+                    <td className="px-4 py-2 text-xs text-rose-400">{EXCLUSION_REASON_LABELS[lot.reason]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * VaxTrace Nigeria - Stock Ledger Tab
+ *
+ * Transaction history of a facility or LGA store, so a stock discrepancy
+ * can be traced to the transaction that caused it.
+ *
+ * Features:
+ * - Filters by product, transaction type, reason and date range
+ * - Running balance computed by the server for every entry
+ * - Entries whose recorded balance disagrees with the previous one flagged
+ * - Losses recorded with a standardised reason
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, BookOpen, ChevronLeft, ChevronRight, MinusCircle } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+type ReasonCode = 'damaged' | 'expired' | 'vvm_discard' | 'lost' | 'transfer_in' | 'transfer_out';
+
+interface StockLedgerEntry {
+  id: string;
+  vaccineCode: string;
+  vaccineName: string;
+  transactionType?: string;
+  reasonCode?: ReasonCode;
+  transactionReference?: string;
+  notes?: string;
+  quantity: number;
+  quantityOnHand: number;
+  runningBalance: number;
+  variance: number;
+  recordedAt: string;
+}
+
+interface StockLedgerPage {
+  data: StockLedgerEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface StockLedgerTabProps {
+  facilityId: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAGE_SIZE = 25;
+
+const TRANSACTION_TYPES = ['receipt', 'issue', 'adjustment', 'loss'];
+
+const REASON_LABELS: Record<ReasonCode, string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  vvm_discard: 'VVM discard',
+  lost: 'Lost',
+  transfer_in: 'Transfer in',
+  transfer_out: 'Transfer out',
+};
+
+const LOSS_REASONS: ReasonCode[] = ['damaged', 'expired', 'vvm_discard', 'lost'];
+
+const EMPTY_LOSS = { vaccineCode: '', batchNumber: '', quantity: '', reasonCode: 'damaged' as ReasonCode, notes: '' };
+
+const fieldClassName = 'bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-white';
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function StockLedgerTab({ facilityId }: StockLedgerTabProps) {
+  const { userSession } = useVaxTraceStore();
+  const [filters, setFilters] = useState({ vaccineCode: '', transactionType: '', reasonCode: '', from: '', to: '' });
+  const [page, setPage] = useState(1);
+  const [ledger, setLedger] = useState<StockLedgerPage | null>(null);
+  const [loss, setLoss] = useState(EMPTY_LOSS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(userSession?.accessToken ? { Authorization: `Bearer ${userSession.accessToken}` } : {}),
+  };
+
+  const fetchLedger = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ facilityId, page: String(page), limit: String(PAGE_SIZE) });
+      Object.entries(filters).forEach(([key, value]) => value && params.set(key, value));
+
+      const response = await fetch(`/api/v1/stock-ledger?${params}`, {
+        headers: userSession?.accessToken ? { Authorization: `Bearer ${userSession.accessToken}` } : {},
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to fetch stock ledger');
+      }
+
+      setLedger(result.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [facilityId, filters, page, userSession?.accessToken]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  const handleRecordLoss = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/stock-ledger/losses', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          facilityId,
+          vaccineCode: loss.vaccineCode.trim(),
+          batchNumber: loss.batchNumber.trim(),
+          quantity: parseInt(loss.quantity, 10),
+          reasonCode: loss.reasonCode,
+          ...(loss.notes.trim() ? { notes: loss.notes.trim() } : {}),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to record loss');
+      }
+
+      setLoss(EMPTY_LOSS);
+      await fetchLedger();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const totalPages = ledger ? Math.max(1, Math.ceil(ledger.total / ledger.limit)) : 1;
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-4 space-y-4">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-cyan-400" />
+        Stock Ledger
+      </h2>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <input
+          type="text"
+          value={filters.vaccineCode}
+          onChange={(e) => updateFilter('vaccineCode', e.target.value.toUpperCase())}
+          placeholder="Product code"
+          className={fieldClassName}
+        />
+        <select
+          value={filters.transactionType}
+          onChange={(e) => updateFilter('transactionType', e.target.value)}
+          className={fieldClassName}
+        >
+          <option value="">All transactions</option>
+          {TRANSACTION_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select value={filters.reasonCode} onChange={(e) => updateFilter('reasonCode', e.target.value)} className={fieldClassName}>
+          <option value="">All reasons</option>
+          {Object.entries(REASON_LABELS).map(([code, label]) => (
+            <option key={code} value={code}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={fieldClassName} />
+        <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={fieldClassName} />
+      </div>
+
+      {error && <div className="p-3 rounded border bg-rose-500/10 border-rose-500/30 text-sm text-rose-400">{error}</div>}
+
+      {/* Entries */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Recorded</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Product</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Transaction</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Reason</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-slate-400 uppercase">Change</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-slate-400 uppercase">Recorded Balance</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-slate-400 uppercase">Running Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {ledger?.data.map((entry) => (
+              <tr key={entry.id} className={entry.variance !== 0 ? 'bg-amber-500/5' : 'hover:bg-slate-800/50 transition-colors'}>
+                <td className="px-4 py-3 text-sm text-slate-300">{formatDateTime(entry.recordedAt)}</td>
+                <td className="px-4 py-3 text-sm text-white">{entry.vaccineName}</td>
+                <td className="px-4 py-3">
+                  <div className="text-sm text-white capitalize">{entry.transactionType || '-'}</div>
+                  <div className="text-xs text-slate-500">{entry.transactionReference}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="text-sm text-slate-300">{entry.reasonCode ? REASON_LABELS[entry.reasonCode] : '-'}</div>
+                  {entry.notes && <div className="text-xs text-slate-500">{entry.notes}</div>}
+                </td>
+                <td className={`px-4 py-3 text-sm text-right ${entry.quantity < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                  {entry.quantity > 0 ? `+${entry.quantity}` : entry.quantity}
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-white">{entry.quantityOnHand.toLocaleString()}</td>
+                <td className="px-4 py-3 text-sm text-right text-white">
+                  {entry.runningBalance.toLocaleString()}
+                  {entry.variance !== 0 && (
+                    <div className="text-xs text-amber-400 flex items-center justify-end gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      {entry.variance > 0 ? `+${entry.variance}` : entry.variance} unexplained
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!isLoading && ledger?.data.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-6">No ledger entries match the filters.</p>
+        )}
+      </div>
+
+      {ledger && ledger.total > ledger.limit && (
+        <div className="flex items-center justify-end gap-2 text-sm text-slate-400">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="p-1 hover:bg-slate-800 rounded disabled:opacity-50"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          Page {page} of {totalPages}
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="p-1 hover:bg-slate-800 rounded disabled:opacity-50"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Record Loss */}
+      <form onSubmit={handleRecordLoss} className="border-t border-slate-800 pt-4">
+        <h3 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
+          <MinusCircle className="w-4 h-4" />
+          Record Loss
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          <input
+            type="text"
+            required
+            value={loss.vaccineCode}
+            onChange={(e) => setLoss({ ...loss, vaccineCode: e.target.value.toUpperCase() })}
+            placeholder="Product code"
+            className={fieldClassName}
+          />
+          <input
+            type="text"
+            required
+            value={loss.batchNumber}
+            onChange={(e) => setLoss({ ...loss, batchNumber: e.target.value })}
+            placeholder="Batch number"
+            className={fieldClassName}
+          />
+          <input
+            type="number"
+            required
+            min={1}
+            value={loss.quantity}
+            onChange={(e) => setLoss({ ...loss, quantity: e.target.value })}
+            placeholder="Doses"
+            className={fieldClassName}
+          />
+          <select
+            value={loss.reasonCode}
+            onChange={(e) => setLoss({ ...loss, reasonCode: e.target.value as ReasonCode })}
+            className={fieldClassName}
+          >
+            {LOSS_REASONS.map((code) => (
+              <option key={code} value={code}>
+                {REASON_LABELS[code]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={loss.notes}
+            onChange={(e) => setLoss({ ...loss, notes: e.target.value })}
+            placeholder="Notes (optional)"
+            className={fieldClassName}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg bg-rose-600 hover:bg-rose-500 text-sm font-medium text-white"
+          >
+            Record Loss
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
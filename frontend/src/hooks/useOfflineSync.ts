@@ -9,6 +9,7 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { indexedDB, createLMDRecord, LMDRecord, OfflineStats, setupNetworkListeners } from '@/lib/indexeddb';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
 
 // Extend ServiceWorkerRegistration for background sync
 interface ServiceWorkerRegistrationWithSync extends ServiceWorkerRegistration {
@@ -35,6 +36,7 @@ export function useOfflineSync(): UseOfflineSyncReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const swRef = useRef<ServiceWorkerRegistrationWithSync | null>(null);
+  const { userSession } = useVaxTraceStore();
 
   // Initialize IndexedDB and service worker
   useEffect(() => {
@@ -255,6 +257,7 @@ export function useOfflineSync(): UseOfflineSyncReturn {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              ...(userSession?.accessToken ? { Authorization: `Bearer ${userSession.accessToken}` } : {}),
             },
             body: JSON.stringify(record),
           });
@@ -275,7 +278,7 @@ export function useOfflineSync(): UseOfflineSyncReturn {
       setError(err instanceof Error ? err.message : String(err));
       throw err;
     }
-  }, [isOnline, refreshStats]);
+  }, [isOnline, refreshStats, userSession?.accessToken]);
 
   /**
    * Clear all data
@@ -14,6 +14,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { indexedDB, createLMDRecord, LMDRecord, OfflineStats, setupNetworkListeners } from '@/lib/indexeddb';
 import { optimizedFetch, getNetworkQuality, requestQueue } from '@/lib/api-optimizations';
+import { useVaxTraceStore } from '@/store/useVaxTraceStore';
 
 // Extend ServiceWorkerRegistration for background sync
 interface ServiceWorkerRegistrationWithSync extends ServiceWorkerRegistration {
@@ -82,6 +83,7 @@ export function useOfflineSyncEnhanced(): UseOfflineSyncEnhancedReturn {
   const swRef = useRef<ServiceWorkerRegistrationWithSync | null>(null);
   const syncInProgress = useRef(false);
   const networkQuality = getNetworkQuality();
+  const { userSession } = useVaxTraceStore();
 
   // Get sync config based on network quality
   const getSyncConfig = () => {
@@ -310,6 +312,7 @@ export function useOfflineSyncEnhanced(): UseOfflineSyncEnhancedReturn {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(userSession?.accessToken ? { Authorization: `Bearer ${userSession.accessToken}` } : {}),
         },
         body: JSON.stringify(record),
         compress: true,
@@ -378,7 +381,7 @@ export function useOfflineSyncEnhanced(): UseOfflineSyncEnhancedReturn {
       syncInProgress.current = false;
       setIsLoading(false);
     }
-  }, [isOnline, refreshStats, networkQuality]);
+  }, [isOnline, refreshStats, networkQuality, userSession?.accessToken]);
 
   /**
    * Manually trigger sync
@@ -425,7 +428,7 @@ export function useOfflineSyncEnhanced(): UseOfflineSyncEnhancedReturn {
       syncInProgress.current = false;
       setIsLoading(false);
     }
-  }, [isOnline, refreshStats]);
+  }, [isOnline, refreshStats, userSession?.accessToken]);
 
   /**
    * Clear all data
@@ -0,0 +1,181 @@
+/**
+ * VaxTrace Nigeria - Delivery Manifest Helpers
+ *
+ * Reads and verifies the signed manifests printed as QR codes on shipments
+ * (VXT1.<payload>.<signature>, see the backend DeliveryManifestService).
+ * The ES256 public key is cached on the device, so manifests can be
+ * verified offline; the backend verifies them again on confirmation.
+ */
+
+import { base64UrlToBuffer } from '@/lib/webauthn';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ManifestItem {
+  vaccineCode: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+export interface DeliveryManifest {
+  token: string;
+  manifestId: string;
+  transferId: string;
+  origin: { id: string; name: string };
+  destination: { id: string; name: string };
+  items: ManifestItem[];
+  issuedAt: string;
+  expiresAt: string;
+  keyId: string;
+}
+
+export interface ManifestPublicKey {
+  keyId: string;
+  algorithm: string;
+  jwk: JsonWebKey;
+}
+
+export type ManifestVerification =
+  | { status: 'verified'; manifest: DeliveryManifest }
+  | { status: 'unverified'; manifest: DeliveryManifest; reason: string }
+  | { status: 'invalid'; reason: string };
+
+interface ManifestPayload {
+  v: number;
+  mid: string;
+  tid: string;
+  from: { id: string; n: string };
+  to: { id: string; n: string };
+  items: { c: string; l: string; e: string; q: number }[];
+  iat: number;
+  exp: number;
+  kid: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TOKEN_PREFIX = 'VXT1';
+const PUBLIC_KEY_STORAGE_KEY = 'vaxtrace-manifest-public-key';
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Decode a scanned manifest without checking its signature
+ */
+export function parseManifest(code: string): DeliveryManifest | null {
+  const token = code.trim();
+  const parts = token.split('.');
+
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) {
+    return null;
+  }
+
+  try {
+    const payload: ManifestPayload = JSON.parse(new TextDecoder().decode(base64UrlToBuffer(parts[1])));
+
+    return {
+      token,
+      manifestId: payload.mid,
+      transferId: payload.tid,
+      origin: { id: payload.from.id, name: payload.from.n },
+      destination: { id: payload.to.id, name: payload.to.n },
+      items: payload.items.map((item) => ({
+        vaccineCode: item.c,
+        lotNumber: item.l,
+        expiryDate: item.e,
+        quantity: item.q,
+      })),
+      issuedAt: new Date(payload.iat * 1000).toISOString(),
+      expiresAt: new Date(payload.exp * 1000).toISOString(),
+      keyId: payload.kid,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// PUBLIC KEY
+// ============================================
+
+export function getCachedPublicKey(): ManifestPublicKey | null {
+  try {
+    const cached = localStorage.getItem(PUBLIC_KEY_STORAGE_KEY);
+    return cached ? (JSON.parse(cached) as ManifestPublicKey) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the signing key and cache it; falls back to the cached key offline
+ */
+export async function refreshPublicKey(accessToken?: string): Promise<ManifestPublicKey | null> {
+  try {
+    const response = await fetch('/api/v1/delivery/manifests/public-key', {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    });
+    const result = await response.json();
+
+    if (response.ok && result.success) {
+      localStorage.setItem(PUBLIC_KEY_STORAGE_KEY, JSON.stringify(result.data));
+      return result.data;
+    }
+  } catch (error) {
+    console.warn('Manifest public key unavailable, using cached key:', error);
+  }
+
+  return getCachedPublicKey();
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Verify a scanned manifest on the device. Without a key for the manifest
+ * (never online since the key changed) it can only be checked by the server.
+ */
+export async function verifyManifest(code: string, accessToken?: string): Promise<ManifestVerification> {
+  const manifest = parseManifest(code);
+
+  if (!manifest) {
+    return { status: 'invalid', reason: 'This QR code is not a VaxTrace delivery manifest' };
+  }
+
+  let publicKey = getCachedPublicKey();
+  if (publicKey?.keyId !== manifest.keyId && navigator.onLine) {
+    publicKey = await refreshPublicKey(accessToken);
+  }
+
+  if (publicKey?.keyId !== manifest.keyId) {
+    return { status: 'unverified', manifest, reason: 'Signing key not available offline' };
+  }
+
+  const [prefix, payload, signature] = manifest.token.split('.');
+  const key = await crypto.subtle.importKey('jwk', publicKey.jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, [
+    'verify',
+  ]);
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    base64UrlToBuffer(signature),
+    new TextEncoder().encode(`${prefix}.${payload}`)
+  );
+
+  if (!valid) {
+    return { status: 'invalid', reason: 'Manifest signature is invalid; the QR code may have been altered' };
+  }
+  if (new Date(manifest.expiresAt).getTime() <= Date.now()) {
+    return { status: 'invalid', reason: `Manifest expired on ${manifest.expiresAt.slice(0, 10)}` };
+  }
+
+  return { status: 'verified', manifest };
+}
@@ -0,0 +1,152 @@
+/**
+ * VaxTrace Nigeria - Delivery Receipts
+ *
+ * Submits the proof of delivery captured on the scan page. Receipts taken
+ * without signal are queued in IndexedDB and submitted when the device is
+ * back online; the signed manifest travels with the receipt, so the backend
+ * checks it exactly as if it had been confirmed on the spot.
+ */
+
+import { indexedDB, DeliveryReceiptPayload } from '@/lib/indexeddb';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DeliveryConfirmation {
+  confirmationId: string;
+  transferId: string;
+  status: string;
+  confirmedAt: string;
+  meta?: {
+    facilityId?: string;
+    facilityName?: string;
+    vvmStatus?: string;
+    temperatureStatus?: string;
+  };
+}
+
+export type ReceiptSubmission =
+  | { status: 'confirmed'; confirmation: DeliveryConfirmation }
+  | { status: 'queued' };
+
+export interface ReceiptFlushResult {
+  confirmed: DeliveryConfirmation[];
+  pending: number;
+}
+
+/**
+ * Rejected by the backend; resubmitting the same receipt will not succeed
+ */
+export class DeliveryReceiptError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'DeliveryReceiptError';
+  }
+}
+
+// ============================================
+// SUBMISSION
+// ============================================
+
+/**
+ * Submit a receipt, or queue it when the device is offline or the backend
+ * cannot be reached
+ */
+export async function submitDeliveryReceipt(
+  payload: DeliveryReceiptPayload,
+  accessToken?: string
+): Promise<ReceiptSubmission> {
+  if (!navigator.onLine) {
+    await indexedDB.queueDeliveryReceipt(payload);
+    return { status: 'queued' };
+  }
+
+  try {
+    return { status: 'confirmed', confirmation: await postReceipt(payload, accessToken) };
+  } catch (error) {
+    if (error instanceof DeliveryReceiptError) {
+      throw error;
+    }
+
+    console.warn('Delivery confirmation failed, queued for sync:', error);
+    await indexedDB.queueDeliveryReceipt(payload);
+    return { status: 'queued' };
+  }
+}
+
+/**
+ * Submit queued receipts, oldest first. A receipt whose manifest has already
+ * been received (409) was submitted before, so it leaves the queue; other
+ * rejections stay queued with the error for the officer to review.
+ */
+export async function flushDeliveryReceipts(accessToken?: string): Promise<ReceiptFlushResult> {
+  const receipts = await indexedDB.getPendingDeliveryReceipts();
+  const confirmed: DeliveryConfirmation[] = [];
+  let pending = 0;
+
+  for (let index = 0; index < receipts.length; index++) {
+    const receipt = receipts[index];
+
+    try {
+      confirmed.push(await postReceipt(receipt.payload, accessToken));
+      await indexedDB.removeDeliveryReceipt(receipt.id);
+    } catch (error: any) {
+      if (error instanceof DeliveryReceiptError && error.status === 409) {
+        await indexedDB.removeDeliveryReceipt(receipt.id);
+        continue;
+      }
+
+      pending++;
+      await indexedDB.updateDeliveryReceipt(receipt.id, {
+        retryCount: receipt.retryCount + 1,
+        lastAttempt: new Date().toISOString(),
+        error: error.message,
+      });
+
+      // Still unreachable; the rest will not get through either
+      if (!(error instanceof DeliveryReceiptError)) {
+        pending += receipts.length - index - 1;
+        break;
+      }
+    }
+  }
+
+  return { confirmed, pending };
+}
+
+export async function countPendingDeliveryReceipts(): Promise<number> {
+  return (await indexedDB.getPendingDeliveryReceipts()).length;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function postReceipt(payload: DeliveryReceiptPayload, accessToken?: string): Promise<DeliveryConfirmation> {
+  const response = await fetch('/api/v1/delivery/confirm', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const result = await response.json().catch(() => null);
+
+  if (response.ok && result?.success) {
+    return result.data;
+  }
+
+  const message = result?.error?.message || 'Failed to confirm delivery';
+
+  // 5xx means the backend was not reached or failed; worth retrying later
+  if (response.status >= 500) {
+    throw new Error(message);
+  }
+  throw new DeliveryReceiptError(message, response.status);
+}
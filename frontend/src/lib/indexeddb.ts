@@ -8,6 +8,7 @@
  * - Local storage of LMD KPIs (delivery timestamps, VVM status, GPS coordinates)
  * - Automatic sync when device reconnects to 2G/3G network
  * - Queue-based data management for background sync
+ * - Delivery receipts (proof of delivery) queued until the device is online
  * - Protobuf-ready data structure
  * 
  * @see https://github.com/jakearchibald/idb
@@ -64,6 +65,37 @@ export interface LMDSyncQueue {
   createdAt: string;
 }
 
+export interface DeliveryReceiptPayload {
+  manifest: string;
+  qrCodeId: string;
+  transferId: string;
+  vvmStage: number;
+  temperature: number;
+  notes?: string;
+  timestamp: string;
+  location?: {
+    lat: number;
+    lng: number;
+  };
+  photo?: string;
+  items: {
+    vaccineCode: string;
+    lotNumber: string;
+    quantity: number;
+    damagedQuantity: number;
+    vvmStage: number;
+  }[];
+}
+
+export interface PendingDeliveryReceipt {
+  id: string;
+  payload: DeliveryReceiptPayload;
+  retryCount: number;
+  lastAttempt?: string;
+  error?: string;
+  createdAt: string;
+}
+
 export interface OfflineStats {
   pendingSync: number;
   syncedToday: number;
@@ -99,6 +131,13 @@ interface VaxTraceDB extends DBSchema {
     key: string;
     value: OfflineStats;
   };
+  'delivery-receipts': {
+    key: string;
+    value: PendingDeliveryReceipt;
+    indexes: {
+      'by-created': string;
+    };
+  };
 }
 
 // ============================================
@@ -106,7 +145,7 @@ interface VaxTraceDB extends DBSchema {
 // ============================================
 
 const DB_NAME = 'VaxTraceLMD';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 // ============================================
 // INDEXEDDB SERVICE
@@ -146,6 +185,12 @@ class IndexedDBService {
         if (!db.objectStoreNames.contains('lmd-offline-stats')) {
           db.createObjectStore('lmd-offline-stats', { keyPath: 'id' });
         }
+
+        // Create delivery receipts store (version 2)
+        if (!db.objectStoreNames.contains('delivery-receipts')) {
+          const receiptStore = db.createObjectStore('delivery-receipts', { keyPath: 'id' });
+          receiptStore.createIndex('by-created', 'createdAt');
+        }
       },
     });
 
@@ -289,6 +334,48 @@ class IndexedDBService {
     await db.delete('lmd-sync-queue', id);
   }
 
+  /**
+   * Queue a delivery receipt; a manifest is only received once, so it keys the receipt
+   */
+  async queueDeliveryReceipt(payload: DeliveryReceiptPayload): Promise<PendingDeliveryReceipt> {
+    const db = await this.init();
+    const receipt: PendingDeliveryReceipt = {
+      id: payload.qrCodeId,
+      payload,
+      retryCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await db.put('delivery-receipts', receipt);
+    return receipt;
+  }
+
+  /**
+   * Get queued delivery receipts, oldest first
+   */
+  async getPendingDeliveryReceipts(): Promise<PendingDeliveryReceipt[]> {
+    const db = await this.init();
+    return db.getAllFromIndex('delivery-receipts', 'by-created');
+  }
+
+  /**
+   * Update a queued delivery receipt (increment retry count, add error)
+   */
+  async updateDeliveryReceipt(id: string, updates: Partial<PendingDeliveryReceipt>): Promise<void> {
+    const db = await this.init();
+    const receipt = await db.get('delivery-receipts', id);
+    if (receipt) {
+      await db.put('delivery-receipts', { ...receipt, ...updates });
+    }
+  }
+
+  /**
+   * Remove a delivery receipt from the queue
+   */
+  async removeDeliveryReceipt(id: string): Promise<void> {
+    const db = await this.init();
+    await db.delete('delivery-receipts', id);
+  }
+
   /**
    * Get offline statistics
    */
@@ -334,6 +421,7 @@ class IndexedDBService {
     await db.clear('lmd-records');
     await db.clear('lmd-sync-queue');
     await db.clear('lmd-offline-stats');
+    await db.clear('delivery-receipts');
   }
 
   /**
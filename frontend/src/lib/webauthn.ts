@@ -0,0 +1,157 @@
+/**
+ * VaxTrace Nigeria - WebAuthn Client Helpers
+ *
+ * Runs the browser side of the FIDO2 ceremonies issued by the backend
+ * (/api/v1/auth/webauthn/*). Binary fields travel as base64url strings.
+ */
+
+import type { UserSession } from '@/store/useVaxTraceStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CredentialDescriptorJSON {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface RegistrationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+  excludeCredentials: CredentialDescriptorJSON[];
+}
+
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: UserVerificationRequirement;
+  allowCredentials: CredentialDescriptorJSON[];
+}
+
+export interface WebAuthnCredentialInfo {
+  id: string;
+  deviceName?: string;
+  aaguid?: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * AuthResponseDto returned by the login endpoints
+ */
+export interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: UserSession['user'];
+  permissions: UserSession['permissions'];
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const toDescriptor = (descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor => ({
+  type: descriptor.type,
+  id: base64UrlToBuffer(descriptor.id),
+  transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+});
+
+// ============================================
+// CEREMONIES
+// ============================================
+
+/**
+ * Create a credential on this device; returns the body for POST /auth/webauthn/register
+ */
+export async function createCredential(options: RegistrationOptionsJSON, deviceName?: string) {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Device registration was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    credentialId: credential.id,
+    clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+    attestationObject: bufferToBase64Url(response.attestationObject),
+    transports: response.getTransports?.() || [],
+    deviceName,
+  };
+}
+
+/**
+ * Sign the login challenge; returns the body for POST /auth/biometric
+ */
+export async function getAssertion(options: AuthenticationOptionsJSON) {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Biometric sign-in was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    credentialId: credential.id,
+    clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+    authenticatorData: bufferToBase64Url(response.authenticatorData),
+    signature: bufferToBase64Url(response.signature),
+  };
+}
+
+/**
+ * Build the store session from a login response
+ */
+export function toUserSession(auth: AuthResponse): UserSession {
+  return {
+    isAuthenticated: true,
+    user: auth.user,
+    permissions: auth.permissions,
+    accessToken: auth.accessToken,
+    loginTime: new Date().toISOString(),
+  };
+}
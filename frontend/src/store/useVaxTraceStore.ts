@@ -94,6 +94,7 @@ export interface UserSession {
     assignedLocationId?: string;
   };
   permissions: UserPermissions;
+  accessToken?: string;
   loginTime: string;
 }
 
@@ -430,7 +431,10 @@ export const useVaxTraceStore = create<VaxTraceState & VaxTraceActions>()(
         fetchPredictiveInsights: async () => {
           set({ insightsLoading: true });
           try {
-            const response = await fetch('/api/predictive-insights');
+            const accessToken = get().userSession?.accessToken;
+            const response = await fetch('/api/predictive-insights', {
+              headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+            });
             const json = await response.json();
             set({ predictiveInsights: json.data || [], insightsLoading: false });
           } catch (error) {